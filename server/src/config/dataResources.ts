@@ -0,0 +1,522 @@
+/**
+ * Data Resources Registry
+ * Tables exposed through the generic /api/query, /api/insert, /api/update and /api/delete
+ * endpoints, with the columns, filters, relations and roles allowed on each. Tables that are
+ * not listed here (zoho_tokens, otp_requests, booking_locks, ...) are not reachable at all.
+ *
+ * solution_owner may use every operation on every resource and is not tenant scoped.
+ */
+
+export type DataRole = 'solution_owner' | 'tenant_admin' | 'receptionist' | 'cashier' | 'employee' | 'customer';
+
+export interface RelationDefinition {
+  // Registered resource the relation points to
+  table: string;
+  // one: each row references a single related row; many: related rows reference this row
+  type: 'one' | 'many';
+  // Column on this table (usually the foreign key for "one", id for "many")
+  column: string;
+  // Column on the related table (id for "one", the foreign key for "many")
+  foreignColumn: string;
+}
+
+export interface DataResource {
+  // Columns that can be selected, filtered on and returned
+  columns: string[];
+  // Columns only the listed roles may see (e.g. provider credentials)
+  restrictedColumns?: Record<string, DataRole[]>;
+  // Columns accepted in insert/update data; anything else is rejected
+  writable?: string[];
+  // Columns accepted in where/filters (defaults to the readable columns)
+  filters?: string[];
+  // JSONB columns: objects and arrays are serialized and cast on write
+  jsonColumns?: string[];
+  relations?: Record<string, RelationDefinition>;
+  // Column holding the owning tenant (id for the tenants table itself)
+  tenantColumn?: string;
+  // For tables without a tenant column: rows belong to the tenant owning the referenced parent
+  tenantVia?: { column: string; table: string };
+  // Column holding the customer's user id; customers only ever see (and write) their own rows
+  ownerColumn?: string;
+  // ON CONFLICT clause used for inserts, for join tables written in bulk
+  onConflict?: string;
+  read: DataRole[];
+  insert?: DataRole[];
+  update?: DataRole[];
+  delete?: DataRole[];
+}
+
+export interface RpcDefinition {
+  // Named parameters accepted, in call order
+  params: string[];
+  roles: DataRole[];
+  // The parameter must reference a row of this resource belonging to the caller's tenant
+  tenantParam?: { param: string; table: string };
+}
+
+const ADMIN: DataRole[] = ['tenant_admin'];
+const FRONT_DESK: DataRole[] = ['tenant_admin', 'receptionist'];
+const STAFF: DataRole[] = ['tenant_admin', 'receptionist', 'cashier', 'employee'];
+const EVERYONE: DataRole[] = [...STAFF, 'customer'];
+
+export const DATA_RESOURCES: Record<string, DataResource> = {
+  tenants: {
+    columns: [
+      'id', 'name', 'name_ar', 'slug', 'industry', 'contact_email', 'contact_phone', 'address', 'logo_url',
+      'tenant_time_zone', 'announced_time_zone', 'theme_preset', 'custom_theme_config', 'public_page_enabled',
+      'landing_page_settings', 'booking_policy', 'payment_settings', 'reminder_settings', 'smtp_settings',
+      'whatsapp_settings', 'maintenance_mode', 'maintenance_message', 'maintenance_message_ar',
+      'maintenance_starts_at', 'maintenance_ends_at', 'is_active', 'subscription_start',
+      'subscription_end', 'created_at', 'updated_at',
+    ],
+    restrictedColumns: {
+      payment_settings: ADMIN,
+      smtp_settings: ADMIN,
+      whatsapp_settings: ADMIN,
+    },
+    writable: [
+      'name', 'name_ar', 'industry', 'contact_email', 'contact_phone', 'address', 'logo_url',
+      'tenant_time_zone', 'announced_time_zone', 'theme_preset', 'custom_theme_config', 'public_page_enabled',
+      'landing_page_settings', 'booking_policy', 'payment_settings', 'reminder_settings', 'smtp_settings',
+      'whatsapp_settings', 'maintenance_mode', 'maintenance_message', 'maintenance_message_ar',
+      'maintenance_starts_at', 'maintenance_ends_at',
+    ],
+    jsonColumns: [
+      'custom_theme_config', 'landing_page_settings', 'booking_policy', 'payment_settings',
+      'reminder_settings', 'smtp_settings', 'whatsapp_settings',
+    ],
+    tenantColumn: 'id',
+    read: EVERYONE,
+    update: ADMIN,
+  },
+
+  users: {
+    columns: [
+      'id', 'tenant_id', 'email', 'username', 'phone', 'full_name', 'full_name_ar', 'role', 'is_active',
+      'capacity_per_slot', 'created_at', 'updated_at',
+    ],
+    // Role, tenant and credentials are managed through /api/auth and /api/employees only
+    writable: ['full_name', 'full_name_ar', 'phone', 'is_active', 'capacity_per_slot'],
+    relations: {
+      employee_services: { table: 'employee_services', type: 'many', column: 'id', foreignColumn: 'employee_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: STAFF,
+    update: ADMIN,
+  },
+
+  service_categories: {
+    columns: ['id', 'tenant_id', 'name', 'name_ar', 'description', 'description_ar', 'display_order', 'created_at'],
+    writable: ['name', 'name_ar', 'description', 'description_ar', 'display_order'],
+    relations: {
+      services: { table: 'services', type: 'many', column: 'id', foreignColumn: 'category_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  services: {
+    columns: [
+      'id', 'tenant_id', 'category_id', 'assigned_employee_id', 'name', 'name_ar', 'description', 'description_ar',
+      'duration_minutes', 'base_price', 'original_price', 'adult_price', 'child_price', 'discount_percentage',
+      'discount_start_date', 'discount_end_date', 'capacity_mode', 'capacity_per_slot', 'service_duration_minutes',
+      'service_capacity_per_slot', 'image_url', 'gallery_urls', 'what_to_expect', 'show_what_to_expect',
+      'what_to_expect_images', 'booking_fields', 'is_public', 'is_active', 'created_at', 'updated_at',
+    ],
+    writable: [
+      'category_id', 'assigned_employee_id', 'name', 'name_ar', 'description', 'description_ar', 'duration_minutes',
+      'base_price', 'original_price', 'adult_price', 'child_price', 'discount_percentage', 'discount_start_date',
+      'discount_end_date', 'capacity_mode', 'capacity_per_slot', 'service_duration_minutes',
+      'service_capacity_per_slot', 'image_url', 'gallery_urls', 'what_to_expect', 'show_what_to_expect',
+      'what_to_expect_images', 'booking_fields', 'is_public', 'is_active',
+    ],
+    jsonColumns: ['gallery_urls', 'what_to_expect_images', 'booking_fields'],
+    relations: {
+      service_categories: { table: 'service_categories', type: 'one', column: 'category_id', foreignColumn: 'id' },
+      users: { table: 'users', type: 'one', column: 'assigned_employee_id', foreignColumn: 'id' },
+      service_offers: { table: 'service_offers', type: 'many', column: 'id', foreignColumn: 'service_id' },
+      shifts: { table: 'shifts', type: 'many', column: 'id', foreignColumn: 'service_id' },
+      employee_services: { table: 'employee_services', type: 'many', column: 'id', foreignColumn: 'service_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  service_offers: {
+    columns: [
+      'id', 'tenant_id', 'service_id', 'name', 'name_ar', 'description', 'description_ar', 'price',
+      'original_price', 'discount_percentage', 'duration_minutes', 'closing_time', 'meeting_point',
+      'meeting_point_ar', 'perks', 'perks_ar', 'badge', 'badge_ar', 'display_order', 'start_date', 'end_date',
+      'is_active', 'created_at', 'updated_at',
+    ],
+    writable: [
+      'service_id', 'name', 'name_ar', 'description', 'description_ar', 'price', 'original_price',
+      'discount_percentage', 'duration_minutes', 'closing_time', 'meeting_point', 'meeting_point_ar', 'perks',
+      'perks_ar', 'badge', 'badge_ar', 'display_order', 'start_date', 'end_date', 'is_active',
+    ],
+    jsonColumns: ['perks', 'perks_ar'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  promo_codes: {
+    columns: [
+      'id', 'tenant_id', 'code', 'description', 'discount_type', 'discount_value', 'service_id', 'valid_from',
+      'valid_until', 'max_uses', 'max_uses_per_customer', 'min_spend', 'is_active', 'created_at', 'updated_at',
+    ],
+    writable: [
+      'code', 'description', 'discount_type', 'discount_value', 'service_id', 'valid_from', 'valid_until',
+      'max_uses', 'max_uses_per_customer', 'min_spend', 'is_active',
+    ],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      promo_code_redemptions: { table: 'promo_code_redemptions', type: 'many', column: 'id', foreignColumn: 'promo_code_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: ADMIN,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  promo_code_redemptions: {
+    columns: ['id', 'tenant_id', 'promo_code_id', 'booking_id', 'customer_id', 'customer_phone', 'discount_amount', 'created_at'],
+    relations: {
+      bookings: { table: 'bookings', type: 'one', column: 'booking_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: ADMIN,
+  },
+
+  shifts: {
+    columns: ['id', 'tenant_id', 'service_id', 'days_of_week', 'start_time_utc', 'end_time_utc', 'is_active', 'created_at'],
+    writable: ['service_id', 'days_of_week', 'start_time_utc', 'end_time_utc', 'is_active'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      employee_services: { table: 'employee_services', type: 'many', column: 'id', foreignColumn: 'shift_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: STAFF,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  employee_services: {
+    columns: [
+      'id', 'tenant_id', 'employee_id', 'service_id', 'shift_id', 'duration_minutes', 'capacity_per_slot',
+      'custom_duration_minutes', 'custom_capacity', 'created_at',
+    ],
+    writable: [
+      'employee_id', 'service_id', 'shift_id', 'duration_minutes', 'capacity_per_slot',
+      'custom_duration_minutes', 'custom_capacity',
+    ],
+    relations: {
+      users: { table: 'users', type: 'one', column: 'employee_id', foreignColumn: 'id' },
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      shifts: { table: 'shifts', type: 'one', column: 'shift_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    onConflict: 'ON CONFLICT (employee_id, service_id, shift_id) DO NOTHING',
+    read: STAFF,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  slots: {
+    columns: [
+      'id', 'tenant_id', 'service_id', 'shift_id', 'employee_id', 'slot_date', 'start_time', 'end_time',
+      'start_time_utc', 'end_time_utc', 'total_capacity', 'original_capacity', 'remaining_capacity',
+      'available_capacity', 'booked_count', 'is_available', 'is_overbooked', 'created_at',
+    ],
+    // Capacity counters are maintained by the booking routes, never written directly
+    writable: ['is_available'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      shifts: { table: 'shifts', type: 'one', column: 'shift_id', foreignColumn: 'id' },
+      users: { table: 'users', type: 'one', column: 'employee_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  customers: {
+    columns: [
+      'id', 'tenant_id', 'name', 'phone', 'email', 'total_bookings', 'last_booking_at', 'wallet_balance',
+      'created_at', 'updated_at',
+    ],
+    // wallet_balance only changes through walletService, together with its ledger entry
+    writable: ['name', 'phone', 'email'],
+    relations: {
+      package_subscriptions: { table: 'package_subscriptions', type: 'many', column: 'id', foreignColumn: 'customer_id' },
+      wallet_transactions: { table: 'wallet_transactions', type: 'many', column: 'id', foreignColumn: 'customer_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: STAFF,
+    insert: FRONT_DESK,
+    update: FRONT_DESK,
+    delete: ADMIN,
+  },
+
+  bookings: {
+    columns: [
+      'id', 'tenant_id', 'service_id', 'slot_id', 'employee_id', 'offer_id', 'customer_id', 'package_id',
+      'package_subscription_id', 'booking_group_id', 'series_id', 'series_index', 'customer_name',
+      'customer_phone', 'customer_email', 'visitor_count', 'adult_count', 'child_count', 'total_price', 'status',
+      'payment_status', 'notes', 'custom_fields', 'promo_code_id', 'promo_code', 'discount_amount', 'wallet_amount', 'language', 'qr_scanned', 'qr_scanned_at', 'qr_scanned_by_user_id',
+      'admitted_count', 'checked_in_at', 'checked_in_by_user_id', 'created_by_user_id', 'status_changed_at', 'refunded_amount',
+      'cancellation_fee', 'cancelled_by', 'reschedule_count', 'reschedule_fee_total', 'zoho_invoice_id',
+      'zoho_invoice_created_at', 'no_show_at', 'no_show_marked_by', 'created_at', 'updated_at',
+    ],
+    // Bookings are created, rescheduled and refunded through /api/bookings, which enforce capacity and fees
+    writable: ['customer_name', 'customer_phone', 'customer_email', 'notes', 'status', 'payment_status'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      slots: { table: 'slots', type: 'one', column: 'slot_id', foreignColumn: 'id' },
+      users: { table: 'users', type: 'one', column: 'employee_id', foreignColumn: 'id' },
+      service_offers: { table: 'service_offers', type: 'one', column: 'offer_id', foreignColumn: 'id' },
+      service_packages: { table: 'service_packages', type: 'one', column: 'package_id', foreignColumn: 'id' },
+      booking_ticket_checkins: { table: 'booking_ticket_checkins', type: 'many', column: 'id', foreignColumn: 'booking_id' },
+      booking_notes: { table: 'booking_notes', type: 'many', column: 'id', foreignColumn: 'booking_id' },
+    },
+    tenantColumn: 'tenant_id',
+    ownerColumn: 'customer_id',
+    read: EVERYONE,
+    update: ['tenant_admin', 'receptionist', 'cashier'],
+    delete: ADMIN,
+  },
+
+  booking_ticket_checkins: {
+    columns: ['id', 'tenant_id', 'booking_id', 'ticket_number', 'ticket_type', 'checked_in_at', 'checked_in_by_user_id'],
+    relations: {
+      bookings: { table: 'bookings', type: 'one', column: 'booking_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: STAFF,
+  },
+
+  // Internal staff notes; added through /api/employees/me/bookings/:id/notes
+  booking_notes: {
+    columns: ['id', 'booking_id', 'tenant_id', 'author_user_id', 'note', 'created_at'],
+    relations: {
+      bookings: { table: 'bookings', type: 'one', column: 'booking_id', foreignColumn: 'id' },
+      users: { table: 'users', type: 'one', column: 'author_user_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: STAFF,
+  },
+
+  service_packages: {
+    columns: [
+      'id', 'tenant_id', 'name', 'name_ar', 'description', 'description_ar', 'total_price', 'original_price',
+      'discount_percentage', 'discount_start_date', 'discount_end_date', 'image_url', 'gallery_urls', 'is_public',
+      'is_active', 'validity_days', 'created_at', 'updated_at',
+    ],
+    writable: [
+      'name', 'name_ar', 'description', 'description_ar', 'total_price', 'original_price', 'discount_percentage',
+      'discount_start_date', 'discount_end_date', 'image_url', 'gallery_urls', 'is_public', 'is_active', 'validity_days',
+    ],
+    jsonColumns: ['gallery_urls'],
+    relations: {
+      package_services: { table: 'package_services', type: 'many', column: 'id', foreignColumn: 'package_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  package_services: {
+    columns: ['id', 'package_id', 'service_id', 'quantity', 'created_at'],
+    writable: ['package_id', 'service_id', 'quantity'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      service_packages: { table: 'service_packages', type: 'one', column: 'package_id', foreignColumn: 'id' },
+    },
+    tenantVia: { column: 'package_id', table: 'service_packages' },
+    onConflict: 'ON CONFLICT (package_id, service_id) DO NOTHING',
+    read: EVERYONE,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  package_subscriptions: {
+    columns: [
+      'id', 'tenant_id', 'customer_id', 'package_id', 'status', 'is_active', 'total_quantity',
+      'remaining_quantity', 'subscribed_at', 'expires_at', 'created_at', 'updated_at',
+      'source', 'price', 'purchased_by_user_id', 'zoho_invoice_id', 'zoho_invoice_created_at',
+      'renewed_from_subscription_id', 'expiry_warning_sent_at',
+    ],
+    writable: ['status', 'is_active', 'expires_at'],
+    relations: {
+      customers: { table: 'customers', type: 'one', column: 'customer_id', foreignColumn: 'id' },
+      service_packages: { table: 'service_packages', type: 'one', column: 'package_id', foreignColumn: 'id' },
+      package_subscription_usage: {
+        table: 'package_subscription_usage', type: 'many', column: 'id', foreignColumn: 'subscription_id',
+      },
+    },
+    tenantColumn: 'tenant_id',
+    read: STAFF,
+    update: FRONT_DESK,
+  },
+
+  package_subscription_usage: {
+    columns: ['id', 'subscription_id', 'service_id', 'original_quantity', 'remaining_quantity', 'used_quantity', 'updated_at'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+    },
+    tenantVia: { column: 'subscription_id', table: 'package_subscriptions' },
+    read: STAFF,
+  },
+
+  tenant_features: {
+    columns: [
+      'id', 'tenant_id', 'employees_enabled', 'employee_assignment_mode', 'packages_enabled',
+      'landing_page_enabled', 'created_at', 'updated_at',
+    ],
+    // Feature flags are switched by the solution owner
+    writable: ['employees_enabled', 'employee_assignment_mode', 'packages_enabled', 'landing_page_enabled'],
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+  },
+
+  reviews: {
+    columns: [
+      'id', 'tenant_id', 'service_id', 'booking_id', 'customer_id', 'rating', 'comment', 'comment_ar',
+      'image_url', 'is_approved', 'is_visible', 'created_at', 'updated_at',
+    ],
+    // Customers post reviews through /api/reviews
+    writable: ['is_approved', 'is_visible'],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      users: { table: 'users', type: 'one', column: 'customer_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    ownerColumn: 'customer_id',
+    read: EVERYONE,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  testimonials: {
+    columns: [
+      'id', 'tenant_id', 'customer_name', 'customer_name_ar', 'rating', 'comment', 'comment_ar', 'image_url',
+      'display_order', 'is_featured', 'is_active', 'created_at', 'updated_at',
+    ],
+    writable: [
+      'customer_name', 'customer_name_ar', 'rating', 'comment', 'comment_ar', 'image_url', 'display_order',
+      'is_featured', 'is_active',
+    ],
+    tenantColumn: 'tenant_id',
+    read: EVERYONE,
+    insert: ADMIN,
+    update: ADMIN,
+    delete: ADMIN,
+  },
+
+  payments: {
+    columns: ['id', 'tenant_id', 'booking_id', 'gift_card_id', 'package_subscription_id', 'provider', 'amount', 'currency', 'status', 'expires_at', 'created_at', 'updated_at'],
+    tenantColumn: 'tenant_id',
+    read: ['tenant_admin', 'cashier'],
+  },
+
+  refunds: {
+    columns: [
+      'id', 'tenant_id', 'booking_id', 'payment_id', 'amount', 'currency', 'refund_type', 'method', 'status',
+      'reason', 'adult_tickets', 'child_tickets', 'issued_by_user_id', 'created_at',
+    ],
+    tenantColumn: 'tenant_id',
+    read: ['tenant_admin', 'cashier'],
+  },
+
+  // Gift cards are sold, redeemed and delivered through /api/gift-cards
+  gift_cards: {
+    columns: [
+      'id', 'tenant_id', 'code', 'initial_amount', 'balance', 'status', 'expires_at', 'purchaser_name',
+      'purchaser_phone', 'purchaser_email', 'recipient_name', 'recipient_phone', 'recipient_email', 'message',
+      'language', 'purchased_by_user_id', 'issued_by_user_id', 'redeemed_by_customer_id', 'redeemed_at',
+      'delivered_at', 'created_at', 'updated_at',
+    ],
+    relations: {
+      customers: { table: 'customers', type: 'one', column: 'redeemed_by_customer_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: FRONT_DESK,
+  },
+
+  wallet_transactions: {
+    columns: [
+      'id', 'tenant_id', 'customer_id', 'type', 'amount', 'balance_after', 'source', 'booking_id', 'gift_card_id',
+      'refund_id', 'note', 'created_by_user_id', 'created_at',
+    ],
+    relations: {
+      customers: { table: 'customers', type: 'one', column: 'customer_id', foreignColumn: 'id' },
+      gift_cards: { table: 'gift_cards', type: 'one', column: 'gift_card_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: FRONT_DESK,
+  },
+
+  waitlist_entries: {
+    columns: [
+      'id', 'tenant_id', 'service_id', 'slot_id', 'slot_date', 'customer_id', 'customer_name', 'customer_phone',
+      'customer_email', 'visitor_count', 'language', 'status', 'offered_slot_id', 'offered_at',
+      'offer_expires_at', 'claimed_booking_id', 'created_at', 'updated_at',
+    ],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: FRONT_DESK,
+  },
+
+  booking_series: {
+    columns: [
+      'id', 'tenant_id', 'service_id', 'customer_id', 'customer_name', 'customer_phone', 'customer_email',
+      'recurrence_rule', 'start_date', 'start_time', 'occurrence_count', 'created_by_user_id', 'created_at',
+    ],
+    relations: {
+      services: { table: 'services', type: 'one', column: 'service_id', foreignColumn: 'id' },
+      bookings: { table: 'bookings', type: 'many', column: 'id', foreignColumn: 'series_id' },
+    },
+    tenantColumn: 'tenant_id',
+    read: FRONT_DESK,
+  },
+
+  audit_logs: {
+    columns: [
+      'id', 'tenant_id', 'user_id', 'action_type', 'resource_type', 'resource_id', 'old_values', 'new_values',
+      'ip_address', 'user_agent', 'created_at',
+    ],
+    tenantColumn: 'tenant_id',
+    read: ADMIN,
+  },
+};
+
+/**
+ * Database functions callable through /api/rpc/:function
+ */
+export const RPC_FUNCTIONS: Record<string, RpcDefinition> = {
+  generate_slots_for_shift: {
+    params: ['p_shift_id', 'p_start_date', 'p_end_date'],
+    roles: ADMIN,
+    tenantParam: { param: 'p_shift_id', table: 'shifts' },
+  },
+};
@@ -10,8 +10,18 @@ import { bookingRoutes } from './routes/bookings';
 import { tenantRoutes } from './routes/tenants';
 import { employeeRoutes } from './routes/employees';
 import { zohoRoutes } from './routes/zoho';
+import { paymentRoutes } from './routes/payments';
+import { waitlistRoutes } from './routes/waitlist';
+import { calendarRoutes } from './routes/calendar';
+import { auditRoutes } from './routes/audit';
+import { giftCardRoutes } from './routes/giftCards';
+import { walletRoutes } from './routes/wallet';
+import { packageRoutes } from './routes/packages';
+import { exportRoutes } from './routes/exports';
 import { startLockCleanup } from './jobs/cleanupLocks';
 import { startZohoReceiptWorker } from './jobs/zohoReceiptWorker';
+import { startBookingReminders } from './jobs/bookingReminders';
+import { startPackageExpiry } from './jobs/packageExpiry';
 import { zohoCredentials } from './config/zohoCredentials';
 import { logger } from './utils/logger';
 
@@ -39,7 +49,13 @@ const corsOptions = {
 };
 
 app.use(cors(corsOptions));
-app.use(express.json({ limit: '250mb' })); // Increased payload limit to support 200MB file uploads for service providers and users
+app.use(express.json({
+  limit: '250mb', // Increased payload limit to support 200MB file uploads for service providers and users
+  // Keep the raw body so payment webhooks can verify provider signatures
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '250mb' }));
 
 // Health check (both /health and /api/health for compatibility)
@@ -59,6 +75,14 @@ app.use('/api/bookings', bookingRoutes);
 app.use('/api/tenants', tenantRoutes);
 app.use('/api/employees', employeeRoutes);
 app.use('/api/zoho', zohoRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/audit-logs', auditRoutes);
+app.use('/api/gift-cards', giftCardRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/packages', packageRoutes);
+app.use('/api/exports', exportRoutes);
 app.use('/api', queryRoutes);
 
 // Error handler with logging
@@ -147,6 +171,24 @@ async function startServer() {
       console.error('⚠️  Failed to start lock cleanup job:', error.message);
     }
 
+    // Start booking reminder job (WhatsApp/email reminders before each booking)
+    // Wrap in try-catch to prevent startup failure
+    try {
+      startBookingReminders();
+      logger.info('Background jobs started', undefined, { job: 'bookingReminders' });
+    } catch (error: any) {
+      console.error('⚠️  Failed to start booking reminder job:', error.message);
+    }
+
+    // Start package expiry job (expires subscriptions and warns customers before they expire)
+    // Wrap in try-catch to prevent startup failure
+    try {
+      startPackageExpiry();
+      logger.info('Background jobs started', undefined, { job: 'packageExpiry' });
+    } catch (error: any) {
+      console.error('⚠️  Failed to start package expiry job:', error.message);
+    }
+
     // Start Zoho receipt worker (processes every 30 seconds)
     // Wrap in try-catch to prevent startup failure
     try {
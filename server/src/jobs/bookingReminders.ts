@@ -0,0 +1,55 @@
+import { logger } from '../utils/logger';
+import { sendDueReminders } from '../services/reminderService';
+
+const REMINDER_INTERVAL = process.env.REMINDER_INTERVAL
+  ? parseInt(process.env.REMINDER_INTERVAL)
+  : 5 * 60000; // Run every 5 minutes
+
+let reminderInterval: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startBookingReminders() {
+  if (reminderInterval) {
+    return; // Already running
+  }
+
+  logger.info('Starting booking reminder job', undefined, {
+    interval: REMINDER_INTERVAL,
+  });
+
+  // Run immediately on start
+  runBookingReminders();
+
+  // Then run periodically
+  reminderInterval = setInterval(() => {
+    runBookingReminders();
+  }, REMINDER_INTERVAL);
+}
+
+export function stopBookingReminders() {
+  if (reminderInterval) {
+    clearInterval(reminderInterval);
+    reminderInterval = null;
+    logger.info('Stopped booking reminder job');
+  }
+}
+
+async function runBookingReminders() {
+  // Sending can take longer than the interval; never overlap runs
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const count = await sendDueReminders();
+
+    if (count > 0) {
+      logger.info('Sent booking reminders', undefined, { count });
+    }
+  } catch (error: any) {
+    logger.error('Error sending booking reminders', error);
+  } finally {
+    running = false;
+  }
+}
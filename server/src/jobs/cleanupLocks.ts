@@ -1,10 +1,15 @@
 import { query } from '../db';
 import { logger } from '../utils/logger';
+import { expireStalePayments } from '../services/paymentService';
+import { processWaitlistOffers } from '../services/waitlistService';
+import { expireGiftCards } from '../services/giftCardService';
+import { settleStalePendingRefunds } from '../services/refundService';
 
 const CLEANUP_INTERVAL = 60000; // Run every 60 seconds
 const LOCK_EXPIRY_SECONDS = 120; // 2 minutes
 
 let cleanupInterval: NodeJS.Timeout | null = null;
+let running = false;
 
 export function startLockCleanup() {
   if (cleanupInterval) {
@@ -17,11 +22,11 @@ export function startLockCleanup() {
   });
 
   // Run immediately on start
-  cleanupExpiredLocks();
+  runCleanup();
 
   // Then run periodically
   cleanupInterval = setInterval(() => {
-    cleanupExpiredLocks();
+    runCleanup();
   }, CLEANUP_INTERVAL);
 }
 
@@ -33,6 +38,25 @@ export function stopLockCleanup() {
   }
 }
 
+async function runCleanup() {
+  // Waitlist offers send messages and can outlast the interval; never overlap runs
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    await cleanupExpiredLocks();
+    await cleanupExpiredPayments();
+    await cleanupExpiredGiftCards();
+    await settlePendingRefunds();
+    // Capacity released by expired locks, cancellations or capacity increases goes to the waitlist
+    await offerWaitlistSpots();
+  } finally {
+    running = false;
+  }
+}
+
 async function cleanupExpiredLocks() {
   try {
     const result = await query(
@@ -53,5 +77,50 @@ async function cleanupExpiredLocks() {
   }
 }
 
+async function cleanupExpiredPayments() {
+  try {
+    const count = await expireStalePayments();
+
+    if (count > 0) {
+      logger.info('Expired unpaid payment intents', undefined, { count });
+    }
+  } catch (error: any) {
+    logger.error('Error expiring payment intents', error);
+  }
+}
 
+async function cleanupExpiredGiftCards() {
+  try {
+    const count = await expireGiftCards();
 
+    if (count > 0) {
+      logger.info('Expired gift cards', undefined, { count });
+    }
+  } catch (error: any) {
+    logger.error('Error expiring gift cards', error);
+  }
+}
+
+async function settlePendingRefunds() {
+  try {
+    const count = await settleStalePendingRefunds();
+
+    if (count > 0) {
+      logger.info('Settled pending provider refunds', undefined, { count });
+    }
+  } catch (error: any) {
+    logger.error('Error settling pending refunds', error);
+  }
+}
+
+async function offerWaitlistSpots() {
+  try {
+    const count = await processWaitlistOffers();
+
+    if (count > 0) {
+      logger.info('Offered released capacity to waitlist', undefined, { count });
+    }
+  } catch (error: any) {
+    logger.error('Error processing waitlist offers', error);
+  }
+}
@@ -0,0 +1,59 @@
+import { logger } from '../utils/logger';
+import { expireSubscriptions, sendExpiryWarnings } from '../services/packageSubscriptionService';
+
+const PACKAGE_EXPIRY_INTERVAL = process.env.PACKAGE_EXPIRY_INTERVAL
+  ? parseInt(process.env.PACKAGE_EXPIRY_INTERVAL)
+  : 60 * 60000; // Run every hour
+
+let expiryInterval: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startPackageExpiry() {
+  if (expiryInterval) {
+    return; // Already running
+  }
+
+  logger.info('Starting package expiry job', undefined, {
+    interval: PACKAGE_EXPIRY_INTERVAL,
+  });
+
+  // Run immediately on start
+  runPackageExpiry();
+
+  // Then run periodically
+  expiryInterval = setInterval(() => {
+    runPackageExpiry();
+  }, PACKAGE_EXPIRY_INTERVAL);
+}
+
+export function stopPackageExpiry() {
+  if (expiryInterval) {
+    clearInterval(expiryInterval);
+    expiryInterval = null;
+    logger.info('Stopped package expiry job');
+  }
+}
+
+async function runPackageExpiry() {
+  // Sending warnings can take longer than the interval; never overlap runs
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const expired = await expireSubscriptions();
+    if (expired > 0) {
+      logger.info('Expired package subscriptions', undefined, { count: expired });
+    }
+
+    const warned = await sendExpiryWarnings();
+    if (warned > 0) {
+      logger.info('Sent package expiry warnings', undefined, { count: warned });
+    }
+  } catch (error: any) {
+    logger.error('Error running package expiry job', error);
+  } finally {
+    running = false;
+  }
+}
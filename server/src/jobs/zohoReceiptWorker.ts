@@ -8,6 +8,8 @@ interface QueueJob {
   payload: {
     booking_id: string;
     tenant_id: string;
+    refund_id?: string; // zoho_credit_note jobs
+    subscription_id?: string; // zoho_package_invoice jobs (no booking_id)
     attempt: number;
   };
   attempts: number;
@@ -84,35 +86,108 @@ async function processReceiptJob(job: QueueJob): Promise<{ success: boolean; err
       throw new Error(result.error || 'Unknown error');
     }
   } catch (error: any) {
-    console.error(`[ZohoReceiptWorker] Error processing job ${job.id}:`, error.message);
+    return scheduleRetryOrFail(job, error);
+  }
+}
 
-    const nextAttempt = attempt + 1;
+/**
+ * Process a single Zoho credit note job (queued when a refund is issued)
+ */
+async function processCreditNoteJob(job: QueueJob): Promise<{ success: boolean; error?: string }> {
+  const { refund_id, booking_id, attempt } = job.payload;
 
-    if (nextAttempt >= MAX_RETRIES) {
-      // Max retries reached, mark as failed
-      await query(
-        `UPDATE queue_jobs 
-         SET status = 'failed', completed_at = now() 
-         WHERE id = $1`,
-        [job.id]
-      );
-      console.error(`[ZohoReceiptWorker] ❌ Job ${job.id} failed after ${MAX_RETRIES} attempts`);
-      return { success: false, error: error.message };
-    } else {
-      // Schedule retry with exponential backoff
-      const delay = calculateDelay(nextAttempt);
-      const retryAt = new Date(Date.now() + delay);
+  console.log(`[ZohoReceiptWorker] Processing credit note job ${job.id} for refund ${refund_id} (booking ${booking_id}, attempt ${attempt + 1}/${MAX_RETRIES})`);
 
-      await query(
-        `UPDATE queue_jobs 
-         SET status = 'pending', attempts = $1, payload = jsonb_set(payload, '{attempt}', $2::text::jsonb)
-         WHERE id = $3`,
-        [nextAttempt, nextAttempt, job.id]
-      );
+  try {
+    if (!refund_id) {
+      throw new Error('Credit note job has no refund_id');
+    }
+
+    const result = await zohoService.generateCreditNote(refund_id);
+
+    if (!result.success) {
+      throw new Error(result.error || 'Unknown error');
+    }
+
+    await query(
+      `UPDATE queue_jobs 
+       SET status = 'completed', completed_at = now() 
+       WHERE id = $1`,
+      [job.id]
+    );
+    console.log(`[ZohoReceiptWorker] ✅ Successfully generated credit note for refund ${refund_id}`);
+    return { success: true };
+  } catch (error: any) {
+    return scheduleRetryOrFail(job, error);
+  }
+}
 
-      console.log(`[ZohoReceiptWorker] ⏳ Scheduling retry ${nextAttempt + 1}/${MAX_RETRIES} for job ${job.id} in ${delay}ms`);
-      return { success: false, error: error.message };
+/**
+ * Process a single Zoho invoice job for a package bought online (queued when its payment succeeds)
+ */
+async function processPackageInvoiceJob(job: QueueJob): Promise<{ success: boolean; error?: string }> {
+  const { subscription_id, attempt } = job.payload;
+
+  console.log(`[ZohoReceiptWorker] Processing package invoice job ${job.id} for subscription ${subscription_id} (attempt ${attempt + 1}/${MAX_RETRIES})`);
+
+  try {
+    if (!subscription_id) {
+      throw new Error('Package invoice job has no subscription_id');
+    }
+
+    const result = await zohoService.generatePackageInvoice(subscription_id);
+
+    if (!result.success) {
+      throw new Error(result.error || 'Unknown error');
     }
+
+    await query(
+      `UPDATE queue_jobs 
+       SET status = 'completed', completed_at = now() 
+       WHERE id = $1`,
+      [job.id]
+    );
+    console.log(`[ZohoReceiptWorker] ✅ Successfully generated invoice for package subscription ${subscription_id}`);
+    return { success: true };
+  } catch (error: any) {
+    return scheduleRetryOrFail(job, error);
+  }
+}
+
+/**
+ * Retry a failed job with exponential backoff, or mark it as failed after MAX_RETRIES
+ */
+async function scheduleRetryOrFail(job: QueueJob, error: any): Promise<{ success: boolean; error?: string }> {
+  const { attempt } = job.payload;
+
+  console.error(`[ZohoReceiptWorker] Error processing job ${job.id}:`, error.message);
+
+  const nextAttempt = attempt + 1;
+
+  if (nextAttempt >= MAX_RETRIES) {
+    // Max retries reached, mark as failed
+    await query(
+      `UPDATE queue_jobs 
+       SET status = 'failed', completed_at = now() 
+       WHERE id = $1`,
+      [job.id]
+    );
+    console.error(`[ZohoReceiptWorker] ❌ Job ${job.id} failed after ${MAX_RETRIES} attempts`);
+    return { success: false, error: error.message };
+  } else {
+    // Schedule retry with exponential backoff
+    const delay = calculateDelay(nextAttempt);
+    const retryAt = new Date(Date.now() + delay);
+
+    await query(
+      `UPDATE queue_jobs 
+       SET status = 'pending', attempts = $1, payload = jsonb_set(payload, '{attempt}', $2::text::jsonb)
+       WHERE id = $3`,
+      [nextAttempt, nextAttempt, job.id]
+    );
+
+    console.log(`[ZohoReceiptWorker] ⏳ Scheduling retry ${nextAttempt + 1}/${MAX_RETRIES} for job ${job.id} in ${delay}ms`);
+    return { success: false, error: error.message };
   }
 }
 
@@ -125,7 +200,7 @@ export async function processZohoReceiptJobs(): Promise<void> {
     // Get pending jobs that are ready to process (not recently started)
     const jobsResult = await client.query(
       `SELECT * FROM queue_jobs 
-       WHERE job_type = 'zoho_receipt' 
+       WHERE job_type IN ('zoho_receipt', 'zoho_credit_note', 'zoho_package_invoice') 
        AND status = 'pending'
        AND (started_at IS NULL OR started_at < now() - interval '5 minutes')
        ORDER BY created_at ASC
@@ -139,7 +214,7 @@ export async function processZohoReceiptJobs(): Promise<void> {
       return; // No jobs to process
     }
 
-    console.log(`[ZohoReceiptWorker] Found ${jobs.length} pending Zoho receipt jobs`);
+    console.log(`[ZohoReceiptWorker] Found ${jobs.length} pending Zoho jobs`);
 
     // Process jobs in parallel (but limit concurrency)
     const processingPromises = jobs.map(async (job) => {
@@ -150,6 +225,12 @@ export async function processZohoReceiptJobs(): Promise<void> {
       );
 
       // Process the job
+      if (job.job_type === 'zoho_credit_note') {
+        return processCreditNoteJob(job);
+      }
+      if (job.job_type === 'zoho_package_invoice') {
+        return processPackageInvoiceJob(job);
+      }
       return processReceiptJob(job);
     });
 
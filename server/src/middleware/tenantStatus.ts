@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import { query } from '../db';
+import { logger } from '../utils/logger';
+
+// Tenant staff keep working while their tenant is in maintenance (walk-ins, reception, check-in)
+const STAFF_ROLES = ['tenant_admin', 'receptionist', 'cashier', 'employee'];
+
+const DEFAULT_MAINTENANCE_MESSAGE = {
+  en: 'Service provider is currently in maintenance mode. Bookings are temporarily unavailable. Please try again later.',
+  ar: 'نحن حاليًا في وضع الصيانة. الحجوزات غير متاحة مؤقتًا. يرجى المحاولة مرة أخرى لاحقًا.',
+};
+
+const INACTIVE_MESSAGE = {
+  en: 'This service provider account has been deactivated. Please contact support.',
+  ar: 'تم إلغاء تفعيل حساب مقدم الخدمة هذا. يرجى التواصل مع الدعم.',
+};
+
+export interface TenantStatus {
+  id: string;
+  is_active: boolean;
+  maintenance_mode: boolean;
+  maintenance_message: string | null;
+  maintenance_message_ar: string | null;
+  maintenance_starts_at: string | Date | null;
+  maintenance_ends_at: string | Date | null;
+}
+
+/**
+ * Whether the tenant is in maintenance right now: maintenance mode is on and, when a
+ * window is scheduled, the current time falls inside it (start inclusive, end exclusive).
+ */
+export function isMaintenanceActive(tenant: TenantStatus, now: Date = new Date()): boolean {
+  if (!tenant.maintenance_mode) return false;
+  if (tenant.maintenance_starts_at && now < new Date(tenant.maintenance_starts_at)) return false;
+  if (tenant.maintenance_ends_at && now >= new Date(tenant.maintenance_ends_at)) return false;
+  return true;
+}
+
+function requestLanguage(req: Request): 'en' | 'ar' {
+  const language = req.body?.language || req.query.language || req.get('accept-language') || '';
+  return String(language).toLowerCase().startsWith('ar') ? 'ar' : 'en';
+}
+
+// The tenant a public request is for. A slot_id or service_id decides it (their owner cannot be
+// spoofed); otherwise tenant_id or tenant_slug. `mismatched` is set when the request also names a
+// different tenant_id than the slot or service belongs to.
+async function resolveTenantStatus(req: Request): Promise<{ tenant: TenantStatus; mismatched: boolean } | null> {
+  const source = { ...req.query, ...req.body };
+  const columns = `t.id, t.is_active, t.maintenance_mode, t.maintenance_message, t.maintenance_message_ar,
+    t.maintenance_starts_at, t.maintenance_ends_at`;
+
+  let owner;
+  if (source.slot_id) {
+    owner = await query(`SELECT ${columns} FROM slots s JOIN tenants t ON s.tenant_id = t.id WHERE s.id = $1`, [source.slot_id]);
+  } else if (source.service_id) {
+    owner = await query(`SELECT ${columns} FROM services s JOIN tenants t ON s.tenant_id = t.id WHERE s.id = $1`, [source.service_id]);
+  }
+  if (owner?.rows[0]) {
+    const tenant: TenantStatus = owner.rows[0];
+    return { tenant, mismatched: !!source.tenant_id && String(source.tenant_id) !== tenant.id };
+  }
+
+  let result;
+  if (source.tenant_id) {
+    result = await query(`SELECT ${columns} FROM tenants t WHERE t.id = $1`, [source.tenant_id]);
+  } else if (source.tenant_slug) {
+    result = await query(`SELECT ${columns} FROM tenants t WHERE t.slug = $1`, [source.tenant_slug]);
+  } else {
+    return null;
+  }
+
+  return result.rows[0] ? { tenant: result.rows[0], mismatched: false } : null;
+}
+
+/**
+ * Rejects public traffic for tenants that are deactivated (403) or in maintenance (503),
+ * with a message in the request's language. Staff of the tenant may continue during
+ * maintenance; solution owners are never blocked.
+ *
+ * Requests whose tenant cannot be determined pass through; the route validates them.
+ * A tenant_id that contradicts the slot or service of the request is rejected (400).
+ * Mount after the route's authenticate middleware so req.user is known.
+ */
+export async function enforceTenantStatus(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (req.user?.role === 'solution_owner') {
+      return next();
+    }
+
+    const resolved = await resolveTenantStatus(req);
+    if (!resolved) {
+      return next();
+    }
+    if (resolved.mismatched) {
+      return res.status(400).json({ error: 'tenant_id does not match the slot or service', code: 'TENANT_MISMATCH' });
+    }
+    const { tenant } = resolved;
+
+    const language = requestLanguage(req);
+
+    if (!tenant.is_active) {
+      return res.status(403).json({ error: INACTIVE_MESSAGE[language], code: 'TENANT_INACTIVE' });
+    }
+
+    if (!isMaintenanceActive(tenant)) {
+      return next();
+    }
+
+    const isTenantStaff = !!req.user?.role && STAFF_ROLES.includes(req.user.role) && req.user.tenant_id === tenant.id;
+    if (isTenantStaff) {
+      return next();
+    }
+
+    const customMessage = language === 'ar'
+      ? tenant.maintenance_message_ar || tenant.maintenance_message
+      : tenant.maintenance_message;
+    const endsAt = tenant.maintenance_ends_at ? new Date(tenant.maintenance_ends_at) : null;
+
+    if (endsAt) {
+      res.set('Retry-After', String(Math.max(Math.ceil((endsAt.getTime() - Date.now()) / 1000), 0)));
+    }
+
+    return res.status(503).json({
+      error: customMessage || DEFAULT_MAINTENANCE_MESSAGE[language],
+      code: 'TENANT_MAINTENANCE',
+      maintenance_ends_at: endsAt ? endsAt.toISOString() : null,
+    });
+  } catch (error: any) {
+    logger.error('Tenant status check error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
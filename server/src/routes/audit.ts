@@ -0,0 +1,107 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { getAuditLogFilterOptions, searchAuditLogs } from '../services/auditService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Middleware to authenticate tenant admins (and solution owners, who pick the tenant)
+function authenticateAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.role !== 'tenant_admin' && decoded.role !== 'solution_owner') {
+      return res.status(403).json({ error: 'Only tenant admins can view the audit log' });
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+// Tenant admins see their own tenant; solution owners pass tenant_id
+function resolveTenantId(req: express.Request): string | undefined {
+  if (req.user!.role === 'solution_owner' && typeof req.query.tenant_id === 'string') {
+    return req.query.tenant_id;
+  }
+  return req.user!.tenant_id;
+}
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+// ============================================================================
+// Search the tenant's audit history
+// Filters: user_id, resource_type, resource_id, action_type, from, to; paging with limit/offset
+// ============================================================================
+router.get('/', authenticateAdmin, async (req, res) => {
+  try {
+    const tenantId = resolveTenantId(req);
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    const userId = queryString(req.query.user_id);
+    const resourceId = queryString(req.query.resource_id);
+    if ((userId && !UUID_PATTERN.test(userId)) || (resourceId && !UUID_PATTERN.test(resourceId))) {
+      return res.status(400).json({ error: 'user_id and resource_id must be valid IDs' });
+    }
+
+    const from = queryString(req.query.from);
+    const to = queryString(req.query.to);
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const result = await searchAuditLogs(tenantId, {
+      userId,
+      resourceType: queryString(req.query.resource_type),
+      resourceId,
+      actionType: queryString(req.query.action_type),
+      from,
+      to,
+      limit: req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) || undefined : undefined,
+      offset: req.query.offset !== undefined ? parseInt(String(req.query.offset), 10) || 0 : undefined,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    logger.error('Search audit logs error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Users, resource types and action types to filter the audit history by
+// ============================================================================
+router.get('/filters', authenticateAdmin, async (req, res) => {
+  try {
+    const tenantId = resolveTenantId(req);
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    res.json(await getAuditLogFilterOptions(tenantId));
+  } catch (error: any) {
+    logger.error('Audit log filter options error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+export { router as auditRoutes };
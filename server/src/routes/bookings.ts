@@ -1,91 +1,44 @@
 import express from 'express';
+import { PoolClient } from 'pg';
 import { query, pool } from '../db';
 import jwt from 'jsonwebtoken';
 import { logger } from '../utils/logger';
+import { getTenantPaymentSettings } from '../services/paymentService';
+import { RefundError, refundBooking, refundBookingGroup } from '../services/refundService';
+import { WAITLIST_SESSION_PREFIX, markWaitlistOfferClaimed } from '../services/waitlistService';
+import {
+  RecurringBookingError,
+  cancelSeriesByStaff,
+  createRecurringBookings,
+  getBookingSeries,
+} from '../services/recurringBookingService';
+import { getBookingIcs } from '../services/calendarService';
+import { TicketQrError, checkInTicket, getTicketCheckIns } from '../services/ticketQrService';
+import { recordAudit } from '../services/auditService';
+import {
+  ReassignmentError,
+  getReassignmentCandidates,
+  reassignBooking,
+  reassignEmployeeDay,
+} from '../services/bookingReassignmentService';
+import { enforceTenantStatus } from '../middleware/tenantStatus';
+import { BookingFieldError, normalizeBookingFields, validateBookingFieldAnswers } from '../services/bookingFieldsService';
+import { PromoCodeError, recordPromoRedemption } from '../services/promoCodeService';
+import { WalletError, debitWallet, findCustomerByPhone } from '../services/walletService';
+import {
+  PriceQuote,
+  PriceQuoteRequest,
+  PricingError,
+  calculateBookingPrice,
+  calculateCartPrices,
+  parseTicketCounts,
+  priceMatches,
+} from '../services/pricingService';
+import { normalizePhoneNumber } from '../utils/phone';
 
 const router = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
-/**
- * Normalize phone number to international format
- * Handles Egyptian numbers specially: +2001032560826 -> +201032560826 (removes leading 0 after +20)
- * @param phone - Phone number in any format
- * @returns Normalized phone number in E.164 format or null if invalid
- */
-function normalizePhoneNumber(phone: string): string | null {
-  if (!phone || typeof phone !== 'string') {
-    return null;
-  }
-
-  // Remove all spaces, dashes, and parentheses
-  let cleaned = phone.replace(/[\s\-\(\)]/g, '');
-
-  // If already in international format with +
-  if (cleaned.startsWith('+')) {
-    // Special handling for Egypt: +2001032560826 -> +201032560826
-    if (cleaned.startsWith('+20')) {
-      const afterCode = cleaned.substring(3); // Get number after +20
-      // If starts with 0, remove it (Egyptian numbers: +2001032560826 -> +201032560826)
-      if (afterCode.startsWith('0') && afterCode.length >= 10) {
-        const withoutZero = afterCode.substring(1);
-        // Validate it's a valid Egyptian mobile number (starts with 1, 2, or 5)
-        if (withoutZero.startsWith('1') || withoutZero.startsWith('2') || withoutZero.startsWith('5')) {
-          return `+20${withoutZero}`;
-        }
-      }
-      // If already correct format (+201032560826), return as is
-      return cleaned;
-    }
-    // For other countries, return as is
-    return cleaned;
-  }
-
-  // If starts with 00, replace with +
-  if (cleaned.startsWith('00')) {
-    cleaned = '+' + cleaned.substring(2);
-    // Apply Egypt normalization if needed
-    if (cleaned.startsWith('+20')) {
-      const afterCode = cleaned.substring(3);
-      if (afterCode.startsWith('0') && afterCode.length >= 10) {
-        const withoutZero = afterCode.substring(1);
-        if (withoutZero.startsWith('1') || withoutZero.startsWith('2') || withoutZero.startsWith('5')) {
-          return `+20${withoutZero}`;
-        }
-      }
-    }
-    return cleaned;
-  }
-
-  // Egyptian numbers: 01XXXXXXXX (11 digits) -> +201XXXXXXXX
-  if (cleaned.startsWith('0') && cleaned.length === 11) {
-    const withoutZero = cleaned.substring(1);
-    if (withoutZero.startsWith('1') || withoutZero.startsWith('2') || withoutZero.startsWith('5')) {
-      return `+20${withoutZero}`;
-    }
-  }
-
-  // If starts with 20 (country code without +), add +
-  if (cleaned.startsWith('20') && cleaned.length >= 12) {
-    // Check if it has leading 0 after 20 (2001032560826 -> 201032560826)
-    const afterCode = cleaned.substring(2);
-    if (afterCode.startsWith('0') && afterCode.length >= 10) {
-      const withoutZero = afterCode.substring(1);
-      if (withoutZero.startsWith('1') || withoutZero.startsWith('2') || withoutZero.startsWith('5')) {
-        return `+20${withoutZero}`;
-      }
-    }
-    return `+${cleaned}`;
-  }
-
-  // If it's 10 digits starting with 1, 2, or 5 (Egyptian mobile without 0), add +20
-  if (cleaned.length === 10 && (cleaned.startsWith('1') || cleaned.startsWith('2') || cleaned.startsWith('5'))) {
-    return `+20${cleaned}`;
-  }
-
-  // Return null if we can't determine the format
-  return null;
-}
-
 // Extend Express Request type
 declare global {
   namespace Express {
@@ -124,7 +77,7 @@ function authenticate(req: express.Request, res: express.Response, next: express
 // ============================================================================
 // Acquire booking lock (called when user proceeds to checkout)
 // ============================================================================
-router.post('/lock', authenticate, async (req, res) => {
+router.post('/lock', authenticate, enforceTenantStatus, async (req, res) => {
   try {
     const { slot_id, reserved_capacity = 1 } = req.body;
     
@@ -270,10 +223,89 @@ router.post('/lock/:lock_id/release', authenticate, async (req, res) => {
   }
 });
 
+// ============================================================================
+// Price quotes: the same computation /create applies, for the checkout and reception pages
+// ============================================================================
+const FRONT_DESK_ROLES = ['tenant_admin', 'receptionist', 'cashier'];
+
+// Pricing inputs of a booking request body; package subscriptions are only honoured for front desk staff
+function priceQuoteRequest(req: express.Request, body: any): PriceQuoteRequest {
+  const { adultCount, childCount } = parseTicketCounts(body);
+  const canUsePackage = FRONT_DESK_ROLES.includes(req.user?.role || '');
+  return {
+    tenantId: body.tenant_id,
+    serviceId: body.service_id,
+    adultCount,
+    childCount,
+    offerId: body.offer_id || null,
+    packageId: body.package_id || null,
+    packageServices: Array.isArray(body.package_services) ? body.package_services : null,
+    packageSubscriptionId: canUsePackage ? body.package_subscription_id || null : null,
+    promoCode: body.promo_code || null,
+    customerId: req.user?.role === 'customer' ? req.user.id : null,
+    customerPhone: body.customer_phone ? normalizePhoneNumber(body.customer_phone) : null,
+    language: body.language,
+  };
+}
+
+function pricingErrorResponse(res: express.Response, error: unknown) {
+  if (error instanceof PromoCodeError) {
+    return res.status(error.status).json({ error: error.message, code: 'PROMO_CODE_INVALID' });
+  }
+  if (error instanceof PricingError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  return null;
+}
+
+// Body: a booking's tenant_id, service_id, adult_count, child_count and optionally offer_id,
+// package_id + package_services, package_subscription_id, promo_code, customer_phone, language;
+// or { items: [...] } to price several bookings made together.
+router.post('/quote', authenticate, async (req, res) => {
+  try {
+    const items = Array.isArray(req.body.items) ? req.body.items : [req.body];
+    if (items.length === 0 || items.some((item: any) => !item?.tenant_id || !item?.service_id)) {
+      return res.status(400).json({ error: 'tenant_id and service_id are required' });
+    }
+
+    const quotes = await calculateCartPrices({ query }, items.map((item: any) => priceQuoteRequest(req, item)));
+    if (!Array.isArray(req.body.items)) {
+      return res.json(quotes[0]);
+    }
+    res.json({
+      quotes,
+      total_price: Math.round(quotes.reduce((sum, quote) => sum + quote.total_price, 0) * 100) / 100,
+    });
+  } catch (error: any) {
+    if (pricingErrorResponse(res, error)) return;
+    logger.error('Price quote error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// Customer wallet a booking may be paid from: front desk staff can use any customer's wallet,
+// a signed-in customer only their own (matched by the phone on their account)
+async function findBookingWallet(client: PoolClient, req: express.Request, tenantId: string, phone: string) {
+  if (!req.user) {
+    return null;
+  }
+  if (!FRONT_DESK_ROLES.includes(req.user.role || '')) {
+    if (req.user.role !== 'customer') {
+      return null;
+    }
+    const userResult = await client.query('SELECT phone FROM users WHERE id = $1', [req.user.id]);
+    const userPhone = userResult.rows[0]?.phone;
+    if (!userPhone || normalizePhoneNumber(userPhone) !== phone) {
+      return null;
+    }
+  }
+  return findCustomerByPhone(client, tenantId, phone);
+}
+
 // ============================================================================
 // Create booking with lock validation
 // ============================================================================
-router.post('/create', authenticate, async (req, res) => {
+router.post('/create', authenticate, enforceTenantStatus, async (req, res) => {
   const client = await pool.connect();
   
   try {
@@ -289,17 +321,22 @@ router.post('/create', authenticate, async (req, res) => {
       visitor_count = 1,
       adult_count,
       child_count,
-      total_price,
+      total_price, // Optional: the price the customer was shown; rejected if it differs from the server's
       notes,
       employee_id,
       lock_id,
       session_id,
-      offer_id, // Optional: ID of selected service offer
-      language = 'en' // Customer preferred language ('en' or 'ar')
+      language = 'en', // Customer preferred language ('en' or 'ar')
+      payment_method, // Optional: 'online' to pay through the tenant's payment provider
+      custom_fields, // Optional: answers to the service's booking form fields, keyed by field id
+      wallet_amount // Optional: part of the price to pay from the customer's wallet
+      // Pricing inputs (offer_id, package_id, package_services, package_subscription_id, promo_code)
+      // are read by priceQuoteRequest
     } = req.body;
 
     // Validate language
     const validLanguage = (language === 'ar' || language === 'en') ? language : 'en';
+    const isOnlinePayment = payment_method === 'online';
 
     // Validate required fields
     if (!slot_id || !service_id || !tenant_id || !customer_name || !customer_phone) {
@@ -330,6 +367,12 @@ router.post('/create', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'This service provider account has been deactivated. Bookings are not available.' });
     }
 
+    // Online payment requires the tenant to have a payment provider enabled
+    if (isOnlinePayment && !(await getTenantPaymentSettings(tenant_id))) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'Online payments are not enabled for this service provider' });
+    }
+
     // If lock_id provided, validate lock is still valid
     if (lock_id) {
       const expectedSessionId = req.user?.id || session_id;
@@ -355,8 +398,11 @@ router.post('/create', authenticate, async (req, res) => {
 
       const lock = lockCheck.rows[0];
       
-      // Verify session matches
-      if (lock.reserved_by_session_id !== expectedSessionId) {
+      // Verify session matches (waitlist offers are held for the waitlist session, even for logged-in customers)
+      const isWaitlistLock = typeof session_id === 'string'
+        && session_id.startsWith(WAITLIST_SESSION_PREFIX)
+        && lock.reserved_by_session_id === session_id;
+      if (lock.reserved_by_session_id !== expectedSessionId && !isWaitlistLock) {
         await client.query('ROLLBACK');
         return res.status(403).json({ error: 'Lock belongs to different session' });
       }
@@ -376,7 +422,7 @@ router.post('/create', authenticate, async (req, res) => {
 
     // Check slot availability (with row lock to prevent race conditions)
     const slotCheck = await client.query(
-      `SELECT available_capacity, is_available 
+      `SELECT available_capacity, is_available, employee_id
        FROM slots 
        WHERE id = $1 
        FOR UPDATE`,
@@ -395,6 +441,18 @@ router.post('/create', authenticate, async (req, res) => {
       return res.status(409).json({ error: 'Slot is not available' });
     }
 
+    // The assigned employee may be on time off, blocked or on a break
+    if (employee_id || slot.employee_id) {
+      const availability = await client.query(
+        'SELECT employee_is_unavailable($1, slot_date, start_time, end_time) as unavailable FROM slots WHERE id = $2',
+        [employee_id || slot.employee_id, slot_id]
+      );
+      if (availability.rows[0]?.unavailable) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'The employee is not available at this time' });
+      }
+    }
+
     // Check capacity (considering lock if present)
     if (slot.available_capacity < visitor_count) {
       await client.query('ROLLBACK');
@@ -403,23 +461,29 @@ router.post('/create', authenticate, async (req, res) => {
       });
     }
 
-    // Validate offer_id if provided
-    if (offer_id) {
-      const offerCheck = await client.query(
-        `SELECT id, service_id, price FROM service_offers WHERE id = $1 AND is_active = true`,
-        [offer_id]
+    // Validate answers to the service's custom booking form fields
+    const serviceFields = await client.query(
+      'SELECT booking_fields FROM services WHERE id = $1 AND tenant_id = $2',
+      [service_id, tenant_id]
+    );
+    if (serviceFields.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    let customFieldAnswers;
+    try {
+      customFieldAnswers = validateBookingFieldAnswers(
+        normalizeBookingFields(serviceFields.rows[0].booking_fields),
+        custom_fields,
+        validLanguage
       );
-      
-      if (offerCheck.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return res.status(404).json({ error: 'Service offer not found or inactive' });
-      }
-      
-      const offer = offerCheck.rows[0];
-      if (offer.service_id !== service_id) {
+    } catch (fieldError: any) {
+      if (fieldError instanceof BookingFieldError) {
         await client.query('ROLLBACK');
-        return res.status(400).json({ error: 'Offer does not belong to selected service' });
+        return res.status(fieldError.status).json({ error: fieldError.message, field_id: fieldError.fieldId });
       }
+      throw fieldError;
     }
 
     // Calculate adult_count and child_count if not provided (backward compatibility)
@@ -435,14 +499,52 @@ router.post('/create', authenticate, async (req, res) => {
       });
     }
 
+    // Price the booking on the server (offer, package, promo code); a submitted total must match it
+    let quote: PriceQuote;
+    try {
+      quote = await calculateBookingPrice(client, priceQuoteRequest(req, req.body), { forUpdate: true });
+    } catch (pricingError: any) {
+      if (pricingError instanceof PricingError || pricingError instanceof PromoCodeError) {
+        await client.query('ROLLBACK');
+        return pricingErrorResponse(res, pricingError);
+      }
+      throw pricingError;
+    }
+
+    if (total_price !== undefined && total_price !== null && !priceMatches(total_price, quote.total_price)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        error: 'The price has changed. Please review the updated total and try again.',
+        code: 'PRICE_MISMATCH',
+        quote,
+      });
+    }
+
+    const walletAmount = wallet_amount ? Math.round(parseFloat(wallet_amount) * 100) / 100 : 0;
+    let walletCustomer: any = null;
+    if (walletAmount !== 0) {
+      if (!(walletAmount > 0) || walletAmount > quote.total_price) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'wallet_amount must be a positive amount no greater than the booking total' });
+      }
+      walletCustomer = await findBookingWallet(client, req, tenant_id, normalizedPhone);
+      if (!walletCustomer) {
+        await client.query('ROLLBACK');
+        return res.status(403).json({ error: 'This wallet can only be used by its owner or at the front desk' });
+      }
+    }
+    const paidFromWallet = walletAmount > 0 && walletAmount >= quote.total_price;
+    const awaitingPayment = isOnlinePayment && !quote.package_covered && !paidFromWallet;
+
     // Create booking
     const bookingResult = await client.query(
       `INSERT INTO bookings (
         tenant_id, service_id, slot_id, employee_id,
         customer_name, customer_phone, customer_email,
         visitor_count, adult_count, child_count, total_price, notes, status, payment_status,
-        customer_id, offer_id, language
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+        customer_id, offer_id, language, custom_fields, promo_code_id, promo_code, discount_amount,
+        package_id, package_subscription_id, wallet_amount
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
       RETURNING *`,
       [
         tenant_id,
@@ -455,18 +557,51 @@ router.post('/create', authenticate, async (req, res) => {
         visitor_count,
         finalAdultCount,
         finalChildCount,
-        total_price,
+        quote.total_price,
         notes || null,
         'confirmed',
-        'unpaid', // Default payment status (payment methods not implemented yet)
+        // Package-covered and wallet-paid bookings are prepaid; online bookings are marked paid by the payment webhook
+        quote.package_covered || paidFromWallet ? 'paid' : awaitingPayment ? 'awaiting_payment' : 'unpaid',
         req.user?.id || null,
-        offer_id || null,
-        validLanguage
+        quote.offer_id,
+        validLanguage,
+        JSON.stringify(customFieldAnswers),
+        quote.promo?.promo_code_id ?? null,
+        quote.promo?.code ?? null,
+        quote.discount_amount,
+        quote.package_id,
+        quote.package_subscription_id,
+        walletAmount
       ]
     );
 
+    if (quote.promo) {
+      await recordPromoRedemption(client, quote.promo, bookingResult.rows[0]);
+    }
+
+    if (walletCustomer) {
+      try {
+        await debitWallet(client, {
+          tenantId: tenant_id,
+          customerId: walletCustomer.id,
+          amount: walletAmount,
+          source: 'booking',
+          bookingId: bookingResult.rows[0].id,
+          createdByUserId: req.user?.id || null,
+          language: validLanguage,
+        });
+      } catch (walletError: any) {
+        if (walletError instanceof WalletError) {
+          await client.query('ROLLBACK');
+          return res.status(walletError.status).json({ error: walletError.message, code: 'WALLET_INSUFFICIENT' });
+        }
+        throw walletError;
+      }
+    }
+
     // Delete lock if it was used (lock is consumed by booking)
     if (lock_id) {
+      await markWaitlistOfferClaimed(client, lock_id, bookingResult.rows[0].id);
       await client.query(
         `DELETE FROM booking_locks WHERE id = $1`,
         [lock_id]
@@ -476,13 +611,24 @@ router.post('/create', authenticate, async (req, res) => {
     await client.query('COMMIT');
     
     const booking = bookingResult.rows[0];
+
+    await recordAudit(req, {
+      action: 'create',
+      resourceType: 'bookings',
+      resourceId: booking.id,
+      tenantId: booking.tenant_id,
+      after: booking,
+    });
     
     // Automatically create invoice after booking is created
     // This runs asynchronously so it doesn't block the booking response
     // Invoice is created for ALL bookings with email OR phone
     // Delivery: Email (if email provided), WhatsApp (if phone provided), or both
     // Note: Payment status is not used - invoices are created for all bookings
-    if (normalizedPhone || customer_phone || customer_email) {
+    // Exception: online payments get their invoice from zoho_receipt_trigger once paid
+    if (awaitingPayment) {
+      console.log(`[Booking Creation] 💳 Booking ${booking.id} is awaiting online payment - invoice will be queued when payment succeeds`);
+    } else if (normalizedPhone || customer_phone || customer_email) {
       process.nextTick(async () => {
         try {
           console.log(`[Booking Creation] 🧾 Invoice Flow Started for booking ${booking.id}`);
@@ -520,6 +666,11 @@ router.post('/create', authenticate, async (req, res) => {
     // Use process.nextTick to ensure it runs after the response is sent
     process.nextTick(async () => {
       let pdfBuffer: Buffer | null = null;
+
+      // Online bookings get their ticket from the payment service once payment succeeds
+      if (awaitingPayment) {
+        return;
+      }
       
       try {
         console.log(`\n📧 ========================================`);
@@ -670,6 +821,14 @@ router.post('/create', authenticate, async (req, res) => {
                 console.error(`   ⚠️ SMTP verification failed: ${verifyError.message}`);
                 // Continue anyway - sometimes verification fails but sending works
               }
+
+              // Calendar event for the booking - the ticket is still sent if it cannot be built
+              let icsContent: string | null = null;
+              try {
+                icsContent = await getBookingIcs(booking.id, language === 'ar' ? 'ar' : 'en');
+              } catch (icsError: any) {
+                console.error(`   ⚠️ Failed to build calendar event: ${icsError.message}`);
+              }
               
               const mailResult = await transporter.sendMail({
                 from: emailConfig.auth.user,
@@ -681,11 +840,18 @@ router.post('/create', authenticate, async (req, res) => {
                 html: language === 'ar'
                   ? '<p>تم تأكيد حجزك! يرجى الاطلاع على التذكرة المرفقة.</p>'
                   : '<p>Your booking is confirmed! Please find your ticket attached.</p>',
-                attachments: [{
-                  filename: `booking_ticket_${booking.id}.pdf`,
-                  content: pdfBuffer,
-                  contentType: 'application/pdf',
-                }],
+                attachments: [
+                  {
+                    filename: `booking_ticket_${booking.id}.pdf`,
+                    content: pdfBuffer,
+                    contentType: 'application/pdf',
+                  },
+                  ...(icsContent ? [{
+                    filename: 'booking.ics',
+                    content: icsContent,
+                    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+                  }] : []),
+                ],
               });
               
               console.log(`✅ Step 3 Complete: Ticket PDF sent via Email to ${customer_email}`);
@@ -760,16 +926,38 @@ router.post('/create', authenticate, async (req, res) => {
   }
 });
 
+// Audit entry for an admitted ticket (QR scan or manual admission)
+async function recordTicketCheckIn(
+  req: express.Request,
+  tenantId: string,
+  result: Awaited<ReturnType<typeof checkInTicket>>
+) {
+  await recordAudit(req, {
+    action: 'check_in',
+    resourceType: 'bookings',
+    resourceId: result.booking.id,
+    tenantId,
+    after: {
+      ticket_number: result.ticket.number,
+      ticket_type: result.ticket.type,
+      admitted_count: result.booking.admitted_count,
+      status: result.booking.status,
+    },
+  });
+}
+
 // ============================================================================
 // Validate QR code (for cashiers/receptionists)
+// Only the signed per-ticket token printed on the ticket (QR code and barcode) is accepted;
+// admitting a booking by its ID is done explicitly with POST /:id/check-ins
 // ============================================================================
 router.post('/validate-qr', authenticate, async (req, res) => {
   try {
-    const { booking_id } = req.body;
+    const { qr_token } = req.body;
     const userId = req.user?.id;
 
-    if (!booking_id) {
-      return res.status(400).json({ error: 'Booking ID is required' });
+    if (!qr_token) {
+      return res.status(400).json({ error: 'Scan the ticket QR code or barcode. To admit a booking by its ID, use manual check-in.' });
     }
 
     if (!userId) {
@@ -791,83 +979,93 @@ router.post('/validate-qr', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Only cashiers, receptionists, and admins can validate QR codes' });
     }
 
-    // Get booking details
-    const bookingResult = await query(
-      `SELECT 
-        b.id, b.tenant_id, b.customer_name, b.customer_phone,
-        ts.slot_date, ts.start_time, ts.end_time,
-        b.visitor_count, b.adult_count, b.child_count, b.total_price,
-        b.qr_scanned, b.qr_scanned_at, b.qr_scanned_by_user_id,
-        b.status, b.payment_status,
-        s.name as service_name, s.name_ar as service_name_ar
-      FROM bookings b
-      JOIN services s ON b.service_id = s.id
-      JOIN slots ts ON b.slot_id = ts.id
-      WHERE b.id = $1`,
-      [booking_id]
-    );
+    const result = await checkInTicket({
+      qrToken: qr_token,
+      tenantId: user.tenant_id,
+      userId,
+    });
+
+    await recordTicketCheckIn(req, user.tenant_id, result);
 
-    if (bookingResult.rows.length === 0) {
+    const { checked_in, total } = result.tickets;
+    res.json({
+      success: true,
+      message: total > 1
+        ? `Ticket ${result.ticket.number} admitted (${checked_in} of ${total} admitted)`
+        : 'QR code validated successfully',
+      ...result,
+    });
+  } catch (error: any) {
+    if (error instanceof TicketQrError) {
+      return res.status(error.status).json({ error: error.message, ...error.details });
+    }
+    console.error('QR validation error:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Per-ticket check-in: door audit trail and admitting a ticket by hand
+// ============================================================================
+const CHECK_IN_ROLES = ['tenant_admin', 'receptionist', 'cashier', 'solution_owner'];
+
+router.get('/:id/check-ins', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, CHECK_IN_ROLES, 'Only cashiers, receptionists, and admins can view check-ins');
+    if (!user) return;
+
+    const tenantId = await getBookingTenantForUser(req.params.id, user);
+    const checkIns = tenantId ? await getTicketCheckIns(req.params.id, tenantId) : null;
+    if (!checkIns) {
       return res.status(404).json({ error: 'Booking not found' });
     }
 
-    const booking = bookingResult.rows[0];
+    res.json(checkIns);
+  } catch (error: any) {
+    const context = logger.extractContext(req);
+    logger.error('List ticket check-ins error', error, context, { booking_id: req.params.id });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
 
-    // Check if booking belongs to same tenant
-    if (booking.tenant_id !== user.tenant_id) {
-      return res.status(403).json({ error: 'Booking does not belong to your tenant' });
+// Admit one ticket without scanning it (ticket_number, or the next ticket not yet admitted)
+router.post('/:id/check-ins', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, CHECK_IN_ROLES, 'Only cashiers, receptionists, and admins can check in tickets');
+    if (!user) return;
+
+    const { ticket_number } = req.body;
+    if (ticket_number !== undefined && ticket_number !== null &&
+        (!Number.isInteger(Number(ticket_number)) || Number(ticket_number) < 1)) {
+      return res.status(400).json({ error: 'ticket_number must be a positive integer' });
     }
 
-    // Check if QR already scanned
-    if (booking.qr_scanned) {
-      return res.status(409).json({
-        error: 'QR code has already been scanned',
-        booking: {
-          id: booking.id,
-          customer_name: booking.customer_name,
-          qr_scanned_at: booking.qr_scanned_at,
-          qr_scanned_by_user_id: booking.qr_scanned_by_user_id,
-        },
-      });
+    const tenantId = await getBookingTenantForUser(req.params.id, user);
+    if (!tenantId) {
+      return res.status(404).json({ error: 'Booking not found' });
     }
 
-    // Mark QR as scanned
-    await query(
-      `UPDATE bookings 
-       SET qr_scanned = true, 
-           qr_scanned_at = now(), 
-           qr_scanned_by_user_id = $1,
-           status = 'checked_in',
-           checked_in_at = now(),
-           checked_in_by_user_id = $1
-       WHERE id = $2`,
-      [userId, booking_id]
-    );
+    const result = await checkInTicket({
+      bookingId: req.params.id,
+      ticketNumber: ticket_number !== undefined && ticket_number !== null ? Number(ticket_number) : null,
+      tenantId,
+      userId: user.id,
+    });
 
-    res.json({
+    await recordTicketCheckIn(req, tenantId, result);
+
+    const { checked_in, total } = result.tickets;
+    res.status(201).json({
       success: true,
-      message: 'QR code validated successfully',
-      booking: {
-        id: booking.id,
-        customer_name: booking.customer_name,
-        customer_phone: booking.customer_phone,
-        service_name: booking.service_name,
-        service_name_ar: booking.service_name_ar,
-        slot_date: booking.slot_date,
-        start_time: booking.start_time,
-        end_time: booking.end_time,
-        visitor_count: booking.visitor_count,
-        adult_count: booking.adult_count,
-        child_count: booking.child_count,
-        total_price: booking.total_price,
-        status: 'checked_in',
-        payment_status: booking.payment_status,
-        qr_scanned: true,
-        qr_scanned_at: new Date().toISOString(),
-      },
+      message: `Ticket ${result.ticket.number} admitted (${checked_in} of ${total} admitted)`,
+      ...result,
     });
   } catch (error: any) {
-    console.error('QR validation error:', error);
+    if (error instanceof TicketQrError) {
+      return res.status(error.status).json({ error: error.message, ...error.details });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Ticket check-in error', error, context, { booking_id: req.params.id });
     res.status(500).json({ error: error.message || 'Internal server error' });
   }
 });
@@ -1025,6 +1223,15 @@ router.patch('/:id/payment-status', authenticate, async (req, res) => {
       [bookingId]
     );
 
+    await recordAudit(req, {
+      action: 'update',
+      resourceType: 'bookings',
+      resourceId: bookingId,
+      tenantId: booking.tenant_id,
+      before: booking,
+      after: updatedBooking.rows[0],
+    });
+
     res.json({
       success: true,
       booking: updatedBooking.rows[0],
@@ -1044,5 +1251,392 @@ router.patch('/:id/payment-status', authenticate, async (req, res) => {
   }
 });
 
+// ============================================================================
+// Refunds (tenant admins and cashiers)
+// ============================================================================
+const REFUND_ROLES = ['tenant_admin', 'cashier', 'solution_owner'];
+const PROVIDER_REFUND_FAILED_WARNING = 'The payment provider could not refund the payment; return the money to the customer by hand';
+
+async function getRefundingUser(req: express.Request, res: express.Response) {
+  return getUserWithRole(req, res, REFUND_ROLES, 'Only tenant admins and cashiers can issue refunds');
+}
+
+async function getUserWithRole(req: express.Request, res: express.Response, roles: string[], deniedMessage: string) {
+  if (!req.user?.id) {
+    res.status(401).json({ error: 'Authentication required' });
+    return null;
+  }
+
+  const userResult = await query('SELECT id, role, tenant_id FROM users WHERE id = $1', [req.user.id]);
+  if (userResult.rows.length === 0) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+
+  const user = userResult.rows[0];
+  if (!roles.includes(user.role)) {
+    res.status(403).json({ error: deniedMessage });
+    return null;
+  }
+  return user;
+}
+
+async function getBookingTenantForUser(bookingId: string, user: any): Promise<string | null> {
+  const bookingResult = await query('SELECT tenant_id FROM bookings WHERE id = $1', [bookingId]);
+  if (bookingResult.rows.length === 0) {
+    return null;
+  }
+  // Solution owners act on behalf of the booking's tenant
+  return user.role === 'solution_owner' ? bookingResult.rows[0].tenant_id : user.tenant_id;
+}
+
+// Issue a full or partial refund for a booking
+router.post('/:id/refunds', authenticate, async (req, res) => {
+  try {
+    const user = await getRefundingUser(req, res);
+    if (!user) return;
+
+    const { amount, adult_tickets, child_tickets, reason, to_wallet } = req.body;
+
+    if (amount !== undefined && amount !== null && (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0)) {
+      return res.status(400).json({ error: 'amount must be a positive number' });
+    }
+
+    const tenantId = await getBookingTenantForUser(req.params.id, user);
+    if (!tenantId) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const refund = await refundBooking({
+      bookingId: req.params.id,
+      tenantId,
+      issuedByUserId: user.id,
+      amount: amount !== undefined && amount !== null ? parseFloat(amount) : null,
+      adultTickets: adult_tickets,
+      childTickets: child_tickets,
+      reason,
+      toWallet: to_wallet === true,
+    });
+
+    const updatedBooking = await query('SELECT * FROM bookings WHERE id = $1', [req.params.id]);
+
+    res.status(201).json({
+      success: true,
+      refund,
+      booking: updatedBooking.rows[0],
+      warning: refund.status === 'failed' ? PROVIDER_REFUND_FAILED_WARNING : undefined,
+    });
+  } catch (error: any) {
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Create refund error', error, context, { booking_id: req.params.id });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// List refunds for a booking
+router.get('/:id/refunds', authenticate, async (req, res) => {
+  try {
+    const user = await getRefundingUser(req, res);
+    if (!user) return;
+
+    const tenantId = await getBookingTenantForUser(req.params.id, user);
+    if (!tenantId) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const result = await query(
+      `SELECT r.*, u.full_name as issued_by_name
+       FROM refunds r
+       LEFT JOIN users u ON r.issued_by_user_id = u.id
+       WHERE r.booking_id = $1 AND r.tenant_id = $2
+       ORDER BY r.created_at DESC`,
+      [req.params.id, tenantId]
+    );
+
+    res.json(result.rows);
+  } catch (error: any) {
+    const context = logger.extractContext(req);
+    logger.error('List refunds error', error, context, { booking_id: req.params.id });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// Refund individual tickets (bookings) of a booking group
+router.post('/groups/:groupId/refunds', authenticate, async (req, res) => {
+  try {
+    const user = await getRefundingUser(req, res);
+    if (!user) return;
+
+    const { booking_ids, reason, to_wallet } = req.body;
+
+    if (booking_ids !== undefined && !Array.isArray(booking_ids)) {
+      return res.status(400).json({ error: 'booking_ids must be an array' });
+    }
+
+    let tenantId = user.tenant_id;
+    if (user.role === 'solution_owner') {
+      const groupResult = await query(
+        'SELECT tenant_id FROM bookings WHERE booking_group_id = $1 LIMIT 1',
+        [req.params.groupId]
+      );
+      if (groupResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Booking group not found' });
+      }
+      tenantId = groupResult.rows[0].tenant_id;
+    }
+
+    const refunds = await refundBookingGroup({
+      groupId: req.params.groupId,
+      tenantId,
+      issuedByUserId: user.id,
+      bookingIds: booking_ids,
+      reason,
+      toWallet: to_wallet === true,
+    });
+
+    res.status(201).json({
+      success: true,
+      refunds,
+      total_refunded: refunds.reduce((sum, refund) => sum + parseFloat(refund.amount), 0),
+      warning: refunds.some(refund => refund.status === 'failed') ? PROVIDER_REFUND_FAILED_WARNING : undefined,
+    });
+  } catch (error: any) {
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Group refund error', error, context, { booking_group_id: req.params.groupId });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Recurring bookings (tenant admins and receptionists)
+// ============================================================================
+const RECURRING_ROLES = ['tenant_admin', 'receptionist', 'solution_owner'];
+
+function handleRecurringBookingError(error: any, req: express.Request, res: express.Response, message: string) {
+  if (error instanceof RecurringBookingError) {
+    return res.status(error.status).json({ error: error.message, conflicts: error.conflicts });
+  }
+  const context = logger.extractContext(req);
+  logger.error(message, error, context, { series_id: req.params.seriesId });
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+// Book a service on a weekly/biweekly schedule; dry_run only reports availability per occurrence
+router.post('/recurring', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, RECURRING_ROLES, 'Only tenant admins and receptionists can create recurring bookings');
+    if (!user) return;
+
+    const {
+      service_id,
+      employee_id,
+      offer_id,
+      customer_name,
+      customer_phone,
+      customer_email,
+      adult_count = 1,
+      child_count = 0,
+      notes,
+      language = 'en',
+      start_date,
+      start_time,
+      recurrence,
+      dry_run = false,
+    } = req.body;
+
+    const tenantId = user.role === 'solution_owner' ? req.body.tenant_id : user.tenant_id;
+    if (!tenantId || !service_id || !start_date || !start_time) {
+      return res.status(400).json({ error: 'service_id, start_date and start_time are required' });
+    }
+
+    let normalizedPhone: string | null = null;
+    if (!dry_run) {
+      if (!customer_name || !customer_phone) {
+        return res.status(400).json({ error: 'customer_name and customer_phone are required' });
+      }
+      normalizedPhone = normalizePhoneNumber(customer_phone);
+      if (!normalizedPhone) {
+        return res.status(400).json({ error: 'Invalid phone number format' });
+      }
+    }
+
+    const result = await createRecurringBookings({
+      tenantId,
+      serviceId: service_id,
+      employeeId: employee_id || null,
+      offerId: offer_id || null,
+      customerName: customer_name,
+      customerPhone: normalizedPhone || '',
+      customerEmail: customer_email || null,
+      adultCount: parseInt(adult_count) || 0,
+      childCount: parseInt(child_count) || 0,
+      notes: notes || null,
+      language,
+      startDate: start_date,
+      startTime: start_time,
+      rule: recurrence,
+      createdByUserId: user.id,
+      dryRun: !!dry_run,
+    });
+
+    res.status(dry_run ? 200 : 201).json(result);
+  } catch (error: any) {
+    handleRecurringBookingError(error, req, res, 'Create recurring booking error');
+  }
+});
+
+// Get a recurring booking series with all its occurrences
+router.get('/series/:seriesId', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, [...RECURRING_ROLES, 'cashier'], 'You do not have permission to view this series');
+    if (!user) return;
+
+    const tenantId = user.role === 'solution_owner' ? req.query.tenant_id as string : user.tenant_id;
+    res.json(await getBookingSeries(req.params.seriesId, tenantId));
+  } catch (error: any) {
+    handleRecurringBookingError(error, req, res, 'Get booking series error');
+  }
+});
+
+// Cancel one occurrence (scope=occurrence) or it and all later ones (scope=remaining)
+router.post('/series/:seriesId/cancel', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, RECURRING_ROLES, 'Only tenant admins and receptionists can cancel recurring bookings');
+    if (!user) return;
+
+    const { booking_id, scope = 'remaining' } = req.body;
+    if (!booking_id) {
+      return res.status(400).json({ error: 'booking_id is required' });
+    }
+    if (scope !== 'occurrence' && scope !== 'remaining') {
+      return res.status(400).json({ error: 'scope must be occurrence or remaining' });
+    }
+
+    const tenantId = user.role === 'solution_owner' ? req.body.tenant_id : user.tenant_id;
+    const { cancelled, refunds } = await cancelSeriesByStaff(req.params.seriesId, tenantId, booking_id, scope, user.id);
+
+    res.json({
+      success: true,
+      cancelled,
+      refunds,
+      warning: refunds.some(refund => refund.status === 'failed') ? PROVIDER_REFUND_FAILED_WARNING : undefined,
+    });
+  } catch (error: any) {
+    handleRecurringBookingError(error, req, res, 'Cancel booking series error');
+  }
+});
+
+// ============================================================================
+// Reassigning bookings to another employee (tenant admins and receptionists)
+// ============================================================================
+const REASSIGN_ROLES = ['tenant_admin', 'receptionist', 'solution_owner'];
+
+function handleReassignmentError(error: any, req: express.Request, res: express.Response, message: string) {
+  if (error instanceof ReassignmentError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  const context = logger.extractContext(req);
+  logger.error(message, error, context, { booking_id: req.params.id });
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+// Employees offering the booking's service who are free at its time
+router.get('/:id/reassignment-candidates', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, REASSIGN_ROLES, 'Only tenant admins and receptionists can reassign bookings');
+    if (!user) return;
+
+    const tenantId = await getBookingTenantForUser(req.params.id, user);
+    if (!tenantId) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    res.json(await getReassignmentCandidates(req.params.id, tenantId));
+  } catch (error: any) {
+    handleReassignmentError(error, req, res, 'Reassignment candidates error');
+  }
+});
+
+// Move a booking to another employee and send the customer the updated ticket. Body: { employee_id }
+router.post('/:id/reassign', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, REASSIGN_ROLES, 'Only tenant admins and receptionists can reassign bookings');
+    if (!user) return;
+
+    const { employee_id } = req.body;
+    if (!employee_id) {
+      return res.status(400).json({ error: 'employee_id is required' });
+    }
+
+    const tenantId = await getBookingTenantForUser(req.params.id, user);
+    if (!tenantId) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const { before, after } = await reassignBooking({
+      bookingId: req.params.id,
+      tenantId,
+      toEmployeeId: employee_id,
+    });
+
+    await recordAudit(req, {
+      action: 'reassign',
+      resourceType: 'bookings',
+      resourceId: req.params.id,
+      tenantId,
+      before,
+      after,
+    });
+
+    res.json({ success: true, booking: after });
+  } catch (error: any) {
+    handleReassignmentError(error, req, res, 'Reassign booking error');
+  }
+});
+
+// Move all of an employee's bookings on a day to colleagues.
+// Body: { from_employee_id, date, to_employee_id? }; without to_employee_id each booking goes to
+// the least busy free colleague. Bookings nobody can take are returned as unassigned.
+router.post('/reassign-day', authenticate, async (req, res) => {
+  try {
+    const user = await getUserWithRole(req, res, REASSIGN_ROLES, 'Only tenant admins and receptionists can reassign bookings');
+    if (!user) return;
+
+    const { from_employee_id, date, to_employee_id } = req.body;
+    const tenantId = user.role === 'solution_owner' ? req.body.tenant_id : user.tenant_id;
+    if (!tenantId || !from_employee_id || !date) {
+      return res.status(400).json({ error: 'from_employee_id and date are required' });
+    }
+
+    const { moved, unassigned, changes } = await reassignEmployeeDay({
+      tenantId,
+      fromEmployeeId: from_employee_id,
+      date,
+      toEmployeeId: to_employee_id || null,
+    });
+
+    for (const change of changes) {
+      await recordAudit(req, {
+        action: 'reassign',
+        resourceType: 'bookings',
+        resourceId: change.after.id,
+        tenantId,
+        before: change.before,
+        after: change.after,
+      });
+    }
+
+    res.json({ success: true, moved, unassigned });
+  } catch (error: any) {
+    handleReassignmentError(error, req, res, 'Reassign employee day error');
+  }
+});
+
 export { router as bookingRoutes };
 
@@ -0,0 +1,124 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { query } from '../db';
+import { logger } from '../utils/logger';
+import {
+  CalendarError,
+  getCalendarFeed,
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+} from '../services/calendarService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Middleware to authenticate (required)
+function authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+/**
+ * Whose feed a request is for: the caller's own, or (tenant admins only) an employee
+ * of their tenant passed as employee_id.
+ */
+async function resolveFeedOwner(req: express.Request): Promise<string> {
+  const employeeId = (req.query.employee_id || req.body?.employee_id) as string | undefined;
+  if (!employeeId || employeeId === req.user!.id) {
+    return req.user!.id;
+  }
+
+  if (req.user!.role !== 'tenant_admin') {
+    throw new CalendarError('Access denied', 403);
+  }
+
+  const result = await query(
+    `SELECT id FROM users WHERE id = $1 AND tenant_id = $2 AND role != 'customer'`,
+    [employeeId, req.user!.tenant_id]
+  );
+  if (result.rows.length === 0) {
+    throw new CalendarError('Employee not found', 404);
+  }
+  return employeeId;
+}
+
+function feedUrlResponse(token: string) {
+  const url = getCalendarFeedUrl(token);
+  return {
+    url,
+    // webcal:// opens the subscribe dialog in most calendar apps
+    webcal_url: url.replace(/^https?:\/\//, 'webcal://'),
+  };
+}
+
+function handleCalendarError(error: any, req: express.Request, res: express.Response, message: string) {
+  if (error instanceof CalendarError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(message, error, logger.extractContext(req));
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+// ============================================================================
+// Subscribable ICS feed (public - the secret token identifies the user)
+// ============================================================================
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const ics = await getCalendarFeed(req.params.token);
+    if (!ics) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="bookings.ics"');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.send(ics);
+  } catch (error: any) {
+    logger.error('Calendar feed error', error, logger.extractContext(req));
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Get the feed URL (creates the feed token on first use)
+// ============================================================================
+router.get('/feed-url', authenticate, async (req, res) => {
+  try {
+    const userId = await resolveFeedOwner(req);
+    const token = await getCalendarFeedToken(userId);
+    res.json(feedUrlResponse(token));
+  } catch (error: any) {
+    handleCalendarError(error, req, res, 'Get calendar feed URL error');
+  }
+});
+
+// ============================================================================
+// Regenerate the feed token - previously shared feed URLs stop working
+// ============================================================================
+router.post('/feed-url/reset', authenticate, async (req, res) => {
+  try {
+    const userId = await resolveFeedOwner(req);
+    const token = await getCalendarFeedToken(userId, true);
+    res.json(feedUrlResponse(token));
+  } catch (error: any) {
+    handleCalendarError(error, req, res, 'Reset calendar feed URL error');
+  }
+});
+
+export { router as calendarRoutes };
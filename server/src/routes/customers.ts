@@ -1,6 +1,24 @@
 import express from 'express';
-import { query } from '../db';
+import { query, pool } from '../db';
 import jwt from 'jsonwebtoken';
+import {
+  BookingChangeError,
+  cancelBookingByCustomer,
+  getBookingChangeOptions,
+  getRescheduleSlots,
+  rescheduleBookingByCustomer,
+} from '../services/bookingChangeService';
+import { cancelRemainingSeriesByCustomer } from '../services/recurringBookingService';
+import { logger } from '../utils/logger';
+import { normalizePhoneNumber } from '../utils/phone';
+import { enforceTenantStatus } from '../middleware/tenantStatus';
+import {
+  PackageSubscriptionError,
+  createPendingSubscription,
+  findCustomerForUser,
+  getCustomerSubscriptions,
+} from '../services/packageSubscriptionService';
+import { PaymentError, createPackagePaymentIntent, getTenantPaymentSettings } from '../services/paymentService';
 
 const router = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
@@ -48,9 +66,13 @@ router.get('/bookings', authenticate, async (req, res) => {
         sl.start_time,
         sl.end_time,
         b.status,
+        b.payment_status,
         b.total_price,
         b.visitor_count,
         b.notes,
+        b.reschedule_count,
+        b.series_id,
+        b.series_index,
         b.created_at,
         r.id as review_id,
         r.rating,
@@ -71,6 +93,100 @@ router.get('/bookings', authenticate, async (req, res) => {
   }
 });
 
+// Get what the customer may do with a booking (cancel / reschedule) under the tenant policy
+router.get('/bookings/:id/options', authenticate, async (req, res) => {
+  try {
+    const options = await getBookingChangeOptions(req.params.id, req.user!.id);
+    res.json(options);
+  } catch (error: any) {
+    if (error instanceof BookingChangeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error fetching booking options:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// Get slots a booking can be moved to
+router.get('/bookings/:id/reschedule-slots', authenticate, async (req, res) => {
+  try {
+    const slots = await getRescheduleSlots(req.params.id, req.user!.id);
+    res.json(slots);
+  } catch (error: any) {
+    if (error instanceof BookingChangeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error fetching reschedule slots:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// Cancel a booking (self-service)
+router.post('/bookings/:id/cancel', authenticate, async (req, res) => {
+  try {
+    const { reason } = req.body;
+    const result = await cancelBookingByCustomer(req.params.id, req.user!.id, reason);
+
+    res.json({
+      success: true,
+      booking: result.booking,
+      cancellation_fee: result.cancellation_fee,
+      refund: result.refund,
+    });
+  } catch (error: any) {
+    if (error instanceof BookingChangeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error cancelling booking:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// Cancel an occurrence of a recurring booking and all later occurrences (self-service)
+router.post('/bookings/:id/cancel-series', authenticate, async (req, res) => {
+  try {
+    const { reason } = req.body;
+    const result = await cancelRemainingSeriesByCustomer(req.params.id, req.user!.id, reason);
+
+    res.json({
+      success: true,
+      cancelled: result.cancelled.map(({ booking, cancellation_fee, refund }) => ({
+        booking_id: booking.id,
+        cancellation_fee,
+        refund,
+      })),
+      skipped: result.skipped,
+    });
+  } catch (error: any) {
+    if (error instanceof BookingChangeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error cancelling recurring booking:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// Move a booking to another slot (self-service)
+router.post('/bookings/:id/reschedule', authenticate, async (req, res) => {
+  try {
+    const { slot_id } = req.body;
+
+    if (!slot_id) {
+      return res.status(400).json({ error: 'slot_id is required' });
+    }
+
+    const booking = await rescheduleBookingByCustomer(req.params.id, req.user!.id, slot_id);
+
+    res.json({ success: true, booking });
+  } catch (error: any) {
+    if (error instanceof BookingChangeError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error rescheduling booking:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
 // Get customer profile
 router.get('/profile', authenticate, async (req, res) => {
   try {
@@ -291,6 +407,95 @@ router.get('/invoices/latest', authenticate, async (req, res) => {
   }
 });
 
+// ============================================================================
+// Package subscriptions of the signed-in customer at a tenant, with remaining quantities
+// ============================================================================
+router.get('/packages', authenticate, async (req, res) => {
+  try {
+    const tenantId = (req.query.tenant_id as string) || req.user!.tenant_id;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'tenant_id is required' });
+    }
+
+    const customer = await findCustomerForUser({ query }, tenantId, req.user!.id);
+    if (!customer) {
+      return res.json([]);
+    }
+
+    res.json(await getCustomerSubscriptions({ query }, tenantId, customer.id));
+  } catch (error: any) {
+    logger.error('Get customer packages error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Buy a package online: the subscription is created pending payment and activated
+// (with its Zoho invoice queued) by the payment webhook
+// ============================================================================
+router.post('/packages/purchase', authenticate, enforceTenantStatus, async (req, res) => {
+  const { package_id, return_url } = req.body;
+  const tenantId = req.body.tenant_id || req.user!.tenant_id;
+  if (!tenantId || !package_id) {
+    return res.status(400).json({ error: 'tenant_id and package_id are required' });
+  }
+
+  const client = await pool.connect();
+  try {
+    if (!(await getTenantPaymentSettings(tenantId))) {
+      return res.status(400).json({ error: 'Online payments are not enabled for this service provider' });
+    }
+
+    // Subscriptions belong to the tenant customer record with the phone on the account
+    const userResult = await client.query('SELECT full_name, email, phone FROM users WHERE id = $1', [req.user!.id]);
+    const user = userResult.rows[0];
+    const phone = user?.phone ? normalizePhoneNumber(user.phone) : null;
+    if (!phone) {
+      return res.status(400).json({ error: 'Add a phone number to your profile to buy a package' });
+    }
+
+    await client.query('BEGIN');
+    const subscription = await createPendingSubscription(client, {
+      tenantId,
+      packageId: package_id,
+      customerPhone: phone,
+      customerName: user.full_name,
+      customerEmail: user.email,
+      userId: req.user!.id,
+    });
+    await client.query('COMMIT');
+
+    const payment = await createPackagePaymentIntent(subscription.id, return_url || null);
+
+    res.status(201).json({
+      subscription: {
+        id: subscription.id,
+        package_id: subscription.package_id,
+        price: parseFloat(subscription.price),
+        status: subscription.status,
+      },
+      payment: {
+        payment_id: payment.id,
+        provider: payment.provider,
+        amount: parseFloat(payment.amount),
+        currency: payment.currency,
+        status: payment.status,
+        redirect_url: payment.redirect_url,
+        expires_at: payment.expires_at,
+      },
+    });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    if (error instanceof PackageSubscriptionError || error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Package purchase error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
 export { router as customerRoutes };
 
 
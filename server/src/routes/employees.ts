@@ -1,11 +1,151 @@
 import express from 'express';
-import { query } from '../db';
+import { query, pool } from '../db';
 import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { recordAudit } from '../services/auditService';
+import {
+  ATTENDANCE_ACTIONS,
+  AttendanceAction,
+  EmployeePortalError,
+  addBookingNote,
+  getEmployeeSchedule,
+  getUpcomingShifts,
+  updateBookingAttendance,
+} from '../services/employeePortalService';
+import {
+  AvailabilityError,
+  createException,
+  deleteException,
+  findClashingBookings,
+  listExceptions,
+  validateException,
+} from '../services/employeeAvailabilityService';
 
 const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
-// Create employee
-router.post('/create', async (req, res) => {
+// Middleware to authenticate the signed-in employee (employee portal)
+function authenticateEmployee(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.role !== 'employee' || !decoded.tenant_id) {
+      return res.status(403).json({ error: 'Only employees can use the employee portal' });
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+// Middleware to authenticate tenant admins (managing employees and their availability)
+function authenticateTenantAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.role !== 'tenant_admin' || !decoded.tenant_id) {
+      return res.status(403).json({ error: 'Only tenant admins can manage employees' });
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+function handleServiceError(error: any, req: express.Request, res: express.Response, message: string) {
+  if (error instanceof EmployeePortalError || error instanceof AvailabilityError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(message, error, logger.extractContext(req));
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+// Roles a tenant admin may give to staff accounts they manage
+const ASSIGNABLE_ROLES = ['employee', 'receptionist', 'cashier'];
+const MIN_PASSWORD_LENGTH = 6;
+
+const STAFF_COLUMNS = `id, username, email, phone, full_name, full_name_ar, role, tenant_id, is_active, created_at`;
+
+// A staff account (employee, receptionist or cashier) of the caller's tenant, or null
+async function findTenantStaff(employeeId: string, tenantId: string) {
+  const result = await query(
+    `SELECT ${STAFF_COLUMNS} FROM users WHERE id = $1 AND tenant_id = $2 AND role = ANY($3::text[])`,
+    [employeeId, tenantId, ASSIGNABLE_ROLES]
+  );
+  return result.rows[0] || null;
+}
+
+// Usernames and emails are unique across all tenants; returns a message per field already taken
+async function findDuplicateFields(fields: { username?: string; email?: string | null }, excludeId: string | null = null) {
+  const result = await query(
+    `SELECT username, email FROM users
+     WHERE (username = $1 OR email = $2) AND id IS DISTINCT FROM $3::uuid`,
+    [fields.username ?? null, fields.email ?? null, excludeId]
+  );
+
+  const duplicates: Record<string, string> = {};
+  for (const row of result.rows) {
+    if (fields.username && row.username === fields.username) {
+      duplicates.username = 'Username already exists';
+    }
+    if (fields.email && row.email === fields.email) {
+      duplicates.email = 'Email already exists';
+    }
+  }
+  return duplicates;
+}
+
+function sendDuplicateError(res: express.Response, duplicates: Record<string, string>) {
+  return res.status(409).json({
+    error: Object.values(duplicates).join('. '),
+    code: 'DUPLICATE_USER',
+    fields: duplicates,
+  });
+}
+
+// List the tenant's staff accounts
+router.get('/', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${STAFF_COLUMNS}
+       FROM users
+       WHERE tenant_id = $1 AND role = ANY($2::text[])
+       ORDER BY full_name`,
+      [req.user!.tenant_id, ASSIGNABLE_ROLES]
+    );
+    res.json({ employees: result.rows });
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'List employees error');
+  }
+});
+
+// Create employee in the caller's tenant
+router.post('/create', authenticateTenantAdmin, async (req, res) => {
   try {
     const {
       username,
@@ -14,28 +154,30 @@ router.post('/create', async (req, res) => {
       full_name_ar,
       email,
       phone,
-      role,
-      tenant_id,
+      role = 'employee',
       service_shift_assignments,
     } = req.body;
+    const tenant_id = req.user!.tenant_id!;
 
-    if (!username || !password || !full_name || !tenant_id) {
+    if (!username || !password || !full_name) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
+    if (req.body.tenant_id && req.body.tenant_id !== tenant_id) {
+      return res.status(403).json({ error: 'You can only add employees to your own tenant' });
+    }
 
     // Validate role
-    if (!['employee', 'receptionist', 'cashier'].includes(role)) {
+    if (!ASSIGNABLE_ROLES.includes(role)) {
       return res.status(400).json({ error: 'Invalid role. Must be employee, receptionist, or cashier' });
     }
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
 
     // Check if username or email already exists
-    const existingUser = await query(
-      `SELECT id FROM users WHERE username = $1 OR email = $2`,
-      [username, email || '']
-    );
-
-    if (existingUser.rows.length > 0) {
-      return res.status(400).json({ error: 'Username or email already exists' });
+    const duplicates = await findDuplicateFields({ username, email: email || null });
+    if (Object.keys(duplicates).length > 0) {
+      return sendDuplicateError(res, duplicates);
     }
 
     // Hash password
@@ -46,14 +188,14 @@ router.post('/create', async (req, res) => {
     const userResult = await query(
       `INSERT INTO users (id, username, email, phone, full_name, full_name_ar, role, tenant_id, password_hash, is_active)
        VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, true)
-       RETURNING *`,
+       RETURNING ${STAFF_COLUMNS}`,
       [
         username,
         emailForUser,
         phone || null,
         full_name,
         full_name_ar || '',
-        role || 'employee',
+        role,
         tenant_id,
         passwordHash,
       ]
@@ -79,25 +221,35 @@ router.post('/create', async (req, res) => {
         }
       });
 
-      if (assignments.length > 0) {
-        for (const assignment of assignments) {
-          await query(
-            `INSERT INTO employee_services (id, employee_id, service_id, shift_id, tenant_id, duration_minutes, capacity_per_slot)
-             VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, $6)
-             ON CONFLICT (employee_id, service_id, shift_id) DO NOTHING`,
-            [
-              assignment.employee_id,
-              assignment.service_id,
-              assignment.shift_id,
-              assignment.tenant_id,
-              assignment.duration_minutes,
-              assignment.capacity_per_slot,
-            ]
-          );
-        }
+      // Only services and shifts of the caller's tenant are assigned
+      for (const assignment of assignments) {
+        await query(
+          `INSERT INTO employee_services (id, employee_id, service_id, shift_id, tenant_id, duration_minutes, capacity_per_slot)
+           SELECT gen_random_uuid(), $1, s.id, sh.id, $4, $5, $6
+           FROM services s
+           JOIN shifts sh ON sh.service_id = s.id
+           WHERE s.id = $2 AND sh.id = $3 AND s.tenant_id = $4
+           ON CONFLICT (employee_id, service_id, shift_id) DO NOTHING`,
+          [
+            assignment.employee_id,
+            assignment.service_id,
+            assignment.shift_id,
+            assignment.tenant_id,
+            assignment.duration_minutes,
+            assignment.capacity_per_slot,
+          ]
+        );
       }
     }
 
+    await recordAudit(req, {
+      action: 'create',
+      resourceType: 'users',
+      resourceId: newUser.id,
+      tenantId: newUser.tenant_id,
+      after: newUser,
+    });
+
     res.json({ user: newUser });
   } catch (error: any) {
     console.error('Create employee error:', error);
@@ -105,8 +257,8 @@ router.post('/create', async (req, res) => {
   }
 });
 
-// Update employee
-router.post('/update', async (req, res) => {
+// Update employee of the caller's tenant
+router.post('/update', authenticateTenantAdmin, async (req, res) => {
   try {
     const {
       employee_id,
@@ -124,45 +276,37 @@ router.post('/update', async (req, res) => {
     }
 
     // Get existing employee
-    const existingResult = await query('SELECT * FROM users WHERE id = $1', [employee_id]);
-    if (existingResult.rows.length === 0) {
+    const existing = await findTenantStaff(employee_id, req.user!.tenant_id!);
+    if (!existing) {
       return res.status(404).json({ error: 'Employee not found' });
     }
 
-    const existing = existingResult.rows[0];
-
-    // Update password if provided
-    if (password) {
-      const passwordHash = await bcrypt.hash(password, 10);
-      await query(
-        'UPDATE users SET password_hash = $1 WHERE id = $2',
-        [passwordHash, employee_id]
-      );
-    }
-
     // Update database fields
     const updates: any = {};
     if (full_name !== undefined) updates.full_name = full_name;
     if (full_name_ar !== undefined) updates.full_name_ar = full_name_ar;
     if (phone !== undefined) updates.phone = phone;
     if (role !== undefined) {
-      if (!['employee', 'receptionist', 'cashier'].includes(role)) {
+      if (!ASSIGNABLE_ROLES.includes(role)) {
         return res.status(400).json({ error: 'Invalid role. Must be employee, receptionist, or cashier' });
       }
       updates.role = role;
     }
-    if (is_active !== undefined) updates.is_active = is_active;
+    if (is_active !== undefined) updates.is_active = is_active === true;
     if (username !== undefined && username !== existing.username) {
       // Check if new username already exists
-      const usernameCheck = await query(
-        'SELECT id FROM users WHERE username = $1 AND id != $2',
-        [username, employee_id]
-      );
-      if (usernameCheck.rows.length > 0) {
-        return res.status(400).json({ error: 'Username already exists' });
+      const duplicates = await findDuplicateFields({ username }, employee_id);
+      if (Object.keys(duplicates).length > 0) {
+        return sendDuplicateError(res, duplicates);
       }
       updates.username = username;
     }
+    if (password) {
+      if (String(password).length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      updates.password_hash = await bcrypt.hash(password, 10);
+    }
 
     if (Object.keys(updates).length > 0) {
       const setClauses = Object.keys(updates).map((key, i) => `${key} = $${i + 1}`).join(', ');
@@ -175,6 +319,16 @@ router.post('/update', async (req, res) => {
       );
     }
 
+    const updatedResult = await query(`SELECT ${STAFF_COLUMNS} FROM users WHERE id = $1`, [employee_id]);
+    await recordAudit(req, {
+      action: 'update',
+      resourceType: 'users',
+      resourceId: employee_id,
+      tenantId: existing.tenant_id,
+      before: existing,
+      after: updatedResult.rows[0],
+    });
+
     res.json({ success: true, message: 'Employee updated successfully' });
   } catch (error: any) {
     console.error('Update employee error:', error);
@@ -182,5 +336,292 @@ router.post('/update', async (req, res) => {
   }
 });
 
+// Deactivate an employee; they can no longer sign in and keep their booking history
+router.post('/:employeeId/deactivate', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const existing = await findTenantStaff(req.params.employeeId, req.user!.tenant_id!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    const updated = await query(
+      `UPDATE users SET is_active = false WHERE id = $1 RETURNING ${STAFF_COLUMNS}`,
+      [existing.id]
+    );
+    await recordAudit(req, {
+      action: 'update',
+      resourceType: 'users',
+      resourceId: existing.id,
+      tenantId: existing.tenant_id,
+      before: existing,
+      after: updated.rows[0],
+    });
+
+    res.json({ success: true, user: updated.rows[0] });
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Deactivate employee error');
+  }
+});
+
+// Set a new password for an employee. Body: { password }
+router.post('/:employeeId/reset-password', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const { password } = req.body;
+    if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const existing = await findTenantStaff(req.params.employeeId, req.user!.tenant_id!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+    await query('UPDATE users SET password_hash = $1 WHERE id = $2', [passwordHash, existing.id]);
+    await recordAudit(req, {
+      action: 'update',
+      resourceType: 'users',
+      resourceId: existing.id,
+      tenantId: existing.tenant_id,
+      after: { password_reset: true },
+    });
+
+    res.json({ success: true, message: 'Password reset successfully' });
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Reset employee password error');
+  }
+});
+
+// Delete an employee. Refused while they have upcoming bookings, which must be reassigned first.
+router.delete('/:employeeId', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const existing = await findTenantStaff(req.params.employeeId, req.user!.tenant_id!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    const upcoming = await query(
+      `SELECT COUNT(*)::int as count
+       FROM bookings b
+       JOIN slots sl ON b.slot_id = sl.id
+       WHERE b.employee_id = $1
+         AND b.status IN ('pending', 'confirmed', 'checked_in')
+         AND sl.slot_date >= CURRENT_DATE`,
+      [existing.id]
+    );
+    if (upcoming.rows[0].count > 0) {
+      return res.status(409).json({
+        error: `The employee has ${upcoming.rows[0].count} upcoming booking(s). Reassign them or deactivate the employee instead.`,
+        code: 'EMPLOYEE_HAS_BOOKINGS',
+      });
+    }
+
+    try {
+      await query('DELETE FROM users WHERE id = $1', [existing.id]);
+    } catch (error: any) {
+      // Still referenced by records that must be kept
+      if (error.code === '23503') {
+        return res.status(409).json({
+          error: 'The employee cannot be deleted because other records refer to them. Deactivate the employee instead.',
+          code: 'EMPLOYEE_IN_USE',
+        });
+      }
+      throw error;
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      resourceType: 'users',
+      resourceId: existing.id,
+      tenantId: existing.tenant_id,
+      before: existing,
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Delete employee error');
+  }
+});
+
+// ============================================================================
+// Employee portal: the signed-in employee's schedule, shifts and attendance actions
+// ============================================================================
+
+// Bookings assigned to me; ?start=&end= (YYYY-MM-DD, tenant time zone, default today)
+router.get('/me/schedule', authenticateEmployee, async (req, res) => {
+  try {
+    const schedule = await getEmployeeSchedule(
+      req.user!.id,
+      req.user!.tenant_id!,
+      typeof req.query.start === 'string' && req.query.start ? req.query.start : undefined,
+      typeof req.query.end === 'string' && req.query.end ? req.query.end : undefined
+    );
+    res.json(schedule);
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Employee schedule error');
+  }
+});
+
+// My shifts over the next ?days= days (default 14)
+router.get('/me/shifts', authenticateEmployee, async (req, res) => {
+  try {
+    const days = parseInt(String(req.query.days ?? ''), 10);
+    const shifts = await getUpcomingShifts(
+      req.user!.id,
+      req.user!.tenant_id!,
+      Number.isInteger(days) && days > 0 ? Math.min(days, 60) : 14
+    );
+    res.json(shifts);
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Employee shifts error');
+  }
+});
+
+// Check in, complete or mark a no-show. Body: { action: 'check_in' | 'complete' | 'no_show' }
+router.post('/me/bookings/:id/attendance', authenticateEmployee, async (req, res) => {
+  const action = req.body.action as AttendanceAction;
+  if (!ATTENDANCE_ACTIONS.includes(action)) {
+    return res.status(400).json({ error: 'action must be check_in, complete or no_show' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { before, after } = await updateBookingAttendance(client, {
+      employeeId: req.user!.id,
+      tenantId: req.user!.tenant_id!,
+      bookingId: req.params.id,
+      action,
+    });
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action,
+      resourceType: 'bookings',
+      resourceId: after.id,
+      before,
+      after,
+    });
+
+    res.json({ booking: after });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleServiceError(error, req, res, 'Employee attendance error');
+  } finally {
+    client.release();
+  }
+});
+
+// Add an internal note to one of my bookings. Body: { note }
+router.post('/me/bookings/:id/notes', authenticateEmployee, async (req, res) => {
+  try {
+    const note = await addBookingNote({
+      employeeId: req.user!.id,
+      tenantId: req.user!.tenant_id!,
+      bookingId: req.params.id,
+      note: req.body.note,
+    });
+
+    await recordAudit(req, {
+      action: 'create',
+      resourceType: 'booking_notes',
+      resourceId: note.id,
+      after: note,
+    });
+
+    res.status(201).json(note);
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Employee booking note error');
+  }
+});
+
+// ============================================================================
+// Availability exceptions: time off, blocks and breaks (tenant admins)
+// ============================================================================
+
+// The employee's exceptions
+router.get('/:employeeId/availability-exceptions', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const exceptions = await listExceptions(req.params.employeeId, req.user!.tenant_id!);
+    res.json({ exceptions });
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'List availability exceptions error');
+  }
+});
+
+// Add an exception. Body: { kind, start_date, end_date?, start_time?, end_time?, days_of_week?, reason? }
+// Responds with the bookings that now clash with it so they can be reassigned.
+router.post('/:employeeId/availability-exceptions', authenticateTenantAdmin, async (req, res) => {
+  let input;
+  try {
+    input = validateException(req.body);
+  } catch (error: any) {
+    return handleServiceError(error, req, res, 'Create availability exception error');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { exception, slotsClosed } = await createException(client, {
+      employeeId: req.params.employeeId,
+      tenantId: req.user!.tenant_id!,
+      createdBy: req.user!.id,
+      input,
+    });
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'create',
+      resourceType: 'employee_availability_exceptions',
+      resourceId: exception.id,
+      tenantId: exception.tenant_id,
+      after: exception,
+    });
+
+    const clashingBookings = await findClashingBookings(exception.id, req.user!.tenant_id!);
+    res.status(201).json({ exception, slots_closed: slotsClosed, clashing_bookings: clashingBookings });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleServiceError(error, req, res, 'Create availability exception error');
+  } finally {
+    client.release();
+  }
+});
+
+// Bookings that clash with an exception
+router.get('/availability-exceptions/:id/clashes', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const bookings = await findClashingBookings(req.params.id, req.user!.tenant_id!);
+    res.json({ bookings });
+  } catch (error: any) {
+    handleServiceError(error, req, res, 'Availability exception clashes error');
+  }
+});
+
+// Remove an exception and reopen the slots it closed
+router.delete('/availability-exceptions/:id', authenticateTenantAdmin, async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { exception, slotsReopened } = await deleteException(client, req.params.id, req.user!.tenant_id!);
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'delete',
+      resourceType: 'employee_availability_exceptions',
+      resourceId: exception.id,
+      tenantId: exception.tenant_id,
+      before: exception,
+    });
+
+    res.json({ success: true, slots_reopened: slotsReopened });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleServiceError(error, req, res, 'Delete availability exception error');
+  } finally {
+    client.release();
+  }
+});
+
 export { router as employeeRoutes };
 
@@ -0,0 +1,134 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { recordAudit } from '../services/auditService';
+import {
+  EXPORT_FORMATS,
+  EXPORT_RESOURCES,
+  ExportError,
+  ExportFormat,
+  ExportResource,
+  exportFileName,
+  isCustomerExport,
+  validateExportFilters,
+  writeExport,
+} from '../services/exportService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Middleware to authenticate tenant admins, solution owners and customers (who pick the tenant)
+function authenticateExporter(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (!['tenant_admin', 'solution_owner', 'customer'].includes(decoded.role)) {
+      return res.status(403).json({ error: 'Only tenant admins can export data' });
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+// Tenant admins export their own tenant; solution owners and customers pass tenant_id
+function resolveTenantId(req: express.Request): string | undefined {
+  if ((req.user!.role === 'solution_owner' || req.user!.role === 'customer') && typeof req.query.tenant_id === 'string') {
+    return req.query.tenant_id;
+  }
+  return req.user!.tenant_id;
+}
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+// ============================================================================
+// Download bookings, customers or payments as CSV or XLSX
+// Query: format=csv|xlsx, start, end (YYYY-MM-DD), status, service_id, lang=en|ar (column headers)
+// Customers get their own bookings and payments only
+// ============================================================================
+router.get('/:resource', authenticateExporter, async (req, res) => {
+  const resource = req.params.resource as ExportResource;
+  const format = (queryString(req.query.format) || 'csv') as ExportFormat;
+
+  try {
+    const tenantId = resolveTenantId(req);
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+    if (!EXPORT_RESOURCES.includes(resource)) {
+      return res.status(404).json({ error: `Unknown export: ${resource}` });
+    }
+    const customerId = req.user!.role === 'customer' ? req.user!.id : undefined;
+    if (customerId && !isCustomerExport(resource)) {
+      return res.status(403).json({ error: 'Only tenant admins can export data' });
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: 'format must be csv or xlsx' });
+    }
+
+    const filters = {
+      start: queryString(req.query.start),
+      end: queryString(req.query.end),
+      status: queryString(req.query.status),
+      serviceId: queryString(req.query.service_id),
+    };
+    if (filters.serviceId && !UUID_PATTERN.test(filters.serviceId)) {
+      return res.status(400).json({ error: 'service_id must be a UUID' });
+    }
+    validateExportFilters(filters);
+
+    await recordAudit(req, {
+      action: 'export',
+      resourceType: resource,
+      tenantId,
+      after: { format, ...filters },
+    });
+
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(resource, format, filters)}"`);
+    await writeExport(res, {
+      tenantId,
+      customerId,
+      resource,
+      format,
+      filters,
+      language: req.query.lang === 'ar' ? 'ar' : 'en',
+    });
+  } catch (error: any) {
+    if (res.headersSent) {
+      // Part of the file is already out; cut the download short rather than hand over a truncated file
+      logger.error('Export failed while streaming', error, logger.extractContext(req), { resource, format });
+      res.destroy(error);
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    if (error instanceof ExportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Export error', error, logger.extractContext(req), { resource, format });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+export { router as exportRoutes };
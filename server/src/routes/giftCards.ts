@@ -0,0 +1,262 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { query, pool } from '../db';
+import { logger } from '../utils/logger';
+import { normalizePhoneNumber } from '../utils/phone';
+import { enforceTenantStatus } from '../middleware/tenantStatus';
+import { recordAudit } from '../services/auditService';
+import { PaymentError, createGiftCardPaymentIntent, getTenantPaymentSettings } from '../services/paymentService';
+import { GiftCardError, GiftCardRequest, createGiftCard, deliverGiftCard, redeemGiftCard } from '../services/giftCardService';
+import { WalletError } from '../services/walletService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Staff who sell gift cards at the desk and redeem them for customers
+const FRONT_DESK_ROLES = ['tenant_admin', 'receptionist', 'cashier'];
+
+// Optional authentication: customers can buy and redeem gift cards as guests
+function authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (authHeader) {
+      const token = authHeader.replace('Bearer ', '');
+      const decoded = jwt.verify(token, JWT_SECRET) as any;
+      req.user = {
+        id: decoded.id,
+        email: decoded.email,
+        role: decoded.role,
+        tenant_id: decoded.tenant_id,
+      };
+    }
+    next();
+  } catch {
+    // Continue without auth for guests
+    next();
+  }
+}
+
+function requireFrontDesk(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (!FRONT_DESK_ROLES.includes(req.user.role || '') || !req.user.tenant_id) {
+    return res.status(403).json({ error: 'Only tenant staff can manage gift cards' });
+  }
+  next();
+}
+
+function handleGiftCardError(error: any, req: express.Request, res: express.Response, message: string) {
+  if (error instanceof GiftCardError || error instanceof WalletError || error instanceof PaymentError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(message, error, logger.extractContext(req));
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+// Gift card details from a request body; phone numbers are normalized, invalid ones rejected
+function giftCardRequest(body: any, tenantId: string): GiftCardRequest {
+  const phone = (value: unknown, label: string) => {
+    if (!value) return null;
+    const normalized = normalizePhoneNumber(String(value));
+    if (!normalized) {
+      throw new GiftCardError(`Invalid ${label} phone number format`);
+    }
+    return normalized;
+  };
+
+  return {
+    tenantId,
+    amount: parseFloat(body.amount),
+    purchaserName: body.purchaser_name || null,
+    purchaserPhone: phone(body.purchaser_phone, 'purchaser'),
+    purchaserEmail: body.purchaser_email || null,
+    recipientName: body.recipient_name || null,
+    recipientPhone: phone(body.recipient_phone, 'recipient'),
+    recipientEmail: body.recipient_email || null,
+    message: typeof body.message === 'string' ? body.message.trim().slice(0, 500) || null : null,
+    language: body.language,
+  };
+}
+
+// Gift cards are only useful once delivered: send the PDF after the response
+function deliverInBackground(giftCardId: string) {
+  process.nextTick(async () => {
+    try {
+      await deliverGiftCard(giftCardId);
+    } catch (error: any) {
+      console.error(`[GiftCards] ⚠️ Failed to deliver gift card ${giftCardId}:`, error.message);
+    }
+  });
+}
+
+// ============================================================================
+// Buy a gift card online: created pending payment, activated and delivered by the payment webhook
+// ============================================================================
+router.post('/purchase', authenticate, enforceTenantStatus, async (req, res) => {
+  const { tenant_id, return_url } = req.body;
+  if (!tenant_id) {
+    return res.status(400).json({ error: 'tenant_id is required' });
+  }
+
+  const client = await pool.connect();
+  try {
+    if (!(await getTenantPaymentSettings(tenant_id))) {
+      return res.status(400).json({ error: 'Online payments are not enabled for this service provider' });
+    }
+
+    const request = giftCardRequest(req.body, tenant_id);
+    if (!request.purchaserName || (!request.purchaserPhone && !request.purchaserEmail)) {
+      return res.status(400).json({ error: 'Your name and a phone number or email are required' });
+    }
+    if (req.user?.role === 'customer') {
+      request.purchasedByUserId = req.user.id;
+    }
+
+    await client.query('BEGIN');
+    const giftCard = await createGiftCard(client, request, 'pending_payment');
+    await client.query('COMMIT');
+
+    const payment = await createGiftCardPaymentIntent(giftCard.id, return_url || null);
+
+    // The code is only revealed to the recipient, once the card is paid for
+    res.status(201).json({
+      gift_card: {
+        id: giftCard.id,
+        amount: parseFloat(giftCard.initial_amount),
+        status: giftCard.status,
+        expires_at: giftCard.expires_at,
+      },
+      payment: {
+        payment_id: payment.id,
+        provider: payment.provider,
+        amount: parseFloat(payment.amount),
+        currency: payment.currency,
+        status: payment.status,
+        redirect_url: payment.redirect_url,
+        expires_at: payment.expires_at,
+      },
+    });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleGiftCardError(error, req, res, 'Gift card purchase error');
+  } finally {
+    client.release();
+  }
+});
+
+// ============================================================================
+// Sell a gift card at the desk (paid in person): active immediately and sent to the recipient
+// ============================================================================
+router.post('/issue', authenticate, requireFrontDesk, async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const request = giftCardRequest(req.body, req.user!.tenant_id!);
+    request.issuedByUserId = req.user!.id;
+    request.expiresAt = req.body.expires_at || null;
+
+    await client.query('BEGIN');
+    const giftCard = await createGiftCard(client, request, 'active');
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'create',
+      resourceType: 'gift_cards',
+      resourceId: giftCard.id,
+      tenantId: giftCard.tenant_id,
+      after: giftCard,
+    });
+
+    deliverInBackground(giftCard.id);
+    res.status(201).json(giftCard);
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleGiftCardError(error, req, res, 'Issue gift card error');
+  } finally {
+    client.release();
+  }
+});
+
+// ============================================================================
+// Send the gift card PDF to its recipient again
+// ============================================================================
+router.post('/:id/resend', authenticate, requireFrontDesk, async (req, res) => {
+  try {
+    const giftCard = await query(
+      'SELECT id FROM gift_cards WHERE id = $1 AND tenant_id = $2',
+      [req.params.id, req.user!.tenant_id]
+    );
+    if (giftCard.rows.length === 0) {
+      return res.status(404).json({ error: 'Gift card not found' });
+    }
+
+    const delivered = await deliverGiftCard(req.params.id);
+    if (!delivered.whatsapp && !delivered.email) {
+      return res.status(502).json({ error: 'The gift card could not be sent by WhatsApp or email', delivered });
+    }
+    res.json({ success: true, delivered });
+  } catch (error: any) {
+    handleGiftCardError(error, req, res, 'Resend gift card error');
+  }
+});
+
+// ============================================================================
+// Redeem a gift card into a customer wallet.
+// Front desk staff redeem for any customer phone; customers redeem into their own wallet.
+// ============================================================================
+router.post('/redeem', authenticate, enforceTenantStatus, async (req, res) => {
+  const { code, customer_name, language } = req.body;
+  const isFrontDesk = FRONT_DESK_ROLES.includes(req.user?.role || '');
+  const tenantId = isFrontDesk ? req.user!.tenant_id : req.body.tenant_id;
+
+  if (!tenantId || !code) {
+    return res.status(400).json({ error: 'tenant_id and code are required' });
+  }
+
+  const client = await pool.connect();
+  try {
+    let customerPhone = req.body.customer_phone;
+    if (req.user?.role === 'customer') {
+      const userResult = await client.query('SELECT phone FROM users WHERE id = $1', [req.user.id]);
+      customerPhone = userResult.rows[0]?.phone || customerPhone;
+    }
+
+    const normalizedPhone = customerPhone ? normalizePhoneNumber(String(customerPhone)) : null;
+    if (!normalizedPhone) {
+      return res.status(400).json({ error: 'A valid customer phone number is required' });
+    }
+
+    await client.query('BEGIN');
+    const result = await redeemGiftCard(client, {
+      tenantId,
+      code,
+      customerPhone: normalizedPhone,
+      customerName: customer_name || null,
+      userId: req.user?.id || null,
+      language,
+    });
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'redeem',
+      resourceType: 'gift_cards',
+      resourceId: result.gift_card.id,
+      tenantId,
+      after: { customer_id: result.customer_id, amount: result.amount },
+    });
+
+    res.json({
+      success: true,
+      amount: result.amount,
+      wallet_balance: result.wallet_balance,
+      customer_id: result.customer_id,
+    });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleGiftCardError(error, req, res, 'Redeem gift card error');
+  } finally {
+    client.release();
+  }
+});
+
+export { router as giftCardRoutes };
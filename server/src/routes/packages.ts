@@ -0,0 +1,82 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { pool } from '../db';
+import { logger } from '../utils/logger';
+import { recordAudit } from '../services/auditService';
+import { PackageSubscriptionError, renewSubscription } from '../services/packageSubscriptionService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Middleware to authenticate tenant admins (subscription renewals are priced decisions)
+function authenticateTenantAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.role !== 'tenant_admin' || !decoded.tenant_id) {
+      return res.status(403).json({ error: 'Only tenant admins can renew package subscriptions' });
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+// ============================================================================
+// Renew or extend a subscription.
+// Body: { mode: 'extend' | 'renew', validity_days?, carry_over? }
+// ============================================================================
+router.post('/subscriptions/:id/renew', authenticateTenantAdmin, async (req, res) => {
+  const { mode, validity_days, carry_over } = req.body;
+  if (mode !== 'extend' && mode !== 'renew') {
+    return res.status(400).json({ error: "mode must be 'extend' or 'renew'" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const subscription = await renewSubscription(client, {
+      tenantId: req.user!.tenant_id!,
+      subscriptionId: req.params.id,
+      mode,
+      validityDays: validity_days === undefined || validity_days === null || validity_days === ''
+        ? null
+        : Number(validity_days),
+      carryOver: carry_over === true,
+    });
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: mode === 'extend' ? 'update' : 'create',
+      resourceType: 'package_subscriptions',
+      resourceId: subscription.id,
+      tenantId: req.user!.tenant_id!,
+      after: subscription,
+    });
+
+    res.status(mode === 'extend' ? 200 : 201).json(subscription);
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    if (error instanceof PackageSubscriptionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Renew package subscription error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export { router as packageRoutes };
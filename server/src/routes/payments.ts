@@ -0,0 +1,272 @@
+import express from 'express';
+import { query } from '../db';
+import { logger } from '../utils/logger';
+import {
+  PaymentError,
+  applyPaymentEvent,
+  createPaymentIntent,
+  getPaymentProvider,
+  getTenantPaymentSettings,
+  isAllowedReturnUrl,
+} from '../services/paymentService';
+
+const router = express.Router();
+
+function appendQuery(url: string, params: Record<string, string>): string {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${new URLSearchParams(params).toString()}`;
+}
+
+// ============================================================================
+// Public payment configuration for a tenant (used by checkout to show "Pay online")
+// ============================================================================
+router.get('/config/:tenantId', async (req, res) => {
+  try {
+    const settings = await getTenantPaymentSettings(req.params.tenantId);
+
+    res.json({
+      enabled: !!settings,
+      provider: settings?.provider || null,
+      currency: settings?.currency || 'SAR',
+    });
+  } catch (error: any) {
+    const context = logger.extractContext(req);
+    logger.error('Get payment config error', error, context, { tenant_id: req.params.tenantId });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Create payment intent for a booking awaiting online payment
+// ============================================================================
+router.post('/intents', async (req, res) => {
+  try {
+    const { booking_id, return_url } = req.body;
+
+    if (!booking_id) {
+      return res.status(400).json({ error: 'booking_id is required' });
+    }
+
+    const payment = await createPaymentIntent(booking_id, return_url || null);
+
+    res.status(201).json({
+      payment_id: payment.id,
+      provider: payment.provider,
+      amount: parseFloat(payment.amount),
+      currency: payment.currency,
+      status: payment.status,
+      redirect_url: payment.redirect_url,
+      expires_at: payment.expires_at,
+    });
+  } catch (error: any) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Create payment intent error', error, context, { booking_id: req.body.booking_id });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Customer returns from the hosted checkout page
+// ============================================================================
+router.get('/return/:provider', async (req, res) => {
+  const providerName = req.params.provider;
+
+  try {
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      return res.status(404).json({ error: `Unknown payment provider: ${providerName}` });
+    }
+
+    const txnId = (req.query.txn_id as string) || '';
+    const paymentLookup = await query(
+      `SELECT p.*, t.payment_settings
+       FROM payments p
+       JOIN tenants t ON p.tenant_id = t.id
+       WHERE p.provider = $1 AND p.gateway_txn_id = $2`,
+      [providerName, txnId]
+    );
+
+    if (paymentLookup.rows.length === 0) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    const lookup = paymentLookup.rows[0];
+    const event = provider.parseReturn(req.query as Record<string, any>, lookup.payment_settings || {});
+
+    if (!event) {
+      return res.status(400).json({ error: 'Invalid payment return signature' });
+    }
+
+    const payment = await applyPaymentEvent(providerName, event);
+
+    // Payments are for a booking, a gift card or a package subscription
+    const target: Record<string, string> = payment.gift_card_id
+      ? { gift_card_id: payment.gift_card_id }
+      : payment.package_subscription_id
+        ? { package_subscription_id: payment.package_subscription_id }
+        : { booking_id: payment.booking_id };
+
+    // Checked again in case the URL was stored before return URLs were validated
+    if (!lookup.return_url || !isAllowedReturnUrl(lookup.return_url)) {
+      return res.json({ payment_id: payment.id, ...target, status: payment.status });
+    }
+
+    res.redirect(appendQuery(lookup.return_url, {
+      payment_id: payment.id,
+      ...target,
+      payment_status: payment.status,
+    }));
+  } catch (error: any) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Payment return error', error, context, { provider: providerName });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Provider webhook (signature verified against the raw request body)
+// ============================================================================
+router.post('/webhook/:provider', async (req, res) => {
+  const providerName = req.params.provider;
+
+  try {
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      return res.status(404).json({ error: `Unknown payment provider: ${providerName}` });
+    }
+
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) {
+      return res.status(400).json({ error: 'Missing request body' });
+    }
+
+    // Resolve the tenant's settings (and webhook secret) from the transaction id
+    const txnId = req.body?.txn_id || req.body?.data?.id;
+    const settingsLookup = await query(
+      `SELECT t.payment_settings
+       FROM payments p
+       JOIN tenants t ON p.tenant_id = t.id
+       WHERE p.provider = $1 AND p.gateway_txn_id = $2`,
+      [providerName, txnId || '']
+    );
+
+    if (settingsLookup.rows.length === 0) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    const event = provider.verifyWebhook(rawBody, req.headers, settingsLookup.rows[0].payment_settings || {});
+    if (!event) {
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    const payment = await applyPaymentEvent(providerName, event);
+
+    res.json({ received: true, payment_id: payment.id, status: payment.status });
+  } catch (error: any) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Payment webhook error', error, context, { provider: providerName });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Payment status (polled by the success pages after returning from checkout)
+// ============================================================================
+router.get('/:id', async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT
+        p.id, p.status, p.amount, p.currency, p.provider, p.created_at,
+        b.id as booking_id, b.customer_name, b.visitor_count, b.adult_count, b.child_count,
+        b.total_price, b.status as booking_status, b.payment_status,
+        b.service_id, b.slot_id,
+        sl.slot_date, sl.start_time, sl.end_time,
+        g.id as gift_card_id, g.initial_amount as gift_card_amount, g.status as gift_card_status,
+        g.recipient_name as gift_card_recipient_name, g.expires_at as gift_card_expires_at,
+        ps.id as package_subscription_id, ps.status as package_subscription_status,
+        ps.expires_at as package_subscription_expires_at, sp.name as package_name, sp.name_ar as package_name_ar
+      FROM payments p
+      LEFT JOIN bookings b ON p.booking_id = b.id
+      LEFT JOIN slots sl ON b.slot_id = sl.id
+      LEFT JOIN gift_cards g ON p.gift_card_id = g.id
+      LEFT JOIN package_subscriptions ps ON p.package_subscription_id = ps.id
+      LEFT JOIN service_packages sp ON ps.package_id = sp.id
+      WHERE p.id = $1`,
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    const row = result.rows[0];
+    const payment = {
+      id: row.id,
+      status: row.status,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      provider: row.provider,
+      created_at: row.created_at,
+    };
+
+    if (row.gift_card_id) {
+      return res.json({
+        payment,
+        gift_card: {
+          id: row.gift_card_id,
+          amount: parseFloat(row.gift_card_amount),
+          status: row.gift_card_status,
+          recipient_name: row.gift_card_recipient_name,
+          expires_at: row.gift_card_expires_at,
+        },
+      });
+    }
+
+    if (row.package_subscription_id) {
+      return res.json({
+        payment,
+        package_subscription: {
+          id: row.package_subscription_id,
+          status: row.package_subscription_status,
+          expires_at: row.package_subscription_expires_at,
+          package_name: row.package_name,
+          package_name_ar: row.package_name_ar,
+        },
+      });
+    }
+
+    res.json({
+      payment,
+      booking: {
+        id: row.booking_id,
+        customer_name: row.customer_name,
+        visitor_count: row.visitor_count,
+        adult_count: row.adult_count,
+        child_count: row.child_count,
+        total_price: row.total_price,
+        status: row.booking_status,
+        payment_status: row.payment_status,
+        service_id: row.service_id,
+        slot_id: row.slot_id,
+        slot_date: row.slot_date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+      },
+    });
+  } catch (error: any) {
+    const context = logger.extractContext(req);
+    logger.error('Get payment error', error, context, { payment_id: req.params.id });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+export { router as paymentRoutes };
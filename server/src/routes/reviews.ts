@@ -1,6 +1,7 @@
 import express from 'express';
 import jwt from 'jsonwebtoken';
 import { query } from '../db';
+import { enforceTenantStatus } from '../middleware/tenantStatus';
 
 const router = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
@@ -67,7 +68,7 @@ router.get('/service/:serviceId', async (req, res) => {
 });
 
 // Create review (customer only - authenticated users)
-router.post('/', authenticate, async (req, res) => {
+router.post('/', authenticate, enforceTenantStatus, async (req, res) => {
   try {
     const customerId = req.user.id;
     const userRole = req.user.role;
@@ -1,8 +1,32 @@
 import express from 'express';
-import { query } from '../db';
+import { query, pool } from '../db';
 import jwt from 'jsonwebtoken';
 import nodemailer from 'nodemailer';
 import { testWhatsAppConnection } from '../services/whatsappService';
+import { getPaymentProvider } from '../services/paymentService';
+import { getTenantBookingPolicy, normalizeBookingPolicy } from '../services/bookingChangeService';
+import { normalizeReminderSettings } from '../services/reminderService';
+import { recordAudit } from '../services/auditService';
+import {
+  AnalyticsError,
+  Granularity,
+  getAnalyticsOverview,
+  getEmployeePerformance,
+  getRevenueSeries,
+  getTopOffers,
+  getTopServices,
+  resolveAnalyticsRange,
+} from '../services/analyticsService';
+import {
+  ClosureError,
+  createClosure,
+  deleteClosure,
+  findAffectedBookings,
+  getClosureCalendar,
+  listClosures,
+  notifyAffectedBookings,
+  validateClosure,
+} from '../services/closureService';
 
 const router = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
@@ -62,6 +86,24 @@ function authenticateTenantAdmin(req: express.Request, res: express.Response, ne
   }
 }
 
+// Current value of one of the tenant's settings columns, read before it is replaced
+async function getTenantSetting(tenantId: string, column: string) {
+  const result = await query(`SELECT ${column} FROM tenants WHERE id = $1`, [tenantId]);
+  return result.rows[0]?.[column] ?? null;
+}
+
+// Audit log entry for a change to one of the tenant's settings columns (secrets are masked)
+function recordTenantSettingsChange(req: express.Request, tenantId: string, column: string, before: any, after: any) {
+  return recordAudit(req, {
+    action: 'update',
+    resourceType: 'tenants',
+    resourceId: tenantId,
+    tenantId,
+    before: { [column]: before },
+    after: { [column]: after },
+  });
+}
+
 // Get SMTP settings for tenant
 router.get('/smtp-settings', authenticateTenantAdmin, async (req, res) => {
   try {
@@ -134,6 +176,7 @@ router.put('/smtp-settings', authenticateTenantAdmin, async (req, res) => {
     };
 
     try {
+      const previousSettings = await getTenantSetting(tenantId, 'smtp_settings');
       const result = await query(
         `UPDATE tenants 
          SET smtp_settings = $1, updated_at = NOW()
@@ -146,6 +189,8 @@ router.put('/smtp-settings', authenticateTenantAdmin, async (req, res) => {
         return res.status(404).json({ error: 'Tenant not found' });
       }
 
+      await recordTenantSettingsChange(req, tenantId, 'smtp_settings', previousSettings, smtpSettings);
+
       // Mask password in response
       const responseSettings = { ...smtpSettings };
       responseSettings.smtp_password = '***';
@@ -354,6 +399,7 @@ router.put('/whatsapp-settings', authenticateTenantAdmin, async (req, res) => {
     if (from) whatsappSettings.from = from;
 
     try {
+      const previousSettings = await getTenantSetting(tenantId, 'whatsapp_settings');
       const result = await query(
         `UPDATE tenants 
          SET whatsapp_settings = $1, updated_at = NOW()
@@ -366,6 +412,8 @@ router.put('/whatsapp-settings', authenticateTenantAdmin, async (req, res) => {
         return res.status(404).json({ error: 'Tenant not found' });
       }
 
+      await recordTenantSettingsChange(req, tenantId, 'whatsapp_settings', previousSettings, whatsappSettings);
+
       // Mask sensitive info in response
       const responseSettings = { ...whatsappSettings };
       if (responseSettings.access_token) responseSettings.access_token = '***';
@@ -505,6 +553,239 @@ router.post('/whatsapp-settings/test', authenticateTenantAdmin, async (req, res)
   }
 });
 
+// Get customer cancellation / reschedule policy for tenant
+router.get('/booking-policy', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    const bookingPolicy = await getTenantBookingPolicy(tenantId);
+    res.json({ booking_policy: bookingPolicy });
+  } catch (error: any) {
+    console.error('Error fetching booking policy:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Update customer cancellation / reschedule policy for tenant
+router.put('/booking-policy', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    const bookingPolicy = normalizeBookingPolicy(req.body);
+    const previousPolicy = await getTenantSetting(tenantId, 'booking_policy');
+
+    const result = await query(
+      `UPDATE tenants
+       SET booking_policy = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING id`,
+      [JSON.stringify(bookingPolicy), tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+
+    await recordTenantSettingsChange(req, tenantId, 'booking_policy', previousPolicy, bookingPolicy);
+
+    res.json({
+      success: true,
+      message: 'Booking policy updated successfully',
+      booking_policy: bookingPolicy
+    });
+  } catch (error: any) {
+    console.error('Error updating booking policy:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Get booking reminder settings for tenant
+router.get('/reminder-settings', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    const result = await query(
+      'SELECT reminder_settings FROM tenants WHERE id = $1',
+      [tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+
+    res.json({ reminder_settings: normalizeReminderSettings(result.rows[0].reminder_settings) });
+  } catch (error: any) {
+    console.error('Error fetching reminder settings:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Update booking reminder settings for tenant
+router.put('/reminder-settings', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    if (req.body.offsets_hours !== undefined && !Array.isArray(req.body.offsets_hours)) {
+      return res.status(400).json({ error: 'offsets_hours must be an array of hours' });
+    }
+
+    const reminderSettings = normalizeReminderSettings(req.body);
+    const previousSettings = await getTenantSetting(tenantId, 'reminder_settings');
+
+    const result = await query(
+      `UPDATE tenants
+       SET reminder_settings = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING id`,
+      [JSON.stringify(reminderSettings), tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+
+    await recordTenantSettingsChange(req, tenantId, 'reminder_settings', previousSettings, reminderSettings);
+
+    res.json({
+      success: true,
+      message: 'Reminder settings updated successfully',
+      reminder_settings: reminderSettings
+    });
+  } catch (error: any) {
+    console.error('Error updating reminder settings:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Get online payment settings for tenant
+router.get('/payment-settings', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    const result = await query(
+      'SELECT payment_settings FROM tenants WHERE id = $1',
+      [tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+
+    const paymentSettings = result.rows[0].payment_settings || null;
+
+    // Mask sensitive information
+    if (paymentSettings) {
+      if (paymentSettings.api_key) paymentSettings.api_key = '***';
+      if (paymentSettings.secret_key) paymentSettings.secret_key = '***';
+      if (paymentSettings.webhook_secret) paymentSettings.webhook_secret = '***';
+    }
+
+    res.json({ payment_settings: paymentSettings });
+  } catch (error: any) {
+    console.error('Error fetching payment settings:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Update online payment settings for tenant
+router.put('/payment-settings', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+    const { enabled, provider, currency, api_key, secret_key, webhook_secret } = req.body;
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+
+    if (!provider) {
+      return res.status(400).json({ error: 'Provider is required' });
+    }
+
+    if (!getPaymentProvider(provider)) {
+      return res.status(400).json({ error: `Unsupported payment provider: ${provider}` });
+    }
+
+    // Keep stored secrets when the masked placeholder is sent back unchanged
+    const existingResult = await query('SELECT payment_settings FROM tenants WHERE id = $1', [tenantId]);
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+    const existing = existingResult.rows[0].payment_settings || {};
+
+    const paymentSettings: any = {
+      enabled: enabled === true,
+      provider,
+      currency: currency || 'SAR',
+    };
+    const keepSecret = (value: any, key: string) => (value && value !== '***' ? value : existing[key]);
+    if (keepSecret(api_key, 'api_key')) paymentSettings.api_key = keepSecret(api_key, 'api_key');
+    if (keepSecret(secret_key, 'secret_key')) paymentSettings.secret_key = keepSecret(secret_key, 'secret_key');
+    if (keepSecret(webhook_secret, 'webhook_secret')) paymentSettings.webhook_secret = keepSecret(webhook_secret, 'webhook_secret');
+
+    await query(
+      `UPDATE tenants
+       SET payment_settings = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [JSON.stringify(paymentSettings), tenantId]
+    );
+
+    await recordTenantSettingsChange(req, tenantId, 'payment_settings', existingResult.rows[0].payment_settings, paymentSettings);
+
+    // Mask sensitive info in response
+    const responseSettings = { ...paymentSettings };
+    if (responseSettings.api_key) responseSettings.api_key = '***';
+    if (responseSettings.secret_key) responseSettings.secret_key = '***';
+    if (responseSettings.webhook_secret) responseSettings.webhook_secret = '***';
+
+    res.json({
+      success: true,
+      message: 'Payment settings updated successfully',
+      payment_settings: responseSettings
+    });
+  } catch (error: any) {
+    console.error('Error updating payment settings:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
 // Get Zoho configuration for tenant
 router.get('/zoho-config', authenticateTenantAdmin, async (req, res) => {
   try {
@@ -587,7 +868,7 @@ router.put('/zoho-config', authenticateTenantAdmin, async (req, res) => {
     try {
       // Check if config exists
       const existingResult = await query(
-        'SELECT id FROM tenant_zoho_configs WHERE tenant_id = $1',
+        'SELECT id, client_id, client_secret, redirect_uri, scopes, region, is_active FROM tenant_zoho_configs WHERE tenant_id = $1',
         [tenantId]
       );
 
@@ -624,6 +905,23 @@ router.put('/zoho-config', authenticateTenantAdmin, async (req, res) => {
 
       const config = result.rows[0];
 
+      await recordAudit(req, {
+        action: existingResult.rows.length > 0 ? 'update' : 'create',
+        resourceType: 'tenant_zoho_configs',
+        resourceId: config.id,
+        tenantId,
+        before: existingResult.rows[0] || null,
+        after: {
+          id: config.id,
+          client_id: config.client_id,
+          client_secret,
+          redirect_uri: config.redirect_uri,
+          scopes: config.scopes,
+          region: config.region,
+          is_active: config.is_active,
+        },
+      });
+
       // Clear credential cache to ensure fresh data is loaded
       const { zohoCredentials } = await import('../config/zohoCredentials');
       zohoCredentials.clearTenantCache(tenantId);
@@ -786,5 +1084,227 @@ router.post('/zoho-config/test', authenticateTenantAdmin, async (req, res) => {
   }
 });
 
+// ============================================================================
+// Analytics (tenant admins): aggregated in SQL for ?start=&end= (YYYY-MM-DD, tenant time zone,
+// default the last 30 days), each with the previous period of the same length
+// ============================================================================
+const ANALYTICS_GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+function requireAnalyticsAccess(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.user!.role !== 'tenant_admin' || !req.user!.tenant_id) {
+    return res.status(403).json({ error: 'Only tenant admins can view analytics' });
+  }
+  next();
+}
+
+function analyticsLimit(value: unknown, fallback: number) {
+  const limit = parseInt(String(value ?? ''), 10);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, 50) : fallback;
+}
+
+function handleAnalyticsError(error: any, res: express.Response, message: string) {
+  if (error instanceof AnalyticsError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(message, error);
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+// Totals, bookings by status, cancellation / no-show rates and slot utilization
+router.get('/analytics', authenticateTenantAdmin, requireAnalyticsAccess, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id!;
+    const range = await resolveAnalyticsRange(tenantId, req.query.start, req.query.end);
+    res.json(await getAnalyticsOverview(tenantId, range));
+  } catch (error: any) {
+    handleAnalyticsError(error, res, 'Error fetching analytics overview:');
+  }
+});
+
+// Revenue and bookings by ?granularity=day|week|month
+router.get('/analytics/revenue', authenticateTenantAdmin, requireAnalyticsAccess, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id!;
+    const granularity = (req.query.granularity || 'day') as Granularity;
+    if (!ANALYTICS_GRANULARITIES.includes(granularity)) {
+      return res.status(400).json({ error: 'granularity must be day, week or month' });
+    }
+    const range = await resolveAnalyticsRange(tenantId, req.query.start, req.query.end);
+    res.json(await getRevenueSeries(tenantId, range, granularity));
+  } catch (error: any) {
+    handleAnalyticsError(error, res, 'Error fetching revenue analytics:');
+  }
+});
+
+// Top services by revenue, each with a daily series
+router.get('/analytics/services', authenticateTenantAdmin, requireAnalyticsAccess, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id!;
+    const range = await resolveAnalyticsRange(tenantId, req.query.start, req.query.end);
+    res.json(await getTopServices(tenantId, range, analyticsLimit(req.query.limit, 10)));
+  } catch (error: any) {
+    handleAnalyticsError(error, res, 'Error fetching service analytics:');
+  }
+});
+
+// Top offers by revenue
+router.get('/analytics/offers', authenticateTenantAdmin, requireAnalyticsAccess, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id!;
+    const range = await resolveAnalyticsRange(tenantId, req.query.start, req.query.end);
+    res.json(await getTopOffers(tenantId, range, analyticsLimit(req.query.limit, 10)));
+  } catch (error: any) {
+    handleAnalyticsError(error, res, 'Error fetching offer analytics:');
+  }
+});
+
+// Bookings, completion and no-shows per assigned employee
+router.get('/analytics/employees', authenticateTenantAdmin, requireAnalyticsAccess, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id!;
+    const range = await resolveAnalyticsRange(tenantId, req.query.start, req.query.end);
+    res.json(await getEmployeePerformance(tenantId, range));
+  } catch (error: any) {
+    handleAnalyticsError(error, res, 'Error fetching employee analytics:');
+  }
+});
+
+// ============================================================================
+// Closures: public holidays and other dates the tenant is closed. Staff can view them;
+// tenant admins add and remove them and notify the customers of affected bookings.
+// ============================================================================
+function requireClosureManagement(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.user!.role !== 'tenant_admin' || !req.user!.tenant_id) {
+    return res.status(403).json({ error: 'Only tenant admins can manage closures' });
+  }
+  next();
+}
+
+function handleClosureError(error: any, res: express.Response, message: string) {
+  if (error instanceof ClosureError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(message, error);
+  res.status(500).json({ error: error.message || 'Internal server error' });
+}
+
+router.get('/closures', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+    res.json({ closures: await listClosures(tenantId) });
+  } catch (error: any) {
+    handleClosureError(error, res, 'Error fetching closures:');
+  }
+});
+
+// Add a closure. Body: { name, name_ar?, start_date, end_date?, start_time?, end_time?, recurs_yearly? }
+// Responds with the upcoming bookings that fall in it.
+router.post('/closures', authenticateTenantAdmin, requireClosureManagement, async (req, res) => {
+  let input;
+  try {
+    input = validateClosure(req.body);
+  } catch (error: any) {
+    return handleClosureError(error, res, 'Error creating closure:');
+  }
+
+  const tenantId = req.user!.tenant_id!;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { closure, slotsClosed } = await createClosure(client, { tenantId, createdBy: req.user!.id, input });
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'create',
+      resourceType: 'tenant_closures',
+      resourceId: closure.id,
+      tenantId,
+      after: closure,
+    });
+
+    const affectedBookings = await findAffectedBookings(closure.id, tenantId);
+    res.status(201).json({ closure, slots_closed: slotsClosed, affected_bookings: affectedBookings });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleClosureError(error, res, 'Error creating closure:');
+  } finally {
+    client.release();
+  }
+});
+
+// Remove a closure and reopen the slots it closed
+router.delete('/closures/:id', authenticateTenantAdmin, requireClosureManagement, async (req, res) => {
+  const tenantId = req.user!.tenant_id!;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { closure, slotsReopened } = await deleteClosure(client, req.params.id, tenantId);
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'delete',
+      resourceType: 'tenant_closures',
+      resourceId: closure.id,
+      tenantId,
+      before: closure,
+    });
+
+    res.json({ success: true, slots_reopened: slotsReopened });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    handleClosureError(error, res, 'Error deleting closure:');
+  } finally {
+    client.release();
+  }
+});
+
+// Upcoming bookings that fall in a closure
+router.get('/closures/:id/bookings', authenticateTenantAdmin, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id;
+    if (!tenantId) {
+      return res.status(400).json({ error: 'Tenant ID not found' });
+    }
+    res.json({ bookings: await findAffectedBookings(req.params.id, tenantId) });
+  } catch (error: any) {
+    handleClosureError(error, res, 'Error fetching closure bookings:');
+  }
+});
+
+// Ask the customers of a closure's affected bookings to reschedule (each customer is notified once)
+router.post('/closures/:id/notify', authenticateTenantAdmin, requireClosureManagement, async (req, res) => {
+  try {
+    const tenantId = req.user!.tenant_id!;
+    const result = await notifyAffectedBookings(req.params.id, tenantId);
+
+    await recordAudit(req, {
+      action: 'notify',
+      resourceType: 'tenant_closures',
+      resourceId: req.params.id,
+      tenantId,
+      after: result,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    handleClosureError(error, res, 'Error notifying closure bookings:');
+  }
+});
+
+// Public: closed dates for the booking page. Query: start, end (YYYY-MM-DD, at most 120 days)
+router.get('/:tenantId/closures', async (req, res) => {
+  try {
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(req.params.tenantId)) {
+      return res.status(404).json({ error: 'Tenant not found' });
+    }
+    res.json({ closures: await getClosureCalendar(req.params.tenantId, req.query.start, req.query.end) });
+  } catch (error: any) {
+    handleClosureError(error, res, 'Error fetching closure calendar:');
+  }
+});
+
 export { router as tenantRoutes };
 
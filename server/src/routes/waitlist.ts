@@ -0,0 +1,116 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { enforceTenantStatus } from '../middleware/tenantStatus';
+import {
+  WaitlistError,
+  getWaitlistEntryByToken,
+  joinWaitlist,
+  leaveWaitlist,
+} from '../services/waitlistService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Middleware to authenticate (optional - links the entry to a logged-in customer)
+function authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (authHeader) {
+      const token = authHeader.replace('Bearer ', '');
+      const decoded = jwt.verify(token, JWT_SECRET) as any;
+      req.user = {
+        id: decoded.id,
+        email: decoded.email,
+        role: decoded.role,
+        tenant_id: decoded.tenant_id,
+      };
+    }
+    next();
+  } catch {
+    // Continue without auth for guests
+    next();
+  }
+}
+
+// ============================================================================
+// Join the waitlist for a fully booked slot (or any slot of a service on a date)
+// ============================================================================
+router.post('/', authenticate, enforceTenantStatus, async (req, res) => {
+  try {
+    const {
+      tenant_id,
+      service_id,
+      slot_id,
+      slot_date,
+      customer_name,
+      customer_phone,
+      customer_email,
+      language,
+      visitor_count,
+    } = req.body;
+
+    const entry = await joinWaitlist({
+      tenant_id,
+      service_id,
+      slot_id,
+      slot_date,
+      customer_id: req.user?.role === 'customer' ? req.user.id : null,
+      customer_name,
+      customer_phone,
+      customer_email,
+      language,
+      visitor_count,
+    });
+
+    const details = await getWaitlistEntryByToken(entry.token);
+
+    // The token is only returned here; it is the customer's key to the entry
+    res.status(201).json({ ...details, token: entry.token });
+  } catch (error: any) {
+    if (error instanceof WaitlistError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Join waitlist error', error, context, {
+      service_id: req.body.service_id,
+      slot_id: req.body.slot_id,
+    });
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Waitlist entry status and open offer (customer's waitlist link)
+// ============================================================================
+router.get('/:token', async (req, res) => {
+  try {
+    res.json(await getWaitlistEntryByToken(req.params.token));
+  } catch (error: any) {
+    if (error instanceof WaitlistError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Get waitlist entry error', error, context);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Leave the waitlist (releases an open offer)
+// ============================================================================
+router.post('/:token/leave', async (req, res) => {
+  try {
+    await leaveWaitlist(req.params.token);
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof WaitlistError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    const context = logger.extractContext(req);
+    logger.error('Leave waitlist error', error, context);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+export { router as waitlistRoutes };
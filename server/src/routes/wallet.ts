@@ -0,0 +1,148 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { query, pool } from '../db';
+import { logger } from '../utils/logger';
+import { normalizePhoneNumber } from '../utils/phone';
+import { recordAudit } from '../services/auditService';
+import {
+  WalletError,
+  creditWallet,
+  debitWallet,
+  findCustomerByPhone,
+  findOrCreateCustomer,
+  getWallet,
+} from '../services/walletService';
+
+const router = express.Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+const FRONT_DESK_ROLES = ['tenant_admin', 'receptionist', 'cashier'];
+
+// Middleware to authenticate (wallets are never shown to guests)
+function authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+      return res.status(401).json({ error: 'Authorization header required' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      tenant_id: decoded.tenant_id,
+    };
+    next();
+  } catch {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+// ============================================================================
+// Wallet balance and ledger.
+// Front desk staff look up any customer of their tenant by ?phone=; customers get their own
+// wallet at ?tenant_id=.
+// ============================================================================
+router.get('/', authenticate, async (req, res) => {
+  try {
+    let tenantId: string | undefined;
+    let phone: string | null = null;
+
+    if (FRONT_DESK_ROLES.includes(req.user!.role || '')) {
+      tenantId = req.user!.tenant_id;
+      phone = typeof req.query.phone === 'string' ? normalizePhoneNumber(req.query.phone) : null;
+    } else if (req.user!.role === 'customer') {
+      tenantId = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : undefined;
+      const userResult = await query('SELECT phone FROM users WHERE id = $1', [req.user!.id]);
+      phone = userResult.rows[0]?.phone ? normalizePhoneNumber(userResult.rows[0].phone) : null;
+    } else {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!tenantId) {
+      return res.status(400).json({ error: 'tenant_id is required' });
+    }
+    if (!phone) {
+      return res.status(400).json({ error: 'A valid phone number is required' });
+    }
+
+    const customer = await findCustomerByPhone({ query }, tenantId, phone);
+    if (!customer) {
+      // No customer record yet: an empty wallet
+      return res.json({ customer: null, balance: 0, transactions: [] });
+    }
+
+    res.json(await getWallet({ query }, tenantId, customer.id));
+  } catch (error: any) {
+    if (error instanceof WalletError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Get wallet error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// Manual wallet adjustment (tenant admins): a positive amount credits, a negative one debits
+// ============================================================================
+router.post('/adjust', authenticate, async (req, res) => {
+  const tenantId = req.user!.tenant_id;
+  if (req.user!.role !== 'tenant_admin' || !tenantId) {
+    return res.status(403).json({ error: 'Only tenant admins can adjust wallet balances' });
+  }
+
+  const { customer_phone, customer_name, amount, note } = req.body;
+  const value = Math.round(parseFloat(amount) * 100) / 100;
+  const phone = customer_phone ? normalizePhoneNumber(String(customer_phone)) : null;
+
+  if (!phone) {
+    return res.status(400).json({ error: 'A valid customer phone number is required' });
+  }
+  if (!Number.isFinite(value) || value === 0) {
+    return res.status(400).json({ error: 'amount must be a non-zero number' });
+  }
+  if (!note || typeof note !== 'string' || !note.trim()) {
+    return res.status(400).json({ error: 'A note explaining the adjustment is required' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const customer = await findOrCreateCustomer(client, tenantId, phone, { name: customer_name });
+    const transactionRequest = {
+      tenantId,
+      customerId: customer.id,
+      amount: Math.abs(value),
+      source: 'adjustment' as const,
+      note: note.trim(),
+      createdByUserId: req.user!.id,
+    };
+    const transaction = value > 0
+      ? await creditWallet(client, transactionRequest)
+      : await debitWallet(client, transactionRequest);
+    await client.query('COMMIT');
+
+    await recordAudit(req, {
+      action: 'update',
+      resourceType: 'wallet_transactions',
+      resourceId: transaction.id,
+      tenantId,
+      after: transaction,
+    });
+
+    res.status(201).json(transaction);
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
+    if (error instanceof WalletError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Adjust wallet error', error, logger.extractContext(req));
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export { router as walletRoutes };
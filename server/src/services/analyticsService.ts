@@ -0,0 +1,391 @@
+import { query } from '../db';
+
+// Tenant analytics, aggregated in SQL.
+// A period is a range of calendar days (inclusive) in the tenant's time zone (tenant_time_zone);
+// bookings fall in the period they were made in (created_at), as on the dashboard, while
+// utilization and no-shows look at the slots taking place in it. Every report comes with the
+// same figures for the previous period of equal length, for period-over-period comparison.
+// Revenue is the total price of bookings that were not cancelled.
+
+export class AnalyticsError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'AnalyticsError';
+    this.status = status;
+  }
+}
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsPeriod {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AnalyticsRange {
+  timeZone: string;
+  current: AnalyticsPeriod;
+  previous: AnalyticsPeriod;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PERIOD_DAYS = 366 * 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bookings made in the period: $2 and $3 are the first and last day, $4 the time zone
+const BOOKING_IN_PERIOD_SQL = `
+  b.created_at >= ($2::date)::timestamp AT TIME ZONE $4
+  AND b.created_at < ($3::date + 1)::timestamp AT TIME ZONE $4`;
+
+// A booking staff marked as a no-show, or whose slot is over but was never checked in or completed
+const NO_SHOW_SQL = `b.status IN ('pending', 'confirmed')
+  AND (b.no_show_at IS NOT NULL OR ((sl.slot_date + sl.end_time) AT TIME ZONE $4) < now())`;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function rate(part: number, whole: number): number {
+  return whole > 0 ? round(part / whole, 4) : 0;
+}
+
+/**
+ * Resolve ?start=&end= (YYYY-MM-DD, defaults to the last 30 days) and the previous period
+ * of the same length, in the tenant's time zone
+ */
+export async function resolveAnalyticsRange(tenantId: string, start?: unknown, end?: unknown): Promise<AnalyticsRange> {
+  const tenantResult = await query('SELECT tenant_time_zone FROM tenants WHERE id = $1', [tenantId]);
+  if (tenantResult.rows.length === 0) {
+    throw new AnalyticsError('Tenant not found', 404);
+  }
+  const timeZone = tenantResult.rows[0].tenant_time_zone || 'Asia/Riyadh';
+
+  let endDate = typeof end === 'string' && end ? end : null;
+  let startDate = typeof start === 'string' && start ? start : null;
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    throw new AnalyticsError('start and end must be dates (YYYY-MM-DD)');
+  }
+
+  if (!endDate) {
+    const todayResult = await query(`SELECT to_char(now() AT TIME ZONE $1, 'YYYY-MM-DD') as today`, [timeZone]);
+    endDate = todayResult.rows[0].today as string;
+  }
+  if (!startDate) {
+    startDate = toDateString(new Date(new Date(`${endDate}T00:00:00Z`).getTime() - 29 * DAY_MS));
+  }
+
+  const startMs = new Date(`${startDate}T00:00:00Z`).getTime();
+  const endMs = new Date(`${endDate}T00:00:00Z`).getTime();
+  if (isNaN(startMs) || isNaN(endMs) || endMs < startMs) {
+    throw new AnalyticsError('end must be on or after start');
+  }
+  const days = Math.round((endMs - startMs) / DAY_MS) + 1;
+  if (days > MAX_PERIOD_DAYS) {
+    throw new AnalyticsError(`The period cannot be longer than ${MAX_PERIOD_DAYS} days`);
+  }
+
+  return {
+    timeZone,
+    current: { start: startDate, end: endDate },
+    previous: {
+      start: toDateString(new Date(startMs - days * DAY_MS)),
+      end: toDateString(new Date(startMs - DAY_MS)),
+    },
+  };
+}
+
+function periodParams(tenantId: string, period: AnalyticsPeriod, timeZone: string) {
+  return [tenantId, period.start, period.end, timeZone];
+}
+
+// ============================================================================
+// Overview: totals, bookings by status, rates and utilization
+// ============================================================================
+
+async function getPeriodSummary(tenantId: string, period: AnalyticsPeriod, timeZone: string) {
+  const params = periodParams(tenantId, period, timeZone);
+
+  const bookingsResult = await query(
+    `SELECT
+       COUNT(*)::int as total_bookings,
+       COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled'), 0) as revenue,
+       COUNT(*) FILTER (WHERE b.status = 'completed')::int as completed_bookings,
+       COUNT(*) FILTER (WHERE b.status = 'cancelled')::int as cancelled_bookings
+     FROM bookings b
+     WHERE b.tenant_id = $1 AND ${BOOKING_IN_PERIOD_SQL}`,
+    params
+  );
+  const statusResult = await query(
+    `SELECT b.status, COUNT(*)::int as count
+     FROM bookings b
+     WHERE b.tenant_id = $1 AND ${BOOKING_IN_PERIOD_SQL}
+     GROUP BY b.status`,
+    params
+  );
+
+  // Attendance and capacity of the slots taking place in the period
+  const slotsResult = await query(
+    `SELECT
+       COALESCE(SUM(sl.booked_count), 0)::int as booked,
+       COALESCE(SUM(sl.original_capacity), 0)::int as capacity
+     FROM slots sl
+     WHERE sl.tenant_id = $1 AND sl.slot_date BETWEEN $2::date AND $3::date`,
+    [tenantId, period.start, period.end]
+  );
+  const attendanceResult = await query(
+    `SELECT
+       COUNT(*) FILTER (WHERE b.status != 'cancelled' AND ((sl.slot_date + sl.end_time) AT TIME ZONE $4) < now())::int as past_bookings,
+       COUNT(*) FILTER (WHERE ${NO_SHOW_SQL})::int as no_show_bookings
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     WHERE b.tenant_id = $1 AND sl.slot_date BETWEEN $2::date AND $3::date`,
+    params
+  );
+
+  const totals = bookingsResult.rows[0];
+  const slots = slotsResult.rows[0];
+  const attendance = attendanceResult.rows[0];
+  const totalBookings = totals.total_bookings;
+  const revenue = round(parseFloat(totals.revenue));
+  const paidBookings = totalBookings - totals.cancelled_bookings;
+
+  return {
+    ...period,
+    total_bookings: totalBookings,
+    revenue,
+    completed_bookings: totals.completed_bookings,
+    cancelled_bookings: totals.cancelled_bookings,
+    average_booking_value: paidBookings > 0 ? round(revenue / paidBookings) : 0,
+    bookings_by_status: Object.fromEntries(statusResult.rows.map((row: any) => [row.status, row.count])),
+    cancellation_rate: rate(totals.cancelled_bookings, totalBookings),
+    no_show_bookings: attendance.no_show_bookings,
+    no_show_rate: rate(attendance.no_show_bookings, attendance.past_bookings),
+    utilization: {
+      booked: slots.booked,
+      capacity: slots.capacity,
+      rate: rate(slots.booked, slots.capacity),
+    },
+  };
+}
+
+/**
+ * Relative change between two values (0.25 = +25%); null when there is nothing to compare with
+ */
+function change(current: number, previous: number): number | null {
+  return previous > 0 ? round((current - previous) / previous, 4) : null;
+}
+
+export async function getAnalyticsOverview(tenantId: string, range: AnalyticsRange) {
+  const [current, previous] = await Promise.all([
+    getPeriodSummary(tenantId, range.current, range.timeZone),
+    getPeriodSummary(tenantId, range.previous, range.timeZone),
+  ]);
+
+  return {
+    time_zone: range.timeZone,
+    current,
+    previous,
+    change: {
+      total_bookings: change(current.total_bookings, previous.total_bookings),
+      revenue: change(current.revenue, previous.revenue),
+      completed_bookings: change(current.completed_bookings, previous.completed_bookings),
+      average_booking_value: change(current.average_booking_value, previous.average_booking_value),
+    },
+  };
+}
+
+// ============================================================================
+// Revenue and bookings over time
+// ============================================================================
+
+async function getPeriodSeries(tenantId: string, period: AnalyticsPeriod, timeZone: string, granularity: Granularity) {
+  const result = await query(
+    `WITH buckets AS (
+       SELECT generate_series(
+         date_trunc($5, $2::date::timestamp),
+         date_trunc($5, $3::date::timestamp),
+         ('1 ' || $5)::interval
+       ) as bucket
+     ),
+     totals AS (
+       SELECT date_trunc($5, b.created_at AT TIME ZONE $4) as bucket,
+              COUNT(*)::int as bookings,
+              COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled'), 0) as revenue
+       FROM bookings b
+       WHERE b.tenant_id = $1 AND ${BOOKING_IN_PERIOD_SQL}
+       GROUP BY 1
+     )
+     SELECT to_char(buckets.bucket, 'YYYY-MM-DD') as period,
+            COALESCE(totals.bookings, 0) as bookings,
+            COALESCE(totals.revenue, 0) as revenue
+     FROM buckets
+     LEFT JOIN totals ON totals.bucket = buckets.bucket
+     ORDER BY buckets.bucket`,
+    [...periodParams(tenantId, period, timeZone), granularity]
+  );
+
+  return result.rows.map((row: any) => ({
+    period: row.period,
+    bookings: row.bookings,
+    revenue: round(parseFloat(row.revenue)),
+  }));
+}
+
+export async function getRevenueSeries(tenantId: string, range: AnalyticsRange, granularity: Granularity) {
+  const [current, previous] = await Promise.all([
+    getPeriodSeries(tenantId, range.current, range.timeZone, granularity),
+    getPeriodSeries(tenantId, range.previous, range.timeZone, granularity),
+  ]);
+  return { time_zone: range.timeZone, granularity, current, previous };
+}
+
+// ============================================================================
+// Top services (with a daily series each) and offers
+// ============================================================================
+
+export async function getTopServices(tenantId: string, range: AnalyticsRange, limit: number) {
+  const params = [...periodParams(tenantId, range.current, range.timeZone), limit, range.previous.start, range.previous.end];
+
+  const servicesResult = await query(
+    `WITH current_totals AS (
+       SELECT b.service_id,
+              COUNT(*)::int as bookings,
+              COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled'), 0) as revenue
+       FROM bookings b
+       WHERE b.tenant_id = $1 AND ${BOOKING_IN_PERIOD_SQL}
+       GROUP BY b.service_id
+     ),
+     previous_totals AS (
+       SELECT b.service_id,
+              COUNT(*)::int as bookings,
+              COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled'), 0) as revenue
+       FROM bookings b
+       WHERE b.tenant_id = $1
+         AND b.created_at >= ($6::date)::timestamp AT TIME ZONE $4
+         AND b.created_at < ($7::date + 1)::timestamp AT TIME ZONE $4
+       GROUP BY b.service_id
+     )
+     SELECT s.id, s.name, s.name_ar,
+            ct.bookings, ct.revenue,
+            COALESCE(pt.bookings, 0) as previous_bookings,
+            COALESCE(pt.revenue, 0) as previous_revenue
+     FROM current_totals ct
+     JOIN services s ON s.id = ct.service_id
+     LEFT JOIN previous_totals pt ON pt.service_id = ct.service_id
+     ORDER BY ct.revenue DESC, ct.bookings DESC
+     LIMIT $5`,
+    params
+  );
+
+  const serviceIds = servicesResult.rows.map((row: any) => row.id);
+  const dailyResult = serviceIds.length === 0 ? { rows: [] } : await query(
+    `WITH days AS (
+       SELECT generate_series($2::date, $3::date, interval '1 day')::date as day
+     ),
+     totals AS (
+       SELECT b.service_id, (b.created_at AT TIME ZONE $4)::date as day,
+              COUNT(*)::int as bookings,
+              COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled'), 0) as revenue
+       FROM bookings b
+       WHERE b.tenant_id = $1 AND b.service_id = ANY($5::uuid[]) AND ${BOOKING_IN_PERIOD_SQL}
+       GROUP BY 1, 2
+     )
+     SELECT service_ids.service_id, to_char(days.day, 'YYYY-MM-DD') as date,
+            COALESCE(totals.bookings, 0) as bookings,
+            COALESCE(totals.revenue, 0) as revenue
+     FROM days
+     CROSS JOIN unnest($5::uuid[]) as service_ids(service_id)
+     LEFT JOIN totals ON totals.service_id = service_ids.service_id AND totals.day = days.day
+     ORDER BY days.day`,
+    [...periodParams(tenantId, range.current, range.timeZone), serviceIds]
+  );
+
+  return servicesResult.rows.map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    name_ar: row.name_ar,
+    bookings: row.bookings,
+    revenue: round(parseFloat(row.revenue)),
+    previous_bookings: row.previous_bookings,
+    previous_revenue: round(parseFloat(row.previous_revenue)),
+    daily: dailyResult.rows
+      .filter((day: any) => day.service_id === row.id)
+      .map((day: any) => ({ date: day.date, bookings: day.bookings, revenue: round(parseFloat(day.revenue)) })),
+  }));
+}
+
+export async function getTopOffers(tenantId: string, range: AnalyticsRange, limit: number) {
+  const result = await query(
+    `SELECT o.id, o.name, o.name_ar, s.name as service_name, s.name_ar as service_name_ar,
+            COUNT(*) FILTER (WHERE ${BOOKING_IN_PERIOD_SQL})::int as bookings,
+            COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled' AND ${BOOKING_IN_PERIOD_SQL}), 0) as revenue,
+            COUNT(*) FILTER (
+              WHERE b.created_at >= ($6::date)::timestamp AT TIME ZONE $4
+                AND b.created_at < ($7::date + 1)::timestamp AT TIME ZONE $4
+            )::int as previous_bookings
+     FROM bookings b
+     JOIN service_offers o ON b.offer_id = o.id
+     JOIN services s ON o.service_id = s.id
+     WHERE b.tenant_id = $1
+       AND b.created_at >= ($6::date)::timestamp AT TIME ZONE $4
+       AND b.created_at < ($3::date + 1)::timestamp AT TIME ZONE $4
+     GROUP BY o.id, s.id
+     HAVING COUNT(*) FILTER (WHERE ${BOOKING_IN_PERIOD_SQL}) > 0
+     ORDER BY revenue DESC, bookings DESC
+     LIMIT $5`,
+    [...periodParams(tenantId, range.current, range.timeZone), limit, range.previous.start, range.previous.end]
+  );
+
+  return result.rows.map((row: any) => ({
+    ...row,
+    revenue: round(parseFloat(row.revenue)),
+  }));
+}
+
+// ============================================================================
+// Employee performance
+// ============================================================================
+
+export async function getEmployeePerformance(tenantId: string, range: AnalyticsRange) {
+  const result = await query(
+    `SELECT u.id, u.full_name, u.full_name_ar,
+            COUNT(*) FILTER (WHERE ${BOOKING_IN_PERIOD_SQL})::int as bookings,
+            COUNT(*) FILTER (WHERE b.status = 'completed' AND ${BOOKING_IN_PERIOD_SQL})::int as completed_bookings,
+            COUNT(*) FILTER (WHERE b.status = 'cancelled' AND ${BOOKING_IN_PERIOD_SQL})::int as cancelled_bookings,
+            COUNT(*) FILTER (WHERE ${NO_SHOW_SQL} AND ${BOOKING_IN_PERIOD_SQL})::int as no_show_bookings,
+            COALESCE(SUM(b.total_price) FILTER (WHERE b.status != 'cancelled' AND ${BOOKING_IN_PERIOD_SQL}), 0) as revenue,
+            COUNT(*) FILTER (
+              WHERE b.created_at >= ($5::date)::timestamp AT TIME ZONE $4
+                AND b.created_at < ($6::date + 1)::timestamp AT TIME ZONE $4
+            )::int as previous_bookings,
+            COALESCE(SUM(b.total_price) FILTER (
+              WHERE b.status != 'cancelled'
+                AND b.created_at >= ($5::date)::timestamp AT TIME ZONE $4
+                AND b.created_at < ($6::date + 1)::timestamp AT TIME ZONE $4
+            ), 0) as previous_revenue
+     FROM bookings b
+     JOIN users u ON b.employee_id = u.id
+     JOIN slots sl ON b.slot_id = sl.id
+     WHERE b.tenant_id = $1
+       AND b.created_at >= ($5::date)::timestamp AT TIME ZONE $4
+       AND b.created_at < ($3::date + 1)::timestamp AT TIME ZONE $4
+     GROUP BY u.id
+     ORDER BY revenue DESC, bookings DESC`,
+    [...periodParams(tenantId, range.current, range.timeZone), range.previous.start, range.previous.end]
+  );
+
+  return result.rows.map((row: any) => ({
+    ...row,
+    revenue: round(parseFloat(row.revenue)),
+    previous_revenue: round(parseFloat(row.previous_revenue)),
+    completion_rate: rate(row.completed_bookings, row.bookings - row.cancelled_bookings),
+    no_show_rate: rate(row.no_show_bookings, row.bookings - row.cancelled_bookings),
+  }));
+}
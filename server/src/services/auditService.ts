@@ -0,0 +1,199 @@
+import express from 'express';
+import { query } from '../db';
+import { logger } from '../utils/logger';
+
+export interface AuditEntry {
+  /** e.g. 'create', 'update', 'delete', 'check_in' */
+  action: string;
+  /** Table (or settings area) that changed, e.g. 'bookings', 'tenants' */
+  resourceType: string;
+  resourceId?: string | null;
+  /** Defaults to the tenant of the signed-in user */
+  tenantId?: string | null;
+  /** Row before the change; omitted for creates */
+  before?: Record<string, any> | null;
+  /** Row after the change; omitted for deletes */
+  after?: Record<string, any> | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Keys whose values never reach the audit log (passwords, API keys, OAuth tokens, ...)
+const SECRET_KEY_PATTERN = /password|secret|token|api_key|apikey|private_key/i;
+
+// Bookkeeping columns that change on every write and would only add noise to diffs
+const IGNORED_DIFF_KEYS = new Set(['updated_at']);
+
+function redact(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, any> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      result[key] = SECRET_KEY_PATTERN.test(key) && inner != null && inner !== '' ? '***' : redact(inner);
+    }
+    return result;
+  }
+  return value;
+}
+
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Reduce a before/after pair to the keys that actually changed.
+ * Returns null when nothing changed.
+ */
+export function diffValues(
+  before: Record<string, any>,
+  after: Record<string, any>
+): { before: Record<string, any>; after: Record<string, any> } | null {
+  const changedBefore: Record<string, any> = {};
+  const changedAfter: Record<string, any> = {};
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    if (IGNORED_DIFF_KEYS.has(key) || !(key in after)) continue;
+    if (!isSameValue(before[key], after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+/**
+ * Append an entry to audit_logs for a state-changing request.
+ * - Updates store only the changed keys (old and new values); unchanged updates are not logged.
+ * - Secret values are masked before they are written.
+ * - The acting user comes from req.user, IP and user agent from the request.
+ * - Never throws: a failed audit write is logged and the request carries on.
+ */
+export async function recordAudit(req: express.Request, entry: AuditEntry): Promise<void> {
+  try {
+    let oldValues = entry.before ?? null;
+    let newValues = entry.after ?? null;
+
+    if (oldValues && newValues) {
+      const diff = diffValues(oldValues, newValues);
+      if (!diff) return;
+      oldValues = diff.before;
+      newValues = diff.after;
+    }
+
+    const context = logger.extractContext(req);
+    const tenantId = entry.tenantId ?? req.user?.tenant_id ?? null;
+    const resourceId = entry.resourceId && UUID_PATTERN.test(entry.resourceId) ? entry.resourceId : null;
+
+    await query(
+      `INSERT INTO audit_logs (
+        tenant_id, user_id, action_type, resource_type, resource_id,
+        old_values, new_values, ip_address, user_agent
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        tenantId,
+        req.user?.id ?? null,
+        entry.action,
+        entry.resourceType,
+        resourceId,
+        oldValues ? JSON.stringify(redact(oldValues)) : null,
+        newValues ? JSON.stringify(redact(newValues)) : null,
+        context.ip ?? null,
+        context.userAgent ?? null,
+      ]
+    );
+  } catch (error: any) {
+    logger.error('Failed to write audit log', error, logger.extractContext(req), {
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId,
+    });
+  }
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  actionType?: string;
+  /** Inclusive lower bound on created_at (ISO date or timestamp) */
+  from?: string;
+  /** Exclusive upper bound on created_at; a plain date covers that whole day */
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Audit history of a tenant, newest first, with the acting user's name and email.
+ * Returns one page of logs and the total number of matching entries.
+ */
+export async function searchAuditLogs(tenantId: string, filters: AuditLogFilters) {
+  const conditions = ['a.tenant_id = $1'];
+  const params: any[] = [tenantId];
+  const addCondition = (sql: string, value: any) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (filters.userId) addCondition('a.user_id = ?', filters.userId);
+  if (filters.resourceType) addCondition('a.resource_type = ?', filters.resourceType);
+  if (filters.resourceId) addCondition('a.resource_id = ?', filters.resourceId);
+  if (filters.actionType) addCondition('a.action_type = ?', filters.actionType);
+  if (filters.from) addCondition('a.created_at >= ?::timestamptz', filters.from);
+  if (filters.to) {
+    addCondition(
+      /^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? 'a.created_at < (?::date + 1)' : 'a.created_at < ?::timestamptz',
+      filters.to
+    );
+  }
+
+  const where = conditions.join(' AND ');
+  const limit = Math.min(Math.max(filters.limit || 50, 1), MAX_AUDIT_PAGE_SIZE);
+  const offset = Math.max(filters.offset || 0, 0);
+
+  const [logsResult, countResult] = await Promise.all([
+    query(
+      `SELECT a.*, u.full_name AS user_name, u.email AS user_email, u.role AS user_role
+       FROM audit_logs a
+       LEFT JOIN users u ON a.user_id = u.id
+       WHERE ${where}
+       ORDER BY a.created_at DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    ),
+    query(`SELECT COUNT(*)::integer AS total FROM audit_logs a WHERE ${where}`, params),
+  ]);
+
+  return { logs: logsResult.rows, total: countResult.rows[0].total, limit, offset };
+}
+
+/**
+ * Values to filter a tenant's audit history by: users who made changes,
+ * resource types and action types that occur.
+ */
+export async function getAuditLogFilterOptions(tenantId: string) {
+  const [usersResult, resourcesResult, actionsResult] = await Promise.all([
+    query(
+      `SELECT DISTINCT u.id, u.full_name, u.email, u.role
+       FROM audit_logs a
+       JOIN users u ON a.user_id = u.id
+       WHERE a.tenant_id = $1
+       ORDER BY u.full_name`,
+      [tenantId]
+    ),
+    query('SELECT DISTINCT resource_type FROM audit_logs WHERE tenant_id = $1 ORDER BY resource_type', [tenantId]),
+    query('SELECT DISTINCT action_type FROM audit_logs WHERE tenant_id = $1 ORDER BY action_type', [tenantId]),
+  ]);
+
+  return {
+    users: usersResult.rows,
+    resource_types: resourcesResult.rows.map(row => row.resource_type),
+    action_types: actionsResult.rows.map(row => row.action_type),
+  };
+}
@@ -0,0 +1,388 @@
+import { PoolClient } from 'pg';
+import { query, pool } from '../db';
+import { refundBookingWithClient, settleProviderRefunds } from './refundService';
+import { moveConfirmedBookingCapacity } from './slotCapacityService';
+import { sendBookingTicket } from './ticketDeliveryService';
+import { offerReleasedCapacity } from './waitlistService';
+
+// Customer self-service cancellation and rescheduling.
+// Rules come from tenants.booking_policy; missing keys fall back to DEFAULT_BOOKING_POLICY.
+
+export interface BookingPolicy {
+  allow_customer_cancellation: boolean;
+  cancellation_cutoff_hours: number;
+  cancellation_fee_type: 'fixed' | 'percent';
+  cancellation_fee: number;
+  allow_customer_reschedule: boolean;
+  reschedule_cutoff_hours: number;
+  reschedule_fee: number;
+  max_reschedules: number;
+}
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  allow_customer_cancellation: true,
+  cancellation_cutoff_hours: 24,
+  cancellation_fee_type: 'fixed',
+  cancellation_fee: 0,
+  allow_customer_reschedule: true,
+  reschedule_cutoff_hours: 24,
+  reschedule_fee: 0,
+  max_reschedules: 2,
+};
+
+export class BookingChangeError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'BookingChangeError';
+    this.status = status;
+  }
+}
+
+export interface BookingChangeOptions {
+  hours_until_start: number;
+  cancel: { allowed: boolean; reason?: string; fee: number; cutoff_hours: number };
+  reschedule: { allowed: boolean; reason?: string; fee: number; cutoff_hours: number; remaining: number };
+}
+
+const CHANGEABLE_STATUSES = ['pending', 'confirmed'];
+
+function toMoney(value: any): number {
+  return Math.round(parseFloat(value || '0') * 100) / 100;
+}
+
+function nonNegative(value: any, fallback: number): number {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * Merge a stored (or submitted) policy with the defaults, dropping invalid values
+ */
+export function normalizeBookingPolicy(raw: any): BookingPolicy {
+  const policy = raw || {};
+  return {
+    allow_customer_cancellation: typeof policy.allow_customer_cancellation === 'boolean'
+      ? policy.allow_customer_cancellation
+      : DEFAULT_BOOKING_POLICY.allow_customer_cancellation,
+    cancellation_cutoff_hours: nonNegative(policy.cancellation_cutoff_hours, DEFAULT_BOOKING_POLICY.cancellation_cutoff_hours),
+    cancellation_fee_type: policy.cancellation_fee_type === 'percent' ? 'percent' : 'fixed',
+    cancellation_fee: policy.cancellation_fee_type === 'percent'
+      ? Math.min(100, nonNegative(policy.cancellation_fee, 0))
+      : nonNegative(policy.cancellation_fee, DEFAULT_BOOKING_POLICY.cancellation_fee),
+    allow_customer_reschedule: typeof policy.allow_customer_reschedule === 'boolean'
+      ? policy.allow_customer_reschedule
+      : DEFAULT_BOOKING_POLICY.allow_customer_reschedule,
+    reschedule_cutoff_hours: nonNegative(policy.reschedule_cutoff_hours, DEFAULT_BOOKING_POLICY.reschedule_cutoff_hours),
+    reschedule_fee: nonNegative(policy.reschedule_fee, DEFAULT_BOOKING_POLICY.reschedule_fee),
+    max_reschedules: Math.floor(nonNegative(policy.max_reschedules, DEFAULT_BOOKING_POLICY.max_reschedules)),
+  };
+}
+
+export async function getTenantBookingPolicy(tenantId: string): Promise<BookingPolicy> {
+  const result = await query('SELECT booking_policy FROM tenants WHERE id = $1', [tenantId]);
+  return normalizeBookingPolicy(result.rows[0]?.booking_policy);
+}
+
+/**
+ * Load a customer's booking together with its slot time and tenant policy.
+ * Bookings of other customers are reported as not found.
+ */
+async function loadCustomerBooking(
+  executor: PoolClient | { query: (text: string, params?: any[]) => Promise<any> },
+  bookingId: string,
+  customerId: string,
+  forUpdate: boolean
+) {
+  const result = await executor.query(
+    `SELECT b.*, sl.slot_date, sl.start_time, sl.end_time, t.booking_policy,
+            EXTRACT(EPOCH FROM ((sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone - now())) / 3600 AS hours_until_start,
+            tenant_is_closed(b.tenant_id, sl.slot_date, sl.start_time, sl.end_time) AS on_closure
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     JOIN tenants t ON b.tenant_id = t.id
+     WHERE b.id = $1 AND b.customer_id = $2
+     ${forUpdate ? 'FOR UPDATE OF b' : ''}`,
+    [bookingId, customerId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new BookingChangeError('Booking not found', 404);
+  }
+  return result.rows[0];
+}
+
+function calculateCancellationFee(totalPrice: number, policy: BookingPolicy): number {
+  if (policy.cancellation_fee_type === 'percent') {
+    return toMoney((totalPrice * policy.cancellation_fee) / 100);
+  }
+  return toMoney(Math.min(policy.cancellation_fee, totalPrice));
+}
+
+/**
+ * Work out what the customer may do with a booking under the tenant policy.
+ * A booking that falls on a tenant closure can always be rescheduled, free of charge.
+ */
+export function evaluateBookingChanges(booking: any, policy: BookingPolicy): BookingChangeOptions {
+  const hoursUntilStart = parseFloat(booking.hours_until_start);
+  const rescheduleCount = booking.reschedule_count || 0;
+  const onClosure = booking.on_closure === true;
+  const remaining = Math.max(onClosure ? 1 : 0, policy.max_reschedules - rescheduleCount);
+
+  let cancelReason: string | undefined;
+  if (!CHANGEABLE_STATUSES.includes(booking.status)) {
+    cancelReason = `Booking is ${booking.status}`;
+  } else if (!policy.allow_customer_cancellation) {
+    cancelReason = 'Online cancellation is not available. Please contact the service provider.';
+  } else if (hoursUntilStart < policy.cancellation_cutoff_hours) {
+    cancelReason = `Bookings can only be cancelled at least ${policy.cancellation_cutoff_hours} hours before the start time`;
+  }
+
+  let rescheduleReason: string | undefined;
+  if (!CHANGEABLE_STATUSES.includes(booking.status)) {
+    rescheduleReason = `Booking is ${booking.status}`;
+  } else if (onClosure) {
+    // The business is closed at the booking's time, so the customer can always move it
+  } else if (!policy.allow_customer_reschedule) {
+    rescheduleReason = 'Online rescheduling is not available. Please contact the service provider.';
+  } else if (hoursUntilStart < policy.reschedule_cutoff_hours) {
+    rescheduleReason = `Bookings can only be rescheduled at least ${policy.reschedule_cutoff_hours} hours before the start time`;
+  } else if (remaining === 0) {
+    rescheduleReason = `This booking has already been rescheduled the maximum number of times (${policy.max_reschedules})`;
+  }
+
+  return {
+    hours_until_start: Math.round(hoursUntilStart * 10) / 10,
+    cancel: {
+      allowed: !cancelReason,
+      reason: cancelReason,
+      fee: calculateCancellationFee(toMoney(booking.total_price), policy),
+      cutoff_hours: policy.cancellation_cutoff_hours,
+    },
+    reschedule: {
+      allowed: !rescheduleReason,
+      reason: rescheduleReason,
+      fee: onClosure ? 0 : toMoney(policy.reschedule_fee),
+      cutoff_hours: policy.reschedule_cutoff_hours,
+      remaining,
+    },
+  };
+}
+
+export async function getBookingChangeOptions(bookingId: string, customerId: string): Promise<BookingChangeOptions> {
+  const booking = await loadCustomerBooking({ query }, bookingId, customerId, false);
+  return evaluateBookingChanges(booking, normalizeBookingPolicy(booking.booking_policy));
+}
+
+/**
+ * Slots the customer can move a booking to: same service, in the future,
+ * beyond the reschedule cutoff and with enough capacity for the whole booking.
+ */
+export async function getRescheduleSlots(bookingId: string, customerId: string) {
+  const booking = await loadCustomerBooking({ query }, bookingId, customerId, false);
+  const policy = normalizeBookingPolicy(booking.booking_policy);
+
+  const result = await query(
+    `SELECT sl.id, sl.slot_date, sl.start_time, sl.end_time, sl.available_capacity, sl.employee_id
+     FROM slots sl
+     JOIN tenants t ON sl.tenant_id = t.id
+     WHERE sl.tenant_id = $1
+       AND sl.service_id = $2
+       AND sl.id != $3
+       AND sl.is_available = true
+       AND sl.available_capacity >= $4
+       AND (sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone > now() + ($5 || ' hours')::interval
+     ORDER BY sl.slot_date ASC, sl.start_time ASC
+     LIMIT 200`,
+    [booking.tenant_id, booking.service_id, booking.slot_id, booking.visitor_count, policy.reschedule_cutoff_hours]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Cancel a booking on behalf of its customer.
+ * - Slot capacity and package usage are restored by the booking status triggers.
+ * - Paid bookings are refunded through refundService, minus the cancellation fee: the wallet
+ *   part goes back to the wallet and the rest to the payment provider.
+ * - Open payment intents are cancelled so the payment can no longer complete.
+ */
+export async function cancelBookingByCustomer(bookingId: string, customerId: string, reason?: string | null) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const booking = await loadCustomerBooking(client, bookingId, customerId, true);
+    const policy = normalizeBookingPolicy(booking.booking_policy);
+    const options = evaluateBookingChanges(booking, policy);
+
+    if (!options.cancel.allowed) {
+      throw new BookingChangeError(options.cancel.reason || 'Booking cannot be cancelled', 409);
+    }
+
+    const fee = options.cancel.fee;
+    let refund = null;
+
+    if (booking.payment_status === 'paid') {
+      const refundAmount = toMoney(toMoney(booking.total_price) - toMoney(booking.refunded_amount) - fee);
+
+      if (refundAmount > 0) {
+        refund = await refundBookingWithClient(client, {
+          bookingId: booking.id,
+          tenantId: booking.tenant_id,
+          issuedByUserId: customerId,
+          amount: refundAmount,
+          reason: reason || 'Cancelled by customer',
+        });
+      }
+    }
+
+    await client.query(
+      `UPDATE payments SET status = 'cancelled', updated_at = now()
+       WHERE booking_id = $1 AND status = 'pending'`,
+      [booking.id]
+    );
+
+    const updated = await client.query(
+      `UPDATE bookings
+       SET status = 'cancelled',
+           status_changed_at = CASE WHEN status != 'cancelled' THEN now() ELSE status_changed_at END,
+           cancellation_fee = $1,
+           cancelled_by = 'customer',
+           updated_at = now()
+       WHERE id = $2
+       RETURNING *`,
+      [fee, booking.id]
+    );
+
+    await client.query('COMMIT');
+
+    if (refund) {
+      refund = (await settleProviderRefunds([refund]))[0];
+    }
+
+    console.log(`[BookingChange] 🚫 Booking ${booking.id} cancelled by customer ${customerId} (fee: ${fee}${refund ? `, refunded: ${refund.amount}` : ''})`);
+    offerReleasedCapacity();
+    return { booking: updated.rows[0], cancellation_fee: fee, refund };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Move a booking to another slot of the same service.
+ * Both slots are locked FOR UPDATE (in id order to avoid deadlocks) and the booking's
+ * capacity moves with it in the same transaction (moveConfirmedBookingCapacity). The updated
+ * ticket is re-sent once the transaction commits.
+ */
+export async function rescheduleBookingByCustomer(bookingId: string, customerId: string, newSlotId: string) {
+  const client = await pool.connect();
+  let updatedBooking: any;
+
+  try {
+    await client.query('BEGIN');
+
+    const booking = await loadCustomerBooking(client, bookingId, customerId, true);
+    const policy = normalizeBookingPolicy(booking.booking_policy);
+    const options = evaluateBookingChanges(booking, policy);
+
+    if (!options.reschedule.allowed) {
+      throw new BookingChangeError(options.reschedule.reason || 'Booking cannot be rescheduled', 409);
+    }
+
+    if (newSlotId === booking.slot_id) {
+      throw new BookingChangeError('Booking is already in this slot');
+    }
+
+    const slotsResult = await client.query(
+      `SELECT sl.id, sl.tenant_id, sl.service_id, sl.employee_id, sl.is_available, sl.available_capacity,
+              (sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone > now() + ($2 || ' hours')::interval AS beyond_cutoff
+       FROM slots sl
+       JOIN tenants t ON sl.tenant_id = t.id
+       WHERE sl.id = ANY($1::uuid[])
+       ORDER BY sl.id
+       FOR UPDATE OF sl`,
+      [[booking.slot_id, newSlotId], policy.reschedule_cutoff_hours]
+    );
+
+    const newSlot = slotsResult.rows.find((slot: any) => slot.id === newSlotId);
+
+    if (!newSlot || newSlot.tenant_id !== booking.tenant_id) {
+      throw new BookingChangeError('Slot not found', 404);
+    }
+    if (newSlot.service_id !== booking.service_id) {
+      throw new BookingChangeError('Bookings can only be moved to a slot of the same service');
+    }
+    if (!newSlot.is_available) {
+      throw new BookingChangeError('Slot is not available', 409);
+    }
+    if (!newSlot.beyond_cutoff) {
+      throw new BookingChangeError(
+        `The new slot must start at least ${policy.reschedule_cutoff_hours} hours from now`,
+        409
+      );
+    }
+
+    // The employee may be on time off, blocked or on a break (as checked when booking)
+    const employeeId = newSlot.employee_id || booking.employee_id;
+    if (employeeId) {
+      const availability = await client.query(
+        'SELECT employee_is_unavailable($1, slot_date, start_time, end_time) as unavailable FROM slots WHERE id = $2',
+        [employeeId, newSlot.id]
+      );
+      if (availability.rows[0]?.unavailable) {
+        throw new BookingChangeError('The employee is not available at this time', 409);
+      }
+    }
+
+    // Pending bookings do not hold capacity (see restore_slot_capacity_on_booking)
+    if (booking.status === 'confirmed'
+      && !(await moveConfirmedBookingCapacity(client, booking.slot_id, newSlot.id, booking.visitor_count))) {
+      const capacityResult = await client.query('SELECT available_capacity FROM slots WHERE id = $1', [newSlot.id]);
+      throw new BookingChangeError(
+        `Not enough tickets available. Only ${capacityResult.rows[0].available_capacity} available, but ${booking.visitor_count} requested.`,
+        409
+      );
+    }
+
+    const updated = await client.query(
+      `UPDATE bookings
+       SET slot_id = $1,
+           employee_id = COALESCE($2, employee_id),
+           reschedule_count = reschedule_count + 1,
+           reschedule_fee_total = reschedule_fee_total + $3,
+           updated_at = now()
+       WHERE id = $4
+       RETURNING *`,
+      [newSlot.id, newSlot.employee_id, options.reschedule.fee, booking.id]
+    );
+    updatedBooking = updated.rows[0];
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`[BookingChange] 🔁 Booking ${bookingId} rescheduled by customer ${customerId} to slot ${newSlotId}`);
+  offerReleasedCapacity();
+
+  process.nextTick(async () => {
+    try {
+      await sendBookingTicket(bookingId, {
+        captionEn: 'Your booking has been rescheduled. Please find your updated ticket attached.',
+        captionAr: 'تم تغيير موعد حجزك. يرجى الاطلاع على التذكرة المحدثة المرفقة.',
+      });
+    } catch (error: any) {
+      console.error(`[BookingChange] ⚠️ Failed to re-send ticket for rescheduled booking ${bookingId}:`, error.message);
+    }
+  });
+
+  return updatedBooking;
+}
@@ -0,0 +1,234 @@
+export type BookingFieldType = 'text' | 'number' | 'select' | 'checkbox' | 'date' | 'file';
+
+export interface BookingFieldOption {
+  value: string;
+  label: string;
+  label_ar?: string;
+}
+
+/** A question a tenant asks when a service is booked (services.booking_fields) */
+export interface BookingField {
+  id: string;
+  type: BookingFieldType;
+  label: string;
+  label_ar?: string;
+  required: boolean;
+  options?: BookingFieldOption[];
+}
+
+export interface BookingFileValue {
+  filename: string;
+  mime_type: string;
+  size: number;
+  data_url: string;
+}
+
+/** An answer stored with the booking (bookings.custom_fields), with the question as it was asked */
+export interface BookingFieldAnswer {
+  id: string;
+  type: BookingFieldType;
+  label: string;
+  label_ar?: string;
+  value: string | number | boolean | BookingFileValue;
+  /** Label of the chosen option, for select fields */
+  value_label?: string;
+  value_label_ar?: string;
+}
+
+export class BookingFieldError extends Error {
+  status: number;
+  fieldId?: string;
+
+  constructor(message: string, status: number = 400, fieldId?: string) {
+    super(message);
+    this.name = 'BookingFieldError';
+    this.status = status;
+    this.fieldId = fieldId;
+  }
+}
+
+const FIELD_TYPES: BookingFieldType[] = ['text', 'number', 'select', 'checkbox', 'date', 'file'];
+
+const MAX_TEXT_LENGTH = 2000;
+
+// Uploaded files are stored inline with the booking, so keep them small
+export const MAX_BOOKING_FILE_SIZE = 5 * 1024 * 1024;
+export const ALLOWED_BOOKING_FILE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+
+/**
+ * The service's field definitions, dropping anything malformed
+ * (booking_fields is edited through the generic data layer).
+ */
+export function normalizeBookingFields(raw: unknown): BookingField[] {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((field: any) => field && typeof field.id === 'string' && FIELD_TYPES.includes(field.type)
+      && typeof field.label === 'string' && field.label.trim() !== '')
+    .map((field: any) => ({
+      id: field.id,
+      type: field.type,
+      label: field.label.trim(),
+      label_ar: typeof field.label_ar === 'string' && field.label_ar.trim() !== '' ? field.label_ar.trim() : undefined,
+      required: field.required === true,
+      options: field.type === 'select' && Array.isArray(field.options)
+        ? field.options.filter((option: any) => option && typeof option.value === 'string' && option.value !== '')
+        : undefined,
+    }));
+}
+
+function fieldLabel(field: BookingField, language: string): string {
+  return language === 'ar' && field.label_ar ? field.label_ar : field.label;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// Parses a "data:<mime>;base64,<data>" URL and checks its type and decoded size
+function parseFileValue(field: BookingField, value: any, language: string): BookingFileValue {
+  const label = fieldLabel(field, language);
+  const match = typeof value?.data_url === 'string' ? /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)$/.exec(value.data_url) : null;
+  if (!match) {
+    throw new BookingFieldError(
+      language === 'ar' ? `الملف المرفق في "${label}" غير صالح` : `The file for "${label}" is not valid`, 400, field.id
+    );
+  }
+
+  const mimeType = match[1].toLowerCase();
+  if (!ALLOWED_BOOKING_FILE_TYPES.includes(mimeType)) {
+    throw new BookingFieldError(
+      language === 'ar' ? `"${label}" يقبل الصور وملفات PDF فقط` : `"${label}" only accepts images and PDF files`, 400, field.id
+    );
+  }
+
+  const base64 = match[2];
+  const size = Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+  if (size > MAX_BOOKING_FILE_SIZE) {
+    throw new BookingFieldError(
+      language === 'ar' ? `الملف في "${label}" أكبر من 5 ميجابايت` : `The file for "${label}" is larger than 5 MB`, 400, field.id
+    );
+  }
+
+  const filename = typeof value.filename === 'string' && value.filename.trim() !== ''
+    ? value.filename.trim().slice(0, 255)
+    : 'attachment';
+
+  return { filename, mime_type: mimeType, size, data_url: value.data_url };
+}
+
+/**
+ * Check the submitted answers (keyed by field id) against the service's fields and
+ * return what to store with the booking. Unknown keys are ignored; empty optional
+ * fields are left out. Throws BookingFieldError with a message in the booking language.
+ */
+export function validateBookingFieldAnswers(
+  fields: BookingField[],
+  answers: unknown,
+  language: string = 'en'
+): BookingFieldAnswer[] {
+  const submitted: Record<string, any> = answers && typeof answers === 'object' && !Array.isArray(answers)
+    ? answers as Record<string, any>
+    : {};
+  const result: BookingFieldAnswer[] = [];
+
+  for (const field of fields) {
+    const label = fieldLabel(field, language);
+    const raw = submitted[field.id];
+    const missing = field.type === 'checkbox' ? raw !== true : isEmpty(raw);
+
+    if (missing) {
+      if (field.required) {
+        throw new BookingFieldError(
+          field.type === 'checkbox'
+            ? (language === 'ar' ? `يرجى تأكيد "${label}"` : `Please confirm "${label}"`)
+            : (language === 'ar' ? `"${label}" مطلوب` : `"${label}" is required`),
+          400,
+          field.id
+        );
+      }
+      if (field.type !== 'checkbox') continue;
+    }
+
+    let value: BookingFieldAnswer['value'];
+    let selected: BookingFieldOption | undefined;
+    switch (field.type) {
+      case 'text':
+        value = String(raw).trim().slice(0, MAX_TEXT_LENGTH);
+        break;
+      case 'number': {
+        const number = typeof raw === 'number' ? raw : Number(String(raw).trim());
+        if (!Number.isFinite(number)) {
+          throw new BookingFieldError(
+            language === 'ar' ? `"${label}" يجب أن يكون رقمًا` : `"${label}" must be a number`, 400, field.id
+          );
+        }
+        value = number;
+        break;
+      }
+      case 'select': {
+        selected = field.options?.find(o => o.value === String(raw));
+        if (!selected) {
+          throw new BookingFieldError(
+            language === 'ar' ? `يرجى اختيار خيار صالح لـ "${label}"` : `Please choose a valid option for "${label}"`,
+            400,
+            field.id
+          );
+        }
+        value = selected.value;
+        break;
+      }
+      case 'checkbox':
+        value = raw === true;
+        break;
+      case 'date':
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(String(raw)) || isNaN(Date.parse(String(raw)))) {
+          throw new BookingFieldError(
+            language === 'ar' ? `"${label}" يجب أن يكون تاريخًا صالحًا` : `"${label}" must be a valid date`, 400, field.id
+          );
+        }
+        value = String(raw);
+        break;
+      case 'file':
+        value = parseFileValue(field, raw, language);
+        break;
+    }
+
+    result.push({
+      id: field.id,
+      type: field.type,
+      label: field.label,
+      label_ar: field.label_ar,
+      value,
+      ...(selected && { value_label: selected.label, value_label_ar: selected.label_ar }),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Human-readable answer for tickets and notifications: the option label for
+ * dropdowns, Yes/No for checkboxes and the file name for uploads.
+ */
+export function formatBookingFieldValue(answer: BookingFieldAnswer, language: string = 'en'): string {
+  const { value } = answer;
+  switch (answer.type) {
+    case 'checkbox':
+      return value === true ? (language === 'ar' ? 'نعم' : 'Yes') : (language === 'ar' ? 'لا' : 'No');
+    case 'file':
+      return (value as BookingFileValue)?.filename || '';
+    case 'select':
+      return (language === 'ar' && answer.value_label_ar) || answer.value_label || String(value);
+    default:
+      return String(value ?? '');
+  }
+}
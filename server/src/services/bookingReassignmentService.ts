@@ -0,0 +1,277 @@
+import { PoolClient } from 'pg';
+import { pool, query } from '../db';
+import { moveConfirmedBookingCapacity } from './slotCapacityService';
+import { sendBookingTicket } from './ticketDeliveryService';
+import { offerReleasedCapacity } from './waitlistService';
+
+// Moving bookings from one employee to another. A booking always sits on one of its employee's
+// slots, so reassigning moves it to the new employee's slot for the same service at the same time.
+// Candidates must be assigned to the service (employee_services) and free at that time according
+// to check_employee_availability_for_booking, which also covers their time off and breaks.
+
+type Executor = PoolClient | { query: (text: string, params?: any[]) => Promise<any> };
+
+export class ReassignmentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ReassignmentError';
+    this.status = status;
+  }
+}
+
+const REASSIGNABLE_STATUSES = ['pending', 'confirmed'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function loadBooking(executor: Executor, bookingId: string, tenantId: string, forUpdate: boolean) {
+  const result = await executor.query(
+    `SELECT b.id, b.tenant_id, b.service_id, b.slot_id, b.status, b.visitor_count, b.customer_name,
+            COALESCE(b.employee_id, sl.employee_id) as current_employee_id,
+            cu.full_name as current_employee_name, cu.full_name_ar as current_employee_name_ar,
+            to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date,
+            to_char(sl.start_time, 'HH24:MI') as start_time,
+            to_char(sl.end_time, 'HH24:MI') as end_time
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     LEFT JOIN users cu ON cu.id = COALESCE(b.employee_id, sl.employee_id)
+     WHERE b.id = $1 AND b.tenant_id = $2
+     ${forUpdate ? 'FOR UPDATE OF b' : ''}`,
+    [bookingId, tenantId]
+  );
+  if (result.rows.length === 0) {
+    throw new ReassignmentError('Booking not found', 404);
+  }
+  return result.rows[0];
+}
+
+/**
+ * Employees the booking can move to, least busy that day first, each with the slot it would move to
+ */
+async function findCandidates(executor: Executor, booking: any) {
+  const result = await executor.query(
+    `SELECT * FROM (
+       SELECT DISTINCT ON (u.id)
+              u.id as employee_id, u.full_name, u.full_name_ar,
+              tsl.id as slot_id, tsl.available_capacity,
+              (SELECT COUNT(*)::int
+               FROM bookings ob
+               JOIN slots osl ON ob.slot_id = osl.id
+               WHERE ob.tenant_id = $1
+                 AND COALESCE(ob.employee_id, osl.employee_id) = u.id
+                 AND osl.slot_date = $4::date
+                 AND ob.status IN ('pending', 'confirmed', 'checked_in')) as bookings_that_day
+       FROM employee_services es
+       JOIN users u ON es.employee_id = u.id
+       JOIN slots tsl ON tsl.employee_id = u.id
+       JOIN shifts tsh ON tsl.shift_id = tsh.id
+       WHERE es.tenant_id = $1
+         AND es.service_id = $2
+         AND u.is_active = true
+         AND u.role = 'employee'
+         AND u.id IS DISTINCT FROM $3::uuid
+         AND tsl.tenant_id = $1
+         AND tsh.service_id = $2
+         AND tsl.slot_date = $4::date
+         AND tsl.start_time = $5::time
+         AND tsl.is_available = true
+         AND tsl.available_capacity >= $7
+         AND check_employee_availability_for_booking(u.id, $4::date, $5::time, $6::time, $2::uuid)
+       ORDER BY u.id, tsl.available_capacity DESC
+     ) candidates
+     ORDER BY bookings_that_day, full_name`,
+    [
+      booking.tenant_id,
+      booking.service_id,
+      booking.current_employee_id,
+      booking.slot_date,
+      booking.start_time,
+      booking.end_time,
+      booking.visitor_count,
+    ]
+  );
+  return result.rows;
+}
+
+/**
+ * The booking with the employees it can be reassigned to
+ */
+export async function getReassignmentCandidates(bookingId: string, tenantId: string) {
+  const booking = await loadBooking({ query }, bookingId, tenantId, false);
+  const candidates = REASSIGNABLE_STATUSES.includes(booking.status) ? await findCandidates({ query }, booking) : [];
+  return { booking, candidates };
+}
+
+async function moveBooking(client: PoolClient, booking: any, candidate: any) {
+  const target = await client.query(
+    'SELECT id, is_available, available_capacity FROM slots WHERE id = $1 FOR UPDATE',
+    [candidate.slot_id]
+  );
+  // Pending bookings do not hold capacity but still need room when they are confirmed
+  if (!target.rows[0]?.is_available || target.rows[0].available_capacity < booking.visitor_count) {
+    throw new ReassignmentError('The new employee no longer has room at this time', 409);
+  }
+
+  // The capacity of a confirmed booking moves with it (see restore_slot_capacity_on_booking)
+  if (booking.status === 'confirmed'
+    && !(await moveConfirmedBookingCapacity(client, booking.slot_id, candidate.slot_id, booking.visitor_count))) {
+    throw new ReassignmentError('The new employee no longer has room at this time', 409);
+  }
+
+  const updated = await client.query(
+    `UPDATE bookings
+     SET slot_id = $1, employee_id = $2, updated_at = now()
+     WHERE id = $3
+     RETURNING *`,
+    [candidate.slot_id, candidate.employee_id, booking.id]
+  );
+  return updated.rows[0];
+}
+
+/**
+ * Move one booking to another employee and send the customer the updated ticket.
+ * Returns the booking before and after for the audit log.
+ */
+export async function reassignBooking(req: { bookingId: string; tenantId: string; toEmployeeId: string }) {
+  const client = await pool.connect();
+  let result;
+  try {
+    await client.query('BEGIN');
+
+    const booking = await loadBooking(client, req.bookingId, req.tenantId, true);
+    if (!REASSIGNABLE_STATUSES.includes(booking.status)) {
+      throw new ReassignmentError(`A ${booking.status} booking cannot be reassigned`, 409);
+    }
+    if (booking.current_employee_id === req.toEmployeeId) {
+      throw new ReassignmentError('The booking is already assigned to this employee');
+    }
+
+    const candidate = (await findCandidates(client, booking)).find((row: any) => row.employee_id === req.toEmployeeId);
+    if (!candidate) {
+      throw new ReassignmentError('This employee does not offer the service or is not free at this time', 409);
+    }
+
+    const before = (await client.query('SELECT * FROM bookings WHERE id = $1', [booking.id])).rows[0];
+    const after = await moveBooking(client, booking, candidate);
+    result = { before, after, employee: candidate };
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`[Reassignment] 🔀 Booking ${req.bookingId} reassigned to employee ${req.toEmployeeId}`);
+  offerReleasedCapacity();
+  notifyCustomer(req.bookingId, result.employee);
+
+  return result;
+}
+
+/**
+ * Move all of an employee's pending and confirmed bookings on a date (YYYY-MM-DD) to colleagues:
+ * to toEmployeeId when given, otherwise to the least busy free candidate for each booking.
+ * Bookings nobody can take are left in place and reported as unassigned.
+ * `changes` holds each moved booking before and after for the audit log.
+ */
+export async function reassignEmployeeDay(req: {
+  tenantId: string;
+  fromEmployeeId: string;
+  date: unknown;
+  toEmployeeId?: string | null;
+}) {
+  if (typeof req.date !== 'string' || !DATE_PATTERN.test(req.date) || isNaN(Date.parse(req.date))) {
+    throw new ReassignmentError('date must be a date in YYYY-MM-DD format');
+  }
+  if (req.toEmployeeId && req.toEmployeeId === req.fromEmployeeId) {
+    throw new ReassignmentError('Pick a different employee to move the bookings to');
+  }
+
+  const moved: any[] = [];
+  const unassigned: any[] = [];
+  const changes: { before: any; after: any }[] = [];
+  const notifications: { bookingId: string; employee: any }[] = [];
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const bookingsResult = await client.query(
+      `SELECT b.id
+       FROM bookings b
+       JOIN slots sl ON b.slot_id = sl.id
+       WHERE b.tenant_id = $1
+         AND COALESCE(b.employee_id, sl.employee_id) = $2
+         AND sl.slot_date = $3::date
+         AND b.status IN ('pending', 'confirmed')
+       ORDER BY sl.start_time, b.created_at
+       FOR UPDATE OF b`,
+      [req.tenantId, req.fromEmployeeId, req.date]
+    );
+
+    for (const row of bookingsResult.rows) {
+      const booking = await loadBooking(client, row.id, req.tenantId, false);
+      const candidates = await findCandidates(client, booking);
+      const candidate = req.toEmployeeId
+        ? candidates.find((c: any) => c.employee_id === req.toEmployeeId)
+        : candidates[0];
+
+      if (!candidate) {
+        unassigned.push({
+          booking_id: booking.id,
+          customer_name: booking.customer_name,
+          start_time: booking.start_time,
+          reason: req.toEmployeeId
+            ? 'The selected employee is not free at this time'
+            : 'No other employee offering this service is free at this time',
+        });
+        continue;
+      }
+
+      const before = (await client.query('SELECT * FROM bookings WHERE id = $1', [booking.id])).rows[0];
+      const after = await moveBooking(client, booking, candidate);
+      changes.push({ before, after });
+      notifications.push({ bookingId: booking.id, employee: candidate });
+      moved.push({
+        booking_id: booking.id,
+        customer_name: booking.customer_name,
+        start_time: booking.start_time,
+        employee_id: candidate.employee_id,
+        employee_name: candidate.full_name,
+        employee_name_ar: candidate.full_name_ar,
+      });
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (moved.length > 0) {
+    console.log(`[Reassignment] 🔀 ${moved.length} booking(s) of employee ${req.fromEmployeeId} on ${req.date} reassigned`);
+    offerReleasedCapacity();
+  }
+  for (const { bookingId, employee } of notifications) {
+    notifyCustomer(bookingId, employee);
+  }
+
+  return { moved, unassigned, changes };
+}
+
+function notifyCustomer(bookingId: string, employee: { full_name: string; full_name_ar?: string | null }) {
+  process.nextTick(async () => {
+    try {
+      await sendBookingTicket(bookingId, {
+        captionEn: `Your booking is now with ${employee.full_name}. Please find your updated ticket attached.`,
+        captionAr: `تم نقل حجزك إلى ${employee.full_name_ar || employee.full_name}. يرجى الاطلاع على التذكرة المحدثة المرفقة.`,
+      });
+    } catch (error: any) {
+      console.error(`[Reassignment] ⚠️ Failed to send updated ticket for booking ${bookingId}:`, error.message);
+    }
+  });
+}
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { query } from '../db';
+
+// iCalendar (RFC 5545) export of bookings.
+// Slots store the date and time of day in the tenant's local time (tenant_time_zone), so event
+// times are converted to UTC in SQL with AT TIME ZONE, the same conversion as
+// convertTenantTimeToUTC in src/lib/timezone.ts, and written as UTC (...Z) timestamps.
+// Confirmation emails carry a single-event .ics; employees and customers can subscribe to a
+// feed of their bookings through a URL containing their secret calendar_feed_token.
+
+const API_PUBLIC_URL = process.env.API_PUBLIC_URL || 'http://localhost:3001';
+const PRODUCT_ID = '-//Bookati//Bookings//EN';
+
+// Feeds include bookings from this many days back, so recent history stays visible
+const FEED_PAST_DAYS = 30;
+
+export class CalendarError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'CalendarError';
+    this.status = status;
+  }
+}
+
+interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description: string;
+  location?: string | null;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  updatedAt: Date;
+}
+
+// Event times for a booking's slot, converted from tenant local time to UTC.
+// Slots ending at or before their start time run past midnight.
+const EVENT_COLUMNS_SQL = `
+  b.id, b.customer_name, b.customer_phone, b.visitor_count, b.status, b.notes,
+  COALESCE(b.updated_at, b.created_at) AS updated_at,
+  ((sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone) AS starts_at,
+  ((CASE WHEN sl.end_time <= sl.start_time THEN sl.slot_date + 1 ELSE sl.slot_date END + sl.end_time)
+    AT TIME ZONE t.tenant_time_zone) AS ends_at,
+  s.name AS service_name, s.name_ar AS service_name_ar,
+  t.name AS tenant_name, t.name_ar AS tenant_name_ar, t.address AS tenant_address,
+  t.tenant_time_zone,
+  e.full_name AS employee_name`;
+
+const EVENT_JOINS_SQL = `
+  FROM bookings b
+  JOIN slots sl ON b.slot_id = sl.id
+  JOIN services s ON b.service_id = s.id
+  JOIN tenants t ON b.tenant_id = t.id
+  LEFT JOIN users e ON b.employee_id = e.id`;
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Escape a TEXT value (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function mapEventStatus(bookingStatus: string): CalendarEvent['status'] {
+  if (bookingStatus === 'cancelled') return 'CANCELLED';
+  if (bookingStatus === 'pending') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+function toCalendarEvent(row: any, audience: 'customer' | 'employee', language: 'en' | 'ar'): CalendarEvent {
+  const serviceName = language === 'ar' ? row.service_name_ar || row.service_name : row.service_name;
+  const tenantName = language === 'ar' ? row.tenant_name_ar || row.tenant_name : row.tenant_name;
+
+  const description = audience === 'employee'
+    ? [
+        `Customer: ${row.customer_name}`,
+        `Phone: ${row.customer_phone}`,
+        `Visitors: ${row.visitor_count}`,
+        row.notes ? `Notes: ${row.notes}` : null,
+        `Booking ID: ${row.id}`,
+      ]
+    : [
+        language === 'ar' ? `رقم الحجز: ${row.id}` : `Booking ID: ${row.id}`,
+        row.employee_name ? (language === 'ar' ? `الموظف: ${row.employee_name}` : `With: ${row.employee_name}`) : null,
+        language === 'ar' ? `عدد الزوار: ${row.visitor_count}` : `Visitors: ${row.visitor_count}`,
+      ];
+
+  return {
+    uid: `booking-${row.id}@bookati`,
+    start: new Date(row.starts_at),
+    end: new Date(row.ends_at),
+    summary: audience === 'employee' ? `${serviceName} - ${row.customer_name}` : `${serviceName} - ${tenantName}`,
+    description: description.filter(Boolean).join('\n'),
+    location: row.tenant_address,
+    status: mapEventStatus(row.status),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function buildCalendar(events: CalendarEvent[], options: { name?: string; timeZone?: string } = {}): string {
+  const now = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.timeZone) {
+    lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatUtc(event.updatedAt)}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `STATUS:${event.status}`,
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Build the .ics attachment for a booking confirmation (single event, customer view).
+ * Returns null if the booking does not exist.
+ */
+export async function getBookingIcs(bookingId: string, language: 'en' | 'ar' = 'en'): Promise<string | null> {
+  const result = await query(
+    `SELECT ${EVENT_COLUMNS_SQL} ${EVENT_JOINS_SQL} WHERE b.id = $1`,
+    [bookingId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return buildCalendar([toCalendarEvent(row, 'customer', language)], { timeZone: row.tenant_time_zone });
+}
+
+/**
+ * Return the user's feed token, creating one if they have none yet.
+ * With regenerate, a new token replaces the old one so previously shared URLs stop working.
+ */
+export async function getCalendarFeedToken(userId: string, regenerate: boolean = false): Promise<string> {
+  if (!regenerate) {
+    const existing = await query('SELECT calendar_feed_token FROM users WHERE id = $1', [userId]);
+    if (existing.rows.length === 0) {
+      throw new CalendarError('User not found', 404);
+    }
+    if (existing.rows[0].calendar_feed_token) {
+      return existing.rows[0].calendar_feed_token;
+    }
+  }
+
+  const token = crypto.randomBytes(24).toString('hex');
+  const result = await query(
+    'UPDATE users SET calendar_feed_token = $1 WHERE id = $2 RETURNING id',
+    [token, userId]
+  );
+  if (result.rows.length === 0) {
+    throw new CalendarError('User not found', 404);
+  }
+  return token;
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${API_PUBLIC_URL}/api/calendar/feed/${token}.ics`;
+}
+
+/**
+ * Build the subscribable feed for a feed token: a customer's own bookings, or the bookings
+ * assigned to an employee. Returns null for an unknown token or an inactive user.
+ */
+export async function getCalendarFeed(token: string): Promise<string | null> {
+  if (!token) {
+    return null;
+  }
+
+  const userResult = await query(
+    `SELECT id, role, full_name, is_active FROM users WHERE calendar_feed_token = $1`,
+    [token]
+  );
+  const user = userResult.rows[0];
+  if (!user || user.is_active === false) {
+    return null;
+  }
+
+  const audience = user.role === 'customer' ? 'customer' : 'employee';
+  const ownerColumn = audience === 'customer' ? 'b.customer_id' : 'b.employee_id';
+
+  // Cancelled bookings stay in the feed (as cancelled events) so subscribed calendars drop them
+  const bookingsResult = await query(
+    `SELECT ${EVENT_COLUMNS_SQL} ${EVENT_JOINS_SQL}
+     WHERE ${ownerColumn} = $1
+       AND sl.slot_date >= CURRENT_DATE - $2::integer
+     ORDER BY sl.slot_date, sl.start_time`,
+    [user.id, FEED_PAST_DAYS]
+  );
+
+  const events = bookingsResult.rows.map(row => toCalendarEvent(row, audience, 'en'));
+  return buildCalendar(events, {
+    name: audience === 'customer' ? 'My bookings' : `${user.full_name} - Bookings`,
+    timeZone: bookingsResult.rows[0]?.tenant_time_zone,
+  });
+}
@@ -0,0 +1,368 @@
+import { PoolClient } from 'pg';
+import { query } from '../db';
+import { getTenantWhatsAppConfig } from './ticketDeliveryService';
+import { sendWhatsAppMessage } from './whatsappService';
+import { sendClosureNoticeEmail } from './emailService';
+
+// Tenant closures: public holidays and other dates the business is closed, all day or part of the
+// day, once or every year. Slot generation skips them in SQL (tenant_is_closed); slots that already
+// exist are closed here when a closure is added and reopened when it is removed. Dates and times
+// are tenant local, like slots and shifts.
+
+export class ClosureError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ClosureError';
+    this.status = status;
+  }
+}
+
+export interface ClosureInput {
+  name: string;
+  name_ar: string | null;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  recurs_yearly: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_RANGE_DAYS = 365;
+const MAX_CALENDAR_DAYS = 120;
+const MAX_NAME_LENGTH = 200;
+
+// Slot `sl` falls in closure `c`
+const SLOT_IN_CLOSURE_SQL = `sl.tenant_id = c.tenant_id
+  AND closure_applies_on(c.start_date, c.end_date, c.recurs_yearly, sl.slot_date)
+  AND (c.start_time IS NULL OR (c.start_time < sl.end_time AND sl.start_time < c.end_time))`;
+
+const CLOSURE_COLUMNS = `c.id, c.tenant_id, c.name, c.name_ar, c.recurs_yearly,
+  to_char(c.start_date, 'YYYY-MM-DD') as start_date,
+  to_char(c.end_date, 'YYYY-MM-DD') as end_date,
+  to_char(c.start_time, 'HH24:MI') as start_time,
+  to_char(c.end_time, 'HH24:MI') as end_time,
+  c.created_by_user_id, c.created_at`;
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate a closure from the request body. end_date defaults to start_date (a single day);
+ * a partial-day closure has both start_time and end_time.
+ */
+export function validateClosure(body: any): ClosureInput {
+  const name = optionalText(body?.name);
+  if (!name) {
+    throw new ClosureError('name is required');
+  }
+  const nameAr = optionalText(body.name_ar);
+  if (name.length > MAX_NAME_LENGTH || (nameAr && nameAr.length > MAX_NAME_LENGTH)) {
+    throw new ClosureError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (!isValidDate(body.start_date)) {
+    throw new ClosureError('start_date must be a date in YYYY-MM-DD format');
+  }
+  const endDate = body.end_date ? body.end_date : body.start_date;
+  if (!isValidDate(endDate)) {
+    throw new ClosureError('end_date must be a date in YYYY-MM-DD format');
+  }
+  const days = (Date.parse(endDate) - Date.parse(body.start_date)) / 86400000;
+  if (days < 0) {
+    throw new ClosureError('start_date must be on or before end_date');
+  }
+  if (days >= MAX_RANGE_DAYS) {
+    throw new ClosureError('A closure must be shorter than a year');
+  }
+
+  let startTime: string | null = null;
+  let endTime: string | null = null;
+  if (body.start_time || body.end_time) {
+    if (!TIME_PATTERN.test(body.start_time ?? '') || !TIME_PATTERN.test(body.end_time ?? '')) {
+      throw new ClosureError('start_time and end_time must be times in HH:MM format');
+    }
+    if (body.start_time >= body.end_time) {
+      throw new ClosureError('start_time must be before end_time');
+    }
+    startTime = body.start_time;
+    endTime = body.end_time;
+  }
+
+  return {
+    name,
+    name_ar: nameAr,
+    start_date: body.start_date,
+    end_date: endDate,
+    start_time: startTime,
+    end_time: endTime,
+    recurs_yearly: body.recurs_yearly === true,
+  };
+}
+
+/**
+ * The tenant's closures, latest first
+ */
+export async function listClosures(tenantId: string) {
+  const result = await query(
+    `SELECT ${CLOSURE_COLUMNS}
+     FROM tenant_closures c
+     WHERE c.tenant_id = $1
+     ORDER BY c.start_date DESC, c.start_time NULLS FIRST`,
+    [tenantId]
+  );
+  return result.rows;
+}
+
+/**
+ * Closed dates between start and end (YYYY-MM-DD, inclusive), with yearly closures resolved to
+ * their dates. start_time and end_time are null when the tenant is closed all day.
+ */
+export async function getClosureCalendar(tenantId: string, start: unknown, end: unknown) {
+  if (!isValidDate(start) || !isValidDate(end)) {
+    throw new ClosureError('start and end must be dates in YYYY-MM-DD format');
+  }
+  const days = (Date.parse(end) - Date.parse(start)) / 86400000;
+  if (days < 0) {
+    throw new ClosureError('start must be on or before end');
+  }
+  if (days >= MAX_CALENDAR_DAYS) {
+    throw new ClosureError(`The closure calendar can cover at most ${MAX_CALENDAR_DAYS} days`);
+  }
+
+  const result = await query(
+    `SELECT to_char(d.day, 'YYYY-MM-DD') as date, c.name, c.name_ar,
+            to_char(c.start_time, 'HH24:MI') as start_time,
+            to_char(c.end_time, 'HH24:MI') as end_time
+     FROM generate_series($2::date, $3::date, interval '1 day') AS d(day)
+     JOIN tenant_closures c
+       ON c.tenant_id = $1 AND closure_applies_on(c.start_date, c.end_date, c.recurs_yearly, d.day::date)
+     ORDER BY d.day, c.start_time NULLS FIRST`,
+    [tenantId, start, end]
+  );
+  return result.rows;
+}
+
+/**
+ * Upcoming pending, confirmed or checked-in bookings on slots that fall in the closure
+ */
+export async function findAffectedBookings(closureId: string, tenantId: string) {
+  const result = await query(
+    `SELECT b.id, b.customer_name, b.customer_phone, b.customer_email, b.visitor_count, b.status,
+            b.language, n.notified_at as closure_notified_at, b.service_id,
+            s.name as service_name, s.name_ar as service_name_ar,
+            to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date,
+            to_char(sl.start_time, 'HH24:MI') as start_time,
+            to_char(sl.end_time, 'HH24:MI') as end_time
+     FROM tenant_closures c
+     JOIN tenants t ON c.tenant_id = t.id
+     JOIN slots sl ON sl.tenant_id = c.tenant_id
+     JOIN bookings b ON b.slot_id = sl.id
+     JOIN services s ON b.service_id = s.id
+     LEFT JOIN booking_closure_notices n ON n.booking_id = b.id AND n.closure_id = c.id
+     WHERE c.id = $1 AND c.tenant_id = $2
+       AND b.status IN ('pending', 'confirmed', 'checked_in')
+       AND (sl.slot_date + sl.end_time) > (now() AT TIME ZONE COALESCE(t.tenant_time_zone, 'Asia/Riyadh'))
+       AND ${SLOT_IN_CLOSURE_SQL}
+     ORDER BY sl.slot_date, sl.start_time`,
+    [closureId, tenantId]
+  );
+  return result.rows;
+}
+
+/**
+ * Add a closure and close the tenant's existing slots that fall in it.
+ * Returns the closure and how many slots were closed.
+ */
+export async function createClosure(
+  client: PoolClient,
+  req: { tenantId: string; createdBy: string; input: ClosureInput }
+) {
+  const { input } = req;
+  const inserted = await client.query(
+    `INSERT INTO tenant_closures
+       (tenant_id, name, name_ar, start_date, end_date, start_time, end_time, recurs_yearly, created_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id`,
+    [
+      req.tenantId,
+      input.name,
+      input.name_ar,
+      input.start_date,
+      input.end_date,
+      input.start_time,
+      input.end_time,
+      input.recurs_yearly,
+      req.createdBy,
+    ]
+  );
+  const closureId = inserted.rows[0].id;
+
+  const closed = await client.query(
+    `UPDATE slots sl
+     SET is_available = false, closed_by_closure_id = c.id
+     FROM tenant_closures c
+     WHERE c.id = $1
+       AND sl.slot_date >= c.start_date
+       AND sl.is_available = true
+       AND ${SLOT_IN_CLOSURE_SQL}`,
+    [closureId]
+  );
+
+  const result = await client.query(
+    `SELECT ${CLOSURE_COLUMNS} FROM tenant_closures c WHERE c.id = $1`,
+    [closureId]
+  );
+  return { closure: result.rows[0], slotsClosed: closed.rowCount ?? 0 };
+}
+
+/**
+ * Remove a closure and reopen the slots it closed, unless another closure or an employee
+ * exception still covers them. Returns the removed closure for the audit log.
+ */
+export async function deleteClosure(client: PoolClient, closureId: string, tenantId: string) {
+  const existing = await client.query(
+    `SELECT ${CLOSURE_COLUMNS}
+     FROM tenant_closures c
+     WHERE c.id = $1 AND c.tenant_id = $2
+     FOR UPDATE`,
+    [closureId, tenantId]
+  );
+  if (existing.rows.length === 0) {
+    throw new ClosureError('Closure not found', 404);
+  }
+
+  const closed = await client.query(
+    'SELECT id FROM slots WHERE closed_by_closure_id = $1 FOR UPDATE',
+    [closureId]
+  );
+  const slotIds = closed.rows.map((row: any) => row.id);
+
+  await client.query('DELETE FROM tenant_closures WHERE id = $1', [closureId]);
+
+  let slotsReopened = 0;
+  if (slotIds.length > 0) {
+    const reopened = await client.query('SELECT refresh_closed_slots($1::uuid[]) as reopened', [slotIds]);
+    slotsReopened = reopened.rows[0].reopened;
+  }
+
+  return { closure: existing.rows[0], slotsReopened };
+}
+
+function buildWhatsAppClosureNotice(booking: any, closure: any): string {
+  if (booking.language === 'ar') {
+    return `نعتذر، سنكون مغلقين (${closure.name_ar || closure.name}) في موعد حجزك لخدمة ` +
+      `"${booking.service_name_ar || booking.service_name}" بتاريخ ${booking.slot_date} الساعة ${booking.start_time}.\n\n` +
+      `يمكنك اختيار موعد جديد من حسابك دون أي رسوم، أو التواصل معنا.\n\n` +
+      `${closure.tenant_name_ar || closure.tenant_name}`;
+  }
+  return `We're sorry, we will be closed (${closure.name}) at the time of your ` +
+    `"${booking.service_name}" booking on ${booking.slot_date} at ${booking.start_time}.\n\n` +
+    `You can pick a new time from your account free of charge, or contact us.\n\n` +
+    `${closure.tenant_name}`;
+}
+
+/**
+ * Ask the customers of the closure's affected bookings to reschedule, by WhatsApp and email.
+ * Each booking is claimed (a booking_closure_notices row) before sending so a customer is told
+ * once per closure; the claim is released when no channel succeeds so the notice can be retried.
+ */
+export async function notifyAffectedBookings(closureId: string, tenantId: string) {
+  const closureResult = await query(
+    `SELECT c.id, c.name, c.name_ar, t.name as tenant_name, t.name_ar as tenant_name_ar,
+            t.whatsapp_settings IS NOT NULL as has_whatsapp,
+            t.smtp_settings IS NOT NULL as has_smtp
+     FROM tenant_closures c
+     JOIN tenants t ON c.tenant_id = t.id
+     WHERE c.id = $1 AND c.tenant_id = $2`,
+    [closureId, tenantId]
+  );
+  if (closureResult.rows.length === 0) {
+    throw new ClosureError('Closure not found', 404);
+  }
+  const closure = closureResult.rows[0];
+
+  const affected = await findAffectedBookings(closureId, tenantId);
+  const pendingIds = affected.filter((booking: any) => !booking.closure_notified_at).map((booking: any) => booking.id);
+  if (pendingIds.length === 0) {
+    return { notified: 0, failed: 0, already_notified: affected.length };
+  }
+
+  const claimed = await query(
+    `INSERT INTO booking_closure_notices (booking_id, closure_id, tenant_id)
+     SELECT unnest($1::uuid[]), $2, $3
+     ON CONFLICT DO NOTHING
+     RETURNING booking_id`,
+    [pendingIds, closureId, tenantId]
+  );
+  const claimedIds = new Set(claimed.rows.map((row: any) => row.booking_id));
+  const whatsappConfig = closure.has_whatsapp ? await getTenantWhatsAppConfig(tenantId) : null;
+
+  let notified = 0;
+  const failedIds: string[] = [];
+
+  for (const booking of affected.filter((row: any) => claimedIds.has(row.id))) {
+    let sent = false;
+
+    if (whatsappConfig && booking.customer_phone) {
+      try {
+        const whatsappResult = await sendWhatsAppMessage(
+          booking.customer_phone,
+          buildWhatsAppClosureNotice(booking, closure),
+          whatsappConfig
+        );
+        if (whatsappResult.success) {
+          sent = true;
+        } else {
+          console.error(`[Closures] ❌ WhatsApp closure notice failed for booking ${booking.id}: ${whatsappResult.error}`);
+        }
+      } catch (error: any) {
+        console.error(`[Closures] ❌ WhatsApp closure notice failed for booking ${booking.id}: ${error.message}`);
+      }
+    }
+
+    if (closure.has_smtp && booking.customer_email) {
+      const emailResult = await sendClosureNoticeEmail(
+        booking.customer_email,
+        tenantId,
+        {
+          closure_name: closure.name,
+          closure_name_ar: closure.name_ar,
+          service_name: booking.service_name,
+          service_name_ar: booking.service_name_ar,
+          slot_date: booking.slot_date,
+          start_time: booking.start_time,
+          tenant_name: closure.tenant_name,
+          tenant_name_ar: closure.tenant_name_ar,
+        },
+        booking.language === 'ar' ? 'ar' : 'en'
+      );
+      if (emailResult.success) {
+        sent = true;
+      }
+    }
+
+    if (sent) {
+      notified++;
+    } else {
+      failedIds.push(booking.id);
+    }
+  }
+
+  if (failedIds.length > 0) {
+    await query(
+      'DELETE FROM booking_closure_notices WHERE closure_id = $1 AND booking_id = ANY($2::uuid[])',
+      [closureId, failedIds]
+    );
+  }
+
+  return { notified, failed: failedIds.length, already_notified: affected.length - pendingIds.length };
+}
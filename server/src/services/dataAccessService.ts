@@ -0,0 +1,670 @@
+import { query } from '../db';
+import {
+  DATA_RESOURCES,
+  RPC_FUNCTIONS,
+  DataResource,
+  DataRole,
+  RelationDefinition,
+} from '../config/dataResources';
+
+// Permission-aware data layer behind the generic /api/query, /api/insert, /api/update,
+// /api/delete and /api/rpc endpoints.
+// Only resources registered in config/dataResources.ts are reachable, only their allowlisted
+// columns can be read, filtered or written, and every statement is scoped to the caller's
+// tenant (customers additionally to their own rows). Selects keep the Supabase-style syntax,
+// e.g. "*, services(name, name_ar), employee_services(id, shifts(*))"; relations are resolved
+// from the registry and returned nested (an object for "one", an array for "many").
+
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+const MAX_RELATION_DEPTH = 3;
+// json_build_object accepts at most 100 arguments, so wide rows are built in chunks
+const JSON_PAIRS_PER_CHUNK = 40;
+
+const FILTER_OPERATORS: Record<string, string> = {
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+export class DataAccessError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'DataAccessError';
+    this.status = status;
+  }
+}
+
+export interface DataUser {
+  id: string;
+  role: string;
+  tenant_id?: string | null;
+}
+
+export interface SelectOptions {
+  select?: string;
+  where?: Record<string, any>;
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+}
+
+interface SelectNode {
+  columns: string[];
+  relations: RelationSelect[];
+}
+
+interface RelationSelect {
+  // Relation name (or alias/table), also the key of the nested value in the result
+  key: string;
+  // Second part of "alias:relation" / "table:foreign_key"
+  hint?: string;
+  node: SelectNode;
+}
+
+interface QueryContext {
+  user: DataUser;
+  params: any[];
+  aliasCount: number;
+}
+
+type DataOperation = 'read' | 'insert' | 'update' | 'delete';
+
+// ============================================================================
+// Registry lookups
+// ============================================================================
+
+function getResource(table: string): DataResource {
+  const resource = Object.prototype.hasOwnProperty.call(DATA_RESOURCES, table) ? DATA_RESOURCES[table] : undefined;
+  if (!resource) {
+    throw new DataAccessError(`Table "${table}" is not available`, 404);
+  }
+  return resource;
+}
+
+function isSolutionOwner(user: DataUser): boolean {
+  return user.role === 'solution_owner';
+}
+
+function assertAllowed(table: string, resource: DataResource, user: DataUser, operation: DataOperation) {
+  if (isSolutionOwner(user)) {
+    return;
+  }
+  const roles = resource[operation] || [];
+  if (!roles.includes(user.role as DataRole)) {
+    throw new DataAccessError(`Access denied: cannot ${operation} ${table}`, 403);
+  }
+}
+
+// Columns that actually exist, so the allowlist can list columns added by later migrations
+const tableColumnsCache = new Map<string, Set<string>>();
+
+async function getTableColumns(table: string): Promise<Set<string>> {
+  let columns = tableColumnsCache.get(table);
+  if (!columns) {
+    const result = await query(
+      `SELECT column_name FROM information_schema.columns WHERE table_schema = 'public' AND table_name = $1`,
+      [table]
+    );
+    columns = new Set(result.rows.map((row: any) => row.column_name));
+    tableColumnsCache.set(table, columns);
+  }
+  return columns;
+}
+
+async function getReadableColumns(table: string, resource: DataResource, user: DataUser): Promise<string[]> {
+  const existing = await getTableColumns(table);
+  return resource.columns.filter(column => {
+    if (!existing.has(column)) return false;
+    const roles = resource.restrictedColumns?.[column];
+    return !roles || isSolutionOwner(user) || roles.includes(user.role as DataRole);
+  });
+}
+
+function addParam(ctx: QueryContext, value: any): string {
+  ctx.params.push(value);
+  return `$${ctx.params.length}`;
+}
+
+function nextAlias(ctx: QueryContext): string {
+  ctx.aliasCount++;
+  return `t${ctx.aliasCount}`;
+}
+
+/**
+ * Tenant (and customer ownership) conditions for a resource aliased as alias
+ */
+function scopeConditions(resource: DataResource, alias: string, ctx: QueryContext): string[] {
+  const { user } = ctx;
+  if (isSolutionOwner(user)) {
+    return [];
+  }
+
+  // Customers only see their own rows, across the tenants they have booked with
+  if (user.role === 'customer' && resource.ownerColumn) {
+    return [`${alias}.${resource.ownerColumn} = ${addParam(ctx, user.id)}`];
+  }
+
+  if (!user.tenant_id) {
+    throw new DataAccessError('No tenant associated with this account', 403);
+  }
+
+  if (resource.tenantColumn) {
+    return [`${alias}.${resource.tenantColumn} = ${addParam(ctx, user.tenant_id)}`];
+  }
+  if (resource.tenantVia) {
+    const parent = getResource(resource.tenantVia.table);
+    return [
+      `${alias}.${resource.tenantVia.column} IN (SELECT id FROM ${resource.tenantVia.table} WHERE ${parent.tenantColumn} = ${addParam(ctx, user.tenant_id)})`,
+    ];
+  }
+
+  throw new DataAccessError('Access denied', 403);
+}
+
+// ============================================================================
+// Supabase-style select parsing
+// ============================================================================
+
+// Split on commas that are not inside parentheses
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth < 0) {
+      throw new DataAccessError('Invalid select: unbalanced parentheses');
+    }
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (depth !== 0) {
+    throw new DataAccessError('Invalid select: unbalanced parentheses');
+  }
+  parts.push(current.trim());
+  return parts.filter(part => part);
+}
+
+function parseSelect(select: string): SelectNode {
+  const node: SelectNode = { columns: [], relations: [] };
+  const cleanSelect = select.replace(/\s+/g, ' ').trim();
+
+  for (const part of splitTopLevel(cleanSelect || '*')) {
+    // "relation(cols)", "alias:relation(cols)" or "table:foreign_key(cols)"
+    const relationMatch = part.match(/^(\w+)(?:\s*:\s*(\w+))?\s*\((.*)\)$/);
+    if (relationMatch) {
+      const [, first, second, inner] = relationMatch;
+      node.relations.push({
+        key: first,
+        hint: second,
+        node: parseSelect(inner),
+      });
+      continue;
+    }
+
+    if (part === '*' || IDENTIFIER_PATTERN.test(part)) {
+      node.columns.push(part);
+      continue;
+    }
+    throw new DataAccessError(`Invalid select: "${part}"`);
+  }
+
+  return node;
+}
+
+/**
+ * Resolve a relation in a select against the registry.
+ * Accepts the relation name ("services"), Supabase's alias form ("category:service_categories")
+ * and the table:foreign_key form ("users:employee_id").
+ */
+function resolveRelation(table: string, resource: DataResource, relation: RelationSelect): RelationDefinition {
+  const relations = resource.relations || {};
+  const has = (name: string) => Object.prototype.hasOwnProperty.call(relations, name);
+
+  if (!relation.hint && has(relation.key)) {
+    return relations[relation.key];
+  }
+  if (relation.hint) {
+    if (has(relation.hint)) {
+      return relations[relation.hint];
+    }
+    const byColumn = Object.values(relations).find(definition =>
+      definition.table === relation.key &&
+      (definition.column === relation.hint || definition.foreignColumn === relation.hint)
+    );
+    if (byColumn) {
+      return byColumn;
+    }
+  }
+
+  const label = relation.hint ? `${relation.key}:${relation.hint}` : relation.key;
+  throw new DataAccessError(`Relation "${label}" is not available on ${table}`);
+}
+
+function expandColumns(requested: string[], readable: string[], table: string): string[] {
+  if (requested.length === 0 || requested.includes('*')) {
+    const extra = requested.filter(column => column !== '*');
+    extra.forEach(column => assertReadable(column, readable, table));
+    return readable;
+  }
+  requested.forEach(column => assertReadable(column, readable, table));
+  return Array.from(new Set(requested));
+}
+
+function assertReadable(column: string, readable: string[], table: string) {
+  if (!readable.includes(column)) {
+    throw new DataAccessError(`Column "${column}" is not available on ${table}`);
+  }
+}
+
+// ============================================================================
+// Select building
+// ============================================================================
+
+async function buildRelationSubquery(
+  parentAlias: string,
+  parentTable: string,
+  parentResource: DataResource,
+  relation: RelationSelect,
+  ctx: QueryContext,
+  depth: number
+): Promise<string> {
+  if (depth > MAX_RELATION_DEPTH) {
+    throw new DataAccessError('Select is nested too deeply');
+  }
+
+  const definition = resolveRelation(parentTable, parentResource, relation);
+  const resource = getResource(definition.table);
+  assertAllowed(definition.table, resource, ctx.user, 'read');
+
+  const alias = nextAlias(ctx);
+  const objectSql = await buildJsonObject(definition.table, resource, relation.node, alias, ctx, depth + 1);
+  // Customers are not tied to one tenant: related rows must belong to the tenant of the
+  // (already scoped) parent row, e.g. the service of one of their bookings
+  const inheritsTenant = ctx.user.role === 'customer' && !resource.ownerColumn &&
+    !!resource.tenantColumn && !!parentResource.tenantColumn;
+  const conditions = [
+    `${alias}.${definition.foreignColumn} = ${parentAlias}.${definition.column}`,
+    ...(inheritsTenant
+      ? [`${alias}.${resource.tenantColumn} = ${parentAlias}.${parentResource.tenantColumn}`]
+      : scopeConditions(resource, alias, ctx)),
+  ];
+
+  if (definition.type === 'one') {
+    return `(SELECT ${objectSql} FROM ${definition.table} ${alias} WHERE ${conditions.join(' AND ')} LIMIT 1)`;
+  }
+  return `COALESCE((SELECT jsonb_agg(${objectSql}) FROM ${definition.table} ${alias} WHERE ${conditions.join(' AND ')}), '[]'::jsonb)`;
+}
+
+async function buildJsonObject(
+  table: string,
+  resource: DataResource,
+  node: SelectNode,
+  alias: string,
+  ctx: QueryContext,
+  depth: number
+): Promise<string> {
+  const readable = await getReadableColumns(table, resource, ctx.user);
+  const pairs = expandColumns(node.columns, readable, table).map(column => `'${column}', ${alias}.${column}`);
+
+  for (const relation of node.relations) {
+    const subquery = await buildRelationSubquery(alias, table, resource, relation, ctx, depth);
+    pairs.push(`'${relation.key}', ${subquery}`);
+  }
+
+  const chunks: string[] = [];
+  for (let i = 0; i < pairs.length; i += JSON_PAIRS_PER_CHUNK) {
+    chunks.push(`jsonb_build_object(${pairs.slice(i, i + JSON_PAIRS_PER_CHUNK).join(', ')})`);
+  }
+  return chunks.length > 0 ? chunks.join(' || ') : `'{}'::jsonb`;
+}
+
+function parseFilterKey(key: string): { column: string; operator: string } {
+  const match = key.match(/^(\w+?)__(neq|in|gt|gte|lt|lte)$/);
+  return match ? { column: match[1], operator: match[2] } : { column: key, operator: 'eq' };
+}
+
+/**
+ * Build WHERE conditions from a { column: value, column__op: value } object
+ */
+function buildFilters(
+  table: string,
+  resource: DataResource,
+  alias: string,
+  where: Record<string, any>,
+  readable: string[],
+  ctx: QueryContext
+): string[] {
+  if (!where || typeof where !== 'object' || Array.isArray(where)) {
+    throw new DataAccessError('Where clause must be an object');
+  }
+
+  const allowed = resource.filters ? resource.filters.filter(column => readable.includes(column)) : readable;
+  return Object.entries(where).map(([key, value]) => {
+    const { column, operator } = parseFilterKey(key);
+    if (!allowed.includes(column)) {
+      throw new DataAccessError(`Cannot filter ${table} by "${column}"`);
+    }
+
+    const target = `${alias}.${column}`;
+    if (value === null) {
+      return operator === 'neq' ? `${target} IS NOT NULL` : `${target} IS NULL`;
+    }
+    if (operator === 'in' || (operator === 'eq' && Array.isArray(value))) {
+      return `${target} = ANY(${addParam(ctx, Array.isArray(value) ? value : [value])})`;
+    }
+    if (operator === 'eq') {
+      return `${target} = ${addParam(ctx, value)}`;
+    }
+    return `${target} ${FILTER_OPERATORS[operator]} ${addParam(ctx, value)}`;
+  });
+}
+
+function requireWhere(where: Record<string, any> | undefined) {
+  if (!where || typeof where !== 'object' || Object.keys(where).length === 0) {
+    throw new DataAccessError('At least one where condition is required');
+  }
+}
+
+/**
+ * Columns for RETURNING: "*" or a comma separated list of readable columns
+ */
+function parseReturning(returning: string | undefined, readable: string[], table: string): string {
+  const requested = (returning || '*').split(',').map(column => column.trim()).filter(Boolean);
+  return expandColumns(requested, readable, table).join(', ');
+}
+
+export async function selectRows(table: string, options: SelectOptions, user: DataUser): Promise<any[]> {
+  const resource = getResource(table);
+  assertAllowed(table, resource, user, 'read');
+
+  const ctx: QueryContext = { user, params: [], aliasCount: 0 };
+  const alias = nextAlias(ctx);
+  const node = parseSelect(options.select || '*');
+  const readable = await getReadableColumns(table, resource, user);
+
+  const selectList = expandColumns(node.columns, readable, table).map(column => `${alias}.${column}`);
+  for (const relation of node.relations) {
+    if (!IDENTIFIER_PATTERN.test(relation.key)) {
+      throw new DataAccessError(`Invalid select: "${relation.key}"`);
+    }
+    const subquery = await buildRelationSubquery(alias, table, resource, relation, ctx, 1);
+    selectList.push(`${subquery} AS "${relation.key}"`);
+  }
+
+  const conditions = [
+    ...scopeConditions(resource, alias, ctx),
+    ...(options.where ? buildFilters(table, resource, alias, options.where, readable, ctx) : []),
+  ];
+
+  let sql = `SELECT ${selectList.join(', ')} FROM ${table} ${alias}`;
+  if (conditions.length > 0) {
+    sql += ` WHERE ${conditions.join(' AND ')}`;
+  }
+
+  if (options.orderBy) {
+    assertReadable(options.orderBy.column, readable, table);
+    sql += ` ORDER BY ${alias}.${options.orderBy.column} ${options.orderBy.ascending !== false ? 'ASC' : 'DESC'}`;
+  }
+
+  if (options.limit !== undefined) {
+    if (!Number.isInteger(options.limit) || options.limit < 0) {
+      throw new DataAccessError('Limit must be a non-negative integer');
+    }
+    sql += ` LIMIT ${addParam(ctx, options.limit)}`;
+  }
+
+  const result = await query(sql, ctx.params);
+  return result.rows;
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+function serializeValue(resource: DataResource, column: string, value: any): any {
+  if (!resource.jsonColumns?.includes(column) || value === null || value === undefined) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    // Already serialized JSON is stored as is; any other string is stored as a JSON string
+    try {
+      JSON.parse(value);
+      return value;
+    } catch {
+      return JSON.stringify(value);
+    }
+  }
+  return JSON.stringify(value);
+}
+
+function placeholder(resource: DataResource, column: string, param: string): string {
+  return resource.jsonColumns?.includes(column) ? `${param}::jsonb` : param;
+}
+
+/**
+ * Check the columns a caller may write and strip the tenant/owner columns, which are set by the server
+ */
+function writableEntries(table: string, resource: DataResource, record: Record<string, any>, user: DataUser): [string, any][] {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new DataAccessError('Data must be an object');
+  }
+
+  const entries: [string, any][] = [];
+  for (const [column, value] of Object.entries(record)) {
+    if (column === resource.tenantColumn) {
+      if (!isSolutionOwner(user) && value !== user.tenant_id) {
+        throw new DataAccessError('Cannot write data for another tenant', 403);
+      }
+      if (isSolutionOwner(user)) {
+        entries.push([column, value]);
+      }
+      continue;
+    }
+    if (column === resource.ownerColumn && user.role === 'customer') {
+      if (value !== user.id) {
+        throw new DataAccessError('Cannot write data for another customer', 403);
+      }
+      continue;
+    }
+    if (!resource.writable?.includes(column)) {
+      throw new DataAccessError(`Column "${column}" cannot be written on ${table}`);
+    }
+    entries.push([column, value]);
+  }
+  return entries;
+}
+
+/**
+ * Foreign keys written through "one" relations must point at rows of the caller's tenant
+ */
+async function assertReferencesInTenant(resource: DataResource, records: Record<string, any>[], user: DataUser) {
+  if (isSolutionOwner(user)) {
+    return;
+  }
+
+  for (const definition of Object.values(resource.relations || {})) {
+    if (definition.type !== 'one' || definition.foreignColumn !== 'id') continue;
+    const target = getResource(definition.table);
+    if (!target.tenantColumn) continue;
+
+    const ids = Array.from(new Set(
+      records.map(record => record[definition.column]).filter(value => value !== null && value !== undefined)
+    ));
+    if (ids.length === 0) continue;
+
+    const result = await query(
+      `SELECT COUNT(*)::integer AS count FROM ${definition.table} WHERE id = ANY($1) AND ${target.tenantColumn} = $2`,
+      [ids, user.tenant_id]
+    );
+    if (result.rows[0].count !== ids.length) {
+      throw new DataAccessError(`Invalid ${definition.column}: not found`);
+    }
+  }
+}
+
+export async function insertRows(
+  table: string,
+  data: Record<string, any> | Record<string, any>[],
+  returning: string | undefined,
+  user: DataUser
+): Promise<any[]> {
+  const resource = getResource(table);
+  assertAllowed(table, resource, user, 'insert');
+
+  const records = Array.isArray(data) ? data : [data];
+  if (records.length === 0) {
+    throw new DataAccessError('Data is required');
+  }
+
+  const rows = records.map(record => {
+    const entries = writableEntries(table, resource, record, user);
+    if (!isSolutionOwner(user)) {
+      if (resource.tenantColumn) {
+        entries.push([resource.tenantColumn, user.tenant_id]);
+      }
+      if (resource.ownerColumn && user.role === 'customer') {
+        entries.push([resource.ownerColumn, user.id]);
+      }
+    }
+    return Object.fromEntries(entries);
+  });
+
+  if (!isSolutionOwner(user) && !resource.tenantColumn && !resource.tenantVia) {
+    throw new DataAccessError('Access denied', 403);
+  }
+  await assertReferencesInTenant(resource, rows, user);
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  if (columns.length === 0) {
+    throw new DataAccessError('No valid columns to insert');
+  }
+
+  const ctx: QueryContext = { user, params: [], aliasCount: 0 };
+  const values = rows.map(row => {
+    const placeholders = columns.map(column => (
+      column in row
+        ? placeholder(resource, column, addParam(ctx, serializeValue(resource, column, row[column])))
+        : 'DEFAULT'
+    ));
+    return `(${placeholders.join(', ')})`;
+  });
+
+  const readable = await getReadableColumns(table, resource, user);
+  const sql = `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')}
+    ${resource.onConflict || ''} RETURNING ${parseReturning(returning, readable, table)}`;
+
+  const result = await query(sql, ctx.params);
+  return result.rows;
+}
+
+export async function updateRows(
+  table: string,
+  data: Record<string, any>,
+  where: Record<string, any>,
+  user: DataUser
+): Promise<any[]> {
+  const resource = getResource(table);
+  assertAllowed(table, resource, user, 'update');
+  requireWhere(where);
+
+  const entries = writableEntries(table, resource, data, user);
+  if (entries.length === 0) {
+    throw new DataAccessError('No valid fields to update');
+  }
+  await assertReferencesInTenant(resource, [Object.fromEntries(entries)], user);
+
+  const ctx: QueryContext = { user, params: [], aliasCount: 0 };
+  const alias = nextAlias(ctx);
+  const readable = await getReadableColumns(table, resource, user);
+
+  const setClauses = entries.map(([column, value]) =>
+    `${column} = ${placeholder(resource, column, addParam(ctx, serializeValue(resource, column, value)))}`
+  );
+  const conditions = [
+    ...scopeConditions(resource, alias, ctx),
+    ...buildFilters(table, resource, alias, where, readable, ctx),
+  ];
+  const returningColumns = expandColumns(['*'], readable, table).map(column => `${alias}.${column}`);
+
+  const result = await query(
+    `UPDATE ${table} ${alias} SET ${setClauses.join(', ')} WHERE ${conditions.join(' AND ')} RETURNING ${returningColumns.join(', ')}`,
+    ctx.params
+  );
+  return result.rows;
+}
+
+export async function deleteRows(table: string, where: Record<string, any>, user: DataUser): Promise<any[]> {
+  const resource = getResource(table);
+  assertAllowed(table, resource, user, 'delete');
+  requireWhere(where);
+
+  const ctx: QueryContext = { user, params: [], aliasCount: 0 };
+  const alias = nextAlias(ctx);
+  const readable = await getReadableColumns(table, resource, user);
+
+  const conditions = [
+    ...scopeConditions(resource, alias, ctx),
+    ...buildFilters(table, resource, alias, where, readable, ctx),
+  ];
+  const returningColumns = expandColumns(['*'], readable, table).map(column => `${alias}.${column}`);
+
+  const result = await query(
+    `DELETE FROM ${table} ${alias} WHERE ${conditions.join(' AND ')} RETURNING ${returningColumns.join(', ')}`,
+    ctx.params
+  );
+  return result.rows;
+}
+
+// ============================================================================
+// RPC
+// ============================================================================
+
+export async function callRpc(functionName: string, args: Record<string, any>, user: DataUser): Promise<any[]> {
+  const definition = Object.prototype.hasOwnProperty.call(RPC_FUNCTIONS, functionName)
+    ? RPC_FUNCTIONS[functionName]
+    : undefined;
+  if (!definition) {
+    throw new DataAccessError(`Function "${functionName}" is not available`, 404);
+  }
+  if (!isSolutionOwner(user) && !definition.roles.includes(user.role as DataRole)) {
+    throw new DataAccessError(`Access denied: cannot call ${functionName}`, 403);
+  }
+
+  const params = args || {};
+  const unknown = Object.keys(params).filter(name => !definition.params.includes(name));
+  if (unknown.length > 0) {
+    throw new DataAccessError(`Unknown parameter "${unknown[0]}" for ${functionName}`);
+  }
+  const missing = definition.params.filter(name => params[name] === undefined);
+  if (missing.length > 0) {
+    throw new DataAccessError(`Missing parameter "${missing[0]}" for ${functionName}`);
+  }
+
+  if (definition.tenantParam && !isSolutionOwner(user)) {
+    const target = getResource(definition.tenantParam.table);
+    const owned = await query(
+      `SELECT 1 FROM ${definition.tenantParam.table} WHERE id = $1 AND ${target.tenantColumn} = $2`,
+      [params[definition.tenantParam.param], user.tenant_id]
+    );
+    if (owned.rows.length === 0) {
+      throw new DataAccessError(`Invalid ${definition.tenantParam.param}: not found`, 404);
+    }
+  }
+
+  const namedArgs = definition.params.map((name, i) => `${name} => $${i + 1}`);
+  const result = await query(
+    `SELECT * FROM ${functionName}(${namedArgs.join(', ')})`,
+    definition.params.map(name => params[name])
+  );
+  return result.rows;
+}
@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import { query } from '../db';
+import { getBookingIcs } from './calendarService';
 
 /**
  * Get SMTP settings from database for a tenant
@@ -171,7 +172,7 @@ export async function sendOTPEmail(email: string, otp: string, tenantId: string,
 }
 
 /**
- * Send booking ticket PDF via email
+ * Send booking ticket PDF via email, with an .ics calendar event for the booking
  * Uses SMTP settings from database (tenant-specific)
  */
 export async function sendBookingTicketEmail(
@@ -261,6 +262,20 @@ export async function sendBookingTicketEmail(
           content: pdfBuffer,
           contentType: 'application/pdf',
         }];
+
+    // Calendar event - the ticket is still sent if it cannot be built
+    try {
+      const ics = await getBookingIcs(bookingId, language);
+      if (ics) {
+        attachments.push({
+          filename: 'booking.ics',
+          content: Buffer.from(ics, 'utf8'),
+          contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+        });
+      }
+    } catch (icsError: any) {
+      console.error(`[EmailService] ⚠️ Failed to build calendar event for booking ${bookingId}:`, icsError.message);
+    }
     
     const mailOptions = {
       from: `"${bookingDetails.tenant_name || 'Bookati'}" <${smtpSettings.user}>`,
@@ -274,7 +289,7 @@ export async function sendBookingTicketEmail(
     console.log(`   From: ${mailOptions.from}`);
     console.log(`   To: ${mailOptions.to}`);
     console.log(`   Subject: ${mailOptions.subject}`);
-    console.log(`   Attachments: ${attachments.length} ticket(s)`);
+    console.log(`   Attachments: ${attachments.length} file(s)`);
     attachments.forEach((att, idx) => {
       console.log(`     ${idx + 1}. ${att.filename} (${(att.content.length / 1024).toFixed(2)} KB)`);
     });
@@ -293,3 +308,383 @@ export async function sendBookingTicketEmail(
   }
 }
 
+/**
+ * Send a booking reminder email (no attachment)
+ * Uses SMTP settings from database (tenant-specific)
+ */
+export async function sendBookingReminderEmail(
+  email: string,
+  bookingId: string,
+  tenantId: string,
+  bookingDetails: {
+    service_name: string;
+    service_name_ar?: string;
+    slot_date: string;
+    start_time: string;
+    end_time: string;
+    tenant_name?: string;
+    tenant_name_ar?: string;
+  },
+  hoursBefore: number,
+  language: 'en' | 'ar' = 'en'
+): Promise<{ success: boolean; error?: string }> {
+  const subject = language === 'ar'
+    ? 'تذكير بموعد حجزك - Booking Reminder'
+    : 'Booking Reminder';
+
+  const html = language === 'ar'
+    ? `
+      <div dir="rtl" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">تذكير بموعد حجزك</h2>
+        <p>موعد حجزك خلال ${hoursBefore} ساعة.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p><strong>تفاصيل الحجز:</strong></p>
+        <ul>
+          <li>رقم الحجز: ${bookingId}</li>
+          <li>الخدمة: ${bookingDetails.service_name_ar || bookingDetails.service_name}</li>
+          <li>التاريخ: ${bookingDetails.slot_date}</li>
+          <li>الوقت: ${bookingDetails.start_time} - ${bookingDetails.end_time}</li>
+        </ul>
+        <p>يرجى إحضار التذكرة عند الوصول.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">شكراً لك،<br>${bookingDetails.tenant_name_ar || bookingDetails.tenant_name || 'فريق Bookati'}</p>
+      </div>
+    `
+    : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">Your booking is coming up</h2>
+        <p>This is a reminder that your booking starts in ${hoursBefore} hour(s).</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p><strong>Booking Details:</strong></p>
+        <ul>
+          <li>Booking ID: ${bookingId}</li>
+          <li>Service: ${bookingDetails.service_name}</li>
+          <li>Date: ${bookingDetails.slot_date}</li>
+          <li>Time: ${bookingDetails.start_time} - ${bookingDetails.end_time}</li>
+        </ul>
+        <p>Please bring your ticket upon arrival.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">Thank you,<br>${bookingDetails.tenant_name || 'The Bookati Team'}</p>
+      </div>
+    `;
+
+  const smtpSettings = await getSmtpSettingsFromDb(tenantId);
+
+  if (!smtpSettings) {
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  const transporter = await createTransporterFromDb(tenantId);
+
+  if (!transporter) {
+    return { success: false, error: 'Failed to create email transporter' };
+  }
+
+  try {
+    await transporter.sendMail({
+      from: `"${bookingDetails.tenant_name || 'Bookati'}" <${smtpSettings.user}>`,
+      to: email,
+      subject,
+      html,
+    });
+    console.log(`[EmailService] ✅ Booking reminder email sent to ${email} (booking ${bookingId})`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[EmailService] ❌ Reminder email sending error:', error.message);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Send a waitlist offer email: a spot opened up and is held until expiresAt
+ */
+export async function sendWaitlistOfferEmail(
+  email: string,
+  tenantId: string,
+  offerDetails: {
+    service_name: string;
+    service_name_ar?: string;
+    slot_date: string;
+    start_time: string;
+    end_time: string;
+    tenant_name?: string;
+    tenant_name_ar?: string;
+    claim_url: string;
+    expires_in_minutes: number;
+  },
+  language: 'en' | 'ar' = 'en'
+): Promise<{ success: boolean; error?: string }> {
+  const subject = language === 'ar'
+    ? 'أصبح مكانك متاحاً - A spot opened up'
+    : 'A spot opened up for you';
+
+  const html = language === 'ar'
+    ? `
+      <div dir="rtl" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">أصبح مكانك متاحاً</h2>
+        <p>توفر مكان في الموعد الذي كنت على قائمة الانتظار له. تم حجزه لك لمدة ${offerDetails.expires_in_minutes} دقيقة.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <ul>
+          <li>الخدمة: ${offerDetails.service_name_ar || offerDetails.service_name}</li>
+          <li>التاريخ: ${offerDetails.slot_date}</li>
+          <li>الوقت: ${offerDetails.start_time} - ${offerDetails.end_time}</li>
+        </ul>
+        <p><a href="${offerDetails.claim_url}" style="display: inline-block; padding: 10px 20px; background: #2563eb; color: #fff; text-decoration: none; border-radius: 6px;">احجز الآن</a></p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">شكراً لك،<br>${offerDetails.tenant_name_ar || offerDetails.tenant_name || 'فريق Bookati'}</p>
+      </div>
+    `
+    : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">A spot opened up for you</h2>
+        <p>A spot is now available for the time you were waiting for. We are holding it for you for ${offerDetails.expires_in_minutes} minutes.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <ul>
+          <li>Service: ${offerDetails.service_name}</li>
+          <li>Date: ${offerDetails.slot_date}</li>
+          <li>Time: ${offerDetails.start_time} - ${offerDetails.end_time}</li>
+        </ul>
+        <p><a href="${offerDetails.claim_url}" style="display: inline-block; padding: 10px 20px; background: #2563eb; color: #fff; text-decoration: none; border-radius: 6px;">Book now</a></p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">Thank you,<br>${offerDetails.tenant_name || 'The Bookati Team'}</p>
+      </div>
+    `;
+
+  const smtpSettings = await getSmtpSettingsFromDb(tenantId);
+
+  if (!smtpSettings) {
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  const transporter = await createTransporterFromDb(tenantId);
+
+  if (!transporter) {
+    return { success: false, error: 'Failed to create email transporter' };
+  }
+
+  try {
+    await transporter.sendMail({
+      from: `"${offerDetails.tenant_name || 'Bookati'}" <${smtpSettings.user}>`,
+      to: email,
+      subject,
+      html,
+    });
+    console.log(`[EmailService] ✅ Waitlist offer email sent to ${email}`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[EmailService] ❌ Waitlist offer email sending error:', error.message);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Send a gift card PDF to its recipient
+ */
+export async function sendGiftCardEmail(
+  email: string,
+  pdfBuffer: Buffer,
+  tenantId: string,
+  giftCardDetails: {
+    code: string;
+    amount: string;
+    caption: string;
+    tenant_name?: string;
+    tenant_name_ar?: string;
+  },
+  language: 'en' | 'ar' = 'en'
+): Promise<{ success: boolean; error?: string }> {
+  const subject = language === 'ar'
+    ? 'لقد تلقيت بطاقة هدية - You received a gift card'
+    : 'You received a gift card';
+
+  const html = language === 'ar'
+    ? `
+      <div dir="rtl" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">بطاقة هدية بقيمة ${giftCardDetails.amount} ريال</h2>
+        <p>${giftCardDetails.caption}</p>
+        <p style="font-size: 20px; font-family: monospace; letter-spacing: 2px;"><strong>${giftCardDetails.code}</strong></p>
+        <p>استخدم الرمز عند الدفع أو في الاستقبال. بطاقة الهدية مرفقة.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">شكراً لك،<br>${giftCardDetails.tenant_name_ar || giftCardDetails.tenant_name || 'فريق Bookati'}</p>
+      </div>
+    `
+    : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">A ${giftCardDetails.amount} SAR gift card</h2>
+        <p>${giftCardDetails.caption}</p>
+        <p style="font-size: 20px; font-family: monospace; letter-spacing: 2px;"><strong>${giftCardDetails.code}</strong></p>
+        <p>Use the code at checkout or at the reception. Your gift card is attached.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">Thank you,<br>${giftCardDetails.tenant_name || 'The Bookati Team'}</p>
+      </div>
+    `;
+
+  const smtpSettings = await getSmtpSettingsFromDb(tenantId);
+
+  if (!smtpSettings) {
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  const transporter = await createTransporterFromDb(tenantId);
+
+  if (!transporter) {
+    return { success: false, error: 'Failed to create email transporter' };
+  }
+
+  try {
+    await transporter.sendMail({
+      from: `"${giftCardDetails.tenant_name || 'Bookati'}" <${smtpSettings.user}>`,
+      to: email,
+      subject,
+      html,
+      attachments: [{
+        filename: `gift_card_${giftCardDetails.code}.pdf`,
+        content: pdfBuffer,
+        contentType: 'application/pdf',
+      }],
+    });
+    console.log(`[EmailService] ✅ Gift card email sent to ${email}`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[EmailService] ❌ Gift card email sending error:', error.message);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Warn a customer that their package subscription expires soon
+ */
+export async function sendPackageExpiryEmail(
+  email: string,
+  tenantId: string,
+  packageDetails: {
+    package_name: string;
+    package_name_ar?: string | null;
+    expires_on: string;
+    remaining: string;
+    tenant_name?: string;
+    tenant_name_ar?: string;
+  },
+  language: 'en' | 'ar' = 'en'
+): Promise<{ success: boolean; error?: string }> {
+  const subject = language === 'ar'
+    ? 'باقتك تنتهي قريباً - Your package expires soon'
+    : 'Your package expires soon';
+
+  const html = language === 'ar'
+    ? `
+      <div dir="rtl" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">باقتك تنتهي قريباً</h2>
+        <p>تنتهي باقة <strong>${packageDetails.package_name_ar || packageDetails.package_name}</strong> في ${packageDetails.expires_on}.</p>
+        ${packageDetails.remaining ? `<p>المتبقي: ${packageDetails.remaining}</p>` : ''}
+        <p>احجز الخدمات المتبقية قبل انتهاء الباقة.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">شكراً لك،<br>${packageDetails.tenant_name_ar || packageDetails.tenant_name || 'فريق Bookati'}</p>
+      </div>
+    `
+    : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">Your package expires soon</h2>
+        <p>Your <strong>${packageDetails.package_name}</strong> package expires on ${packageDetails.expires_on}.</p>
+        ${packageDetails.remaining ? `<p>Left to use: ${packageDetails.remaining}</p>` : ''}
+        <p>Book the services you have left before it expires.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">Thank you,<br>${packageDetails.tenant_name || 'The Bookati Team'}</p>
+      </div>
+    `;
+
+  const smtpSettings = await getSmtpSettingsFromDb(tenantId);
+
+  if (!smtpSettings) {
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  const transporter = await createTransporterFromDb(tenantId);
+
+  if (!transporter) {
+    return { success: false, error: 'Failed to create email transporter' };
+  }
+
+  try {
+    await transporter.sendMail({
+      from: `"${packageDetails.tenant_name || 'Bookati'}" <${smtpSettings.user}>`,
+      to: email,
+      subject,
+      html,
+    });
+    console.log(`[EmailService] ✅ Package expiry email sent to ${email}`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[EmailService] ❌ Package expiry email sending error:', error.message);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Tell a customer that the business is closed at the time of their booking and ask them to reschedule
+ */
+export async function sendClosureNoticeEmail(
+  email: string,
+  tenantId: string,
+  closureDetails: {
+    closure_name: string;
+    closure_name_ar?: string | null;
+    service_name: string;
+    service_name_ar?: string | null;
+    slot_date: string;
+    start_time: string;
+    tenant_name?: string;
+    tenant_name_ar?: string;
+  },
+  language: 'en' | 'ar' = 'en'
+): Promise<{ success: boolean; error?: string }> {
+  const subject = language === 'ar'
+    ? 'يرجى تغيير موعد حجزك - Please reschedule your booking'
+    : 'Please reschedule your booking';
+
+  const html = language === 'ar'
+    ? `
+      <div dir="rtl" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">يرجى تغيير موعد حجزك</h2>
+        <p>نعتذر، سنكون مغلقين (${closureDetails.closure_name_ar || closureDetails.closure_name}) في موعد حجزك لخدمة <strong>${closureDetails.service_name_ar || closureDetails.service_name}</strong> بتاريخ ${closureDetails.slot_date} الساعة ${closureDetails.start_time}.</p>
+        <p>يمكنك اختيار موعد جديد من حسابك دون أي رسوم، أو التواصل معنا.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">شكراً لك،<br>${closureDetails.tenant_name_ar || closureDetails.tenant_name || 'فريق Bookati'}</p>
+      </div>
+    `
+    : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #2563eb;">Please reschedule your booking</h2>
+        <p>We're sorry, we will be closed (${closureDetails.closure_name}) at the time of your <strong>${closureDetails.service_name}</strong> booking on ${closureDetails.slot_date} at ${closureDetails.start_time}.</p>
+        <p>You can pick a new time from your account free of charge, or contact us.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #999; font-size: 12px;">Thank you,<br>${closureDetails.tenant_name || 'The Bookati Team'}</p>
+      </div>
+    `;
+
+  const smtpSettings = await getSmtpSettingsFromDb(tenantId);
+
+  if (!smtpSettings) {
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  const transporter = await createTransporterFromDb(tenantId);
+
+  if (!transporter) {
+    return { success: false, error: 'Failed to create email transporter' };
+  }
+
+  try {
+    await transporter.sendMail({
+      from: `"${closureDetails.tenant_name || 'Bookati'}" <${smtpSettings.user}>`,
+      to: email,
+      subject,
+      html,
+    });
+    console.log(`[EmailService] ✅ Closure notice email sent to ${email}`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[EmailService] ❌ Closure notice email sending error:', error.message);
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,252 @@
+import { PoolClient } from 'pg';
+import { query } from '../db';
+
+// Employee availability exceptions: time off (whole days), blocks (part of each day in a date
+// range) and recurring breaks. Slot generation skips them in SQL (employee_is_unavailable); slots
+// that already exist are closed here when an exception is added and reopened when it is removed.
+// Dates and times are tenant local, like slots and shifts.
+
+export class AvailabilityError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AvailabilityError';
+    this.status = status;
+  }
+}
+
+export type ExceptionKind = 'time_off' | 'block' | 'break';
+
+export const EXCEPTION_KINDS: ExceptionKind[] = ['time_off', 'block', 'break'];
+
+export interface ExceptionInput {
+  kind: ExceptionKind;
+  start_date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  days_of_week: number[] | null;
+  reason: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_RANGE_DAYS = 366;
+const MAX_REASON_LENGTH = 500;
+
+// Slot `sl` falls in exception `e`
+const SLOT_IN_EXCEPTION_SQL = `sl.slot_date >= e.start_date
+  AND (e.end_date IS NULL OR sl.slot_date <= e.end_date)
+  AND (e.days_of_week IS NULL OR EXTRACT(DOW FROM sl.slot_date)::integer = ANY(e.days_of_week))
+  AND (e.start_time IS NULL OR (e.start_time < sl.end_time AND sl.start_time < e.end_time))`;
+
+const EXCEPTION_COLUMNS = `e.id, e.tenant_id, e.employee_id, e.kind, e.reason, e.days_of_week,
+  to_char(e.start_date, 'YYYY-MM-DD') as start_date,
+  to_char(e.end_date, 'YYYY-MM-DD') as end_date,
+  to_char(e.start_time, 'HH24:MI') as start_time,
+  to_char(e.end_time, 'HH24:MI') as end_time,
+  e.created_by_user_id, e.created_at`;
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Validate an exception from the request body. Time off covers whole days; blocks and breaks
+ * need a start and end time. Only breaks repeat on days of the week and may be open-ended.
+ */
+export function validateException(body: any): ExceptionInput {
+  const kind = body?.kind as ExceptionKind;
+  if (!EXCEPTION_KINDS.includes(kind)) {
+    throw new AvailabilityError('kind must be time_off, block or break');
+  }
+
+  if (!isValidDate(body.start_date)) {
+    throw new AvailabilityError('start_date must be a date in YYYY-MM-DD format');
+  }
+  const endDate = body.end_date === undefined || body.end_date === null || body.end_date === '' ? null : body.end_date;
+  if (endDate === null && kind !== 'break') {
+    throw new AvailabilityError('end_date is required for time off and blocks');
+  }
+  if (endDate !== null) {
+    if (!isValidDate(endDate)) {
+      throw new AvailabilityError('end_date must be a date in YYYY-MM-DD format');
+    }
+    const days = (Date.parse(endDate) - Date.parse(body.start_date)) / 86400000;
+    if (days < 0) {
+      throw new AvailabilityError('start_date must be on or before end_date');
+    }
+    if (kind !== 'break' && days >= MAX_RANGE_DAYS) {
+      throw new AvailabilityError(`An exception can cover at most ${MAX_RANGE_DAYS} days`);
+    }
+  }
+
+  let startTime: string | null = null;
+  let endTime: string | null = null;
+  if (kind !== 'time_off') {
+    if (!TIME_PATTERN.test(body.start_time ?? '') || !TIME_PATTERN.test(body.end_time ?? '')) {
+      throw new AvailabilityError('start_time and end_time must be times in HH:MM format');
+    }
+    if (body.start_time >= body.end_time) {
+      throw new AvailabilityError('start_time must be before end_time');
+    }
+    startTime = body.start_time;
+    endTime = body.end_time;
+  }
+
+  let daysOfWeek: number[] | null = null;
+  if (kind === 'break' && Array.isArray(body.days_of_week) && body.days_of_week.length > 0) {
+    if (!body.days_of_week.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)) {
+      throw new AvailabilityError('days_of_week must contain days 0 (Sunday) to 6 (Saturday)');
+    }
+    daysOfWeek = [...new Set<number>(body.days_of_week)].sort();
+  }
+
+  const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+  if (reason && reason.length > MAX_REASON_LENGTH) {
+    throw new AvailabilityError(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+  }
+
+  return {
+    kind,
+    start_date: body.start_date,
+    end_date: endDate,
+    start_time: startTime,
+    end_time: endTime,
+    days_of_week: daysOfWeek,
+    reason,
+  };
+}
+
+async function assertEmployeeInTenant(employeeId: string, tenantId: string) {
+  const result = await query('SELECT id FROM users WHERE id = $1 AND tenant_id = $2', [employeeId, tenantId]);
+  if (result.rows.length === 0) {
+    throw new AvailabilityError('Employee not found', 404);
+  }
+}
+
+/**
+ * The employee's exceptions, most recent first
+ */
+export async function listExceptions(employeeId: string, tenantId: string) {
+  await assertEmployeeInTenant(employeeId, tenantId);
+  const result = await query(
+    `SELECT ${EXCEPTION_COLUMNS}
+     FROM employee_availability_exceptions e
+     WHERE e.employee_id = $1 AND e.tenant_id = $2
+     ORDER BY e.start_date DESC, e.start_time NULLS FIRST`,
+    [employeeId, tenantId]
+  );
+  return result.rows;
+}
+
+/**
+ * Upcoming pending, confirmed or checked-in bookings of the employee that fall in the exception,
+ * so staff can reassign or reschedule them
+ */
+export async function findClashingBookings(exceptionId: string, tenantId: string) {
+  const result = await query(
+    `SELECT b.id, b.customer_name, b.customer_phone, b.visitor_count, b.status, b.service_id,
+            s.name as service_name, s.name_ar as service_name_ar,
+            to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date,
+            to_char(sl.start_time, 'HH24:MI') as start_time,
+            to_char(sl.end_time, 'HH24:MI') as end_time
+     FROM employee_availability_exceptions e
+     JOIN tenants t ON e.tenant_id = t.id
+     JOIN bookings b ON b.tenant_id = e.tenant_id
+     JOIN slots sl ON b.slot_id = sl.id
+     JOIN services s ON b.service_id = s.id
+     WHERE e.id = $1 AND e.tenant_id = $2
+       AND (b.employee_id = e.employee_id OR (b.employee_id IS NULL AND sl.employee_id = e.employee_id))
+       AND b.status IN ('pending', 'confirmed', 'checked_in')
+       AND (sl.slot_date + sl.end_time) > (now() AT TIME ZONE COALESCE(t.tenant_time_zone, 'Asia/Riyadh'))
+       AND ${SLOT_IN_EXCEPTION_SQL}
+     ORDER BY sl.slot_date, sl.start_time`,
+    [exceptionId, tenantId]
+  );
+  return result.rows;
+}
+
+/**
+ * Add an exception and close the employee's existing slots that fall in it.
+ * Returns the exception and how many slots were closed.
+ */
+export async function createException(
+  client: PoolClient,
+  req: { employeeId: string; tenantId: string; createdBy: string; input: ExceptionInput }
+) {
+  await assertEmployeeInTenant(req.employeeId, req.tenantId);
+  const { input } = req;
+
+  const inserted = await client.query(
+    `INSERT INTO employee_availability_exceptions
+       (tenant_id, employee_id, kind, start_date, end_date, start_time, end_time, days_of_week, reason, created_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING id`,
+    [
+      req.tenantId,
+      req.employeeId,
+      input.kind,
+      input.start_date,
+      input.end_date,
+      input.start_time,
+      input.end_time,
+      input.days_of_week,
+      input.reason,
+      req.createdBy,
+    ]
+  );
+  const exceptionId = inserted.rows[0].id;
+
+  const closed = await client.query(
+    `UPDATE slots sl
+     SET is_available = false, blocked_by_exception_id = e.id
+     FROM employee_availability_exceptions e
+     WHERE e.id = $1
+       AND sl.employee_id = e.employee_id
+       AND sl.is_available = true
+       AND ${SLOT_IN_EXCEPTION_SQL}`,
+    [exceptionId]
+  );
+
+  const result = await client.query(
+    `SELECT ${EXCEPTION_COLUMNS} FROM employee_availability_exceptions e WHERE e.id = $1`,
+    [exceptionId]
+  );
+  return { exception: result.rows[0], slotsClosed: closed.rowCount ?? 0 };
+}
+
+/**
+ * Remove an exception and reopen the slots it closed, unless another exception or a tenant closure
+ * still covers them.
+ * Returns the removed exception for the audit log.
+ */
+export async function deleteException(client: PoolClient, exceptionId: string, tenantId: string) {
+  const existing = await client.query(
+    `SELECT ${EXCEPTION_COLUMNS}
+     FROM employee_availability_exceptions e
+     WHERE e.id = $1 AND e.tenant_id = $2
+     FOR UPDATE`,
+    [exceptionId, tenantId]
+  );
+  if (existing.rows.length === 0) {
+    throw new AvailabilityError('Exception not found', 404);
+  }
+
+  const blocked = await client.query(
+    'SELECT id FROM slots WHERE blocked_by_exception_id = $1 FOR UPDATE',
+    [exceptionId]
+  );
+  const slotIds = blocked.rows.map((row: any) => row.id);
+
+  await client.query('DELETE FROM employee_availability_exceptions WHERE id = $1', [exceptionId]);
+
+  let slotsReopened = 0;
+  if (slotIds.length > 0) {
+    const reopened = await client.query('SELECT refresh_closed_slots($1::uuid[]) as reopened', [slotIds]);
+    slotsReopened = reopened.rows[0].reopened;
+  }
+
+  return { exception: existing.rows[0], slotsReopened };
+}
@@ -0,0 +1,233 @@
+import { PoolClient } from 'pg';
+import { query } from '../db';
+
+// The employee portal: an employee's own bookings and shifts, and the attendance actions they
+// can take on bookings assigned to them. Slot dates and times are stored in the tenant's local
+// time (tenant_time_zone), so "today" is resolved in that zone.
+
+export class EmployeePortalError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'EmployeePortalError';
+    this.status = status;
+  }
+}
+
+export type AttendanceAction = 'check_in' | 'complete' | 'no_show';
+
+export const ATTENDANCE_ACTIONS: AttendanceAction[] = ['check_in', 'complete', 'no_show'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SCHEDULE_DAYS = 31;
+const MAX_NOTE_LENGTH = 2000;
+
+// Bookings count as the employee's when assigned to them, or when unassigned on one of their slots
+const ASSIGNED_TO_EMPLOYEE_SQL = `(b.employee_id = $1 OR (b.employee_id IS NULL AND sl.employee_id = $1))`;
+
+async function getTenantTimeZone(tenantId: string): Promise<string> {
+  const result = await query('SELECT tenant_time_zone FROM tenants WHERE id = $1', [tenantId]);
+  if (result.rows.length === 0) {
+    throw new EmployeePortalError('Tenant not found', 404);
+  }
+  return result.rows[0].tenant_time_zone || 'Asia/Riyadh';
+}
+
+/**
+ * Bookings assigned to the employee on slots between start and end (YYYY-MM-DD, inclusive;
+ * both default to today in the tenant's time zone), with their internal notes.
+ */
+export async function getEmployeeSchedule(employeeId: string, tenantId: string, start?: string, end?: string) {
+  for (const date of [start, end]) {
+    if (date !== undefined && (!DATE_PATTERN.test(date) || isNaN(Date.parse(date)))) {
+      throw new EmployeePortalError('start and end must be dates in YYYY-MM-DD format');
+    }
+  }
+
+  const timeZone = await getTenantTimeZone(tenantId);
+  const todayResult = await query(`SELECT to_char((now() AT TIME ZONE $1)::date, 'YYYY-MM-DD') as today`, [timeZone]);
+  const today: string = todayResult.rows[0].today;
+  const rangeStart = start || today;
+  const rangeEnd = end || start || today;
+
+  const days = (Date.parse(rangeEnd) - Date.parse(rangeStart)) / 86400000;
+  if (days < 0) {
+    throw new EmployeePortalError('start must be on or before end');
+  }
+  if (days >= MAX_SCHEDULE_DAYS) {
+    throw new EmployeePortalError(`The schedule can show at most ${MAX_SCHEDULE_DAYS} days`);
+  }
+
+  const bookingsResult = await query(
+    `SELECT b.id, b.customer_name, b.customer_phone, b.visitor_count, b.status, b.payment_status,
+            b.notes, b.checked_in_at, b.no_show_at, b.total_price,
+            s.name as service_name, s.name_ar as service_name_ar,
+            to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date,
+            to_char(sl.start_time, 'HH24:MI') as start_time,
+            to_char(sl.end_time, 'HH24:MI') as end_time,
+            ((sl.slot_date + sl.start_time) AT TIME ZONE $4) <= now() as has_started
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     JOIN services s ON b.service_id = s.id
+     WHERE b.tenant_id = $2
+       AND ${ASSIGNED_TO_EMPLOYEE_SQL}
+       AND sl.slot_date BETWEEN $3::date AND $5::date
+     ORDER BY sl.slot_date, sl.start_time, b.customer_name`,
+    [employeeId, tenantId, rangeStart, timeZone, rangeEnd]
+  );
+
+  const bookingIds = bookingsResult.rows.map((row: any) => row.id);
+  const notesResult = bookingIds.length === 0 ? { rows: [] } : await query(
+    `SELECT n.id, n.booking_id, n.note, n.created_at, n.author_user_id, u.full_name as author_name
+     FROM booking_notes n
+     LEFT JOIN users u ON n.author_user_id = u.id
+     WHERE n.booking_id = ANY($1::uuid[])
+     ORDER BY n.created_at`,
+    [bookingIds]
+  );
+
+  return {
+    time_zone: timeZone,
+    today,
+    start: rangeStart,
+    end: rangeEnd,
+    bookings: bookingsResult.rows.map((booking: any) => ({
+      ...booking,
+      internal_notes: notesResult.rows.filter((note: any) => note.booking_id === booking.id),
+    })),
+  };
+}
+
+/**
+ * The employee's shifts over the next `days` days (tenant local dates and times), from the
+ * services and shifts they are assigned to in employee_services.
+ */
+export async function getUpcomingShifts(employeeId: string, tenantId: string, days = 14) {
+  const timeZone = await getTenantTimeZone(tenantId);
+  const result = await query(
+    `WITH days AS (
+       SELECT generate_series(
+         (now() AT TIME ZONE $3)::date,
+         (now() AT TIME ZONE $3)::date + ($4::int - 1),
+         interval '1 day'
+       )::date as day
+     )
+     SELECT DISTINCT to_char(days.day, 'YYYY-MM-DD') as date,
+            to_char(sh.start_time_utc, 'HH24:MI') as start_time,
+            to_char(sh.end_time_utc, 'HH24:MI') as end_time,
+            sh.id as shift_id, s.id as service_id, s.name as service_name, s.name_ar as service_name_ar
+     FROM employee_services es
+     JOIN shifts sh ON es.shift_id = sh.id
+     JOIN services s ON sh.service_id = s.id
+     JOIN days ON EXTRACT(DOW FROM days.day)::integer = ANY(sh.days_of_week)
+     WHERE es.employee_id = $1
+       AND es.tenant_id = $2
+       AND sh.is_active = true
+       AND (days.day > (now() AT TIME ZONE $3)::date OR sh.end_time_utc > (now() AT TIME ZONE $3)::time)
+     ORDER BY date, start_time`,
+    [employeeId, tenantId, timeZone, days]
+  );
+  return { time_zone: timeZone, shifts: result.rows };
+}
+
+async function getAssignedBookingForUpdate(client: PoolClient, employeeId: string, tenantId: string, bookingId: string, timeZone: string) {
+  const result = await client.query(
+    `SELECT b.*, ((sl.slot_date + sl.start_time) AT TIME ZONE $4) <= now() as has_started
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     WHERE b.id = $3 AND b.tenant_id = $2 AND ${ASSIGNED_TO_EMPLOYEE_SQL}
+     FOR UPDATE OF b`,
+    [employeeId, tenantId, bookingId, timeZone]
+  );
+  if (result.rows.length === 0) {
+    throw new EmployeePortalError('Booking not found', 404);
+  }
+  return result.rows[0];
+}
+
+/**
+ * Check a customer in, complete a visit, or mark a no-show on one of the employee's bookings.
+ * Returns the booking before and after for the audit log.
+ */
+export async function updateBookingAttendance(
+  client: PoolClient,
+  req: { employeeId: string; tenantId: string; bookingId: string; action: AttendanceAction }
+) {
+  const timeZone = await getTenantTimeZone(req.tenantId);
+  const booking = await getAssignedBookingForUpdate(client, req.employeeId, req.tenantId, req.bookingId, timeZone);
+  const { has_started: hasStarted, ...before } = booking;
+
+  let result;
+  switch (req.action) {
+    case 'check_in':
+      if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+        throw new EmployeePortalError(`A ${booking.status} booking cannot be checked in`);
+      }
+      result = await client.query(
+        `UPDATE bookings
+         SET status = 'checked_in', checked_in_at = now(), checked_in_by_user_id = $2,
+             no_show_at = NULL, no_show_marked_by = NULL
+         WHERE id = $1
+         RETURNING *`,
+        [booking.id, req.employeeId]
+      );
+      break;
+
+    case 'complete':
+      if (booking.status !== 'confirmed' && booking.status !== 'checked_in') {
+        throw new EmployeePortalError(`A ${booking.status} booking cannot be completed`);
+      }
+      result = await client.query(
+        `UPDATE bookings SET status = 'completed', no_show_at = NULL, no_show_marked_by = NULL WHERE id = $1 RETURNING *`,
+        [booking.id]
+      );
+      break;
+
+    case 'no_show':
+      if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+        throw new EmployeePortalError(`A ${booking.status} booking cannot be marked as a no-show`);
+      }
+      if (!hasStarted) {
+        throw new EmployeePortalError('A booking can only be marked as a no-show once its time has started');
+      }
+      // The booking stays pending/confirmed; a confirmed one gives its seats back (restore_slot_capacity_on_booking)
+      result = await client.query(
+        `UPDATE bookings SET no_show_at = now(), no_show_marked_by = $2 WHERE id = $1 RETURNING *`,
+        [booking.id, req.employeeId]
+      );
+      break;
+
+    default:
+      throw new EmployeePortalError('action must be check_in, complete or no_show');
+  }
+
+  return { before, after: result.rows[0] };
+}
+
+/**
+ * Add an internal note to one of the employee's bookings
+ */
+export async function addBookingNote(req: { employeeId: string; tenantId: string; bookingId: string; note: unknown }) {
+  const note = typeof req.note === 'string' ? req.note.trim() : '';
+  if (!note) {
+    throw new EmployeePortalError('note is required');
+  }
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new EmployeePortalError(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const result = await query(
+    `INSERT INTO booking_notes (booking_id, tenant_id, author_user_id, note)
+     SELECT b.id, b.tenant_id, $1::uuid, $4::text
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     WHERE b.id = $3 AND b.tenant_id = $2 AND ${ASSIGNED_TO_EMPLOYEE_SQL}
+     RETURNING *`,
+    [req.employeeId, req.tenantId, req.bookingId, note]
+  );
+  if (result.rows.length === 0) {
+    throw new EmployeePortalError('Booking not found', 404);
+  }
+  return result.rows[0];
+}
@@ -0,0 +1,323 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { query } from '../db';
+
+// Exports of a tenant's bookings, customers and payments for accounting, as CSV or XLSX.
+// Customers can export their own bookings and payments (ExportOptions.customerId).
+// Rows are read in keyset-paged batches and written to the output as they arrive, so large
+// tenants never hold a whole export in memory. Dates filter and display in the tenant's time zone.
+
+export class ExportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ExportError';
+    this.status = status;
+  }
+}
+
+export type ExportResource = 'bookings' | 'customers' | 'payments';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_RESOURCES: ExportResource[] = ['bookings', 'customers', 'payments'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+export interface ExportFilters {
+  start?: string; // YYYY-MM-DD, inclusive
+  end?: string; // YYYY-MM-DD, inclusive
+  status?: string; // bookings: booking status; payments: payment status
+  serviceId?: string;
+}
+
+export interface ExportOptions {
+  tenantId: string;
+  // Limit the export to one customer's rows (customer users exporting their own history)
+  customerId?: string;
+  resource: ExportResource;
+  format: ExportFormat;
+  filters: ExportFilters;
+  language: 'en' | 'ar';
+}
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  headerAr: string;
+  type?: 'number' | 'money';
+  width?: number;
+}
+
+interface ExportDefinition {
+  columns: ExportColumn[];
+  // Base SELECT for one batch; $1 = tenant, $2 = time zone.
+  // Must select `cursor_created_at` (created_at as text) and `cursor_id` for paging.
+  select: (language: ExportOptions['language']) => string;
+  alias: string;
+  filters: (filters: ExportFilters, addCondition: (sql: string, value: any) => void) => void;
+  // Condition limiting rows to one customer user; exports without it are not available to customers
+  customer?: string;
+}
+
+const BATCH_SIZE = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const localName = (column: string, language: ExportOptions['language']) =>
+  language === 'ar' ? `COALESCE(NULLIF(${column}_ar, ''), ${column})` : column;
+const localTime = (column: string) => `to_char(${column} AT TIME ZONE $2, 'YYYY-MM-DD HH24:MI')`;
+
+const EXPORTS: Record<ExportResource, ExportDefinition> = {
+  bookings: {
+    alias: 'b',
+    columns: [
+      { key: 'id', header: 'Booking ID', headerAr: 'رقم الحجز', width: 38 },
+      { key: 'created_at', header: 'Booked at', headerAr: 'تاريخ الحجز', width: 18 },
+      { key: 'slot_date', header: 'Visit date', headerAr: 'تاريخ الزيارة', width: 12 },
+      { key: 'start_time', header: 'Time', headerAr: 'الوقت', width: 8 },
+      { key: 'customer_name', header: 'Customer', headerAr: 'العميل', width: 24 },
+      { key: 'customer_phone', header: 'Phone', headerAr: 'الجوال', width: 16 },
+      { key: 'customer_email', header: 'Email', headerAr: 'البريد الإلكتروني', width: 26 },
+      { key: 'service_name', header: 'Service', headerAr: 'الخدمة', width: 24 },
+      { key: 'offer_name', header: 'Offer', headerAr: 'العرض', width: 20 },
+      { key: 'employee_name', header: 'Employee', headerAr: 'الموظف', width: 20 },
+      { key: 'visitor_count', header: 'Visitors', headerAr: 'عدد الزوار', type: 'number', width: 10 },
+      { key: 'total_price', header: 'Total', headerAr: 'الإجمالي', type: 'money', width: 12 },
+      { key: 'discount_amount', header: 'Discount', headerAr: 'الخصم', type: 'money', width: 12 },
+      { key: 'status', header: 'Status', headerAr: 'الحالة', width: 12 },
+      { key: 'payment_status', header: 'Payment status', headerAr: 'حالة الدفع', width: 14 },
+      { key: 'zoho_invoice_id', header: 'Zoho invoice ID', headerAr: 'رقم فاتورة Zoho', width: 22 },
+    ],
+    select: language => `SELECT b.id, ${localTime('b.created_at')} as created_at,
+                    to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date, to_char(sl.start_time, 'HH24:MI') as start_time,
+                    b.customer_name, b.customer_phone, b.customer_email,
+                    ${localName('s.name', language)} as service_name,
+                    ${localName('o.name', language)} as offer_name,
+                    ${localName('u.full_name', language)} as employee_name,
+                    b.visitor_count, b.total_price, COALESCE(b.discount_amount, 0) as discount_amount,
+                    b.status, b.payment_status, b.zoho_invoice_id,
+                    b.created_at::text as cursor_created_at, b.id as cursor_id
+             FROM bookings b
+             JOIN services s ON b.service_id = s.id
+             LEFT JOIN slots sl ON b.slot_id = sl.id
+             LEFT JOIN service_offers o ON b.offer_id = o.id
+             LEFT JOIN users u ON b.employee_id = u.id`,
+    filters: (filters, addCondition) => {
+      if (filters.status) addCondition('b.status = ?', filters.status);
+      if (filters.serviceId) addCondition('b.service_id = ?', filters.serviceId);
+    },
+    customer: 'b.customer_id = ?',
+  },
+
+  customers: {
+    alias: 'c',
+    columns: [
+      { key: 'id', header: 'Customer ID', headerAr: 'رقم العميل', width: 38 },
+      { key: 'name', header: 'Name', headerAr: 'الاسم', width: 24 },
+      { key: 'phone', header: 'Phone', headerAr: 'الجوال', width: 16 },
+      { key: 'email', header: 'Email', headerAr: 'البريد الإلكتروني', width: 26 },
+      { key: 'total_bookings', header: 'Bookings', headerAr: 'عدد الحجوزات', type: 'number', width: 10 },
+      { key: 'total_spent', header: 'Total spent', headerAr: 'إجمالي الإنفاق', type: 'money', width: 12 },
+      { key: 'wallet_balance', header: 'Wallet balance', headerAr: 'رصيد المحفظة', type: 'money', width: 12 },
+      { key: 'last_booking_at', header: 'Last booking', headerAr: 'آخر حجز', width: 18 },
+      { key: 'created_at', header: 'Customer since', headerAr: 'عميل منذ', width: 18 },
+    ],
+    select: () => `SELECT c.id, c.name, c.phone, c.email, c.total_bookings,
+                    COALESCE((
+                      SELECT SUM(cb.total_price) FROM bookings cb
+                      WHERE cb.customer_id = c.id AND cb.status != 'cancelled'
+                    ), 0) as total_spent,
+                    COALESCE(c.wallet_balance, 0) as wallet_balance,
+                    ${localTime('c.last_booking_at')} as last_booking_at,
+                    ${localTime('c.created_at')} as created_at,
+                    c.created_at::text as cursor_created_at, c.id as cursor_id
+             FROM customers c`,
+    filters: (filters, addCondition) => {
+      // Customers who booked the service
+      if (filters.serviceId) {
+        addCondition('EXISTS (SELECT 1 FROM bookings sb WHERE sb.customer_id = c.id AND sb.service_id = ?)', filters.serviceId);
+      }
+    },
+  },
+
+  payments: {
+    alias: 'p',
+    columns: [
+      { key: 'id', header: 'Payment ID', headerAr: 'رقم الدفعة', width: 38 },
+      { key: 'created_at', header: 'Date', headerAr: 'التاريخ', width: 18 },
+      { key: 'purpose', header: 'For', headerAr: 'مقابل', width: 12 },
+      { key: 'booking_id', header: 'Booking ID', headerAr: 'رقم الحجز', width: 38 },
+      { key: 'customer_name', header: 'Customer', headerAr: 'العميل', width: 24 },
+      { key: 'service_name', header: 'Service / package', headerAr: 'الخدمة / الباقة', width: 24 },
+      { key: 'amount', header: 'Amount', headerAr: 'المبلغ', type: 'money', width: 12 },
+      { key: 'currency', header: 'Currency', headerAr: 'العملة', width: 8 },
+      { key: 'status', header: 'Status', headerAr: 'الحالة', width: 12 },
+      { key: 'provider', header: 'Provider', headerAr: 'مزود الدفع', width: 14 },
+      { key: 'gateway_txn_id', header: 'Transaction ID', headerAr: 'رقم العملية', width: 26 },
+      { key: 'zoho_invoice_id', header: 'Zoho invoice ID', headerAr: 'رقم فاتورة Zoho', width: 22 },
+    ],
+    select: language => `SELECT p.id, ${localTime('p.created_at')} as created_at,
+                    CASE
+                      WHEN p.booking_id IS NOT NULL THEN 'booking'
+                      WHEN p.gift_card_id IS NOT NULL THEN 'gift_card'
+                      ELSE 'package'
+                    END as purpose,
+                    p.booking_id,
+                    COALESCE(b.customer_name, gc.purchaser_name, pc.name) as customer_name,
+                    COALESCE(${localName('s.name', language)}, ${localName('sp.name', language)}) as service_name,
+                    p.amount, p.currency, p.status, p.provider, p.gateway_txn_id,
+                    COALESCE(b.zoho_invoice_id, ps.zoho_invoice_id) as zoho_invoice_id,
+                    p.created_at::text as cursor_created_at, p.id as cursor_id
+             FROM payments p
+             LEFT JOIN bookings b ON p.booking_id = b.id
+             LEFT JOIN services s ON b.service_id = s.id
+             LEFT JOIN gift_cards gc ON p.gift_card_id = gc.id
+             LEFT JOIN package_subscriptions ps ON p.package_subscription_id = ps.id
+             LEFT JOIN service_packages sp ON ps.package_id = sp.id
+             LEFT JOIN customers pc ON ps.customer_id = pc.id`,
+    filters: (filters, addCondition) => {
+      if (filters.status) addCondition('p.status = ?', filters.status);
+      if (filters.serviceId) addCondition('b.service_id = ?', filters.serviceId);
+    },
+    // Booking payments only
+    customer: 'b.customer_id = ?',
+  },
+};
+
+/**
+ * Check query-string filters; dates must be YYYY-MM-DD and in order
+ */
+export function validateExportFilters(filters: ExportFilters) {
+  for (const date of [filters.start, filters.end]) {
+    if (date !== undefined && (!DATE_PATTERN.test(date) || isNaN(Date.parse(date)))) {
+      throw new ExportError('start and end must be dates in YYYY-MM-DD format');
+    }
+  }
+  if (filters.start && filters.end && filters.start > filters.end) {
+    throw new ExportError('start must be on or before end');
+  }
+}
+
+/**
+ * Whether customers may export this resource (their own rows only)
+ */
+export function isCustomerExport(resource: ExportResource) {
+  return !!EXPORTS[resource].customer;
+}
+
+export function exportFileName(resource: ExportResource, format: ExportFormat, filters: ExportFilters) {
+  const range = [filters.start, filters.end].filter(Boolean).join('_to_');
+  return `${resource}${range ? `_${range}` : ''}.${format}`;
+}
+
+async function* exportRows(options: ExportOptions, timeZone: string) {
+  const definition = EXPORTS[options.resource];
+  const { alias } = definition;
+  const conditions = [`${alias}.tenant_id = $1`];
+  const params: any[] = [options.tenantId, timeZone];
+  const addCondition = (sql: string, value: any) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (options.filters.start) {
+    addCondition(`${alias}.created_at >= (?::date)::timestamp AT TIME ZONE $2`, options.filters.start);
+  }
+  if (options.filters.end) {
+    addCondition(`${alias}.created_at < (?::date + 1)::timestamp AT TIME ZONE $2`, options.filters.end);
+  }
+  definition.filters(options.filters, addCondition);
+  if (options.customerId) {
+    addCondition(definition.customer!, options.customerId);
+  }
+
+  let cursor: { createdAt: string; id: string } | null = null;
+  for (;;) {
+    const batchParams = [...params];
+    let where = conditions.join(' AND ');
+    if (cursor) {
+      batchParams.push(cursor.createdAt, cursor.id);
+      where += ` AND (${alias}.created_at, ${alias}.id) > ($${batchParams.length - 1}::timestamptz, $${batchParams.length}::uuid)`;
+    }
+
+    const result = await query(
+      `${definition.select(options.language)}
+       WHERE ${where}
+       ORDER BY ${alias}.created_at, ${alias}.id
+       LIMIT ${BATCH_SIZE}`,
+      batchParams
+    );
+
+    for (const row of result.rows) {
+      yield row;
+    }
+    if (result.rows.length < BATCH_SIZE) return;
+
+    const last = result.rows[result.rows.length - 1];
+    cursor = { createdAt: last.cursor_created_at, id: last.cursor_id };
+  }
+}
+
+function cellValue(column: ExportColumn, value: any) {
+  if (value === null || value === undefined) return null;
+  if (column.type) return parseFloat(value);
+  return String(value);
+}
+
+function csvField(value: string | number | null) {
+  if (value === null) return '';
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating customer-entered text as a formula
+  if (typeof value === 'string' && /^[=@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function write(output: Writable, chunk: string) {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+}
+
+/**
+ * Write an export to the output stream (usually the HTTP response). CSV is UTF-8 with a byte
+ * order mark so Excel opens Arabic text correctly; XLSX sheets are right-to-left in Arabic.
+ */
+export async function writeExport(output: Writable, options: ExportOptions) {
+  const tenantResult = await query('SELECT tenant_time_zone FROM tenants WHERE id = $1', [options.tenantId]);
+  if (tenantResult.rows.length === 0) {
+    throw new ExportError('Tenant not found', 404);
+  }
+  const timeZone = tenantResult.rows[0].tenant_time_zone || 'Asia/Riyadh';
+  const { columns } = EXPORTS[options.resource];
+  const headers = columns.map(column => (options.language === 'ar' ? column.headerAr : column.header));
+
+  if (options.format === 'csv') {
+    await write(output, '\uFEFF' + headers.map(csvField).join(',') + '\r\n');
+    for await (const row of exportRows(options, timeZone)) {
+      await write(output, columns.map(column => csvField(cellValue(column, row[column.key]))).join(',') + '\r\n');
+    }
+    output.end();
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet(options.resource, {
+    views: [{ state: 'frozen', ySplit: 1, rightToLeft: options.language === 'ar' }],
+  });
+  worksheet.columns = columns.map((column, index) => ({
+    header: headers[index],
+    key: column.key,
+    width: column.width,
+    style: column.type === 'money' ? { numFmt: '#,##0.00' } : undefined,
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getRow(1).commit();
+
+  for await (const row of exportRows(options, timeZone)) {
+    worksheet.addRow(columns.map(column => cellValue(column, row[column.key]))).commit();
+  }
+  worksheet.commit();
+  await workbook.commit();
+}
@@ -0,0 +1,271 @@
+import { randomInt } from 'crypto';
+import { PoolClient } from 'pg';
+import { query } from '../db';
+import { generateGiftCardPDF } from './pdfService';
+import { sendWhatsAppDocument } from './whatsappService';
+import { getTenantWhatsAppConfig } from './ticketDeliveryService';
+import { sendGiftCardEmail } from './emailService';
+import { creditWallet, findOrCreateCustomer } from './walletService';
+
+export class GiftCardError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'GiftCardError';
+    this.status = status;
+  }
+}
+
+export const GIFT_CARD_MIN_AMOUNT = 10;
+export const GIFT_CARD_MAX_AMOUNT = 10000;
+// Cards expire a year after they are issued unless another date is given
+const DEFAULT_VALIDITY_DAYS = 365;
+// No 0/O or 1/I so codes can be read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface GiftCardRequest {
+  tenantId: string;
+  amount: number;
+  purchaserName?: string | null;
+  purchaserPhone?: string | null;
+  purchaserEmail?: string | null;
+  recipientName?: string | null;
+  recipientPhone?: string | null;
+  recipientEmail?: string | null;
+  message?: string | null;
+  language?: string;
+  expiresAt?: string | null;
+  purchasedByUserId?: string | null;
+  issuedByUserId?: string | null;
+}
+
+function toMoney(value: any): number {
+  return Math.round(parseFloat(value || '0') * 100) / 100;
+}
+
+/** Codes are matched case-insensitively, ignoring spaces */
+export function normalizeGiftCardCode(code: unknown): string {
+  return typeof code === 'string' ? code.replace(/\s+/g, '').toUpperCase() : '';
+}
+
+function generateGiftCardCode(): string {
+  const groups = Array.from({ length: 3 }, () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+  );
+  return `GC-${groups.join('-')}`;
+}
+
+/**
+ * Create a gift card. Cards sold online start as pending_payment and are activated by
+ * the payment service; cards sold at the desk are active straight away.
+ */
+export async function createGiftCard(
+  client: PoolClient,
+  request: GiftCardRequest,
+  status: 'pending_payment' | 'active'
+) {
+  const amount = toMoney(request.amount);
+  if (!(amount >= GIFT_CARD_MIN_AMOUNT && amount <= GIFT_CARD_MAX_AMOUNT)) {
+    throw new GiftCardError(`Gift card amount must be between ${GIFT_CARD_MIN_AMOUNT} and ${GIFT_CARD_MAX_AMOUNT}`);
+  }
+  if (!request.recipientPhone && !request.recipientEmail) {
+    throw new GiftCardError('A recipient phone number or email is required to deliver the gift card');
+  }
+
+  let expiresAt: Date;
+  if (request.expiresAt) {
+    expiresAt = new Date(request.expiresAt);
+    if (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      throw new GiftCardError('Expiry date must be in the future');
+    }
+  } else {
+    expiresAt = new Date(Date.now() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  // Codes are random; retry on the rare collision with an existing card
+  for (let attempt = 0; attempt < 5; attempt++) {
+    await client.query('SAVEPOINT gift_card_code');
+    try {
+      const result = await client.query(
+        `INSERT INTO gift_cards (
+          tenant_id, code, initial_amount, balance, status, expires_at,
+          purchaser_name, purchaser_phone, purchaser_email,
+          recipient_name, recipient_phone, recipient_email,
+          message, language, purchased_by_user_id, issued_by_user_id
+        ) VALUES ($1, $2, $3, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING *`,
+        [
+          request.tenantId,
+          generateGiftCardCode(),
+          amount,
+          status,
+          expiresAt,
+          request.purchaserName || null,
+          request.purchaserPhone || null,
+          request.purchaserEmail || null,
+          request.recipientName || null,
+          request.recipientPhone || null,
+          request.recipientEmail || null,
+          request.message || null,
+          request.language === 'ar' ? 'ar' : 'en',
+          request.purchasedByUserId || null,
+          request.issuedByUserId || null,
+        ]
+      );
+      await client.query('RELEASE SAVEPOINT gift_card_code');
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query('ROLLBACK TO SAVEPOINT gift_card_code');
+      if (error.code !== '23505') {
+        throw error;
+      }
+    }
+  }
+  throw new GiftCardError('Could not generate a unique gift card code, please try again', 500);
+}
+
+/**
+ * Redeem a gift card into the wallet of the customer with this phone number.
+ * The whole remaining balance moves to the wallet, where it can be spent fully or partially.
+ * Throws GiftCardError (in the request language) when the code cannot be redeemed.
+ */
+export async function redeemGiftCard(
+  client: PoolClient,
+  request: {
+    tenantId: string;
+    code: string;
+    customerPhone: string;
+    customerName?: string | null;
+    customerEmail?: string | null;
+    userId?: string | null;
+    language?: string;
+  }
+) {
+  const isArabic = request.language === 'ar';
+  const result = await client.query(
+    `SELECT * FROM gift_cards WHERE tenant_id = $1 AND code = $2 FOR UPDATE`,
+    [request.tenantId, normalizeGiftCardCode(request.code)]
+  );
+  const giftCard = result.rows[0];
+
+  if (!giftCard || giftCard.status === 'pending_payment' || giftCard.status === 'cancelled') {
+    throw new GiftCardError(isArabic ? 'رمز بطاقة الهدية غير صالح' : 'This gift card code is not valid', 404);
+  }
+  if (giftCard.status === 'redeemed' || toMoney(giftCard.balance) <= 0) {
+    throw new GiftCardError(isArabic ? 'تم استخدام بطاقة الهدية هذه بالفعل' : 'This gift card has already been redeemed', 409);
+  }
+  if (giftCard.status === 'expired' || (giftCard.expires_at && new Date(giftCard.expires_at) <= new Date())) {
+    throw new GiftCardError(isArabic ? 'انتهت صلاحية بطاقة الهدية' : 'This gift card has expired');
+  }
+
+  const customer = await findOrCreateCustomer(client, request.tenantId, request.customerPhone, {
+    name: request.customerName,
+    email: request.customerEmail,
+  });
+  const amount = toMoney(giftCard.balance);
+
+  const transaction = await creditWallet(client, {
+    tenantId: request.tenantId,
+    customerId: customer.id,
+    amount,
+    source: 'gift_card',
+    giftCardId: giftCard.id,
+    note: giftCard.code,
+    createdByUserId: request.userId,
+  });
+
+  const updated = await client.query(
+    `UPDATE gift_cards
+     SET balance = 0, status = 'redeemed', redeemed_by_customer_id = $1, redeemed_at = now(), updated_at = now()
+     WHERE id = $2
+     RETURNING *`,
+    [customer.id, giftCard.id]
+  );
+
+  return {
+    gift_card: updated.rows[0],
+    customer_id: customer.id,
+    amount,
+    wallet_balance: toMoney(transaction.balance_after),
+  };
+}
+
+/**
+ * Mark active cards past their expiry date as expired. Returns how many were expired.
+ */
+export async function expireGiftCards(): Promise<number> {
+  const result = await query(
+    `UPDATE gift_cards
+     SET status = 'expired', updated_at = now()
+     WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= now()`,
+    []
+  );
+  return result.rowCount || 0;
+}
+
+/**
+ * Generate the gift card PDF and send it to the recipient over WhatsApp and email
+ */
+export async function deliverGiftCard(giftCardId: string): Promise<{ whatsapp: boolean; email: boolean }> {
+  const result = await query(
+    `SELECT g.*, t.name as tenant_name, t.name_ar as tenant_name_ar
+     FROM gift_cards g
+     JOIN tenants t ON g.tenant_id = t.id
+     WHERE g.id = $1`,
+    [giftCardId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error(`Gift card ${giftCardId} not found`);
+  }
+
+  const giftCard = result.rows[0];
+  if (giftCard.status !== 'active') {
+    throw new GiftCardError(`Gift card cannot be delivered (status: ${giftCard.status})`, 409);
+  }
+
+  const language: 'en' | 'ar' = giftCard.language === 'ar' ? 'ar' : 'en';
+  const amount = toMoney(giftCard.initial_amount).toFixed(2);
+  const from = giftCard.purchaser_name || null;
+  const caption = language === 'ar'
+    ? `${from ? `${from} أرسل لك` : 'لقد تلقيت'} بطاقة هدية بقيمة ${amount} ريال من ${giftCard.tenant_name_ar || giftCard.tenant_name}. الرمز: ${giftCard.code}`
+    : `${from ? `${from} sent you` : 'You received'} a ${amount} SAR gift card from ${giftCard.tenant_name}. Code: ${giftCard.code}`;
+
+  const pdfBuffer = await generateGiftCardPDF(giftCard.id, language);
+  const delivered = { whatsapp: false, email: false };
+
+  if (giftCard.recipient_phone) {
+    const whatsappConfig = await getTenantWhatsAppConfig(giftCard.tenant_id);
+    if (whatsappConfig) {
+      const sent = await sendWhatsAppDocument(
+        giftCard.recipient_phone,
+        pdfBuffer,
+        `gift_card_${giftCard.code}.pdf`,
+        caption,
+        whatsappConfig
+      );
+      delivered.whatsapp = sent.success;
+      if (!sent.success) {
+        console.error(`[GiftCard] ❌ WhatsApp delivery failed for gift card ${giftCard.id}: ${sent.error}`);
+      }
+    }
+  }
+
+  if (giftCard.recipient_email) {
+    const sent = await sendGiftCardEmail(giftCard.recipient_email, pdfBuffer, giftCard.tenant_id, {
+      code: giftCard.code,
+      amount,
+      caption,
+      tenant_name: giftCard.tenant_name,
+      tenant_name_ar: giftCard.tenant_name_ar,
+    }, language);
+    delivered.email = sent.success;
+  }
+
+  if (delivered.whatsapp || delivered.email) {
+    await query(`UPDATE gift_cards SET delivered_at = now() WHERE id = $1`, [giftCard.id]);
+  }
+
+  console.log(`[GiftCard] Gift card ${giftCard.id}: WhatsApp=${delivered.whatsapp}, Email=${delivered.email}`);
+  return delivered;
+}
@@ -0,0 +1,376 @@
+import { PoolClient } from 'pg';
+import { query } from '../db';
+import { normalizePhoneNumber } from '../utils/phone';
+import { findCustomerByPhone, findOrCreateCustomer } from './walletService';
+import { getTenantWhatsAppConfig } from './ticketDeliveryService';
+import { sendWhatsAppMessage } from './whatsappService';
+import { sendPackageExpiryEmail } from './emailService';
+
+type Executor = PoolClient | { query: (text: string, params?: any[]) => Promise<any> };
+
+export class PackageSubscriptionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PackageSubscriptionError';
+    this.status = status;
+  }
+}
+
+// Customers are warned this many days before a package expires
+export const EXPIRY_WARNING_DAYS = 14;
+
+/**
+ * Tenant customer record of a signed-in customer account, matched by the phone on the account.
+ * Null when the account has no phone or the customer never booked with this tenant.
+ */
+export async function findCustomerForUser(executor: Executor, tenantId: string, userId: string) {
+  const userResult = await executor.query('SELECT phone FROM users WHERE id = $1', [userId]);
+  const phone = userResult.rows[0]?.phone ? normalizePhoneNumber(userResult.rows[0].phone) : null;
+  if (!phone) {
+    return null;
+  }
+  return findCustomerByPhone(executor, tenantId, phone);
+}
+
+/**
+ * Create a subscription bought online. It stays pending_payment (and covers nothing)
+ * until the payment service activates it.
+ */
+export async function createPendingSubscription(
+  client: PoolClient,
+  request: {
+    tenantId: string;
+    packageId: string;
+    customerPhone: string;
+    customerName?: string | null;
+    customerEmail?: string | null;
+    userId?: string | null;
+  }
+) {
+  const packageResult = await client.query(
+    `SELECT id, total_price, is_active FROM service_packages WHERE id = $1 AND tenant_id = $2`,
+    [request.packageId, request.tenantId]
+  );
+  const pkg = packageResult.rows[0];
+  if (!pkg || pkg.is_active === false) {
+    throw new PackageSubscriptionError('Package not found or no longer available', 404);
+  }
+  if (!(parseFloat(pkg.total_price) > 0)) {
+    throw new PackageSubscriptionError('This package cannot be bought online');
+  }
+
+  const customer = await findOrCreateCustomer(client, request.tenantId, request.customerPhone, {
+    name: request.customerName,
+    email: request.customerEmail,
+  });
+
+  const result = await client.query(
+    `INSERT INTO package_subscriptions (tenant_id, customer_id, package_id, status, source, price, purchased_by_user_id)
+     VALUES ($1, $2, $3, 'pending_payment', 'online', $4, $5)
+     RETURNING *`,
+    [request.tenantId, customer.id, pkg.id, pkg.total_price, request.userId || null]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Activate a subscription once its payment succeeded and queue the Zoho invoice for the purchase.
+ * The package validity counts from activation. Returns null when the subscription was not waiting for payment.
+ */
+export async function activatePackageSubscription(client: PoolClient, subscriptionId: string) {
+  const result = await client.query(
+    `UPDATE package_subscriptions ps
+     SET status = 'active', subscribed_at = now(),
+         expires_at = now() + make_interval(days => sp.validity_days)
+     FROM service_packages sp
+     WHERE ps.id = $1 AND ps.status = 'pending_payment' AND sp.id = ps.package_id
+     RETURNING ps.*`,
+    [subscriptionId]
+  );
+  const subscription = result.rows[0];
+  if (!subscription) {
+    return null;
+  }
+
+  await client.query(
+    `INSERT INTO queue_jobs (job_type, payload, status)
+     VALUES ('zoho_package_invoice', $1, 'pending')`,
+    [JSON.stringify({
+      subscription_id: subscription.id,
+      tenant_id: subscription.tenant_id,
+      attempt: 0,
+    })]
+  );
+  return subscription;
+}
+
+/**
+ * A customer's package subscriptions with the remaining quantity per service.
+ * Unpaid online purchases are left out; expires_soon flags active packages about to expire.
+ */
+export async function getCustomerSubscriptions(executor: Executor, tenantId: string, customerId: string) {
+  const result = await executor.query(
+    `SELECT ps.id, ps.package_id, ps.status, ps.source, ps.price, ps.subscribed_at, ps.expires_at, ps.created_at,
+            sp.name as package_name, sp.name_ar as package_name_ar,
+            COALESCE(
+              json_agg(json_build_object(
+                'service_id', u.service_id,
+                'service_name', s.name,
+                'service_name_ar', s.name_ar,
+                'original_quantity', u.original_quantity,
+                'remaining_quantity', u.remaining_quantity,
+                'used_quantity', u.used_quantity
+              ) ORDER BY s.name) FILTER (WHERE u.id IS NOT NULL),
+              '[]'
+            ) as usage
+     FROM package_subscriptions ps
+     JOIN service_packages sp ON ps.package_id = sp.id
+     LEFT JOIN package_subscription_usage u ON u.subscription_id = ps.id
+     LEFT JOIN services s ON u.service_id = s.id
+     WHERE ps.tenant_id = $1 AND ps.customer_id = $2 AND ps.status != 'pending_payment'
+     GROUP BY ps.id, sp.id
+     ORDER BY ps.created_at DESC`,
+    [tenantId, customerId]
+  );
+
+  const now = Date.now();
+  const warningMs = EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+  return result.rows.map((subscription: any) => {
+    const expiresAt = subscription.expires_at ? new Date(subscription.expires_at).getTime() : null;
+    // Past expires_at the subscription no longer covers bookings, whatever its stored status
+    const status = subscription.status === 'active' && expiresAt !== null && expiresAt <= now
+      ? 'expired'
+      : subscription.status;
+    return {
+      ...subscription,
+      status,
+      expires_soon: status === 'active' && expiresAt !== null && expiresAt - now <= warningMs,
+    };
+  });
+}
+
+// ============================================================================
+// Renewal and extension (tenant admins)
+// ============================================================================
+
+export interface RenewalRequest {
+  tenantId: string;
+  subscriptionId: string;
+  // extend: push expires_at back on the same subscription; renew: a new subscription to the same package
+  mode: 'extend' | 'renew';
+  // Defaults to the package validity
+  validityDays?: number | null;
+  // renew only: add the quantities left on the old subscription to the new one
+  carryOver?: boolean;
+}
+
+/**
+ * Extend or renew a subscription. Extending reactivates an expired subscription with the quantities it
+ * had left; renewing starts a new one (and, with carry-over, ends the old one, moving what was left).
+ */
+export async function renewSubscription(client: PoolClient, request: RenewalRequest) {
+  const currentResult = await client.query(
+    `SELECT ps.*, sp.validity_days, sp.total_price, sp.is_active as package_active
+     FROM package_subscriptions ps
+     JOIN service_packages sp ON ps.package_id = sp.id
+     WHERE ps.id = $1 AND ps.tenant_id = $2
+     FOR UPDATE OF ps`,
+    [request.subscriptionId, request.tenantId]
+  );
+  const current = currentResult.rows[0];
+  if (!current) {
+    throw new PackageSubscriptionError('Subscription not found', 404);
+  }
+  if (current.status === 'pending_payment' || current.status === 'cancelled') {
+    throw new PackageSubscriptionError(`A ${current.status === 'cancelled' ? 'cancelled' : 'unpaid'} subscription cannot be renewed`, 409);
+  }
+
+  const days = request.validityDays ?? current.validity_days;
+  if (days !== null && days !== undefined && (!Number.isInteger(days) || days <= 0)) {
+    throw new PackageSubscriptionError('validity_days must be a positive whole number');
+  }
+
+  if (request.mode === 'extend') {
+    if (!days) {
+      throw new PackageSubscriptionError('validity_days is required: the package has no validity period');
+    }
+    // Extension counts from the current expiry, or from now when it already passed
+    const result = await client.query(
+      `UPDATE package_subscriptions
+       SET status = 'active',
+           expires_at = GREATEST(COALESCE(expires_at, now()), now()) + make_interval(days => $2),
+           expiry_warning_sent_at = NULL
+       WHERE id = $1
+       RETURNING *`,
+      [current.id, days]
+    );
+    return result.rows[0];
+  }
+
+  if (current.package_active === false) {
+    throw new PackageSubscriptionError('The package is no longer available; extend the subscription instead', 409);
+  }
+
+  const renewed = await client.query(
+    `INSERT INTO package_subscriptions
+       (tenant_id, customer_id, package_id, status, source, price, renewed_from_subscription_id, expires_at)
+     VALUES ($1, $2, $3, 'active', 'reception', $4, $5,
+             CASE WHEN $6::int IS NULL THEN NULL ELSE now() + make_interval(days => $6::int) END)
+     RETURNING *`,
+    [current.tenant_id, current.customer_id, current.package_id, current.total_price, current.id, days || null]
+  );
+  const subscription = renewed.rows[0];
+
+  if (request.carryOver) {
+    // Usage rows for the new subscription come from the package (insert trigger);
+    // add what was left on the old one, including services the package no longer has
+    await client.query(
+      `INSERT INTO package_subscription_usage (subscription_id, service_id, original_quantity, remaining_quantity, used_quantity)
+       SELECT $1, old.service_id, old.remaining_quantity, old.remaining_quantity, 0
+       FROM package_subscription_usage old
+       WHERE old.subscription_id = $2 AND old.remaining_quantity > 0
+       ON CONFLICT (subscription_id, service_id) DO UPDATE
+         SET original_quantity = package_subscription_usage.original_quantity + EXCLUDED.remaining_quantity,
+             remaining_quantity = package_subscription_usage.remaining_quantity + EXCLUDED.remaining_quantity`,
+      [subscription.id, current.id]
+    );
+    // What was left now lives on the new subscription: the old one keeps only what was used
+    // (rows never used are dropped, quantities must stay positive), so extending it later adds nothing
+    await client.query(
+      `DELETE FROM package_subscription_usage WHERE subscription_id = $1 AND used_quantity = 0`,
+      [current.id]
+    );
+    await client.query(
+      `UPDATE package_subscription_usage
+       SET original_quantity = used_quantity, remaining_quantity = 0, updated_at = now()
+       WHERE subscription_id = $1 AND remaining_quantity > 0`,
+      [current.id]
+    );
+    await client.query(
+      `UPDATE package_subscriptions SET status = 'expired' WHERE id = $1`,
+      [current.id]
+    );
+  }
+
+  return subscription;
+}
+
+// ============================================================================
+// Expiry job: expire subscriptions past expires_at and warn customers beforehand
+// ============================================================================
+
+/**
+ * Move active subscriptions past their expires_at to 'expired'. Returns how many expired.
+ */
+export async function expireSubscriptions(): Promise<number> {
+  const result = await query(
+    `UPDATE package_subscriptions
+     SET status = 'expired'
+     WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= now()`
+  );
+  return result.rowCount || 0;
+}
+
+function buildWhatsAppExpiryWarning(subscription: any, remaining: string, expiresOn: string): string {
+  if (subscription.language === 'ar') {
+    return `تنتهي باقتك "${subscription.package_name_ar || subscription.package_name}" في ${expiresOn}.\n` +
+      (remaining ? `المتبقي: ${remaining}\n` : '') +
+      `\nاحجز الخدمات المتبقية قبل انتهاء الباقة.\n\n` +
+      `${subscription.tenant_name_ar || subscription.tenant_name}`;
+  }
+  return `Your "${subscription.package_name}" package expires on ${expiresOn}.\n` +
+    (remaining ? `Left to use: ${remaining}\n` : '') +
+    `\nBook the services you have left before it expires.\n\n` +
+    `${subscription.tenant_name}`;
+}
+
+/**
+ * Warn customers whose active subscription expires within EXPIRY_WARNING_DAYS, once per subscription
+ * (claimed before sending, so a warning is never sent twice). Returns the number of warnings sent.
+ */
+export async function sendExpiryWarnings(): Promise<number> {
+  const result = await query(
+    `UPDATE package_subscriptions ps
+     SET expiry_warning_sent_at = now()
+     FROM service_packages sp, customers c, tenants t
+     WHERE ps.package_id = sp.id AND ps.customer_id = c.id AND ps.tenant_id = t.id
+       AND ps.status = 'active' AND t.is_active = true
+       AND ps.expiry_warning_sent_at IS NULL
+       AND ps.expires_at > now() AND ps.expires_at <= now() + make_interval(days => $1)
+     RETURNING ps.id, ps.tenant_id, ps.expires_at,
+               sp.name as package_name, sp.name_ar as package_name_ar,
+               c.phone as customer_phone, c.email as customer_email,
+               t.name as tenant_name, t.name_ar as tenant_name_ar,
+               t.whatsapp_settings IS NOT NULL as has_whatsapp,
+               t.smtp_settings IS NOT NULL as has_smtp,
+               (SELECT b.language FROM bookings b
+                WHERE b.tenant_id = ps.tenant_id AND b.customer_phone = c.phone
+                ORDER BY b.created_at DESC LIMIT 1) as language`,
+    [EXPIRY_WARNING_DAYS]
+  );
+
+  let sent = 0;
+  const whatsappConfigs = new Map<string, any>();
+
+  for (const subscription of result.rows) {
+    const isArabic = subscription.language === 'ar';
+    const usageResult = await query(
+      `SELECT s.name, s.name_ar, u.remaining_quantity
+       FROM package_subscription_usage u
+       JOIN services s ON u.service_id = s.id
+       WHERE u.subscription_id = $1 AND u.remaining_quantity > 0
+       ORDER BY s.name`,
+      [subscription.id]
+    );
+    const remaining = usageResult.rows
+      .map((usage: any) => `${isArabic ? usage.name_ar || usage.name : usage.name} × ${usage.remaining_quantity}`)
+      .join(', ');
+    const expiresOn = new Date(subscription.expires_at).toISOString().split('T')[0];
+
+    if (subscription.has_whatsapp && subscription.customer_phone) {
+      if (!whatsappConfigs.has(subscription.tenant_id)) {
+        whatsappConfigs.set(subscription.tenant_id, await getTenantWhatsAppConfig(subscription.tenant_id));
+      }
+      const whatsappConfig = whatsappConfigs.get(subscription.tenant_id);
+      if (whatsappConfig) {
+        try {
+          const whatsappResult = await sendWhatsAppMessage(
+            subscription.customer_phone,
+            buildWhatsAppExpiryWarning(subscription, remaining, expiresOn),
+            whatsappConfig
+          );
+          if (whatsappResult.success) {
+            sent++;
+          } else {
+            console.error(`[PackageExpiry] ❌ WhatsApp expiry warning failed for subscription ${subscription.id}: ${whatsappResult.error}`);
+          }
+        } catch (error: any) {
+          console.error(`[PackageExpiry] ❌ WhatsApp expiry warning failed for subscription ${subscription.id}: ${error.message}`);
+        }
+      }
+    }
+
+    if (subscription.has_smtp && subscription.customer_email) {
+      const emailResult = await sendPackageExpiryEmail(
+        subscription.customer_email,
+        subscription.tenant_id,
+        {
+          package_name: subscription.package_name,
+          package_name_ar: subscription.package_name_ar,
+          expires_on: expiresOn,
+          remaining,
+          tenant_name: subscription.tenant_name,
+          tenant_name_ar: subscription.tenant_name_ar,
+        },
+        isArabic ? 'ar' : 'en'
+      );
+      if (emailResult.success) {
+        sent++;
+      }
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,714 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { query, pool } from '../db';
+import { sendBookingTicket } from './ticketDeliveryService';
+import { deliverGiftCard } from './giftCardService';
+import { activatePackageSubscription } from './packageSubscriptionService';
+import { creditWallet } from './walletService';
+
+// Online payment layer
+// Each gateway implements PaymentProvider and is registered in `providers` below.
+// Provider settings are stored per tenant in tenants.payment_settings.
+
+export type PaymentIntentStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled' | 'expired';
+
+export interface PaymentSettings {
+  enabled: boolean;
+  provider: string;
+  currency?: string;
+  api_key?: string;
+  secret_key?: string;
+  webhook_secret?: string;
+}
+
+export interface CreateIntentParams {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customer: {
+    name: string;
+    email?: string | null;
+    phone?: string | null;
+  };
+  metadata: Record<string, string>;
+}
+
+export interface PaymentIntentResult {
+  gatewayTxnId: string;
+  redirectUrl: string;
+  raw?: any;
+}
+
+export interface PaymentEvent {
+  gatewayTxnId: string;
+  status: PaymentIntentStatus;
+  raw: any;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent(params: CreateIntentParams, settings: PaymentSettings): Promise<PaymentIntentResult>;
+  /** Parse and verify a signed webhook. Returns null if the signature is invalid. */
+  verifyWebhook(rawBody: Buffer, headers: Record<string, any>, settings: PaymentSettings): PaymentEvent | null;
+  /** Parse and verify the query string the customer is redirected back with. */
+  parseReturn(params: Record<string, any>, settings: PaymentSettings): PaymentEvent | null;
+  /**
+   * Refund (part of) a captured payment. Providers without refund support omit this.
+   * Retrying with the same idempotency key must not refund twice.
+   */
+  refund?(
+    gatewayTxnId: string,
+    amount: number,
+    settings: PaymentSettings,
+    idempotencyKey?: string
+  ): Promise<{ gatewayRefundId: string; raw?: any }>;
+}
+
+export class PaymentError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PaymentError';
+    this.status = status;
+  }
+}
+
+const INTENT_EXPIRY_MINUTES = 15;
+const API_PUBLIC_URL = process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`;
+const PUBLIC_APP_URL = process.env.PUBLIC_APP_URL || 'http://localhost:5173';
+
+function hmacHex(secret: string, data: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Customers are redirected to the return URL after checkout, so only pages of the booking app are allowed
+ */
+export function isAllowedReturnUrl(returnUrl: string): boolean {
+  try {
+    return new URL(returnUrl).origin === new URL(PUBLIC_APP_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+// Without a configured secret nothing is signed or accepted, so events cannot be forged
+function getWebhookSecret(settings: PaymentSettings): string {
+  const secret = settings.webhook_secret || process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new PaymentError('Payment webhook secret is not configured', 503);
+  }
+  return secret;
+}
+
+/**
+ * Local mock provider
+ * Simulates a hosted checkout: the redirect URL points straight back to our
+ * return endpoint with a signed, successful result. Webhooks are signed with
+ * HMAC-SHA256 over the raw body in the `x-bookati-signature` header.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  async createIntent(params, settings) {
+    const gatewayTxnId = `mock_${crypto.randomUUID()}`;
+    const status = process.env.MOCK_PAYMENT_RESULT === 'failed' ? 'failed' : 'succeeded';
+    const signature = hmacHex(getWebhookSecret(settings), `${gatewayTxnId}:${status}`);
+    const redirectUrl = `${API_PUBLIC_URL}/api/payments/return/mock?txn_id=${encodeURIComponent(gatewayTxnId)}&status=${status}&signature=${signature}`;
+
+    return {
+      gatewayTxnId,
+      redirectUrl,
+      raw: { amount: params.amount, currency: params.currency, metadata: params.metadata },
+    };
+  },
+
+  verifyWebhook(rawBody, headers, settings) {
+    const signature = headers['x-bookati-signature'];
+    if (!signature || typeof signature !== 'string') {
+      return null;
+    }
+    if (!safeEqual(signature, hmacHex(getWebhookSecret(settings), rawBody))) {
+      return null;
+    }
+
+    const payload = JSON.parse(rawBody.toString('utf8'));
+    if (!payload.txn_id || !payload.status) {
+      return null;
+    }
+    return { gatewayTxnId: payload.txn_id, status: payload.status, raw: payload };
+  },
+
+  parseReturn(params, settings) {
+    const { txn_id, status, signature } = params;
+    if (!txn_id || !status || !signature) {
+      return null;
+    }
+    if (!safeEqual(String(signature), hmacHex(getWebhookSecret(settings), `${txn_id}:${status}`))) {
+      return null;
+    }
+    return { gatewayTxnId: String(txn_id), status: status as PaymentIntentStatus, raw: params };
+  },
+
+  async refund(gatewayTxnId, amount, _settings, idempotencyKey) {
+    return {
+      gatewayRefundId: `mock_refund_${idempotencyKey || crypto.randomUUID()}`,
+      raw: { txn_id: gatewayTxnId, amount },
+    };
+  },
+};
+
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+};
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers[provider.name] = provider;
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  return providers[name] || null;
+}
+
+/**
+ * Get a tenant's payment settings. Returns null if online payments are disabled
+ * or the configured provider is not registered.
+ */
+export async function getTenantPaymentSettings(tenantId: string): Promise<PaymentSettings | null> {
+  const result = await query('SELECT payment_settings FROM tenants WHERE id = $1', [tenantId]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const settings = result.rows[0].payment_settings as PaymentSettings | null;
+  if (!settings || !settings.enabled || !getPaymentProvider(settings.provider)) {
+    return null;
+  }
+  return settings;
+}
+
+/**
+ * Record a pending payment and open the provider's hosted checkout for it.
+ * Every payment is for a booking, a gift card or a package subscription (payments_target_check).
+ */
+async function openPaymentIntent(
+  settings: PaymentSettings,
+  target: {
+    tenantId: string;
+    bookingId?: string | null;
+    giftCardId?: string | null;
+    packageSubscriptionId?: string | null;
+    amount: number;
+    description: string;
+    customer: CreateIntentParams['customer'];
+  },
+  returnUrl: string | null
+) {
+  if (returnUrl && !isAllowedReturnUrl(returnUrl)) {
+    throw new PaymentError('return_url must be a page of the booking site');
+  }
+
+  const provider = getPaymentProvider(settings.provider)!;
+  const currency = settings.currency || 'SAR';
+
+  const paymentResult = await query(
+    `INSERT INTO payments (
+      booking_id, gift_card_id, package_subscription_id, tenant_id, provider, amount, currency, status, return_url, expires_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8, now() + ($9 || ' minutes')::interval)
+     RETURNING *`,
+    [
+      target.bookingId || null,
+      target.giftCardId || null,
+      target.packageSubscriptionId || null,
+      target.tenantId,
+      provider.name,
+      target.amount,
+      currency,
+      returnUrl,
+      INTENT_EXPIRY_MINUTES,
+    ]
+  );
+  const payment = paymentResult.rows[0];
+
+  const metadata: Record<string, string> = {
+    tenant_id: target.tenantId,
+    payment_id: payment.id,
+  };
+  if (target.bookingId) {
+    metadata.booking_id = target.bookingId;
+  }
+  if (target.giftCardId) {
+    metadata.gift_card_id = target.giftCardId;
+  }
+  if (target.packageSubscriptionId) {
+    metadata.package_subscription_id = target.packageSubscriptionId;
+  }
+
+  try {
+    const intent = await provider.createIntent(
+      {
+        paymentId: payment.id,
+        amount: target.amount,
+        currency,
+        description: target.description,
+        customer: target.customer,
+        metadata,
+      },
+      settings
+    );
+
+    const updated = await query(
+      `UPDATE payments
+       SET gateway_txn_id = $1, redirect_url = $2, provider_response = $3, updated_at = now()
+       WHERE id = $4
+       RETURNING *`,
+      [intent.gatewayTxnId, intent.redirectUrl, intent.raw ? JSON.stringify(intent.raw) : null, payment.id]
+    );
+    return updated.rows[0];
+  } catch (error: any) {
+    await query(
+      `UPDATE payments SET status = 'failed', provider_response = $1, updated_at = now() WHERE id = $2`,
+      [JSON.stringify({ error: error.message }), payment.id]
+    );
+    throw new PaymentError(`Payment provider error: ${error.message}`, 502);
+  }
+}
+
+/**
+ * Reuse an open intent so refreshing the checkout page does not create duplicates
+ */
+async function findOpenIntent(column: 'booking_id' | 'gift_card_id' | 'package_subscription_id', id: string) {
+  const existing = await query(
+    `SELECT * FROM payments
+     WHERE ${column} = $1 AND status = 'pending' AND expires_at > now() AND redirect_url IS NOT NULL
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [id]
+  );
+  return existing.rows[0] || null;
+}
+
+/**
+ * Create (or reuse) a payment intent for a booking awaiting online payment.
+ * The part paid from the customer wallet is not charged again.
+ */
+export async function createPaymentIntent(bookingId: string, returnUrl: string | null) {
+  const bookingResult = await query(
+    `SELECT b.id, b.tenant_id, b.total_price, b.wallet_amount, b.payment_status, b.status,
+            b.customer_name, b.customer_email, b.customer_phone, b.slot_id,
+            s.name as service_name
+     FROM bookings b
+     JOIN services s ON b.service_id = s.id
+     WHERE b.id = $1`,
+    [bookingId]
+  );
+
+  if (bookingResult.rows.length === 0) {
+    throw new PaymentError('Booking not found', 404);
+  }
+
+  const booking = bookingResult.rows[0];
+
+  if (booking.payment_status !== 'awaiting_payment' || booking.status === 'cancelled') {
+    throw new PaymentError(`Booking is not awaiting payment (payment status: ${booking.payment_status})`, 409);
+  }
+
+  const settings = await getTenantPaymentSettings(booking.tenant_id);
+  if (!settings) {
+    throw new PaymentError('Online payments are not enabled for this service provider', 400);
+  }
+
+  const existing = await findOpenIntent('booking_id', bookingId);
+  if (existing) {
+    return existing;
+  }
+
+  return openPaymentIntent(
+    settings,
+    {
+      tenantId: booking.tenant_id,
+      bookingId: booking.id,
+      amount: Math.round((parseFloat(booking.total_price) - parseFloat(booking.wallet_amount || '0')) * 100) / 100,
+      description: booking.service_name,
+      customer: {
+        name: booking.customer_name,
+        email: booking.customer_email,
+        phone: booking.customer_phone,
+      },
+    },
+    returnUrl
+  );
+}
+
+/**
+ * Create (or reuse) a payment intent for a gift card bought online
+ */
+export async function createGiftCardPaymentIntent(giftCardId: string, returnUrl: string | null) {
+  const giftCardResult = await query(
+    `SELECT g.*, t.name as tenant_name FROM gift_cards g JOIN tenants t ON g.tenant_id = t.id WHERE g.id = $1`,
+    [giftCardId]
+  );
+
+  if (giftCardResult.rows.length === 0) {
+    throw new PaymentError('Gift card not found', 404);
+  }
+
+  const giftCard = giftCardResult.rows[0];
+
+  if (giftCard.status !== 'pending_payment') {
+    throw new PaymentError(`Gift card is not awaiting payment (status: ${giftCard.status})`, 409);
+  }
+
+  const settings = await getTenantPaymentSettings(giftCard.tenant_id);
+  if (!settings) {
+    throw new PaymentError('Online payments are not enabled for this service provider', 400);
+  }
+
+  const existing = await findOpenIntent('gift_card_id', giftCardId);
+  if (existing) {
+    return existing;
+  }
+
+  return openPaymentIntent(
+    settings,
+    {
+      tenantId: giftCard.tenant_id,
+      giftCardId: giftCard.id,
+      amount: parseFloat(giftCard.initial_amount),
+      description: `Gift card - ${giftCard.tenant_name}`,
+      customer: {
+        name: giftCard.purchaser_name || giftCard.recipient_name || '',
+        email: giftCard.purchaser_email,
+        phone: giftCard.purchaser_phone,
+      },
+    },
+    returnUrl
+  );
+}
+
+/**
+ * Create (or reuse) a payment intent for a package subscription bought online
+ */
+export async function createPackagePaymentIntent(subscriptionId: string, returnUrl: string | null) {
+  const subscriptionResult = await query(
+    `SELECT ps.id, ps.tenant_id, ps.status, ps.price, sp.name as package_name,
+            c.name as customer_name, c.email as customer_email, c.phone as customer_phone
+     FROM package_subscriptions ps
+     JOIN service_packages sp ON ps.package_id = sp.id
+     JOIN customers c ON ps.customer_id = c.id
+     WHERE ps.id = $1`,
+    [subscriptionId]
+  );
+
+  if (subscriptionResult.rows.length === 0) {
+    throw new PaymentError('Package subscription not found', 404);
+  }
+
+  const subscription = subscriptionResult.rows[0];
+
+  if (subscription.status !== 'pending_payment') {
+    throw new PaymentError(`Package subscription is not awaiting payment (status: ${subscription.status})`, 409);
+  }
+
+  const settings = await getTenantPaymentSettings(subscription.tenant_id);
+  if (!settings) {
+    throw new PaymentError('Online payments are not enabled for this service provider', 400);
+  }
+
+  const existing = await findOpenIntent('package_subscription_id', subscriptionId);
+  if (existing) {
+    return existing;
+  }
+
+  return openPaymentIntent(
+    settings,
+    {
+      tenantId: subscription.tenant_id,
+      packageSubscriptionId: subscription.id,
+      amount: parseFloat(subscription.price),
+      description: subscription.package_name,
+      customer: {
+        name: subscription.customer_name || '',
+        email: subscription.customer_email,
+        phone: subscription.customer_phone,
+      },
+    },
+    returnUrl
+  );
+}
+
+// A success reported for an intent in one of these states is refunded: nothing is held for it any more
+const LATE_REFUNDABLE_STATUSES = ['expired', 'cancelled', 'failed'];
+
+/**
+ * Refund a payment that succeeded after its intent was expired or cancelled.
+ * The payment was already marked refund_failed when claimed, so it stays that way (for a manual
+ * refund) unless the provider confirms the refund.
+ */
+async function refundLatePayment(payment: any) {
+  const provider = getPaymentProvider(payment.provider);
+  try {
+    if (!provider?.refund) {
+      throw new Error(`Provider ${payment.provider} does not support refunds`);
+    }
+    const settingsResult = await query('SELECT payment_settings FROM tenants WHERE id = $1', [payment.tenant_id]);
+    await provider.refund(
+      payment.gateway_txn_id,
+      parseFloat(payment.amount),
+      settingsResult.rows[0]?.payment_settings || {},
+      `late-payment-${payment.id}`
+    );
+  } catch (error: any) {
+    console.error(`[PaymentService] ⚠️ Late payment ${payment.id} could not be refunded; refund it by hand:`, error.message);
+    return payment;
+  }
+
+  const updated = await query(
+    `UPDATE payments SET status = 'refunded', updated_at = now() WHERE id = $1 RETURNING *`,
+    [payment.id]
+  );
+  console.log(`[PaymentService] ↩️ Late payment ${payment.id} refunded`);
+  return updated.rows[0];
+}
+
+/**
+ * Apply a verified provider event to the matching payment.
+ * Idempotent: replays of an already-settled payment are ignored.
+ * On success the booking is marked paid, which queues the Zoho receipt via trigger,
+ * the gift card is activated and sent to its recipient, or the package subscription is
+ * activated and its Zoho invoice queued.
+ */
+export async function applyPaymentEvent(providerName: string, event: PaymentEvent) {
+  const client = await pool.connect();
+  let becamePaid = false;
+  let giftCardActivated = false;
+  let lateSuccess = false;
+  let payment: any;
+
+  try {
+    await client.query('BEGIN');
+
+    const paymentResult = await client.query(
+      `SELECT * FROM payments WHERE provider = $1 AND gateway_txn_id = $2 FOR UPDATE`,
+      [providerName, event.gatewayTxnId]
+    );
+
+    if (paymentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      throw new PaymentError('Payment not found', 404);
+    }
+
+    payment = paymentResult.rows[0];
+
+    if (payment.status === 'succeeded' || payment.status === event.status) {
+      await client.query('COMMIT');
+      return payment;
+    }
+
+    // Only pending intents are fulfilled. A success arriving after the intent expired or was
+    // cancelled is claimed here (so a repeated event does not refund twice) and refunded below.
+    if (payment.status !== 'pending') {
+      if (event.status === 'succeeded' && LATE_REFUNDABLE_STATUSES.includes(payment.status)) {
+        const claimed = await client.query(
+          `UPDATE payments
+           SET status = 'refund_failed', provider_response = $1, updated_at = now()
+           WHERE id = $2
+           RETURNING *`,
+          [JSON.stringify(event.raw), payment.id]
+        );
+        payment = claimed.rows[0];
+        lateSuccess = true;
+      }
+      await client.query('COMMIT');
+      return lateSuccess ? await refundLatePayment(payment) : payment;
+    }
+
+    const updated = await client.query(
+      `UPDATE payments
+       SET status = $1, provider_response = $2, updated_at = now()
+       WHERE id = $3
+       RETURNING *`,
+      [event.status, JSON.stringify(event.raw), payment.id]
+    );
+    payment = updated.rows[0];
+
+    if (event.status === 'succeeded' && payment.gift_card_id) {
+      const giftCardUpdate = await client.query(
+        `UPDATE gift_cards
+         SET status = 'active', updated_at = now()
+         WHERE id = $1 AND status = 'pending_payment'
+         RETURNING id`,
+        [payment.gift_card_id]
+      );
+      giftCardActivated = giftCardUpdate.rows.length > 0;
+    } else if (event.status === 'succeeded' && payment.package_subscription_id) {
+      await activatePackageSubscription(client, payment.package_subscription_id);
+    } else if (event.status === 'succeeded') {
+      const bookingUpdate = await client.query(
+        `UPDATE bookings
+         SET payment_status = 'paid', updated_at = now()
+         WHERE id = $1 AND payment_status != 'paid'
+         RETURNING id`,
+        [payment.booking_id]
+      );
+      becamePaid = bookingUpdate.rows.length > 0;
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (becamePaid) {
+    // Tickets for online bookings are only sent once payment is confirmed
+    process.nextTick(async () => {
+      try {
+        await sendBookingTicket(payment.booking_id);
+      } catch (error: any) {
+        console.error(`[PaymentService] ⚠️ Failed to send ticket after payment for booking ${payment.booking_id}:`, error.message);
+      }
+    });
+  }
+
+  if (giftCardActivated) {
+    process.nextTick(async () => {
+      try {
+        await deliverGiftCard(payment.gift_card_id);
+      } catch (error: any) {
+        console.error(`[PaymentService] ⚠️ Failed to send gift card ${payment.gift_card_id} after payment:`, error.message);
+      }
+    });
+  }
+
+  return payment;
+}
+
+/**
+ * Credit back what a booking took from the customer's wallet, less anything already returned
+ */
+async function returnWalletPayment(client: PoolClient, booking: { id: string; tenant_id: string }) {
+  const result = await client.query(
+    `SELECT customer_id,
+            SUM(amount) FILTER (WHERE type = 'debit' AND source = 'booking') AS paid,
+            COALESCE(SUM(amount) FILTER (WHERE type = 'credit' AND source = 'refund'), 0) AS returned
+     FROM wallet_transactions
+     WHERE booking_id = $1
+     GROUP BY customer_id`,
+    [booking.id]
+  );
+
+  for (const row of result.rows) {
+    const amount = Math.round((parseFloat(row.paid || '0') - parseFloat(row.returned)) * 100) / 100;
+    if (amount > 0) {
+      await creditWallet(client, {
+        tenantId: booking.tenant_id,
+        customerId: row.customer_id,
+        amount,
+        source: 'refund',
+        bookingId: booking.id,
+        note: 'Payment expired',
+      });
+    }
+  }
+}
+
+/**
+ * Expire unpaid intents and release the bookings that were holding capacity for them.
+ * Cancelling the booking restores slot capacity through the existing booking triggers.
+ * Wallet money spent on a released booking is credited back.
+ * Gift cards and package subscriptions that were never paid for are cancelled.
+ */
+export async function expireStalePayments(): Promise<number> {
+  const expired = await query(
+    `UPDATE payments
+     SET status = 'expired', updated_at = now()
+     WHERE status = 'pending' AND expires_at <= now()
+     RETURNING booking_id, gift_card_id, package_subscription_id`,
+    []
+  );
+
+  if (!expired.rowCount) {
+    return 0;
+  }
+
+  const bookingIds = [...new Set(expired.rows.map((row: any) => row.booking_id).filter(Boolean))];
+  const giftCardIds = [...new Set(expired.rows.map((row: any) => row.gift_card_id).filter(Boolean))];
+  const subscriptionIds = [...new Set(expired.rows.map((row: any) => row.package_subscription_id).filter(Boolean))];
+
+  // The wallet part of a cancelled booking goes back to the customer's wallet in the same transaction
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const cancelled = await client.query(
+      `UPDATE bookings b
+       SET status = 'cancelled', status_changed_at = now(), updated_at = now()
+       WHERE b.id = ANY($1::uuid[])
+         AND b.payment_status = 'awaiting_payment'
+         AND b.status != 'cancelled'
+         AND NOT EXISTS (
+           SELECT 1 FROM payments p
+           WHERE p.booking_id = b.id
+             AND (p.status = 'succeeded' OR (p.status = 'pending' AND p.expires_at > now()))
+         )
+       RETURNING b.id, b.tenant_id, b.wallet_amount`,
+      [bookingIds]
+    );
+
+    for (const booking of cancelled.rows) {
+      if (parseFloat(booking.wallet_amount || '0') > 0) {
+        await returnWalletPayment(client, booking);
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (giftCardIds.length > 0) {
+    await query(
+      `UPDATE gift_cards g
+       SET status = 'cancelled', updated_at = now()
+       WHERE g.id = ANY($1::uuid[])
+         AND g.status = 'pending_payment'
+         AND NOT EXISTS (
+           SELECT 1 FROM payments p
+           WHERE p.gift_card_id = g.id
+             AND (p.status = 'succeeded' OR (p.status = 'pending' AND p.expires_at > now()))
+         )`,
+      [giftCardIds]
+    );
+  }
+
+  if (subscriptionIds.length > 0) {
+    await query(
+      `UPDATE package_subscriptions ps
+       SET status = 'cancelled'
+       WHERE ps.id = ANY($1::uuid[])
+         AND ps.status = 'pending_payment'
+         AND NOT EXISTS (
+           SELECT 1 FROM payments p
+           WHERE p.package_subscription_id = ps.id
+             AND (p.status = 'succeeded' OR (p.status = 'pending' AND p.expires_at > now()))
+         )`,
+      [subscriptionIds]
+    );
+  }
+
+  return expired.rowCount;
+}
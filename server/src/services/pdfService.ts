@@ -6,11 +6,16 @@ import { createCanvas } from 'canvas';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { existsSync } from 'fs';
+import { SLOT_ENDS_AT_SQL, signTicketToken } from './ticketQrService';
+import { BookingFieldAnswer, formatBookingFieldValue } from './bookingFieldsService';
 // Import arabic-reshaper for proper Arabic text shaping
 import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
 const arabicReshaperLib = require('arabic-reshaper');
 
+// Custom booking form answers printed on a ticket; more would push the QR section off the page
+const MAX_TICKET_CUSTOM_FIELDS = 6;
+
 interface BookingData {
   id: string;
   customer_name: string;
@@ -33,9 +38,9 @@ interface BookingData {
 /**
  * Generate QR code as data URL
  */
-async function generateQRCodeDataURL(bookingId: string): Promise<string> {
+async function generateQRCodeDataURL(data: string): Promise<string> {
   try {
-    const qrDataURL = await QRCode.toDataURL(bookingId, {
+    const qrDataURL = await QRCode.toDataURL(data, {
       errorCorrectionLevel: 'M',
       type: 'image/png',
       width: 200,
@@ -50,18 +55,15 @@ async function generateQRCodeDataURL(bookingId: string): Promise<string> {
 
 /**
  * Generate barcode as buffer (for vertical display)
- * Uses full booking ID to ensure uniqueness and proper validation
+ * Encodes the same signed ticket token as the QR code, so a scanned barcode is verified the same way
  */
-function generateBarcodeBuffer(bookingId: string): Buffer {
+function generateBarcodeBuffer(qrToken: string): Buffer {
   try {
-    // Create canvas for vertical barcode (taller than wide)
+    // Create canvas for vertical barcode (JsBarcode widens it to fit the token)
     const canvas = createCanvas(100, 200);
-    // Use full booking ID without dashes (32 hex characters)
-    // This ensures uniqueness and allows proper reconstruction of booking ID when scanned
-    const barcodeData = bookingId.replace(/-/g, '');
-    JsBarcode(canvas, barcodeData, {
+    JsBarcode(canvas, qrToken, {
       format: 'CODE128',
-      width: 2,
+      width: 1,
       height: 150,
       displayValue: false,
       margin: 0,
@@ -104,6 +106,74 @@ function formatTimeRange(startTime: string, endTime: string): string {
   return `${startTime} - ${endTime}`;
 }
 
+/**
+ * Find a font that can render Arabic (project fonts first, then system fonts)
+ */
+function findArabicFontPath(): string | null {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+
+  // Prepare font paths to try
+  const possibleFontPaths = [
+    // Project fonts directory (highest priority - downloaded font)
+    join(__dirname, '../../fonts/NotoSansArabic-Regular.ttf'), // Noto Sans Arabic (best quality)
+    join(__dirname, '../../fonts/Amiri-Regular.ttf'),
+    // Windows fonts (prioritize Tahoma for better Arabic support)
+    'C:/Windows/Fonts/tahoma.ttf', // Tahoma has excellent Arabic support
+    'C:/Windows/Fonts/tahomabd.ttf', // Tahoma Bold
+    'C:/Windows/Fonts/arialuni.ttf', // Arial Unicode MS (full Unicode support)
+    'C:/Windows/Fonts/arial.ttf', // Regular Arial (limited Arabic)
+    // Linux fonts
+    '/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    '/usr/share/fonts/truetype/noto/NotoSansArabic-Regular.ttf',
+    // macOS fonts
+    '/System/Library/Fonts/Supplemental/Arial.ttf',
+    '/System/Library/Fonts/Supplemental/Arial Unicode.ttf',
+  ];
+
+  for (const fontPath of possibleFontPaths) {
+    if (existsSync(fontPath)) {
+      console.log(`✅ Found Arabic font at: ${fontPath}`);
+      return fontPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Process Arabic text for PDFKit display
+ * Strategy: Reshape for letter connections, then reverse WORD ORDER (not characters)
+ * This preserves letter connections while achieving RTL display
+ */
+function reshapeArabicText(text: string): string {
+  try {
+    if (!text || text.trim().length === 0) {
+      return text;
+    }
+
+    // Step 1: Reshape Arabic text for proper letter connections
+    // This converts letters to contextual forms: تذكرة → ﺗﺬﻛﺮﺓ
+    let reshaped: string = text;
+    if (arabicReshaperLib && typeof arabicReshaperLib.convertArabic === 'function') {
+      reshaped = arabicReshaperLib.convertArabic(text);
+    }
+
+    // Step 2: Reverse WORD ORDER (not character order within words)
+    // Split by spaces, reverse the array, join back
+    // This preserves letter connections while achieving RTL word order
+    const words = reshaped.split(' ');
+    const reversedWordOrder = words.reverse().join(' ');
+
+    return reversedWordOrder;
+  } catch (error: any) {
+    console.warn(`⚠️  Failed to reshape Arabic text: ${error.message}`);
+    // Fallback: reverse word order only
+    const words = text.split(' ');
+    return words.reverse().join(' ');
+  }
+}
+
 /**
  * Generate PDF ticket for a booking (redesigned to match ticket template)
  * @param bookingId - The booking ID
@@ -124,37 +194,7 @@ export async function generateBookingTicketPDF(
   try {
     // Note: Font registration will be done AFTER creating the PDF document
     // because registerFont is an instance method, not a static method
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = dirname(__filename);
-    
-    // Prepare font paths to try
-    const possibleFontPaths = [
-      // Project fonts directory (highest priority - downloaded font)
-      join(__dirname, '../../fonts/NotoSansArabic-Regular.ttf'), // Noto Sans Arabic (best quality)
-      join(__dirname, '../../fonts/Amiri-Regular.ttf'),
-      // Windows fonts (prioritize Tahoma for better Arabic support)
-      'C:/Windows/Fonts/tahoma.ttf', // Tahoma has excellent Arabic support
-      'C:/Windows/Fonts/tahomabd.ttf', // Tahoma Bold
-      'C:/Windows/Fonts/arialuni.ttf', // Arial Unicode MS (full Unicode support)
-      'C:/Windows/Fonts/arial.ttf', // Regular Arial (limited Arabic)
-      // Linux fonts
-      '/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf',
-      '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
-      '/usr/share/fonts/truetype/noto/NotoSansArabic-Regular.ttf',
-      // macOS fonts
-      '/System/Library/Fonts/Supplemental/Arial.ttf',
-      '/System/Library/Fonts/Supplemental/Arial Unicode.ttf',
-    ];
-    
-    // Find available font path
-    let arabicFontPath: string | null = null;
-    for (const fontPath of possibleFontPaths) {
-      if (existsSync(fontPath)) {
-        arabicFontPath = fontPath;
-        console.log(`✅ Found Arabic font at: ${fontPath}`);
-        break;
-      }
-    }
+    const arabicFontPath = findArabicFontPath();
     
     // Always use the selected language
     let effectiveLanguage: 'en' | 'ar' = language;
@@ -168,9 +208,10 @@ export async function generateBookingTicketPDF(
     // Fetch booking details with tenant design settings and service prices
     const bookingResult = await query(
       `SELECT 
-        b.id, b.customer_name, b.customer_phone, b.customer_email,
-        b.created_at, b.package_id, b.offer_id,
+        b.id, b.tenant_id, b.customer_name, b.customer_phone, b.customer_email,
+        b.created_at, b.package_id, b.offer_id, b.custom_fields, b.promo_code, b.discount_amount,
         sl.slot_date, sl.start_time, sl.end_time,
+        ${SLOT_ENDS_AT_SQL} as slot_ends_at,
         b.visitor_count, b.adult_count, b.child_count, b.total_price,
         s.name as service_name, s.name_ar as service_name_ar,
         s.base_price, s.child_price,
@@ -193,6 +234,9 @@ export async function generateBookingTicketPDF(
       base_price?: number;
       child_price?: number | null;
       offer_id?: string | null;
+      custom_fields?: BookingFieldAnswer[] | null;
+      promo_code?: string | null;
+      discount_amount?: string | number | null;
     } = bookingResult.rows[0];
     const tenantSettings = bookingResult.rows[0].landing_page_settings;
     
@@ -275,10 +319,14 @@ export async function generateBookingTicketPDF(
       }
     }
 
-    // Generate QR code and barcode
-    const qrDataURL = await generateQRCodeDataURL(bookingId);
+    // Generate QR code (server-signed token for this ticket) and barcode
+    const qrToken = signTicketToken(
+      { booking_id: bookingId, tenant_id: bookingResult.rows[0].tenant_id, ticket_number: ticketNumber || 1 },
+      new Date(bookingResult.rows[0].slot_ends_at)
+    );
+    const qrDataURL = await generateQRCodeDataURL(qrToken);
     const qrBuffer = Buffer.from(qrDataURL.split(',')[1], 'base64');
-    const barcodeBuffer = generateBarcodeBuffer(bookingId);
+    const barcodeBuffer = generateBarcodeBuffer(qrToken);
 
     // Helper function to get font and alignment based on effective language
     // Try to use Arabic font if available, otherwise use Helvetica (may show garbled Arabic)
@@ -313,37 +361,6 @@ export async function generateBookingTicketPDF(
       };
     };
     
-    // Helper function to process Arabic text for PDFKit display
-    // Strategy: Reshape for letter connections, then reverse WORD ORDER (not characters)
-    // This preserves letter connections while achieving RTL display
-    const reshapeArabicText = (text: string): string => {
-      try {
-        if (!text || text.trim().length === 0) {
-          return text;
-        }
-        
-        // Step 1: Reshape Arabic text for proper letter connections
-        // This converts letters to contextual forms: تذكرة → ﺗﺬﻛﺮﺓ
-        let reshaped: string = text;
-        if (arabicReshaperLib && typeof arabicReshaperLib.convertArabic === 'function') {
-          reshaped = arabicReshaperLib.convertArabic(text);
-        }
-        
-        // Step 2: Reverse WORD ORDER (not character order within words)
-        // Split by spaces, reverse the array, join back
-        // This preserves letter connections while achieving RTL word order
-        const words = reshaped.split(' ');
-        const reversedWordOrder = words.reverse().join(' ');
-        
-        return reversedWordOrder;
-      } catch (error: any) {
-        console.warn(`⚠️  Failed to reshape Arabic text: ${error.message}`);
-        // Fallback: reverse word order only
-        const words = text.split(' ');
-        return words.reverse().join(' ');
-      }
-    };
-    
     // Helper function to get text based on effective language
     // Always use Arabic text when Arabic is selected (respects user choice)
     // Only fall back to English if Arabic text is not available in database
@@ -681,7 +698,9 @@ export async function generateBookingTicketPDF(
     // CUSTOMER INFO AND PRICE SECTION
     // ============================================
     const infoBoxY = yPos;
-    const infoBoxHeight = 100;
+    // Answers to the service's custom booking form fields are listed under the customer and price
+    const customFieldAnswers = (booking.custom_fields || []).slice(0, MAX_TICKET_CUSTOM_FIELDS);
+    const infoBoxHeight = customFieldAnswers.length > 0 ? 90 + customFieldAnswers.length * 14 : 100;
     
     // Info box background
     doc.rect(margin, infoBoxY, contentWidth, infoBoxHeight)
@@ -735,6 +754,49 @@ export async function generateBookingTicketPDF(
          width: contentWidth / 2 - 25
        });
     
+    // Promo code discount (applies to the whole booking, not to this ticket's price)
+    const discountAmount = parseFloat(String(booking.discount_amount || 0));
+    if (booking.promo_code && discountAmount > 0) {
+      const discountFont = getFontAndAlign(false);
+      doc.fillColor('#27AE60')
+         .fontSize(9)
+         .font(discountFont.font)
+         .text(
+           effectiveLanguage === 'ar'
+             ? `${reshapeArabicText('خصم')} ${booking.promo_code}: -${discountAmount.toFixed(2)} ${getText('SAR', 'ريال')}`
+             : `Promo ${booking.promo_code}: -${discountAmount.toFixed(2)} SAR`,
+           rightColX,
+           infoBoxY + 52,
+           { align: discountFont.align, width: contentWidth / 2 - 25 }
+         );
+    }
+
+    if (customFieldAnswers.length > 0) {
+      const detailsLabelFont = getFontAndAlign(true);
+      doc.fillColor('#34495E')
+         .fontSize(10)
+         .font(detailsLabelFont.font)
+         .text(getText('BOOKING DETAILS', 'تفاصيل الحجز'), leftColX, infoBoxY + 65, {
+           align: detailsLabelFont.align,
+           width: contentWidth - 30
+         });
+
+      const detailsFont = getFontAndAlign(false);
+      doc.fillColor('#2C3E50').fontSize(9).font(detailsFont.font);
+      customFieldAnswers.forEach((answer, index) => {
+        const value = formatBookingFieldValue(answer, effectiveLanguage);
+        const line = effectiveLanguage === 'ar'
+          ? reshapeArabicText(`${answer.label_ar || answer.label}: ${value}`)
+          : `${answer.label}: ${value}`;
+        doc.text(line, leftColX, infoBoxY + 82 + index * 14, {
+          align: detailsFont.align,
+          width: contentWidth - 30,
+          height: 12,
+          ellipsis: true
+        });
+      });
+    }
+
     // Special Instructions (removed dummy data - only show if needed)
     // Note: Removed hardcoded instruction text as it's not part of booking data
     
@@ -1217,3 +1279,152 @@ async function generateMultipleTicketsInOnePDF(
   const pdfBytes = await combinedPdf.save();
   return Buffer.from(pdfBytes);
 }
+
+/**
+ * Generate a gift card PDF (one landscape page) in the card's language:
+ * amount, redeemable code with its QR code, sender/recipient, message and expiry.
+ */
+export async function generateGiftCardPDF(giftCardId: string, language: 'en' | 'ar' = 'en'): Promise<Buffer> {
+  const giftCardResult = await query(
+    `SELECT g.*, t.name as tenant_name, t.name_ar as tenant_name_ar, t.landing_page_settings
+     FROM gift_cards g
+     JOIN tenants t ON g.tenant_id = t.id
+     WHERE g.id = $1`,
+    [giftCardId]
+  );
+
+  if (giftCardResult.rows.length === 0) {
+    throw new Error(`Gift card ${giftCardId} not found`);
+  }
+
+  const giftCard = giftCardResult.rows[0];
+  const isArabic = language === 'ar';
+
+  let primaryColor = '#2563eb';
+  let secondaryColor = '#3b82f6';
+  if (giftCard.landing_page_settings) {
+    try {
+      const settings = typeof giftCard.landing_page_settings === 'string'
+        ? JSON.parse(giftCard.landing_page_settings)
+        : giftCard.landing_page_settings;
+      primaryColor = settings.primary_color || primaryColor;
+      secondaryColor = settings.secondary_color || secondaryColor;
+    } catch (error) {
+      console.warn('Error parsing tenant settings:', error);
+    }
+  }
+
+  const doc = new PDFDocument({
+    size: [612, 396], // Half letter, landscape
+    margin: 0,
+    lang: isArabic ? 'ar' : 'en',
+  });
+
+  const arabicFontPath = isArabic ? findArabicFontPath() : null;
+  let arabicFontRegistered = false;
+  if (arabicFontPath) {
+    try {
+      doc.registerFont('ArabicFont', arabicFontPath);
+      arabicFontRegistered = true;
+    } catch (error: any) {
+      console.error(`❌ Failed to register Arabic font: ${error.message}`);
+    }
+  }
+
+  const font = (isBold: boolean = false) => arabicFontRegistered
+    ? 'ArabicFont'
+    : (isBold ? 'Helvetica-Bold' : 'Helvetica');
+  const align = isArabic ? 'right' as const : 'left' as const;
+  const getText = (englishText: string, arabicText?: string | null): string =>
+    isArabic && arabicText && arabicText.trim().length > 0 ? reshapeArabicText(arabicText) : englishText;
+
+  const chunks: Buffer[] = [];
+  const pdfPromise = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const pageWidth = doc.page.width;
+  const pageHeight = doc.page.height;
+  const margin = 36;
+  const qrSize = 120;
+  const textWidth = pageWidth - 2 * margin - qrSize - 24;
+  const textX = isArabic ? margin + qrSize + 24 : margin;
+  const qrX = isArabic ? margin : pageWidth - margin - qrSize;
+
+  // Header
+  doc.rect(0, 0, pageWidth, 70).fill(primaryColor);
+  doc.rect(0, 66, pageWidth, 4).fill(secondaryColor);
+  doc.fillColor('#FFFFFF')
+     .font(font(true))
+     .fontSize(22)
+     .text(getText('GIFT CARD', 'بطاقة هدية'), margin, 16, { width: pageWidth - 2 * margin, align });
+  doc.fontSize(12)
+     .font(font())
+     .text(getText(giftCard.tenant_name || '', giftCard.tenant_name_ar), margin, 44, { width: pageWidth - 2 * margin, align });
+
+  // Amount
+  const amount = parseFloat(String(giftCard.initial_amount)).toFixed(2);
+  doc.fillColor(primaryColor)
+     .font(font(true))
+     .fontSize(34)
+     .text(`${amount} ${getText('SAR', 'ريال')}`, textX, 92, { width: textWidth, align });
+
+  // Recipient, sender and message
+  let yPos = 140;
+  doc.fillColor('#374151').font(font()).fontSize(12);
+  if (giftCard.recipient_name) {
+    doc.text(`${getText('To', 'إلى')}: ${isArabic ? reshapeArabicText(giftCard.recipient_name) : giftCard.recipient_name}`, textX, yPos, { width: textWidth, align });
+    yPos += 18;
+  }
+  if (giftCard.purchaser_name) {
+    doc.text(`${getText('From', 'من')}: ${isArabic ? reshapeArabicText(giftCard.purchaser_name) : giftCard.purchaser_name}`, textX, yPos, { width: textWidth, align });
+    yPos += 18;
+  }
+  if (giftCard.message) {
+    doc.fillColor('#6B7280')
+       .fontSize(11)
+       .text(isArabic ? reshapeArabicText(giftCard.message) : giftCard.message, textX, yPos + 4, {
+         width: textWidth,
+         height: 60,
+         align,
+         ellipsis: true,
+       });
+  }
+
+  // Code
+  const codeBoxY = 250;
+  doc.roundedRect(textX, codeBoxY, textWidth, 54, 6).lineWidth(1.5).stroke(primaryColor);
+  doc.fillColor('#6B7280')
+     .font(font())
+     .fontSize(10)
+     .text(getText('GIFT CARD CODE', 'رمز بطاقة الهدية'), textX + 12, codeBoxY + 8, { width: textWidth - 24, align });
+  doc.fillColor('#111827')
+     .font('Courier-Bold')
+     .fontSize(20)
+     .text(giftCard.code, textX + 12, codeBoxY + 24, { width: textWidth - 24, align, characterSpacing: 1 });
+
+  // QR code with the redeemable code
+  const qrDataURL = await generateQRCodeDataURL(giftCard.code);
+  doc.image(Buffer.from(qrDataURL.split(',')[1], 'base64'), qrX, 92, { width: qrSize, height: qrSize });
+
+  // Expiry and instructions
+  doc.fillColor('#6B7280').font(font()).fontSize(9);
+  if (giftCard.expires_at) {
+    doc.text(
+      `${getText('Valid until', 'صالحة حتى')}: ${formatDate(giftCard.expires_at, language)}`,
+      margin, pageHeight - 58, { width: pageWidth - 2 * margin, align }
+    );
+  }
+  doc.text(
+    getText(
+      'Redeem this code at online checkout or at the reception. The balance is added to your wallet.',
+      'استخدم هذا الرمز عند الدفع عبر الإنترنت أو في الاستقبال. يضاف الرصيد إلى محفظتك.'
+    ),
+    margin, pageHeight - 42, { width: pageWidth - 2 * margin, align }
+  );
+
+  doc.end();
+  return pdfPromise;
+}
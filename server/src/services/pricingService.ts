@@ -0,0 +1,276 @@
+import { PoolClient } from 'pg';
+import { AppliedPromoCode, applyPromoCode } from './promoCodeService';
+
+// Booking prices are computed here, never taken from the client: the booking endpoints,
+// recurring bookings and the quote endpoint the checkout and reception pages display
+// all go through calculateBookingPrice.
+
+type Executor = PoolClient | { query: (text: string, params?: any[]) => Promise<any> };
+
+export class PricingError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PricingError';
+    this.status = status;
+  }
+}
+
+export interface PackageServiceTickets {
+  service_id: string;
+  adult_count: number;
+  child_count: number;
+}
+
+export interface PriceQuoteRequest {
+  tenantId: string;
+  serviceId: string;
+  adultCount: number;
+  childCount: number;
+  offerId?: string | null;
+  // Buying a package: priced per included service from the tickets chosen for each
+  packageId?: string | null;
+  packageServices?: PackageServiceTickets[] | null;
+  // Customer's package subscription (front desk only); covers the booking when it has this service left
+  packageSubscriptionId?: string | null;
+  promoCode?: string | null;
+  customerId?: string | null;
+  customerPhone?: string | null;
+  language?: string;
+}
+
+export interface PriceLine {
+  service_id: string;
+  adult_count: number;
+  child_count: number;
+  adult_price: number;
+  child_price: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  service_id: string;
+  offer_id: string | null;
+  package_id: string | null;
+  // Set only when the subscription covers this booking
+  package_subscription_id: string | null;
+  package_covered: boolean;
+  adult_count: number;
+  child_count: number;
+  lines: PriceLine[];
+  subtotal: number;
+  promo: AppliedPromoCode | null;
+  discount_amount: number;
+  total_price: number;
+}
+
+function toMoney(value: any): number {
+  return Math.round(parseFloat(value || '0') * 100) / 100;
+}
+
+function toCount(value: unknown, fallback: number): number {
+  const count = value === undefined || value === null || value === '' ? fallback : Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : NaN;
+}
+
+/**
+ * Read adult/child counts from a request body the way the booking endpoints accept them:
+ * adult_count defaults to visitor_count (older clients only send that), child_count to 0.
+ */
+export function parseTicketCounts(body: any): { adultCount: number; childCount: number } {
+  const adultCount = toCount(body?.adult_count, toCount(body?.visitor_count, 1));
+  const childCount = toCount(body?.child_count, 0);
+  if (Number.isNaN(adultCount) || Number.isNaN(childCount)) {
+    throw new PricingError('adult_count and child_count must be non-negative integers');
+  }
+  if (adultCount + childCount < 1) {
+    throw new PricingError('At least one ticket is required');
+  }
+  return { adultCount, childCount };
+}
+
+/**
+ * Whether a submitted total matches the quoted one (to the cent)
+ */
+export function priceMatches(submitted: unknown, quoted: number): boolean {
+  const value = typeof submitted === 'number' ? submitted : parseFloat(String(submitted));
+  return Number.isFinite(value) && Math.abs(value - quoted) < 0.005;
+}
+
+function priceLine(service: any, adultPrice: number, tickets: { adult: number; child: number }): PriceLine {
+  const childPrice = service.child_price !== null && service.child_price !== undefined
+    ? toMoney(service.child_price)
+    : adultPrice;
+  return {
+    service_id: service.id,
+    adult_count: tickets.adult,
+    child_count: tickets.child,
+    adult_price: adultPrice,
+    child_price: childPrice,
+    amount: toMoney(adultPrice * tickets.adult + childPrice * tickets.child),
+  };
+}
+
+async function packageLines(executor: Executor, request: PriceQuoteRequest): Promise<PriceLine[]> {
+  const packageResult = await executor.query(
+    `SELECT p.id, p.total_price,
+       COALESCE(json_agg(json_build_object('id', s.id, 'base_price', s.base_price, 'child_price', s.child_price))
+         FILTER (WHERE s.id IS NOT NULL), '[]') AS services
+     FROM service_packages p
+     LEFT JOIN package_services ps ON ps.package_id = p.id
+     LEFT JOIN services s ON s.id = ps.service_id
+     WHERE p.id = $1 AND p.tenant_id = $2 AND p.is_active = true
+     GROUP BY p.id`,
+    [request.packageId, request.tenantId]
+  );
+  if (packageResult.rows.length === 0) {
+    throw new PricingError('Package not found or inactive', 404);
+  }
+  const pkg = packageResult.rows[0];
+
+  if (!request.packageServices || request.packageServices.length === 0) {
+    // No per-service tickets: the package price for every ticket
+    const price = toMoney(pkg.total_price);
+    return [priceLine({ id: request.serviceId, child_price: price }, price, { adult: request.adultCount, child: request.childCount })];
+  }
+
+  // Offers don't apply to packages: every included service at its own prices
+  const services = new Map<string, any>(pkg.services.map((service: any) => [service.id, service]));
+  return request.packageServices.map(tickets => {
+    const service = services.get(tickets.service_id);
+    if (!service) {
+      throw new PricingError('Service is not part of the selected package');
+    }
+    const adult = toCount(tickets.adult_count, 1);
+    const child = toCount(tickets.child_count, 0);
+    if (Number.isNaN(adult) || Number.isNaN(child)) {
+      throw new PricingError('Package ticket counts must be non-negative integers');
+    }
+    return priceLine(service, toMoney(service.base_price), { adult, child });
+  });
+}
+
+async function isCoveredBySubscription(
+  executor: Executor,
+  request: PriceQuoteRequest,
+  alreadyCovered: number,
+  forUpdate: boolean
+): Promise<boolean> {
+  const result = await executor.query(
+    `SELECT u.remaining_quantity
+     FROM package_subscriptions ps
+     JOIN package_subscription_usage u ON u.subscription_id = ps.id AND u.service_id = $3
+     WHERE ps.id = $1 AND ps.tenant_id = $2 AND ps.status = 'active'
+       AND (ps.expires_at IS NULL OR ps.expires_at > now())
+     ${forUpdate ? 'FOR UPDATE OF u' : ''}`,
+    [request.packageSubscriptionId, request.tenantId, request.serviceId]
+  );
+  const usage = result.rows[0];
+  return !!usage && usage.remaining_quantity - alreadyCovered > 0;
+}
+
+/**
+ * Price a booking: the offer price (or the service price) per adult and the service child price
+ * (falling back to the adult price) per child; a package purchase sums its included services.
+ * A package subscription with the service left covers the booking (total 0); otherwise a promo
+ * code is taken off the subtotal. Throws PricingError or PromoCodeError when something doesn't apply.
+ *
+ * alreadyCovered counts earlier bookings in the same cart the subscription covers for this
+ * service; pass forUpdate inside the booking transaction.
+ */
+export async function calculateBookingPrice(
+  executor: Executor,
+  request: PriceQuoteRequest,
+  options: { forUpdate?: boolean; alreadyCovered?: number } = {}
+): Promise<PriceQuote> {
+  const { forUpdate = false, alreadyCovered = 0 } = options;
+
+  const serviceResult = await executor.query(
+    `SELECT id, base_price, child_price FROM services WHERE id = $1 AND tenant_id = $2`,
+    [request.serviceId, request.tenantId]
+  );
+  if (serviceResult.rows.length === 0) {
+    throw new PricingError('Service not found', 404);
+  }
+  const service = serviceResult.rows[0];
+
+  let lines: PriceLine[];
+  if (request.packageId) {
+    lines = await packageLines(executor, request);
+  } else {
+    let adultPrice = toMoney(service.base_price);
+    if (request.offerId) {
+      const offerResult = await executor.query(
+        `SELECT service_id, price FROM service_offers WHERE id = $1 AND is_active = true`,
+        [request.offerId]
+      );
+      if (offerResult.rows.length === 0) {
+        throw new PricingError('Service offer not found or inactive', 404);
+      }
+      if (offerResult.rows[0].service_id !== request.serviceId) {
+        throw new PricingError('Offer does not belong to selected service');
+      }
+      adultPrice = toMoney(offerResult.rows[0].price);
+    }
+    lines = [priceLine(service, adultPrice, { adult: request.adultCount, child: request.childCount })];
+  }
+
+  const subtotal = toMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const packageCovered = !!request.packageSubscriptionId && !request.packageId
+    && await isCoveredBySubscription(executor, request, alreadyCovered, forUpdate);
+
+  let promo: AppliedPromoCode | null = null;
+  if (request.promoCode) {
+    if (packageCovered) {
+      throw new PricingError(
+        request.language === 'ar'
+          ? 'لا يمكن استخدام رمز الخصم مع حجز مغطى بالباقة'
+          : 'Promo codes cannot be used on a booking covered by a package'
+      );
+    }
+    promo = await applyPromoCode(executor, {
+      tenantId: request.tenantId,
+      serviceId: request.serviceId,
+      code: request.promoCode,
+      subtotal,
+      customerId: request.customerId,
+      customerPhone: request.customerPhone,
+      language: request.language,
+    }, forUpdate);
+  }
+
+  const discountAmount = promo?.discount_amount ?? 0;
+  return {
+    service_id: request.serviceId,
+    offer_id: request.packageId ? null : request.offerId || null,
+    package_id: request.packageId || null,
+    package_subscription_id: packageCovered ? request.packageSubscriptionId! : null,
+    package_covered: packageCovered,
+    adult_count: request.adultCount,
+    child_count: request.childCount,
+    lines,
+    subtotal,
+    promo,
+    discount_amount: discountAmount,
+    total_price: packageCovered ? 0 : toMoney(subtotal - discountAmount),
+  };
+}
+
+/**
+ * Price several bookings made together (the reception cart); a package subscription
+ * covers them in order until the service runs out.
+ */
+export async function calculateCartPrices(executor: Executor, requests: PriceQuoteRequest[]): Promise<PriceQuote[]> {
+  const covered = new Map<string, number>();
+  const quotes: PriceQuote[] = [];
+  for (const request of requests) {
+    const key = `${request.packageSubscriptionId}:${request.serviceId}`;
+    const quote = await calculateBookingPrice(executor, request, { alreadyCovered: covered.get(key) || 0 });
+    if (quote.package_covered) {
+      covered.set(key, (covered.get(key) || 0) + 1);
+    }
+    quotes.push(quote);
+  }
+  return quotes;
+}
@@ -0,0 +1,170 @@
+import { PoolClient } from 'pg';
+
+type Executor = PoolClient | { query: (text: string, params?: any[]) => Promise<any> };
+
+export class PromoCodeError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PromoCodeError';
+    this.status = status;
+  }
+}
+
+export interface PromoCode {
+  id: string;
+  tenant_id: string;
+  code: string;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: string | number;
+  service_id: string | null;
+  valid_from: Date | string | null;
+  valid_until: Date | string | null;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  min_spend: string | number | null;
+  is_active: boolean;
+}
+
+export interface PromoCodeRequest {
+  tenantId: string;
+  serviceId: string;
+  code: string;
+  // Booking price before the discount, as computed on the server
+  subtotal: number;
+  customerId?: string | null;
+  customerPhone?: string | null;
+  language?: string;
+}
+
+export interface AppliedPromoCode {
+  promo_code_id: string;
+  code: string;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  discount_amount: number;
+}
+
+function toMoney(value: any): number {
+  return Math.round(parseFloat(value || '0') * 100) / 100;
+}
+
+/** Codes are matched case-insensitively and stored as typed */
+export function normalizePromoCode(code: unknown): string {
+  return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+/**
+ * Discount a code gives on a subtotal: a percentage of it, or a fixed amount capped at the subtotal
+ */
+export function calculatePromoDiscount(promo: Pick<PromoCode, 'discount_type' | 'discount_value'>, subtotal: number): number {
+  const value = toMoney(promo.discount_value);
+  if (promo.discount_type === 'percentage') {
+    return toMoney((subtotal * Math.min(value, 100)) / 100);
+  }
+  return toMoney(Math.min(value, subtotal));
+}
+
+// Redemptions that still count towards the limits (bookings that were not cancelled)
+async function countRedemptions(executor: Executor, promoCodeId: string, customerId?: string | null, customerPhone?: string | null) {
+  const params: any[] = [promoCodeId];
+  let customerCondition = '';
+  if (customerId || customerPhone) {
+    params.push(customerId || null, customerPhone || null);
+    customerCondition = 'AND (r.customer_id = $2 OR r.customer_phone = $3)';
+  }
+
+  const result = await executor.query(
+    `SELECT COUNT(*)::integer AS count
+     FROM promo_code_redemptions r
+     JOIN bookings b ON r.booking_id = b.id
+     WHERE r.promo_code_id = $1 AND b.status <> 'cancelled' ${customerCondition}`,
+    params
+  );
+  return result.rows[0].count as number;
+}
+
+/**
+ * Check a promo code against a booking and work out its discount.
+ * Throws PromoCodeError (in the request language) when the code does not exist or does not apply:
+ * inactive, other service, outside its validity window, below the minimum spend, or used up
+ * globally or by this customer. Pass forUpdate inside the booking transaction so concurrent
+ * bookings cannot exceed the usage limits.
+ */
+export async function applyPromoCode(
+  executor: Executor,
+  request: PromoCodeRequest,
+  forUpdate: boolean = false
+): Promise<AppliedPromoCode> {
+  const isArabic = request.language === 'ar';
+  const code = normalizePromoCode(request.code);
+
+  const result = await executor.query(
+    `SELECT * FROM promo_codes WHERE tenant_id = $1 AND upper(code) = $2 ${forUpdate ? 'FOR UPDATE' : ''}`,
+    [request.tenantId, code]
+  );
+  const promo: PromoCode | undefined = result.rows[0];
+
+  if (!promo || !promo.is_active) {
+    throw new PromoCodeError(isArabic ? 'رمز الخصم غير صالح' : 'This promo code is not valid', 404);
+  }
+
+  if (promo.service_id && promo.service_id !== request.serviceId) {
+    throw new PromoCodeError(isArabic ? 'رمز الخصم لا ينطبق على هذه الخدمة' : 'This promo code does not apply to this service');
+  }
+
+  const now = new Date();
+  if (promo.valid_from && now < new Date(promo.valid_from)) {
+    throw new PromoCodeError(isArabic ? 'رمز الخصم غير فعال بعد' : 'This promo code is not active yet');
+  }
+  if (promo.valid_until && now >= new Date(promo.valid_until)) {
+    throw new PromoCodeError(isArabic ? 'انتهت صلاحية رمز الخصم' : 'This promo code has expired');
+  }
+
+  const minSpend = promo.min_spend !== null ? toMoney(promo.min_spend) : 0;
+  if (request.subtotal < minSpend) {
+    throw new PromoCodeError(
+      isArabic
+        ? `رمز الخصم يتطلب حدًا أدنى للإنفاق ${minSpend.toFixed(2)}`
+        : `This promo code requires a minimum spend of ${minSpend.toFixed(2)}`
+    );
+  }
+
+  if (promo.max_uses !== null && (await countRedemptions(executor, promo.id)) >= promo.max_uses) {
+    throw new PromoCodeError(isArabic ? 'تم استنفاد رمز الخصم' : 'This promo code has been fully redeemed');
+  }
+
+  if (
+    promo.max_uses_per_customer !== null
+    && (request.customerId || request.customerPhone)
+    && (await countRedemptions(executor, promo.id, request.customerId, request.customerPhone)) >= promo.max_uses_per_customer
+  ) {
+    throw new PromoCodeError(
+      isArabic ? 'لقد استخدمت رمز الخصم هذا الحد الأقصى من المرات' : 'You have already used this promo code the maximum number of times'
+    );
+  }
+
+  return {
+    promo_code_id: promo.id,
+    code: promo.code,
+    discount_type: promo.discount_type,
+    discount_value: toMoney(promo.discount_value),
+    discount_amount: calculatePromoDiscount(promo, request.subtotal),
+  };
+}
+
+/**
+ * Record that a code was applied to a booking (counts towards its usage limits)
+ */
+export async function recordPromoRedemption(
+  client: PoolClient,
+  applied: AppliedPromoCode,
+  booking: { id: string; tenant_id: string; customer_id: string | null; customer_phone: string | null }
+) {
+  await client.query(
+    `INSERT INTO promo_code_redemptions (tenant_id, promo_code_id, booking_id, customer_id, customer_phone, discount_amount)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [booking.tenant_id, applied.promo_code_id, booking.id, booking.customer_id, booking.customer_phone, applied.discount_amount]
+  );
+}
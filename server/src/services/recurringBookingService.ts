@@ -0,0 +1,488 @@
+import { query, pool } from '../db';
+import { BookingChangeError, cancelBookingByCustomer } from './bookingChangeService';
+import { refundBookingWithClient, settleProviderRefunds } from './refundService';
+import { sendBookingTicket } from './ticketDeliveryService';
+import { offerReleasedCapacity } from './waitlistService';
+import { PricingError, calculateBookingPrice } from './pricingService';
+
+// Recurring bookings: the same service booked every week (or every other week) on
+// chosen weekdays. Every occurrence is a normal booking linked by bookings.series_id;
+// all occurrences are checked and booked in one transaction, so a series is either
+// booked completely or not at all.
+
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'biweekly';
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface CreateRecurringBookingRequest {
+  tenantId: string;
+  serviceId: string;
+  employeeId?: string | null;
+  offerId?: string | null;
+  customerId?: string | null;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string | null;
+  adultCount: number;
+  childCount: number;
+  notes?: string | null;
+  language?: string;
+  startDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  rule: RecurrenceRule;
+  createdByUserId: string;
+  dryRun?: boolean;
+}
+
+export interface OccurrenceAvailability {
+  date: string;
+  slot_id: string | null;
+  available: boolean;
+  reason?: string;
+}
+
+export class RecurringBookingError extends Error {
+  status: number;
+  conflicts?: OccurrenceAvailability[];
+
+  constructor(message: string, status: number = 400, conflicts?: OccurrenceAvailability[]) {
+    super(message);
+    this.name = 'RecurringBookingError';
+    this.status = status;
+    this.conflicts = conflicts;
+  }
+}
+
+const MAX_OCCURRENCES = 52;
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Validate a submitted recurrence rule against the series start date
+ */
+export function normalizeRecurrenceRule(raw: any, startDate: string): RecurrenceRule {
+  if (!raw || typeof raw !== 'object') {
+    throw new RecurringBookingError('recurrence is required');
+  }
+  if (raw.frequency !== 'weekly' && raw.frequency !== 'biweekly') {
+    throw new RecurringBookingError('recurrence.frequency must be weekly or biweekly');
+  }
+
+  const weekdays: number[] = Array.isArray(raw.weekdays) && raw.weekdays.length > 0
+    ? [...new Set<number>(raw.weekdays.map((day: any) => parseInt(day)))].sort((a, b) => a - b)
+    : [parseDate(startDate).getUTCDay()];
+  if (weekdays.some(day => isNaN(day) || day < 0 || day > 6)) {
+    throw new RecurringBookingError('recurrence.weekdays must be numbers from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  const count = raw.count !== undefined && raw.count !== null ? parseInt(raw.count) : undefined;
+  const until = raw.until || undefined;
+  if (count === undefined && !until) {
+    throw new RecurringBookingError('recurrence.count or recurrence.until is required');
+  }
+  if (count !== undefined && (isNaN(count) || count < 1 || count > MAX_OCCURRENCES)) {
+    throw new RecurringBookingError(`recurrence.count must be between 1 and ${MAX_OCCURRENCES}`);
+  }
+  if (until !== undefined) {
+    if (!DATE_PATTERN.test(until) || isNaN(parseDate(until).getTime())) {
+      throw new RecurringBookingError('recurrence.until must be in YYYY-MM-DD format');
+    }
+    if (until < startDate) {
+      throw new RecurringBookingError('recurrence.until must not be before the start date');
+    }
+  }
+
+  return { frequency: raw.frequency, weekdays, ...(count !== undefined && { count }), ...(until && { until }) };
+}
+
+/**
+ * Expand a recurrence rule into occurrence dates. Weeks are counted from the week
+ * (Sunday-based) of the start date, so biweekly series skip every other week.
+ */
+export function expandRecurrence(rule: RecurrenceRule, startDate: string): string[] {
+  const start = parseDate(startDate);
+  const weekStart = new Date(start);
+  weekStart.setUTCDate(start.getUTCDate() - start.getUTCDay());
+
+  const dates: string[] = [];
+  for (let offset = 0; offset < MAX_RANGE_DAYS; offset++) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + offset);
+    const dateText = formatDate(date);
+
+    if (rule.until && dateText > rule.until) {
+      break;
+    }
+
+    const weekIndex = Math.floor((date.getTime() - weekStart.getTime()) / (7 * 86400000));
+    if (rule.frequency === 'biweekly' && weekIndex % 2 !== 0) {
+      continue;
+    }
+    if (!rule.weekdays.includes(date.getUTCDay())) {
+      continue;
+    }
+
+    dates.push(dateText);
+    if (dates.length === (rule.count ?? MAX_OCCURRENCES)) {
+      break;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Check availability for every occurrence and, unless it is a dry run, book them all.
+ * Slots are locked FOR UPDATE so the check and the inserts see the same capacity.
+ */
+export async function createRecurringBookings(req: CreateRecurringBookingRequest) {
+  if (!DATE_PATTERN.test(req.startDate) || isNaN(parseDate(req.startDate).getTime())) {
+    throw new RecurringBookingError('start_date must be in YYYY-MM-DD format');
+  }
+  if (!/^\d{2}:\d{2}(:\d{2})?$/.test(req.startTime)) {
+    throw new RecurringBookingError('start_time must be in HH:MM format');
+  }
+  const visitorCount = req.adultCount + req.childCount;
+  if (req.adultCount < 0 || req.childCount < 0 || visitorCount < 1) {
+    throw new RecurringBookingError('At least one ticket is required');
+  }
+
+  const rule = normalizeRecurrenceRule(req.rule, req.startDate);
+  const dates = expandRecurrence(rule, req.startDate);
+  if (dates.length === 0) {
+    throw new RecurringBookingError('The recurrence rule does not produce any dates');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const serviceResult = await client.query(
+      `SELECT id FROM services WHERE id = $1 AND tenant_id = $2 AND is_active = true`,
+      [req.serviceId, req.tenantId]
+    );
+    if (serviceResult.rows.length === 0) {
+      throw new RecurringBookingError('Service not found', 404);
+    }
+
+    let occurrencePrice: number;
+    try {
+      const quote = await calculateBookingPrice(client, {
+        tenantId: req.tenantId,
+        serviceId: req.serviceId,
+        adultCount: req.adultCount,
+        childCount: req.childCount,
+        offerId: req.offerId,
+      });
+      occurrencePrice = quote.total_price;
+    } catch (error) {
+      if (error instanceof PricingError) {
+        throw new RecurringBookingError(error.message, error.status);
+      }
+      throw error;
+    }
+
+    const occurrences: OccurrenceAvailability[] = [];
+    for (const date of dates) {
+      // Pick the slot at that time with the most free capacity; other sessions' active locks are respected
+      const slotResult = await client.query(
+        `SELECT sl.id, sl.employee_id, sl.is_available,
+          (sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone > now() as is_upcoming,
+          sl.available_capacity - COALESCE((
+            SELECT SUM(bl.reserved_capacity) FROM booking_locks bl
+            WHERE bl.slot_id = sl.id AND bl.lock_expires_at > now()
+          ), 0) as free_capacity
+         FROM slots sl
+         JOIN tenants t ON sl.tenant_id = t.id
+         WHERE sl.tenant_id = $1 AND sl.service_id = $2 AND sl.slot_date = $3
+           AND sl.start_time = $4::time
+           AND ($5::uuid IS NULL OR sl.employee_id = $5)
+         ORDER BY sl.available_capacity DESC, sl.id
+         FOR UPDATE OF sl`,
+        [req.tenantId, req.serviceId, date, req.startTime, req.employeeId || null]
+      );
+
+      const slot = slotResult.rows.find(row => row.is_available && row.is_upcoming && parseInt(row.free_capacity) >= visitorCount);
+      if (slot) {
+        occurrences.push({ date, slot_id: slot.id, available: true });
+      } else {
+        occurrences.push({
+          date,
+          slot_id: slotResult.rows[0]?.id || null,
+          available: false,
+          reason: slotResult.rows.length === 0
+            ? 'No slot at this time'
+            : slotResult.rows.some(row => !row.is_upcoming)
+              ? 'Slot is in the past'
+              : 'Not enough capacity',
+        });
+      }
+    }
+
+    const conflicts = occurrences.filter(occurrence => !occurrence.available);
+
+    if (req.dryRun) {
+      await client.query('ROLLBACK');
+      return { series: null, bookings: [], occurrences, occurrence_price: occurrencePrice };
+    }
+
+    if (conflicts.length > 0) {
+      throw new RecurringBookingError(
+        `${conflicts.length} of ${occurrences.length} occurrences are not available`,
+        409,
+        conflicts
+      );
+    }
+
+    // Link the series to the customer's account (if they have one) so they can manage it themselves
+    let customerId = req.customerId || null;
+    if (!customerId) {
+      const customerResult = await client.query(
+        `SELECT id FROM users
+         WHERE role = 'customer' AND is_active = true
+           AND REPLACE(REPLACE(phone, '+', ''), ' ', '') = $1
+         LIMIT 1`,
+        [req.customerPhone.replace(/^\+/, '').replace(/\s/g, '')]
+      );
+      customerId = customerResult.rows[0]?.id || null;
+    }
+
+    const seriesResult = await client.query(
+      `INSERT INTO booking_series (
+        tenant_id, service_id, customer_id, customer_name, customer_phone, customer_email,
+        recurrence_rule, start_date, start_time, occurrence_count, created_by_user_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [
+        req.tenantId,
+        req.serviceId,
+        customerId,
+        req.customerName,
+        req.customerPhone,
+        req.customerEmail || null,
+        JSON.stringify(rule),
+        req.startDate,
+        req.startTime,
+        occurrences.length,
+        req.createdByUserId,
+      ]
+    );
+    const series = seriesResult.rows[0];
+
+    const bookings: any[] = [];
+    for (const [index, occurrence] of occurrences.entries()) {
+      const bookingResult = await client.query(
+        `INSERT INTO bookings (
+          tenant_id, service_id, slot_id, employee_id,
+          customer_name, customer_phone, customer_email,
+          visitor_count, adult_count, child_count, total_price, notes, status, payment_status,
+          customer_id, offer_id, language, created_by_user_id, series_id, series_index
+        )
+        SELECT $1, $2, sl.id, sl.employee_id, $4, $5, $6, $7, $8, $9, $10, $11, 'confirmed', 'unpaid',
+          $12, $13, $14, $15, $16, $17
+        FROM slots sl WHERE sl.id = $3
+        RETURNING *`,
+        [
+          req.tenantId,
+          req.serviceId,
+          occurrence.slot_id,
+          req.customerName,
+          req.customerPhone,
+          req.customerEmail || null,
+          visitorCount,
+          req.adultCount,
+          req.childCount,
+          occurrencePrice,
+          req.notes || null,
+          customerId,
+          req.offerId || null,
+          req.language === 'ar' ? 'ar' : 'en',
+          req.createdByUserId,
+          series.id,
+          index + 1,
+        ]
+      );
+      bookings.push(bookingResult.rows[0]);
+    }
+
+    await client.query('COMMIT');
+
+    console.log(`[RecurringBookings] 🔁 Series ${series.id} booked with ${bookings.length} occurrences`);
+
+    // Tickets are sent one after another so the customer receives them in order
+    process.nextTick(async () => {
+      for (const booking of bookings) {
+        try {
+          await sendBookingTicket(booking.id, {
+            captionEn: `Your recurring booking is confirmed (${booking.series_index} of ${bookings.length}). Please find your ticket attached.`,
+            captionAr: `تم تأكيد حجزك المتكرر (${booking.series_index} من ${bookings.length}). يرجى الاطلاع على التذكرة المرفقة.`,
+          });
+        } catch (error: any) {
+          console.error(`[RecurringBookings] ⚠️ Failed to send ticket for booking ${booking.id}:`, error.message);
+        }
+      }
+    });
+
+    return { series, bookings, occurrences, occurrence_price: occurrencePrice };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Load a series with its occurrences (tenant-scoped)
+ */
+export async function getBookingSeries(seriesId: string, tenantId: string) {
+  const seriesResult = await query(
+    `SELECT * FROM booking_series WHERE id = $1 AND tenant_id = $2`,
+    [seriesId, tenantId]
+  );
+  if (seriesResult.rows.length === 0) {
+    throw new RecurringBookingError('Booking series not found', 404);
+  }
+
+  const bookingsResult = await query(
+    `SELECT b.id, b.series_index, b.status, b.payment_status, b.total_price, b.visitor_count,
+      b.slot_id, b.employee_id, sl.slot_date, sl.start_time, sl.end_time
+     FROM bookings b
+     JOIN slots sl ON b.slot_id = sl.id
+     WHERE b.series_id = $1
+     ORDER BY b.series_index ASC`,
+    [seriesId]
+  );
+
+  return { ...seriesResult.rows[0], bookings: bookingsResult.rows };
+}
+
+/**
+ * Staff cancellation of one occurrence, or of that occurrence and every later one.
+ * Occurrences that already started or are no longer active are left alone.
+ * Capacity and package usage are restored by the booking status triggers.
+ * Paid occurrences are refunded in full through refundService.
+ */
+export async function cancelSeriesByStaff(
+  seriesId: string,
+  tenantId: string,
+  bookingId: string,
+  scope: 'occurrence' | 'remaining',
+  issuedByUserId: string
+) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const target = await client.query(
+      `SELECT b.series_index FROM bookings b
+       JOIN booking_series bs ON b.series_id = bs.id
+       WHERE b.id = $1 AND b.series_id = $2 AND bs.tenant_id = $3`,
+      [bookingId, seriesId, tenantId]
+    );
+    if (target.rows.length === 0) {
+      throw new RecurringBookingError('Booking is not part of this series', 404);
+    }
+
+    const occurrences = await client.query(
+      `SELECT b.id, b.payment_status, b.total_price - b.refunded_amount AS refundable
+       FROM bookings b
+       JOIN slots sl ON b.slot_id = sl.id
+       JOIN tenants t ON b.tenant_id = t.id
+       WHERE b.series_id = $1
+         AND (CASE WHEN $3 = 'remaining' THEN b.series_index >= $2 ELSE b.series_index = $2 END)
+         AND b.status IN ('pending', 'confirmed')
+         AND (sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone > now()
+       FOR UPDATE OF b`,
+      [seriesId, target.rows[0].series_index, scope]
+    );
+
+    // A full refund cancels the booking as well
+    let refunds = [];
+    for (const occurrence of occurrences.rows) {
+      if (['paid', 'paid_manual'].includes(occurrence.payment_status) && parseFloat(occurrence.refundable) > 0) {
+        refunds.push(await refundBookingWithClient(client, {
+          bookingId: occurrence.id,
+          tenantId,
+          issuedByUserId,
+          reason: 'Recurring booking cancelled',
+        }));
+      }
+    }
+
+    const cancelled = await client.query(
+      `UPDATE bookings
+       SET status = 'cancelled',
+           status_changed_at = CASE WHEN status != 'cancelled' THEN now() ELSE status_changed_at END,
+           cancelled_by = 'staff',
+           updated_at = now()
+       WHERE id = ANY($1::uuid[])
+       RETURNING id, series_index`,
+      [occurrences.rows.map(occurrence => occurrence.id)]
+    );
+
+    await client.query('COMMIT');
+
+    refunds = await settleProviderRefunds(refunds);
+
+    if (cancelled.rows.length > 0) {
+      offerReleasedCapacity();
+    }
+    return {
+      cancelled: cancelled.rows.sort((a, b) => a.series_index - b.series_index),
+      refunds,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Customer cancellation of an occurrence and every later occurrence of its series.
+ * Each occurrence goes through the tenant's cancellation policy (cutoff, fee, refund);
+ * the chosen occurrence must be cancellable, later ones that are not are reported as skipped.
+ */
+export async function cancelRemainingSeriesByCustomer(bookingId: string, customerId: string, reason?: string | null) {
+  const occurrencesResult = await query(
+    `SELECT later.id
+     FROM bookings b
+     JOIN bookings later ON later.series_id = b.series_id AND later.series_index >= b.series_index
+     WHERE b.id = $1 AND b.customer_id = $2 AND b.series_id IS NOT NULL
+       AND later.customer_id = $2
+       AND later.status IN ('pending', 'confirmed')
+     ORDER BY later.series_index ASC`,
+    [bookingId, customerId]
+  );
+  if (occurrencesResult.rows.length === 0 || occurrencesResult.rows[0].id !== bookingId) {
+    throw new BookingChangeError('Booking is not an active occurrence of a recurring booking', 404);
+  }
+
+  const cancelled = [];
+  const skipped = [];
+  for (const { id } of occurrencesResult.rows) {
+    try {
+      cancelled.push(await cancelBookingByCustomer(id, customerId, reason));
+    } catch (error: any) {
+      if (id === bookingId) {
+        throw error;
+      }
+      skipped.push({ booking_id: id, reason: error.message });
+    }
+  }
+
+  return { cancelled, skipped };
+}
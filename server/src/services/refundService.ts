@@ -0,0 +1,406 @@
+import { PoolClient } from 'pg';
+import { pool, query } from '../db';
+import { getPaymentProvider } from './paymentService';
+import { creditWallet, findOrCreateCustomer } from './walletService';
+
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+    this.status = status;
+  }
+}
+
+export interface RefundRequest {
+  bookingId: string;
+  tenantId: string;
+  issuedByUserId: string;
+  reason?: string | null;
+  /** Amount to refund. Defaults to the value of the returned tickets, or the full remaining balance. */
+  amount?: number | null;
+  /** Tickets given back; their capacity is released and package usage restored. */
+  adultTickets?: number;
+  childTickets?: number;
+  /** Credit the whole refund to the customer wallet instead of returning the money */
+  toWallet?: boolean;
+}
+
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'paid_manual'];
+
+function toMoney(value: any): number {
+  return Math.round(parseFloat(value || '0') * 100) / 100;
+}
+
+/**
+ * Refund one booking inside an existing transaction.
+ * - Full refunds cancel the booking; the existing booking triggers restore slot
+ *   capacity and package usage for the remaining visitors.
+ * - Partial refunds that return tickets shrink the booking and release that many
+ *   places on the slot (and package usage) directly.
+ * - The part paid from the customer wallet goes back to the wallet (all of it with toWallet);
+ *   the rest of an online payment is refunded through its provider, anything else is manual.
+ *   Provider refunds are recorded as pending and only sent once the transaction has committed:
+ *   pass the returned refunds to settleProviderRefunds after COMMIT.
+ * - A Zoho credit note job is queued when the booking has an invoice.
+ */
+export async function refundBookingWithClient(client: PoolClient, request: RefundRequest) {
+  const bookingResult = await client.query(
+    `SELECT b.*, s.base_price, s.child_price, o.price as offer_price
+     FROM bookings b
+     JOIN services s ON b.service_id = s.id
+     LEFT JOIN service_offers o ON b.offer_id = o.id
+     WHERE b.id = $1
+     FOR UPDATE OF b`,
+    [request.bookingId]
+  );
+
+  if (bookingResult.rows.length === 0) {
+    throw new RefundError('Booking not found', 404);
+  }
+
+  const booking = bookingResult.rows[0];
+
+  if (booking.tenant_id !== request.tenantId) {
+    throw new RefundError('Booking does not belong to your tenant', 403);
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(booking.payment_status)) {
+    throw new RefundError(`Booking cannot be refunded (payment status: ${booking.payment_status})`, 409);
+  }
+
+  const adultTickets = Math.max(0, parseInt(String(request.adultTickets || 0)));
+  const childTickets = Math.max(0, parseInt(String(request.childTickets || 0)));
+
+  if (adultTickets > booking.adult_count || childTickets > booking.child_count) {
+    throw new RefundError(
+      `Cannot return more tickets than booked (${booking.adult_count} adult, ${booking.child_count} child)`
+    );
+  }
+
+  const totalPrice = toMoney(booking.total_price);
+  const alreadyRefunded = toMoney(booking.refunded_amount);
+  const refundable = toMoney(totalPrice - alreadyRefunded);
+
+  if (refundable <= 0) {
+    throw new RefundError('Booking has already been fully refunded', 409);
+  }
+
+  // Value of the returned tickets at the booked prices
+  const adultPrice = toMoney(booking.offer_price ?? booking.base_price);
+  const childPrice = booking.child_price !== null && booking.child_price !== undefined
+    ? toMoney(booking.child_price)
+    : adultPrice;
+  const ticketValue = toMoney(adultTickets * adultPrice + childTickets * childPrice);
+
+  let amount: number;
+  if (request.amount !== undefined && request.amount !== null) {
+    amount = toMoney(request.amount);
+  } else if (adultTickets + childTickets > 0) {
+    amount = Math.min(ticketValue, refundable);
+  } else {
+    amount = refundable;
+  }
+
+  if (!(amount > 0)) {
+    throw new RefundError('Refund amount must be greater than zero');
+  }
+  if (amount > refundable) {
+    throw new RefundError(`Refund amount exceeds refundable balance (${refundable.toFixed(2)})`);
+  }
+
+  const returnsAllTickets = adultTickets + childTickets >= booking.visitor_count;
+  const isFull = amount >= refundable || returnsAllTickets;
+
+  // Wallet-paid money goes back to the wallet before anything is returned another way
+  let walletPart = 0;
+  if (request.toWallet) {
+    walletPart = amount;
+  } else if (toMoney(booking.wallet_amount) > 0) {
+    const returnedResult = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) AS returned
+       FROM wallet_transactions
+       WHERE booking_id = $1 AND source = 'refund' AND type = 'credit'`,
+      [booking.id]
+    );
+    const walletRefundable = toMoney(toMoney(booking.wallet_amount) - toMoney(returnedResult.rows[0].returned));
+    walletPart = Math.max(0, Math.min(amount, walletRefundable));
+  }
+  const otherPart = toMoney(amount - walletPart);
+
+  // Refund through the payment provider if the booking was paid online
+  const paymentResult = await client.query(
+    `SELECT p.*, t.payment_settings
+     FROM payments p
+     JOIN tenants t ON p.tenant_id = t.id
+     WHERE p.booking_id = $1 AND p.status = 'succeeded'
+     ORDER BY p.created_at DESC
+     LIMIT 1`,
+    [booking.id]
+  );
+  const payment = paymentResult.rows[0] || null;
+
+  let method: 'provider' | 'manual' | 'wallet' = otherPart > 0 ? 'manual' : 'wallet';
+  if (payment && otherPart > 0 && getPaymentProvider(payment.provider)?.refund) {
+    method = 'provider';
+  }
+
+  const refundResult = await client.query(
+    `INSERT INTO refunds (
+      tenant_id, booking_id, payment_id, amount, currency, refund_type,
+      adult_tickets, child_tickets, reason, method, status, issued_by_user_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    RETURNING *`,
+    [
+      booking.tenant_id,
+      booking.id,
+      payment?.id || null,
+      amount,
+      payment?.currency || 'SAR',
+      isFull ? 'full' : 'partial',
+      adultTickets,
+      childTickets,
+      request.reason || null,
+      method,
+      method === 'provider' ? 'pending' : 'succeeded',
+      request.issuedByUserId,
+    ]
+  );
+  const refund = refundResult.rows[0];
+
+  if (walletPart > 0) {
+    const customer = await findOrCreateCustomer(client, booking.tenant_id, booking.customer_phone, {
+      name: booking.customer_name,
+      email: booking.customer_email,
+    });
+    await creditWallet(client, {
+      tenantId: booking.tenant_id,
+      customerId: customer.id,
+      amount: walletPart,
+      source: 'refund',
+      bookingId: booking.id,
+      refundId: refund.id,
+      note: request.reason || null,
+      createdByUserId: request.issuedByUserId,
+    });
+  }
+
+  if (isFull) {
+    // Cancelling fires the slot capacity and package usage restore triggers
+    await client.query(
+      `UPDATE bookings
+       SET refunded_amount = refunded_amount + $1,
+           payment_status = 'refunded',
+           status = CASE WHEN status IN ('pending', 'confirmed') THEN 'cancelled'::booking_status ELSE status END,
+           status_changed_at = CASE WHEN status IN ('pending', 'confirmed') THEN now() ELSE status_changed_at END,
+           updated_at = now()
+       WHERE id = $2`,
+      [amount, booking.id]
+    );
+  } else {
+    const returnedTickets = adultTickets + childTickets;
+
+    await client.query(
+      `UPDATE bookings
+       SET refunded_amount = refunded_amount + $1,
+           adult_count = adult_count - $2,
+           child_count = child_count - $3,
+           visitor_count = visitor_count - $4,
+           updated_at = now()
+       WHERE id = $5`,
+      [amount, adultTickets, childTickets, returnedTickets, booking.id]
+    );
+
+    // A no-show has already given its seats back (restore_slot_capacity_on_booking)
+    if (returnedTickets > 0 && booking.status === 'confirmed' && !booking.no_show_at) {
+      await client.query(
+        `UPDATE slots
+         SET available_capacity = LEAST(original_capacity, available_capacity + $1),
+             booked_count = GREATEST(0, booked_count - $1)
+         WHERE id = $2`,
+        [returnedTickets, booking.slot_id]
+      );
+    }
+
+    if (returnedTickets > 0 && booking.package_subscription_id) {
+      await client.query(
+        `UPDATE package_subscription_usage
+         SET used_quantity = GREATEST(0, used_quantity - $1),
+             remaining_quantity = remaining_quantity + LEAST(used_quantity, $1),
+             updated_at = now()
+         WHERE subscription_id = $2 AND service_id = $3`,
+        [returnedTickets, booking.package_subscription_id, booking.service_id]
+      );
+    }
+  }
+
+  // Queue Zoho credit note (processed by zohoReceiptWorker alongside receipts)
+  if (booking.zoho_invoice_id) {
+    await client.query(
+      `INSERT INTO queue_jobs (job_type, payload, status)
+       VALUES ('zoho_credit_note', $1, 'pending')`,
+      [JSON.stringify({
+        refund_id: refund.id,
+        booking_id: booking.id,
+        tenant_id: booking.tenant_id,
+        attempt: 0,
+      })]
+    );
+  }
+
+  return refund;
+}
+
+const STALE_PENDING_REFUND_MINUTES = 5;
+
+async function settleProviderRefund(refund: any) {
+  // The provider part is what was not credited back to the wallet
+  const result = await query(
+    `SELECT p.provider, p.gateway_txn_id, t.payment_settings,
+            r.amount - COALESCE((
+              SELECT SUM(w.amount) FROM wallet_transactions w WHERE w.refund_id = r.id AND w.type = 'credit'
+            ), 0) AS provider_amount
+     FROM refunds r
+     JOIN payments p ON r.payment_id = p.id
+     JOIN tenants t ON p.tenant_id = t.id
+     WHERE r.id = $1`,
+    [refund.id]
+  );
+  const row = result.rows[0];
+
+  let status = 'failed';
+  let providerRefundId: string | null = null;
+  try {
+    const provider = row ? getPaymentProvider(row.provider) : null;
+    if (!provider?.refund) {
+      throw new Error('Payment provider does not support refunds');
+    }
+    const providerRefund = await provider.refund(
+      row.gateway_txn_id,
+      toMoney(row.provider_amount),
+      row.payment_settings || {},
+      refund.id
+    );
+    status = 'succeeded';
+    providerRefundId = providerRefund.gatewayRefundId;
+  } catch (error: any) {
+    console.error(`[RefundService] ⚠️ Provider refund ${refund.id} failed; return the money by hand:`, error.message);
+  }
+
+  const updated = await query(
+    `UPDATE refunds SET status = $1, provider_refund_id = $2
+     WHERE id = $3 AND status = 'pending'
+     RETURNING *`,
+    [status, providerRefundId, refund.id]
+  );
+  return updated.rows[0] || refund;
+}
+
+/**
+ * Send committed provider refunds to the payment provider and record the outcome.
+ * The refund id is the provider idempotency key, so settling a refund again never pays out twice.
+ * Returns the refunds with their final status (failed ones have to be returned by hand).
+ */
+export async function settleProviderRefunds(refunds: any[]) {
+  const settled = [];
+  for (const refund of refunds) {
+    settled.push(refund.method === 'provider' && refund.status === 'pending' ? await settleProviderRefund(refund) : refund);
+  }
+  return settled;
+}
+
+/**
+ * Settle provider refunds left pending (e.g. the server stopped right after committing them).
+ * Returns how many were settled.
+ */
+export async function settleStalePendingRefunds(): Promise<number> {
+  const pending = await query(
+    `SELECT * FROM refunds
+     WHERE method = 'provider' AND status = 'pending'
+       AND created_at <= now() - ($1 || ' minutes')::interval
+     ORDER BY created_at`,
+    [STALE_PENDING_REFUND_MINUTES]
+  );
+  await settleProviderRefunds(pending.rows);
+  return pending.rows.length;
+}
+
+/**
+ * Refund a single booking (full or partial) in its own transaction
+ */
+export async function refundBooking(request: RefundRequest) {
+  const client = await pool.connect();
+  let refund;
+  try {
+    await client.query('BEGIN');
+    refund = await refundBookingWithClient(client, request);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return (await settleProviderRefunds([refund]))[0];
+}
+
+/**
+ * Refund tickets of a booking group (bookings sharing booking_group_id).
+ * Each selected booking is one ticket and is refunded in full; all or nothing.
+ */
+export async function refundBookingGroup(params: {
+  groupId: string;
+  tenantId: string;
+  issuedByUserId: string;
+  bookingIds?: string[];
+  reason?: string | null;
+  toWallet?: boolean;
+}) {
+  const client = await pool.connect();
+  const refunds = [];
+  try {
+    await client.query('BEGIN');
+
+    const groupResult = await client.query(
+      `SELECT id FROM bookings
+       WHERE booking_group_id = $1 AND tenant_id = $2
+         AND payment_status IN ('paid', 'paid_manual')
+       ORDER BY created_at ASC`,
+      [params.groupId, params.tenantId]
+    );
+
+    if (groupResult.rows.length === 0) {
+      throw new RefundError('No refundable bookings found in this group', 404);
+    }
+
+    const groupBookingIds: string[] = groupResult.rows.map((row: any) => row.id);
+    const targetIds = params.bookingIds && params.bookingIds.length > 0 ? params.bookingIds : groupBookingIds;
+
+    const outsideGroup = targetIds.filter(id => !groupBookingIds.includes(id));
+    if (outsideGroup.length > 0) {
+      throw new RefundError(`Bookings are not refundable members of this group: ${outsideGroup.join(', ')}`);
+    }
+
+    for (const bookingId of targetIds) {
+      refunds.push(await refundBookingWithClient(client, {
+        bookingId,
+        tenantId: params.tenantId,
+        issuedByUserId: params.issuedByUserId,
+        reason: params.reason,
+        toWallet: params.toWallet,
+      }));
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Provider refunds go out only after every ticket's refund has been committed
+  return settleProviderRefunds(refunds);
+}
@@ -0,0 +1,210 @@
+import { query } from '../db';
+import { getTenantWhatsAppConfig } from './ticketDeliveryService';
+import { sendWhatsAppMessage } from './whatsappService';
+import { sendBookingReminderEmail } from './emailService';
+
+// Booking reminders
+// Sent N hours before each confirmed booking's slot, per tenants.reminder_settings.
+// Every send is claimed in booking_reminders first, so a reminder is sent at most once
+// per (booking, slot, offset, channel) no matter how often the job runs.
+
+// Slots are stored in tenant local time; this is the slot start as a UTC instant (slot aliased sl, tenant t)
+const SLOT_STARTS_AT_SQL = `((sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone)`;
+
+export interface ReminderSettings {
+  enabled: boolean;
+  offsets_hours: number[];
+  whatsapp: boolean;
+  email: boolean;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  offsets_hours: [24, 2],
+  whatsapp: true,
+  email: true,
+};
+
+type ReminderChannel = 'whatsapp' | 'email';
+
+const MAX_ATTEMPTS = 3;
+const MAX_OFFSET_HOURS = 24 * 14;
+
+/**
+ * Merge stored (or submitted) settings with the defaults, dropping invalid offsets
+ */
+export function normalizeReminderSettings(raw: any): ReminderSettings {
+  const settings = raw || {};
+  const offsets = Array.isArray(settings.offsets_hours)
+    ? settings.offsets_hours
+        .map((offset: any) => parseFloat(offset))
+        .filter((offset: number) => !isNaN(offset) && offset > 0 && offset <= MAX_OFFSET_HOURS)
+    : DEFAULT_REMINDER_SETTINGS.offsets_hours;
+
+  return {
+    enabled: typeof settings.enabled === 'boolean' ? settings.enabled : DEFAULT_REMINDER_SETTINGS.enabled,
+    offsets_hours: [...new Set<number>(offsets)].sort((a, b) => b - a),
+    whatsapp: typeof settings.whatsapp === 'boolean' ? settings.whatsapp : DEFAULT_REMINDER_SETTINGS.whatsapp,
+    email: typeof settings.email === 'boolean' ? settings.email : DEFAULT_REMINDER_SETTINGS.email,
+  };
+}
+
+/**
+ * Pick the reminder that is due for a booking: the smallest offset whose send time
+ * has passed. Offsets whose send time passed before the booking was made are skipped,
+ * so a booking made 3 hours ahead only gets the 2h reminder.
+ */
+function getDueOffset(settings: ReminderSettings, hoursUntilStart: number, hoursBookedAhead: number): number | null {
+  const due = settings.offsets_hours
+    .filter(offset => hoursUntilStart <= offset && hoursBookedAhead >= offset);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Claim a reminder send. Returns null if it was already sent, is being sent by
+ * another run, or has used up its retries.
+ */
+async function claimReminder(booking: any, offsetHours: number, channel: ReminderChannel): Promise<string | null> {
+  const result = await query(
+    `INSERT INTO booking_reminders (tenant_id, booking_id, slot_id, offset_hours, channel, status, attempts)
+     VALUES ($1, $2, $3, $4, $5, 'sending', 1)
+     ON CONFLICT (booking_id, slot_id, offset_hours, channel) DO UPDATE
+       SET status = 'sending', attempts = booking_reminders.attempts + 1, updated_at = now()
+       WHERE booking_reminders.attempts < $6
+         AND (
+           booking_reminders.status = 'failed'
+           OR (booking_reminders.status = 'sending' AND booking_reminders.updated_at < now() - interval '10 minutes')
+         )
+     RETURNING id`,
+    [booking.tenant_id, booking.id, booking.slot_id, offsetHours, channel, MAX_ATTEMPTS]
+  );
+  return result.rows[0]?.id || null;
+}
+
+async function completeReminder(reminderId: string, result: { success: boolean; error?: string }) {
+  await query(
+    `UPDATE booking_reminders
+     SET status = $1, error_message = $2, sent_at = CASE WHEN $1 = 'sent' THEN now() ELSE sent_at END, updated_at = now()
+     WHERE id = $3`,
+    [result.success ? 'sent' : 'failed', result.error || null, reminderId]
+  );
+}
+
+function buildWhatsAppReminder(booking: any, offsetHours: number): string {
+  if (booking.language === 'ar') {
+    return `تذكير: موعد حجزك خلال ${offsetHours} ساعة.\n\n` +
+      `الخدمة: ${booking.service_name_ar || booking.service_name}\n` +
+      `التاريخ: ${booking.slot_date_text}\n` +
+      `الوقت: ${booking.start_time} - ${booking.end_time}\n\n` +
+      `${booking.tenant_name_ar || booking.tenant_name}`;
+  }
+  return `Reminder: your booking starts in ${offsetHours} hour(s).\n\n` +
+    `Service: ${booking.service_name}\n` +
+    `Date: ${booking.slot_date_text}\n` +
+    `Time: ${booking.start_time} - ${booking.end_time}\n\n` +
+    `${booking.tenant_name}`;
+}
+
+async function sendReminder(booking: any, offsetHours: number, channel: ReminderChannel, whatsappConfig: any) {
+  const reminderId = await claimReminder(booking, offsetHours, channel);
+  if (!reminderId) {
+    return false;
+  }
+
+  let result: { success: boolean; error?: string };
+  try {
+    if (channel === 'whatsapp') {
+      result = await sendWhatsAppMessage(booking.customer_phone, buildWhatsAppReminder(booking, offsetHours), whatsappConfig);
+    } else {
+      result = await sendBookingReminderEmail(
+        booking.customer_email,
+        booking.id,
+        booking.tenant_id,
+        {
+          service_name: booking.service_name,
+          service_name_ar: booking.service_name_ar,
+          slot_date: booking.slot_date_text,
+          start_time: booking.start_time,
+          end_time: booking.end_time,
+          tenant_name: booking.tenant_name,
+          tenant_name_ar: booking.tenant_name_ar,
+        },
+        offsetHours,
+        booking.language === 'ar' ? 'ar' : 'en'
+      );
+    }
+  } catch (error: any) {
+    result = { success: false, error: error.message };
+  }
+
+  await completeReminder(reminderId, result);
+
+  if (!result.success) {
+    console.error(`[Reminders] ❌ ${channel} reminder (${offsetHours}h) failed for booking ${booking.id}: ${result.error}`);
+  }
+  return result.success;
+}
+
+/**
+ * Send all reminders that are due now. Returns the number of reminders sent.
+ */
+export async function sendDueReminders(): Promise<number> {
+  const bookingsResult = await query(
+    `SELECT
+      b.id, b.tenant_id, b.slot_id, b.customer_phone, b.customer_email, b.language, b.created_at,
+      to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date_text, sl.start_time, sl.end_time,
+      EXTRACT(EPOCH FROM (${SLOT_STARTS_AT_SQL} - now())) / 3600 AS hours_until_start,
+      EXTRACT(EPOCH FROM (${SLOT_STARTS_AT_SQL} - b.created_at)) / 3600 AS hours_booked_ahead,
+      s.name as service_name, s.name_ar as service_name_ar,
+      t.name as tenant_name, t.name_ar as tenant_name_ar, t.reminder_settings,
+      t.whatsapp_settings IS NOT NULL as has_whatsapp,
+      t.smtp_settings IS NOT NULL as has_smtp
+    FROM bookings b
+    JOIN slots sl ON b.slot_id = sl.id
+    JOIN services s ON b.service_id = s.id
+    JOIN tenants t ON b.tenant_id = t.id
+    WHERE b.status = 'confirmed'
+      AND t.is_active = true
+      AND ${SLOT_STARTS_AT_SQL} > now()
+      AND ${SLOT_STARTS_AT_SQL} <= now() + ($1 || ' hours')::interval
+    ORDER BY sl.slot_date ASC, sl.start_time ASC`,
+    [MAX_OFFSET_HOURS]
+  );
+
+  let sent = 0;
+  const whatsappConfigs = new Map<string, any>();
+
+  for (const booking of bookingsResult.rows) {
+    const settings = normalizeReminderSettings(booking.reminder_settings);
+    if (!settings.enabled) {
+      continue;
+    }
+
+    const offset = getDueOffset(
+      settings,
+      parseFloat(booking.hours_until_start),
+      parseFloat(booking.hours_booked_ahead)
+    );
+    if (offset === null) {
+      continue;
+    }
+
+    if (settings.whatsapp && booking.has_whatsapp && booking.customer_phone) {
+      if (!whatsappConfigs.has(booking.tenant_id)) {
+        whatsappConfigs.set(booking.tenant_id, await getTenantWhatsAppConfig(booking.tenant_id));
+      }
+      const whatsappConfig = whatsappConfigs.get(booking.tenant_id);
+      if (whatsappConfig && await sendReminder(booking, offset, 'whatsapp', whatsappConfig)) {
+        sent++;
+      }
+    }
+
+    if (settings.email && booking.has_smtp && booking.customer_email) {
+      if (await sendReminder(booking, offset, 'email', null)) {
+        sent++;
+      }
+    }
+  }
+
+  return sent;
+}
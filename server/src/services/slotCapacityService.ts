@@ -0,0 +1,57 @@
+import { PoolClient } from 'pg';
+
+// Capacity a confirmed booking holds on slots, for code that moves bookings between slots.
+// Status changes are handled by the booking triggers: reduce_slot_capacity_on_booking and
+// restore_slot_capacity_on_booking keep available_capacity and booked_count of the booked slot
+// in step, the *_overlapping_slot_capacity triggers take one unit off (and give it back to)
+// the employee's other slots at the same time.
+
+/**
+ * Move a confirmed booking's hold from one slot to another, before the booking's slot_id is
+ * updated. The new slot loses the capacity and counts the visitors, the old slot gets both back,
+ * and so do the old employee's overlapping slots. The new employee's overlapping slots are reduced
+ * by reduce_overlapping_slot_capacity when the booking moves.
+ *
+ * Returns false when the new slot has no room for the visitors, counted after the old employee's
+ * slots were given back (they may include it); the caller then rolls back its transaction.
+ * Pending bookings hold no capacity and must not be passed here.
+ */
+export async function moveConfirmedBookingCapacity(
+  client: PoolClient,
+  fromSlotId: string,
+  toSlotId: string,
+  visitorCount: number
+): Promise<boolean> {
+  await client.query(
+    `UPDATE slots s
+     SET available_capacity = LEAST(s.original_capacity, s.available_capacity + 1)
+     FROM slots old
+     WHERE old.id = $1
+       AND s.employee_id = old.employee_id
+       AND s.id != old.id
+       AND s.slot_date = old.slot_date
+       AND s.start_time < old.end_time AND old.start_time < s.end_time
+       AND s.available_capacity < s.original_capacity`,
+    [fromSlotId]
+  );
+
+  const taken = await client.query(
+    `UPDATE slots
+     SET available_capacity = available_capacity - $1, booked_count = booked_count + $1
+     WHERE id = $2 AND available_capacity >= $1
+     RETURNING id`,
+    [visitorCount, toSlotId]
+  );
+  if (taken.rows.length === 0) {
+    return false;
+  }
+
+  await client.query(
+    `UPDATE slots
+     SET available_capacity = LEAST(original_capacity, available_capacity + $1),
+         booked_count = GREATEST(0, booked_count - $1)
+     WHERE id = $2`,
+    [visitorCount, fromSlotId]
+  );
+  return true;
+}
@@ -0,0 +1,108 @@
+import { query } from '../db';
+import { generateAllTicketsInOnePDF } from './pdfService';
+import { sendWhatsAppDocument } from './whatsappService';
+import { sendBookingTicketEmail } from './emailService';
+
+/**
+ * Read a tenant's WhatsApp settings and map them to the config shape
+ * expected by whatsappService. Returns null if WhatsApp is not configured.
+ */
+export async function getTenantWhatsAppConfig(tenantId: string): Promise<any | null> {
+  const result = await query(
+    'SELECT whatsapp_settings FROM tenants WHERE id = $1',
+    [tenantId]
+  );
+
+  if (result.rows.length === 0 || !result.rows[0].whatsapp_settings) {
+    return null;
+  }
+
+  const settings = result.rows[0].whatsapp_settings;
+  return {
+    provider: settings.provider,
+    apiUrl: settings.api_url,
+    apiKey: settings.api_key,
+    phoneNumberId: settings.phone_number_id,
+    accessToken: settings.access_token,
+    accountSid: settings.account_sid,
+    authToken: settings.auth_token,
+    from: settings.from,
+  };
+}
+
+/**
+ * Generate the ticket PDF for a booking and deliver it over WhatsApp and email.
+ * Used whenever a ticket has to be (re)sent outside the booking creation flow,
+ * e.g. after an online payment succeeds or a booking is moved to another slot.
+ */
+export async function sendBookingTicket(
+  bookingId: string,
+  options: { captionEn?: string; captionAr?: string } = {}
+): Promise<{ whatsapp: boolean; email: boolean }> {
+  const bookingResult = await query(
+    `SELECT
+      b.id, b.tenant_id, b.customer_phone, b.customer_email, b.language,
+      sl.slot_date, sl.start_time, sl.end_time,
+      s.name as service_name, s.name_ar as service_name_ar,
+      t.name as tenant_name, t.name_ar as tenant_name_ar
+    FROM bookings b
+    JOIN services s ON b.service_id = s.id
+    JOIN slots sl ON b.slot_id = sl.id
+    JOIN tenants t ON b.tenant_id = t.id
+    WHERE b.id = $1`,
+    [bookingId]
+  );
+
+  if (bookingResult.rows.length === 0) {
+    throw new Error(`Booking ${bookingId} not found`);
+  }
+
+  const booking = bookingResult.rows[0];
+  const language: 'en' | 'ar' = booking.language === 'ar' ? 'ar' : 'en';
+  const caption = language === 'ar'
+    ? (options.captionAr || 'تم تأكيد حجزك! يرجى الاطلاع على التذكرة المرفقة.')
+    : (options.captionEn || 'Your booking is confirmed! Please find your ticket attached.');
+
+  const pdfBuffer = await generateAllTicketsInOnePDF(bookingId, language);
+  const delivered = { whatsapp: false, email: false };
+
+  if (booking.customer_phone) {
+    const whatsappConfig = await getTenantWhatsAppConfig(booking.tenant_id);
+    if (whatsappConfig) {
+      const result = await sendWhatsAppDocument(
+        booking.customer_phone,
+        pdfBuffer,
+        `booking_ticket_${booking.id}.pdf`,
+        caption,
+        whatsappConfig
+      );
+      delivered.whatsapp = result.success;
+      if (!result.success) {
+        console.error(`[TicketDelivery] ❌ WhatsApp delivery failed for booking ${booking.id}: ${result.error}`);
+      }
+    }
+  }
+
+  if (booking.customer_email) {
+    const result = await sendBookingTicketEmail(
+      booking.customer_email,
+      pdfBuffer,
+      booking.id,
+      booking.tenant_id,
+      {
+        service_name: booking.service_name,
+        service_name_ar: booking.service_name_ar,
+        slot_date: booking.slot_date,
+        start_time: booking.start_time,
+        end_time: booking.end_time,
+        tenant_name: booking.tenant_name,
+        tenant_name_ar: booking.tenant_name_ar,
+      },
+      language
+    );
+    delivered.email = result.success;
+  }
+
+  console.log(`[TicketDelivery] Ticket for booking ${booking.id}: WhatsApp=${delivered.whatsapp}, Email=${delivered.email}`);
+  return delivered;
+}
@@ -0,0 +1,317 @@
+import jwt from 'jsonwebtoken';
+import { pool, query } from '../db';
+
+// Server-signed QR tokens for tickets.
+// Every ticket (visitor) of a booking gets its own token, signed with QR_SECRET and valid until
+// QR_VALID_HOURS after the slot ends. Scanning a token admits that one ticket and bumps the
+// booking's admitted_count; the booking is marked checked in once all of its tickets are admitted.
+
+const QR_SECRET = process.env.QR_SECRET || process.env.JWT_SECRET || 'bookati-qr-secret-key-change-in-production';
+const QR_VALID_HOURS = 48;
+const TOKEN_TYPE = 'ticket';
+
+export class TicketQrError extends Error {
+  status: number;
+  details?: Record<string, any>;
+
+  constructor(message: string, status: number = 400, details?: Record<string, any>) {
+    super(message);
+    this.name = 'TicketQrError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface TicketTokenPayload {
+  booking_id: string;
+  tenant_id: string;
+  ticket_number: number;
+}
+
+// Compact claims keep the QR code small enough to scan reliably from print
+interface TicketTokenClaims {
+  typ: string;
+  bid: string;
+  tid: string;
+  n: number;
+}
+
+/**
+ * SQL expression for the end of a booking's slot in UTC (slots are stored in tenant local time).
+ * Expects the slot aliased as sl and the tenant as t.
+ */
+export const SLOT_ENDS_AT_SQL = `((CASE WHEN sl.end_time <= sl.start_time THEN sl.slot_date + 1 ELSE sl.slot_date END + sl.end_time)
+  AT TIME ZONE t.tenant_time_zone)`;
+
+/**
+ * Sign the QR token for one ticket of a booking
+ */
+export function signTicketToken(payload: TicketTokenPayload, slotEndsAt: Date): string {
+  const expiresAt = Math.floor(slotEndsAt.getTime() / 1000) + QR_VALID_HOURS * 3600;
+  const claims: TicketTokenClaims & { exp: number } = {
+    typ: TOKEN_TYPE,
+    bid: payload.booking_id,
+    tid: payload.tenant_id,
+    n: payload.ticket_number,
+    exp: expiresAt,
+  };
+  return jwt.sign(claims, QR_SECRET, { algorithm: 'HS256' });
+}
+
+/**
+ * Verify a scanned QR token's signature and expiry
+ */
+export function verifyTicketToken(token: string): TicketTokenPayload {
+  try {
+    const claims = jwt.verify(token, QR_SECRET, { algorithms: ['HS256'] }) as TicketTokenClaims;
+    if (claims.typ !== TOKEN_TYPE || !claims.bid || !claims.tid || !Number.isInteger(claims.n)) {
+      throw new TicketQrError('Invalid QR code');
+    }
+    return { booking_id: claims.bid, tenant_id: claims.tid, ticket_number: claims.n };
+  } catch (error) {
+    if (error instanceof TicketQrError) {
+      throw error;
+    }
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new TicketQrError('QR code has expired');
+    }
+    throw new TicketQrError('Invalid QR code');
+  }
+}
+
+/**
+ * Ticket type by number: tickets are numbered adults first, then children (as printed)
+ */
+export function getTicketType(ticketNumber: number, adultCount: number | null, visitorCount: number): 'adult' | 'child' {
+  const adults = adultCount ?? visitorCount;
+  return ticketNumber <= adults ? 'adult' : 'child';
+}
+
+export interface CheckInTicketRequest {
+  qrToken?: string | null;
+  // Manual entry of a booking ID by staff: checks in ticketNumber, or the next ticket not yet scanned
+  bookingId?: string | null;
+  ticketNumber?: number | null;
+  tenantId: string;
+  userId: string;
+}
+
+/**
+ * Check in one ticket of a booking
+ */
+export async function checkInTicket(req: CheckInTicketRequest) {
+  let bookingId: string;
+  let ticketNumber: number | null = null;
+
+  if (req.qrToken) {
+    const payload = verifyTicketToken(req.qrToken);
+    if (payload.tenant_id !== req.tenantId) {
+      throw new TicketQrError('Booking does not belong to your tenant', 403);
+    }
+    bookingId = payload.booking_id;
+    ticketNumber = payload.ticket_number;
+  } else if (req.bookingId) {
+    bookingId = req.bookingId;
+    ticketNumber = req.ticketNumber ?? null;
+  } else {
+    throw new TicketQrError('QR token or booking ID is required');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Lock the booking so concurrent scans of the same booking count tickets correctly
+    const bookingResult = await client.query(
+      `SELECT
+        b.id, b.tenant_id, b.booking_group_id, b.customer_name, b.customer_phone,
+        to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date, sl.start_time, sl.end_time,
+        b.visitor_count, b.adult_count, b.child_count, b.total_price,
+        b.status, b.payment_status,
+        s.name as service_name, s.name_ar as service_name_ar
+      FROM bookings b
+      JOIN services s ON b.service_id = s.id
+      JOIN slots sl ON b.slot_id = sl.id
+      WHERE b.id = $1
+      FOR UPDATE OF b`,
+      [bookingId]
+    );
+
+    if (bookingResult.rows.length === 0) {
+      throw new TicketQrError('Booking not found', 404);
+    }
+
+    const booking = bookingResult.rows[0];
+    if (booking.tenant_id !== req.tenantId) {
+      throw new TicketQrError('Booking does not belong to your tenant', 403);
+    }
+    if (booking.status === 'cancelled') {
+      throw new TicketQrError('Booking has been cancelled');
+    }
+
+    const totalTickets = booking.visitor_count || 1;
+    const scannedResult = await client.query(
+      `SELECT ticket_number, checked_in_at FROM booking_ticket_checkins WHERE booking_id = $1 ORDER BY ticket_number`,
+      [booking.id]
+    );
+    const scanned = new Map<number, string>(
+      scannedResult.rows.map((row: any) => [row.ticket_number, row.checked_in_at])
+    );
+
+    if (ticketNumber === null) {
+      for (let n = 1; n <= totalTickets; n++) {
+        if (!scanned.has(n)) {
+          ticketNumber = n;
+          break;
+        }
+      }
+    }
+
+    if (ticketNumber === null || scanned.has(ticketNumber)) {
+      throw new TicketQrError(
+        ticketNumber === null
+          ? 'All tickets have already been scanned'
+          : req.qrToken ? 'QR code has already been scanned' : `Ticket ${ticketNumber} has already been admitted`,
+        409,
+        {
+          booking: {
+            id: booking.id,
+            customer_name: booking.customer_name,
+            qr_scanned_at: ticketNumber !== null ? scanned.get(ticketNumber) : scannedResult.rows[scannedResult.rows.length - 1]?.checked_in_at,
+          },
+          ticket: ticketNumber !== null ? { number: ticketNumber } : null,
+        }
+      );
+    }
+
+    if (ticketNumber < 1 || ticketNumber > totalTickets) {
+      throw new TicketQrError('Ticket number is not part of this booking');
+    }
+
+    const ticketType = getTicketType(ticketNumber, booking.adult_count, totalTickets);
+    await client.query(
+      `INSERT INTO booking_ticket_checkins (tenant_id, booking_id, ticket_number, ticket_type, checked_in_by_user_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [booking.tenant_id, booking.id, ticketNumber, ticketType, req.userId]
+    );
+
+    const checkedIn = scanned.size + 1;
+    const allCheckedIn = checkedIn >= totalTickets;
+    if (allCheckedIn) {
+      await client.query(
+        `UPDATE bookings
+         SET admitted_count = $1,
+             qr_scanned = true,
+             qr_scanned_at = now(),
+             qr_scanned_by_user_id = $2,
+             status = 'checked_in',
+             checked_in_at = now(),
+             checked_in_by_user_id = $2,
+             no_show_at = NULL,
+             no_show_marked_by = NULL
+         WHERE id = $3`,
+        [checkedIn, req.userId, booking.id]
+      );
+    } else {
+      await client.query(
+        'UPDATE bookings SET admitted_count = $1, no_show_at = NULL, no_show_marked_by = NULL WHERE id = $2',
+        [checkedIn, booking.id]
+      );
+    }
+
+    // Progress across the whole booking group (several services booked together)
+    let group: { checked_in: number; total: number } | null = null;
+    if (booking.booking_group_id) {
+      const groupResult = await client.query(
+        `SELECT
+          COALESCE(SUM(b.visitor_count), 0)::integer AS total,
+          (SELECT COUNT(*)::integer FROM booking_ticket_checkins c
+            JOIN bookings gb ON c.booking_id = gb.id
+            WHERE gb.booking_group_id = $1) AS checked_in
+        FROM bookings b
+        WHERE b.booking_group_id = $1 AND b.status != 'cancelled'`,
+        [booking.booking_group_id]
+      );
+      group = groupResult.rows[0];
+    }
+
+    await client.query('COMMIT');
+
+    return {
+      booking: {
+        id: booking.id,
+        customer_name: booking.customer_name,
+        customer_phone: booking.customer_phone,
+        service_name: booking.service_name,
+        service_name_ar: booking.service_name_ar,
+        slot_date: booking.slot_date,
+        start_time: booking.start_time,
+        end_time: booking.end_time,
+        visitor_count: booking.visitor_count,
+        adult_count: booking.adult_count,
+        child_count: booking.child_count,
+        total_price: booking.total_price,
+        status: allCheckedIn ? 'checked_in' : booking.status,
+        payment_status: booking.payment_status,
+        admitted_count: checkedIn,
+        qr_scanned: allCheckedIn,
+        qr_scanned_at: new Date().toISOString(),
+      },
+      ticket: { number: ticketNumber, type: ticketType },
+      tickets: { checked_in: checkedIn, total: totalTickets },
+      group,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Door audit trail of a booking: every ticket with its type and, once admitted, when and by whom.
+ * Returns null if the booking does not exist in the tenant.
+ */
+export async function getTicketCheckIns(bookingId: string, tenantId: string) {
+  const bookingResult = await query(
+    `SELECT id, visitor_count, adult_count, child_count, admitted_count, status
+     FROM bookings WHERE id = $1 AND tenant_id = $2`,
+    [bookingId, tenantId]
+  );
+  if (bookingResult.rows.length === 0) {
+    return null;
+  }
+
+  const booking = bookingResult.rows[0];
+  const checkinsResult = await query(
+    `SELECT c.ticket_number, c.checked_in_at, c.checked_in_by_user_id, u.full_name AS checked_in_by_name
+     FROM booking_ticket_checkins c
+     LEFT JOIN users u ON c.checked_in_by_user_id = u.id
+     WHERE c.booking_id = $1
+     ORDER BY c.ticket_number`,
+    [booking.id]
+  );
+  const checkins = new Map<number, any>(checkinsResult.rows.map((row: any) => [row.ticket_number, row]));
+
+  const totalTickets = booking.visitor_count || 1;
+  const tickets = [];
+  for (let n = 1; n <= totalTickets; n++) {
+    const checkin = checkins.get(n);
+    tickets.push({
+      number: n,
+      type: getTicketType(n, booking.adult_count, totalTickets),
+      checked_in_at: checkin?.checked_in_at || null,
+      checked_in_by_user_id: checkin?.checked_in_by_user_id || null,
+      checked_in_by_name: checkin?.checked_in_by_name || null,
+    });
+  }
+
+  return {
+    booking_id: booking.id,
+    status: booking.status,
+    admitted: checkins.size,
+    expected: totalTickets,
+    tickets,
+  };
+}
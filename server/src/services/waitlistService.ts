@@ -0,0 +1,477 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { pool, query } from '../db';
+import { getTenantWhatsAppConfig } from './ticketDeliveryService';
+import { sendWhatsAppMessage } from './whatsappService';
+import { sendWaitlistOfferEmail } from './emailService';
+
+// Waitlist for fully booked slots.
+// Customers wait for a specific slot, or for any slot of a service on a date. When capacity is
+// released (cancellation, expired lock, capacity increase) the waitlist job offers it to the
+// oldest waiting entry that fits, holding the spot with a booking_locks row until the offer expires.
+
+const OFFER_MINUTES = process.env.WAITLIST_OFFER_MINUTES
+  ? parseInt(process.env.WAITLIST_OFFER_MINUTES)
+  : 30;
+const PUBLIC_APP_URL = process.env.PUBLIC_APP_URL || 'http://localhost:5173';
+
+export const WAITLIST_SESSION_PREFIX = 'waitlist_';
+
+export class WaitlistError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'WaitlistError';
+    this.status = status;
+  }
+}
+
+export interface JoinWaitlistRequest {
+  tenant_id: string;
+  service_id: string;
+  slot_id?: string | null;
+  slot_date?: string | null;
+  customer_id?: string | null;
+  customer_name: string;
+  customer_phone: string;
+  customer_email?: string | null;
+  language?: string;
+  visitor_count?: number;
+}
+
+// Capacity still bookable on a slot: available capacity minus active locks (including waitlist offers)
+const FREE_CAPACITY_SQL = `(sl.available_capacity - COALESCE((
+  SELECT SUM(bl.reserved_capacity) FROM booking_locks bl
+  WHERE bl.slot_id = sl.id AND bl.lock_expires_at > now()
+), 0))`;
+
+// Slot dates and times are tenant local time: compare the slot start as an instant, and dates
+// with the tenant's current date (slot aliased sl, tenant t)
+const SLOT_STARTS_AT_SQL = `((sl.slot_date + sl.start_time) AT TIME ZONE t.tenant_time_zone)`;
+const TENANT_TODAY_SQL = `(now() AT TIME ZONE t.tenant_time_zone)::date`;
+
+function getSessionId(token: string): string {
+  return `${WAITLIST_SESSION_PREFIX}${token}`;
+}
+
+/**
+ * Add a customer to the waitlist. A phone number can only wait once for the same time.
+ */
+export async function joinWaitlist(req: JoinWaitlistRequest) {
+  const visitorCount = parseInt(String(req.visitor_count ?? 1));
+  if (isNaN(visitorCount) || visitorCount < 1) {
+    throw new WaitlistError('visitor_count must be at least 1');
+  }
+  if (!req.tenant_id || !req.service_id || !req.customer_name || !req.customer_phone) {
+    throw new WaitlistError('Missing required fields');
+  }
+  if (!req.slot_id && !req.slot_date) {
+    throw new WaitlistError('slot_id or slot_date is required');
+  }
+
+  const phone = req.customer_phone.replace(/[\s\-()]/g, '');
+  if (!/^\+?\d{8,15}$/.test(phone)) {
+    throw new WaitlistError('Invalid phone number format');
+  }
+
+  const serviceResult = await query(
+    `SELECT s.id, t.is_active as tenant_active
+     FROM services s
+     JOIN tenants t ON s.tenant_id = t.id
+     WHERE s.id = $1 AND s.tenant_id = $2 AND s.is_active = true`,
+    [req.service_id, req.tenant_id]
+  );
+  if (serviceResult.rows.length === 0) {
+    throw new WaitlistError('Service not found', 404);
+  }
+  if (serviceResult.rows[0].tenant_active === false) {
+    throw new WaitlistError('This service provider account has been deactivated. Bookings are not available.', 403);
+  }
+
+  let slotDate: string;
+  if (req.slot_id) {
+    const slotResult = await query(
+      `SELECT to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date_text,
+        ${SLOT_STARTS_AT_SQL} > now() as is_upcoming,
+        ${FREE_CAPACITY_SQL} as free_capacity
+       FROM slots sl
+       JOIN tenants t ON sl.tenant_id = t.id
+       WHERE sl.id = $1 AND sl.service_id = $2 AND sl.tenant_id = $3`,
+      [req.slot_id, req.service_id, req.tenant_id]
+    );
+    if (slotResult.rows.length === 0) {
+      throw new WaitlistError('Slot not found', 404);
+    }
+    const slot = slotResult.rows[0];
+    if (!slot.is_upcoming) {
+      throw new WaitlistError('This time slot has already started');
+    }
+    if (parseInt(slot.free_capacity) >= visitorCount) {
+      throw new WaitlistError('This time slot still has availability. Please book it directly.', 409);
+    }
+    slotDate = slot.slot_date_text;
+  } else {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(String(req.slot_date))) {
+      throw new WaitlistError('slot_date must be in YYYY-MM-DD format');
+    }
+    const dateCheck = await query(
+      `SELECT $1::date >= ${TENANT_TODAY_SQL} as is_upcoming FROM tenants t WHERE t.id = $2`,
+      [req.slot_date, req.tenant_id]
+    );
+    if (!dateCheck.rows[0].is_upcoming) {
+      throw new WaitlistError('slot_date must not be in the past');
+    }
+    slotDate = String(req.slot_date);
+  }
+
+  const existing = await query(
+    `SELECT id FROM waitlist_entries
+     WHERE service_id = $1 AND customer_phone = $2 AND slot_date = $3
+       AND slot_id IS NOT DISTINCT FROM $4
+       AND status IN ('waiting', 'offered')`,
+    [req.service_id, phone, slotDate, req.slot_id || null]
+  );
+  if (existing.rows.length > 0) {
+    throw new WaitlistError('This phone number is already on the waitlist for this time', 409);
+  }
+
+  const result = await query(
+    `INSERT INTO waitlist_entries (
+      tenant_id, service_id, slot_id, slot_date, customer_id,
+      customer_name, customer_phone, customer_email, language, visitor_count, token
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      req.tenant_id,
+      req.service_id,
+      req.slot_id || null,
+      slotDate,
+      req.customer_id || null,
+      req.customer_name,
+      phone,
+      req.customer_email || null,
+      req.language === 'ar' ? 'ar' : 'en',
+      visitorCount,
+      crypto.randomBytes(24).toString('hex'),
+    ]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Load a waitlist entry for the customer's waitlist link. Lock details are only
+ * included while an offer is open, so the checkout can use the held spot.
+ */
+export async function getWaitlistEntryByToken(token: string) {
+  const result = await query(
+    `SELECT w.*,
+      to_char(w.slot_date, 'YYYY-MM-DD') as slot_date_text,
+      s.name as service_name, s.name_ar as service_name_ar,
+      t.slug as tenant_slug, t.name as tenant_name, t.name_ar as tenant_name_ar,
+      sl.id as display_slot_id, to_char(sl.slot_date, 'YYYY-MM-DD') as display_slot_date,
+      sl.start_time, sl.end_time,
+      (SELECT COUNT(*) FROM waitlist_entries ahead
+        WHERE ahead.status = 'waiting'
+          AND ahead.service_id = w.service_id
+          AND ahead.slot_date = w.slot_date
+          AND ahead.slot_id IS NOT DISTINCT FROM w.slot_id
+          AND ahead.created_at < w.created_at) as waiting_ahead
+     FROM waitlist_entries w
+     JOIN services s ON w.service_id = s.id
+     JOIN tenants t ON w.tenant_id = t.id
+     LEFT JOIN slots sl ON sl.id = COALESCE(w.offered_slot_id, w.slot_id)
+     WHERE w.token = $1`,
+    [token]
+  );
+
+  if (result.rows.length === 0) {
+    throw new WaitlistError('Waitlist entry not found', 404);
+  }
+
+  const entry = result.rows[0];
+  const offerOpen = entry.status === 'offered' && !!entry.offer_expires_at && new Date(entry.offer_expires_at) > new Date();
+  // Offers past their expiry are only marked expired by the next job run
+  let status = entry.status;
+  if (entry.status === 'offered' && !offerOpen) {
+    status = entry.offer_expires_at ? 'expired' : 'waiting';
+  }
+
+  return {
+    id: entry.id,
+    status,
+    tenant_id: entry.tenant_id,
+    tenant_slug: entry.tenant_slug,
+    tenant_name: entry.tenant_name,
+    tenant_name_ar: entry.tenant_name_ar,
+    service_id: entry.service_id,
+    service_name: entry.service_name,
+    service_name_ar: entry.service_name_ar,
+    slot_date: entry.slot_date_text,
+    visitor_count: entry.visitor_count,
+    position: entry.status === 'waiting' ? parseInt(entry.waiting_ahead) + 1 : null,
+    slot: entry.display_slot_id
+      ? {
+          id: entry.display_slot_id,
+          slot_date: entry.display_slot_date,
+          start_time: entry.start_time,
+          end_time: entry.end_time,
+        }
+      : null,
+    offer: offerOpen
+      ? {
+          lock_id: entry.lock_id,
+          session_id: getSessionId(entry.token),
+          expires_at: entry.offer_expires_at,
+        }
+      : null,
+  };
+}
+
+/**
+ * Leave the waitlist. An open offer is released so the next customer can get it.
+ */
+export async function leaveWaitlist(token: string) {
+  const result = await query(
+    `UPDATE waitlist_entries
+     SET status = 'cancelled', updated_at = now()
+     WHERE token = $1 AND status IN ('waiting', 'offered')
+     RETURNING id, lock_id`,
+    [token]
+  );
+
+  if (result.rows.length === 0) {
+    const exists = await query(`SELECT status FROM waitlist_entries WHERE token = $1`, [token]);
+    if (exists.rows.length === 0) {
+      throw new WaitlistError('Waitlist entry not found', 404);
+    }
+    throw new WaitlistError(`Waitlist entry is already ${exists.rows[0].status}`, 409);
+  }
+
+  const { lock_id } = result.rows[0];
+  if (lock_id) {
+    await query(`DELETE FROM booking_locks WHERE id = $1`, [lock_id]);
+    offerReleasedCapacity();
+  }
+}
+
+/**
+ * Mark the offer held by a booking lock as claimed. Called inside the booking
+ * transaction that consumes the lock.
+ */
+export async function markWaitlistOfferClaimed(client: PoolClient, lockId: string, bookingId: string) {
+  await client.query(
+    `UPDATE waitlist_entries
+     SET status = 'claimed', claimed_booking_id = $2, updated_at = now()
+     WHERE lock_id = $1 AND status = 'offered'`,
+    [lockId, bookingId]
+  );
+}
+
+async function expireWaitlist(): Promise<void> {
+  const expiredOffers = await query(
+    `UPDATE waitlist_entries
+     SET status = 'expired', updated_at = now()
+     WHERE status = 'offered' AND offer_expires_at <= now()
+     RETURNING lock_id`,
+    []
+  );
+
+  const lockIds = expiredOffers.rows.map(row => row.lock_id).filter(Boolean);
+  if (lockIds.length > 0) {
+    await query(`DELETE FROM booking_locks WHERE id = ANY($1::uuid[])`, [lockIds]);
+  }
+
+  // Entries for times that have passed can no longer be offered
+  await query(
+    `UPDATE waitlist_entries w
+     SET status = 'expired', updated_at = now()
+     FROM tenants t
+     WHERE t.id = w.tenant_id
+       AND w.status = 'waiting'
+       AND (
+         w.slot_date < ${TENANT_TODAY_SQL}
+         OR EXISTS (
+           SELECT 1 FROM slots sl
+           WHERE sl.id = w.slot_id AND ${SLOT_STARTS_AT_SQL} <= now()
+         )
+       )`,
+    []
+  );
+}
+
+async function notifyOffer(offer: any): Promise<void> {
+  const claimUrl = `${PUBLIC_APP_URL}/${offer.tenant_slug}/waitlist/${offer.token}`;
+  const isArabic = offer.language === 'ar';
+
+  if (offer.has_whatsapp && offer.customer_phone) {
+    const whatsappConfig = await getTenantWhatsAppConfig(offer.tenant_id);
+    if (whatsappConfig) {
+      const message = isArabic
+        ? `أصبح مكانك متاحاً!\n\n` +
+          `الخدمة: ${offer.service_name_ar || offer.service_name}\n` +
+          `التاريخ: ${offer.slot_date_text}\n` +
+          `الوقت: ${offer.start_time} - ${offer.end_time}\n\n` +
+          `تم حجز المكان لك لمدة ${OFFER_MINUTES} دقيقة. احجز الآن:\n${claimUrl}`
+        : `A spot opened up for you!\n\n` +
+          `Service: ${offer.service_name}\n` +
+          `Date: ${offer.slot_date_text}\n` +
+          `Time: ${offer.start_time} - ${offer.end_time}\n\n` +
+          `We are holding it for ${OFFER_MINUTES} minutes. Book now:\n${claimUrl}`;
+      const result = await sendWhatsAppMessage(offer.customer_phone, message, whatsappConfig);
+      if (!result.success) {
+        console.error(`[Waitlist] ❌ WhatsApp offer failed for entry ${offer.id}: ${result.error}`);
+      }
+    }
+  }
+
+  if (offer.has_smtp && offer.customer_email) {
+    const result = await sendWaitlistOfferEmail(
+      offer.customer_email,
+      offer.tenant_id,
+      {
+        service_name: offer.service_name,
+        service_name_ar: offer.service_name_ar,
+        slot_date: offer.slot_date_text,
+        start_time: offer.start_time,
+        end_time: offer.end_time,
+        tenant_name: offer.tenant_name,
+        tenant_name_ar: offer.tenant_name_ar,
+        claim_url: claimUrl,
+        expires_in_minutes: OFFER_MINUTES,
+      },
+      isArabic ? 'ar' : 'en'
+    );
+    if (!result.success) {
+      console.error(`[Waitlist] ❌ Email offer failed for entry ${offer.id}: ${result.error}`);
+    }
+  }
+}
+
+/**
+ * Try to hold a slot for a waiting entry. Returns false if the entry was taken by
+ * another run or the capacity is gone.
+ * The claim, the lock and the offer expiry are written in one transaction, so an entry is
+ * never left offered without a lock to expire it.
+ */
+async function offerSlot(candidate: any): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const claimed = await client.query(
+      `UPDATE waitlist_entries
+       SET status = 'offered', offered_slot_id = $2, offered_at = now(), updated_at = now()
+       WHERE id = $1 AND status = 'waiting'
+       RETURNING id`,
+      [candidate.id, candidate.candidate_slot_id]
+    );
+    if (claimed.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    let lockId: string | null = null;
+    try {
+      const lockResult = await client.query(
+        `SELECT acquire_booking_lock($1, $2, $3, $4) as lock_id`,
+        [candidate.candidate_slot_id, getSessionId(candidate.token), candidate.visitor_count, OFFER_MINUTES * 60]
+      );
+      lockId = lockResult.rows[0]?.lock_id || null;
+    } catch (error: any) {
+      console.warn(`[Waitlist] Could not hold slot ${candidate.candidate_slot_id} for entry ${candidate.id}: ${error.message}`);
+    }
+
+    if (!lockId) {
+      // The entry goes back to waiting with the claim
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    await client.query(
+      `UPDATE waitlist_entries w
+       SET lock_id = bl.id, offer_expires_at = bl.lock_expires_at, updated_at = now()
+       FROM booking_locks bl
+       WHERE w.id = $1 AND bl.id = $2`,
+      [candidate.id, lockId]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  try {
+    await notifyOffer(candidate);
+  } catch (error: any) {
+    console.error(`[Waitlist] ❌ Failed to notify entry ${candidate.id}: ${error.message}`);
+  }
+  return true;
+}
+
+/**
+ * Expire stale offers and offer released capacity to waiting customers, oldest first.
+ * Returns the number of offers made.
+ */
+export async function processWaitlistOffers(): Promise<number> {
+  await expireWaitlist();
+
+  const candidates = await query(
+    `SELECT w.id, w.tenant_id, w.token, w.visitor_count, w.language,
+      w.customer_phone, w.customer_email,
+      sl.id as candidate_slot_id, to_char(sl.slot_date, 'YYYY-MM-DD') as slot_date_text,
+      sl.start_time, sl.end_time,
+      s.name as service_name, s.name_ar as service_name_ar,
+      t.slug as tenant_slug, t.name as tenant_name, t.name_ar as tenant_name_ar,
+      t.whatsapp_settings IS NOT NULL as has_whatsapp,
+      t.smtp_settings IS NOT NULL as has_smtp
+     FROM waitlist_entries w
+     JOIN slots sl ON (
+       sl.id = w.slot_id
+       OR (w.slot_id IS NULL AND sl.service_id = w.service_id AND sl.slot_date = w.slot_date)
+     )
+     JOIN services s ON w.service_id = s.id
+     JOIN tenants t ON w.tenant_id = t.id
+     WHERE w.status = 'waiting'
+       AND t.is_active = true
+       AND sl.is_available = true
+       AND ${SLOT_STARTS_AT_SQL} > now()
+       AND ${FREE_CAPACITY_SQL} >= w.visitor_count
+     ORDER BY w.created_at ASC, sl.start_time ASC`,
+    []
+  );
+
+  let offered = 0;
+  const handled = new Set<string>();
+
+  for (const candidate of candidates.rows) {
+    // An "any slot" entry matches several slots; it only gets one offer
+    if (handled.has(candidate.id)) {
+      continue;
+    }
+    if (await offerSlot(candidate)) {
+      handled.add(candidate.id);
+      offered++;
+    }
+  }
+
+  return offered;
+}
+
+/**
+ * Offer capacity released by a request (e.g. a cancellation) right away instead of
+ * waiting for the next job run. Runs after the response is sent.
+ */
+export function offerReleasedCapacity(): void {
+  process.nextTick(async () => {
+    try {
+      await processWaitlistOffers();
+    } catch (error: any) {
+      console.error('[Waitlist] ⚠️ Failed to process waitlist offers:', error.message);
+    }
+  });
+}
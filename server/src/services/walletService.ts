@@ -0,0 +1,175 @@
+import { PoolClient } from 'pg';
+
+type Executor = PoolClient | { query: (text: string, params?: any[]) => Promise<any> };
+
+export class WalletError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'WalletError';
+    this.status = status;
+  }
+}
+
+export type WalletTransactionSource = 'gift_card' | 'refund' | 'booking' | 'adjustment';
+
+export interface WalletTransactionRequest {
+  tenantId: string;
+  customerId: string;
+  amount: number;
+  source: WalletTransactionSource;
+  bookingId?: string | null;
+  giftCardId?: string | null;
+  refundId?: string | null;
+  note?: string | null;
+  createdByUserId?: string | null;
+  language?: string;
+}
+
+function toMoney(value: any): number {
+  return Math.round(parseFloat(value || '0') * 100) / 100;
+}
+
+/**
+ * Find the tenant customer record for a phone number, creating it when the customer
+ * has never booked (gift card recipients often haven't).
+ */
+export async function findOrCreateCustomer(
+  client: PoolClient,
+  tenantId: string,
+  phone: string,
+  details: { name?: string | null; email?: string | null } = {}
+) {
+  const result = await client.query(
+    `INSERT INTO customers (tenant_id, phone, name, email)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (tenant_id, phone) DO UPDATE
+       SET name = COALESCE(customers.name, EXCLUDED.name),
+           email = COALESCE(customers.email, EXCLUDED.email)
+     RETURNING *`,
+    [tenantId, phone, details.name || null, details.email || null]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Tenant customer record for a phone number, or null when there is none
+ */
+export async function findCustomerByPhone(executor: Executor, tenantId: string, phone: string) {
+  const result = await executor.query(
+    `SELECT id, tenant_id, phone, name, email, wallet_balance FROM customers WHERE tenant_id = $1 AND phone = $2`,
+    [tenantId, phone]
+  );
+  return result.rows[0] || null;
+}
+
+async function recordTransaction(
+  client: PoolClient,
+  type: 'credit' | 'debit',
+  request: WalletTransactionRequest,
+  amount: number,
+  balanceAfter: number
+) {
+  const result = await client.query(
+    `INSERT INTO wallet_transactions (
+      tenant_id, customer_id, type, amount, balance_after, source,
+      booking_id, gift_card_id, refund_id, note, created_by_user_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      request.tenantId,
+      request.customerId,
+      type,
+      amount,
+      balanceAfter,
+      request.source,
+      request.bookingId || null,
+      request.giftCardId || null,
+      request.refundId || null,
+      request.note || null,
+      request.createdByUserId || null,
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Add credit to a customer wallet and record it in the ledger
+ */
+export async function creditWallet(client: PoolClient, request: WalletTransactionRequest) {
+  const amount = toMoney(request.amount);
+  if (!(amount > 0)) {
+    throw new WalletError('Wallet credit must be greater than zero');
+  }
+
+  const result = await client.query(
+    `UPDATE customers
+     SET wallet_balance = wallet_balance + $1, updated_at = now()
+     WHERE id = $2 AND tenant_id = $3
+     RETURNING wallet_balance`,
+    [amount, request.customerId, request.tenantId]
+  );
+  if (result.rows.length === 0) {
+    throw new WalletError('Customer not found', 404);
+  }
+
+  return recordTransaction(client, 'credit', request, amount, toMoney(result.rows[0].wallet_balance));
+}
+
+/**
+ * Spend from a customer wallet and record it in the ledger.
+ * Throws WalletError (in the request language) when the balance is not enough.
+ */
+export async function debitWallet(client: PoolClient, request: WalletTransactionRequest) {
+  const amount = toMoney(request.amount);
+  if (!(amount > 0)) {
+    throw new WalletError('Wallet debit must be greater than zero');
+  }
+
+  const result = await client.query(
+    `UPDATE customers
+     SET wallet_balance = wallet_balance - $1, updated_at = now()
+     WHERE id = $2 AND tenant_id = $3 AND wallet_balance >= $1
+     RETURNING wallet_balance`,
+    [amount, request.customerId, request.tenantId]
+  );
+  if (result.rows.length === 0) {
+    throw new WalletError(
+      request.language === 'ar' ? 'رصيد المحفظة غير كافٍ' : 'Insufficient wallet balance',
+      409
+    );
+  }
+
+  return recordTransaction(client, 'debit', request, amount, toMoney(result.rows[0].wallet_balance));
+}
+
+/**
+ * Wallet balance and most recent ledger entries of a customer
+ */
+export async function getWallet(executor: Executor, tenantId: string, customerId: string, limit: number = 50) {
+  const customerResult = await executor.query(
+    `SELECT id, phone, name, email, wallet_balance FROM customers WHERE id = $1 AND tenant_id = $2`,
+    [customerId, tenantId]
+  );
+  if (customerResult.rows.length === 0) {
+    throw new WalletError('Customer not found', 404);
+  }
+
+  const transactions = await executor.query(
+    `SELECT wt.*, g.code as gift_card_code
+     FROM wallet_transactions wt
+     LEFT JOIN gift_cards g ON wt.gift_card_id = g.id
+     WHERE wt.customer_id = $1
+     ORDER BY wt.created_at DESC
+     LIMIT $2`,
+    [customerId, limit]
+  );
+
+  const customer = customerResult.rows[0];
+  return {
+    customer: { id: customer.id, phone: customer.phone, name: customer.name, email: customer.email },
+    balance: toMoney(customer.wallet_balance),
+    transactions: transactions.rows,
+  };
+}
@@ -411,6 +411,106 @@ export async function sendOTPWhatsApp(
   }
 }
 
+/**
+ * Send a plain text message via WhatsApp (e.g. booking reminders)
+ * Supports multiple providers: Meta, Twilio, WATI
+ */
+export async function sendWhatsAppMessage(
+  phoneNumber: string,
+  messageText: string,
+  config: WhatsAppConfig
+): Promise<{ success: boolean; error?: string }> {
+  if (!config || !config.provider) {
+    console.error('❌ WhatsApp config is required. Settings must be configured in database.');
+    return { success: false, error: 'WhatsApp not configured. Please configure WhatsApp settings in tenant settings.' };
+  }
+
+  if (!phoneNumber || phoneNumber.trim() === '') {
+    return { success: false, error: 'Phone number is required' };
+  }
+
+  const formattedPhone = phoneNumber.replace(/^\+/, '').replace(/\s/g, '');
+
+  try {
+    switch (config.provider) {
+      case 'meta': {
+        if (!config.phoneNumberId || !config.accessToken) {
+          return { success: false, error: 'WhatsApp Meta API not configured' };
+        }
+        const response = await axios.post(
+          `https://graph.facebook.com/v22.0/${config.phoneNumberId}/messages`,
+          {
+            messaging_product: 'whatsapp',
+            to: formattedPhone,
+            type: 'text',
+            text: { body: messageText },
+          },
+          {
+            headers: {
+              'Authorization': `Bearer ${config.accessToken}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        );
+        if (response.data.messages && response.data.messages[0]?.id) {
+          return { success: true };
+        }
+        return { success: false, error: 'Unexpected response from Meta API' };
+      }
+      case 'twilio': {
+        if (!config.accountSid || !config.authToken) {
+          return { success: false, error: 'Twilio not configured' };
+        }
+        const response = await axios.post(
+          `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+          new URLSearchParams({
+            From: config.from || 'whatsapp:+14155238886',
+            To: `whatsapp:+${formattedPhone}`,
+            Body: messageText,
+          }),
+          {
+            auth: {
+              username: config.accountSid,
+              password: config.authToken,
+            },
+            headers: {
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+          }
+        );
+        return response.data.sid ? { success: true } : { success: false, error: 'Unexpected response from Twilio' };
+      }
+      case 'wati': {
+        if (!config.apiKey) {
+          return { success: false, error: 'WATI API key not configured' };
+        }
+        const response = await axios.post(
+          `${config.apiUrl || 'https://api.wati.io'}/v1/sendSessionMessage/${formattedPhone}`,
+          { messageText },
+          {
+            headers: {
+              'Authorization': `Bearer ${config.apiKey}`,
+              'Content-Type': 'application/json',
+            },
+          }
+        );
+        return response.data.result === 'success' || response.status === 200
+          ? { success: true }
+          : { success: false, error: 'Unexpected response from WATI' };
+      }
+      default:
+        return { success: false, error: `Unsupported WhatsApp provider: ${config.provider}` };
+    }
+  } catch (error: any) {
+    console.error('❌ WhatsApp message sending error:', error.response?.data || error.message);
+    return {
+      success: false,
+      error: error.response?.data?.error?.message || error.response?.data?.message || error.message || 'Failed to send WhatsApp message',
+    };
+  }
+}
+
 /**
  * Send document (PDF) via WhatsApp
  */
@@ -29,6 +29,11 @@ interface ZohoInvoiceData {
   currency_code: string;
   notes?: string;
   custom_fields?: Record<string, any>;
+  // Invoice-level discount (e.g. a promo code), shown as a discount line before tax
+  discount?: {
+    amount: number;
+    description: string;
+  };
 }
 
 interface ZohoInvoiceResponse {
@@ -427,6 +432,13 @@ class ZohoService {
     if (invoiceData.notes) {
       payload.notes = invoiceData.notes;
     }
+
+    if (invoiceData.discount && invoiceData.discount.amount > 0) {
+      payload.discount = invoiceData.discount.amount;
+      payload.discount_type = 'entity_level';
+      payload.is_discount_before_tax = true;
+      payload.notes = [payload.notes, invoiceData.discount.description].filter(Boolean).join('\n');
+    }
     
     // Log payload for debugging (remove sensitive data in production)
     console.log('[ZohoService] Invoice payload:', JSON.stringify({ ...payload, customer_email: '***' }, null, 2));
@@ -945,8 +957,10 @@ class ZohoService {
         }
       } else {
         // Single line item for total price
-        // Use the actual total_price from booking (which already accounts for offers)
-        const totalPrice = parseFloat(booking.total_price.toString());
+        // Use the actual total_price from booking (which already accounts for offers);
+        // a promo discount was taken off total_price and is added back here, then applied as the invoice discount
+        const totalPrice = parseFloat(booking.total_price.toString()) + parseFloat(booking.discount_amount?.toString() || '0');
+        const quantity = booking.visitor_count || 1;
         
         // Build item name - include offer name if offer is used
         let itemName = serviceName;
@@ -965,8 +979,8 @@ class ZohoService {
         lineItems.push({
           name: itemName,
           description: serviceDescription,
-          rate: totalPrice,
-          quantity: booking.visitor_count || 1,
+          rate: Math.round((totalPrice / quantity) * 100) / 100,
+          quantity,
           unit: 'ticket',
         });
       }
@@ -1010,6 +1024,12 @@ class ZohoService {
         currency_code: 'SAR',
         notes: booking.notes || `Booking ID: ${booking.id}`,
         custom_fields: customFields,
+        discount: parseFloat(booking.discount_amount?.toString() || '0') > 0
+          ? {
+              amount: parseFloat(booking.discount_amount.toString()),
+              description: `Promo code ${booking.promo_code}`,
+            }
+          : undefined,
       };
     } finally {
       client.release();
@@ -1332,6 +1352,233 @@ class ZohoService {
       client.release();
     }
   }
+
+  /**
+   * Create a credit note in Zoho and apply it to the original invoice
+   */
+  async createCreditNote(
+    tenantId: string,
+    invoiceId: string,
+    creditNoteData: {
+      customer_name: string;
+      customer_email?: string;
+      amount: number;
+      description: string;
+      date: string;
+      currency_code: string;
+      reference_number?: string;
+      notes?: string;
+    }
+  ): Promise<{ creditnote_id: string; creditnote_number: string }> {
+    const accessToken = await this.getAccessToken(tenantId);
+    const customerId = await this.getOrCreateCustomer(tenantId, creditNoteData.customer_name, creditNoteData.customer_email);
+
+    if (!customerId) {
+      throw new Error('Failed to get or create customer: No customer_id returned');
+    }
+
+    const payload: any = {
+      customer_id: customerId,
+      date: creditNoteData.date,
+      currency_code: creditNoteData.currency_code || 'SAR',
+      reference_number: creditNoteData.reference_number,
+      line_items: [
+        {
+          name: 'Refund',
+          description: creditNoteData.description,
+          rate: creditNoteData.amount,
+          quantity: 1,
+        },
+      ],
+    };
+
+    if (creditNoteData.notes) {
+      payload.notes = creditNoteData.notes;
+    }
+
+    const headers = {
+      'Authorization': `Zoho-oauthtoken ${accessToken}`,
+      'Content-Type': 'application/json',
+    };
+
+    let creditNote: any;
+    try {
+      const response = await axios.post(`${this.apiBaseUrl}/creditnotes`, payload, { headers });
+      creditNote = response.data.creditnote;
+      if (!creditNote?.creditnote_id) {
+        throw new Error(`Unexpected Zoho response: ${JSON.stringify(response.data)}`);
+      }
+      console.log(`[ZohoService] ✅ Credit note created: ${creditNote.creditnote_id} (${creditNote.creditnote_number})`);
+    } catch (error: any) {
+      const axiosError = error as AxiosError;
+      if (axiosError.response) {
+        console.error('[ZohoService] Credit note creation failed:', {
+          status: axiosError.response.status,
+          data: axiosError.response.data,
+        });
+        throw new Error(`Zoho API error: ${JSON.stringify(axiosError.response.data)}`);
+      }
+      throw error;
+    }
+
+    // Apply the credit to the invoice so the invoice balance reflects the refund.
+    // Not fatal: the credit note exists and can be applied manually in Zoho.
+    try {
+      await axios.post(
+        `${this.apiBaseUrl}/creditnotes/${creditNote.creditnote_id}/invoices`,
+        { invoices: [{ invoice_id: invoiceId, amount_applied: creditNoteData.amount }] },
+        { headers }
+      );
+      console.log(`[ZohoService] ✅ Credit note ${creditNote.creditnote_id} applied to invoice ${invoiceId}`);
+    } catch (error: any) {
+      const axiosError = error as AxiosError;
+      console.error(
+        `[ZohoService] ⚠️  Failed to apply credit note ${creditNote.creditnote_id} to invoice ${invoiceId}:`,
+        axiosError.response?.data || error.message
+      );
+    }
+
+    return {
+      creditnote_id: creditNote.creditnote_id,
+      creditnote_number: creditNote.creditnote_number,
+    };
+  }
+
+  /**
+   * Generate the Zoho credit note for a refund and store its id on the refund
+   */
+  async generateCreditNote(refundId: string): Promise<{ creditNoteId: string; success: boolean; error?: string }> {
+    try {
+      const refundResult = await query(
+        `SELECT r.*, b.zoho_invoice_id, b.customer_name, b.customer_email,
+                s.name as service_name
+         FROM refunds r
+         JOIN bookings b ON r.booking_id = b.id
+         JOIN services s ON b.service_id = s.id
+         WHERE r.id = $1`,
+        [refundId]
+      );
+
+      if (refundResult.rows.length === 0) {
+        throw new Error(`Refund ${refundId} not found`);
+      }
+
+      const refund = refundResult.rows[0];
+
+      if (refund.zoho_credit_note_id) {
+        console.log(`[ZohoService] Credit note already exists for refund ${refundId}: ${refund.zoho_credit_note_id}`);
+        return { creditNoteId: refund.zoho_credit_note_id, success: true };
+      }
+
+      if (!refund.zoho_invoice_id) {
+        throw new Error(`Booking ${refund.booking_id} has no Zoho invoice to credit`);
+      }
+
+      const ticketParts: string[] = [];
+      if (refund.adult_tickets > 0) ticketParts.push(`${refund.adult_tickets} adult`);
+      if (refund.child_tickets > 0) ticketParts.push(`${refund.child_tickets} child`);
+      const description = ticketParts.length > 0
+        ? `${refund.service_name} - ${refund.refund_type} refund (${ticketParts.join(', ')} ticket(s))`
+        : `${refund.service_name} - ${refund.refund_type} refund`;
+
+      const creditNote = await this.createCreditNote(refund.tenant_id, refund.zoho_invoice_id, {
+        customer_name: refund.customer_name,
+        customer_email: refund.customer_email || undefined,
+        amount: parseFloat(refund.amount),
+        description,
+        date: new Date(refund.created_at).toISOString().split('T')[0],
+        currency_code: refund.currency || 'SAR',
+        reference_number: refund.booking_id,
+        notes: refund.reason || undefined,
+      });
+
+      await query(
+        `UPDATE refunds SET zoho_credit_note_id = $1 WHERE id = $2`,
+        [creditNote.creditnote_id, refundId]
+      );
+
+      return { creditNoteId: creditNote.creditnote_id, success: true };
+    } catch (error: any) {
+      console.error(`[ZohoService] Failed to generate credit note for refund ${refundId}:`, error.message);
+      return { creditNoteId: '', success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Generate the Zoho invoice for a package bought online, store its id on the subscription
+   * and deliver it to the customer by email and WhatsApp
+   */
+  async generatePackageInvoice(subscriptionId: string): Promise<{ invoiceId: string; success: boolean; error?: string }> {
+    try {
+      const subscriptionResult = await query(
+        `SELECT ps.id, ps.tenant_id, ps.price, ps.subscribed_at, ps.zoho_invoice_id,
+                sp.name as package_name, sp.description as package_description,
+                c.name as customer_name, c.email as customer_email, c.phone as customer_phone
+         FROM package_subscriptions ps
+         JOIN service_packages sp ON ps.package_id = sp.id
+         JOIN customers c ON ps.customer_id = c.id
+         WHERE ps.id = $1`,
+        [subscriptionId]
+      );
+
+      if (subscriptionResult.rows.length === 0) {
+        throw new Error(`Package subscription ${subscriptionId} not found`);
+      }
+
+      const subscription = subscriptionResult.rows[0];
+
+      if (subscription.zoho_invoice_id) {
+        console.log(`[ZohoService] Invoice already exists for package subscription ${subscriptionId}: ${subscription.zoho_invoice_id}`);
+        return { invoiceId: subscription.zoho_invoice_id, success: true };
+      }
+
+      const invoiceResponse = await this.createInvoice(subscription.tenant_id, {
+        customer_name: subscription.customer_name || subscription.customer_phone,
+        customer_email: subscription.customer_email || undefined,
+        customer_phone: subscription.customer_phone || undefined,
+        line_items: [{
+          name: subscription.package_name,
+          description: subscription.package_description || undefined,
+          rate: parseFloat(subscription.price || '0'),
+          quantity: 1,
+        }],
+        date: new Date(subscription.subscribed_at || Date.now()).toISOString().split('T')[0],
+        currency_code: 'SAR',
+        notes: `Package subscription: ${subscription.id}`,
+      });
+
+      if (!invoiceResponse.invoice || !invoiceResponse.invoice.invoice_id) {
+        throw new Error('Zoho did not return an invoice id');
+      }
+
+      const invoiceId = invoiceResponse.invoice.invoice_id;
+      await query(
+        `UPDATE package_subscriptions SET zoho_invoice_id = $1, zoho_invoice_created_at = now() WHERE id = $2`,
+        [invoiceId, subscriptionId]
+      );
+
+      // Delivery failures don't fail the job: the invoice exists and can be resent from Zoho
+      if (subscription.customer_email) {
+        try {
+          await this.sendInvoiceEmail(subscription.tenant_id, invoiceId, subscription.customer_email);
+        } catch (emailError: any) {
+          console.error(`[ZohoService] Failed to email package invoice ${invoiceId}:`, emailError.message);
+        }
+      }
+      if (subscription.customer_phone) {
+        try {
+          await this.sendInvoiceViaWhatsApp(subscription.tenant_id, invoiceId, subscription.customer_phone);
+        } catch (whatsappError: any) {
+          console.error(`[ZohoService] Failed to send package invoice ${invoiceId} via WhatsApp:`, whatsappError.message);
+        }
+      }
+
+      return { invoiceId, success: true };
+    } catch (error: any) {
+      console.error(`[ZohoService] Failed to generate invoice for package subscription ${subscriptionId}:`, error.message);
+      return { invoiceId: '', success: false, error: error.message };
+    }
+  }
 }
 
 export const zohoService = new ZohoService();
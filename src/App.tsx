@@ -13,18 +13,24 @@ import { TenantDashboard } from './pages/tenant/TenantDashboard';
 import { ServicesPageWrapper } from './pages/tenant/ServicesPageWrapper';
 import { BookingsPageWrapper } from './pages/tenant/BookingsPageWrapper';
 import { EmployeesPageWrapper } from './pages/tenant/EmployeesPageWrapper';
+import { AuditLogPageWrapper } from './pages/tenant/AuditLogPageWrapper';
 import { SettingsPageWrapper } from './pages/tenant/SettingsPageWrapper';
 import { ReceptionPage } from './pages/reception/ReceptionPage';
-// ARCHIVED: import { EmployeePage } from './pages/employee/EmployeePage';
+import { EmployeePage } from './pages/employee/EmployeePage';
 import { PublicBookingPage } from './pages/public/PublicBookingPage';
 import { ServiceBookingFlow } from './pages/public/ServiceBookingFlow';
 import { PackageSchedulePage } from './pages/public/PackageSchedulePage';
 import { CheckoutPage } from './pages/public/CheckoutPage';
 import { PhoneEntryPage } from './pages/public/PhoneEntryPage';
 import { BookingSuccessPage } from './pages/public/BookingSuccessPage';
+import { WaitlistPage } from './pages/public/WaitlistPage';
+import { GiftCardPurchasePage } from './pages/public/GiftCardPurchasePage';
+import { PackagePurchasePage } from './pages/public/PackagePurchasePage';
 import { LandingPageBuilderWrapper } from './pages/tenant/LandingPageBuilderWrapper';
 import { PackagesPageWrapper } from './pages/tenant/PackagesPageWrapper';
 import { OffersPageWrapper } from './pages/tenant/OffersPageWrapper';
+import { PromoCodesPageWrapper } from './pages/tenant/PromoCodesPageWrapper';
+import { GiftCardsPageWrapper } from './pages/tenant/GiftCardsPageWrapper';
 import { CustomerSignupPage } from './pages/customer/CustomerSignupPage';
 import { CustomerLoginPage } from './pages/customer/CustomerLoginPage';
 import { CustomerForgotPasswordPage } from './pages/customer/CustomerForgotPasswordPage';
@@ -56,21 +62,27 @@ function AppContent() {
       <Route path="/:tenantSlug/admin/services" element={<ServicesPageWrapper />} />
       <Route path="/:tenantSlug/admin/packages" element={<PackagesPageWrapper />} />
       <Route path="/:tenantSlug/admin/offers" element={<OffersPageWrapper />} />
+      <Route path="/:tenantSlug/admin/promo-codes" element={<PromoCodesPageWrapper />} />
+      <Route path="/:tenantSlug/admin/gift-cards" element={<GiftCardsPageWrapper />} />
       <Route path="/:tenantSlug/admin/bookings" element={<BookingsPageWrapper />} />
       <Route path="/:tenantSlug/admin/employees" element={<EmployeesPageWrapper />} />
       <Route path="/:tenantSlug/admin/settings" element={<SettingsPageWrapper />} />
+      <Route path="/:tenantSlug/admin/activity" element={<AuditLogPageWrapper />} />
       <Route path="/:tenantSlug/admin/landing" element={<LandingPageBuilderWrapper />} />
       <Route path="/:tenantSlug/admin/debug/navigation" element={<NavigationTest />} />
 
       <Route path="/:tenantSlug/reception" element={<ReceptionPage />} />
-      {/* ARCHIVED: <Route path="/:tenantSlug/employee" element={<EmployeePage />} /> */}
+      <Route path="/:tenantSlug/employee" element={<EmployeePage />} />
 
       <Route path="/:tenantSlug/book" element={<PublicBookingPage />} />
       <Route path="/:tenantSlug/book/:serviceId" element={<ServiceBookingFlow />} />
       <Route path="/:tenantSlug/packages/:packageId/schedule" element={<PackageSchedulePage />} />
+      <Route path="/:tenantSlug/packages/:packageId/buy" element={<PackagePurchasePage />} />
       <Route path="/:tenantSlug/book/phone-entry" element={<PhoneEntryPage />} />
       <Route path="/:tenantSlug/book/checkout" element={<CheckoutPage />} />
       <Route path="/:tenantSlug/book/success" element={<BookingSuccessPage />} />
+      <Route path="/:tenantSlug/gift-cards" element={<GiftCardPurchasePage />} />
+      <Route path="/:tenantSlug/waitlist/:token" element={<WaitlistPage />} />
 
       {/* Customer Routes */}
       <Route path="/:tenantSlug/customer" element={<CustomerLandingPage />} />
@@ -0,0 +1,45 @@
+import { useTranslation } from 'react-i18next';
+import { Paperclip } from 'lucide-react';
+import { BookingFieldAnswer, BookingFileValue } from '../../types';
+import { formatBookingFieldAnswer, getBookingFieldLabel } from '../../lib/bookingFields';
+
+interface BookingFieldAnswersProps {
+  answers: BookingFieldAnswer[] | null | undefined;
+  className?: string;
+}
+
+/**
+ * A booking's answers to the service's custom booking form questions;
+ * uploaded files open in a new tab.
+ */
+export function BookingFieldAnswers({ answers, className = '' }: BookingFieldAnswersProps) {
+  const { i18n } = useTranslation();
+
+  if (!answers || answers.length === 0) return null;
+
+  return (
+    <dl className={`grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm ${className}`}>
+      {answers.map(answer => (
+        <div key={answer.id} className="flex gap-1 min-w-0">
+          <dt className="text-gray-500 flex-shrink-0">{getBookingFieldLabel(answer, i18n.language)}:</dt>
+          <dd className="text-gray-900 truncate">
+            {answer.type === 'file' ? (
+              <a
+                href={(answer.value as BookingFileValue).data_url}
+                download={(answer.value as BookingFileValue).filename}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+              >
+                <Paperclip className="w-3 h-3" />
+                {formatBookingFieldAnswer(answer, i18n.language)}
+              </a>
+            ) : (
+              formatBookingFieldAnswer(answer, i18n.language)
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,205 @@
+import { useTranslation } from 'react-i18next';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { BookingField, BookingFieldOption, BookingFieldType } from '../../types';
+
+interface BookingFieldsEditorProps {
+  fields: BookingField[];
+  onChange: (fields: BookingField[]) => void;
+}
+
+const FIELD_TYPES: { value: BookingFieldType; en: string; ar: string }[] = [
+  { value: 'text', en: 'Text', ar: 'نص' },
+  { value: 'number', en: 'Number', ar: 'رقم' },
+  { value: 'select', en: 'Dropdown', ar: 'قائمة منسدلة' },
+  { value: 'checkbox', en: 'Checkbox', ar: 'مربع اختيار' },
+  { value: 'date', en: 'Date', ar: 'تاريخ' },
+  { value: 'file', en: 'File upload', ar: 'رفع ملف' },
+];
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Service form section where the tenant defines the extra questions customers answer
+ * when booking the service: type, English/Arabic label, required, and dropdown options.
+ */
+export function BookingFieldsEditor({ fields, onChange }: BookingFieldsEditorProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+
+  function updateField(index: number, changes: Partial<BookingField>) {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  }
+
+  function addField() {
+    onChange([...fields, { id: crypto.randomUUID(), type: 'text', label: '', label_ar: '', required: false }]);
+  }
+
+  function removeField(index: number) {
+    onChange(fields.filter((_, i) => i !== index));
+  }
+
+  function moveField(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }
+
+  function changeType(index: number, type: BookingFieldType) {
+    const field = fields[index];
+    updateField(index, {
+      type,
+      options: type === 'select' ? (field.options?.length ? field.options : [{ value: crypto.randomUUID(), label: '', label_ar: '' }]) : undefined,
+    });
+  }
+
+  function updateOption(index: number, optionIndex: number, changes: Partial<BookingFieldOption>) {
+    const options = (fields[index].options || []).map((option, i) => (i === optionIndex ? { ...option, ...changes } : option));
+    updateField(index, { options });
+  }
+
+  function addOption(index: number) {
+    updateField(index, { options: [...(fields[index].options || []), { value: crypto.randomUUID(), label: '', label_ar: '' }] });
+  }
+
+  function removeOption(index: number, optionIndex: number) {
+    updateField(index, { options: (fields[index].options || []).filter((_, i) => i !== optionIndex) });
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">
+            {isArabic ? 'أسئلة نموذج الحجز' : 'Booking form questions'}
+          </h3>
+          <p className="text-xs text-gray-500">
+            {isArabic
+              ? 'معلومات إضافية يقدمها العميل عند حجز هذه الخدمة'
+              : 'Extra information customers provide when booking this service'}
+          </p>
+        </div>
+        <Button type="button" variant="secondary" size="sm" onClick={addField} icon={<Plus className="w-4 h-4" />}>
+          {isArabic ? 'إضافة سؤال' : 'Add question'}
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {fields.map((field, index) => (
+          <div key={field.id} className="border border-gray-200 rounded-lg p-3 space-y-3 bg-gray-50">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <select
+                value={field.type}
+                onChange={e => changeType(index, e.target.value as BookingFieldType)}
+                className={inputClassName}
+              >
+                {FIELD_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{isArabic ? type.ar : type.en}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={field.label}
+                onChange={e => updateField(index, { label: e.target.value })}
+                placeholder={isArabic ? 'السؤال (إنجليزي)' : 'Question (English)'}
+                className={inputClassName}
+                required
+              />
+              <input
+                type="text"
+                value={field.label_ar || ''}
+                onChange={e => updateField(index, { label_ar: e.target.value })}
+                placeholder={isArabic ? 'السؤال (عربي)' : 'Question (Arabic)'}
+                className={inputClassName}
+                dir="rtl"
+              />
+            </div>
+
+            {field.type === 'select' && (
+              <div className="space-y-2 pl-2">
+                {(field.options || []).map((option, optionIndex) => (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={option.label}
+                      onChange={e => updateOption(index, optionIndex, { label: e.target.value })}
+                      placeholder={isArabic ? 'الخيار (إنجليزي)' : 'Option (English)'}
+                      className={inputClassName}
+                      required
+                    />
+                    <input
+                      type="text"
+                      value={option.label_ar || ''}
+                      onChange={e => updateOption(index, optionIndex, { label_ar: e.target.value })}
+                      placeholder={isArabic ? 'الخيار (عربي)' : 'Option (Arabic)'}
+                      className={inputClassName}
+                      dir="rtl"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeOption(index, optionIndex)}
+                      disabled={(field.options || []).length <= 1}
+                      className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                      title={isArabic ? 'حذف الخيار' : 'Remove option'}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addOption(index)}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  + {isArabic ? 'إضافة خيار' : 'Add option'}
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={e => updateField(index, { required: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {isArabic ? 'مطلوب' : 'Required'}
+              </label>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveField(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title={isArabic ? 'تحريك لأعلى' : 'Move up'}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveField(index, 1)}
+                  disabled={index === fields.length - 1}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title={isArabic ? 'تحريك لأسفل' : 'Move down'}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeField(index)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title={isArabic ? 'حذف السؤال' : 'Remove question'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Paperclip, X } from 'lucide-react';
+import { BookingField, BookingFieldValues, BookingFileValue } from '../../types';
+import { getBookingFieldLabel, readBookingFile } from '../../lib/bookingFields';
+
+interface BookingFieldsFormProps {
+  fields: BookingField[];
+  values: BookingFieldValues;
+  onChange: (values: BookingFieldValues) => void;
+  // Validation messages per field id (see validateBookingFieldValues)
+  errors?: Record<string, string>;
+}
+
+/**
+ * Inputs for a service's custom booking form questions, used by the customer
+ * checkout and the reception booking form.
+ */
+export function BookingFieldsForm({ fields, values, onChange, errors = {} }: BookingFieldsFormProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+  const [fileErrors, setFileErrors] = useState<Record<string, string>>({});
+
+  if (fields.length === 0) return null;
+
+  function setValue(id: string, value: BookingFieldValues[string]) {
+    onChange({ ...values, [id]: value });
+  }
+
+  async function handleFile(id: string, file: File | undefined) {
+    setFileErrors(prev => ({ ...prev, [id]: '' }));
+    if (!file) return;
+    try {
+      setValue(id, await readBookingFile(file, i18n.language));
+    } catch (err) {
+      setFileErrors(prev => ({ ...prev, [id]: err instanceof Error ? err.message : String(err) }));
+    }
+  }
+
+  const inputClassName = (id: string) => `w-full px-3 py-2 border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    errors[id] ? 'border-red-500' : 'border-gray-300'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      {fields.map(field => {
+        const label = getBookingFieldLabel(field, i18n.language);
+        const value = values[field.id];
+        const error = errors[field.id] || fileErrors[field.id];
+
+        if (field.type === 'checkbox') {
+          return (
+            <div key={field.id}>
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={value === true}
+                  onChange={e => setValue(field.id, e.target.checked)}
+                  className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  {label}
+                  {field.required && <span className="text-red-500 ml-1">*</span>}
+                </span>
+              </label>
+              {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+            </div>
+          );
+        }
+
+        const file = field.type === 'file' ? value as BookingFileValue | undefined : undefined;
+
+        return (
+          <div key={field.id}>
+            <label htmlFor={`booking-field-${field.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+              {label}
+              {field.required && <span className="text-red-500 ml-1">*</span>}
+            </label>
+
+            {field.type === 'select' ? (
+              <select
+                id={`booking-field-${field.id}`}
+                value={typeof value === 'string' ? value : ''}
+                onChange={e => setValue(field.id, e.target.value)}
+                className={inputClassName(field.id)}
+              >
+                <option value="">{isArabic ? 'اختر...' : 'Select...'}</option>
+                {(field.options || []).map(option => (
+                  <option key={option.value} value={option.value}>
+                    {getBookingFieldLabel(option, i18n.language)}
+                  </option>
+                ))}
+              </select>
+            ) : field.type === 'file' ? (
+              file ? (
+                <div className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-sm">
+                  <Paperclip className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 truncate">{file.filename}</span>
+                  <button
+                    type="button"
+                    onClick={() => setValue(field.id, undefined)}
+                    className="text-gray-400 hover:text-red-600"
+                    title={isArabic ? 'إزالة الملف' : 'Remove file'}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  id={`booking-field-${field.id}`}
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={e => handleFile(field.id, e.target.files?.[0])}
+                  className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                />
+              )
+            ) : (
+              <input
+                id={`booking-field-${field.id}`}
+                type={field.type}
+                value={typeof value === 'string' ? value : ''}
+                onChange={e => setValue(field.id, e.target.value)}
+                className={inputClassName(field.id)}
+              />
+            )}
+
+            {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, ArrowRightLeft, UserCheck } from 'lucide-react';
+import { db } from '../../lib/db';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+
+interface ReassignmentBooking {
+  id: string;
+  status: string;
+  customer_name: string;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  current_employee_id: string | null;
+  current_employee_name: string | null;
+  current_employee_name_ar: string | null;
+}
+
+interface Candidate {
+  employee_id: string;
+  full_name: string;
+  full_name_ar: string | null;
+  available_capacity: number;
+  bookings_that_day: number;
+}
+
+interface DayResult {
+  moved: Array<{ booking_id: string; customer_name: string; start_time: string; employee_name: string; employee_name_ar: string | null }>;
+  unassigned: Array<{ booking_id: string; customer_name: string; start_time: string; reason: string }>;
+}
+
+interface ReassignBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bookingId: string | null;
+  onReassigned: () => void;
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Move a booking to another employee who offers the service and is free at its time, or move all
+ * of the employee's bookings that day. The customer receives the updated ticket.
+ */
+export function ReassignBookingModal({ isOpen, onClose, bookingId, onReassigned }: ReassignBookingModalProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+
+  const [booking, setBooking] = useState<ReassignmentBooking | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [dayTarget, setDayTarget] = useState('');
+  const [dayResult, setDayResult] = useState<DayResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen && bookingId) {
+      setDayTarget('');
+      setDayResult(null);
+      setError('');
+      fetchCandidates();
+    }
+  }, [isOpen, bookingId]);
+
+  async function request(path: string, init: RequestInit = {}) {
+    const { data: { session } } = await db.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Not authenticated. Please log in again.');
+    }
+
+    const response = await fetch(`${API_URL}/bookings${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  }
+
+  async function fetchCandidates() {
+    setLoading(true);
+    try {
+      const data = await request(`/${bookingId}/reassignment-candidates`);
+      setBooking(data.booking);
+      setCandidates(data.candidates || []);
+    } catch (err) {
+      setBooking(null);
+      setCandidates([]);
+      setError(err instanceof Error ? err.message : 'Failed to load employees');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleReassign(candidate: Candidate) {
+    setError('');
+    setSaving(true);
+    try {
+      await request(`/${bookingId}/reassign`, {
+        method: 'POST',
+        body: JSON.stringify({ employee_id: candidate.employee_id }),
+      });
+      onReassigned();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reassign booking');
+      await fetchCandidates();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleReassignDay() {
+    if (!booking?.current_employee_id) return;
+    const employeeName = isArabic
+      ? booking.current_employee_name_ar || booking.current_employee_name
+      : booking.current_employee_name;
+    if (!confirm(isArabic
+      ? `نقل جميع حجوزات ${employeeName} في ${booking.slot_date}؟`
+      : `Move all of ${employeeName}'s bookings on ${booking.slot_date}?`)) return;
+
+    setError('');
+    setSaving(true);
+    try {
+      const data = await request('/reassign-day', {
+        method: 'POST',
+        body: JSON.stringify({
+          from_employee_id: booking.current_employee_id,
+          date: booking.slot_date,
+          to_employee_id: dayTarget || null,
+        }),
+      });
+      setDayResult({ moved: data.moved || [], unassigned: data.unassigned || [] });
+      onReassigned();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reassign bookings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const reassignable = booking?.status === 'pending' || booking?.status === 'confirmed';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isArabic ? 'إعادة تعيين الحجز' : 'Reassign Booking'}
+      size="lg"
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        ) : booking && (
+          <>
+            <div className="p-3 rounded-lg bg-gray-50 text-sm text-gray-700">
+              <div className="font-medium text-gray-900">{booking.customer_name}</div>
+              <div>
+                {booking.slot_date} {booking.start_time}–{booking.end_time}
+                {' · '}
+                {isArabic ? 'الموظف الحالي:' : 'Currently with'}{' '}
+                {(isArabic ? booking.current_employee_name_ar || booking.current_employee_name : booking.current_employee_name)
+                  || (isArabic ? 'غير معيّن' : 'Unassigned')}
+              </div>
+            </div>
+
+            {!reassignable ? (
+              <p className="text-sm text-gray-600">
+                {isArabic ? 'يمكن إعادة تعيين الحجوزات المعلقة والمؤكدة فقط.' : 'Only pending and confirmed bookings can be reassigned.'}
+              </p>
+            ) : candidates.length === 0 ? (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                <AlertTriangle className="w-4 h-4" />
+                {isArabic
+                  ? 'لا يوجد موظف آخر يقدم هذه الخدمة ومتاح في هذا الوقت.'
+                  : 'No other employee offering this service is free at this time.'}
+              </div>
+            ) : (
+              <ul className="divide-y border rounded-lg">
+                {candidates.map(candidate => (
+                  <li key={candidate.employee_id} className="flex items-center justify-between gap-3 p-3">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {isArabic ? candidate.full_name_ar || candidate.full_name : candidate.full_name}
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {isArabic
+                          ? `${candidate.bookings_that_day} حجز في هذا اليوم`
+                          : `${candidate.bookings_that_day} booking(s) that day`}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleReassign(candidate)}
+                      disabled={saving}
+                      icon={<UserCheck className="w-4 h-4" />}
+                    >
+                      {isArabic ? 'تعيين' : 'Assign'}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {reassignable && booking.current_employee_id && (
+              <div className="pt-4 border-t space-y-3">
+                <div className="text-sm font-medium text-gray-900">
+                  {isArabic
+                    ? `نقل جميع حجوزات ${booking.current_employee_name_ar || booking.current_employee_name} في ${booking.slot_date}`
+                    : `Move all of ${booking.current_employee_name}'s bookings on ${booking.slot_date}`}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <select
+                    value={dayTarget}
+                    onChange={e => setDayTarget(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">
+                      {isArabic ? 'تلقائياً: الموظف الأقل انشغالاً لكل حجز' : 'Automatic: least busy free colleague per booking'}
+                    </option>
+                    {candidates.map(candidate => (
+                      <option key={candidate.employee_id} value={candidate.employee_id}>
+                        {isArabic ? candidate.full_name_ar || candidate.full_name : candidate.full_name}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="secondary"
+                    onClick={handleReassignDay}
+                    loading={saving}
+                    icon={<ArrowRightLeft className="w-4 h-4" />}
+                  >
+                    {isArabic ? 'نقل الكل' : 'Move all'}
+                  </Button>
+                </div>
+
+                {dayResult && (
+                  <div className="space-y-2 text-sm">
+                    <div className="p-3 rounded-lg bg-green-50 border border-green-200 text-green-800">
+                      {isArabic
+                        ? `تم نقل ${dayResult.moved.length} حجز`
+                        : `${dayResult.moved.length} booking(s) moved`}
+                      {dayResult.moved.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {dayResult.moved.map(entry => (
+                            <li key={entry.booking_id}>
+                              {entry.start_time} · {entry.customer_name} → {isArabic ? entry.employee_name_ar || entry.employee_name : entry.employee_name}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    {dayResult.unassigned.length > 0 && (
+                      <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-900">
+                        <div className="font-medium">
+                          {isArabic
+                            ? `${dayResult.unassigned.length} حجز لم يتم نقله`
+                            : `${dayResult.unassigned.length} booking(s) could not be moved`}
+                        </div>
+                        <ul className="mt-1 space-y-0.5">
+                          {dayResult.unassigned.map(entry => (
+                            <li key={entry.booking_id}>
+                              {entry.start_time} · {entry.customer_name} · {entry.reason}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
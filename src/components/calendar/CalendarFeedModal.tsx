@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarPlus, Copy, Check, RefreshCw } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  authToken: string | null;
+  // Tenant admins can open an employee's feed; omitted for the user's own feed
+  employeeId?: string;
+  employeeName?: string;
+}
+
+interface FeedUrls {
+  url: string;
+  webcal_url: string;
+}
+
+export function CalendarFeedModal({ isOpen, onClose, authToken, employeeId, employeeName }: CalendarFeedModalProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+  const [feed, setFeed] = useState<FeedUrls | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setFeed(null);
+      setCopied(false);
+      fetchFeedUrl(false);
+    }
+  }, [isOpen, employeeId]);
+
+  async function fetchFeedUrl(reset: boolean) {
+    if (reset) {
+      setResetting(true);
+    } else {
+      setLoading(true);
+    }
+    setError('');
+
+    try {
+      const query = employeeId ? `?employee_id=${encodeURIComponent(employeeId)}` : '';
+      const response = await fetch(`${API_URL}/calendar/feed-url${reset ? '/reset' : ''}${query}`, {
+        method: reset ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken && { Authorization: `Bearer ${authToken}` }),
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load calendar feed');
+      }
+      setFeed(data);
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+      setResetting(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  function handleReset() {
+    const message = isArabic
+      ? 'سيتوقف الرابط الحالي عن العمل في جميع التقويمات المشتركة. هل تريد المتابعة؟'
+      : 'The current link will stop working in every calendar subscribed to it. Continue?';
+    if (confirm(message)) {
+      fetchFeedUrl(true);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={employeeName
+        ? `${isArabic ? 'تقويم' : 'Calendar'} - ${employeeName}`
+        : (isArabic ? 'الاشتراك في التقويم' : 'Subscribe to calendar')}
+      size="sm"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {isArabic
+            ? 'أضف هذا الرابط إلى تطبيق التقويم (Google أو Apple أو Outlook) لعرض الحجوزات وتحديثها تلقائياً. لا تشارك الرابط مع أحد.'
+            : 'Add this link to your calendar app (Google, Apple or Outlook) to see bookings and keep them up to date automatically. Keep the link private.'}
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : feed ? (
+          <>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+              />
+              <Button
+                variant="secondary"
+                onClick={handleCopy}
+                icon={copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              >
+                {copied ? (isArabic ? 'تم النسخ' : 'Copied') : (isArabic ? 'نسخ' : 'Copy')}
+              </Button>
+            </div>
+            <a href={feed.webcal_url} className="block">
+              <Button fullWidth icon={<CalendarPlus className="w-4 h-4" />}>
+                {isArabic ? 'فتح في تطبيق التقويم' : 'Open in calendar app'}
+              </Button>
+            </a>
+            <Button
+              variant="ghost"
+              fullWidth
+              loading={resetting}
+              onClick={handleReset}
+              icon={<RefreshCw className="w-4 h-4" />}
+            >
+              {isArabic ? 'إنشاء رابط جديد' : 'Generate new link'}
+            </Button>
+          </>
+        ) : null}
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CalendarX, Plus, Send, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Input } from '../ui/Input';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+interface Closure {
+  id: string;
+  name: string;
+  name_ar: string | null;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  recurs_yearly: boolean;
+}
+
+interface AffectedBooking {
+  id: string;
+  customer_name: string;
+  status: string;
+  closure_notified_at: string | null;
+  service_name: string;
+  service_name_ar: string | null;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  name_ar: '',
+  start_date: '',
+  end_date: '',
+  all_day: true,
+  start_time: '',
+  end_time: '',
+  recurs_yearly: false,
+};
+
+/**
+ * The tenant's closure calendar: holidays, date ranges and partial-day closures, once or every
+ * year. Slots in a closure are closed; bookings already made in it are listed so their customers
+ * can be asked to reschedule.
+ */
+export function ClosureCalendarCard() {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [affected, setAffected] = useState<{ closure: Closure; bookings: AffectedBooking[] } | null>(null);
+  const [notifying, setNotifying] = useState(false);
+
+  useEffect(() => {
+    fetchClosures();
+  }, []);
+
+  async function request(path: string, init: RequestInit = {}) {
+    const response = await fetch(`${API_URL}/tenants${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  }
+
+  async function fetchClosures() {
+    try {
+      const data = await request('/closures');
+      setClosures(data.closures || []);
+    } catch (err) {
+      console.error('Error loading closures:', err);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+    setSaving(true);
+    try {
+      const data = await request('/closures', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: form.name,
+          name_ar: form.name_ar || null,
+          start_date: form.start_date,
+          end_date: form.end_date || form.start_date,
+          start_time: form.all_day ? null : form.start_time,
+          end_time: form.all_day ? null : form.end_time,
+          recurs_yearly: form.recurs_yearly,
+        }),
+      });
+      setForm(EMPTY_FORM);
+      setAffected({ closure: data.closure, bookings: data.affected_bookings || [] });
+      setMessage({
+        type: 'success',
+        text: isArabic
+          ? `تمت إضافة الإغلاق وإغلاق ${data.slots_closed} موعد`
+          : `Closure added; ${data.slots_closed} slot(s) closed`,
+      });
+      await fetchClosures();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to add closure' });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function showAffected(closure: Closure) {
+    setMessage(null);
+    try {
+      const data = await request(`/closures/${closure.id}/bookings`);
+      setAffected({ closure, bookings: data.bookings || [] });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load bookings' });
+    }
+  }
+
+  async function handleDelete(closure: Closure) {
+    if (!confirm(isArabic ? `حذف "${closure.name_ar || closure.name}"؟` : `Remove "${closure.name}"?`)) return;
+    setMessage(null);
+    try {
+      await request(`/closures/${closure.id}`, { method: 'DELETE' });
+      if (affected?.closure.id === closure.id) {
+        setAffected(null);
+      }
+      await fetchClosures();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to remove closure' });
+    }
+  }
+
+  async function handleNotify() {
+    if (!affected) return;
+    setNotifying(true);
+    setMessage(null);
+    try {
+      const result = await request(`/closures/${affected.closure.id}/notify`, { method: 'POST' });
+      setMessage({
+        type: result.failed > 0 ? 'error' : 'success',
+        text: isArabic
+          ? `تم إشعار ${result.notified} عميل${result.failed > 0 ? `، وتعذر إشعار ${result.failed}` : ''}`
+          : `${result.notified} customer(s) notified${result.failed > 0 ? `, ${result.failed} could not be reached` : ''}`,
+      });
+      await showAffected(affected.closure);
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to notify customers' });
+    } finally {
+      setNotifying(false);
+    }
+  }
+
+  function describe(closure: Closure) {
+    const dates = closure.end_date === closure.start_date
+      ? closure.start_date
+      : `${closure.start_date} → ${closure.end_date}`;
+    const times = closure.start_time
+      ? ` · ${closure.start_time}–${closure.end_time}`
+      : ` · ${isArabic ? 'طوال اليوم' : 'All day'}`;
+    const yearly = closure.recurs_yearly ? ` · ${isArabic ? 'سنوياً' : 'Every year'}` : '';
+    return `${dates}${times}${yearly}`;
+  }
+
+  const pendingNotices = affected?.bookings.filter(booking => !booking.closure_notified_at).length || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX className="w-5 h-5" />
+          {isArabic ? 'العطلات وأيام الإغلاق' : 'Holidays & Closures'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {message && (
+            <div className={`p-3 rounded-lg text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-700'
+                : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label={isArabic ? 'الاسم' : 'Name'}
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. National Day"
+                required
+              />
+              <Input
+                label={isArabic ? 'الاسم بالعربية' : 'Arabic name'}
+                value={form.name_ar}
+                onChange={e => setForm({ ...form, name_ar: e.target.value })}
+                dir="rtl"
+              />
+              <Input
+                label={isArabic ? 'من تاريخ' : 'From'}
+                type="date"
+                value={form.start_date}
+                onChange={e => setForm({ ...form, start_date: e.target.value })}
+                required
+              />
+              <Input
+                label={isArabic ? 'إلى تاريخ (اختياري)' : 'To (optional)'}
+                type="date"
+                value={form.end_date}
+                min={form.start_date || undefined}
+                onChange={e => setForm({ ...form, end_date: e.target.value })}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.all_day}
+                  onChange={e => setForm({ ...form, all_day: e.target.checked })}
+                />
+                {isArabic ? 'طوال اليوم' : 'All day'}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.recurs_yearly}
+                  onChange={e => setForm({ ...form, recurs_yearly: e.target.checked })}
+                />
+                {isArabic ? 'يتكرر كل سنة' : 'Repeats every year'}
+              </label>
+            </div>
+
+            {!form.all_day && (
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label={isArabic ? 'من الساعة' : 'Closed from'}
+                  type="time"
+                  value={form.start_time}
+                  onChange={e => setForm({ ...form, start_time: e.target.value })}
+                  required
+                />
+                <Input
+                  label={isArabic ? 'إلى الساعة' : 'Until'}
+                  type="time"
+                  value={form.end_time}
+                  onChange={e => setForm({ ...form, end_time: e.target.value })}
+                  required
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" loading={saving} icon={<Plus className="w-4 h-4" />}>
+                {isArabic ? 'إضافة إغلاق' : 'Add Closure'}
+              </Button>
+            </div>
+          </form>
+
+          {affected && (
+            <div className={`p-4 rounded-lg border ${affected.bookings.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+              {affected.bookings.length === 0 ? (
+                <p className="text-sm text-green-800">
+                  {isArabic
+                    ? `لا توجد حجوزات في "${affected.closure.name_ar || affected.closure.name}"`
+                    : `No upcoming bookings fall in "${affected.closure.name}"`}
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+                      <AlertTriangle className="w-4 h-4" />
+                      {isArabic
+                        ? `${affected.bookings.length} حجز في "${affected.closure.name_ar || affected.closure.name}"`
+                        : `${affected.bookings.length} booking(s) fall in "${affected.closure.name}"`}
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={handleNotify}
+                      loading={notifying}
+                      disabled={pendingNotices === 0}
+                      icon={<Send className="w-4 h-4" />}
+                    >
+                      {isArabic ? `إشعار العملاء (${pendingNotices})` : `Notify customers (${pendingNotices})`}
+                    </Button>
+                  </div>
+                  <ul className="space-y-1 text-sm text-amber-900">
+                    {affected.bookings.map(booking => (
+                      <li key={booking.id}>
+                        {booking.slot_date} {booking.start_time}–{booking.end_time} · {booking.customer_name}
+                        {' · '}
+                        {isArabic ? booking.service_name_ar || booking.service_name : booking.service_name}
+                        {booking.closure_notified_at && (
+                          <span className="ml-2 text-xs text-green-700">{isArabic ? 'تم الإشعار' : 'Notified'}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          {closures.length === 0 ? (
+            <p className="text-sm text-gray-500">{isArabic ? 'لا توجد أيام إغلاق' : 'No closures yet'}</p>
+          ) : (
+            <ul className="divide-y border rounded-lg">
+              {closures.map(closure => (
+                <li key={closure.id} className="flex items-center justify-between gap-3 p-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {isArabic ? closure.name_ar || closure.name : closure.name}
+                    </div>
+                    <div className="text-xs text-gray-600">{describe(closure)}</div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => showAffected(closure)}>
+                      {isArabic ? 'الحجوزات' : 'Bookings'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(closure)} title={isArabic ? 'حذف' : 'Remove'}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { db } from '../../lib/db';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Download } from 'lucide-react';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+type ExportResource = 'bookings' | 'customers' | 'payments';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tenantId: string;
+  defaultResource?: ExportResource;
+  // A customer exporting their own bookings and payments
+  customerView?: boolean;
+}
+
+const BOOKING_STATUSES = ['pending', 'confirmed', 'checked_in', 'completed', 'cancelled'];
+const PAYMENT_STATUSES = ['pending', 'succeeded', 'failed', 'cancelled', 'expired'];
+
+/**
+ * Download bookings, customers or payments as CSV or Excel for accounting. The file is built
+ * by the server, filtered by the date range, status and service picked here.
+ * In the customer view the server limits the file to the signed-in customer's rows.
+ */
+export function ExportModal({ isOpen, onClose, tenantId, defaultResource = 'bookings', customerView = false }: ExportModalProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+  const [services, setServices] = useState<{ id: string; name: string; name_ar: string | null }[]>([]);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState({
+    resource: defaultResource,
+    format: 'xlsx',
+    start: '',
+    end: '',
+    status: '',
+    service_id: '',
+    arabic_headers: isArabic,
+  });
+
+  useEffect(() => {
+    if (isOpen && services.length === 0) {
+      fetchServices();
+    }
+  }, [isOpen]);
+
+  async function fetchServices() {
+    const { data } = await db
+      .from('services')
+      .select('id, name, name_ar')
+      .eq('tenant_id', tenantId)
+      .order('name');
+    setServices(data || []);
+  }
+
+  async function handleDownload(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setDownloading(true);
+    try {
+      const params = new URLSearchParams({ format: form.format, lang: form.arabic_headers ? 'ar' : 'en' });
+      if (customerView) params.set('tenant_id', tenantId);
+      if (form.start) params.set('start', form.start);
+      if (form.end) params.set('end', form.end);
+      if (form.status && form.resource !== 'customers') params.set('status', form.status);
+      if (form.service_id) params.set('service_id', form.service_id);
+
+      const response = await fetch(`${API_URL}/exports/${form.resource}?${params}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('auth_token')}` },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export');
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `${form.resource}.${form.format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export');
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const statuses = form.resource === 'payments' ? PAYMENT_STATUSES : BOOKING_STATUSES;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={isArabic ? 'تصدير البيانات' : 'Export data'}>
+      <form onSubmit={handleDownload} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'البيانات' : 'Data'}</label>
+            <select
+              value={form.resource}
+              onChange={e => setForm({ ...form, resource: e.target.value as ExportResource, status: '' })}
+              className={selectClassName}
+            >
+              <option value="bookings">{isArabic ? 'الحجوزات' : 'Bookings'}</option>
+              {!customerView && <option value="customers">{isArabic ? 'العملاء' : 'Customers'}</option>}
+              <option value="payments">{isArabic ? 'المدفوعات' : 'Payments'}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'الصيغة' : 'Format'}</label>
+            <select
+              value={form.format}
+              onChange={e => setForm({ ...form, format: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="xlsx">Excel (.xlsx)</option>
+              <option value="csv">CSV</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label={isArabic ? 'من تاريخ' : 'From'}
+            type="date"
+            value={form.start}
+            onChange={e => setForm({ ...form, start: e.target.value })}
+          />
+          <Input
+            label={isArabic ? 'إلى تاريخ' : 'To'}
+            type="date"
+            value={form.end}
+            onChange={e => setForm({ ...form, end: e.target.value })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {form.resource !== 'customers' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'الحالة' : 'Status'}</label>
+              <select
+                value={form.status}
+                onChange={e => setForm({ ...form, status: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">{isArabic ? 'الكل' : 'All'}</option>
+                {statuses.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'الخدمة' : 'Service'}</label>
+            <select
+              value={form.service_id}
+              onChange={e => setForm({ ...form, service_id: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">{isArabic ? 'كل الخدمات' : 'All services'}</option>
+              {services.map(service => (
+                <option key={service.id} value={service.id}>
+                  {isArabic ? service.name_ar || service.name : service.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.arabic_headers}
+            onChange={e => setForm({ ...form, arabic_headers: e.target.checked })}
+          />
+          {isArabic ? 'عناوين الأعمدة بالعربية' : 'Arabic column headers'}
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            {isArabic ? 'إلغاء' : 'Cancel'}
+          </Button>
+          <Button type="submit" disabled={downloading}>
+            <Download className="w-4 h-4 mr-2" />
+            {downloading ? (isArabic ? 'جاري التصدير...' : 'Exporting...') : (isArabic ? 'تنزيل' : 'Download')}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
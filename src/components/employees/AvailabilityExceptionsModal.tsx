@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CalendarOff, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+
+type ExceptionKind = 'time_off' | 'block' | 'break';
+
+interface AvailabilityException {
+  id: string;
+  kind: ExceptionKind;
+  start_date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  days_of_week: number[] | null;
+  reason: string | null;
+}
+
+interface ClashingBooking {
+  id: string;
+  customer_name: string;
+  customer_phone: string | null;
+  status: string;
+  service_name: string;
+  service_name_ar: string | null;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+interface AvailabilityExceptionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  authToken: string | null;
+  employeeId?: string;
+  employeeName?: string;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_NAMES_AR = ['الأحد', 'الإثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+
+const EMPTY_FORM = {
+  kind: 'time_off' as ExceptionKind,
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+  days_of_week: [] as number[],
+  reason: '',
+};
+
+/**
+ * An employee's time off, partial-day blocks and recurring breaks. Adding one closes the
+ * employee's slots in that time and lists the existing bookings that clash with it.
+ */
+export function AvailabilityExceptionsModal({ isOpen, onClose, authToken, employeeId, employeeName }: AvailabilityExceptionsModalProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [clashes, setClashes] = useState<ClashingBooking[] | null>(null);
+
+  useEffect(() => {
+    if (isOpen && employeeId) {
+      setForm(EMPTY_FORM);
+      setClashes(null);
+      setError('');
+      fetchExceptions();
+    }
+  }, [isOpen, employeeId]);
+
+  async function request(path: string, init: RequestInit = {}) {
+    const response = await fetch(`${API_URL}/employees${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authToken && { Authorization: `Bearer ${authToken}` }),
+      },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  }
+
+  async function fetchExceptions() {
+    setLoading(true);
+    try {
+      const data = await request(`/${employeeId}/availability-exceptions`);
+      setExceptions(data.exceptions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load availability');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      const data = await request(`/${employeeId}/availability-exceptions`, {
+        method: 'POST',
+        body: JSON.stringify({
+          kind: form.kind,
+          start_date: form.start_date,
+          end_date: form.end_date || (form.kind === 'break' ? null : form.start_date),
+          start_time: form.kind === 'time_off' ? null : form.start_time,
+          end_time: form.kind === 'time_off' ? null : form.end_time,
+          days_of_week: form.kind === 'break' ? form.days_of_week : null,
+          reason: form.reason || null,
+        }),
+      });
+      setClashes(data.clashing_bookings || []);
+      setForm(EMPTY_FORM);
+      await fetchExceptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add exception');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function showClashes(exceptionId: string) {
+    setError('');
+    try {
+      const data = await request(`/availability-exceptions/${exceptionId}/clashes`);
+      setClashes(data.bookings || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load clashing bookings');
+    }
+  }
+
+  async function handleDelete(exceptionId: string) {
+    if (!confirm(isArabic ? 'هل تريد حذف هذا الاستثناء؟' : 'Remove this exception?')) return;
+    setError('');
+    try {
+      await request(`/availability-exceptions/${exceptionId}`, { method: 'DELETE' });
+      setClashes(null);
+      await fetchExceptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove exception');
+    }
+  }
+
+  function toggleDay(day: number) {
+    setForm(prev => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(d => d !== day)
+        : [...prev.days_of_week, day].sort(),
+    }));
+  }
+
+  function kindLabel(kind: ExceptionKind) {
+    switch (kind) {
+      case 'time_off':
+        return isArabic ? 'إجازة' : 'Time off';
+      case 'block':
+        return isArabic ? 'حجب وقت' : 'Blocked time';
+      case 'break':
+        return isArabic ? 'استراحة متكررة' : 'Recurring break';
+    }
+  }
+
+  function describe(exception: AvailabilityException) {
+    const dayNames = isArabic ? DAY_NAMES_AR : DAY_NAMES;
+    const dates = exception.end_date === null
+      ? `${isArabic ? 'من' : 'From'} ${exception.start_date}`
+      : exception.end_date === exception.start_date
+        ? exception.start_date
+        : `${exception.start_date} → ${exception.end_date}`;
+    const times = exception.start_time ? ` · ${exception.start_time}–${exception.end_time}` : '';
+    const days = exception.days_of_week?.length
+      ? ` · ${exception.days_of_week.map(day => dayNames[day]).join(', ')}`
+      : '';
+    return `${dates}${times}${days}`;
+  }
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`${isArabic ? 'التوفر' : 'Availability'}${employeeName ? ` - ${employeeName}` : ''}`}
+      size="lg"
+    >
+      <div className="space-y-6">
+        <form onSubmit={handleAdd} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'النوع' : 'Type'}</label>
+              <select
+                value={form.kind}
+                onChange={e => setForm({ ...form, kind: e.target.value as ExceptionKind })}
+                className={selectClassName}
+              >
+                <option value="time_off">{kindLabel('time_off')}</option>
+                <option value="block">{kindLabel('block')}</option>
+                <option value="break">{kindLabel('break')}</option>
+              </select>
+            </div>
+            <Input
+              label={isArabic ? 'من تاريخ' : 'From'}
+              type="date"
+              value={form.start_date}
+              onChange={e => setForm({ ...form, start_date: e.target.value })}
+              required
+            />
+            <Input
+              label={form.kind === 'break' ? (isArabic ? 'حتى تاريخ (اختياري)' : 'Until (optional)') : (isArabic ? 'إلى تاريخ' : 'To')}
+              type="date"
+              value={form.end_date}
+              min={form.start_date || undefined}
+              onChange={e => setForm({ ...form, end_date: e.target.value })}
+            />
+          </div>
+
+          {form.kind !== 'time_off' && (
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label={isArabic ? 'من الساعة' : 'Start time'}
+                type="time"
+                value={form.start_time}
+                onChange={e => setForm({ ...form, start_time: e.target.value })}
+                required
+              />
+              <Input
+                label={isArabic ? 'إلى الساعة' : 'End time'}
+                type="time"
+                value={form.end_time}
+                onChange={e => setForm({ ...form, end_time: e.target.value })}
+                required
+              />
+            </div>
+          )}
+
+          {form.kind === 'break' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {isArabic ? 'الأيام (اتركها فارغة لكل الأيام)' : 'Days (leave empty for every day)'}
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {(isArabic ? DAY_NAMES_AR : DAY_NAMES).map((name, day) => (
+                  <label key={day} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.days_of_week.includes(day)}
+                      onChange={() => toggleDay(day)}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Input
+            label={isArabic ? 'السبب (اختياري)' : 'Reason (optional)'}
+            value={form.reason}
+            onChange={e => setForm({ ...form, reason: e.target.value })}
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !employeeId}>
+              {saving ? (isArabic ? 'جاري الحفظ...' : 'Saving...') : (isArabic ? 'إضافة' : 'Add')}
+            </Button>
+          </div>
+        </form>
+
+        {clashes !== null && (
+          <div className={`p-4 rounded-lg border ${clashes.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+            {clashes.length === 0 ? (
+              <p className="text-sm text-green-800">
+                {isArabic ? 'لا توجد حجوزات متعارضة.' : 'No existing bookings clash with this exception.'}
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 text-sm font-medium text-amber-800 mb-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {isArabic
+                    ? `${clashes.length} حجز يتعارض مع هذا الاستثناء ويحتاج إلى إعادة تعيين`
+                    : `${clashes.length} booking(s) clash with this exception and need to be reassigned`}
+                </div>
+                <ul className="space-y-1 text-sm text-amber-900">
+                  {clashes.map(booking => (
+                    <li key={booking.id}>
+                      {booking.slot_date} {booking.start_time}–{booking.end_time} · {booking.customer_name}
+                      {' · '}
+                      {isArabic ? booking.service_name_ar || booking.service_name : booking.service_name}
+                      {' '}
+                      <span className="text-xs text-amber-700">({booking.status})</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">{isArabic ? 'الاستثناءات' : 'Exceptions'}</h3>
+          {loading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          ) : exceptions.length === 0 ? (
+            <p className="text-sm text-gray-500">{isArabic ? 'لا توجد استثناءات' : 'No exceptions yet'}</p>
+          ) : (
+            <ul className="divide-y border rounded-lg">
+              {exceptions.map(exception => (
+                <li key={exception.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="flex items-start gap-2">
+                    <CalendarOff className="w-4 h-4 text-gray-400 mt-0.5" />
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{kindLabel(exception.kind)}</div>
+                      <div className="text-xs text-gray-600">{describe(exception)}</div>
+                      {exception.reason && <div className="text-xs text-gray-500">{exception.reason}</div>}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => showClashes(exception.id)}>
+                      {isArabic ? 'التعارضات' : 'Clashes'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(exception.id)} title={isArabic ? 'حذف' : 'Remove'}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
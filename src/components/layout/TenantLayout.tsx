@@ -4,7 +4,7 @@ import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTenantFeatures } from '../../hooks/useTenantFeatures';
 import { LanguageToggle } from './LanguageToggle';
-import { Calendar, Users, Briefcase, Settings, LogOut, LayoutDashboard, Globe, Package, Gift, Menu, X, Eye, ExternalLink } from 'lucide-react';
+import { Calendar, Users, Briefcase, Settings, LogOut, LayoutDashboard, Globe, Package, Gift, Menu, X, Eye, ExternalLink, History, Ticket, CreditCard } from 'lucide-react';
 import { Button } from '../ui/Button';
 
 interface TenantLayoutProps {
@@ -53,6 +53,20 @@ export function TenantLayout({ children, tenantSlug: propTenantSlug }: TenantLay
       current: location.pathname.startsWith(`/${tenantSlug}/admin/offers`),
       visible: true,
     },
+    {
+      name: t('navigation.promoCodes'),
+      href: `/${tenantSlug}/admin/promo-codes`,
+      icon: Ticket,
+      current: location.pathname.startsWith(`/${tenantSlug}/admin/promo-codes`),
+      visible: userProfile?.role === 'tenant_admin',
+    },
+    {
+      name: t('navigation.giftCards'),
+      href: `/${tenantSlug}/admin/gift-cards`,
+      icon: CreditCard,
+      current: location.pathname.startsWith(`/${tenantSlug}/admin/gift-cards`),
+      visible: userProfile?.role === 'tenant_admin',
+    },
     {
       name: t('navigation.bookings'),
       href: `/${tenantSlug}/admin/bookings`,
@@ -74,6 +88,13 @@ export function TenantLayout({ children, tenantSlug: propTenantSlug }: TenantLay
       current: location.pathname.startsWith(`/${tenantSlug}/admin/landing`),
       visible: features?.landing_page_enabled ?? true,
     },
+    {
+      name: t('navigation.activityLog'),
+      href: `/${tenantSlug}/admin/activity`,
+      icon: History,
+      current: location.pathname.startsWith(`/${tenantSlug}/admin/activity`),
+      visible: userProfile?.role === 'tenant_admin',
+    },
     {
       name: t('navigation.settings'),
       href: `/${tenantSlug}/admin/settings`,
@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { Repeat, CheckCircle, XCircle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { PhoneInput } from '../ui/PhoneInput';
+
+interface RecurringService {
+  id: string;
+  name: string;
+  offers?: Array<{ id: string; name: string; price: number; is_active: boolean }>;
+}
+
+interface Occurrence {
+  date: string;
+  slot_id: string | null;
+  available: boolean;
+  reason?: string;
+}
+
+interface RecurringBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  services: RecurringService[];
+  onCreated: () => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Get base API URL (without /api suffix), same as the reception booking calls
+function getApiBaseUrl(): string {
+  return (import.meta.env.VITE_API_URL || '').replace(/\/api\/?$/, '');
+}
+
+export function RecurringBookingModal({ isOpen, onClose, services, onCreated }: RecurringBookingModalProps) {
+  const [form, setForm] = useState({
+    service_id: '',
+    offer_id: '',
+    start_date: '',
+    start_time: '',
+    frequency: 'weekly' as 'weekly' | 'biweekly',
+    weekdays: [] as number[],
+    end_type: 'count' as 'count' | 'until',
+    count: 4,
+    until: '',
+    customer_name: '',
+    customer_phone: '',
+    customer_email: '',
+    adult_count: 1,
+    child_count: 0,
+    notes: '',
+  });
+  const [occurrences, setOccurrences] = useState<Occurrence[] | null>(null);
+  const [occurrencePrice, setOccurrencePrice] = useState<number | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const selectedService = services.find(s => s.id === form.service_id);
+
+  function updateForm(changes: Partial<typeof form>) {
+    setForm(prev => ({ ...prev, ...changes }));
+    // Any change invalidates the last availability check
+    setOccurrences(null);
+  }
+
+  function toggleWeekday(day: number) {
+    updateForm({
+      weekdays: form.weekdays.includes(day)
+        ? form.weekdays.filter(d => d !== day)
+        : [...form.weekdays, day].sort(),
+    });
+  }
+
+  function handleClose() {
+    setOccurrences(null);
+    setError('');
+    onClose();
+  }
+
+  async function submit(dryRun: boolean) {
+    if (!form.service_id || !form.start_date || !form.start_time) {
+      setError('Please select a service, start date and time');
+      return;
+    }
+    if (!dryRun && (!form.customer_name || !form.customer_phone)) {
+      setError('Please enter the customer name and phone number');
+      return;
+    }
+
+    setError('');
+    if (dryRun) {
+      setChecking(true);
+    } else {
+      setSubmitting(true);
+    }
+
+    try {
+      const session = await supabase.auth.getSession();
+      if (!session.data.session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`${getApiBaseUrl()}/api/bookings/recurring`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.data.session.access_token}`,
+        },
+        body: JSON.stringify({
+          service_id: form.service_id,
+          offer_id: form.offer_id || null,
+          start_date: form.start_date,
+          start_time: form.start_time,
+          recurrence: {
+            frequency: form.frequency,
+            weekdays: form.weekdays,
+            ...(form.end_type === 'count' ? { count: form.count } : { until: form.until }),
+          },
+          customer_name: form.customer_name,
+          customer_phone: form.customer_phone,
+          customer_email: form.customer_email || null,
+          adult_count: form.adult_count,
+          child_count: form.child_count,
+          notes: form.notes || null,
+          dry_run: dryRun,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.conflicts) {
+          setOccurrences(data.conflicts);
+        }
+        throw new Error(data.error || 'Failed to create recurring booking');
+      }
+
+      if (dryRun) {
+        setOccurrences(data.occurrences);
+        setOccurrencePrice(data.occurrence_price);
+        return;
+      }
+
+      alert(`${data.bookings.length} recurring bookings created successfully! Tickets are being sent to the customer.`);
+      onCreated();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create recurring booking');
+    } finally {
+      setChecking(false);
+      setSubmitting(false);
+    }
+  }
+
+  const allAvailable = !!occurrences && occurrences.length > 0 && occurrences.every(o => o.available);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Recurring Booking" size="lg">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Service *</label>
+            <select
+              value={form.service_id}
+              onChange={(e) => updateForm({ service_id: e.target.value, offer_id: '' })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Select a service</option>
+              {services.map(service => (
+                <option key={service.id} value={service.id}>{service.name}</option>
+              ))}
+            </select>
+          </div>
+          {selectedService?.offers && selectedService.offers.some(o => o.is_active) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Offer</label>
+              <select
+                value={form.offer_id}
+                onChange={(e) => updateForm({ offer_id: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Basic service</option>
+                {selectedService.offers.filter(o => o.is_active).map(offer => (
+                  <option key={offer.id} value={offer.id}>{offer.name} ({offer.price} SAR)</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            type="date"
+            label="First Date *"
+            value={form.start_date}
+            onChange={(e) => updateForm({ start_date: e.target.value })}
+          />
+          <Input
+            type="time"
+            label="Time *"
+            value={form.start_time}
+            onChange={(e) => updateForm({ start_time: e.target.value })}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Repeat</label>
+            <select
+              value={form.frequency}
+              onChange={(e) => updateForm({ frequency: e.target.value as 'weekly' | 'biweekly' })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="weekly">Every week</option>
+              <option value="biweekly">Every 2 weeks</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">On days</label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  form.weekdays.includes(day)
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Leave empty to repeat on the weekday of the first date.</p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={form.end_type === 'count'}
+              onChange={() => updateForm({ end_type: 'count' })}
+            />
+            Number of bookings
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={52}
+            value={form.count}
+            disabled={form.end_type !== 'count'}
+            onChange={(e) => updateForm({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={form.end_type === 'until'}
+              onChange={() => updateForm({ end_type: 'until' })}
+            />
+            Until
+          </label>
+          <input
+            type="date"
+            value={form.until}
+            disabled={form.end_type !== 'until'}
+            onChange={(e) => updateForm({ until: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Customer Name *"
+            value={form.customer_name}
+            onChange={(e) => updateForm({ customer_name: e.target.value })}
+          />
+          <PhoneInput
+            label="Phone Number *"
+            value={form.customer_phone}
+            onChange={(value) => updateForm({ customer_phone: value })}
+            defaultCountry="+966"
+          />
+          <Input
+            type="email"
+            label="Email (Optional)"
+            value={form.customer_email}
+            onChange={(e) => updateForm({ customer_email: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              type="number"
+              min={0}
+              label="Adults"
+              value={form.adult_count}
+              onChange={(e) => updateForm({ adult_count: Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+            <Input
+              type="number"
+              min={0}
+              label="Children"
+              value={form.child_count}
+              onChange={(e) => updateForm({ child_count: Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+          </div>
+        </div>
+
+        <Input
+          label="Notes"
+          value={form.notes}
+          onChange={(e) => updateForm({ notes: e.target.value })}
+        />
+
+        {occurrences && (
+          <div className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+            {occurrences.map(occurrence => (
+              <div key={occurrence.date} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>{occurrence.date}</span>
+                {occurrence.available ? (
+                  <span className="flex items-center gap-1 text-green-700">
+                    <CheckCircle className="w-4 h-4" /> Available
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 text-red-600">
+                    <XCircle className="w-4 h-4" /> {occurrence.reason || 'Unavailable'}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {allAvailable && occurrencePrice !== null && (
+          <p className="text-sm text-gray-700">
+            {occurrences!.length} bookings × {occurrencePrice} SAR = {Math.round(occurrences!.length * occurrencePrice * 100) / 100} SAR
+          </p>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-700">{error}</div>
+        )}
+
+        <div className="flex gap-2 pt-2">
+          <Button variant="secondary" onClick={() => submit(true)} loading={checking} fullWidth>
+            Check Availability
+          </Button>
+          <Button
+            onClick={() => submit(false)}
+            loading={submitting}
+            disabled={!allAvailable}
+            icon={<Repeat className="w-4 h-4" />}
+            fullWidth
+          >
+            Book Series
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
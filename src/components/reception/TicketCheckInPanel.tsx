@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, UserCheck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { TicketCheckIn } from '../../types';
+
+interface BookingCheckIns {
+  booking_id: string;
+  status: string;
+  admitted: number;
+  expected: number;
+  tickets: TicketCheckIn[];
+}
+
+interface TicketCheckInPanelProps {
+  bookingId: string;
+  // Called after a ticket is admitted, so the booking list can refresh its counts
+  onChange?: () => void;
+}
+
+// Get base API URL (without /api suffix), same as the reception booking calls
+function getApiBaseUrl(): string {
+  return (import.meta.env.VITE_API_URL || '').replace(/\/api\/?$/, '');
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await supabase.auth.getSession();
+  if (!session.data.session?.access_token) {
+    throw new Error('Not authenticated. Please log in again.');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.data.session.access_token}`,
+  };
+}
+
+/**
+ * Door check-in of a booking ticket by ticket: admitted vs. expected, who admitted each ticket
+ * and when, and admitting a ticket by hand (e.g. a visitor without their printed ticket).
+ */
+export function TicketCheckInPanel({ bookingId, onChange }: TicketCheckInPanelProps) {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+
+  const [checkIns, setCheckIns] = useState<BookingCheckIns | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [admitting, setAdmitting] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchCheckIns();
+  }, [bookingId]);
+
+  async function fetchCheckIns() {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/api/bookings/${bookingId}/check-ins`, {
+        headers: await getAuthHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load check-ins');
+      }
+      setCheckIns(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load check-ins');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function admitTicket(ticketNumber: number) {
+    setAdmitting(ticketNumber);
+    setError('');
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/api/bookings/${bookingId}/check-ins`, {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ticket_number: ticketNumber }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to admit ticket');
+      }
+      await fetchCheckIns();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to admit ticket');
+    } finally {
+      setAdmitting(null);
+    }
+  }
+
+  if (loading && !checkIns) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-500">
+          {isArabic ? 'تسجيل الدخول' : 'Check-in'}
+        </label>
+        {checkIns && (
+          <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${
+            checkIns.admitted >= checkIns.expected ? 'bg-green-100 text-green-800' :
+            checkIns.admitted > 0 ? 'bg-amber-100 text-amber-800' :
+            'bg-gray-100 text-gray-800'
+          }`}>
+            {isArabic
+              ? `تم دخول ${checkIns.admitted} من ${checkIns.expected}`
+              : `${checkIns.admitted} of ${checkIns.expected} admitted`}
+          </span>
+        )}
+      </div>
+
+      {checkIns && (
+        <div className="divide-y border rounded-lg">
+          {checkIns.tickets.map(ticket => (
+            <div key={ticket.number} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div>
+                <span className="font-medium">
+                  {isArabic ? `تذكرة ${ticket.number}` : `Ticket ${ticket.number}`}
+                </span>
+                <span className="text-gray-500 ml-2">
+                  {ticket.type === 'adult' ? (isArabic ? 'بالغ' : 'Adult') : (isArabic ? 'طفل' : 'Child')}
+                </span>
+              </div>
+              {ticket.checked_in_at ? (
+                <div className="flex items-center gap-1 text-xs text-green-700 text-right">
+                  <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>
+                    {format(parseISO(ticket.checked_in_at), 'MMM dd, HH:mm')}
+                    {ticket.checked_in_by_name && ` · ${ticket.checked_in_by_name}`}
+                  </span>
+                </div>
+              ) : checkIns.status !== 'cancelled' ? (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  loading={admitting === ticket.number}
+                  disabled={admitting !== null}
+                  onClick={() => admitTicket(ticket.number)}
+                  icon={<UserCheck className="w-3 h-3" />}
+                >
+                  {isArabic ? 'إدخال' : 'Admit'}
+                </Button>
+              ) : (
+                <span className="text-xs text-gray-400">{isArabic ? 'لم يدخل' : 'Not admitted'}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      )}
+    </div>
+  );
+}
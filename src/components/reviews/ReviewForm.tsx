@@ -201,30 +201,6 @@ export function ReviewForm({
         throw new Error('You must be logged in to submit a review');
       }
 
-      // Get tenant_id from service
-      const serviceResponse = await fetch(`${API_URL}/query`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          query: 'SELECT tenant_id FROM services WHERE id = $1',
-          params: [serviceId],
-        }),
-      });
-
-      if (!serviceResponse.ok) {
-        throw new Error('Failed to fetch service information');
-      }
-
-      const serviceData = await serviceResponse.json();
-      const tenantId = serviceData.rows?.[0]?.tenant_id;
-
-      if (!tenantId) {
-        throw new Error('Service not found');
-      }
-
       const imagesBase64: { base64: string, filename: string }[] = [];
       if (images.length > 0) {
         const imagePromises = images.map(image => compressImage(image));
@@ -240,7 +216,6 @@ export function ReviewForm({
         },
         body: JSON.stringify({
           service_id: serviceId,
-          tenant_id: tenantId,
           booking_id: bookingId,
           rating: rating,
           comment: trimmedReview,
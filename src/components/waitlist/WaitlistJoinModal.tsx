@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Bell, Check } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { PhoneInput } from '../ui/PhoneInput';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface FullTime {
+  slotId: string;
+  label: string;
+}
+
+interface WaitlistJoinModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tenantId: string;
+  tenantSlug: string;
+  serviceId: string;
+  date: string; // yyyy-MM-dd
+  dateLabel: string;
+  fullTimes: FullTime[];
+  visitorCount: number;
+}
+
+export function WaitlistJoinModal({
+  isOpen,
+  onClose,
+  tenantId,
+  tenantSlug,
+  serviceId,
+  date,
+  dateLabel,
+  fullTimes,
+  visitorCount,
+}: WaitlistJoinModalProps) {
+  const { i18n } = useTranslation();
+  const { userProfile } = useAuth();
+  const isArabic = i18n.language === 'ar';
+
+  // '' means any time on the selected date
+  const [slotId, setSlotId] = useState(fullTimes[0]?.slotId || '');
+  const [name, setName] = useState(userProfile?.full_name || '');
+  const [phone, setPhone] = useState(userProfile?.phone || '');
+  const [email, setEmail] = useState(userProfile?.email || '');
+  const [tickets, setTickets] = useState(Math.max(1, visitorCount));
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [joinedToken, setJoinedToken] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim() || !phone) {
+      setError(isArabic ? 'يرجى إدخال الاسم ورقم الهاتف' : 'Please enter your name and phone number');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`${API_URL}/waitlist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          tenant_id: tenantId,
+          service_id: serviceId,
+          slot_id: slotId || null,
+          slot_date: date,
+          customer_name: name.trim(),
+          customer_phone: phone,
+          customer_email: email.trim() || null,
+          language: i18n.language,
+          visitor_count: tickets,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join waitlist');
+      }
+
+      setJoinedToken(data.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : (isArabic ? 'فشل الانضمام إلى قائمة الانتظار' : 'Failed to join waitlist'));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isArabic ? 'الانضمام إلى قائمة الانتظار' : 'Join the waitlist'}
+      size="sm"
+    >
+      {joinedToken ? (
+        <div className="text-center space-y-4">
+          <div className="mx-auto w-12 h-12 rounded-full bg-green-100 flex items-center justify-center">
+            <Check className="w-6 h-6 text-green-600" />
+          </div>
+          <p className="text-gray-700">
+            {isArabic
+              ? 'أنت الآن على قائمة الانتظار. سنرسل لك رسالة عبر واتساب أو البريد الإلكتروني عند توفر مكان، وسنحجزه لك لفترة محدودة.'
+              : "You're on the waitlist. We'll message you on WhatsApp or email when a spot opens up and hold it for you for a limited time."}
+          </p>
+          <Link
+            to={`/${tenantSlug}/waitlist/${joinedToken}`}
+            className="inline-block text-sm text-blue-600 hover:underline"
+          >
+            {isArabic ? 'عرض حالة قائمة الانتظار' : 'View your waitlist status'}
+          </Link>
+          <Button fullWidth onClick={onClose}>
+            {isArabic ? 'تم' : 'Done'}
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {isArabic
+              ? `الأوقات المحددة في ${dateLabel} ممتلئة. انضم إلى قائمة الانتظار وسنبلغك عند توفر مكان.`
+              : `The selected times on ${dateLabel} are fully booked. Join the waitlist and we'll let you know when a spot opens up.`}
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {isArabic ? 'الوقت' : 'Time'}
+            </label>
+            <select
+              value={slotId}
+              onChange={(e) => setSlotId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {fullTimes.map((time) => (
+                <option key={time.slotId} value={time.slotId}>{time.label}</option>
+              ))}
+              <option value="">{isArabic ? 'أي وقت في هذا اليوم' : 'Any time on this day'}</option>
+            </select>
+          </div>
+
+          <Input
+            label={isArabic ? 'الاسم' : 'Name'}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+
+          <PhoneInput
+            label={isArabic ? 'رقم الهاتف' : 'Phone Number'}
+            value={phone}
+            onChange={(value) => setPhone(value)}
+            defaultCountry="+966"
+            required
+          />
+
+          <Input
+            type="email"
+            label={isArabic ? 'البريد الإلكتروني (اختياري)' : 'Email (Optional)'}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+
+          <Input
+            type="number"
+            min={1}
+            label={isArabic ? 'عدد التذاكر' : 'Tickets'}
+            value={tickets}
+            onChange={(e) => setTickets(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <Button type="submit" fullWidth loading={submitting} icon={<Bell className="w-4 h-4" />}>
+            {isArabic ? 'انضم إلى قائمة الانتظار' : 'Join waitlist'}
+          </Button>
+        </form>
+      )}
+    </Modal>
+  );
+}
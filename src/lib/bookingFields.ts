@@ -0,0 +1,97 @@
+import { BookingField, BookingFieldAnswer, BookingFieldValues, BookingFileValue } from '../types';
+
+// Same limits the server applies in POST /api/bookings/create
+export const MAX_BOOKING_FILE_SIZE = 5 * 1024 * 1024;
+export const ALLOWED_BOOKING_FILE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'];
+
+export function getBookingFieldLabel(field: { label: string; label_ar?: string }, language: string): string {
+  return language === 'ar' && field.label_ar ? field.label_ar : field.label;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Client-side check of the booking form answers, mirroring the server's validation.
+ * Returns an error message per field id; an empty object means the answers are valid.
+ */
+export function validateBookingFieldValues(
+  fields: BookingField[] | null | undefined,
+  values: BookingFieldValues | null | undefined,
+  language: string
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const isArabic = language === 'ar';
+
+  for (const field of fields || []) {
+    const label = getBookingFieldLabel(field, language);
+    const value = values?.[field.id];
+
+    if (field.type === 'checkbox') {
+      if (field.required && value !== true) {
+        errors[field.id] = isArabic ? `يرجى تأكيد "${label}"` : `Please confirm "${label}"`;
+      }
+      continue;
+    }
+
+    if (isEmpty(value)) {
+      if (field.required) {
+        errors[field.id] = isArabic ? `"${label}" مطلوب` : `"${label}" is required`;
+      }
+      continue;
+    }
+
+    if (field.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[field.id] = isArabic ? `"${label}" يجب أن يكون رقمًا` : `"${label}" must be a number`;
+    } else if (field.type === 'select' && !field.options?.some(option => option.value === value)) {
+      errors[field.id] = isArabic ? `يرجى اختيار خيار صالح لـ "${label}"` : `Please choose a valid option for "${label}"`;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Read an uploaded file into the data URL form stored with the booking.
+ * Rejects files of other types or larger than the server accepts.
+ */
+export function readBookingFile(file: File, language: string): Promise<BookingFileValue> {
+  const isArabic = language === 'ar';
+  if (!ALLOWED_BOOKING_FILE_TYPES.includes(file.type)) {
+    return Promise.reject(new Error(isArabic ? 'يُقبل فقط الصور وملفات PDF' : 'Only images and PDF files are accepted'));
+  }
+  if (file.size > MAX_BOOKING_FILE_SIZE) {
+    return Promise.reject(new Error(isArabic ? 'يجب ألا يتجاوز حجم الملف 5 ميجابايت' : 'The file must be 5 MB or smaller'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      filename: file.name,
+      mime_type: file.type,
+      size: file.size,
+      data_url: reader.result as string,
+    });
+    reader.onerror = () => reject(new Error(isArabic ? 'تعذرت قراءة الملف' : 'Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * A stored answer as text: the option label for dropdowns, Yes/No for checkboxes
+ * and the file name for uploads.
+ */
+export function formatBookingFieldAnswer(answer: BookingFieldAnswer, language: string): string {
+  const isArabic = language === 'ar';
+  switch (answer.type) {
+    case 'checkbox':
+      return answer.value === true ? (isArabic ? 'نعم' : 'Yes') : (isArabic ? 'لا' : 'No');
+    case 'file':
+      return (answer.value as BookingFileValue)?.filename || '';
+    case 'select':
+      return (isArabic && answer.value_label_ar) || answer.value_label || String(answer.value);
+    default:
+      return String(answer.value ?? '');
+  }
+}
@@ -0,0 +1,33 @@
+interface TenantMaintenance {
+  maintenance_mode?: boolean;
+  maintenance_message?: string | null;
+  maintenance_message_ar?: string | null;
+  maintenance_starts_at?: string | null;
+  maintenance_ends_at?: string | null;
+}
+
+const DEFAULT_MAINTENANCE_MESSAGE = {
+  en: 'We are currently in maintenance mode. Bookings are temporarily unavailable. Please try again later.',
+  ar: 'نحن حاليًا في وضع الصيانة. الحجوزات غير متاحة مؤقتًا. يرجى المحاولة مرة أخرى لاحقًا.',
+};
+
+/**
+ * Whether the tenant is in maintenance right now: maintenance mode is on and, when a
+ * window is scheduled, the current time falls inside it. Mirrors the server's check.
+ */
+export function isMaintenanceActive(tenant: TenantMaintenance | null | undefined, now: Date = new Date()): boolean {
+  if (!tenant?.maintenance_mode) return false;
+  if (tenant.maintenance_starts_at && now < new Date(tenant.maintenance_starts_at)) return false;
+  if (tenant.maintenance_ends_at && now >= new Date(tenant.maintenance_ends_at)) return false;
+  return true;
+}
+
+/**
+ * The tenant's maintenance message in the given language, falling back to the default text
+ */
+export function getMaintenanceMessage(tenant: TenantMaintenance | null | undefined, language: string): string {
+  if (language === 'ar') {
+    return tenant?.maintenance_message_ar || tenant?.maintenance_message || DEFAULT_MAINTENANCE_MESSAGE.ar;
+  }
+  return tenant?.maintenance_message || DEFAULT_MAINTENANCE_MESSAGE.en;
+}
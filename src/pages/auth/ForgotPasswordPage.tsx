@@ -367,6 +367,8 @@ export function ForgotPasswordPage() {
             window.location.href = `/${tenant.slug}/admin`;
           } else if (user.role === 'receptionist' || user.role === 'cashier') {
             window.location.href = `/${tenant.slug}/reception`;
+          } else if (user.role === 'employee') {
+            window.location.href = `/${tenant.slug}/employee`;
           } else {
             window.location.href = `/${tenant.slug}/admin`;
           }
@@ -384,6 +386,8 @@ export function ForgotPasswordPage() {
                 window.location.href = `/${tenantData.slug}/admin`;
               } else if (user.role === 'receptionist' || user.role === 'cashier') {
                 window.location.href = `/${tenantData.slug}/reception`;
+              } else if (user.role === 'employee') {
+                window.location.href = `/${tenantData.slug}/employee`;
               } else {
                 window.location.href = `/${tenantData.slug}/admin`;
               }
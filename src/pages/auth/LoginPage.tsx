@@ -89,6 +89,8 @@ export function LoginPage() {
         navigate(`/${tenant.slug}/admin`);
       } else if (userProfile.role === 'receptionist' || userProfile.role === 'cashier') {
         navigate(`/${tenant.slug}/reception`);
+      } else if (userProfile.role === 'employee') {
+        navigate(`/${tenant.slug}/employee`);
       } else {
         navigate(`/${tenant.slug}/admin`);
       }
@@ -111,6 +113,8 @@ export function LoginPage() {
             navigate(`/${tenantData.slug}/admin`);
           } else if (userProfile.role === 'receptionist' || userProfile.role === 'cashier') {
             navigate(`/${tenantData.slug}/reception`);
+          } else if (userProfile.role === 'employee') {
+            navigate(`/${tenantData.slug}/employee`);
           } else {
             navigate(`/${tenantData.slug}/admin`);
           }
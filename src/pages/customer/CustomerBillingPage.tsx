@@ -6,6 +6,7 @@ import { db } from '../../lib/db';
 import { Button } from '../../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
 import { LanguageToggle } from '../../components/layout/LanguageToggle';
+import { ExportModal } from '../../components/dashboard/ExportModal';
 import { ArrowLeft, FileText, Download, Calendar, CreditCard, Package, Mail, Phone, CheckCircle, XCircle, Clock, Search, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -47,6 +48,7 @@ export function CustomerBillingPage() {
   const [loadingMore, setLoadingMore] = useState(false);
   const [tenant, setTenant] = useState<any>(null);
   const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
   
   // Pagination and search state
   const [pagination, setPagination] = useState<PaginationInfo>({
@@ -529,6 +531,12 @@ export function CustomerBillingPage() {
                   />
                   <span>{i18n.language === 'ar' ? 'تحميل تلقائي' : 'Auto Load'}</span>
                 </label>
+                {tenant?.id && (
+                  <Button variant="secondary" size="sm" onClick={() => setShowExport(true)}>
+                    <Download className="w-4 h-4 mr-2" />
+                    {i18n.language === 'ar' ? 'تصدير' : 'Export'}
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -856,6 +864,15 @@ export function CustomerBillingPage() {
           </div>
         )}
       </main>
+
+      {tenant?.id && (
+        <ExportModal
+          isOpen={showExport}
+          onClose={() => setShowExport(false)}
+          tenantId={tenant.id}
+          customerView
+        />
+      )}
     </div>
   );
 }
@@ -6,10 +6,11 @@ import { db } from '../../lib/db';
 import { Button } from '../../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
 import { LanguageToggle } from '../../components/layout/LanguageToggle';
-import { Calendar, Clock, LogOut, Star, MessageSquare, Package, CalendarOff, UserCircle, CheckCircle, XCircle, User, FileText } from 'lucide-react';
+import { Calendar, Clock, LogOut, Star, MessageSquare, Package, CalendarOff, UserCircle, CheckCircle, XCircle, User, FileText, CalendarClock, CalendarPlus } from 'lucide-react';
 import { format } from 'date-fns';
 import { ReviewForm } from '../../components/reviews/ReviewForm';
 import { Modal } from '../../components/ui/Modal';
+import { CalendarFeedModal } from '../../components/calendar/CalendarFeedModal';
 
 interface Booking {
   id: string;
@@ -20,12 +21,48 @@ interface Booking {
   start_time: string;
   end_time: string;
   status: string;
+  payment_status?: string;
   total_price: number;
+  reschedule_count?: number;
+  series_id?: string | null;
+  series_index?: number | null;
   review_id?: string;
   rating?: number;
   review_approved?: boolean;
 }
 
+interface BookingChangeOptions {
+  hours_until_start: number;
+  cancel: { allowed: boolean; reason?: string; fee: number; cutoff_hours: number };
+  reschedule: { allowed: boolean; reason?: string; fee: number; cutoff_hours: number; remaining: number };
+}
+
+interface PackageSubscription {
+  id: string;
+  package_id: string;
+  package_name: string;
+  package_name_ar: string | null;
+  status: 'active' | 'expired' | 'cancelled';
+  expires_at: string | null;
+  expires_soon: boolean;
+  usage: Array<{
+    service_id: string;
+    service_name: string;
+    service_name_ar: string | null;
+    original_quantity: number;
+    remaining_quantity: number;
+    used_quantity: number;
+  }>;
+}
+
+interface RescheduleSlot {
+  id: string;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  available_capacity: number;
+}
+
 export function CustomerDashboard() {
   const { tenantSlug } = useParams<{ tenantSlug: string }>();
   const { t, i18n } = useTranslation();
@@ -36,6 +73,16 @@ export function CustomerDashboard() {
   const [tenant, setTenant] = useState<any>(null);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [showReviewForm, setShowReviewForm] = useState(false);
+  const [changeBooking, setChangeBooking] = useState<Booking | null>(null);
+  const [changeMode, setChangeMode] = useState<'cancel' | 'reschedule' | null>(null);
+  const [cancelScope, setCancelScope] = useState<'occurrence' | 'remaining'>('occurrence');
+  const [changeOptions, setChangeOptions] = useState<BookingChangeOptions | null>(null);
+  const [rescheduleSlots, setRescheduleSlots] = useState<RescheduleSlot[]>([]);
+  const [selectedSlotId, setSelectedSlotId] = useState('');
+  const [changeLoading, setChangeLoading] = useState(false);
+  const [changeError, setChangeError] = useState<string | null>(null);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
+  const [packages, setPackages] = useState<PackageSubscription[]>([]);
 
   useEffect(() => {
     // Wait for AuthContext to finish loading before checking authentication
@@ -85,6 +132,30 @@ export function CustomerDashboard() {
     }
   }
 
+  useEffect(() => {
+    if (tenant?.id) {
+      fetchPackages(tenant.id);
+    }
+  }, [tenant?.id]);
+
+  async function fetchPackages(tenantId: string) {
+    try {
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const token = localStorage.getItem('auth_token');
+
+      const response = await fetch(`${API_URL}/customers/packages?tenant_id=${tenantId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch packages');
+      setPackages(await response.json());
+    } catch (err) {
+      console.error('Error fetching packages:', err);
+    }
+  }
+
   async function fetchBookings() {
     if (!userProfile) return;
 
@@ -120,6 +191,81 @@ export function CustomerDashboard() {
     }
   }
 
+  async function openBookingChange(booking: Booking, mode: 'cancel' | 'reschedule') {
+    setChangeBooking(booking);
+    setChangeMode(mode);
+    setCancelScope('occurrence');
+    setChangeOptions(null);
+    setRescheduleSlots([]);
+    setSelectedSlotId('');
+    setChangeError(null);
+    setChangeLoading(true);
+
+    try {
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const token = localStorage.getItem('auth_token');
+      const headers = { 'Authorization': `Bearer ${token}` };
+
+      const optionsResponse = await fetch(`${API_URL}/customers/bookings/${booking.id}/options`, { headers });
+      const optionsData = await optionsResponse.json();
+      if (!optionsResponse.ok) throw new Error(optionsData.error || 'Failed to load booking options');
+      setChangeOptions(optionsData);
+
+      if (mode === 'reschedule' && optionsData.reschedule.allowed) {
+        const slotsResponse = await fetch(`${API_URL}/customers/bookings/${booking.id}/reschedule-slots`, { headers });
+        const slotsData = await slotsResponse.json();
+        if (!slotsResponse.ok) throw new Error(slotsData.error || 'Failed to load available slots');
+        setRescheduleSlots(slotsData);
+      }
+    } catch (err) {
+      console.error('Error loading booking options:', err);
+      setChangeError(err instanceof Error ? err.message : 'Failed to load booking options');
+    } finally {
+      setChangeLoading(false);
+    }
+  }
+
+  function closeBookingChange() {
+    setChangeBooking(null);
+    setChangeMode(null);
+    setChangeOptions(null);
+    setChangeError(null);
+  }
+
+  async function confirmBookingChange() {
+    if (!changeBooking || !changeMode) return;
+
+    setChangeLoading(true);
+    setChangeError(null);
+
+    try {
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const token = localStorage.getItem('auth_token');
+
+      // Recurring bookings can be cancelled from this occurrence onwards
+      const action = changeMode === 'cancel' && cancelScope === 'remaining' ? 'cancel-series' : changeMode;
+      const response = await fetch(`${API_URL}/customers/bookings/${changeBooking.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changeMode === 'reschedule' ? { slot_id: selectedSlotId } : {}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update booking');
+
+      closeBookingChange();
+      fetchBookings();
+    } catch (err) {
+      console.error('Error updating booking:', err);
+      setChangeError(err instanceof Error ? err.message : 'Failed to update booking');
+    } finally {
+      setChangeLoading(false);
+    }
+  }
+
   async function handleLogout() {
     await signOut();
     navigate(`/${tenantSlug}/book`);
@@ -429,6 +575,26 @@ export function CustomerDashboard() {
                 <FileText className="w-4 h-4 mr-2" />
                 {i18n.language === 'ar' ? 'الفواتير' : 'Billing'}
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowCalendarFeed(true)}
+                className="transition-all duration-300 hover:scale-105"
+                style={{ 
+                  color: primaryColor,
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = `${primaryColor}10`;
+                  e.currentTarget.style.color = secondaryColor;
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                  e.currentTarget.style.color = primaryColor;
+                }}
+              >
+                <CalendarPlus className="w-4 h-4 mr-2" />
+                {i18n.language === 'ar' ? 'التقويم' : 'Calendar'}
+              </Button>
               <div className="h-6 w-px bg-gray-300"></div>
               <LanguageToggle />
               <div className="h-6 w-px bg-gray-300"></div>
@@ -478,6 +644,84 @@ export function CustomerDashboard() {
           </p>
         </div>
 
+        {/* Package subscriptions with what is left of each service */}
+        {packages.length > 0 && (
+          <div className="mb-12">
+            <div className="flex items-center gap-3 mb-6">
+              <Package className="w-6 h-6" style={{ color: primaryColor }} />
+              <h2 className="text-3xl font-bold" style={{ color: primaryColor }}>
+                {i18n.language === 'ar' ? 'باقاتي' : 'My Packages'}
+              </h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {packages.map((subscription) => (
+                <Card key={subscription.id} className="border-2 border-gray-100">
+                  <CardHeader className="pb-3 border-b border-gray-100">
+                    <CardTitle className="text-lg font-bold flex items-center justify-between gap-2">
+                      <span style={{ color: primaryColor }}>
+                        {i18n.language === 'ar'
+                          ? (subscription.package_name_ar || subscription.package_name)
+                          : subscription.package_name}
+                      </span>
+                      {subscription.status !== 'active' && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                          {subscription.status === 'expired'
+                            ? (i18n.language === 'ar' ? 'منتهية' : 'Expired')
+                            : (i18n.language === 'ar' ? 'ملغاة' : 'Cancelled')}
+                        </span>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="pt-4 space-y-3">
+                    {subscription.usage.map((usage) => (
+                      <div key={usage.service_id}>
+                        <div className="flex justify-between text-sm text-gray-700 mb-1">
+                          <span>
+                            {i18n.language === 'ar'
+                              ? (usage.service_name_ar || usage.service_name)
+                              : usage.service_name}
+                          </span>
+                          <span className="font-medium">
+                            {usage.remaining_quantity} / {usage.original_quantity}
+                            {i18n.language === 'ar' ? ' متبقي' : ' left'}
+                          </span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full rounded-full"
+                            style={{
+                              width: `${usage.original_quantity > 0 ? (usage.remaining_quantity / usage.original_quantity) * 100 : 0}%`,
+                              backgroundColor: primaryColor,
+                            }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                    {subscription.expires_at && (
+                      <div className={`flex items-center gap-2 text-sm ${
+                        subscription.expires_soon ? 'text-amber-700' : subscription.status === 'expired' ? 'text-red-600' : 'text-gray-600'
+                      }`}>
+                        <Clock className="w-4 h-4" />
+                        {subscription.status === 'expired'
+                          ? (i18n.language === 'ar' ? 'انتهت في ' : 'Expired on ')
+                          : (i18n.language === 'ar' ? 'تنتهي في ' : 'Expires on ')}
+                        {format(new Date(subscription.expires_at), 'MMM dd, yyyy')}
+                      </div>
+                    )}
+                    {subscription.expires_soon && (
+                      <p className="text-xs p-2 rounded-lg bg-amber-50 border border-amber-200 text-amber-800">
+                        {i18n.language === 'ar'
+                          ? 'ستنتهي هذه الباقة قريباً. احجز الخدمات المتبقية قبل انتهائها.'
+                          : 'This package expires soon. Book the services you have left before it does.'}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Upcoming Bookings */}
         {upcomingBookings.length > 0 && (
           <div className="mb-12">
@@ -523,6 +767,29 @@ export function CustomerDashboard() {
                           </span>
                         </span>
                       </div>
+                      {(booking.status === 'confirmed' || booking.status === 'pending') && (
+                        <div className="flex gap-2 pt-3">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            fullWidth
+                            onClick={() => openBookingChange(booking, 'reschedule')}
+                          >
+                            <CalendarClock className="w-4 h-4 mr-2" />
+                            {i18n.language === 'ar' ? 'تغيير الموعد' : 'Reschedule'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            fullWidth
+                            className="text-red-600 hover:bg-red-50"
+                            onClick={() => openBookingChange(booking, 'cancel')}
+                          >
+                            <XCircle className="w-4 h-4 mr-2" />
+                            {i18n.language === 'ar' ? 'إلغاء' : 'Cancel'}
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -628,6 +895,151 @@ export function CustomerDashboard() {
         )}
       </div>
 
+      {/* Cancel / Reschedule Modal */}
+      <Modal
+        isOpen={!!changeBooking && !!changeMode}
+        onClose={closeBookingChange}
+        title={changeMode === 'cancel'
+          ? (i18n.language === 'ar' ? 'إلغاء الحجز' : 'Cancel Booking')
+          : (i18n.language === 'ar' ? 'تغيير موعد الحجز' : 'Reschedule Booking')}
+      >
+        {changeBooking && (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-700">
+              <p className="font-semibold">
+                {i18n.language === 'ar'
+                  ? (changeBooking.service_name_ar || changeBooking.service_name)
+                  : (changeBooking.service_name || changeBooking.service_name_ar)}
+              </p>
+              <p>{format(new Date(changeBooking.slot_date), 'MMM dd, yyyy')} · {changeBooking.start_time} - {changeBooking.end_time}</p>
+            </div>
+
+            {changeLoading && !changeOptions && (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2" style={{ borderColor: primaryColor }}></div>
+              </div>
+            )}
+
+            {changeError && (
+              <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-700">
+                {changeError}
+              </div>
+            )}
+
+            {changeOptions && changeMode === 'cancel' && (
+              changeOptions.cancel.allowed ? (
+                <p className="text-sm text-gray-600">
+                  {changeOptions.cancel.fee > 0
+                    ? (i18n.language === 'ar'
+                      ? `سيتم خصم رسوم إلغاء بقيمة ${changeOptions.cancel.fee} ريال.`
+                      : `A cancellation fee of ${changeOptions.cancel.fee} SAR applies.`)
+                    : (i18n.language === 'ar' ? 'لا توجد رسوم على الإلغاء.' : 'This booking can be cancelled free of charge.')}
+                  {changeBooking.payment_status === 'paid' && (i18n.language === 'ar'
+                    ? ' سيتم رد المبلغ المتبقي إلى وسيلة الدفع الأصلية.'
+                    : ' The remaining amount will be refunded to your original payment method.')}
+                </p>
+              ) : (
+                <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 p-3 rounded-lg">
+                  {changeOptions.cancel.reason}
+                </p>
+              )
+            )}
+
+            {changeOptions && changeMode === 'cancel' && changeOptions.cancel.allowed && changeBooking.series_id && (
+              <div className="space-y-2 text-sm text-gray-700">
+                <p className="font-medium">
+                  {i18n.language === 'ar' ? 'هذا الحجز جزء من حجز متكرر' : 'This booking is part of a recurring booking'}
+                </p>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={cancelScope === 'occurrence'}
+                    onChange={() => setCancelScope('occurrence')}
+                  />
+                  {i18n.language === 'ar' ? 'إلغاء هذا الحجز فقط' : 'Cancel only this booking'}
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={cancelScope === 'remaining'}
+                    onChange={() => setCancelScope('remaining')}
+                  />
+                  {i18n.language === 'ar' ? 'إلغاء هذا الحجز وجميع الحجوزات التالية' : 'Cancel this and all later bookings'}
+                </label>
+              </div>
+            )}
+
+            {changeOptions && changeMode === 'reschedule' && (
+              changeOptions.reschedule.allowed ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    {changeOptions.reschedule.fee > 0
+                      ? (i18n.language === 'ar'
+                        ? `رسوم تغيير الموعد: ${changeOptions.reschedule.fee} ريال. `
+                        : `Reschedule fee: ${changeOptions.reschedule.fee} SAR. `)
+                      : ''}
+                    {i18n.language === 'ar'
+                      ? `المرات المتبقية لتغيير الموعد: ${changeOptions.reschedule.remaining}`
+                      : `Reschedules remaining: ${changeOptions.reschedule.remaining}`}
+                  </p>
+                  {rescheduleSlots.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      {i18n.language === 'ar' ? 'لا توجد مواعيد متاحة حالياً.' : 'No other times are available right now.'}
+                    </p>
+                  ) : (
+                    <select
+                      value={selectedSlotId}
+                      onChange={(e) => setSelectedSlotId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">{i18n.language === 'ar' ? 'اختر موعداً جديداً' : 'Select a new time'}</option>
+                      {rescheduleSlots.map(slot => (
+                        <option key={slot.id} value={slot.id}>
+                          {format(new Date(slot.slot_date), 'EEE, MMM dd, yyyy')} · {slot.start_time} - {slot.end_time}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 p-3 rounded-lg">
+                  {changeOptions.reschedule.reason}
+                </p>
+              )
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button variant="ghost" onClick={closeBookingChange}>
+                {i18n.language === 'ar' ? 'رجوع' : 'Back'}
+              </Button>
+              {changeOptions && (changeMode === 'cancel' ? changeOptions.cancel.allowed : changeOptions.reschedule.allowed) && (
+                <Button
+                  onClick={confirmBookingChange}
+                  loading={changeLoading}
+                  variant={changeMode === 'cancel' ? 'danger' : 'primary'}
+                  disabled={changeMode === 'reschedule' && !selectedSlotId}
+                  style={changeMode === 'reschedule' ? {
+                    backgroundColor: primaryColor,
+                    color: 'white',
+                    borderColor: primaryColor
+                  } : undefined}
+                >
+                  {changeMode === 'cancel'
+                    ? (i18n.language === 'ar' ? 'تأكيد الإلغاء' : 'Confirm Cancellation')
+                    : (i18n.language === 'ar' ? 'تأكيد الموعد الجديد' : 'Confirm New Time')}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <CalendarFeedModal
+        isOpen={showCalendarFeed}
+        onClose={() => setShowCalendarFeed(false)}
+        authToken={localStorage.getItem('auth_token')}
+      />
+
       {/* Review Form Modal */}
       {showReviewForm && selectedBooking && (
         <ReviewForm
@@ -0,0 +1,408 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent } from '../../components/ui/Card';
+import { LanguageToggle } from '../../components/layout/LanguageToggle';
+import { Calendar, ChevronLeft, ChevronRight, Clock, LogOut, Users, CheckCircle, UserX, LogIn, MessageSquare } from 'lucide-react';
+import { format, addDays, startOfWeek, parse } from 'date-fns';
+import { ar } from 'date-fns/locale';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+interface InternalNote {
+  id: string;
+  note: string;
+  created_at: string;
+  author_name: string | null;
+}
+
+interface ScheduleBooking {
+  id: string;
+  customer_name: string;
+  customer_phone: string;
+  visitor_count: number;
+  status: string;
+  payment_status: string | null;
+  notes: string | null;
+  no_show_at: string | null;
+  service_name: string;
+  service_name_ar: string | null;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  has_started: boolean;
+  internal_notes: InternalNote[];
+}
+
+interface Shift {
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  service_name: string;
+  service_name_ar: string | null;
+}
+
+type AttendanceAction = 'check_in' | 'complete' | 'no_show';
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  checked_in: 'bg-blue-100 text-blue-800',
+  completed: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Employee portal: the signed-in employee's bookings for a day or week, attendance actions
+ * (check in, complete, no-show), internal notes, and their upcoming shifts.
+ */
+export function EmployeePage() {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { userProfile, signOut, loading: authLoading } = useAuth();
+  const isArabic = i18n.language === 'ar';
+  const dateLocale = isArabic ? ar : undefined;
+
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [date, setDate] = useState(new Date());
+  const [bookings, setBookings] = useState<ScheduleBooking[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyBookingId, setBusyBookingId] = useState<string | null>(null);
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+
+  const rangeStart = view === 'day' ? date : startOfWeek(date, { weekStartsOn: 0 });
+  const rangeEnd = view === 'day' ? date : addDays(rangeStart, 6);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!userProfile) {
+      navigate('/login');
+      return;
+    }
+    if (userProfile.role !== 'employee') {
+      navigate('/');
+      return;
+    }
+    fetchSchedule();
+  }, [authLoading, userProfile, view, date]);
+
+  useEffect(() => {
+    if (userProfile?.role === 'employee') {
+      fetchShifts();
+    }
+  }, [userProfile]);
+
+  function authHeaders(): HeadersInit {
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
+    };
+  }
+
+  async function fetchSchedule() {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({
+        start: format(rangeStart, 'yyyy-MM-dd'),
+        end: format(rangeEnd, 'yyyy-MM-dd'),
+      });
+      const response = await fetch(`${API_URL}/employees/me/schedule?${params}`, { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load schedule');
+      }
+      setBookings(data.bookings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedule');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchShifts() {
+    try {
+      const response = await fetch(`${API_URL}/employees/me/shifts?days=14`, { headers: authHeaders() });
+      if (!response.ok) return;
+      const data = await response.json();
+      setShifts(data.shifts);
+    } catch (err) {
+      console.error('Error fetching shifts:', err);
+    }
+  }
+
+  async function handleAttendance(booking: ScheduleBooking, action: AttendanceAction) {
+    if (action === 'no_show' && !window.confirm(isArabic ? 'تأكيد عدم حضور العميل؟' : 'Mark this customer as a no-show?')) {
+      return;
+    }
+    setBusyBookingId(booking.id);
+    setError('');
+    try {
+      const response = await fetch(`${API_URL}/employees/me/bookings/${booking.id}/attendance`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update booking');
+      }
+      setBookings(prev => prev.map(b => (
+        b.id === booking.id ? { ...b, status: data.booking.status, no_show_at: data.booking.no_show_at } : b
+      )));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update booking');
+    } finally {
+      setBusyBookingId(null);
+    }
+  }
+
+  async function handleAddNote(booking: ScheduleBooking) {
+    const note = (noteDrafts[booking.id] || '').trim();
+    if (!note) return;
+    setBusyBookingId(booking.id);
+    setError('');
+    try {
+      const response = await fetch(`${API_URL}/employees/me/bookings/${booking.id}/notes`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ note }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add note');
+      }
+      const added: InternalNote = { ...data, author_name: userProfile?.full_name || null };
+      setBookings(prev => prev.map(b => (
+        b.id === booking.id ? { ...b, internal_notes: [...b.internal_notes, added] } : b
+      )));
+      setNoteDrafts(prev => ({ ...prev, [booking.id]: '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add note');
+    } finally {
+      setBusyBookingId(null);
+    }
+  }
+
+  function moveRange(direction: 1 | -1) {
+    setDate(prev => addDays(prev, direction * (view === 'day' ? 1 : 7)));
+  }
+
+  function formatDay(value: string) {
+    return format(parse(value, 'yyyy-MM-dd', new Date()), 'EEEE, MMM d', { locale: dateLocale });
+  }
+
+  const days = view === 'day'
+    ? [format(date, 'yyyy-MM-dd')]
+    : Array.from({ length: 7 }, (_, i) => format(addDays(rangeStart, i), 'yyyy-MM-dd'));
+
+  const rangeLabel = view === 'day'
+    ? format(date, 'EEEE, MMM d, yyyy', { locale: dateLocale })
+    : `${format(rangeStart, 'MMM d', { locale: dateLocale })} - ${format(rangeEnd, 'MMM d, yyyy', { locale: dateLocale })}`;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold text-gray-900">{isArabic ? 'جدولي' : 'My schedule'}</h1>
+            <p className="text-xs md:text-sm text-gray-600">
+              {isArabic ? userProfile?.full_name_ar || userProfile?.full_name : userProfile?.full_name}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageToggle />
+            <Button variant="secondary" size="sm" icon={<LogOut className="w-4 h-4" />} onClick={() => signOut()}>
+              <span className="hidden sm:inline">{t('auth.logout')}</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-3 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <button onClick={() => moveRange(-1)} className="p-2 rounded-lg hover:bg-gray-200">
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span className="font-semibold text-gray-900">{rangeLabel}</span>
+              <button onClick={() => moveRange(1)} className="p-2 rounded-lg hover:bg-gray-200">
+                <ChevronRight className="w-5 h-5" />
+              </button>
+              <Button variant="ghost" size="sm" onClick={() => setDate(new Date())}>
+                {isArabic ? 'اليوم' : 'Today'}
+              </Button>
+            </div>
+            <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+              {(['day', 'week'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    view === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option === 'day' ? (isArabic ? 'يوم' : 'Day') : (isArabic ? 'أسبوع' : 'Week')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {loading ? (
+            <div className="py-12 flex justify-center">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : bookings.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-600">
+                <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                {isArabic ? 'لا توجد حجوزات في هذه الفترة' : 'No bookings in this period'}
+              </CardContent>
+            </Card>
+          ) : (
+            days.map(day => {
+              const dayBookings = bookings.filter(b => b.slot_date === day);
+              if (view === 'week' && dayBookings.length === 0) return null;
+              return (
+                <div key={day} className="space-y-3">
+                  {view === 'week' && <h2 className="text-sm font-semibold text-gray-700">{formatDay(day)}</h2>}
+                  {dayBookings.map(booking => {
+                    const busy = busyBookingId === booking.id;
+                    const canCheckIn = booking.status === 'pending' || booking.status === 'confirmed';
+                    const canComplete = booking.status === 'confirmed' || booking.status === 'checked_in';
+                    const canMarkNoShow = canCheckIn && booking.has_started && !booking.no_show_at;
+                    return (
+                      <Card key={booking.id}>
+                        <CardContent className="p-4 space-y-3">
+                          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                            <div>
+                              <div className="flex items-center gap-2 text-sm text-gray-600">
+                                <Clock className="w-4 h-4" />
+                                {booking.start_time} - {booking.end_time}
+                              </div>
+                              <h3 className="font-semibold text-gray-900">{booking.customer_name}</h3>
+                              <p className="text-sm text-gray-600">
+                                {isArabic ? booking.service_name_ar || booking.service_name : booking.service_name}
+                              </p>
+                              <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                                <span>{booking.customer_phone}</span>
+                                <span className="flex items-center gap-1">
+                                  <Users className="w-3 h-3" />
+                                  {booking.visitor_count}
+                                </span>
+                              </div>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[booking.status] || 'bg-gray-100 text-gray-800'}`}>
+                                {booking.status}
+                              </span>
+                              {booking.no_show_at && (
+                                <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                  {isArabic ? 'لم يحضر' : 'No-show'}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+
+                          {booking.notes && (
+                            <p className="text-sm text-gray-700 bg-gray-50 rounded p-2">{booking.notes}</p>
+                          )}
+
+                          <div className="flex flex-wrap gap-2">
+                            {canCheckIn && (
+                              <Button size="sm" disabled={busy} icon={<LogIn className="w-4 h-4" />} onClick={() => handleAttendance(booking, 'check_in')}>
+                                {isArabic ? 'تسجيل الحضور' : 'Check in'}
+                              </Button>
+                            )}
+                            {canComplete && (
+                              <Button size="sm" variant="secondary" disabled={busy} icon={<CheckCircle className="w-4 h-4" />} onClick={() => handleAttendance(booking, 'complete')}>
+                                {isArabic ? 'إكمال' : 'Complete'}
+                              </Button>
+                            )}
+                            {canMarkNoShow && (
+                              <Button size="sm" variant="danger" disabled={busy} icon={<UserX className="w-4 h-4" />} onClick={() => handleAttendance(booking, 'no_show')}>
+                                {isArabic ? 'لم يحضر' : 'No-show'}
+                              </Button>
+                            )}
+                          </div>
+
+                          <div className="border-t pt-3 space-y-2">
+                            <div className="flex items-center gap-1 text-xs font-semibold text-gray-600">
+                              <MessageSquare className="w-3 h-3" />
+                              {isArabic ? 'ملاحظات داخلية' : 'Internal notes'}
+                            </div>
+                            {booking.internal_notes.map(note => (
+                              <div key={note.id} className="text-sm text-gray-700">
+                                <span className="text-xs text-gray-500">
+                                  {note.author_name || ''} · {format(new Date(note.created_at), 'MMM d, HH:mm', { locale: dateLocale })}
+                                </span>
+                                <p>{note.note}</p>
+                              </div>
+                            ))}
+                            <div className="flex gap-2">
+                              <input
+                                value={noteDrafts[booking.id] || ''}
+                                onChange={e => setNoteDrafts(prev => ({ ...prev, [booking.id]: e.target.value }))}
+                                onKeyDown={e => {
+                                  if (e.key === 'Enter') handleAddNote(booking);
+                                }}
+                                maxLength={2000}
+                                placeholder={isArabic ? 'أضف ملاحظة للفريق...' : 'Add a note for the team...'}
+                                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                              <Button size="sm" variant="ghost" disabled={busy || !(noteDrafts[booking.id] || '').trim()} onClick={() => handleAddNote(booking)}>
+                                {isArabic ? 'إضافة' : 'Add'}
+                              </Button>
+                            </div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div>
+          <Card>
+            <CardContent className="p-4">
+              <h2 className="font-semibold text-gray-900 mb-3">{isArabic ? 'مناوباتي القادمة' : 'My upcoming shifts'}</h2>
+              {shifts.length === 0 ? (
+                <p className="text-sm text-gray-600">{isArabic ? 'لا توجد مناوبات' : 'No upcoming shifts'}</p>
+              ) : (
+                <div className="space-y-2">
+                  {shifts.map(shift => (
+                    <div key={`${shift.shift_id}-${shift.date}`} className="text-sm border-b last:border-0 pb-2">
+                      <div className="font-medium text-gray-900">{formatDay(shift.date)}</div>
+                      <div className="text-gray-600">
+                        {shift.start_time} - {shift.end_time} · {isArabic ? shift.service_name_ar || shift.service_name : shift.service_name}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
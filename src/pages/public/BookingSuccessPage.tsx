@@ -19,17 +19,40 @@ export function BookingSuccessPage() {
   const [tenant, setTenant] = useState<any>(null);
   const [booking, setBooking] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [paymentStatus, setPaymentStatus] = useState<string | null>(null);
 
   useEffect(() => {
     const bookingData = location.state;
+    const paymentId = new URLSearchParams(location.search).get('payment_id');
     if (bookingData?.booking) {
       setBooking(bookingData.booking);
       fetchTenant();
+    } else if (paymentId) {
+      // Returning from the online payment provider
+      fetchPayment(paymentId);
     } else {
       navigate(`/${tenantSlug}/book`);
     }
   }, [location, tenantSlug]);
 
+  async function fetchPayment(paymentId: string) {
+    try {
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const response = await fetch(`${API_URL}/payments/${paymentId}`);
+      if (!response.ok) {
+        navigate(`/${tenantSlug}/book`);
+        return;
+      }
+      const data = await response.json();
+      setBooking(data.booking);
+      setPaymentStatus(data.payment.status);
+      fetchTenant();
+    } catch (error) {
+      console.error('Error fetching payment:', error);
+      navigate(`/${tenantSlug}/book`);
+    }
+  }
+
   // Prevent back navigation - replace history to prevent going back
   useEffect(() => {
     // Replace current history entry so back button goes to booking page instead
@@ -150,9 +173,19 @@ export function BookingSuccessPage() {
             </div>
 
             <h2 className="text-3xl font-bold text-gray-900 mb-4">
-              {i18n.language === 'ar' ? 'تم تأكيد الحجز بنجاح!' : 'Booking Confirmed!'}
+              {paymentStatus && paymentStatus !== 'succeeded'
+                ? (i18n.language === 'ar' ? 'الدفع غير مكتمل' : 'Payment Incomplete')
+                : (i18n.language === 'ar' ? 'تم تأكيد الحجز بنجاح!' : 'Booking Confirmed!')}
             </h2>
 
+            {paymentStatus && paymentStatus !== 'succeeded' && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {i18n.language === 'ar'
+                  ? 'لم تكتمل عملية الدفع. سيتم إلغاء الحجز تلقائياً إذا لم يتم الدفع.'
+                  : 'Your payment was not completed. The booking will be released automatically if it remains unpaid.'}
+              </div>
+            )}
+
             <p className="text-gray-600 mb-8">
               {i18n.language === 'ar' 
                 ? 'شكراً لك! تم تأكيد حجزك بنجاح. سيتم إرسال تذكرة الحجز إلى رقم الواتساب الخاص بك.'
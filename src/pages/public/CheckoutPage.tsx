@@ -12,6 +12,9 @@ import { Package, User, Calendar, Clock, Users, CreditCard, CheckCircle, X, Arro
 import { format, parseISO } from 'date-fns';
 import { AnimatedRating } from '../../components/ui/AnimatedRating';
 import { countryCodes, validatePhoneNumberByCountry } from '../../lib/countryCodes';
+import { BookingFieldsForm } from '../../components/bookings/BookingFieldsForm';
+import { validateBookingFieldValues } from '../../lib/bookingFields';
+import { BookingField, BookingFieldValues, PriceQuote } from '../../types';
 
 interface BookingData {
   serviceId: string;
@@ -20,6 +23,8 @@ interface BookingData {
   slotId: string;
   date: string;
   time: string;
+  // Spot held for a waitlist offer; used instead of acquiring a new lock
+  waitlistOffer?: { lock_id: string; session_id: string; expires_at: string } | null;
 }
 
 interface ServiceOffer {
@@ -47,6 +52,7 @@ interface Service {
   gallery_urls?: string[];
   original_price?: number;
   discount_percentage?: number;
+  booking_fields?: BookingField[];
 }
 
 interface ServicePackage {
@@ -150,6 +156,22 @@ export function CheckoutPage() {
   const [phoneUniquenessError, setPhoneUniquenessError] = useState<string | null>(null);
   const [resendCooldown, setResendCooldown] = useState(0);
 
+  // Online payment (only offered when the tenant has a payment provider enabled)
+  const [onlinePaymentEnabled, setOnlinePaymentEnabled] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<'online' | 'on_site'>('on_site');
+  const [customFieldValues, setCustomFieldValues] = useState<BookingFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [priceQuote, setPriceQuote] = useState<PriceQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [useWallet, setUseWallet] = useState(false);
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [giftCardError, setGiftCardError] = useState<string | null>(null);
+  const [redeemingGiftCard, setRedeemingGiftCard] = useState(false);
+
   // Get customer info from state if provided (from phone entry page)
   const locationState = location.state as any;
   const customerInfoFromState = locationState?.customerInfo;
@@ -206,6 +228,7 @@ export function CheckoutPage() {
         body: JSON.stringify({
           phone: customerPhoneFull,
           tenant_id: tenant?.id,
+          language: i18n.language,
         }),
       });
       
@@ -285,6 +308,21 @@ export function CheckoutPage() {
 
       setTenant(tenantData);
 
+      // Check whether online payment is available for this tenant
+      try {
+        const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+        const paymentConfigResponse = await fetch(`${API_URL}/payments/config/${tenantData.id}`);
+        if (paymentConfigResponse.ok) {
+          const paymentConfig = await paymentConfigResponse.json();
+          setOnlinePaymentEnabled(!!paymentConfig.enabled);
+          if (paymentConfig.enabled) {
+            setPaymentMethod('online');
+          }
+        }
+      } catch (paymentConfigError) {
+        console.warn('Could not load payment configuration:', paymentConfigError);
+      }
+
       // Fetch service
       const { data: serviceData } = await db
         .from('services')
@@ -668,6 +706,135 @@ export function CheckoutPage() {
     }
   }, [packageServiceDetails, adultCount, childCount, servicePackage]);
 
+  // Tickets per included service when buying a package
+  const packageTickets = servicePackage && packageServiceDetails.length > 0
+    ? packageServiceDetails.map(svc => ({
+        service_id: svc.serviceId,
+        adult_count: svc.adultCount ?? 1,
+        child_count: svc.childCount ?? 0,
+      }))
+    : null;
+
+  async function fetchPriceQuote(promoCode: string | null): Promise<PriceQuote> {
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+    const token = localStorage.getItem('auth_token');
+    const response = await fetch(`${API_URL}/bookings/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify({
+        tenant_id: tenant.id,
+        service_id: service!.id,
+        adult_count: adultCount,
+        child_count: childCount,
+        offer_id: selectedOffer?.id || null,
+        package_id: servicePackage?.id || null,
+        package_services: packageTickets,
+        promo_code: promoCode,
+        customer_phone: customerPhoneFull || null,
+        language: i18n.language,
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw Object.assign(new Error(data.error || 'Failed to calculate price'), { code: data.code });
+    }
+    return data;
+  }
+
+  // The server prices the booking; the amounts computed above are shown until its quote arrives
+  useEffect(() => {
+    if (!tenant?.id || !service?.id) return;
+
+    let cancelled = false;
+    setQuoteLoading(true);
+    fetchPriceQuote(appliedPromoCode)
+      .then(quote => {
+        if (!cancelled) setPriceQuote(quote);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setPriceQuote(null);
+        if (err.code === 'PROMO_CODE_INVALID') {
+          setAppliedPromoCode(null);
+          setPromoError(err.message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setQuoteLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tenant?.id, service?.id, servicePackage?.id, selectedOffer?.id, adultCount, childCount, packageServiceDetails, appliedPromoCode]);
+
+  const amountDue = priceQuote ? priceQuote.total_price : total;
+  const appliedPromo = priceQuote?.promo || null;
+  const applyingPromo = quoteLoading && !!appliedPromoCode && !appliedPromo;
+  // Wallet credit covers the price fully or partially; the rest is paid online or on arrival
+  const walletAmount = useWallet ? Math.min(walletBalance, amountDue) : 0;
+  const amountToPay = Math.max(0, Math.round((amountDue - walletAmount) * 100) / 100);
+
+  const handleApplyPromo = () => {
+    if (!promoCodeInput.trim()) return;
+    setPromoError(null);
+    setAppliedPromoCode(promoCodeInput.trim());
+  };
+
+  // Logged-in customers can spend their wallet credit (gift cards, refunds)
+  useEffect(() => {
+    if (!isLoggedIn || !tenant?.id) return;
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+    const token = localStorage.getItem('auth_token');
+    fetch(`${API_URL}/wallet?tenant_id=${tenant.id}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(wallet => {
+        if (wallet) setWalletBalance(Number(wallet.balance) || 0);
+      })
+      .catch(err => console.error('Error fetching wallet:', err));
+  }, [isLoggedIn, tenant?.id]);
+
+  const handleRedeemGiftCard = async () => {
+    if (!giftCardCode.trim()) return;
+
+    setRedeemingGiftCard(true);
+    setGiftCardError(null);
+    try {
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`${API_URL}/gift-cards/redeem`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          tenant_id: tenant.id,
+          code: giftCardCode.trim(),
+          language: i18n.language,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setGiftCardError(data.error || 'Failed to redeem gift card');
+        return;
+      }
+
+      setWalletBalance(Number(data.wallet_balance) || 0);
+      setUseWallet(true);
+      setGiftCardCode('');
+    } catch (err: any) {
+      setGiftCardError(err.message || 'Failed to redeem gift card');
+    } finally {
+      setRedeemingGiftCard(false);
+    }
+  };
+
   // Handle booking submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -697,6 +864,14 @@ export function CheckoutPage() {
       return;
     }
 
+    // Answers to the service's own booking questions
+    const fieldErrors = validateBookingFieldValues(service.booking_fields, customFieldValues, i18n.language);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      alert(Object.values(fieldErrors)[0]);
+      return;
+    }
+
     setSubmitting(true);
 
     try {
@@ -712,25 +887,30 @@ export function CheckoutPage() {
           }, 0)
         : (adultCount + childCount);
 
-      // Acquire booking lock first
-      const lockResponse = await fetch(`${API_URL}/bookings/lock`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token && { Authorization: `Bearer ${token}` }),
-        },
-        body: JSON.stringify({
-          slot_id: slot.id,
-          reserved_capacity: actualVisitorCount,
-        }),
-      });
+      // Acquire booking lock first (a waitlist offer already holds the spot)
+      let lockData: { lock_id: string; session_id: string };
+      if (bookingData?.waitlistOffer) {
+        lockData = bookingData.waitlistOffer;
+      } else {
+        const lockResponse = await fetch(`${API_URL}/bookings/lock`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token && { Authorization: `Bearer ${token}` }),
+          },
+          body: JSON.stringify({
+            slot_id: slot.id,
+            reserved_capacity: actualVisitorCount,
+          }),
+        });
 
-      if (!lockResponse.ok) {
-        const errorData = await lockResponse.json();
-        throw new Error(errorData.error || 'Failed to reserve slot');
-      }
+        if (!lockResponse.ok) {
+          const errorData = await lockResponse.json();
+          throw new Error(errorData.error || 'Failed to reserve slot');
+        }
 
-      const lockData = await lockResponse.json();
+        lockData = await lockResponse.json();
+      }
 
       // Create booking
       const bookingResponse = await fetch(`${API_URL}/bookings/create`, {
@@ -753,23 +933,59 @@ export function CheckoutPage() {
           child_count: servicePackage && packageServiceDetails.length > 0
             ? packageServiceDetails.reduce((sum, svc) => sum + (svc.childCount || 0), 0)
             : childCount,
-          total_price: total,
+          total_price: amountDue,
           notes: null,
+          custom_fields: customFieldValues,
+          promo_code: appliedPromo?.code || undefined,
+          wallet_amount: walletAmount > 0 ? walletAmount : undefined,
+          package_services: packageTickets,
           lock_id: lockData.lock_id,
           session_id: lockData.session_id,
           package_id: servicePackage?.id || null, // Include package_id if booking is for a package
           offer_id: selectedOffer?.id || null, // Include offer_id if offer is selected
-          language: i18n.language // Customer's selected language
+          language: i18n.language, // Customer's selected language
+          payment_method: onlinePaymentEnabled && paymentMethod === 'online' && amountToPay > 0 ? 'online' : undefined,
         }),
       });
 
       if (!bookingResponse.ok) {
         const errorData = await bookingResponse.json();
+        if (errorData.code === 'WALLET_INSUFFICIENT') {
+          setUseWallet(false);
+        } else if (errorData.code === 'PROMO_CODE_INVALID') {
+          // The code stopped applying (e.g. used up) since it was checked
+          setAppliedPromoCode(null);
+          setPromoError(errorData.error);
+        } else if (errorData.code === 'PRICE_MISMATCH') {
+          // Prices changed since the quote; show the current one
+          setPriceQuote(errorData.quote);
+        }
         throw new Error(errorData.error || 'Failed to create booking');
       }
 
       const bookingResult = await bookingResponse.json();
 
+      // Online payment: create a payment intent and hand over to the provider's checkout
+      if (bookingResult.booking.payment_status === 'awaiting_payment') {
+        const intentResponse = await fetch(`${API_URL}/payments/intents`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            booking_id: bookingResult.booking.id,
+            return_url: `${window.location.origin}/${tenantSlug}/book/success`,
+          }),
+        });
+
+        if (!intentResponse.ok) {
+          const errorData = await intentResponse.json();
+          throw new Error(errorData.error || 'Failed to start payment');
+        }
+
+        const intent = await intentResponse.json();
+        window.location.href = intent.redirect_url;
+        return;
+      }
+
       // Navigate to success page
       navigate(`/${tenantSlug}/book/success`, {
         state: {
@@ -1078,6 +1294,8 @@ export function CheckoutPage() {
                                 body: JSON.stringify({
                                   phone: customerPhoneFull,
                                   otp: otpCode,
+                                  tenant_id: tenant?.id,
+                                  language: i18n.language,
                                 }),
                               });
                               
@@ -1175,6 +1393,20 @@ export function CheckoutPage() {
                     onChange={(e) => setCustomerInfo({ ...customerInfo, email: e.target.value })}
                     placeholder={i18n.language === 'ar' ? 'your@email.com' : 'your@email.com'}
                   />
+
+                  {service.booking_fields && service.booking_fields.length > 0 && (
+                    <div className="pt-4 border-t">
+                      <h3 className="text-sm font-semibold text-gray-900 mb-3">
+                        {i18n.language === 'ar' ? 'معلومات إضافية' : 'Additional Information'}
+                      </h3>
+                      <BookingFieldsForm
+                        fields={service.booking_fields}
+                        values={customFieldValues}
+                        onChange={setCustomFieldValues}
+                        errors={customFieldErrors}
+                      />
+                    </div>
+                  )}
                 </form>
               </CardContent>
             </Card>
@@ -1259,7 +1491,7 @@ export function CheckoutPage() {
                           {i18n.language === 'ar' ? 'السعر الإجمالي' : 'Total Price'}
                         </span>
                         <span className="text-xl font-bold" style={{ color: primaryColor }}>
-                          {total.toFixed(2)} {t('service.currency') || 'SAR'}
+                          {amountDue.toFixed(2)} {t('service.currency') || 'SAR'}
                         </span>
                       </div>
                     </>
@@ -1281,7 +1513,7 @@ export function CheckoutPage() {
                           {i18n.language === 'ar' ? 'السعر الإجمالي' : 'Total Price'}
                         </span>
                         <span className="text-xl font-bold" style={{ color: primaryColor }}>
-                          {total.toFixed(2)} {t('service.currency') || 'SAR'}
+                          {amountDue.toFixed(2)} {t('service.currency') || 'SAR'}
                         </span>
                       </div>
                     </>
@@ -1421,20 +1653,122 @@ export function CheckoutPage() {
                             {i18n.language === 'ar' ? 'المجموع الفرعي' : 'Subtotal'}
                           </span>
                           <span className="text-gray-900 font-medium">
-                            {subtotal.toFixed(2)} {t('service.currency') || 'SAR'}
+                            {(priceQuote ? priceQuote.subtotal : subtotal).toFixed(2)} {t('service.currency') || 'SAR'}
                           </span>
                         </div>
 
+                        {/* Promo Code */}
+                        <div className="mb-3">
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={promoCodeInput}
+                              onChange={(e) => {
+                                setPromoCodeInput(e.target.value.toUpperCase());
+                                setPromoError(null);
+                              }}
+                              placeholder={i18n.language === 'ar' ? 'رمز الخصم' : 'Promo code'}
+                              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              disabled={!!appliedPromo}
+                            />
+                            {appliedPromo ? (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setAppliedPromoCode(null);
+                                  setPromoCodeInput('');
+                                }}
+                                className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50"
+                              >
+                                {i18n.language === 'ar' ? 'إزالة' : 'Remove'}
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={handleApplyPromo}
+                                disabled={applyingPromo || !promoCodeInput.trim()}
+                                className="px-3 py-2 text-sm font-medium text-white rounded-lg disabled:opacity-50"
+                                style={{ backgroundColor: primaryColor }}
+                              >
+                                {applyingPromo
+                                  ? (i18n.language === 'ar' ? 'جاري التحقق...' : 'Checking...')
+                                  : (i18n.language === 'ar' ? 'تطبيق' : 'Apply')}
+                              </button>
+                            )}
+                          </div>
+                          {promoError && <p className="mt-1 text-sm text-red-600">{promoError}</p>}
+                        </div>
+
+                        {appliedPromo && (
+                          <div className="flex justify-between text-sm mb-2">
+                            <span className="text-green-700">
+                              {i18n.language === 'ar' ? 'خصم' : 'Discount'} ({appliedPromo.code})
+                            </span>
+                            <span className="text-green-700 font-medium">
+                              -{appliedPromo.discount_amount.toFixed(2)} {t('service.currency') || 'SAR'}
+                            </span>
+                          </div>
+                        )}
+
+                        {/* Wallet and gift cards (logged-in customers) */}
+                        {isLoggedIn && (
+                          <div className="mb-3 space-y-2">
+                            {walletBalance > 0 && (
+                              <label className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+                                <span className="flex items-center gap-2 text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={useWallet}
+                                    onChange={(e) => setUseWallet(e.target.checked)}
+                                  />
+                                  {i18n.language === 'ar' ? 'استخدام رصيد المحفظة' : 'Use wallet balance'}
+                                  {' '}({walletBalance.toFixed(2)} {t('service.currency') || 'SAR'})
+                                </span>
+                                {walletAmount > 0 && (
+                                  <span className="text-green-700 font-medium">
+                                    -{walletAmount.toFixed(2)} {t('service.currency') || 'SAR'}
+                                  </span>
+                                )}
+                              </label>
+                            )}
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                value={giftCardCode}
+                                onChange={(e) => {
+                                  setGiftCardCode(e.target.value.toUpperCase());
+                                  setGiftCardError(null);
+                                }}
+                                placeholder={i18n.language === 'ar' ? 'رمز بطاقة الهدية' : 'Gift card code'}
+                                className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <button
+                                type="button"
+                                onClick={handleRedeemGiftCard}
+                                disabled={redeemingGiftCard || !giftCardCode.trim()}
+                                className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                {redeemingGiftCard
+                                  ? (i18n.language === 'ar' ? 'جاري الإضافة...' : 'Adding...')
+                                  : (i18n.language === 'ar' ? 'إضافة للمحفظة' : 'Add to wallet')}
+                              </button>
+                            </div>
+                            {giftCardError && <p className="text-sm text-red-600">{giftCardError}</p>}
+                          </div>
+                        )}
+
                         <div className="pt-3 border-t">
                           <div className="flex justify-between items-center">
                             <span className="text-lg font-semibold text-gray-900">
-                              {i18n.language === 'ar' ? 'الإجمالي' : 'Total'}
+                              {walletAmount > 0
+                                ? (i18n.language === 'ar' ? 'المبلغ المستحق' : 'Amount due')
+                                : (i18n.language === 'ar' ? 'الإجمالي' : 'Total')}
                             </span>
                             <span 
                               className="text-2xl font-bold"
                               style={{ color: primaryColor }}
                             >
-                              {total.toFixed(2)} {t('service.currency') || 'SAR'}
+                              {amountToPay.toFixed(2)} {t('service.currency') || 'SAR'}
                             </span>
                           </div>
                         </div>
@@ -1465,6 +1799,33 @@ export function CheckoutPage() {
                   ) : null;
                 })()}
 
+                {/* Payment Method */}
+                {onlinePaymentEnabled && amountToPay > 0 && (
+                  <div className="mt-4 space-y-2">
+                    <h4 className="text-sm font-semibold text-gray-700">
+                      {i18n.language === 'ar' ? 'طريقة الدفع' : 'Payment Method'}
+                    </h4>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="payment_method"
+                        checked={paymentMethod === 'online'}
+                        onChange={() => setPaymentMethod('online')}
+                      />
+                      {i18n.language === 'ar' ? 'الدفع الإلكتروني الآن' : 'Pay online now'}
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="payment_method"
+                        checked={paymentMethod === 'on_site'}
+                        onChange={() => setPaymentMethod('on_site')}
+                      />
+                      {i18n.language === 'ar' ? 'الدفع عند الوصول' : 'Pay on arrival'}
+                    </label>
+                  </div>
+                )}
+
                 {/* CTA Button */}
                 <Button
                   type="submit"
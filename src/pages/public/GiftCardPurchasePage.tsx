@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../contexts/AuthContext';
+import { db } from '../../lib/db';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Card, CardContent } from '../../components/ui/Card';
+import { LanguageToggle } from '../../components/layout/LanguageToggle';
+import { Gift, CheckCircle, XCircle } from 'lucide-react';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+const PRESET_AMOUNTS = [100, 200, 500];
+
+/**
+ * Buy a gift card online for someone else. The card is paid through the tenant's payment
+ * provider and delivered to the recipient by the server once the payment is confirmed.
+ */
+export function GiftCardPurchasePage() {
+  const { tenantSlug } = useParams<{ tenantSlug: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { i18n } = useTranslation();
+  const { userProfile } = useAuth();
+  const isArabic = i18n.language === 'ar';
+
+  const [tenant, setTenant] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [paymentResult, setPaymentResult] = useState<{ status: string; recipient_name?: string | null } | null>(null);
+  const [form, setForm] = useState({
+    amount: '100',
+    purchaser_name: userProfile?.full_name || '',
+    purchaser_phone: userProfile?.phone || '',
+    purchaser_email: userProfile?.email || '',
+    recipient_name: '',
+    recipient_phone: '',
+    recipient_email: '',
+    message: '',
+  });
+
+  useEffect(() => {
+    fetchTenant();
+    const paymentId = new URLSearchParams(location.search).get('payment_id');
+    if (paymentId) {
+      // Returning from the online payment provider
+      fetchPayment(paymentId);
+    }
+  }, [tenantSlug, location.search]);
+
+  async function fetchTenant() {
+    if (!tenantSlug) return;
+    try {
+      const { data } = await db
+        .from('tenants')
+        .select('id, name, name_ar, slug, landing_page_settings')
+        .eq('slug', tenantSlug)
+        .maybeSingle();
+      setTenant(data || null);
+    } catch (err) {
+      console.error('Error fetching tenant:', err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchPayment(paymentId: string) {
+    try {
+      const response = await fetch(`${API_URL}/payments/${paymentId}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setPaymentResult({
+        status: data.payment.status,
+        recipient_name: data.gift_card?.recipient_name,
+      });
+    } catch (err) {
+      console.error('Error fetching payment:', err);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    if (!form.recipient_phone.trim() && !form.recipient_email.trim()) {
+      setError(isArabic ? 'أدخل رقم جوال أو بريد المستلم' : 'Enter the recipient phone number or email');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`${API_URL}/gift-cards/purchase`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          ...form,
+          tenant_id: tenant.id,
+          amount: Number(form.amount),
+          language: i18n.language,
+          return_url: `${window.location.origin}/${tenantSlug}/gift-cards`,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start payment');
+      }
+      window.location.href = data.payment.redirect_url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start payment');
+      setSubmitting(false);
+    }
+  }
+
+  const settings = (() => {
+    const raw = tenant?.landing_page_settings;
+    if (typeof raw === 'string') {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return {};
+      }
+    }
+    return raw || {};
+  })();
+  const primaryColor = settings.primary_color || '#2563eb';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          <h1
+            className="text-xl font-bold text-gray-900 cursor-pointer"
+            onClick={() => navigate(`/${tenantSlug}/book`)}
+          >
+            {tenant ? (isArabic ? tenant.name_ar || tenant.name : tenant.name) : ''}
+          </h1>
+          <LanguageToggle />
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-10">
+        {!tenant ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              {isArabic ? 'لم يتم العثور على مقدم الخدمة' : 'Service provider not found'}
+            </CardContent>
+          </Card>
+        ) : paymentResult ? (
+          <Card>
+            <CardContent className="py-8 text-center space-y-4">
+              {paymentResult.status === 'paid' ? (
+                <>
+                  <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {isArabic ? 'تم شراء بطاقة الهدية' : 'Gift card purchased'}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {isArabic
+                      ? `سيتم إرسال بطاقة الهدية إلى ${paymentResult.recipient_name || 'المستلم'} عبر واتساب والبريد الإلكتروني.`
+                      : `The gift card is being sent to ${paymentResult.recipient_name || 'the recipient'} by WhatsApp and email.`}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-12 h-12 text-red-500 mx-auto" />
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {isArabic ? 'لم يكتمل الدفع' : 'Payment not completed'}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {isArabic ? 'لم يتم شراء بطاقة الهدية. يمكنك المحاولة مرة أخرى.' : 'The gift card was not purchased. You can try again.'}
+                  </p>
+                </>
+              )}
+              <Button onClick={() => navigate(`/${tenantSlug}/book`)}>
+                {isArabic ? 'العودة إلى الحجز' : 'Back to booking'}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-8">
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div className="flex items-center gap-3">
+                  <Gift className="w-8 h-8" style={{ color: primaryColor }} />
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      {isArabic ? 'أهدِ بطاقة هدية' : 'Send a gift card'}
+                    </h2>
+                    <p className="text-sm text-gray-600">
+                      {isArabic
+                        ? 'يستخدم المستلم الرصيد في أي حجز لدينا'
+                        : 'The recipient can spend it on any of our bookings'}
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex gap-2 mb-2">
+                    {PRESET_AMOUNTS.map(amount => (
+                      <button
+                        key={amount}
+                        type="button"
+                        onClick={() => setForm({ ...form, amount: String(amount) })}
+                        className={`flex-1 py-2 rounded-lg border text-sm font-medium ${
+                          Number(form.amount) === amount ? 'text-white' : 'text-gray-700 border-gray-300'
+                        }`}
+                        style={Number(form.amount) === amount ? { backgroundColor: primaryColor, borderColor: primaryColor } : undefined}
+                      >
+                        {amount} {isArabic ? 'ريال' : 'SAR'}
+                      </button>
+                    ))}
+                  </div>
+                  <Input
+                    label={isArabic ? 'القيمة' : 'Amount'}
+                    type="number"
+                    min="10"
+                    step="1"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-700">{isArabic ? 'إلى' : 'To'}</h3>
+                  <Input
+                    label={isArabic ? 'اسم المستلم' : 'Recipient name'}
+                    value={form.recipient_name}
+                    onChange={(e) => setForm({ ...form, recipient_name: e.target.value })}
+                    required
+                  />
+                  <Input
+                    label={isArabic ? 'جوال المستلم' : 'Recipient phone'}
+                    type="tel"
+                    value={form.recipient_phone}
+                    onChange={(e) => setForm({ ...form, recipient_phone: e.target.value })}
+                    placeholder="+966..."
+                  />
+                  <Input
+                    label={isArabic ? 'بريد المستلم' : 'Recipient email'}
+                    type="email"
+                    value={form.recipient_email}
+                    onChange={(e) => setForm({ ...form, recipient_email: e.target.value })}
+                  />
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {isArabic ? 'رسالة' : 'Message'}
+                    </label>
+                    <textarea
+                      value={form.message}
+                      onChange={(e) => setForm({ ...form, message: e.target.value })}
+                      maxLength={500}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-700">{isArabic ? 'من' : 'From'}</h3>
+                  <Input
+                    label={isArabic ? 'اسمك' : 'Your name'}
+                    value={form.purchaser_name}
+                    onChange={(e) => setForm({ ...form, purchaser_name: e.target.value })}
+                    required
+                  />
+                  <Input
+                    label={isArabic ? 'جوالك' : 'Your phone'}
+                    type="tel"
+                    value={form.purchaser_phone}
+                    onChange={(e) => setForm({ ...form, purchaser_phone: e.target.value })}
+                    placeholder="+966..."
+                  />
+                  <Input
+                    label={isArabic ? 'بريدك الإلكتروني' : 'Your email'}
+                    type="email"
+                    value={form.purchaser_email}
+                    onChange={(e) => setForm({ ...form, purchaser_email: e.target.value })}
+                  />
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <Button type="submit" fullWidth disabled={submitting}>
+                  {submitting
+                    ? (isArabic ? 'جاري التحويل للدفع...' : 'Redirecting to payment...')
+                    : (isArabic ? `ادفع ${form.amount || 0} ريال` : `Pay ${form.amount || 0} SAR`)}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../contexts/AuthContext';
+import { db } from '../../lib/db';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent } from '../../components/ui/Card';
+import { LanguageToggle } from '../../components/layout/LanguageToggle';
+import { Package, CheckCircle, XCircle } from 'lucide-react';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+interface PackageDetails {
+  id: string;
+  name: string;
+  name_ar: string | null;
+  description: string | null;
+  description_ar: string | null;
+  total_price: number;
+  original_price?: number | null;
+}
+
+interface IncludedService {
+  service_id: string;
+  quantity: number;
+  name: string;
+  name_ar: string | null;
+}
+
+/**
+ * Buy a package online without booking yet. The subscription is paid through the tenant's
+ * payment provider, activated by the server once the payment is confirmed, and then shows
+ * on the customer dashboard with its remaining services.
+ */
+export function PackagePurchasePage() {
+  const { tenantSlug, packageId } = useParams<{ tenantSlug: string; packageId: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { i18n } = useTranslation();
+  const { userProfile, loading: authLoading } = useAuth();
+  const isArabic = i18n.language === 'ar';
+  const isLoggedIn = userProfile?.role === 'customer';
+
+  const [tenant, setTenant] = useState<any>(null);
+  const [packageData, setPackageData] = useState<PackageDetails | null>(null);
+  const [services, setServices] = useState<IncludedService[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [paymentResult, setPaymentResult] = useState<{ status: string; subscription_status?: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+    const paymentId = new URLSearchParams(location.search).get('payment_id');
+    if (paymentId) {
+      // Returning from the online payment provider
+      fetchPayment(paymentId);
+    }
+  }, [tenantSlug, packageId, location.search]);
+
+  async function fetchData() {
+    if (!tenantSlug || !packageId) return;
+    try {
+      const { data: tenantData } = await db
+        .from('tenants')
+        .select('id, name, name_ar, slug, landing_page_settings')
+        .eq('slug', tenantSlug)
+        .maybeSingle();
+      setTenant(tenantData || null);
+      if (!tenantData) return;
+
+      const { data: pkgData } = await db
+        .from('service_packages')
+        .select('id, name, name_ar, description, description_ar, total_price, original_price')
+        .eq('id', packageId)
+        .eq('tenant_id', tenantData.id)
+        .eq('is_active', true)
+        .maybeSingle();
+      setPackageData(pkgData || null);
+
+      const { data: servicesData } = await db
+        .from('package_services')
+        .select('service_id, quantity, services:service_id (name, name_ar)')
+        .eq('package_id', packageId);
+      setServices((servicesData || []).map((ps: any) => ({
+        service_id: ps.service_id,
+        quantity: ps.quantity || 1,
+        name: ps.services?.name || '',
+        name_ar: ps.services?.name_ar || null,
+      })));
+    } catch (err) {
+      console.error('Error fetching package:', err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchPayment(paymentId: string) {
+    try {
+      const response = await fetch(`${API_URL}/payments/${paymentId}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setPaymentResult({
+        status: data.payment.status,
+        subscription_status: data.package_subscription?.status,
+      });
+    } catch (err) {
+      console.error('Error fetching payment:', err);
+    }
+  }
+
+  async function handleBuy() {
+    if (!isLoggedIn) {
+      navigate(`/${tenantSlug}/customer/login`);
+      return;
+    }
+
+    setError('');
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`${API_URL}/customers/packages/purchase`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          tenant_id: tenant.id,
+          package_id: packageId,
+          return_url: `${window.location.origin}/${tenantSlug}/packages/${packageId}/buy`,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start payment');
+      }
+      window.location.href = data.payment.redirect_url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start payment');
+      setSubmitting(false);
+    }
+  }
+
+  const settings = (() => {
+    const raw = tenant?.landing_page_settings;
+    if (typeof raw === 'string') {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return {};
+      }
+    }
+    return raw || {};
+  })();
+  const primaryColor = settings.primary_color || '#2563eb';
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const price = packageData ? parseFloat(String(packageData.total_price)) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          <h1
+            className="text-xl font-bold text-gray-900 cursor-pointer"
+            onClick={() => navigate(`/${tenantSlug}/book`)}
+          >
+            {tenant ? (isArabic ? tenant.name_ar || tenant.name : tenant.name) : ''}
+          </h1>
+          <LanguageToggle />
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-10">
+        {paymentResult ? (
+          <Card>
+            <CardContent className="py-8 text-center space-y-4">
+              {paymentResult.status === 'paid' ? (
+                <>
+                  <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {isArabic ? 'تم شراء الباقة' : 'Package purchased'}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {isArabic
+                      ? 'ستصلك الفاتورة عبر البريد الإلكتروني وواتساب. يمكنك متابعة رصيد الباقة من لوحة التحكم.'
+                      : 'Your invoice is on its way by email and WhatsApp. You can track what is left of the package from your dashboard.'}
+                  </p>
+                  <Button onClick={() => navigate(`/${tenantSlug}/customer/dashboard`)}>
+                    {isArabic ? 'الذهاب إلى لوحة التحكم' : 'Go to my dashboard'}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <XCircle className="w-12 h-12 text-red-500 mx-auto" />
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {isArabic ? 'لم يكتمل الدفع' : 'Payment not completed'}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {isArabic ? 'لم يتم شراء الباقة. يمكنك المحاولة مرة أخرى.' : 'The package was not purchased. You can try again.'}
+                  </p>
+                  <Button onClick={() => navigate(`/${tenantSlug}/packages/${packageId}/buy`)}>
+                    {isArabic ? 'حاول مرة أخرى' : 'Try again'}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ) : !tenant || !packageData ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              {isArabic ? 'لم يتم العثور على الباقة' : 'Package not found'}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-8 space-y-5">
+              <div className="flex items-center gap-3">
+                <Package className="w-8 h-8" style={{ color: primaryColor }} />
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {isArabic ? packageData.name_ar || packageData.name : packageData.name}
+                  </h2>
+                  {(isArabic ? packageData.description_ar || packageData.description : packageData.description) && (
+                    <p className="text-sm text-gray-600">
+                      {isArabic ? packageData.description_ar || packageData.description : packageData.description}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-700">{isArabic ? 'تشمل الباقة' : 'Included'}</h3>
+                {services.map(service => (
+                  <div key={service.service_id} className="flex justify-between text-sm text-gray-700">
+                    <span>{isArabic ? service.name_ar || service.name : service.name}</span>
+                    <span className="font-medium">× {service.quantity}</span>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-sm text-gray-600">
+                {isArabic
+                  ? 'ادفع الآن واحجز مواعيدك لاحقاً من الاستقبال أو عند زيارتك.'
+                  : 'Pay now and book your visits later.'}
+              </p>
+
+              {!isLoggedIn && (
+                <p className="text-sm text-gray-600">
+                  {isArabic ? 'سجّل الدخول لشراء الباقة.' : 'Sign in to buy this package.'}
+                </p>
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button fullWidth onClick={handleBuy} disabled={submitting}>
+                {!isLoggedIn
+                  ? (isArabic ? 'تسجيل الدخول' : 'Sign in')
+                  : submitting
+                    ? (isArabic ? 'جاري التحويل للدفع...' : 'Redirecting to payment...')
+                    : (isArabic ? `ادفع ${price.toFixed(2)} ريال` : `Pay ${price.toFixed(2)} SAR`)}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1589,6 +1589,13 @@ export function PackageSchedulePage() {
                     return i18n.language === 'ar' ? 'المتابعة إلى الدفع' : 'Proceed to Checkout';
                   })()}
                 </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => navigate(`/${tenantSlug}/packages/${packageId}/buy`)}
+                  className="w-full mt-3"
+                >
+                  {i18n.language === 'ar' ? 'اشترِ الآن واحجز لاحقاً' : 'Buy now, book later'}
+                </Button>
               </div>
             </div>
           </div>
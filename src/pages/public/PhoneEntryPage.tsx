@@ -102,7 +102,7 @@ export function PhoneEntryPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ phone: phoneNumber }),
+        body: JSON.stringify({ phone: phoneNumber, tenant_slug: tenantSlug, language: i18n.language }),
       });
 
       if (!response.ok) {
@@ -128,7 +128,7 @@ export function PhoneEntryPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ phone: phoneNumber, otp }),
+        body: JSON.stringify({ phone: phoneNumber, otp, tenant_slug: tenantSlug, language: i18n.language }),
       });
 
       if (!response.ok) {
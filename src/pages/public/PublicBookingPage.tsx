@@ -9,7 +9,7 @@ import { Input } from '../../components/ui/Input';
 import { Modal } from '../../components/ui/Modal';
 import { LanguageToggle } from '../../components/layout/LanguageToggle';
 import { PhoneInput } from '../../components/ui/PhoneInput';
-import { Calendar, Clock, CheckCircle, Phone, Mail, MapPin, Facebook, Twitter, Instagram, User, Edit2, Trash2, UserPlus, Package, X, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { Calendar, Clock, CheckCircle, Phone, Mail, MapPin, Facebook, Twitter, Instagram, User, Edit2, Trash2, UserPlus, Package, X, ChevronLeft, ChevronRight, Search, Gift } from 'lucide-react';
 import { ImageCarousel } from '../../components/ui/ImageCarousel';
 import { ImageGallery } from '../../components/ui/ImageGallery';
 import { StarRating } from '../../components/ui/StarRating';
@@ -21,6 +21,10 @@ import { FAQ, FAQItem } from '../../components/ui/FAQ';
 import { format, addDays, startOfWeek, isSameDay } from 'date-fns';
 import { TestimonialForm } from '../../components/reviews/TestimonialForm';
 import { ReviewsCarousel } from '../../components/reviews/ReviewsCarousel';
+import { getMaintenanceMessage, isMaintenanceActive } from '../../lib/maintenance';
+import { BookingFieldsForm } from '../../components/bookings/BookingFieldsForm';
+import { validateBookingFieldValues } from '../../lib/bookingFields';
+import { BookingField, BookingFieldValues } from '../../types';
 
 interface Tenant {
   id: string;
@@ -28,6 +32,12 @@ interface Tenant {
   name_ar: string;
   slug: string;
   landing_page_settings: any;
+  is_active?: boolean;
+  maintenance_mode?: boolean;
+  maintenance_message?: string | null;
+  maintenance_message_ar?: string | null;
+  maintenance_starts_at?: string | null;
+  maintenance_ends_at?: string | null;
 }
 
 interface Service {
@@ -55,6 +65,7 @@ interface Service {
   closing_time?: string;
   meeting_point?: string;
   meeting_point_ar?: string;
+  booking_fields?: BookingField[];
 }
 
 interface Slot {
@@ -155,8 +166,10 @@ export function PublicBookingPage() {
     customer_email: '',
     visitor_count: 1,
     notes: '',
+    custom_fields: {} as BookingFieldValues,
     booking_option: 'consecutive' as 'consecutive' | 'parallel'
   });
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
   const [showCreateAccountPrompt, setShowCreateAccountPrompt] = useState(false);
   
   // Booking lock state
@@ -311,7 +324,7 @@ export function PublicBookingPage() {
       setLoading(true);
       const { data: tenantData, error: tenantError } = await db
         .from('tenants')
-        .select('id, name, name_ar, slug, landing_page_settings, is_active, maintenance_mode')
+        .select('id, name, name_ar, slug, landing_page_settings, is_active, maintenance_mode, maintenance_message, maintenance_message_ar, maintenance_starts_at, maintenance_ends_at')
         .eq('slug', tenantSlug)
         .maybeSingle();
 
@@ -345,7 +358,7 @@ export function PublicBookingPage() {
       }
 
       // Check if tenant is in maintenance mode
-      if (tenantData.maintenance_mode === true) {
+      if (isMaintenanceActive(tenantData)) {
         console.log('Tenant is in maintenance mode:', tenantSlug);
         // Don't block the page, but we'll show a message and disable booking
       }
@@ -772,6 +785,10 @@ export function PublicBookingPage() {
     e.preventDefault();
     if (!tenant?.id || !selectedAggregatedSlot || !selectedService?.id) return;
 
+    const fieldErrors = validateBookingFieldValues(selectedService.booking_fields, bookingForm.custom_fields, i18n.language);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
     const quantity = bookingForm.visitor_count;
     const availableSlots = selectedAggregatedSlot.slots;
 
@@ -814,12 +831,8 @@ export function PublicBookingPage() {
       }
 
       // Check maintenance mode before creating booking
-      if (tenant?.maintenance_mode) {
-        throw new Error(
-          i18n.language === 'ar'
-            ? 'نحن حاليًا في وضع الصيانة. الحجوزات غير متاحة مؤقتًا. يرجى المحاولة مرة أخرى لاحقًا.'
-            : 'Service provider is currently in maintenance mode. Bookings are temporarily unavailable. Please try again later.'
-        );
+      if (isMaintenanceActive(tenant)) {
+        throw new Error(getMaintenanceMessage(tenant, i18n.language));
       }
 
       // Verify lock matches the slot being booked
@@ -1023,9 +1036,9 @@ export function PublicBookingPage() {
       customer_name: bookingForm.customer_name,
       customer_phone: bookingForm.customer_phone,
       customer_email: bookingForm.customer_email || null,
-      visitor_count: quantity,
-      total_price: selectedService!.base_price * bookingForm.visitor_count,
+      visitor_count: quantity, // Priced by the server
       notes: bookingForm.notes || null,
+      custom_fields: bookingForm.custom_fields,
       lock_id: lockId,
       session_id: sessionId,
       language: i18n.language // Customer's selected language
@@ -1292,8 +1305,10 @@ export function PublicBookingPage() {
       customer_email: '',
       visitor_count: 1,
       notes: '',
+      custom_fields: {},
       booking_option: 'consecutive'
     });
+    setCustomFieldErrors({});
     setSelectedService(null);
     setSelectedSlot('');
     setSelectedAggregatedSlot(null);
@@ -1428,6 +1443,15 @@ export function PublicBookingPage() {
 
             {/* Actions Section */}
             <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(`/${tenantSlug}/gift-cards`)}
+                style={{ color: primaryColor }}
+              >
+                <Gift className="w-4 h-4 mr-2" />
+                {i18n.language === 'ar' ? 'بطاقات الهدايا' : 'Gift Cards'}
+              </Button>
               {isLoggedIn ? (
                 <Button
                   variant="ghost"
@@ -1523,12 +1547,10 @@ export function PublicBookingPage() {
 
         <div className="max-w-4xl mx-auto text-center text-white relative z-10">
           {/* Maintenance Mode Banner */}
-          {tenant?.maintenance_mode && (
+          {isMaintenanceActive(tenant) && (
             <div className="mb-6 p-4 bg-yellow-500/90 backdrop-blur-sm rounded-lg border-2 border-yellow-400 shadow-lg">
               <p className="text-lg md:text-xl font-semibold text-yellow-900">
-                {i18n.language === 'ar' 
-                  ? '⚠️ نحن حاليًا في وضع الصيانة. الحجوزات غير متاحة مؤقتًا. يرجى المحاولة مرة أخرى لاحقًا.'
-                  : '⚠️ We are currently in maintenance mode. Bookings are temporarily unavailable. Please try again later.'}
+                ⚠️ {getMaintenanceMessage(tenant, i18n.language)}
               </p>
             </div>
           )}
@@ -2727,6 +2749,15 @@ export function PublicBookingPage() {
             />
           </div>
 
+          {selectedService?.booking_fields && selectedService.booking_fields.length > 0 && (
+            <BookingFieldsForm
+              fields={selectedService.booking_fields}
+              values={bookingForm.custom_fields}
+              onChange={(custom_fields) => setBookingForm({ ...bookingForm, custom_fields })}
+              errors={customFieldErrors}
+            />
+          )}
+
           {selectedService && bookingForm.visitor_count > 0 && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <div className="flex items-center justify-between">
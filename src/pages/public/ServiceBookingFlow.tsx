@@ -12,6 +12,7 @@ import { StarRating } from '../../components/ui/StarRating';
 import { AnimatedRating } from '../../components/ui/AnimatedRating';
 import { TestimonialForm } from '../../components/reviews/TestimonialForm';
 import { ReviewImageStory } from '../../components/reviews/ReviewImageStory';
+import { WaitlistJoinModal } from '../../components/waitlist/WaitlistJoinModal';
 
 interface Tenant {
   id: string;
@@ -165,6 +166,7 @@ export function ServiceBookingFlow() {
   const [availableDates, setAvailableDates] = useState<DateAvailability[]>([]);
   const [loading, setLoading] = useState(true);
   const [showTestimonialForm, setShowTestimonialForm] = useState(false);
+  const [showWaitlistModal, setShowWaitlistModal] = useState(false);
   const [activeTab, setActiveTab] = useState<'details' | 'reviews'>('details');
   const [reviews, setReviews] = useState<any[]>([]);
   const [reviewsLoading, setReviewsLoading] = useState(false);
@@ -580,6 +582,30 @@ export function ServiceBookingFlow() {
       );
       
       console.log(`[ServiceBookingFlow] After removing locked slots: ${availableSlots.length} slots`);
+
+      // Hide slots on dates the tenant is closed (holidays, partial-day closures)
+      try {
+        const closuresResponse = await fetch(
+          `${API_URL}/tenants/${tenantId}/closures?start=${startDateStr}&end=${endDateStr}`
+        );
+        if (closuresResponse.ok) {
+          const { closures } = await closuresResponse.json();
+          availableSlots = availableSlots.filter((slot: any) => {
+            const slotDate = typeof slot.slot_date === 'string' && slot.slot_date.includes('T')
+              ? format(parseISO(slot.slot_date), 'yyyy-MM-dd')
+              : String(slot.slot_date).substring(0, 10);
+            return !(closures || []).some((closure: any) =>
+              closure.date === slotDate &&
+              (!closure.start_time || (closure.start_time < slot.end_time.substring(0, 5) && slot.start_time.substring(0, 5) < closure.end_time))
+            );
+          });
+          console.log(`[ServiceBookingFlow] After removing closed dates: ${availableSlots.length} slots`);
+        } else {
+          console.warn('Failed to fetch closures:', closuresResponse.status, closuresResponse.statusText);
+        }
+      } catch (err) {
+        console.warn('Failed to fetch closures:', err);
+      }
       console.log(`[ServiceBookingFlow] Sample slots:`, availableSlots.slice(0, 3).map((s: any) => ({
         id: s.id,
         slot_date: s.slot_date,
@@ -1091,6 +1117,10 @@ export function ServiceBookingFlow() {
 
   const dateSlots = getSlotsForDate(selectedDate);
   const groupedSlots = getGroupedSlots(dateSlots);
+  // Fully booked times on the selected date can be waitlisted
+  const fullTimes = Array.from(groupedSlots.values())
+    .filter((timeSlots) => timeSlots.reduce((sum, s) => sum + s.available_capacity, 0) === 0)
+    .map((timeSlots) => ({ slotId: timeSlots[0].id, label: formatTime12Hour(timeSlots[0].start_time) }));
 
   // Calculate overall rating from reviews
   const calculatedRating = reviews.length > 0
@@ -2145,6 +2175,18 @@ export function ServiceBookingFlow() {
                         </span>
                       </div>
                     )}
+                    {fullTimes.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setShowWaitlistModal(true)}
+                        className="mt-2 text-sm font-medium hover:underline"
+                        style={{ color: primaryColor }}
+                      >
+                        {i18n.language === 'ar'
+                          ? 'الوقت الذي تريده ممتلئ؟ انضم إلى قائمة الانتظار'
+                          : 'Time you want is full? Join the waitlist'}
+                      </button>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-8">
@@ -2780,6 +2822,21 @@ export function ServiceBookingFlow() {
         />
       )}
 
+      {/* Waitlist Modal */}
+      {showWaitlistModal && selectedDate && service && tenant && (
+        <WaitlistJoinModal
+          isOpen={showWaitlistModal}
+          onClose={() => setShowWaitlistModal(false)}
+          tenantId={tenant.id}
+          tenantSlug={tenant.slug}
+          serviceId={service.id}
+          date={format(selectedDate, 'yyyy-MM-dd')}
+          dateLabel={format(selectedDate, i18n.language === 'ar' ? 'EEE، d MMM، yyyy' : 'EEE, MMM d, yyyy')}
+          fullTimes={fullTimes}
+          visitorCount={adultCount + childCount}
+        />
+      )}
+
       {/* Edit Review Modal */}
       {editingReview && service && tenant && (
         <TestimonialForm
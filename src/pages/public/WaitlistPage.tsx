@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent } from '../../components/ui/Card';
+import { LanguageToggle } from '../../components/layout/LanguageToggle';
+import { Bell, Calendar, Clock, Users, CheckCircle, XCircle } from 'lucide-react';
+import { WaitlistEntry } from '../../types';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export function WaitlistPage() {
+  const { tenantSlug, token } = useParams<{ tenantSlug: string; token: string }>();
+  const { i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { userProfile } = useAuth();
+  const isLoggedIn = userProfile?.role === 'customer';
+  const isArabic = i18n.language === 'ar';
+
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [leaving, setLeaving] = useState(false);
+  const [error, setError] = useState('');
+  const [minutesLeft, setMinutesLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchEntry();
+  }, [token]);
+
+  // Count down the time left on an open offer
+  useEffect(() => {
+    if (!entry?.offer) {
+      setMinutesLeft(null);
+      return;
+    }
+    const update = () => {
+      const ms = new Date(entry.offer!.expires_at).getTime() - Date.now();
+      if (ms <= 0) {
+        fetchEntry();
+        return;
+      }
+      setMinutesLeft(Math.ceil(ms / 60000));
+    };
+    update();
+    const timer = setInterval(update, 30000);
+    return () => clearInterval(timer);
+  }, [entry?.offer?.expires_at]);
+
+  async function fetchEntry() {
+    try {
+      const response = await fetch(`${API_URL}/waitlist/${token}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load waitlist entry');
+      }
+      setEntry(data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load waitlist entry');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleLeave() {
+    if (!confirm(isArabic ? 'هل تريد مغادرة قائمة الانتظار؟' : 'Leave the waitlist?')) {
+      return;
+    }
+    setLeaving(true);
+    try {
+      const response = await fetch(`${API_URL}/waitlist/${token}/leave`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to leave waitlist');
+      }
+      await fetchEntry();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to leave waitlist');
+    } finally {
+      setLeaving(false);
+    }
+  }
+
+  function handleClaim() {
+    if (!entry?.offer || !entry.slot) return;
+
+    const bookingData = {
+      serviceId: entry.service_id,
+      packageId: null,
+      offerId: null,
+      slotId: entry.slot.id,
+      date: entry.slot.slot_date,
+      time: entry.slot.start_time,
+      // The held spot is for exactly this many tickets
+      adultCount: entry.visitor_count,
+      childCount: 0,
+      waitlistOffer: entry.offer,
+    };
+
+    navigate(`/${tenantSlug}/book/${isLoggedIn ? 'checkout' : 'phone-entry'}`, {
+      state: bookingData,
+    });
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const statusMessages: Record<WaitlistEntry['status'], { en: string; ar: string }> = {
+    waiting: {
+      en: "You're on the waitlist. We'll message you when a spot opens up.",
+      ar: 'أنت على قائمة الانتظار. سنرسل لك رسالة عند توفر مكان.',
+    },
+    offered: {
+      en: 'A spot opened up and is being held for you. Complete your booking before the offer expires.',
+      ar: 'توفر مكان وتم حجزه لك. أكمل حجزك قبل انتهاء العرض.',
+    },
+    claimed: {
+      en: 'You booked the spot offered from the waitlist.',
+      ar: 'لقد حجزت المكان المعروض من قائمة الانتظار.',
+    },
+    expired: {
+      en: 'This waitlist entry has expired.',
+      ar: 'انتهت صلاحية طلب الانتظار هذا.',
+    },
+    cancelled: {
+      en: 'You left the waitlist.',
+      ar: 'لقد غادرت قائمة الانتظار.',
+    },
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          <h1
+            className="text-xl font-bold text-gray-900 cursor-pointer"
+            onClick={() => navigate(`/${tenantSlug}/book`)}
+          >
+            {entry ? (isArabic ? entry.tenant_name_ar || entry.tenant_name : entry.tenant_name) : ''}
+          </h1>
+          <LanguageToggle />
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-10">
+        {error || !entry ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              {error || (isArabic ? 'لم يتم العثور على طلب الانتظار' : 'Waitlist entry not found')}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-8 space-y-6">
+              <div className="flex items-center gap-3">
+                {entry.status === 'claimed' ? (
+                  <CheckCircle className="w-8 h-8 text-green-600" />
+                ) : entry.status === 'expired' || entry.status === 'cancelled' ? (
+                  <XCircle className="w-8 h-8 text-gray-400" />
+                ) : (
+                  <Bell className="w-8 h-8 text-blue-600" />
+                )}
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {isArabic ? entry.service_name_ar || entry.service_name : entry.service_name}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {isArabic ? statusMessages[entry.status].ar : statusMessages[entry.status].en}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm text-gray-700">
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-gray-400" />
+                  <span>{entry.slot?.slot_date || entry.slot_date}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-gray-400" />
+                  <span>
+                    {entry.slot
+                      ? `${entry.slot.start_time.slice(0, 5)} - ${entry.slot.end_time.slice(0, 5)}`
+                      : (isArabic ? 'أي وقت في هذا اليوم' : 'Any time on this day')}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Users className="w-4 h-4 text-gray-400" />
+                  <span>
+                    {entry.visitor_count} {isArabic ? 'تذكرة' : entry.visitor_count === 1 ? 'ticket' : 'tickets'}
+                  </span>
+                </div>
+                {entry.position !== null && (
+                  <p className="text-gray-600">
+                    {isArabic ? `ترتيبك في قائمة الانتظار: ${entry.position}` : `Your position in the waitlist: ${entry.position}`}
+                  </p>
+                )}
+              </div>
+
+              {entry.status === 'offered' && entry.offer && (
+                <div className="space-y-2">
+                  {minutesLeft !== null && (
+                    <p className="text-sm font-medium text-orange-600">
+                      {isArabic ? `ينتهي العرض خلال ${minutesLeft} دقيقة` : `Offer expires in ${minutesLeft} min`}
+                    </p>
+                  )}
+                  <Button fullWidth onClick={handleClaim}>
+                    {isArabic ? 'احجز الآن' : 'Book now'}
+                  </Button>
+                </div>
+              )}
+
+              {(entry.status === 'waiting' || entry.status === 'offered') && (
+                <Button variant="ghost" fullWidth loading={leaving} onClick={handleLeave}>
+                  {isArabic ? 'مغادرة قائمة الانتظار' : 'Leave waitlist'}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -8,10 +8,16 @@ import { Modal } from '../../components/ui/Modal';
 import { Input } from '../../components/ui/Input';
 import { LanguageToggle } from '../../components/layout/LanguageToggle';
 import { PhoneInput } from '../../components/ui/PhoneInput';
-import { Calendar, Plus, User, Phone, Mail, Clock, CheckCircle, XCircle, LogOut, CalendarDays, DollarSign, List, Grid, ChevronLeft, ChevronRight, X, Package, QrCode, Scan } from 'lucide-react';
+import { Calendar, Plus, User, Phone, Mail, Clock, CheckCircle, XCircle, LogOut, CalendarDays, DollarSign, List, Grid, ChevronLeft, ChevronRight, X, Package, QrCode, Scan, Repeat, ArrowRightLeft } from 'lucide-react';
 import { format, addDays, startOfWeek, isSameDay, parseISO, startOfDay, endOfDay, addMinutes, startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { countryCodes } from '../../lib/countryCodes';
+import { RecurringBookingModal } from '../../components/reception/RecurringBookingModal';
+import { TicketCheckInPanel } from '../../components/reception/TicketCheckInPanel';
+import { BookingFieldsForm } from '../../components/bookings/BookingFieldsForm';
+import { ReassignBookingModal } from '../../components/bookings/ReassignBookingModal';
+import { validateBookingFieldValues } from '../../lib/bookingFields';
+import { BookingField, BookingFieldValues, PriceQuote } from '../../types';
 
 interface Booking {
   id: string;
@@ -25,6 +31,9 @@ interface Booking {
   notes: string | null;
   created_at: string;
   booking_group_id: string | null;
+  series_id?: string | null;
+  series_index?: number | null;
+  admitted_count?: number;
   services: {
     name: string;
     name_ar: string;
@@ -60,6 +69,7 @@ interface Service {
   child_price?: number | null; // Mandatory, set by service provider
   capacity_per_slot: number;
   offers?: ServiceOffer[]; // Service offers
+  booking_fields?: BookingField[];
 }
 
 interface Slot {
@@ -110,6 +120,8 @@ export function ReceptionPage() {
   const [slots, setSlots] = useState<Slot[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isRecurringModalOpen, setIsRecurringModalOpen] = useState(false);
+  const [reassignBookingId, setReassignBookingId] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [selectedService, setSelectedService] = useState<string>('');
   const [selectedOffer, setSelectedOffer] = useState<string>(''); // Selected service offer ID
@@ -128,6 +140,12 @@ export function ReceptionPage() {
   const [countryCode, setCountryCode] = useState('+966'); // Default to Saudi Arabia (kept for backward compatibility)
   const [customerPhoneFull, setCustomerPhoneFull] = useState(''); // Full phone number with country code
   const [customerPackage, setCustomerPackage] = useState<CustomerPackage | null>(null);
+  const [cartQuotes, setCartQuotes] = useState<PriceQuote[]>([]);
+  // Wallet balance of the looked-up customer (null until a phone number is looked up)
+  const [customerWallet, setCustomerWallet] = useState<number | null>(null);
+  const [useCustomerWallet, setUseCustomerWallet] = useState(false);
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [redeemingGiftCard, setRedeemingGiftCard] = useState(false);
   const [isSubscriptionModalOpen, setIsSubscriptionModalOpen] = useState(false);
   const [packages, setPackages] = useState<any[]>([]);
   const [subscriptionCustomerLookup, setSubscriptionCustomerLookup] = useState<any>(null);
@@ -150,6 +168,9 @@ export function ReceptionPage() {
     notes: '',
     booking_option: 'consecutive' as 'consecutive' | 'parallel'
   });
+  // Answers to each service's custom booking questions, keyed by service id
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, BookingFieldValues>>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
   const [manualSlotAssignments, setManualSlotAssignments] = useState<Array<{slotIndex: number, employeeId: string, slotId: string}>>([]);
   const [showPreview, setShowPreview] = useState(false);
   const [previewData, setPreviewData] = useState<any>(null);
@@ -159,7 +180,7 @@ export function ReceptionPage() {
   const [isQRScannerOpen, setIsQRScannerOpen] = useState(false);
   const [qrInputValue, setQrInputValue] = useState('');
   const [qrValidating, setQrValidating] = useState(false);
-  const [qrValidationResult, setQrValidationResult] = useState<{success: boolean; message: string; booking?: any} | null>(null);
+  const [qrValidationResult, setQrValidationResult] = useState<{success: boolean; message: string; booking?: any; tickets?: {checked_in: number; total: number}; group?: {checked_in: number; total: number} | null} | null>(null);
 
   // Track if initial auth check has been completed
   const [initialAuthDone, setInitialAuthDone] = useState(false);
@@ -259,6 +280,20 @@ export function ReceptionPage() {
     }
   }, [bookingForm.adult_count, bookingForm.child_count]);
 
+  // Prices of the services added to the booking, as the server will charge them
+  useEffect(() => {
+    if (!userProfile?.tenant_id || selectedServices.length === 0) {
+      setCartQuotes([]);
+      return;
+    }
+    fetchCartQuotes()
+      .then(setCartQuotes)
+      .catch(err => {
+        console.error('Error fetching price quotes:', err);
+        setCartQuotes([]);
+      });
+  }, [selectedServices, customerPackage, selectedOffer]);
+
   // Clear selected slots when key parameters change
   useEffect(() => {
     setSelectedSlots([]);
@@ -413,7 +448,7 @@ export function ReceptionPage() {
     // Fetch services with their offers
     const { data: servicesData, error: servicesError } = await supabase
       .from('services')
-      .select('id, name, name_ar, base_price, original_price, discount_percentage, child_price, capacity_per_slot, capacity_mode')
+      .select('id, name, name_ar, base_price, original_price, discount_percentage, child_price, capacity_per_slot, capacity_mode, booking_fields')
       .eq('tenant_id', userProfile.tenant_id)
       .eq('is_active', true)
       .order('name');
@@ -460,7 +495,7 @@ export function ReceptionPage() {
       // Fetch packages first
       const { data: packagesData, error: packagesError } = await supabase
         .from('service_packages')
-        .select('id, name, name_ar, total_price')
+        .select('id, name, name_ar, total_price, validity_days')
         .eq('tenant_id', userProfile.tenant_id)
         .eq('is_active', true)
         .order('name');
@@ -641,6 +676,9 @@ export function ReceptionPage() {
           notes,
           created_at,
           booking_group_id,
+          series_id,
+          series_index,
+          admitted_count,
           qr_scanned,
           qr_scanned_at,
           qr_scanned_by_user_id,
@@ -1150,6 +1188,7 @@ export function ReceptionPage() {
         },
         body: JSON.stringify({
           ...bookingData,
+          custom_fields: customFieldValues[bookingData.service_id],
           language: i18n.language
         })
       });
@@ -1199,7 +1238,7 @@ export function ReceptionPage() {
     }
   }
 
-  async function handleQuantityBooking(service: Service) {
+  async function handleQuantityBooking() {
     const quantity = bookingForm.visitor_count;
     const fullPhoneNumber = `${countryCode}${bookingForm.customer_phone}`;
 
@@ -1226,17 +1265,6 @@ export function ReceptionPage() {
       // Book all tickets in the same slot - this is what the user wants
       await saveOrUpdateCustomer(fullPhoneNumber);
       
-      // Calculate prices
-      let adultPrice = service.base_price || 0;
-      if (selectedOffer) {
-        const offer = service.offers?.find(o => o.id === selectedOffer);
-        if (offer) {
-          adultPrice = offer.price;
-        }
-      }
-      const childPrice = service.child_price || adultPrice;
-      const totalPrice = (adultPrice * bookingForm.adult_count) + (childPrice * bookingForm.child_count);
-      
       // Generate booking group ID
       const bookingGroupId = crypto.randomUUID();
       
@@ -1261,8 +1289,8 @@ export function ReceptionPage() {
             visitor_count: quantity,
             adult_count: bookingForm.adult_count,
             child_count: bookingForm.child_count,
-            total_price: totalPrice,
             notes: bookingForm.notes || null,
+            custom_fields: customFieldValues[selectedService!],
             status: 'confirmed',
             payment_status: 'unpaid',
             created_by_user_id: userProfile!.id,
@@ -1305,10 +1333,10 @@ export function ReceptionPage() {
 
     if (bookingForm.booking_option === 'parallel' && slotsAtTime.length > 1) {
       // Book multiple employees at same time
-      await handleParallelBooking(service, slotsAtTime, quantity, fullPhoneNumber);
+      await handleParallelBooking(slotsAtTime, quantity, fullPhoneNumber);
     } else {
       // Book consecutive slots with single employee
-      await handleConsecutiveBooking(service, quantity, fullPhoneNumber);
+      await handleConsecutiveBooking(quantity, fullPhoneNumber);
     }
 
     alert(`${quantity} bookings created successfully!`);
@@ -1350,7 +1378,7 @@ export function ReceptionPage() {
     }
   }
 
-  async function handleParallelBooking(service: Service, slotsAtTime: Slot[], quantity: number, fullPhoneNumber: string) {
+  async function handleParallelBooking(slotsAtTime: Slot[], quantity: number, fullPhoneNumber: string) {
     // Use manually selected slots
     if (selectedSlots.length === 0) {
       throw new Error('Please select time slots first');
@@ -1375,16 +1403,6 @@ export function ReceptionPage() {
       const totalTickets = bookingForm.adult_count + bookingForm.child_count;
       let adultRemaining = bookingForm.adult_count;
       let childRemaining = bookingForm.child_count;
-      // If an offer is selected, use offer price; otherwise use base_price
-      let adultPrice = service.base_price || 0;
-      if (selectedOffer) {
-        const offer = service.offers?.find(o => o.id === selectedOffer);
-        if (offer) {
-          adultPrice = offer.price;
-        }
-      }
-      // Child price is mandatory and set by service provider (offers don't affect child price)
-      const childPrice = service.child_price || adultPrice;
 
       for (const slot of slotsToUse) {
         // Assign tickets: prioritize adults, then children
@@ -1398,8 +1416,6 @@ export function ReceptionPage() {
           bookingChildCount = 1;
           childRemaining--;
         }
-        
-        const bookingPrice = (adultPrice * bookingAdultCount) + (childPrice * bookingChildCount);
 
         await createBookingViaAPI({
           tenant_id: userProfile!.tenant_id,
@@ -1413,7 +1429,6 @@ export function ReceptionPage() {
           visitor_count: bookingAdultCount + bookingChildCount,
           adult_count: bookingAdultCount,
           child_count: bookingChildCount,
-          total_price: bookingPrice,
           notes: bookingForm.notes || null,
           status: 'confirmed',
           payment_status: 'unpaid',
@@ -1427,10 +1442,6 @@ export function ReceptionPage() {
       // Distribute adult_count and child_count across bookings
       let adultRemaining = bookingForm.adult_count;
       let childRemaining = bookingForm.child_count;
-      // Adult price is always base_price (discounted if discount exists)
-      const adultPrice = service.base_price || 0;
-      // Child price is mandatory and set by service provider
-      const childPrice = service.child_price || adultPrice;
 
       for (const selectedSlot of selectedSlots) {
         // Assign tickets: prioritize adults, then children
@@ -1444,8 +1455,6 @@ export function ReceptionPage() {
           bookingChildCount = 1;
           childRemaining--;
         }
-        
-        const bookingPrice = (adultPrice * bookingAdultCount) + (childPrice * bookingChildCount);
 
         await createBookingViaAPI({
           tenant_id: userProfile!.tenant_id,
@@ -1459,7 +1468,6 @@ export function ReceptionPage() {
           visitor_count: bookingAdultCount + bookingChildCount,
           adult_count: bookingAdultCount,
           child_count: bookingChildCount,
-          total_price: bookingPrice,
           notes: bookingForm.notes || null,
           status: 'confirmed',
           payment_status: 'unpaid',
@@ -1470,7 +1478,7 @@ export function ReceptionPage() {
     }
   }
 
-  async function handleConsecutiveBooking(service: Service, quantity: number, fullPhoneNumber: string) {
+  async function handleConsecutiveBooking(quantity: number, fullPhoneNumber: string) {
     // Use manually selected slots
     if (selectedSlots.length === 0) {
       throw new Error('Please select time slots first');
@@ -1491,8 +1499,6 @@ export function ReceptionPage() {
     // Distribute adult_count and child_count across bookings
     let adultRemaining = bookingForm.adult_count;
     let childRemaining = bookingForm.child_count;
-    const adultPrice = service.adult_price || service.base_price || 0;
-    const childPrice = service.child_price || adultPrice;
 
     for (const selectedSlot of selectedSlots) {
       // Assign tickets: prioritize adults, then children
@@ -1506,8 +1512,6 @@ export function ReceptionPage() {
         bookingChildCount = 1;
         childRemaining--;
       }
-      
-      const bookingPrice = (adultPrice * bookingAdultCount) + (childPrice * bookingChildCount);
 
       await createBookingViaAPI({
         tenant_id: userProfile!.tenant_id,
@@ -1521,7 +1525,6 @@ export function ReceptionPage() {
         visitor_count: bookingAdultCount + bookingChildCount,
         adult_count: bookingAdultCount,
         child_count: bookingChildCount,
-        total_price: bookingPrice,
         notes: bookingForm.notes || null,
         status: 'confirmed',
         payment_status: 'unpaid',
@@ -1531,6 +1534,38 @@ export function ReceptionPage() {
     }
   }
 
+  // Tickets in one booking of the list: all of them when they fit in a single slot of the selected service, otherwise 1 adult
+  function ticketCountsFor(item: {service: Service, slot: Slot}) {
+    const isMultiTicketInSingleSlot = item.service.id === selectedService &&
+                                     bookingForm.visitor_count > 1 &&
+                                     item.slot.available_capacity >= bookingForm.visitor_count;
+    return isMultiTicketInSingleSlot
+      ? { adult_count: bookingForm.adult_count, child_count: bookingForm.child_count, visitor_count: Number(bookingForm.visitor_count) }
+      : { adult_count: 1, child_count: 0, visitor_count: 1 };
+  }
+
+  // Spread the wallet credit over the bookings in order, up to each booking's price
+  async function allocateWallet(servicesToBook: Array<{service: Service, slot: Slot, employeeId: string}>) {
+    const allocation = new Map<object, number>();
+    let remaining = useCustomerWallet ? customerWallet || 0 : 0;
+    if (remaining <= 0) return allocation;
+
+    const quotes = await fetchCartQuotes(servicesToBook.map(item => ({
+      service: item.service,
+      ...ticketCountsFor(item),
+    })));
+    servicesToBook.forEach((item, idx) => {
+      const quote = quotes[idx];
+      if (!quote || quote.package_covered || remaining <= 0) return;
+      const amount = Math.round(Math.min(remaining, quote.total_price) * 100) / 100;
+      if (amount > 0) {
+        allocation.set(item, amount);
+        remaining = Math.round((remaining - amount) * 100) / 100;
+      }
+    });
+    return allocation;
+  }
+
   async function handleMultiServiceBookingWithList(servicesToBook: Array<{service: Service, slot: Slot, employeeId: string}>) {
     if (!userProfile?.tenant_id) return;
     if (servicesToBook.length === 0) {
@@ -1541,6 +1576,7 @@ export function ReceptionPage() {
     try {
       // Construct full phone number
       const fullPhoneNumber = `${countryCode}${bookingForm.customer_phone}`;
+      const walletAllocation = await allocateWallet(servicesToBook);
 
       // Save or update customer record
       const { data: existingCustomer } = await supabase
@@ -1583,50 +1619,14 @@ export function ReceptionPage() {
       });
 
       // Create bookings for each service, grouped by service_id
-      const bookingPromises = Array.from(serviceGroups.entries()).flatMap(([serviceId, items]) => {
+      const bookingPromises = Array.from(serviceGroups.values()).flatMap((items) => {
         // Generate one group ID per service
         const bookingGroupId = crypto.randomUUID();
 
-        // Determine how many bookings can use package for this service
-        const packageCheck = checkServiceInPackage(serviceId);
-        const service = services.find(s => s.id === serviceId);
-        let packageUsedCount = 0;
-
-        return items.map(async (item, index) => {
+        return items.map(async (item) => {
           console.log('Creating booking for service:', item.service.name, 'slot:', item.slot.id, 'group:', bookingGroupId);
 
-          // Determine if this specific booking can use the package
-          const canUsePackage = packageCheck.available && packageUsedCount < packageCheck.remaining;
-          const usePackage = canUsePackage;
-          const price = usePackage ? 0 : (service?.base_price || 0);
-
-          if (usePackage) {
-            packageUsedCount++;
-          }
-
-          // Calculate price for this booking
-          const serviceForBooking = services.find(s => s.id === item.service.id);
-          // If an offer is selected, use offer price; otherwise use base_price
-          let adultPriceForBooking = serviceForBooking?.base_price || 0;
-          if (selectedOffer) {
-            const offer = serviceForBooking?.offers?.find(o => o.id === selectedOffer);
-            if (offer) {
-              adultPriceForBooking = offer.price;
-            }
-          }
-          // Child price is mandatory and set by service provider (offers don't affect child price)
-          const childPriceForBooking = serviceForBooking?.child_price || adultPriceForBooking;
-          
-          // Check if this is a multi-ticket booking in a single slot
-          const isMultiTicketInSingleSlot = item.service.id === selectedService && 
-                                           bookingForm.visitor_count > 1 && 
-                                           item.slot.available_capacity >= bookingForm.visitor_count;
-          
-          // Use actual ticket counts if multi-ticket in single slot, otherwise use 1 adult
-          const bookingAdultCount = isMultiTicketInSingleSlot ? bookingForm.adult_count : 1;
-          const bookingChildCount = isMultiTicketInSingleSlot ? bookingForm.child_count : 0;
-          const bookingVisitorCount = isMultiTicketInSingleSlot ? bookingForm.visitor_count : 1;
-          const bookingPrice = usePackage ? 0 : ((adultPriceForBooking * bookingAdultCount) + (childPriceForBooking * bookingChildCount));
+          const tickets = ticketCountsFor(item);
 
           // Insert booking via API
           try {
@@ -1635,25 +1635,25 @@ export function ReceptionPage() {
               service_id: item.service.id,
               slot_id: item.slot.id,
               employee_id: item.employeeId || null,
-              offer_id: selectedOffer || null,
+              offer_id: offerForService(item.service),
               customer_name: bookingForm.customer_name,
               customer_phone: fullPhoneNumber,
               customer_email: bookingForm.customer_email || null,
-              visitor_count: bookingVisitorCount,
-              adult_count: bookingAdultCount,
-              child_count: bookingChildCount,
-              total_price: bookingPrice,
+              visitor_count: tickets.visitor_count,
+              adult_count: tickets.adult_count,
+              child_count: tickets.child_count,
               notes: bookingForm.notes || null,
               status: 'confirmed',
-              payment_status: usePackage ? 'paid' : 'unpaid',
-              package_subscription_id: usePackage && customerPackage ? customerPackage.id : null,
+              // The server prices the booking and uses the package while it still covers the service
+              package_subscription_id: customerPackage?.id || null,
+              wallet_amount: walletAllocation.get(item),
               created_by_user_id: userProfile.id,
               booking_group_id: bookingGroupId
             });
 
             console.log('Booking created:', bookingData);
             // Note: Slot capacity and package usage are automatically updated by database triggers
-            return { ...bookingData, usedPackage: usePackage };
+            return { ...bookingData, usedPackage: !!bookingData.booking?.package_subscription_id };
           } catch (error: any) {
             console.error('Error creating booking:', error);
             throw error;
@@ -1684,6 +1684,10 @@ export function ReceptionPage() {
       if (packageBookings > 0) {
         message += `\n${packageBookings} from package, ${paidBookings} paid.`;
       }
+      const walletUsed = Array.from(walletAllocation.values()).reduce((sum, amount) => sum + amount, 0);
+      if (walletUsed > 0) {
+        message += `\n${walletUsed.toFixed(2)} ${t('common.sar')} paid from the customer's wallet.`;
+      }
 
       console.log('Bookings created successfully, about to show alert');
       alert(message);
@@ -1859,7 +1863,7 @@ export function ReceptionPage() {
     try {
       // Handle quantity-based booking
       if (bookingForm.visitor_count > 1) {
-        await handleQuantityBooking(service);
+        await handleQuantityBooking();
         return;
       }
 
@@ -1970,19 +1974,6 @@ export function ReceptionPage() {
           });
       }
 
-      // Calculate total price based on adult/child pricing
-      // If an offer is selected, use offer price; otherwise use base_price
-      let adultPrice = service.base_price || 0;
-      if (selectedOffer) {
-        const offer = service.offers?.find(o => o.id === selectedOffer);
-        if (offer) {
-          adultPrice = offer.price;
-        }
-      }
-      // Child price is mandatory and set by service provider (offers don't affect child price)
-      const childPrice = service.child_price || adultPrice; // Fallback to adult price if child_price not set
-      const totalPrice = (adultPrice * bookingForm.adult_count) + (childPrice * bookingForm.child_count);
-
       try {
         await createBookingViaAPI({
           tenant_id: userProfile.tenant_id,
@@ -1996,7 +1987,6 @@ export function ReceptionPage() {
           visitor_count: bookingForm.visitor_count,
           adult_count: bookingForm.adult_count,
           child_count: bookingForm.child_count,
-          total_price: totalPrice,
           notes: bookingForm.notes || null,
           status: 'confirmed',
           payment_status: 'unpaid',
@@ -2034,6 +2024,39 @@ export function ReceptionPage() {
     }
   }
 
+  async function cancelSeriesRemainder(booking: Booking) {
+    if (!booking.series_id) return;
+    if (!confirm('Cancel this booking and all later bookings in the series?')) return;
+
+    try {
+      const API_URL = (import.meta.env.VITE_API_URL || '').replace(/\/api\/?$/, '');
+      const session = await supabase.auth.getSession();
+      if (!session.data.session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`${API_URL}/api/bookings/series/${booking.series_id}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.data.session.access_token}`,
+        },
+        body: JSON.stringify({ booking_id: booking.id, scope: 'remaining' }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel series');
+      }
+
+      alert(`${data.cancelled.length} booking(s) in the series cancelled${data.warning ? `\n${data.warning}` : ''}`);
+      fetchBookings();
+    } catch (err: any) {
+      console.error('Error cancelling series:', err);
+      alert(`Error: ${err.message}`);
+    }
+  }
+
   async function updatePaymentStatus(bookingId: string, paymentStatus: string) {
     try {
       const { error } = await supabase
@@ -2049,8 +2072,8 @@ export function ReceptionPage() {
     }
   }
 
-  // Validate QR Code
-  async function validateQRCode(bookingId: string) {
+  // Validate QR Code (signed ticket token from the QR code or barcode), or admit a booking ID typed in by hand
+  async function validateQRCode(scannedValue: string) {
     setQrValidating(true);
     setQrValidationResult(null);
 
@@ -2058,13 +2081,13 @@ export function ReceptionPage() {
       const API_URL = import.meta.env.VITE_API_URL || '';
       const token = localStorage.getItem('auth_token');
 
-      const response = await fetch(`${API_URL}/bookings/validate-qr`, {
+      const response = await fetch(`${API_URL}/bookings/${getQRValidationPath(scannedValue)}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           ...(token && { Authorization: `Bearer ${token}` }),
         },
-        body: JSON.stringify({ booking_id: bookingId }),
+        body: JSON.stringify(isTicketToken(scannedValue) ? { qr_token: scannedValue } : {}),
       });
 
       // Check if response is JSON before parsing
@@ -2095,14 +2118,19 @@ export function ReceptionPage() {
         success: true,
         message: data.message || 'QR code validated successfully',
         booking: data.booking,
+        tickets: data.tickets,
+        group: data.group,
       });
 
       // Refresh bookings list
       await fetchBookings();
 
-      // Auto-close after 3 seconds on success
+      // Auto-close after 3 seconds on success; stay open while more tickets of the party are to be scanned
+      const moreTickets = data.tickets && data.tickets.checked_in < data.tickets.total;
       setTimeout(() => {
-        setIsQRScannerOpen(false);
+        if (!moreTickets) {
+          setIsQRScannerOpen(false);
+        }
         setQrInputValue('');
         setQrValidationResult(null);
       }, 3000);
@@ -2117,6 +2145,22 @@ export function ReceptionPage() {
     }
   }
 
+  // Ticket QR codes and barcodes carry a signed token (header.payload.signature)
+  function isTicketToken(value: string) {
+    return value.split('.').length === 3;
+  }
+
+  // Scanned tokens are verified by validate-qr; a booking ID typed in admits its next ticket by hand
+  function getQRValidationPath(value: string) {
+    if (isTicketToken(value)) {
+      return 'validate-qr';
+    }
+    const bookingId = /^[0-9a-f]{32}$/i.test(value)
+      ? value.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5')
+      : value;
+    return `${encodeURIComponent(bookingId)}/check-ins`;
+  }
+
   // Handle QR input (can be scanned or manually entered)
   function handleQRSubmit(e?: React.FormEvent) {
     if (e) e.preventDefault();
@@ -2150,11 +2194,13 @@ export function ReceptionPage() {
       }
     }
     setCustomerPackage(null);
+    setCustomerWallet(null);
+    setUseCustomerWallet(false);
     try {
       // First, try to find in customers table
       const { data: customerData, error: customerError } = await supabase
         .from('customers')
-        .select('id, name, email, phone')
+        .select('id, name, email, phone, wallet_balance')
         .eq('tenant_id', userProfile.tenant_id)
         .eq('phone', fullPhoneNumber)
         .maybeSingle();
@@ -2168,6 +2214,7 @@ export function ReceptionPage() {
           customer_name: customerData.name,
           customer_email: customerData.email || ''
         }));
+        setCustomerWallet(Number(customerData.wallet_balance) || 0);
 
         // Fetch active package subscription
         const { data: subscriptionData } = await supabase
@@ -2181,6 +2228,9 @@ export function ReceptionPage() {
           `)
           .eq('customer_id', customerData.id)
           .eq('status', 'active')
+          // A renewal without carry-over leaves the old subscription active too; use the newest
+          .order('created_at', { ascending: false })
+          .limit(1)
           .maybeSingle();
 
         if (subscriptionData) {
@@ -2206,6 +2256,7 @@ export function ReceptionPage() {
           }
         }
       } else {
+        setCustomerWallet(0);
         // Customer not found in customers table, check bookings table for guest bookings
         const { data: bookingData, error: bookingError } = await supabase
           .from('bookings')
@@ -2260,25 +2311,46 @@ export function ReceptionPage() {
     };
   }
 
-  // Calculate booking price considering package availability AND already selected services in current session
-  function calculateBookingPrice(serviceId: string, quantity: number, alreadySelectedCount: number = 0): { price: number; usePackage: boolean; canUsePackage: boolean } {
-    const service = services.find(s => s.id === serviceId);
-    if (!service) return { price: 0, usePackage: false, canUsePackage: false };
+  // The selected offer only applies to its own service
+  function offerForService(service: Service): string | null {
+    return selectedOffer && service.offers?.some(o => o.id === selectedOffer) ? selectedOffer : null;
+  }
 
-    const packageCheck = checkServiceInPackage(serviceId);
+  // Price the services added to the booking (one ticket each unless given); the package covers them in order while it lasts
+  async function fetchCartQuotes(
+    items: Array<{service: Service, adult_count: number, child_count: number}> = selectedServices.map(item => ({
+      service: item.service,
+      adult_count: 1,
+      child_count: 0,
+    }))
+  ): Promise<PriceQuote[]> {
+    let API_URL = import.meta.env.VITE_API_URL || '';
+    API_URL = API_URL.replace(/\/api\/?$/, '');
+    const session = await supabase.auth.getSession();
 
-    // Calculate remaining after accounting for already selected services in this session
-    const effectiveRemaining = packageCheck.remaining - alreadySelectedCount;
+    const response = await fetch(`${API_URL}/api/bookings/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.data.session?.access_token}`
+      },
+      body: JSON.stringify({
+        items: items.map(item => ({
+          tenant_id: userProfile!.tenant_id,
+          service_id: item.service.id,
+          adult_count: item.adult_count,
+          child_count: item.child_count,
+          offer_id: offerForService(item.service),
+          package_subscription_id: customerPackage?.id || null
+        }))
+      })
+    });
 
-    if (packageCheck.available && effectiveRemaining >= quantity) {
-      return { price: 0, usePackage: true, canUsePackage: true };
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to calculate prices');
     }
-
-    return {
-      price: service.base_price * quantity,
-      usePackage: false,
-      canUsePackage: effectiveRemaining > 0
-    };
+    return data.quotes;
   }
 
   // Get all booked time slots from selectedServices to avoid conflicts
@@ -2316,6 +2388,12 @@ export function ReceptionPage() {
     return filtered;
   }
 
+  // Services in the current booking (added to the list or selected) that ask custom questions
+  function servicesWithBookingFields(): Service[] {
+    const ids = new Set([...selectedServices.map(item => item.service.id), selectedService].filter(Boolean));
+    return services.filter(service => ids.has(service.id) && (service.booking_fields?.length ?? 0) > 0);
+  }
+
   function resetForm() {
     setBookingForm({
       customer_phone: '',
@@ -2327,6 +2405,8 @@ export function ReceptionPage() {
       notes: '',
       booking_option: 'consecutive'
     });
+    setCustomFieldValues({});
+    setCustomFieldErrors({});
     setManualSlotAssignments([]);
     setShowPreview(false);
     setPreviewData(null);
@@ -2340,6 +2420,49 @@ export function ReceptionPage() {
     setAssignmentMode('automatic');
     setShowFullCalendar(false);
     setSelectedServices([]);
+    setCustomerWallet(null);
+    setUseCustomerWallet(false);
+    setGiftCardCode('');
+  }
+
+  // Redeem a gift card into the wallet of the customer being booked
+  async function handleRedeemGiftCard() {
+    const fullPhoneNumber = `${countryCode}${bookingForm.customer_phone}`;
+    if (!giftCardCode.trim() || !bookingForm.customer_phone) return;
+
+    setRedeemingGiftCard(true);
+    try {
+      const API_URL = (import.meta.env.VITE_API_URL || '').replace(/\/api\/?$/, '');
+      const session = await supabase.auth.getSession();
+      const response = await fetch(`${API_URL}/api/gift-cards/redeem`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.data.session?.access_token}`
+        },
+        body: JSON.stringify({
+          code: giftCardCode.trim(),
+          customer_phone: fullPhoneNumber,
+          customer_name: bookingForm.customer_name || null,
+          language: i18n.language
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to redeem gift card');
+      }
+
+      setCustomerWallet(Number(result.wallet_balance) || 0);
+      setUseCustomerWallet(true);
+      setGiftCardCode('');
+      alert(i18n.language === 'ar'
+        ? `تمت إضافة ${result.amount} ${t('common.sar')} إلى محفظة العميل`
+        : `${result.amount} ${t('common.sar')} added to the customer's wallet`);
+    } catch (err: any) {
+      alert(`Error: ${err.message}`);
+    } finally {
+      setRedeemingGiftCard(false);
+    }
   }
 
   function getNext8Days() {
@@ -2628,6 +2751,15 @@ export function ReceptionPage() {
                     </Button>
                   )}
                   
+                  {/* Partial check-in: part of the party has been admitted */}
+                  {!(booking as any).qr_scanned && (booking.admitted_count || 0) > 0 && (
+                    <div className="w-full p-2 bg-amber-50 border border-amber-200 rounded-lg text-center text-xs text-amber-800">
+                      {i18n.language === 'ar'
+                        ? `تم دخول ${booking.admitted_count} من ${booking.visitor_count}`
+                        : `${booking.admitted_count} of ${booking.visitor_count} admitted`}
+                    </div>
+                  )}
+
                   {/* QR Already Scanned Indicator */}
                   {(booking as any).qr_scanned && (
                     <div className="w-full p-2 bg-green-50 border border-green-200 rounded-lg text-center">
@@ -2768,6 +2900,14 @@ export function ReceptionPage() {
               <span className="hidden sm:inline">{t('booking.newBooking')}</span>
               <span className="sm:hidden">New</span>
             </Button>
+            <Button
+              onClick={() => setIsRecurringModalOpen(true)}
+              icon={<Repeat className="w-4 h-4" />}
+              size="sm"
+              variant="secondary"
+            >
+              <span className="hidden sm:inline">{i18n.language === 'ar' ? 'حجز متكرر' : 'Recurring'}</span>
+            </Button>
             <Button
               onClick={() => {
                 setIsQRScannerOpen(true);
@@ -3149,6 +3289,12 @@ export function ReceptionPage() {
         ) : (
         <form onSubmit={(e) => {
           e.preventDefault();
+          const fieldErrors = servicesWithBookingFields().reduce((errors, service) => ({
+            ...errors,
+            ...validateBookingFieldValues(service.booking_fields, customFieldValues[service.id], i18n.language),
+          }), {} as Record<string, string>);
+          setCustomFieldErrors(fieldErrors);
+          if (Object.keys(fieldErrors).length > 0) return;
           // Show preview instead of directly submitting
           setShowPreview(true);
         }} className="space-y-4">
@@ -3239,6 +3385,46 @@ export function ReceptionPage() {
             </div>
           )}
 
+          {/* Customer wallet: gift card credit and refunds */}
+          {customerWallet !== null && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-blue-900">
+                  {i18n.language === 'ar' ? 'رصيد المحفظة' : 'Wallet balance'}
+                </h4>
+                <span className="font-bold text-blue-900">{customerWallet.toFixed(2)} {t('common.sar')}</span>
+              </div>
+              {customerWallet > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useCustomerWallet}
+                    onChange={(e) => setUseCustomerWallet(e.target.checked)}
+                  />
+                  {i18n.language === 'ar' ? 'الدفع من المحفظة' : 'Pay from wallet'}
+                </label>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={giftCardCode}
+                  onChange={(e) => setGiftCardCode(e.target.value.toUpperCase())}
+                  placeholder={i18n.language === 'ar' ? 'رمز بطاقة الهدية' : 'Gift card code'}
+                  className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleRedeemGiftCard}
+                  disabled={redeemingGiftCard || !giftCardCode.trim()}
+                >
+                  {i18n.language === 'ar' ? 'استخدام البطاقة' : 'Redeem'}
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* 4. Select Service */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -3494,6 +3680,21 @@ export function ReceptionPage() {
             </div>
           )}
 
+          {/* Custom booking questions of the services being booked */}
+          {servicesWithBookingFields().map(service => (
+            <div key={service.id} className="border border-gray-200 rounded-lg p-4">
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">
+                {i18n.language === 'ar' ? service.name_ar || service.name : service.name}
+              </h4>
+              <BookingFieldsForm
+                fields={service.booking_fields!}
+                values={customFieldValues[service.id] || {}}
+                onChange={(values) => setCustomFieldValues({ ...customFieldValues, [service.id]: values })}
+                errors={customFieldErrors}
+              />
+            </div>
+          ))}
+
           {/* Add Service Button */}
           {selectedService && (assignmentMode === 'automatic' && selectedTimeSlot || assignmentMode === 'manual' && selectedSlot) && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -3732,7 +3933,7 @@ export function ReceptionPage() {
                     </div>
                     <div className="space-y-1">
                       {selectedServices.map((item, idx) => {
-                        const pricingInfo = calculateBookingPrice(item.service.id, 1);
+                        const quote = cartQuotes[idx];
                         return (
                           <div key={idx} className="text-xs flex items-center justify-between py-1">
                             <div className="flex flex-col gap-0.5">
@@ -3741,7 +3942,7 @@ export function ReceptionPage() {
                               </span>
                               <span className="text-amber-700">{item.slot.start_time} - {item.slot.end_time}</span>
                             </div>
-                            {pricingInfo.usePackage ? (
+                            {quote?.package_covered ? (
                               <span className="text-green-600 font-semibold flex items-center gap-1">
                                 <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
                                   <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
@@ -3749,7 +3950,7 @@ export function ReceptionPage() {
                                 {t('packages.packageService')}
                               </span>
                             ) : (
-                              <span className="text-gray-700 font-medium">{pricingInfo.price} {t('common.sar')}</span>
+                              <span className="text-gray-700 font-medium">{quote ? `${quote.total_price} ${t('common.sar')}` : '…'}</span>
                             )}
                           </div>
                         );
@@ -4226,6 +4427,20 @@ export function ReceptionPage() {
         )}
       </Modal>
 
+      <RecurringBookingModal
+        isOpen={isRecurringModalOpen}
+        onClose={() => setIsRecurringModalOpen(false)}
+        services={services}
+        onCreated={fetchBookings}
+      />
+
+      <ReassignBookingModal
+        isOpen={!!reassignBookingId}
+        onClose={() => setReassignBookingId(null)}
+        bookingId={reassignBookingId}
+        onReassigned={fetchBookings}
+      />
+
       {/* Booking Details Modal */}
       <Modal
         isOpen={!!selectedBookingForDetails}
@@ -4355,6 +4570,8 @@ export function ReceptionPage() {
               </div>
             )}
 
+            <TicketCheckInPanel bookingId={selectedBookingForDetails.id} onChange={fetchBookings} />
+
             {/* Action Buttons */}
             {selectedBookingForDetails.status !== 'cancelled' && selectedBookingForDetails.status !== 'completed' && (
               <div className="flex gap-2 pt-4 border-t">
@@ -4385,6 +4602,34 @@ export function ReceptionPage() {
               </div>
             )}
 
+            {selectedBookingForDetails.series_id && selectedBookingForDetails.status !== 'cancelled' && selectedBookingForDetails.status !== 'completed' && (
+              <Button
+                variant="danger"
+                onClick={() => {
+                  cancelSeriesRemainder(selectedBookingForDetails);
+                  setSelectedBookingForDetails(null);
+                }}
+                icon={<Repeat className="w-4 h-4" />}
+                fullWidth
+              >
+                Cancel Remaining in Series
+              </Button>
+            )}
+
+            {(selectedBookingForDetails.status === 'pending' || selectedBookingForDetails.status === 'confirmed') && (
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setReassignBookingId(selectedBookingForDetails.id);
+                  setSelectedBookingForDetails(null);
+                }}
+                icon={<ArrowRightLeft className="w-4 h-4" />}
+                fullWidth
+              >
+                Reassign Employee
+              </Button>
+            )}
+
             {(selectedBookingForDetails.payment_status === 'unpaid' || selectedBookingForDetails.payment_status === 'awaiting_payment') && (
               <Button
                 variant="primary"
@@ -4509,6 +4754,16 @@ export function ReceptionPage() {
             value={subscriptionForm.expires_at}
             onChange={(e) => setSubscriptionForm({ ...subscriptionForm, expires_at: e.target.value })}
           />
+          {(() => {
+            const validityDays = packages.find(pkg => pkg.id === subscriptionForm.package_id)?.validity_days;
+            return validityDays && !subscriptionForm.expires_at ? (
+              <p className="text-xs text-gray-500 -mt-2">
+                {i18n.language === 'ar'
+                  ? `اتركه فارغاً لتنتهي الباقة بعد ${validityDays} يوم`
+                  : `Leave empty to expire after the package validity (${validityDays} days)`}
+              </p>
+            ) : null;
+          })()}
 
           <div className="flex gap-2 pt-4">
             <Button type="submit" className="flex-1">
@@ -4599,6 +4854,22 @@ export function ReceptionPage() {
                         {format(parseISO(qrValidationResult.booking.slot_date), 'MMM dd, yyyy')} {qrValidationResult.booking.start_time}
                       </span>
                     </div>
+                    {qrValidationResult.tickets && qrValidationResult.tickets.total > 1 && (
+                      <div>
+                        <span className="text-gray-600">{i18n.language === 'ar' ? 'تم الدخول' : 'Admitted'}:</span>
+                        <span className="font-medium ml-2">
+                          {qrValidationResult.tickets.checked_in} / {qrValidationResult.tickets.total}
+                        </span>
+                      </div>
+                    )}
+                    {qrValidationResult.group && (
+                      <div>
+                        <span className="text-gray-600">{i18n.language === 'ar' ? 'إجمالي المجموعة' : 'Whole group'}:</span>
+                        <span className="font-medium ml-2">
+                          {qrValidationResult.group.checked_in} / {qrValidationResult.group.total}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 )}
 
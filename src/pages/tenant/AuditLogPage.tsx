@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { History, ChevronDown, ChevronRight, ChevronLeft, X } from 'lucide-react';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent } from '../../components/ui/Card';
+import { Input } from '../../components/ui/Input';
+import { AuditLog } from '../../types';
+
+interface AuditLogFilterOptions {
+  users: { id: string; full_name: string; email: string; role: string }[];
+  resource_types: string[];
+  action_types: string[];
+}
+
+interface AuditLogFilters {
+  user_id: string;
+  resource_type: string;
+  action_type: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditLogFilters = { user_id: '', resource_type: '', action_type: '', from: '', to: '' };
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// "payment_status" → "payment status"
+function humanize(value: string): string {
+  return value.replace(/_/g, ' ');
+}
+
+/**
+ * Tenant admin view of the audit trail: who changed what and when, filterable by
+ * user, resource and date, with the old and new values of each change.
+ */
+export function AuditLogPage() {
+  const { i18n } = useTranslation();
+  const isArabic = i18n.language === 'ar';
+
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [options, setOptions] = useState<AuditLogFilterOptions>({ users: [], resource_types: [], action_types: [] });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [filters, offset]);
+
+  async function fetchFilterOptions() {
+    try {
+      const response = await fetch(`${API_URL}/audit-logs/filters`, { headers: authHeaders() });
+      if (response.ok) {
+        setOptions(await response.json());
+      }
+    } catch (err) {
+      console.error('Error loading audit log filters:', err);
+    }
+  }
+
+  async function fetchLogs() {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      const response = await fetch(`${API_URL}/audit-logs?${params.toString()}`, { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load activity log');
+      }
+      setLogs(data.logs);
+      setTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity log');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateFilter(key: keyof AuditLogFilters, value: string) {
+    setOffset(0);
+    setFilters(prev => ({ ...prev, [key]: value }));
+  }
+
+  function clearFilters() {
+    setOffset(0);
+    setFilters(EMPTY_FILTERS);
+  }
+
+  function renderChanges(log: AuditLog) {
+    const keys = Array.from(new Set([
+      ...Object.keys(log.old_values || {}),
+      ...Object.keys(log.new_values || {}),
+    ]));
+
+    if (keys.length === 0) {
+      return <p className="text-sm text-gray-500">{isArabic ? 'لا توجد تفاصيل' : 'No details recorded'}</p>;
+    }
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-4 font-medium">{isArabic ? 'الحقل' : 'Field'}</th>
+              {log.old_values && <th className="py-1 pr-4 font-medium">{isArabic ? 'قبل' : 'Before'}</th>}
+              {log.new_values && <th className="py-1 font-medium">{isArabic ? 'بعد' : 'After'}</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {keys.map(key => (
+              <tr key={key} className="align-top">
+                <td className="py-1 pr-4 font-medium text-gray-700 whitespace-nowrap">{key}</td>
+                {log.old_values && (
+                  <td className="py-1 pr-4 text-red-700 break-all">{formatValue(log.old_values[key])}</td>
+                )}
+                {log.new_values && (
+                  <td className="py-1 text-green-700 break-all">{formatValue(log.new_values[key])}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="p-4 md:p-8">
+      <div className="mb-6 md:mb-8">
+        <div className="flex items-center gap-3">
+          <History className="w-8 h-8 text-blue-600" />
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
+              {isArabic ? 'سجل النشاط' : 'Activity Log'}
+            </h1>
+            <p className="text-sm md:text-base text-gray-600 mt-1">
+              {isArabic ? 'من قام بتغيير ماذا ومتى' : 'Who changed what, and when'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="py-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'المستخدم' : 'User'}</label>
+              <select
+                value={filters.user_id}
+                onChange={e => updateFilter('user_id', e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{isArabic ? 'الكل' : 'All users'}</option>
+                {options.users.map(user => (
+                  <option key={user.id} value={user.id}>{user.full_name || user.email}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'المورد' : 'Resource'}</label>
+              <select
+                value={filters.resource_type}
+                onChange={e => updateFilter('resource_type', e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{isArabic ? 'الكل' : 'All resources'}</option>
+                {options.resource_types.map(type => (
+                  <option key={type} value={type}>{humanize(type)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isArabic ? 'الإجراء' : 'Action'}</label>
+              <select
+                value={filters.action_type}
+                onChange={e => updateFilter('action_type', e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{isArabic ? 'الكل' : 'All actions'}</option>
+                {options.action_types.map(type => (
+                  <option key={type} value={type}>{humanize(type)}</option>
+                ))}
+              </select>
+            </div>
+            <Input
+              type="date"
+              label={isArabic ? 'من' : 'From'}
+              value={filters.from}
+              onChange={e => updateFilter('from', e.target.value)}
+            />
+            <Input
+              type="date"
+              label={isArabic ? 'إلى' : 'To'}
+              value={filters.to}
+              onChange={e => updateFilter('to', e.target.value)}
+            />
+          </div>
+          {hasFilters && (
+            <div className="mt-3">
+              <Button variant="ghost" size="sm" onClick={clearFilters} icon={<X className="w-4 h-4" />}>
+                {isArabic ? 'مسح الفلاتر' : 'Clear filters'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+      ) : logs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <History className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900">
+              {isArabic ? 'لا يوجد نشاط' : 'No activity found'}
+            </h3>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <div className="divide-y">
+            {logs.map(log => {
+              const expanded = expandedId === log.id;
+              return (
+                <div key={log.id}>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : log.id)}
+                    className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    {expanded
+                      ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-medium text-gray-900">
+                          {log.user_name || log.user_email || (isArabic ? 'النظام / عميل' : 'System / guest')}
+                        </span>
+                        <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          {humanize(log.action_type)}
+                        </span>
+                        <span className="text-gray-700">{humanize(log.resource_type)}</span>
+                        {log.resource_id && (
+                          <span className="text-xs text-gray-400 font-mono">{log.resource_id.slice(0, 8)}</span>
+                        )}
+                      </div>
+                    </div>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {format(parseISO(log.created_at), 'MMM dd, yyyy HH:mm')}
+                    </span>
+                  </button>
+                  {expanded && (
+                    <div className="px-11 pb-4 space-y-2">
+                      {renderChanges(log)}
+                      <p className="text-xs text-gray-400">
+                        {[log.ip_address, log.user_agent].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            {isArabic
+              ? `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} من ${total}`
+              : `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={offset === 0 || loading}
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              icon={<ChevronLeft className="w-4 h-4" />}
+            >
+              {isArabic ? 'السابق' : 'Previous'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total || loading}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              {isArabic ? 'التالي' : 'Next'}
+              <ChevronRight className="w-4 h-4 inline-block ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { useParams } from 'react-router-dom';
+import { TenantLayout } from '../../components/layout/TenantLayout';
+import { AuditLogPage } from './AuditLogPage';
+
+export function AuditLogPageWrapper() {
+  const { tenantSlug } = useParams<{ tenantSlug: string }>();
+
+  return (
+    <TenantLayout tenantSlug={tenantSlug || ''}>
+      <AuditLogPage />
+    </TenantLayout>
+  );
+}
@@ -3,9 +3,13 @@ import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
 import { db } from '../../lib/db';
 import { Card, CardContent } from '../../components/ui/Card';
-import { Calendar, Clock, User, List, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Calendar, Clock, User, List, ChevronLeft, ChevronRight, Download, ArrowRightLeft } from 'lucide-react';
 import { format, startOfWeek, addDays, isSameDay } from 'date-fns';
 import { ar } from 'date-fns/locale';
+import { BookingFieldAnswers } from '../../components/bookings/BookingFieldAnswers';
+import { ExportModal } from '../../components/dashboard/ExportModal';
+import { ReassignBookingModal } from '../../components/bookings/ReassignBookingModal';
+import { BookingFieldAnswer } from '../../types';
 
 interface Booking {
   id: string;
@@ -14,8 +18,11 @@ interface Booking {
   customer_email?: string;
   visitor_count: number;
   total_price: number;
+  promo_code?: string | null;
+  discount_amount?: number | null;
   status: string;
   created_at: string;
+  custom_fields?: BookingFieldAnswer[] | null;
   services: {
     name: string;
     name_ar?: string;
@@ -35,6 +42,9 @@ export function BookingsPage() {
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
   const [calendarDate, setCalendarDate] = useState(new Date());
+  const [showExport, setShowExport] = useState(false);
+  const [reassignBookingId, setReassignBookingId] = useState<string | null>(null);
+  const canReassign = userProfile?.role === 'tenant_admin' || userProfile?.role === 'receptionist';
 
   useEffect(() => {
     fetchBookings();
@@ -54,8 +64,11 @@ export function BookingsPage() {
           customer_email,
           visitor_count,
           total_price,
+          promo_code,
+          discount_amount,
           status,
           created_at,
+          custom_fields,
           service_id,
           slot_id,
           services:service_id (
@@ -210,6 +223,16 @@ export function BookingsPage() {
             </div>
           </div>
         </div>
+        <div className="flex items-center gap-2">
+        {userProfile?.role === 'tenant_admin' && (
+          <button
+            onClick={() => setShowExport(true)}
+            className="px-4 py-2 rounded-lg font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            <Download className="w-4 h-4 inline-block mr-2" />
+            {i18n.language === 'ar' ? 'تصدير' : 'Export'}
+          </button>
+        )}
         <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
           <button
             onClick={() => setViewMode('list')}
@@ -234,8 +257,24 @@ export function BookingsPage() {
             Calendar View
           </button>
         </div>
+        </div>
       </div>
 
+      {userProfile?.tenant_id && (
+        <ExportModal
+          isOpen={showExport}
+          onClose={() => setShowExport(false)}
+          tenantId={userProfile.tenant_id}
+        />
+      )}
+
+      <ReassignBookingModal
+        isOpen={!!reassignBookingId}
+        onClose={() => setReassignBookingId(null)}
+        bookingId={reassignBookingId}
+        onReassigned={fetchBookings}
+      />
+
       {viewMode === 'list' ? (
         bookings.length === 0 ? (
           <Card>
@@ -276,7 +315,13 @@ export function BookingsPage() {
                         <span>{booking.visitor_count} {t('booking.visitorCount')}</span>
                         <span>•</span>
                         <span>{booking.total_price} {t('service.price')}</span>
+                        {booking.promo_code && (
+                          <span className="px-2 py-0.5 rounded bg-green-50 text-green-700 text-xs font-medium">
+                            {booking.promo_code} −{Number(booking.discount_amount || 0).toFixed(2)}
+                          </span>
+                        )}
                       </div>
+                      <BookingFieldAnswers answers={booking.custom_fields} className="mt-2" />
                     </div>
                     <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                       booking.status === 'confirmed' ? 'bg-green-100 text-green-800' :
@@ -286,6 +331,15 @@ export function BookingsPage() {
                     }`}>
                       {t(`booking.${booking.status}`)}
                     </span>
+                    {canReassign && (booking.status === 'pending' || booking.status === 'confirmed') && (
+                      <button
+                        onClick={() => setReassignBookingId(booking.id)}
+                        className="ml-3 p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                        title={i18n.language === 'ar' ? 'إعادة تعيين إلى موظف آخر' : 'Reassign to another employee'}
+                      >
+                        <ArrowRightLeft className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -8,7 +8,9 @@ import { Modal } from '../../components/ui/Modal';
 import { Input } from '../../components/ui/Input';
 import { PhoneInput } from '../../components/ui/PhoneInput';
 import { countryCodes } from '../../lib/countryCodes';
-import { Plus, Edit, Users, Mail, Phone, Briefcase, UserX, UserCheck, Search } from 'lucide-react';
+import { CalendarFeedModal } from '../../components/calendar/CalendarFeedModal';
+import { AvailabilityExceptionsModal } from '../../components/employees/AvailabilityExceptionsModal';
+import { Plus, Edit, Users, Mail, Phone, Briefcase, UserX, UserCheck, Search, CalendarPlus, CalendarOff } from 'lucide-react';
 
 interface Employee {
   id: string;
@@ -80,6 +82,9 @@ export function EmployeesPage() {
   const [phoneFull, setPhoneFull] = useState<string>(''); // Full phone number with country code
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedRole, setSelectedRole] = useState<'all' | 'employee' | 'cashier' | 'receptionist'>('all');
+  const [calendarFeedEmployee, setCalendarFeedEmployee] = useState<Employee | null>(null);
+  const [calendarAuthToken, setCalendarAuthToken] = useState<string | null>(null);
+  const [availabilityEmployee, setAvailabilityEmployee] = useState<Employee | null>(null);
 
   useEffect(() => {
     fetchServices();
@@ -368,6 +373,26 @@ export function EmployeesPage() {
     resetForm();
   }
 
+  async function openCalendarFeed(employee: Employee) {
+    const { data: { session } } = await db.auth.getSession();
+    if (!session) {
+      alert('Session expired. Please login again.');
+      return;
+    }
+    setCalendarAuthToken(session.access_token);
+    setCalendarFeedEmployee(employee);
+  }
+
+  async function openAvailability(employee: Employee) {
+    const { data: { session } } = await db.auth.getSession();
+    if (!session) {
+      alert('Session expired. Please login again.');
+      return;
+    }
+    setCalendarAuthToken(session.access_token);
+    setAvailabilityEmployee(employee);
+  }
+
   async function toggleEmployeeStatus(employeeId: string, currentStatus: boolean) {
     if (!userProfile?.tenant_id) return;
 
@@ -672,6 +697,26 @@ export function EmployeesPage() {
                   >
                     {employee.is_active ? 'Deactivate' : 'Activate'}
                   </Button>
+                  {employee.role === 'employee' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openCalendarFeed(employee)}
+                      title="Calendar feed"
+                    >
+                      <CalendarPlus className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {employee.role === 'employee' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openAvailability(employee)}
+                      title={i18n.language === 'ar' ? 'الإجازات والاستراحات' : 'Time off and breaks'}
+                    >
+                      <CalendarOff className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -680,6 +725,26 @@ export function EmployeesPage() {
         );
       })()}
 
+      <CalendarFeedModal
+        isOpen={!!calendarFeedEmployee}
+        onClose={() => setCalendarFeedEmployee(null)}
+        authToken={calendarAuthToken}
+        employeeId={calendarFeedEmployee?.id}
+        employeeName={calendarFeedEmployee
+          ? (i18n.language === 'ar' ? (calendarFeedEmployee.full_name_ar || calendarFeedEmployee.full_name) : calendarFeedEmployee.full_name)
+          : undefined}
+      />
+
+      <AvailabilityExceptionsModal
+        isOpen={!!availabilityEmployee}
+        onClose={() => setAvailabilityEmployee(null)}
+        authToken={calendarAuthToken}
+        employeeId={availabilityEmployee?.id}
+        employeeName={availabilityEmployee
+          ? (i18n.language === 'ar' ? (availabilityEmployee.full_name_ar || availabilityEmployee.full_name) : availabilityEmployee.full_name)
+          : undefined}
+      />
+
       <Modal
         isOpen={isModalOpen}
         onClose={closeModal}
@@ -0,0 +1,534 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { db } from '../../lib/db';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
+import { Modal } from '../../components/ui/Modal';
+import { Input } from '../../components/ui/Input';
+import { Plus, Gift, Search, Send, Wallet } from 'lucide-react';
+import { CustomerWallet, GiftCard, GiftCardStatus } from '../../types';
+
+type GiftCardRow = GiftCard & { customers?: { id: string; name?: string | null; phone: string } | null };
+
+const emptyForm = {
+  amount: '',
+  purchaser_name: '',
+  purchaser_phone: '',
+  recipient_name: '',
+  recipient_phone: '',
+  recipient_email: '',
+  message: '',
+  language: 'en' as 'en' | 'ar',
+  expires_at: '',
+};
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+/**
+ * Gift cards sold online and at the desk, plus customer wallet balances:
+ * issue and resend cards, look up a customer's wallet ledger and adjust it.
+ */
+export function GiftCardsPage() {
+  const { t, i18n } = useTranslation();
+  const { userProfile } = useAuth();
+  const isArabic = i18n.language === 'ar';
+  const [giftCards, setGiftCards] = useState<GiftCardRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [walletPhone, setWalletPhone] = useState('');
+  const [wallet, setWallet] = useState<CustomerWallet | null>(null);
+  const [walletLoading, setWalletLoading] = useState(false);
+  const [adjustment, setAdjustment] = useState({ amount: '', note: '' });
+
+  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  const currency = t('common.sar') || 'SAR';
+
+  useEffect(() => {
+    fetchGiftCards();
+  }, [userProfile]);
+
+  async function fetchGiftCards() {
+    if (!userProfile?.tenant_id) return;
+    try {
+      const { data, error } = await db
+        .from('gift_cards')
+        .select('*, customers(id, name, phone)')
+        .eq('tenant_id', userProfile.tenant_id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching gift cards:', error);
+        return;
+      }
+      setGiftCards(data || []);
+    } catch (error: any) {
+      console.error('Error fetching gift cards:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openIssue() {
+    setForm({ ...emptyForm, language: isArabic ? 'ar' : 'en' });
+    setIsModalOpen(true);
+  }
+
+  async function handleIssue(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.recipient_phone.trim() && !form.recipient_email.trim()) {
+      alert(isArabic ? 'أدخل رقم جوال أو بريد المستلم' : 'Enter the recipient phone number or email');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`${API_URL}/gift-cards/issue`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          ...form,
+          amount: Number(form.amount),
+          expires_at: form.expires_at ? new Date(form.expires_at).toISOString() : null,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Error: ${result.error || 'Failed to issue gift card'}`);
+        return;
+      }
+
+      setIsModalOpen(false);
+      alert(isArabic
+        ? `تم إصدار بطاقة الهدية ${result.code} وسيتم إرسالها إلى المستلم`
+        : `Gift card ${result.code} issued and is being sent to the recipient`);
+      await fetchGiftCards();
+    } catch (error: any) {
+      console.error('Issue gift card error:', error);
+      alert(`Error: ${error?.message || 'Failed to issue gift card'}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function resendGiftCard(giftCard: GiftCardRow) {
+    setResendingId(giftCard.id);
+    try {
+      const response = await fetch(`${API_URL}/gift-cards/${giftCard.id}/resend`, {
+        method: 'POST',
+        headers: authHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Error: ${result.error || 'Failed to send gift card'}`);
+        return;
+      }
+      alert(isArabic ? 'تم إرسال بطاقة الهدية' : 'Gift card sent');
+      await fetchGiftCards();
+    } catch (error: any) {
+      alert(`Error: ${error?.message || 'Failed to send gift card'}`);
+    } finally {
+      setResendingId(null);
+    }
+  }
+
+  async function lookupWallet(e?: React.FormEvent) {
+    e?.preventDefault();
+    if (!walletPhone.trim()) return;
+
+    setWalletLoading(true);
+    try {
+      const response = await fetch(`${API_URL}/wallet?phone=${encodeURIComponent(walletPhone.trim())}`, {
+        headers: authHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Error: ${result.error || 'Failed to load wallet'}`);
+        setWallet(null);
+        return;
+      }
+      setWallet(result);
+    } catch (error: any) {
+      alert(`Error: ${error?.message || 'Failed to load wallet'}`);
+    } finally {
+      setWalletLoading(false);
+    }
+  }
+
+  async function adjustWallet(e: React.FormEvent) {
+    e.preventDefault();
+    const amount = Number(adjustment.amount);
+    if (!amount || !adjustment.note.trim()) {
+      alert(isArabic ? 'أدخل مبلغًا وسببًا للتعديل' : 'Enter an amount and a reason for the adjustment');
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/wallet/adjust`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          customer_phone: wallet?.customer?.phone || walletPhone.trim(),
+          amount,
+          note: adjustment.note.trim(),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Error: ${result.error || 'Failed to adjust wallet'}`);
+        return;
+      }
+      setAdjustment({ amount: '', note: '' });
+      await lookupWallet();
+    } catch (error: any) {
+      alert(`Error: ${error?.message || 'Failed to adjust wallet'}`);
+    }
+  }
+
+  function getStatus(giftCard: GiftCard) {
+    const labels: Record<GiftCardStatus, { en: string; ar: string; className: string }> = {
+      pending_payment: { en: 'Awaiting payment', ar: 'بانتظار الدفع', className: 'bg-yellow-100 text-yellow-800' },
+      active: { en: 'Active', ar: 'نشطة', className: 'bg-green-100 text-green-800' },
+      redeemed: { en: 'Redeemed', ar: 'مستخدمة', className: 'bg-blue-100 text-blue-800' },
+      expired: { en: 'Expired', ar: 'منتهية', className: 'bg-red-100 text-red-800' },
+      cancelled: { en: 'Cancelled', ar: 'ملغاة', className: 'bg-gray-100 text-gray-800' },
+    };
+    const status = labels[giftCard.status];
+    return { label: isArabic ? status.ar : status.en, className: status.className };
+  }
+
+  function transactionLabel(source: string) {
+    const labels: Record<string, [string, string]> = {
+      gift_card: ['Gift card', 'بطاقة هدية'],
+      refund: ['Refund', 'استرداد'],
+      booking: ['Booking', 'حجز'],
+      adjustment: ['Adjustment', 'تعديل'],
+    };
+    const label = labels[source] || [source, source];
+    return isArabic ? label[1] : label[0];
+  }
+
+  const filteredCards = giftCards.filter(giftCard => {
+    const query = searchQuery.toLowerCase().trim();
+    if (!query) return true;
+    return [giftCard.code, giftCard.recipient_name, giftCard.recipient_phone, giftCard.purchaser_name]
+      .some(value => (value || '').toLowerCase().includes(query));
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{isArabic ? 'بطاقات الهدايا' : 'Gift Cards'}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {isArabic
+              ? 'بطاقات هدايا برصيد يضاف إلى محفظة العميل عند استخدامها'
+              : 'Gift cards whose value goes into the customer wallet when redeemed'}
+          </p>
+        </div>
+        <Button onClick={openIssue} icon={<Plus className="w-4 h-4" />}>
+          {isArabic ? 'بيع بطاقة هدية' : 'Sell Gift Card'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <Input
+              type="text"
+              placeholder={isArabic ? 'ابحث بالرمز أو المستلم...' : 'Search by code or recipient...'}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="text-gray-500">{t('common.loading') || 'Loading...'}</div>
+        </div>
+      ) : filteredCards.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Gift className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {giftCards.length === 0
+                ? (isArabic ? 'لا توجد بطاقات هدايا بعد' : 'No gift cards yet')
+                : (isArabic ? 'لا توجد نتائج' : 'No results found')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الرمز' : 'Code'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'القيمة' : 'Amount'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'المستلم' : 'Recipient'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'صالحة حتى' : 'Expires'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الحالة' : 'Status'}</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredCards.map(giftCard => {
+                  const status = getStatus(giftCard);
+                  return (
+                    <tr key={giftCard.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-mono font-semibold text-gray-900">{giftCard.code}</div>
+                        {giftCard.purchaser_name && (
+                          <div className="text-xs text-gray-500">{isArabic ? 'من' : 'From'} {giftCard.purchaser_name}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {Number(giftCard.initial_amount).toFixed(2)} {currency}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        <div>{giftCard.recipient_name || '—'}</div>
+                        <div className="text-xs text-gray-500">{giftCard.recipient_phone || giftCard.recipient_email}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {giftCard.expires_at ? format(parseISO(giftCard.expires_at), 'MMM d, yyyy') : '—'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`text-xs px-2 py-1 rounded ${status.className}`}>{status.label}</span>
+                        {giftCard.status === 'redeemed' && giftCard.customers && (
+                          <div className="text-xs text-gray-500 mt-1">{giftCard.customers.name || giftCard.customers.phone}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end">
+                          {giftCard.status === 'active' && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => resendGiftCard(giftCard)}
+                              disabled={resendingId === giftCard.id}
+                              icon={<Send className="w-4 h-4" />}
+                            >
+                              {isArabic ? 'إعادة الإرسال' : 'Resend'}
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            {isArabic ? 'محفظة العميل' : 'Customer Wallet'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={lookupWallet} className="flex gap-3 items-end">
+            <div className="flex-1">
+              <Input
+                label={isArabic ? 'رقم جوال العميل' : 'Customer phone'}
+                type="tel"
+                value={walletPhone}
+                onChange={(e) => setWalletPhone(e.target.value)}
+                placeholder="+966..."
+              />
+            </div>
+            <Button type="submit" variant="secondary" disabled={walletLoading} icon={<Search className="w-4 h-4" />}>
+              {isArabic ? 'بحث' : 'Look up'}
+            </Button>
+          </form>
+
+          {wallet && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg">
+                <span className="text-sm text-gray-700">
+                  {wallet.customer?.name || wallet.customer?.phone || walletPhone}
+                </span>
+                <span className="text-xl font-bold text-blue-700">
+                  {Number(wallet.balance).toFixed(2)} {currency}
+                </span>
+              </div>
+
+              {wallet.transactions.length === 0 ? (
+                <p className="text-sm text-gray-500">{isArabic ? 'لا توجد حركات' : 'No transactions'}</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'التاريخ' : 'Date'}</th>
+                      <th className="px-3 py-2 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'المصدر' : 'Source'}</th>
+                      <th className="px-3 py-2 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'المبلغ' : 'Amount'}</th>
+                      <th className="px-3 py-2 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الرصيد' : 'Balance'}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {wallet.transactions.map(transaction => (
+                      <tr key={transaction.id}>
+                        <td className="px-3 py-2 text-gray-600">{format(parseISO(transaction.created_at), 'MMM d, yyyy HH:mm')}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {transactionLabel(transaction.source)}
+                          {(transaction.gift_card_code || transaction.note) && (
+                            <div className="text-xs text-gray-500">{transaction.gift_card_code || transaction.note}</div>
+                          )}
+                        </td>
+                        <td className={`px-3 py-2 font-medium ${transaction.type === 'credit' ? 'text-green-700' : 'text-red-700'}`}>
+                          {transaction.type === 'credit' ? '+' : '-'}{Number(transaction.amount).toFixed(2)}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{Number(transaction.balance_after).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {userProfile?.role === 'tenant_admin' && (
+                <form onSubmit={adjustWallet} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end border-t pt-4">
+                  <Input
+                    label={isArabic ? 'تعديل (+/-)' : 'Adjustment (+/-)'}
+                    type="number"
+                    step="0.01"
+                    value={adjustment.amount}
+                    onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+                  />
+                  <Input
+                    label={isArabic ? 'السبب' : 'Reason'}
+                    value={adjustment.note}
+                    onChange={(e) => setAdjustment({ ...adjustment, note: e.target.value })}
+                  />
+                  <Button type="submit" variant="secondary">
+                    {isArabic ? 'تطبيق' : 'Apply'}
+                  </Button>
+                </form>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={isArabic ? 'بيع بطاقة هدية' : 'Sell Gift Card'}
+        size="lg"
+      >
+        <form onSubmit={handleIssue} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {isArabic
+              ? 'تُصدر البطاقة مدفوعة (تم تحصيل المبلغ في الاستقبال) وتُرسل إلى المستلم عبر واتساب والبريد.'
+              : 'The card is issued as paid (collected at the desk) and sent to the recipient by WhatsApp and email.'}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label={isArabic ? 'القيمة' : 'Amount'}
+              type="number"
+              min="10"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              required
+            />
+            <Input
+              label={isArabic ? 'صالحة حتى' : 'Valid until'}
+              type="date"
+              value={form.expires_at}
+              onChange={(e) => setForm({ ...form, expires_at: e.target.value })}
+              helperText={isArabic ? 'افتراضيًا سنة واحدة' : 'Defaults to one year'}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label={isArabic ? 'اسم المشتري' : 'Purchaser name'}
+              value={form.purchaser_name}
+              onChange={(e) => setForm({ ...form, purchaser_name: e.target.value })}
+            />
+            <Input
+              label={isArabic ? 'جوال المشتري' : 'Purchaser phone'}
+              type="tel"
+              value={form.purchaser_phone}
+              onChange={(e) => setForm({ ...form, purchaser_phone: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label={isArabic ? 'اسم المستلم' : 'Recipient name'}
+              value={form.recipient_name}
+              onChange={(e) => setForm({ ...form, recipient_name: e.target.value })}
+            />
+            <Input
+              label={isArabic ? 'جوال المستلم' : 'Recipient phone'}
+              type="tel"
+              value={form.recipient_phone}
+              onChange={(e) => setForm({ ...form, recipient_phone: e.target.value })}
+            />
+            <Input
+              label={isArabic ? 'بريد المستلم' : 'Recipient email'}
+              type="email"
+              value={form.recipient_email}
+              onChange={(e) => setForm({ ...form, recipient_email: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {isArabic ? 'رسالة' : 'Message'}
+            </label>
+            <textarea
+              value={form.message}
+              onChange={(e) => setForm({ ...form, message: e.target.value })}
+              maxLength={500}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {isArabic ? 'لغة البطاقة' : 'Card language'}
+            </label>
+            <select
+              value={form.language}
+              onChange={(e) => setForm({ ...form, language: e.target.value as 'en' | 'ar' })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="en">English</option>
+              <option value="ar">العربية</option>
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)}>
+              {t('common.cancel') || 'Cancel'}
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {isArabic ? 'إصدار وإرسال' : 'Issue & Send'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
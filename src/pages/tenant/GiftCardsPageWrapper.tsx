@@ -0,0 +1,12 @@
+import { GiftCardsPage } from './GiftCardsPage';
+import { TenantLayout } from '../../components/layout/TenantLayout';
+import { useParams } from 'react-router-dom';
+
+export function GiftCardsPageWrapper() {
+  const { tenantSlug } = useParams<{ tenantSlug: string }>();
+  return (
+    <TenantLayout tenantSlug={tenantSlug || ''}>
+      <GiftCardsPage />
+    </TenantLayout>
+  );
+}
@@ -6,7 +6,7 @@ import { Button } from '../../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
 import { Modal } from '../../components/ui/Modal';
 import { Input } from '../../components/ui/Input';
-import { Package, Plus, Edit, Trash2, X, Upload, Search } from 'lucide-react';
+import { Package, Plus, Edit, Trash2, X, Upload, Search, Users, RefreshCw } from 'lucide-react';
 import heic2any from 'heic2any';
 
 interface ServicePackage {
@@ -21,9 +21,21 @@ interface ServicePackage {
   image_url?: string | null;
   gallery_urls?: string[] | null;
   is_active: boolean;
+  validity_days: number | null;
   created_at: string;
 }
 
+interface PackageSubscription {
+  id: string;
+  status: string;
+  source: string | null;
+  subscribed_at: string | null;
+  expires_at: string | null;
+  renewed_from_subscription_id: string | null;
+  customers: { name: string | null; phone: string } | null;
+  package_subscription_usage: Array<{ original_quantity: number; remaining_quantity: number }>;
+}
+
 interface PackageService {
   id: string;
   package_id: string;
@@ -43,6 +55,14 @@ interface Service {
   base_price: number;
 }
 
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+}
+
 
 export function PackagesPage() {
   const { t, i18n } = useTranslation();
@@ -53,6 +73,14 @@ export function PackagesPage() {
   const [isPackageModalOpen, setIsPackageModalOpen] = useState(false);
   const [editingPackage, setEditingPackage] = useState<ServicePackage | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [subscriptionsPackage, setSubscriptionsPackage] = useState<ServicePackage | null>(null);
+  const [subscriptions, setSubscriptions] = useState<PackageSubscription[]>([]);
+  const [subscriptionsLoading, setSubscriptionsLoading] = useState(false);
+  const [renewingSubscription, setRenewingSubscription] = useState<PackageSubscription | null>(null);
+  const [renewForm, setRenewForm] = useState({ mode: 'renew' as 'renew' | 'extend', validity_days: '', carry_over: true });
+  const [renewSaving, setRenewSaving] = useState(false);
+  const [renewError, setRenewError] = useState('');
+  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
   const [packageForm, setPackageForm] = useState({
     name: '',
@@ -65,6 +93,7 @@ export function PackagesPage() {
     image_url: '',
     gallery_urls: [] as string[],
     is_active: true,
+    validity_days: '',
     selectedServices: [] as Array<{ service_id: string; quantity: number }>
   });
 
@@ -306,7 +335,9 @@ export function PackagesPage() {
       original_price: originalPrice, // Always set to calculated total
       image_url: packageForm.image_url || null,
       gallery_urls: galleryUrls, // Always send as array (empty array [] if no images)
-      is_active: packageForm.is_active
+      is_active: packageForm.is_active,
+      // Empty means subscriptions never expire
+      validity_days: parseInt(packageForm.validity_days, 10) > 0 ? parseInt(packageForm.validity_days, 10) : null
     };
 
     // Add discount_percentage if there's a discount
@@ -642,6 +673,7 @@ export function PackagesPage() {
         image_url: pkg.image_url || '',
         gallery_urls: galleryUrls,
         is_active: pkg.is_active !== undefined ? pkg.is_active : true,
+        validity_days: pkg.validity_days ? String(pkg.validity_days) : '',
         selectedServices: formattedSelectedServices
       });
       
@@ -656,6 +688,69 @@ export function PackagesPage() {
   }
 
 
+  async function openSubscriptions(pkg: ServicePackage) {
+    setSubscriptionsPackage(pkg);
+    setSubscriptions([]);
+    setSubscriptionsLoading(true);
+    try {
+      const { data, error } = await db
+        .from('package_subscriptions')
+        .select('id, status, source, subscribed_at, expires_at, renewed_from_subscription_id, customers(name, phone), package_subscription_usage(original_quantity, remaining_quantity)')
+        .eq('package_id', pkg.id)
+        .neq('status', 'pending_payment')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      // Supabase types embedded many-to-one relations as arrays
+      setSubscriptions((data || []) as unknown as PackageSubscription[]);
+    } catch (error: any) {
+      console.error('Error fetching package subscriptions:', error);
+      alert(i18n.language === 'ar'
+        ? `خطأ في جلب الاشتراكات: ${error?.message || 'خطأ غير معروف'}`
+        : `Error fetching subscriptions: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSubscriptionsLoading(false);
+    }
+  }
+
+  function openRenewal(subscription: PackageSubscription) {
+    setRenewingSubscription(subscription);
+    setRenewForm({
+      mode: 'renew',
+      validity_days: subscriptionsPackage?.validity_days ? String(subscriptionsPackage.validity_days) : '',
+      carry_over: true,
+    });
+    setRenewError('');
+  }
+
+  async function handleRenew(e: React.FormEvent) {
+    e.preventDefault();
+    if (!renewingSubscription || !subscriptionsPackage) return;
+
+    setRenewSaving(true);
+    setRenewError('');
+    try {
+      const response = await fetch(`${API_URL}/packages/subscriptions/${renewingSubscription.id}/renew`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          mode: renewForm.mode,
+          validity_days: renewForm.validity_days ? Number(renewForm.validity_days) : null,
+          carry_over: renewForm.mode === 'renew' && renewForm.carry_over,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to renew subscription');
+      }
+      setRenewingSubscription(null);
+      await openSubscriptions(subscriptionsPackage);
+    } catch (error: any) {
+      setRenewError(error?.message || 'Failed to renew subscription');
+    } finally {
+      setRenewSaving(false);
+    }
+  }
+
   function resetPackageForm() {
     setPackageForm({
       name: '',
@@ -668,6 +763,7 @@ export function PackagesPage() {
       image_url: '',
       gallery_urls: [],
       is_active: true,
+      validity_days: '',
       selectedServices: []
     });
   }
@@ -883,10 +979,22 @@ export function PackagesPage() {
                       {i18n.language === 'ar' ? pkg.description_ar : pkg.description}
                     </p>
                   )}
-                  <div className="text-2xl font-bold text-blue-600 mb-4">
+                  <div className="text-2xl font-bold text-blue-600 mb-1">
                     {pkg.total_price} {t('common.sar')}
                   </div>
+                  <p className="text-xs text-gray-500 mb-4">
+                    {pkg.validity_days
+                      ? (i18n.language === 'ar' ? `صالحة لمدة ${pkg.validity_days} يوم` : `Valid for ${pkg.validity_days} days`)
+                      : (i18n.language === 'ar' ? 'بدون تاريخ انتهاء' : 'No expiry')}
+                  </p>
                   <div className="flex gap-2">
+                    <button
+                      onClick={() => openSubscriptions(pkg)}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                      title={i18n.language === 'ar' ? 'الاشتراكات' : 'Subscriptions'}
+                    >
+                      <Users className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => handleEditPackage(pkg)}
                       className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
@@ -1364,6 +1472,24 @@ export function PackagesPage() {
             </Button>
           </div>
 
+        {/* Validity */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <Input
+            label={i18n.language === 'ar' ? 'مدة الصلاحية (أيام)' : 'Validity (days)'}
+            type="number"
+            min="1"
+            step="1"
+            value={packageForm.validity_days}
+            onChange={(e) => setPackageForm({ ...packageForm, validity_days: e.target.value })}
+            placeholder={i18n.language === 'ar' ? 'اتركه فارغاً لعدم الانتهاء' : 'Leave empty for no expiry'}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {i18n.language === 'ar'
+              ? 'تنتهي الاشتراكات بعد هذه المدة من الشراء، ويتم تنبيه العملاء قبل انتهائها.'
+              : 'Subscriptions expire this many days after purchase; customers are notified before they do.'}
+          </p>
+        </div>
+
         {/* Active Status */}
         <div className="bg-gray-50 rounded-lg p-4">
           <label className="flex items-center gap-3 cursor-pointer">
@@ -1400,6 +1526,131 @@ export function PackagesPage() {
         })()}
       </Modal>
 
+      {/* Package Subscriptions Modal */}
+      <Modal
+        isOpen={!!subscriptionsPackage}
+        onClose={() => {
+          setSubscriptionsPackage(null);
+          setRenewingSubscription(null);
+        }}
+        title={subscriptionsPackage
+          ? `${i18n.language === 'ar' ? 'الاشتراكات' : 'Subscriptions'}: ${i18n.language === 'ar' ? subscriptionsPackage.name_ar : subscriptionsPackage.name}`
+          : ''}
+        size="xl"
+      >
+        {subscriptionsLoading ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto my-8"></div>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            {i18n.language === 'ar' ? 'لا توجد اشتراكات لهذه الحزمة' : 'No subscriptions to this package yet'}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {subscriptions.map(subscription => {
+              const remaining = subscription.package_subscription_usage.reduce((sum, u) => sum + u.remaining_quantity, 0);
+              const total = subscription.package_subscription_usage.reduce((sum, u) => sum + u.original_quantity, 0);
+              const isExpired = subscription.status === 'expired'
+                || (subscription.status === 'active' && !!subscription.expires_at && new Date(subscription.expires_at) <= new Date());
+              return (
+                <div key={subscription.id} className="py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {subscription.customers?.name || subscription.customers?.phone}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {subscription.customers?.phone}
+                        {' · '}
+                        {i18n.language === 'ar' ? `المتبقي ${remaining} من ${total}` : `${remaining} of ${total} left`}
+                        {' · '}
+                        {subscription.expires_at
+                          ? `${isExpired ? (i18n.language === 'ar' ? 'انتهت' : 'Expired') : (i18n.language === 'ar' ? 'تنتهي' : 'Expires')} ${new Date(subscription.expires_at).toLocaleDateString()}`
+                          : (i18n.language === 'ar' ? 'بدون انتهاء' : 'No expiry')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-1 text-xs rounded ${
+                        isExpired ? 'bg-red-100 text-red-700'
+                          : subscription.status === 'active' ? 'bg-green-100 text-green-800'
+                          : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {isExpired ? (i18n.language === 'ar' ? 'منتهية' : 'expired') : subscription.status}
+                      </span>
+                      {subscription.status !== 'cancelled' && (
+                        <button
+                          onClick={() => openRenewal(subscription)}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                        >
+                          <RefreshCw className="w-4 h-4 inline mr-1" />
+                          {i18n.language === 'ar' ? 'تجديد' : 'Renew'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {renewingSubscription?.id === subscription.id && (
+                    <form onSubmit={handleRenew} className="mt-3 p-3 bg-gray-50 rounded-lg space-y-3">
+                      <div className="flex gap-4 text-sm">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            checked={renewForm.mode === 'renew'}
+                            onChange={() => setRenewForm({ ...renewForm, mode: 'renew' })}
+                          />
+                          {i18n.language === 'ar' ? 'اشتراك جديد' : 'New subscription'}
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            checked={renewForm.mode === 'extend'}
+                            onChange={() => setRenewForm({ ...renewForm, mode: 'extend' })}
+                          />
+                          {i18n.language === 'ar' ? 'تمديد الاشتراك الحالي' : 'Extend this subscription'}
+                        </label>
+                      </div>
+                      <Input
+                        label={i18n.language === 'ar' ? 'المدة (أيام)' : 'Duration (days)'}
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={renewForm.validity_days}
+                        onChange={(e) => setRenewForm({ ...renewForm, validity_days: e.target.value })}
+                        required={renewForm.mode === 'extend'}
+                      />
+                      {renewForm.mode === 'renew' && (
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={renewForm.carry_over}
+                            onChange={(e) => setRenewForm({ ...renewForm, carry_over: e.target.checked })}
+                          />
+                          {i18n.language === 'ar'
+                            ? `نقل الكميات غير المستخدمة (${remaining}) إلى الاشتراك الجديد`
+                            : `Carry over the unused quantities (${remaining}) to the new subscription`}
+                        </label>
+                      )}
+                      {renewError && <p className="text-sm text-red-600">{renewError}</p>}
+                      <div className="flex gap-2">
+                        <Button type="submit" disabled={renewSaving}>
+                          {renewSaving
+                            ? (i18n.language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                            : renewForm.mode === 'renew'
+                              ? (i18n.language === 'ar' ? 'تجديد' : 'Renew')
+                              : (i18n.language === 'ar' ? 'تمديد' : 'Extend')}
+                        </Button>
+                        <Button type="button" variant="secondary" onClick={() => setRenewingSubscription(null)}>
+                          {t('common.cancel')}
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Modal>
+
     </div>
   );
 }
@@ -0,0 +1,482 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { db } from '../../lib/db';
+import { Button } from '../../components/ui/Button';
+import { Card, CardContent } from '../../components/ui/Card';
+import { Modal } from '../../components/ui/Modal';
+import { Input } from '../../components/ui/Input';
+import { Plus, Edit, Trash2, Ticket, Search } from 'lucide-react';
+import { PromoCode, PromoDiscountType } from '../../types';
+
+interface ServiceOption {
+  id: string;
+  name: string;
+  name_ar?: string;
+}
+
+type PromoCodeRow = PromoCode & { services?: ServiceOption | null };
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discount_type: 'percentage' as PromoDiscountType,
+  discount_value: '',
+  service_id: '',
+  valid_from: '',
+  valid_until: '',
+  max_uses: '',
+  max_uses_per_customer: '',
+  min_spend: '',
+  is_active: true,
+};
+
+// datetime-local inputs work in local time without a zone
+function toDateTimeInput(value?: string | null): string {
+  return value ? format(parseISO(value), "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+function toIsoOrNull(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toNumberOrNull(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+export function PromoCodesPage() {
+  const { t, i18n } = useTranslation();
+  const { userProfile } = useAuth();
+  const isArabic = i18n.language === 'ar';
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRow[]>([]);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<PromoCodeRow | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchServices();
+    fetchPromoCodes();
+  }, [userProfile]);
+
+  async function fetchServices() {
+    if (!userProfile?.tenant_id) return;
+    const { data, error } = await db
+      .from('services')
+      .select('id, name, name_ar')
+      .eq('tenant_id', userProfile.tenant_id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching services:', error);
+      return;
+    }
+    setServices(data || []);
+  }
+
+  async function fetchPromoCodes() {
+    if (!userProfile?.tenant_id) return;
+    try {
+      const { data, error } = await db
+        .from('promo_codes')
+        .select(`
+          *,
+          services(id, name, name_ar),
+          promo_code_redemptions(id)
+        `)
+        .eq('tenant_id', userProfile.tenant_id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching promo codes:', error);
+        return;
+      }
+      setPromoCodes(data || []);
+    } catch (error: any) {
+      console.error('Error fetching promo codes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openCreate() {
+    setEditingCode(null);
+    setForm(emptyForm);
+    setIsModalOpen(true);
+  }
+
+  function openEdit(promo: PromoCodeRow) {
+    setEditingCode(promo);
+    setForm({
+      code: promo.code,
+      description: promo.description || '',
+      discount_type: promo.discount_type,
+      discount_value: String(promo.discount_value),
+      service_id: promo.service_id || '',
+      valid_from: toDateTimeInput(promo.valid_from),
+      valid_until: toDateTimeInput(promo.valid_until),
+      max_uses: promo.max_uses != null ? String(promo.max_uses) : '',
+      max_uses_per_customer: promo.max_uses_per_customer != null ? String(promo.max_uses_per_customer) : '',
+      min_spend: promo.min_spend != null ? String(promo.min_spend) : '',
+      is_active: promo.is_active,
+    });
+    setIsModalOpen(true);
+  }
+
+  function closeModal() {
+    setIsModalOpen(false);
+    setEditingCode(null);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!userProfile?.tenant_id) return;
+
+    const discountValue = Number(form.discount_value);
+    if (!(discountValue > 0) || (form.discount_type === 'percentage' && discountValue > 100)) {
+      alert(isArabic
+        ? 'قيمة الخصم يجب أن تكون أكبر من صفر (وبحد أقصى 100 للنسبة المئوية)'
+        : 'The discount must be greater than zero (and at most 100 for a percentage)');
+      return;
+    }
+    if (form.valid_from && form.valid_until && new Date(form.valid_until) <= new Date(form.valid_from)) {
+      alert(isArabic ? 'تاريخ الانتهاء يجب أن يكون بعد تاريخ البدء' : 'The end date must be after the start date');
+      return;
+    }
+
+    const payload = {
+      tenant_id: userProfile.tenant_id,
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim() || null,
+      discount_type: form.discount_type,
+      discount_value: discountValue,
+      service_id: form.service_id || null,
+      valid_from: toIsoOrNull(form.valid_from),
+      valid_until: toIsoOrNull(form.valid_until),
+      max_uses: toNumberOrNull(form.max_uses),
+      max_uses_per_customer: toNumberOrNull(form.max_uses_per_customer),
+      min_spend: toNumberOrNull(form.min_spend),
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      const result = editingCode
+        ? await db.from('promo_codes').update(payload).eq('id', editingCode.id).then()
+        : await db.from('promo_codes').insert(payload).then();
+
+      if (result.error) {
+        const message = result.error.message || 'Unknown error';
+        alert(/duplicate|unique/i.test(message)
+          ? (isArabic ? 'يوجد رمز خصم بنفس الاسم' : 'A promo code with this code already exists')
+          : `Error: ${message}`);
+        return;
+      }
+
+      closeModal();
+      await fetchPromoCodes();
+    } catch (error: any) {
+      console.error('Promo code submit error:', error);
+      alert(`Error: ${error?.message || 'Failed to save promo code'}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deletePromoCode(promo: PromoCodeRow) {
+    const message = isArabic
+      ? `هل أنت متأكد من حذف رمز الخصم ${promo.code}؟ لن تتأثر الحجوزات التي استخدمته.`
+      : `Delete promo code ${promo.code}? Bookings that used it keep their discount.`;
+    if (!confirm(message)) return;
+
+    const result = await db.from('promo_codes').delete().eq('id', promo.id);
+    if (result.error) {
+      alert(`Error deleting promo code: ${result.error.message}`);
+      return;
+    }
+    await fetchPromoCodes();
+  }
+
+  function formatDiscount(promo: PromoCode) {
+    return promo.discount_type === 'percentage'
+      ? `${Number(promo.discount_value)}%`
+      : `${Number(promo.discount_value).toFixed(2)} ${t('common.sar') || 'SAR'}`;
+  }
+
+  function formatValidity(promo: PromoCode) {
+    const from = promo.valid_from ? format(parseISO(promo.valid_from), 'MMM d, yyyy') : null;
+    const until = promo.valid_until ? format(parseISO(promo.valid_until), 'MMM d, yyyy') : null;
+    if (!from && !until) return isArabic ? 'دائم' : 'Always';
+    if (!from) return `${isArabic ? 'حتى' : 'Until'} ${until}`;
+    if (!until) return `${isArabic ? 'من' : 'From'} ${from}`;
+    return `${from} – ${until}`;
+  }
+
+  function getStatus(promo: PromoCodeRow) {
+    const now = new Date();
+    const uses = promo.promo_code_redemptions?.length || 0;
+    if (!promo.is_active) return { label: isArabic ? 'غير نشط' : 'Inactive', className: 'bg-gray-100 text-gray-800' };
+    if (promo.valid_until && parseISO(promo.valid_until) <= now) return { label: isArabic ? 'منتهي' : 'Expired', className: 'bg-red-100 text-red-800' };
+    if (promo.valid_from && parseISO(promo.valid_from) > now) return { label: isArabic ? 'مجدول' : 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+    if (promo.max_uses != null && uses >= promo.max_uses) return { label: isArabic ? 'مستنفد' : 'Used up', className: 'bg-yellow-100 text-yellow-800' };
+    return { label: isArabic ? 'نشط' : 'Active', className: 'bg-green-100 text-green-800' };
+  }
+
+  const filteredCodes = promoCodes.filter(promo => {
+    const query = searchQuery.toLowerCase().trim();
+    if (!query) return true;
+    return promo.code.toLowerCase().includes(query) || (promo.description || '').toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{isArabic ? 'رموز الخصم' : 'Promo Codes'}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {isArabic
+              ? 'رموز يدخلها العملاء عند الدفع للحصول على خصم'
+              : 'Codes customers enter at checkout to get a discount'}
+          </p>
+        </div>
+        <Button onClick={openCreate} icon={<Plus className="w-4 h-4" />}>
+          {isArabic ? 'إنشاء رمز' : 'Create Code'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <Input
+              type="text"
+              placeholder={isArabic ? 'ابحث عن رمز...' : 'Search codes...'}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="text-gray-500">{t('common.loading') || 'Loading...'}</div>
+        </div>
+      ) : filteredCodes.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Ticket className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {promoCodes.length === 0
+                ? (isArabic ? 'لا توجد رموز خصم بعد' : 'No promo codes yet')
+                : (isArabic ? 'لا توجد نتائج' : 'No results found')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الرمز' : 'Code'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الخصم' : 'Discount'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الخدمة' : 'Service'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الصلاحية' : 'Valid'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الاستخدام' : 'Uses'}</th>
+                  <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{isArabic ? 'الحالة' : 'Status'}</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredCodes.map(promo => {
+                  const status = getStatus(promo);
+                  const uses = promo.promo_code_redemptions?.length || 0;
+                  return (
+                    <tr key={promo.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-mono font-semibold text-gray-900">{promo.code}</div>
+                        {promo.description && <div className="text-xs text-gray-500">{promo.description}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {formatDiscount(promo)}
+                        {promo.min_spend != null && Number(promo.min_spend) > 0 && (
+                          <div className="text-xs text-gray-500">
+                            {isArabic ? 'حد أدنى' : 'Min.'} {Number(promo.min_spend).toFixed(2)} {t('common.sar') || 'SAR'}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {promo.services
+                          ? (isArabic ? promo.services.name_ar || promo.services.name : promo.services.name)
+                          : (isArabic ? 'جميع الخدمات' : 'All services')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{formatValidity(promo)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {uses}{promo.max_uses != null ? ` / ${promo.max_uses}` : ''}
+                        {promo.max_uses_per_customer != null && (
+                          <div className="text-xs text-gray-500">
+                            {isArabic ? `${promo.max_uses_per_customer} لكل عميل` : `${promo.max_uses_per_customer} per customer`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`text-xs px-2 py-1 rounded ${status.className}`}>{status.label}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => openEdit(promo)} icon={<Edit className="w-4 h-4" />}>
+                            {t('common.edit')}
+                          </Button>
+                          <Button variant="danger" size="sm" onClick={() => deletePromoCode(promo)} icon={<Trash2 className="w-4 h-4" />} />
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingCode ? (isArabic ? 'تعديل رمز الخصم' : 'Edit Promo Code') : (isArabic ? 'إنشاء رمز خصم' : 'Create Promo Code')}
+        size="lg"
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label={isArabic ? 'الرمز' : 'Code'}
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().replace(/\s/g, '') })}
+              placeholder="SUMMER20"
+              required
+            />
+            <Input
+              label={isArabic ? 'الوصف' : 'Description'}
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {isArabic ? 'نوع الخصم' : 'Discount type'}
+              </label>
+              <select
+                value={form.discount_type}
+                onChange={(e) => setForm({ ...form, discount_type: e.target.value as PromoDiscountType })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="percentage">{isArabic ? 'نسبة مئوية' : 'Percentage'}</option>
+                <option value="fixed">{isArabic ? 'مبلغ ثابت' : 'Fixed amount'}</option>
+              </select>
+            </div>
+            <Input
+              label={form.discount_type === 'percentage'
+                ? (isArabic ? 'النسبة (%)' : 'Percent (%)')
+                : (isArabic ? 'المبلغ' : 'Amount')}
+              type="number"
+              min="0.01"
+              max={form.discount_type === 'percentage' ? '100' : undefined}
+              step="0.01"
+              value={form.discount_value}
+              onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {isArabic ? 'الخدمة' : 'Service'}
+            </label>
+            <select
+              value={form.service_id}
+              onChange={(e) => setForm({ ...form, service_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">{isArabic ? 'جميع الخدمات' : 'All services'}</option>
+              {services.map(service => (
+                <option key={service.id} value={service.id}>
+                  {isArabic ? service.name_ar || service.name : service.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label={isArabic ? 'صالح من' : 'Valid from'}
+              type="datetime-local"
+              value={form.valid_from}
+              onChange={(e) => setForm({ ...form, valid_from: e.target.value })}
+            />
+            <Input
+              label={isArabic ? 'صالح حتى' : 'Valid until'}
+              type="datetime-local"
+              value={form.valid_until}
+              onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label={isArabic ? 'الحد الأقصى للاستخدام' : 'Total uses'}
+              type="number"
+              min="1"
+              value={form.max_uses}
+              onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+              helperText={isArabic ? 'اتركه فارغًا لعدد غير محدود' : 'Leave empty for unlimited'}
+            />
+            <Input
+              label={isArabic ? 'الاستخدام لكل عميل' : 'Uses per customer'}
+              type="number"
+              min="1"
+              value={form.max_uses_per_customer}
+              onChange={(e) => setForm({ ...form, max_uses_per_customer: e.target.value })}
+            />
+            <Input
+              label={isArabic ? 'الحد الأدنى للإنفاق' : 'Minimum spend'}
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.min_spend}
+              onChange={(e) => setForm({ ...form, min_spend: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="promo_is_active"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="promo_is_active" className="text-sm font-medium text-gray-700">
+              {t('common.active') || 'Active'}
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              {t('common.cancel') || 'Cancel'}
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {editingCode ? (t('common.update') || 'Update') : (t('common.create') || 'Create')}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
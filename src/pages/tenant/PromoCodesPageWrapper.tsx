@@ -0,0 +1,12 @@
+import { PromoCodesPage } from './PromoCodesPage';
+import { TenantLayout } from '../../components/layout/TenantLayout';
+import { useParams } from 'react-router-dom';
+
+export function PromoCodesPageWrapper() {
+  const { tenantSlug } = useParams<{ tenantSlug: string }>();
+  return (
+    <TenantLayout tenantSlug={tenantSlug || ''}>
+      <PromoCodesPage />
+    </TenantLayout>
+  );
+}
@@ -8,6 +8,8 @@ import { Modal } from '../../components/ui/Modal';
 import { Input } from '../../components/ui/Input';
 import { Plus, Edit, Trash2, Briefcase, FolderOpen, Clock, X, Upload, Gift, Search } from 'lucide-react';
 import heic2any from 'heic2any';
+import { BookingFieldsEditor } from '../../components/bookings/BookingFieldsEditor';
+import { BookingField } from '../../types';
 
 interface Category {
   id: string;
@@ -36,6 +38,7 @@ interface Service {
   capacity_mode?: 'employee_based' | 'service_based';
   service_duration_minutes?: number;
   service_capacity_per_slot?: number | null;
+  booking_fields?: BookingField[] | null;
 }
 
 interface Shift {
@@ -87,6 +90,7 @@ export function ServicesPage() {
     category_id: '',
     image_url: '',
     gallery_urls: [] as string[],
+    booking_fields: [] as BookingField[],
     is_combo: false,
     combo_services: [] as string[]
   });
@@ -304,7 +308,8 @@ export function ServicesPage() {
         gallery_urls: galleryUrls.length > 0 ? galleryUrls : null,
         image_url: serviceForm.image_url || null,
         is_public: serviceForm.is_public,
-        is_active: serviceForm.is_active
+        is_active: serviceForm.is_active,
+        booking_fields: serviceForm.booking_fields
       };
       
       // Calculate discount_percentage automatically if original_price exists and is greater than base_price
@@ -713,6 +718,7 @@ export function ServicesPage() {
       category_id: service.category_id || '',
       image_url: serviceData.image_url || '',
       gallery_urls: galleryUrls.length > 0 ? galleryUrls : (serviceData.image_url ? [serviceData.image_url] : []),
+      booking_fields: Array.isArray(service.booking_fields) ? service.booking_fields : [],
       is_combo: false, // Will be determined by service_packages
       combo_services: []
     });
@@ -751,6 +757,7 @@ export function ServicesPage() {
       category_id: '',
       image_url: '',
       gallery_urls: [],
+      booking_fields: [],
       is_combo: false,
       combo_services: []
     });
@@ -1644,6 +1651,11 @@ export function ServicesPage() {
             </label>
           </div>
 
+          <BookingFieldsEditor
+            fields={serviceForm.booking_fields}
+            onChange={(booking_fields) => setServiceForm({ ...serviceForm, booking_fields })}
+          />
+
           <div className="flex gap-3 pt-4">
             <Button type="submit" fullWidth>
               {editingService ? t('common.save') : t('common.add')}
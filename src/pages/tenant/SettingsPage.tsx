@@ -6,7 +6,16 @@ import { db } from '../../lib/db';
 import { Button } from '../../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
 import { Input } from '../../components/ui/Input';
-import { Settings, Save, Building2, Lock, Eye, EyeOff, Mail, CheckCircle, XCircle, MessageCircle, FileText, ExternalLink } from 'lucide-react';
+import { ClosureCalendarCard } from '../../components/closures/ClosureCalendarCard';
+import { Settings, Save, Building2, Lock, Eye, EyeOff, Mail, CheckCircle, XCircle, MessageCircle, FileText, ExternalLink, CalendarClock, Bell } from 'lucide-react';
+
+// ISO timestamp → value for a datetime-local input (browser's local time)
+function toDateTimeLocal(value?: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
 
 export function SettingsPage() {
   const navigate = useNavigate();
@@ -30,6 +39,10 @@ export function SettingsPage() {
     contact_email: '',
     tenant_time_zone: 'Asia/Riyadh',
     maintenance_mode: false,
+    maintenance_message: '',
+    maintenance_message_ar: '',
+    maintenance_starts_at: '',
+    maintenance_ends_at: '',
   });
   const [smtpSettings, setSmtpSettings] = useState({
     smtp_host: 'smtp.gmail.com',
@@ -58,6 +71,30 @@ export function SettingsPage() {
   const [whatsappMessage, setWhatsappMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [showWhatsappToken, setShowWhatsappToken] = useState(false);
 
+  // Customer cancellation / reschedule policy state
+  const [bookingPolicy, setBookingPolicy] = useState({
+    allow_customer_cancellation: true,
+    cancellation_cutoff_hours: 24,
+    cancellation_fee_type: 'fixed' as 'fixed' | 'percent',
+    cancellation_fee: 0,
+    allow_customer_reschedule: true,
+    reschedule_cutoff_hours: 24,
+    reschedule_fee: 0,
+    max_reschedules: 2,
+  });
+  const [bookingPolicyLoading, setBookingPolicyLoading] = useState(false);
+  const [bookingPolicyMessage, setBookingPolicyMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Booking reminder settings state
+  const [reminderSettings, setReminderSettings] = useState({
+    enabled: true,
+    offsets: '24, 2',
+    whatsapp: true,
+    email: true,
+  });
+  const [reminderLoading, setReminderLoading] = useState(false);
+  const [reminderMessage, setReminderMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
   // Zoho settings state
   const [zohoSettings, setZohoSettings] = useState({
     client_id: '',
@@ -114,6 +151,10 @@ export function SettingsPage() {
         contact_email: tenant.contact_email || '',
         tenant_time_zone: tenant.tenant_time_zone || 'Asia/Riyadh',
         maintenance_mode: tenant.maintenance_mode || false,
+        maintenance_message: tenant.maintenance_message || '',
+        maintenance_message_ar: tenant.maintenance_message_ar || '',
+        maintenance_starts_at: toDateTimeLocal(tenant.maintenance_starts_at),
+        maintenance_ends_at: toDateTimeLocal(tenant.maintenance_ends_at),
       });
     }
   }, [tenant]);
@@ -190,6 +231,69 @@ export function SettingsPage() {
     loadWhatsappSettings();
   }, [tenant]);
 
+  // Load booking policy
+  useEffect(() => {
+    async function loadBookingPolicy() {
+      if (!tenant?.id) return;
+
+      try {
+        const token = localStorage.getItem('auth_token');
+        const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+        const response = await fetch(`${API_URL}/tenants/booking-policy`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          if (data.booking_policy) {
+            setBookingPolicy(data.booking_policy);
+          }
+        }
+      } catch (err) {
+        console.error('Error loading booking policy:', err);
+      }
+    }
+
+    loadBookingPolicy();
+  }, [tenant]);
+
+  // Load booking reminder settings
+  useEffect(() => {
+    async function loadReminderSettings() {
+      if (!tenant?.id) return;
+
+      try {
+        const token = localStorage.getItem('auth_token');
+        const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+        const response = await fetch(`${API_URL}/tenants/reminder-settings`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          if (data.reminder_settings) {
+            setReminderSettings({
+              enabled: data.reminder_settings.enabled,
+              offsets: data.reminder_settings.offsets_hours.join(', '),
+              whatsapp: data.reminder_settings.whatsapp,
+              email: data.reminder_settings.email,
+            });
+          }
+        }
+      } catch (err) {
+        console.error('Error loading reminder settings:', err);
+      }
+    }
+
+    loadReminderSettings();
+  }, [tenant]);
+
   // Load Zoho settings
   useEffect(() => {
     async function loadZohoSettings() {
@@ -416,6 +520,85 @@ export function SettingsPage() {
     }
   }
 
+  async function handleBookingPolicySave() {
+    setBookingPolicyMessage(null);
+    setBookingPolicyLoading(true);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const response = await fetch(`${API_URL}/tenants/booking-policy`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(bookingPolicy),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save booking policy');
+      }
+
+      setBookingPolicy(data.booking_policy);
+      setBookingPolicyMessage({ type: 'success', text: 'Booking policy saved successfully!' });
+    } catch (err) {
+      console.error('Error saving booking policy:', err);
+      setBookingPolicyMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save booking policy' });
+    } finally {
+      setBookingPolicyLoading(false);
+    }
+  }
+
+  async function handleReminderSave() {
+    setReminderMessage(null);
+    setReminderLoading(true);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+      const offsetsHours = reminderSettings.offsets
+        .split(',')
+        .map(value => parseFloat(value.trim()))
+        .filter(value => !isNaN(value) && value > 0);
+
+      const response = await fetch(`${API_URL}/tenants/reminder-settings`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          enabled: reminderSettings.enabled,
+          offsets_hours: offsetsHours,
+          whatsapp: reminderSettings.whatsapp,
+          email: reminderSettings.email,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save reminder settings');
+      }
+
+      setReminderSettings({
+        enabled: data.reminder_settings.enabled,
+        offsets: data.reminder_settings.offsets_hours.join(', '),
+        whatsapp: data.reminder_settings.whatsapp,
+        email: data.reminder_settings.email,
+      });
+      setReminderMessage({ type: 'success', text: 'Reminder settings saved successfully!' });
+    } catch (err) {
+      console.error('Error saving reminder settings:', err);
+      setReminderMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save reminder settings' });
+    } finally {
+      setReminderLoading(false);
+    }
+  }
+
   async function handleWhatsappTest() {
     setWhatsappMessage(null);
     setWhatsappTestLoading(true);
@@ -680,6 +863,12 @@ export function SettingsPage() {
 
     if (!tenant?.id) return;
 
+    if (formData.maintenance_starts_at && formData.maintenance_ends_at &&
+        new Date(formData.maintenance_ends_at) <= new Date(formData.maintenance_starts_at)) {
+      alert('Maintenance must end after it starts.');
+      return;
+    }
+
     setLoading(true);
     try {
       const { error } = await db
@@ -690,6 +879,10 @@ export function SettingsPage() {
           contact_email: formData.contact_email,
           tenant_time_zone: formData.tenant_time_zone,
           maintenance_mode: formData.maintenance_mode,
+          maintenance_message: formData.maintenance_message || null,
+          maintenance_message_ar: formData.maintenance_message_ar || null,
+          maintenance_starts_at: formData.maintenance_starts_at ? new Date(formData.maintenance_starts_at).toISOString() : null,
+          maintenance_ends_at: formData.maintenance_ends_at ? new Date(formData.maintenance_ends_at).toISOString() : null,
         })
         .eq('id', tenant.id);
 
@@ -854,6 +1047,38 @@ export function SettingsPage() {
                   <p className="text-xs text-gray-500">{t('tenant.disablePublicBookings')}</p>
                 </div>
               </label>
+
+              {formData.maintenance_mode && (
+                <div className="mt-4 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Input
+                      type="datetime-local"
+                      label={t('tenant.maintenanceStartsAt')}
+                      value={formData.maintenance_starts_at}
+                      onChange={(e) => setFormData({ ...formData, maintenance_starts_at: e.target.value })}
+                    />
+                    <Input
+                      type="datetime-local"
+                      label={t('tenant.maintenanceEndsAt')}
+                      value={formData.maintenance_ends_at}
+                      min={formData.maintenance_starts_at || undefined}
+                      onChange={(e) => setFormData({ ...formData, maintenance_ends_at: e.target.value })}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">{t('tenant.maintenanceWindowHint')}</p>
+                  <Input
+                    label={t('tenant.maintenanceMessage')}
+                    value={formData.maintenance_message}
+                    onChange={(e) => setFormData({ ...formData, maintenance_message: e.target.value })}
+                  />
+                  <Input
+                    label={t('tenant.maintenanceMessageAr')}
+                    value={formData.maintenance_message_ar}
+                    onChange={(e) => setFormData({ ...formData, maintenance_message_ar: e.target.value })}
+                    dir="rtl"
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -871,6 +1096,206 @@ export function SettingsPage() {
           </div>
           </form>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5" />
+                Cancellation & Reschedule Policy
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {bookingPolicyMessage && (
+                  <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${
+                    bookingPolicyMessage.type === 'success'
+                      ? 'bg-green-50 border border-green-200 text-green-700'
+                      : 'bg-red-50 border border-red-200 text-red-700'
+                  }`}>
+                    {bookingPolicyMessage.type === 'success' ? (
+                      <CheckCircle className="w-4 h-4" />
+                    ) : (
+                      <XCircle className="w-4 h-4" />
+                    )}
+                    {bookingPolicyMessage.text}
+                  </div>
+                )}
+
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={bookingPolicy.allow_customer_cancellation}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, allow_customer_cancellation: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Allow customers to cancel their bookings
+                  </span>
+                </label>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Input
+                    type="number"
+                    min={0}
+                    label="Cancellation cutoff (hours before start)"
+                    value={bookingPolicy.cancellation_cutoff_hours}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, cancellation_cutoff_hours: parseFloat(e.target.value) || 0 })}
+                  />
+                  <div className="space-y-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Cancellation fee type
+                    </label>
+                    <select
+                      value={bookingPolicy.cancellation_fee_type}
+                      onChange={(e) => setBookingPolicy({ ...bookingPolicy, cancellation_fee_type: e.target.value as 'fixed' | 'percent' })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="fixed">Fixed amount</option>
+                      <option value="percent">Percentage of price</option>
+                    </select>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    label="Cancellation fee"
+                    value={bookingPolicy.cancellation_fee}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, cancellation_fee: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+
+                <label className="flex items-center gap-3 cursor-pointer pt-2">
+                  <input
+                    type="checkbox"
+                    checked={bookingPolicy.allow_customer_reschedule}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, allow_customer_reschedule: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Allow customers to reschedule their bookings
+                  </span>
+                </label>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Input
+                    type="number"
+                    min={0}
+                    label="Reschedule cutoff (hours before start)"
+                    value={bookingPolicy.reschedule_cutoff_hours}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, reschedule_cutoff_hours: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    label="Reschedule fee"
+                    value={bookingPolicy.reschedule_fee}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, reschedule_fee: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    label="Max reschedules per booking"
+                    value={bookingPolicy.max_reschedules}
+                    onChange={(e) => setBookingPolicy({ ...bookingPolicy, max_reschedules: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+
+                <div className="flex justify-end pt-2">
+                  <Button
+                    type="button"
+                    onClick={handleBookingPolicySave}
+                    loading={bookingPolicyLoading}
+                    icon={<Save className="w-4 h-4" />}
+                  >
+                    Save Policy
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="w-5 h-5" />
+                Booking Reminders
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {reminderMessage && (
+                  <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${
+                    reminderMessage.type === 'success'
+                      ? 'bg-green-50 border border-green-200 text-green-700'
+                      : 'bg-red-50 border border-red-200 text-red-700'
+                  }`}>
+                    {reminderMessage.type === 'success' ? (
+                      <CheckCircle className="w-4 h-4" />
+                    ) : (
+                      <XCircle className="w-4 h-4" />
+                    )}
+                    {reminderMessage.text}
+                  </div>
+                )}
+
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reminderSettings.enabled}
+                    onChange={(e) => setReminderSettings({ ...reminderSettings, enabled: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Send reminders before confirmed bookings</span>
+                </label>
+
+                <div className="space-y-2">
+                  <Input
+                    type="text"
+                    label="Send reminders (hours before start)"
+                    value={reminderSettings.offsets}
+                    onChange={(e) => setReminderSettings({ ...reminderSettings, offsets: e.target.value })}
+                    placeholder="24, 2"
+                  />
+                  <p className="text-xs text-gray-500">Comma-separated, e.g. 24, 2 sends a reminder one day and two hours before each booking</p>
+                </div>
+
+                <div className="flex flex-wrap gap-6">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={reminderSettings.whatsapp}
+                      onChange={(e) => setReminderSettings({ ...reminderSettings, whatsapp: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">WhatsApp</span>
+                  </label>
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={reminderSettings.email}
+                      onChange={(e) => setReminderSettings({ ...reminderSettings, email: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">Email</span>
+                  </label>
+                </div>
+
+                <div className="flex justify-end pt-2">
+                  <Button
+                    type="button"
+                    onClick={handleReminderSave}
+                    loading={reminderLoading}
+                    icon={<Save className="w-4 h-4" />}
+                  >
+                    Save Reminder Settings
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <ClosureCalendarCard />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
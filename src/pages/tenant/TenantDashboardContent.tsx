@@ -11,9 +11,11 @@ import { PieChart } from '../../components/dashboard/PieChart';
 import { ComparisonChart } from '../../components/dashboard/ComparisonChart';
 import { StatCard } from '../../components/dashboard/StatCard';
 import { Calendar, Users, Briefcase, DollarSign, TrendingUp, CheckCircle, Grid, List, ChevronLeft, ChevronRight } from 'lucide-react';
-import { startOfDay, endOfDay, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, format, parseISO, eachDayOfInterval, addDays, isSameDay, addMinutes, isAfter, isBefore, parse } from 'date-fns';
+import { startOfDay, endOfDay, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, format, addDays, isSameDay, addMinutes, isAfter, isBefore, parse } from 'date-fns';
 import { ar } from 'date-fns/locale';
 
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
 interface ServicePerformance {
   id: string;
   name: string;
@@ -22,6 +24,32 @@ interface ServicePerformance {
   dailyData: { date: string; bookings: number; revenue: number }[];
 }
 
+interface AnalyticsChange {
+  total_bookings: number | null;
+  revenue: number | null;
+  completed_bookings: number | null;
+  average_booking_value: number | null;
+}
+
+interface RevenuePoint {
+  period: string;
+  bookings: number;
+  revenue: number;
+}
+
+interface EmployeePerformance {
+  id: string;
+  full_name: string;
+  full_name_ar: string | null;
+  bookings: number;
+  revenue: number;
+}
+
+// StatCard trend from a relative change (0.25 = +25%) against the previous period
+function toTrend(change: number | null | undefined) {
+  if (change === null || change === undefined) return undefined;
+  return { value: Math.round(change * 100), isPositive: change >= 0 };
+}
 
 export function TenantDashboardContent() {
   const { t, i18n } = useTranslation();
@@ -37,7 +65,10 @@ export function TenantDashboardContent() {
     completedBookings: 0,
     averageBookingValue: 0,
   });
+  const [statChanges, setStatChanges] = useState<AnalyticsChange | null>(null);
   const [servicePerformance, setServicePerformance] = useState<ServicePerformance[]>([]);
+  const [revenueSeries, setRevenueSeries] = useState<{ current: RevenuePoint[]; previous: RevenuePoint[] }>({ current: [], previous: [] });
+  const [employeePerformance, setEmployeePerformance] = useState<EmployeePerformance[]>([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'dashboard' | 'calendar'>('dashboard');
   const [calendarDate, setCalendarDate] = useState(new Date());
@@ -90,89 +121,44 @@ export function TenantDashboardContent() {
 
     setLoading(true);
     const { start, end } = getDateRange();
+    // Aggregated by the server in the tenant's time zone, with the previous period of the same length
+    const rangeQuery = `start=${format(start, 'yyyy-MM-dd')}&end=${format(end, 'yyyy-MM-dd')}`;
+    const headers = { Authorization: `Bearer ${localStorage.getItem('auth_token')}` };
 
     try {
-      const { data: bookings, error: bookingsError } = await db
-        .from('bookings')
-        .select(`
-          id,
-          total_price,
-          status,
-          service_id,
-          created_at,
-          services:service_id (
-            id,
-            name,
-            name_ar
-          )
-        `)
-        .eq('tenant_id', userProfile.tenant_id)
-        .gte('created_at', start.toISOString())
-        .lte('created_at', end.toISOString());
-
-      if (bookingsError) throw bookingsError;
+      const fetchAnalytics = async (path: string) => {
+        const response = await fetch(`${API_URL}/tenants/analytics${path}`, { headers });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch analytics');
+        }
+        return data;
+      };
 
-      const totalBookings = bookings?.length || 0;
-      const totalRevenue = bookings?.reduce((sum, b) => sum + (parseFloat(b.total_price?.toString() || '0')), 0) || 0;
-      const completedBookings = bookings?.filter(b => b.status === 'completed').length || 0;
-      const averageBookingValue = totalBookings > 0 ? totalRevenue / totalBookings : 0;
+      const [overview, revenue, services, employees] = await Promise.all([
+        fetchAnalytics(`?${rangeQuery}`),
+        fetchAnalytics(`/revenue?${rangeQuery}&granularity=day`),
+        fetchAnalytics(`/services?${rangeQuery}`),
+        fetchAnalytics(`/employees?${rangeQuery}`),
+      ]);
 
       setStats({
-        totalBookings,
-        totalRevenue,
-        completedBookings,
-        averageBookingValue,
-      });
-
-      const allDates = eachDayOfInterval({ start, end }).map(date => format(date, 'yyyy-MM-dd'));
-
-      const serviceMap = new Map<string, ServicePerformance>();
-
-      bookings?.forEach((booking) => {
-        const bookingDate = format(parseISO(booking.created_at), 'yyyy-MM-dd');
-        const serviceId = booking.service_id;
-        const service = booking.services as any;
-        const serviceName = i18n.language === 'ar' && service?.name_ar ? service.name_ar : (service?.name || t('service.unknown'));
-        const revenue = parseFloat(booking.total_price?.toString() || '0');
-
-        if (serviceId) {
-          const existing = serviceMap.get(serviceId);
-          if (existing) {
-            existing.bookings += 1;
-            existing.revenue += revenue;
-            const dayData = existing.dailyData.find(d => d.date === bookingDate);
-            if (dayData) {
-              dayData.bookings += 1;
-              dayData.revenue += revenue;
-            } else {
-              existing.dailyData.push({ date: bookingDate, bookings: 1, revenue });
-            }
-          } else {
-            serviceMap.set(serviceId, {
-              id: serviceId,
-              name: serviceName,
-              bookings: 1,
-              revenue,
-              dailyData: [{ date: bookingDate, bookings: 1, revenue }],
-            });
-          }
-        }
+        totalBookings: overview.current.total_bookings,
+        totalRevenue: overview.current.revenue,
+        completedBookings: overview.current.completed_bookings,
+        averageBookingValue: overview.current.average_booking_value,
       });
-
-      const normalizeData = (items: Map<string, ServicePerformance>) => {
-        return Array.from(items.values()).map(item => ({
-          ...item,
-          dailyData: allDates.map(date => {
-            const existing = item.dailyData.find(d => d.date === date);
-            return existing || { date, bookings: 0, revenue: 0 };
-          }),
-        }));
-      };
-
-      setServicePerformance(
-        normalizeData(serviceMap)
-          .sort((a, b) => b.revenue - a.revenue)
-      );
+      setStatChanges(overview.change);
+      setRevenueSeries({ current: revenue.current, previous: revenue.previous });
+
+      setServicePerformance(services.map((service: any) => ({
+        id: service.id,
+        name: i18n.language === 'ar' && service.name_ar ? service.name_ar : (service.name || t('service.unknown')),
+        bookings: service.bookings,
+        revenue: service.revenue,
+        dailyData: service.daily,
+      })));
+      setEmployeePerformance(employees);
     } catch (err) {
       console.error('Error fetching stats:', err);
     } finally {
@@ -406,6 +392,29 @@ export function TenantDashboardContent() {
     color: colors[index % colors.length],
   }));
 
+  // The previous period is drawn on the current period's dates so the two line up
+  const revenueComparisonSeries = revenueSeries.current.length === 0 ? [] : [
+    {
+      name: i18n.language === 'ar' ? 'الفترة الحالية' : 'This period',
+      data: revenueSeries.current.map(point => ({ date: point.period, value: point.revenue })),
+      color: colors[0],
+    },
+    {
+      name: i18n.language === 'ar' ? 'الفترة السابقة' : 'Previous period',
+      data: revenueSeries.previous
+        .slice(0, revenueSeries.current.length)
+        .map((point, index) => ({ date: revenueSeries.current[index].period, value: point.revenue })),
+      color: '#9CA3AF',
+    },
+  ];
+
+  const employeeChartData = employeePerformance.map((employee, index) => ({
+    label: i18n.language === 'ar' && employee.full_name_ar ? employee.full_name_ar : employee.full_name,
+    value: employee.bookings,
+    revenue: employee.revenue,
+    color: colors[index % colors.length],
+  }));
+
   // Separate bookings into upcoming and expired
   const upcomingBookings = dashboardBookings.filter(booking => {
     const slot = booking.slots;
@@ -551,6 +560,7 @@ export function TenantDashboardContent() {
         <StatCard
           title={t('dashboard.totalBookings')}
           value={stats.totalBookings}
+          trend={toTrend(statChanges?.total_bookings)}
           icon={Calendar}
           iconColor="text-blue-600"
           iconBgColor="bg-blue-100"
@@ -559,6 +569,7 @@ export function TenantDashboardContent() {
         <StatCard
           title={t('dashboard.totalRevenue')}
           value={`${stats.totalRevenue.toFixed(2)} ${t('service.currency')}`}
+          trend={toTrend(statChanges?.revenue)}
           icon={DollarSign}
           iconColor="text-green-600"
           iconBgColor="bg-green-100"
@@ -567,6 +578,7 @@ export function TenantDashboardContent() {
         <StatCard
           title={t('dashboard.completedBookings')}
           value={stats.completedBookings}
+          trend={toTrend(statChanges?.completed_bookings)}
           icon={CheckCircle}
           iconColor="text-teal-600"
           iconBgColor="bg-teal-100"
@@ -575,6 +587,7 @@ export function TenantDashboardContent() {
         <StatCard
           title={t('dashboard.averageBookingValue')}
           value={`${stats.averageBookingValue.toFixed(2)} ${t('service.currency')}`}
+          trend={toTrend(statChanges?.average_booking_value)}
           icon={TrendingUp}
           iconColor="text-orange-600"
           iconBgColor="bg-orange-100"
@@ -588,6 +601,14 @@ export function TenantDashboardContent() {
         />
       </div>
 
+      <div className="mb-8">
+        <ComparisonChart
+          title={i18n.language === 'ar' ? 'الإيرادات مقارنة بالفترة السابقة' : 'Revenue vs previous period'}
+          series={revenueComparisonSeries}
+          valueLabel={t('dashboard.totalRevenue')}
+        />
+      </div>
+
       <div className="mb-8">
         <ComparisonChart
           title={t('dashboard.serviceBookingComparison')}
@@ -612,6 +633,16 @@ export function TenantDashboardContent() {
         />
       </div>
 
+      {employeeChartData.length > 0 && (
+        <div className="grid grid-cols-1 gap-6 mt-6">
+          <PerformanceChart
+            title={i18n.language === 'ar' ? 'أداء الموظفين' : 'Employee performance'}
+            data={employeeChartData}
+            metric="revenue"
+          />
+        </div>
+      )}
+
       {/* Upcoming Bookings */}
       {upcomingBookings.length > 0 && (
         <div className="mt-8">
@@ -25,6 +25,10 @@ export interface Tenant {
   public_page_enabled: boolean;
   maintenance_mode: boolean;
   maintenance_message?: string;
+  maintenance_message_ar?: string;
+  // Optional scheduled maintenance window; maintenance applies only inside it
+  maintenance_starts_at?: string | null;
+  maintenance_ends_at?: string | null;
   theme_preset: string;
   logo_url?: string;
   custom_theme_config?: Record<string, any>;
@@ -74,11 +78,51 @@ export interface Service {
   is_active: boolean;
   average_rating?: number;
   total_reviews?: number;
+  booking_fields?: BookingField[];
   created_at: string;
   updated_at: string;
   category?: ServiceCategory;
 }
 
+export type BookingFieldType = 'text' | 'number' | 'select' | 'checkbox' | 'date' | 'file';
+
+export interface BookingFieldOption {
+  value: string;
+  label: string;
+  label_ar?: string;
+}
+
+// A question the tenant asks when the service is booked
+export interface BookingField {
+  id: string;
+  type: BookingFieldType;
+  label: string;
+  label_ar?: string;
+  required: boolean;
+  options?: BookingFieldOption[];
+}
+
+export interface BookingFileValue {
+  filename: string;
+  mime_type: string;
+  size: number;
+  data_url: string;
+}
+
+// Values entered in the booking form, keyed by field id
+export type BookingFieldValues = Record<string, string | boolean | BookingFileValue | undefined>;
+
+// An answer stored with the booking, with the question as it was asked
+export interface BookingFieldAnswer {
+  id: string;
+  type: BookingFieldType;
+  label: string;
+  label_ar?: string;
+  value: string | number | boolean | BookingFileValue;
+  value_label?: string;
+  value_label_ar?: string;
+}
+
 export interface Shift {
   id: string;
   tenant_id: string;
@@ -117,13 +161,23 @@ export interface Booking {
   customer_email?: string;
   visitor_count: number;
   total_price: number;
+  refunded_amount?: number;
   status: BookingStatus;
   payment_status: PaymentStatus;
   notes?: string;
+  custom_fields?: BookingFieldAnswer[];
+  promo_code_id?: string;
+  promo_code?: string;
+  discount_amount?: number;
+  // Part of total_price paid from the customer wallet
+  wallet_amount?: number;
   qr_token?: string;
   created_by_user_id?: string;
+  admitted_count?: number;
   checked_in_at?: string;
   checked_in_by_user_id?: string;
+  series_id?: string;
+  series_index?: number;
   status_changed_at: string;
   created_at: string;
   updated_at: string;
@@ -134,6 +188,166 @@ export interface Booking {
   review?: Review;
 }
 
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+export interface PromoCode {
+  id: string;
+  tenant_id: string;
+  code: string;
+  description?: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  // Only valid for this service; unset means every service
+  service_id?: string | null;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  max_uses?: number | null;
+  max_uses_per_customer?: number | null;
+  min_spend?: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  service?: Service;
+  promo_code_redemptions?: { id: string }[];
+}
+
+// Promo code discount on a price quote
+export interface AppliedPromoCode {
+  promo_code_id: string;
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  discount_amount: number;
+}
+
+export interface PriceLine {
+  service_id: string;
+  adult_count: number;
+  child_count: number;
+  adult_price: number;
+  child_price: number;
+  amount: number;
+}
+
+// Server-computed booking price from POST /api/bookings/quote
+export interface PriceQuote {
+  service_id: string;
+  offer_id: string | null;
+  package_id: string | null;
+  package_subscription_id: string | null;
+  package_covered: boolean;
+  adult_count: number;
+  child_count: number;
+  lines: PriceLine[];
+  subtotal: number;
+  promo: AppliedPromoCode | null;
+  discount_amount: number;
+  total_price: number;
+}
+
+export type GiftCardStatus = 'pending_payment' | 'active' | 'redeemed' | 'expired' | 'cancelled';
+
+export interface GiftCard {
+  id: string;
+  tenant_id: string;
+  code: string;
+  initial_amount: number;
+  balance: number;
+  status: GiftCardStatus;
+  expires_at?: string | null;
+  purchaser_name?: string | null;
+  purchaser_phone?: string | null;
+  purchaser_email?: string | null;
+  recipient_name?: string | null;
+  recipient_phone?: string | null;
+  recipient_email?: string | null;
+  message?: string | null;
+  language: 'en' | 'ar';
+  purchased_by_user_id?: string | null;
+  issued_by_user_id?: string | null;
+  redeemed_by_customer_id?: string | null;
+  redeemed_at?: string | null;
+  delivered_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WalletTransactionSource = 'gift_card' | 'refund' | 'booking' | 'adjustment';
+
+export interface WalletTransaction {
+  id: string;
+  tenant_id: string;
+  customer_id: string;
+  type: 'credit' | 'debit';
+  amount: number;
+  balance_after: number;
+  source: WalletTransactionSource;
+  booking_id?: string | null;
+  gift_card_id?: string | null;
+  gift_card_code?: string | null;
+  refund_id?: string | null;
+  note?: string | null;
+  created_by_user_id?: string | null;
+  created_at: string;
+}
+
+// Customer wallet from GET /api/wallet
+export interface CustomerWallet {
+  customer: { id: string; phone: string; name?: string | null; email?: string | null } | null;
+  balance: number;
+  transactions: WalletTransaction[];
+}
+
+export interface TicketCheckIn {
+  number: number;
+  type: 'adult' | 'child';
+  checked_in_at: string | null;
+  checked_in_by_user_id: string | null;
+  checked_in_by_name: string | null;
+}
+
+export interface Refund {
+  id: string;
+  tenant_id: string;
+  booking_id: string;
+  payment_id?: string;
+  amount: number;
+  currency: string;
+  refund_type: 'full' | 'partial';
+  adult_tickets: number;
+  child_tickets: number;
+  reason?: string;
+  method: 'provider' | 'manual' | 'wallet';
+  status: 'pending' | 'succeeded' | 'failed';
+  provider_refund_id?: string;
+  zoho_credit_note_id?: string;
+  issued_by_user_id?: string;
+  issued_by_name?: string;
+  created_at: string;
+}
+
+export interface BookingSeries {
+  id: string;
+  tenant_id: string;
+  service_id: string;
+  customer_id?: string;
+  customer_name: string;
+  customer_phone: string;
+  customer_email?: string;
+  recurrence_rule: {
+    frequency: 'weekly' | 'biweekly';
+    weekdays: number[];
+    count?: number;
+    until?: string;
+  };
+  start_date: string;
+  start_time: string;
+  occurrence_count: number;
+  created_by_user_id?: string;
+  created_at: string;
+  bookings?: Booking[];
+}
+
 export interface BookingLock {
   id: string;
   slot_id: string;
@@ -143,6 +357,32 @@ export interface BookingLock {
   lock_expires_at: string;
 }
 
+export interface WaitlistEntry {
+  id: string;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+  tenant_id: string;
+  tenant_slug: string;
+  tenant_name: string;
+  tenant_name_ar?: string;
+  service_id: string;
+  service_name: string;
+  service_name_ar?: string;
+  slot_date: string;
+  visitor_count: number;
+  position: number | null;
+  slot: {
+    id: string;
+    slot_date: string;
+    start_time: string;
+    end_time: string;
+  } | null;
+  offer: {
+    lock_id: string;
+    session_id: string;
+    expires_at: string;
+  } | null;
+}
+
 export interface AuditLog {
   id: string;
   tenant_id?: string;
@@ -155,6 +395,10 @@ export interface AuditLog {
   ip_address?: string;
   user_agent?: string;
   created_at: string;
+  // Acting user, joined in by /api/audit-logs
+  user_name?: string;
+  user_email?: string;
+  user_role?: string;
 }
 
 export interface ThemeConfig {
@@ -173,6 +417,7 @@ export interface BookingFormData {
   customer_email?: string;
   visitor_count: number;
   notes?: string;
+  custom_fields?: BookingFieldValues;
 }
 
 export interface SlotAvailability {
@@ -0,0 +1,67 @@
+/*
+  # Add Online Payment Support
+
+  1. Schema Changes
+    - `tenants.payment_settings` (jsonb) - Per-tenant payment provider configuration
+      ({ enabled, provider, currency, api_key, secret_key, webhook_secret })
+    - `payments` gains the columns needed to track a gateway payment intent:
+      - `status` defaults to 'pending' (pending, succeeded, failed, cancelled, expired)
+      - `redirect_url` (text) - Hosted checkout URL returned by the provider
+      - `return_url` (text) - Where the customer is sent back to after paying
+      - `expires_at` (timestamptz) - When an unpaid intent stops holding the booking
+      - `provider_response` (jsonb) - Last raw payload received from the provider
+      - `updated_at` (timestamptz)
+
+  2. Indexes
+    - Unique (provider, gateway_txn_id) so webhook/return events resolve to one payment
+    - (booking_id, status) for looking up the active intent of a booking
+    - Partial index on pending intents by expiry for the cleanup job
+
+  3. Notes
+    - Successful payments set `bookings.payment_status = 'paid'`, which fires the
+      existing `zoho_receipt_trigger` and queues receipt generation.
+*/
+
+-- Add payment_settings to tenants
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenants' AND column_name = 'payment_settings'
+  ) THEN
+    ALTER TABLE tenants ADD COLUMN payment_settings jsonb DEFAULT NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN tenants.payment_settings IS 'Online payment provider configuration: { enabled, provider, currency, api_key, secret_key, webhook_secret }';
+
+-- Extend payments table
+ALTER TABLE payments ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS redirect_url text;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS return_url text;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider_response jsonb;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now() NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'payments_status_check'
+  ) THEN
+    ALTER TABLE payments ADD CONSTRAINT payments_status_check
+      CHECK (status IS NULL OR status IN ('pending', 'succeeded', 'failed', 'cancelled', 'expired'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_txn
+  ON payments(provider, gateway_txn_id)
+  WHERE gateway_txn_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking_status ON payments(booking_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_payments_pending_expiry
+  ON payments(expires_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN payments.status IS 'Payment intent status: pending, succeeded, failed, cancelled, expired';
+COMMENT ON COLUMN payments.expires_at IS 'Pending intents past this time are expired and their booking released';
@@ -0,0 +1,74 @@
+/*
+  # Create Refunds Table
+
+  1. New Tables
+    - `refunds`
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `booking_id` (uuid, foreign key to bookings)
+      - `payment_id` (uuid, nullable, foreign key to payments) - Online payment refunded through its provider
+      - `amount` (decimal) - Refunded amount
+      - `currency` (text)
+      - `refund_type` (text) - full or partial
+      - `adult_tickets` / `child_tickets` (integer) - Tickets given back (releases capacity)
+      - `reason` (text)
+      - `method` (text) - provider (refunded through payment gateway) or manual (cash/bank)
+      - `status` (text) - pending, succeeded, failed
+      - `provider_refund_id` (text) - Gateway refund reference
+      - `zoho_credit_note_id` (text) - Credit note created in Zoho Invoice
+      - `issued_by_user_id` (uuid) - Staff member who issued the refund
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `bookings.refunded_amount` (decimal) - Running total of refunds for the booking
+
+  3. Notes
+    - Credit notes are generated asynchronously through `queue_jobs` (job_type = 'zoho_credit_note')
+*/
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  amount decimal(10, 2) NOT NULL CHECK (amount > 0),
+  currency text DEFAULT 'SAR' NOT NULL,
+  refund_type text NOT NULL CHECK (refund_type IN ('full', 'partial')),
+  adult_tickets integer DEFAULT 0 NOT NULL CHECK (adult_tickets >= 0),
+  child_tickets integer DEFAULT 0 NOT NULL CHECK (child_tickets >= 0),
+  reason text,
+  method text NOT NULL DEFAULT 'manual' CHECK (method IN ('provider', 'manual')),
+  status text NOT NULL DEFAULT 'succeeded' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  provider_refund_id text,
+  zoho_credit_note_id text,
+  issued_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_booking_id ON refunds(booking_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_tenant_created ON refunds(tenant_id, created_at DESC);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+-- Running refund total on bookings
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'refunded_amount'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN refunded_amount decimal(10, 2) DEFAULT 0 NOT NULL CHECK (refunded_amount >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN bookings.refunded_amount IS 'Total amount refunded for this booking (full and partial refunds)';
+COMMENT ON TABLE refunds IS 'Full and partial refunds issued against bookings; each refund queues a Zoho credit note';
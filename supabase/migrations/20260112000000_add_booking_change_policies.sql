@@ -0,0 +1,65 @@
+/*
+  # Add Booking Change Policies
+
+  1. Schema Changes
+    - `tenants.booking_policy` (jsonb) - Customer self-service cancellation/reschedule rules
+      - `allow_customer_cancellation` (boolean)
+      - `cancellation_cutoff_hours` (number) - Hours before slot start after which customers can no longer cancel
+      - `cancellation_fee_type` (text) - fixed or percent
+      - `cancellation_fee` (number) - Amount (fixed) or percentage of total_price (percent)
+      - `allow_customer_reschedule` (boolean)
+      - `reschedule_cutoff_hours` (number)
+      - `reschedule_fee` (number) - Fixed fee charged per reschedule
+      - `max_reschedules` (number) - Maximum reschedules per booking
+    - `bookings.reschedule_count` (integer) - Number of times the booking was moved to another slot
+    - `bookings.reschedule_fee_total` (decimal) - Accumulated reschedule fees owed by the customer
+    - `bookings.cancellation_fee` (decimal) - Fee retained when the customer cancelled
+    - `bookings.cancelled_by` (text) - customer or staff
+
+  2. Notes
+    - NULL booking_policy means the defaults in bookingPolicyService apply
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenants' AND column_name = 'booking_policy'
+  ) THEN
+    ALTER TABLE tenants ADD COLUMN booking_policy jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'reschedule_count'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN reschedule_count integer DEFAULT 0 NOT NULL CHECK (reschedule_count >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'reschedule_fee_total'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN reschedule_fee_total decimal(10, 2) DEFAULT 0 NOT NULL CHECK (reschedule_fee_total >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'cancellation_fee'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN cancellation_fee decimal(10, 2) CHECK (cancellation_fee >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'cancelled_by'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN cancelled_by text CHECK (cancelled_by IN ('customer', 'staff'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN tenants.booking_policy IS 'Customer self-service cancellation and reschedule policy: cutoffs, fees and max reschedules';
+COMMENT ON COLUMN bookings.reschedule_count IS 'Number of times the customer moved this booking to another slot';
+COMMENT ON COLUMN bookings.reschedule_fee_total IS 'Total reschedule fees owed for this booking';
+COMMENT ON COLUMN bookings.cancellation_fee IS 'Fee retained from the booking when it was cancelled by the customer';
+COMMENT ON COLUMN bookings.cancelled_by IS 'Who cancelled the booking: customer (self-service) or staff';
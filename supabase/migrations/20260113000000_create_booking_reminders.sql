@@ -0,0 +1,70 @@
+/*
+  # Create Booking Reminders
+
+  1. Schema Changes
+    - `tenants.reminder_settings` (jsonb) - Reminder configuration
+      - `enabled` (boolean)
+      - `offsets_hours` (number[]) - Hours before slot start to send reminders, e.g. [24, 2]
+      - `whatsapp` (boolean) - Send over WhatsApp (requires whatsapp_settings)
+      - `email` (boolean) - Send over email (requires smtp_settings)
+
+  2. New Tables
+    - `booking_reminders` - One row per reminder send (booking, slot, offset, channel)
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `booking_id` (uuid, foreign key to bookings)
+      - `slot_id` (uuid) - Slot the reminder was for (a rescheduled booking gets new reminders)
+      - `offset_hours` (numeric) - Offset the reminder was sent for
+      - `channel` (text) - whatsapp or email
+      - `status` (text) - sending, sent, failed
+      - `attempts` (integer)
+      - `error_message` (text)
+      - `sent_at` (timestamptz)
+
+  3. Notes
+    - The unique constraint is what prevents duplicate sends across restarts and server instances:
+      the reminder job claims a row with INSERT ... ON CONFLICT before sending.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenants' AND column_name = 'reminder_settings'
+  ) THEN
+    ALTER TABLE tenants ADD COLUMN reminder_settings jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS booking_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  slot_id uuid NOT NULL,
+  offset_hours numeric(6, 2) NOT NULL CHECK (offset_hours > 0),
+  channel text NOT NULL CHECK (channel IN ('whatsapp', 'email')),
+  status text NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+  attempts integer DEFAULT 1 NOT NULL,
+  error_message text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (booking_id, slot_id, offset_hours, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_tenant_created ON booking_reminders(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_retry ON booking_reminders(status, updated_at) WHERE status != 'sent';
+
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view booking reminders"
+  ON booking_reminders FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN tenants.reminder_settings IS 'Booking reminder configuration: enabled, offsets_hours, whatsapp, email';
+COMMENT ON TABLE booking_reminders IS 'Log of booking reminder sends; unique per booking, slot, offset and channel so reminders are never sent twice';
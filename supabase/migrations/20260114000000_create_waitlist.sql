@@ -0,0 +1,70 @@
+/*
+  # Create Waitlist
+
+  1. New Tables
+    - `waitlist_entries` - Customers waiting for a fully booked slot
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `service_id` (uuid, foreign key to services)
+      - `slot_id` (uuid, nullable) - Specific slot; NULL means any slot of the service on `slot_date`
+      - `slot_date` (date) - Date the customer wants
+      - `customer_id` (uuid, nullable) - Logged-in customer who joined
+      - `customer_name`, `customer_phone`, `customer_email` (text)
+      - `language` (text) - en or ar, used for offer messages
+      - `visitor_count` (integer) - Tickets wanted
+      - `status` (text) - waiting, offered, claimed, expired, cancelled
+      - `token` (text, unique) - Secret used in the customer's waitlist/claim link
+      - `offered_slot_id` (uuid) - Slot the current offer is for
+      - `lock_id` (uuid) - booking_locks row holding the offered capacity
+      - `offered_at`, `offer_expires_at` (timestamptz)
+      - `claimed_booking_id` (uuid) - Booking created from the offer
+
+  2. Notes
+    - Offers are backed by a booking_locks row whose reserved_by_session_id is 'waitlist_' || token,
+      so the spot is held for the customer until the offer expires.
+    - The waitlist job offers released capacity (cancellations, expired locks, capacity increases)
+      to the oldest waiting entry that fits.
+*/
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  slot_id uuid REFERENCES slots(id) ON DELETE CASCADE,
+  slot_date date NOT NULL,
+  customer_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  customer_phone text NOT NULL,
+  customer_email text,
+  language text DEFAULT 'en' NOT NULL CHECK (language IN ('en', 'ar')),
+  visitor_count integer DEFAULT 1 NOT NULL CHECK (visitor_count > 0),
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  token text NOT NULL UNIQUE,
+  offered_slot_id uuid REFERENCES slots(id) ON DELETE SET NULL,
+  lock_id uuid,
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  claimed_booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_slot_waiting ON waitlist_entries(slot_id, created_at) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_service_date_waiting ON waitlist_entries(service_id, slot_date, created_at) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_offer_expiry ON waitlist_entries(offer_expires_at) WHERE status = 'offered';
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_lock ON waitlist_entries(lock_id) WHERE lock_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_tenant_created ON waitlist_entries(tenant_id, created_at DESC);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view waitlist entries"
+  ON waitlist_entries FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE waitlist_entries IS 'Customers waiting for a fully booked slot (or any slot of a service on a date); released capacity is offered in join order';
+COMMENT ON COLUMN waitlist_entries.token IS 'Secret for the customer waitlist link; offers are held by a booking lock with session waitlist_<token>';
@@ -0,0 +1,76 @@
+/*
+  # Create Booking Series (Recurring Bookings)
+
+  1. New Tables
+    - `booking_series` - A recurring booking: the same service booked on a repeating schedule
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `service_id` (uuid, foreign key to services)
+      - `customer_id` (uuid, nullable) - Customer account the occurrences belong to
+      - `customer_name`, `customer_phone`, `customer_email` (text)
+      - `recurrence_rule` (jsonb) - frequency (weekly/biweekly), weekdays, count or until
+      - `start_date` (date), `start_time` (time) - First occurrence date and time of day
+      - `occurrence_count` (integer) - Number of occurrences booked
+      - `created_by_user_id` (uuid) - Staff member who booked the series
+
+  2. Schema Changes
+    - `bookings.series_id` (uuid) - Series the booking is an occurrence of
+    - `bookings.series_index` (integer) - 1-based position of the occurrence in the series
+
+  3. Notes
+    - Every occurrence is a normal booking; capacity and package triggers apply per occurrence.
+    - Cancelling "the remainder" cancels the chosen occurrence and all later ones.
+*/
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  customer_phone text NOT NULL,
+  customer_email text,
+  recurrence_rule jsonb NOT NULL,
+  start_date date NOT NULL,
+  start_time time NOT NULL,
+  occurrence_count integer NOT NULL CHECK (occurrence_count > 0),
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_tenant_created ON booking_series(tenant_id, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'series_id'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN series_id uuid REFERENCES booking_series(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'series_index'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN series_index integer CHECK (series_index > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series ON bookings(series_id, series_index) WHERE series_id IS NOT NULL;
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view booking series"
+  ON booking_series FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE booking_series IS 'Recurring bookings: one row per series, each occurrence is a booking with series_id set';
+COMMENT ON COLUMN booking_series.recurrence_rule IS 'Recurrence rule: frequency (weekly/biweekly), weekdays (0=Sunday..6), count or until';
+COMMENT ON COLUMN bookings.series_id IS 'Recurring booking series this booking belongs to';
+COMMENT ON COLUMN bookings.series_index IS '1-based position of this occurrence within its series';
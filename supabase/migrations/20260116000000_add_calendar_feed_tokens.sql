@@ -0,0 +1,24 @@
+/*
+  # Add Calendar Feed Tokens
+
+  1. Schema Changes
+    - `users.calendar_feed_token` (text, unique) - Secret token in the user's ICS feed URL
+      - Employees subscribe to the bookings assigned to them
+      - Customers subscribe to their own bookings
+
+  2. Notes
+    - The token is generated on first request and can be regenerated to revoke old subscription URLs.
+    - Feed URLs are unauthenticated (calendar apps cannot send auth headers), so the token is the only secret.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'calendar_feed_token'
+  ) THEN
+    ALTER TABLE users ADD COLUMN calendar_feed_token text UNIQUE;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN users.calendar_feed_token IS 'Secret token for the user''s subscribable ICS calendar feed of bookings';
@@ -0,0 +1,44 @@
+/*
+  # Create Booking Ticket Check-ins
+
+  1. New Tables
+    - `booking_ticket_checkins` - One row per ticket (visitor) admitted with a QR scan
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `booking_id` (uuid, foreign key to bookings)
+      - `ticket_number` (integer) - 1-based ticket number within the booking (adults first, then children)
+      - `ticket_type` (text) - adult or child
+      - `checked_in_at` (timestamptz)
+      - `checked_in_by_user_id` (uuid) - Staff member who scanned the ticket
+
+  2. Notes
+    - Each ticket PDF page carries its own server-signed QR token, so every visitor is scanned separately.
+    - The booking is marked checked in (qr_scanned, status checked_in) once all of its tickets are scanned.
+*/
+
+CREATE TABLE IF NOT EXISTS booking_ticket_checkins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  ticket_number integer NOT NULL CHECK (ticket_number > 0),
+  ticket_type text NOT NULL CHECK (ticket_type IN ('adult', 'child')),
+  checked_in_at timestamptz DEFAULT now() NOT NULL,
+  checked_in_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE (booking_id, ticket_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_ticket_checkins_tenant ON booking_ticket_checkins(tenant_id, checked_in_at DESC);
+
+ALTER TABLE booking_ticket_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view ticket check-ins"
+  ON booking_ticket_checkins FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE booking_ticket_checkins IS 'Per-ticket (per-visitor) QR check-ins for bookings';
+COMMENT ON COLUMN booking_ticket_checkins.ticket_number IS '1-based ticket number within the booking, matching the number printed on the ticket';
@@ -0,0 +1,39 @@
+/*
+  # Add Admitted Count to Bookings
+
+  1. Changes
+    - `bookings.admitted_count` (integer) - Tickets (visitors) admitted so far, out of `visitor_count`
+
+  2. Notes
+    - Incremented on every ticket check-in (booking_ticket_checkins), so reception can show
+      "2 of 5 admitted" for groups that arrive separately.
+    - The booking only becomes `checked_in` once admitted_count reaches visitor_count.
+    - Existing rows are backfilled from booking_ticket_checkins; bookings checked in before per-ticket
+      check-in existed count as fully admitted.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'admitted_count'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN admitted_count integer DEFAULT 0 NOT NULL CHECK (admitted_count >= 0);
+  END IF;
+END $$;
+
+UPDATE bookings b
+SET admitted_count = c.admitted
+FROM (
+  SELECT booking_id, COUNT(*)::integer AS admitted
+  FROM booking_ticket_checkins
+  GROUP BY booking_id
+) c
+WHERE c.booking_id = b.id;
+
+UPDATE bookings
+SET admitted_count = visitor_count
+WHERE admitted_count = 0
+  AND (qr_scanned = true OR status = 'checked_in');
+
+COMMENT ON COLUMN bookings.admitted_count IS 'Tickets admitted at the door so far (out of visitor_count)';
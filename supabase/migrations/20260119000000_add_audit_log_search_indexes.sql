@@ -0,0 +1,19 @@
+/*
+  # Audit Log Search Indexes
+
+  1. Changes
+    - Index on `audit_logs (tenant_id, created_at DESC)` - a tenant's history, newest first
+    - Index on `audit_logs (tenant_id, user_id, created_at DESC)` - history filtered by user
+
+  2. Notes
+    - audit_logs is now written by the API for every state-changing operation (bookings, settings,
+      employees and the generic data endpoints) and searched from the tenant admin's activity log page.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_tenant_created_at
+  ON audit_logs(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_tenant_user_created_at
+  ON audit_logs(tenant_id, user_id, created_at DESC);
+
+COMMENT ON TABLE audit_logs IS 'History of state-changing operations per tenant: who changed what, old/new values, IP and user agent';
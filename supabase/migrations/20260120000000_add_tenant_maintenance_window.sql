@@ -0,0 +1,49 @@
+/*
+  # Scheduled Maintenance Window and Arabic Maintenance Message
+
+  1. Changes
+    - `tenants.maintenance_starts_at` (timestamptz) - Maintenance begins at this time (optional)
+    - `tenants.maintenance_ends_at` (timestamptz) - Maintenance ends at this time (optional)
+    - `tenants.maintenance_message_ar` (text) - Arabic version of `maintenance_message`
+
+  2. Notes
+    - A tenant is in maintenance while `maintenance_mode` is on and the current time falls inside
+      the window; a missing start or end leaves that side open.
+    - The API enforces maintenance and deactivation for public booking, lock, review and guest OTP
+      requests; tenant staff can keep working during maintenance.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenants' AND column_name = 'maintenance_starts_at'
+  ) THEN
+    ALTER TABLE tenants ADD COLUMN maintenance_starts_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenants' AND column_name = 'maintenance_ends_at'
+  ) THEN
+    ALTER TABLE tenants ADD COLUMN maintenance_ends_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenants' AND column_name = 'maintenance_message_ar'
+  ) THEN
+    ALTER TABLE tenants ADD COLUMN maintenance_message_ar text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'tenants_maintenance_window_check'
+  ) THEN
+    ALTER TABLE tenants ADD CONSTRAINT tenants_maintenance_window_check
+      CHECK (maintenance_starts_at IS NULL OR maintenance_ends_at IS NULL OR maintenance_ends_at > maintenance_starts_at);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN tenants.maintenance_starts_at IS 'Start of the scheduled maintenance window (NULL = as soon as maintenance_mode is on)';
+COMMENT ON COLUMN tenants.maintenance_ends_at IS 'End of the scheduled maintenance window (NULL = until maintenance_mode is turned off)';
+COMMENT ON COLUMN tenants.maintenance_message_ar IS 'Arabic maintenance message shown to customers';
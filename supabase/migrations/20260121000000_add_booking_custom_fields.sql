@@ -0,0 +1,36 @@
+/*
+  # Custom Booking Form Fields
+
+  1. Changes
+    - `services.booking_fields` (jsonb) - Questions the customer answers when booking this service
+    - `bookings.custom_fields` (jsonb) - The answers given for the booking
+
+  2. Notes
+    - A field definition is `{ id, type, label, label_ar, required, options }` where `type` is one of
+      text, number, select, checkbox, date or file, and `options` (`{ value, label, label_ar }`) is
+      only used by select fields.
+    - Answers are stored with a copy of the field's type and labels, so bookings keep showing the
+      question as it was asked even after the service's form is edited.
+    - File answers hold `{ filename, mime_type, size, data_url }`.
+    - The API validates answers against the service's fields in POST /api/bookings/create.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'services' AND column_name = 'booking_fields'
+  ) THEN
+    ALTER TABLE services ADD COLUMN booking_fields jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'custom_fields'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN custom_fields jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN services.booking_fields IS 'Custom booking form fields: [{ id, type, label, label_ar, required, options }]';
+COMMENT ON COLUMN bookings.custom_fields IS 'Answers to the service booking form fields: [{ id, type, label, label_ar, value }]';
@@ -0,0 +1,118 @@
+/*
+  # Create Promo Codes
+
+  1. New Tables
+    - `promo_codes` - Discount codes customers enter at checkout
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `code` (text) - Code the customer types; unique per tenant, case-insensitive
+      - `description` (text) - Internal note
+      - `discount_type` (text) - percentage or fixed
+      - `discount_value` (numeric) - Percent (0-100] or amount in the tenant currency
+      - `service_id` (uuid, nullable) - Only valid for this service; NULL means every service
+      - `valid_from`, `valid_until` (timestamptz, nullable) - Validity window; a missing side is open
+      - `max_uses` (integer, nullable) - Total redemptions allowed
+      - `max_uses_per_customer` (integer, nullable) - Redemptions allowed per customer
+      - `min_spend` (numeric, nullable) - Minimum booking subtotal for the code to apply
+      - `is_active` (boolean)
+    - `promo_code_redemptions` - One row per booking a code was applied to
+      - `promo_code_id`, `booking_id`, `tenant_id` (uuid)
+      - `customer_id` (uuid, nullable), `customer_phone` (text) - Who redeemed it
+      - `discount_amount` (numeric) - Discount given on that booking
+
+  2. Changes
+    - `bookings.promo_code_id` (uuid) - Code applied to the booking
+    - `bookings.promo_code` (text) - The code as entered, for tickets and invoices
+    - `bookings.discount_amount` (numeric) - Discount taken off the booking subtotal
+
+  3. Notes
+    - Codes are applied by POST /api/bookings/create, which computes the discount itself;
+      `bookings.total_price` is the price after the discount.
+    - Usage limits count redemptions of bookings that were not cancelled.
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code <> ''),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric(10, 2) NOT NULL CHECK (discount_value > 0),
+  service_id uuid REFERENCES services(id) ON DELETE CASCADE,
+  valid_from timestamptz,
+  valid_until timestamptz,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  max_uses_per_customer integer CHECK (max_uses_per_customer IS NULL OR max_uses_per_customer > 0),
+  min_spend numeric(10, 2) CHECK (min_spend IS NULL OR min_spend >= 0),
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT promo_codes_percentage_check CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CONSTRAINT promo_codes_validity_check CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_until > valid_from)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_tenant_code ON promo_codes(tenant_id, upper(code));
+
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  promo_code_id uuid NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  customer_phone text,
+  discount_amount numeric(10, 2) NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code ON promo_code_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_customer ON promo_code_redemptions(promo_code_id, customer_phone);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_redemptions_booking ON promo_code_redemptions(booking_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'promo_code_id'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'promo_code'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN promo_code text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'discount_amount'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN discount_amount numeric(10, 2) DEFAULT 0 NOT NULL;
+  END IF;
+END $$;
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view promo codes"
+  ON promo_codes FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Tenant staff can view promo code redemptions"
+  ON promo_code_redemptions FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE promo_codes IS 'Tenant discount codes (percentage or fixed) applied to bookings at checkout';
+COMMENT ON TABLE promo_code_redemptions IS 'Bookings a promo code was applied to; used for global and per-customer usage limits';
+COMMENT ON COLUMN bookings.discount_amount IS 'Promo code discount taken off the booking subtotal; total_price is after the discount';
@@ -0,0 +1,156 @@
+/*
+  # Create Gift Cards and Customer Wallet
+
+  1. New Tables
+    - `gift_cards` - Monetary gift cards with a unique redeemable code
+      - `id` (uuid, primary key)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `code` (text) - Code printed on the card; unique across all tenants
+      - `initial_amount` (numeric) - Value the card was sold for
+      - `balance` (numeric) - Value not yet redeemed
+      - `status` (text) - pending_payment, active, redeemed, expired or cancelled
+      - `expires_at` (timestamptz, nullable) - The card cannot be redeemed after this
+      - `purchaser_name`, `purchaser_phone`, `purchaser_email` (text) - Who bought it
+      - `recipient_name`, `recipient_phone`, `recipient_email` (text) - Who the card is delivered to
+      - `message` (text) - Personal message printed on the card
+      - `language` (text) - Language of the card PDF and delivery messages
+      - `purchased_by_user_id` (uuid, nullable) - Customer account that bought it online
+      - `issued_by_user_id` (uuid, nullable) - Staff member who sold it at the desk
+      - `redeemed_by_customer_id` (uuid, nullable), `redeemed_at` - Wallet the balance went to
+      - `delivered_at` (timestamptz, nullable) - Last time the PDF was sent
+    - `wallet_transactions` - Ledger of every credit and debit of a customer wallet
+      - `customer_id` (uuid, foreign key to customers), `tenant_id` (uuid)
+      - `type` (text) - credit or debit
+      - `amount` (numeric) - Always positive
+      - `balance_after` (numeric) - Wallet balance after the transaction
+      - `source` (text) - gift_card, refund, booking or adjustment
+      - `booking_id`, `gift_card_id`, `refund_id` (uuid, nullable) - What the transaction came from
+      - `note` (text), `created_by_user_id` (uuid, nullable)
+
+  2. Changes
+    - `customers.wallet_balance` (numeric) - Stored credit the customer can spend on bookings
+    - `bookings.wallet_amount` (numeric) - Part of total_price paid from the wallet
+    - `payments.booking_id` is nullable and `payments.gift_card_id` links gift card purchases;
+      every payment is for a booking or a gift card
+    - `refunds.method` accepts 'wallet' (refund credited to the customer wallet)
+
+  3. Notes
+    - Redeeming a gift card moves its balance into the wallet of the customer with the given phone.
+    - The wallet balance only changes together with a `wallet_transactions` row (walletService).
+*/
+
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE CHECK (code <> ''),
+  initial_amount numeric(10, 2) NOT NULL CHECK (initial_amount > 0),
+  balance numeric(10, 2) NOT NULL CHECK (balance >= 0),
+  status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('pending_payment', 'active', 'redeemed', 'expired', 'cancelled')),
+  expires_at timestamptz,
+  purchaser_name text,
+  purchaser_phone text,
+  purchaser_email text,
+  recipient_name text,
+  recipient_phone text,
+  recipient_email text,
+  message text,
+  language text DEFAULT 'en' NOT NULL CHECK (language IN ('en', 'ar')),
+  purchased_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  issued_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  redeemed_by_customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  redeemed_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT gift_cards_balance_check CHECK (balance <= initial_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_tenant_created ON gift_cards(tenant_id, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'wallet_balance'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN wallet_balance numeric(10, 2) DEFAULT 0 NOT NULL CHECK (wallet_balance >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'wallet_amount'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN wallet_amount numeric(10, 2) DEFAULT 0 NOT NULL CHECK (wallet_amount >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payments' AND column_name = 'gift_card_id'
+  ) THEN
+    ALTER TABLE payments ADD COLUMN gift_card_id uuid REFERENCES gift_cards(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('credit', 'debit')),
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  balance_after numeric(10, 2) NOT NULL CHECK (balance_after >= 0),
+  source text NOT NULL CHECK (source IN ('gift_card', 'refund', 'booking', 'adjustment')),
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  gift_card_id uuid REFERENCES gift_cards(id) ON DELETE SET NULL,
+  refund_id uuid REFERENCES refunds(id) ON DELETE SET NULL,
+  note text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_customer ON wallet_transactions(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_booking ON wallet_transactions(booking_id);
+
+-- Gift card purchases are paid through the same payment intents as bookings
+ALTER TABLE payments ALTER COLUMN booking_id DROP NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'payments_target_check'
+  ) THEN
+    ALTER TABLE payments ADD CONSTRAINT payments_target_check
+      CHECK (booking_id IS NOT NULL OR gift_card_id IS NOT NULL);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payments_gift_card ON payments(gift_card_id) WHERE gift_card_id IS NOT NULL;
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_method_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_method_check CHECK (method IN ('provider', 'manual', 'wallet'));
+
+ALTER TABLE gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view gift cards"
+  ON gift_cards FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Tenant staff can view wallet transactions"
+  ON wallet_transactions FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE gift_cards IS 'Monetary gift cards; redeeming one moves its balance into a customer wallet';
+COMMENT ON TABLE wallet_transactions IS 'Ledger of customer wallet credits and debits; balance_after is the wallet balance after each row';
+COMMENT ON COLUMN customers.wallet_balance IS 'Stored credit from gift cards and refunds, spendable on bookings';
+COMMENT ON COLUMN bookings.wallet_amount IS 'Part of total_price paid from the customer wallet';
@@ -0,0 +1,74 @@
+/*
+  # Online Package Purchases
+
+  1. Changes
+    - `package_subscriptions`
+      - `status` accepts 'pending_payment' (bought online, payment not confirmed yet)
+      - `source` (text) - reception or online
+      - `price` (numeric, nullable) - What the customer paid for the package
+      - `purchased_by_user_id` (uuid, nullable) - Customer account that bought it online
+      - `zoho_invoice_id` (text, nullable), `zoho_invoice_created_at` - Invoice for the purchase itself
+    - `payments.package_subscription_id` links package purchases;
+      every payment is for a booking, a gift card or a package subscription
+
+  2. Notes
+    - Usage rows are still created by the `initialize_subscription_usage` trigger on insert, but a
+      subscription only covers bookings once it is active.
+    - The Zoho invoice is queued as a `zoho_package_invoice` job when the payment succeeds.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'package_subscriptions' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE package_subscriptions ADD COLUMN source text NOT NULL DEFAULT 'reception'
+      CHECK (source IN ('reception', 'online'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'package_subscriptions' AND column_name = 'price'
+  ) THEN
+    ALTER TABLE package_subscriptions ADD COLUMN price numeric(10, 2) CHECK (price >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'package_subscriptions' AND column_name = 'purchased_by_user_id'
+  ) THEN
+    ALTER TABLE package_subscriptions ADD COLUMN purchased_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'package_subscriptions' AND column_name = 'zoho_invoice_id'
+  ) THEN
+    ALTER TABLE package_subscriptions ADD COLUMN zoho_invoice_id text;
+    ALTER TABLE package_subscriptions ADD COLUMN zoho_invoice_created_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payments' AND column_name = 'package_subscription_id'
+  ) THEN
+    ALTER TABLE payments ADD COLUMN package_subscription_id uuid REFERENCES package_subscriptions(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+ALTER TABLE package_subscriptions DROP CONSTRAINT IF EXISTS package_subscriptions_status_check;
+ALTER TABLE package_subscriptions ADD CONSTRAINT package_subscriptions_status_check
+  CHECK (status IN ('pending_payment', 'active', 'expired', 'cancelled'));
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_target_check;
+ALTER TABLE payments ADD CONSTRAINT payments_target_check
+  CHECK (booking_id IS NOT NULL OR gift_card_id IS NOT NULL OR package_subscription_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_payments_package_subscription
+  ON payments(package_subscription_id) WHERE package_subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN package_subscriptions.source IS 'Where the package was sold: reception or online';
+COMMENT ON COLUMN package_subscriptions.price IS 'Price paid for the package at purchase';
+COMMENT ON COLUMN package_subscriptions.zoho_invoice_id IS 'Zoho invoice issued for the package purchase';
+COMMENT ON COLUMN payments.package_subscription_id IS 'Package subscription this payment buys (online package purchases)';
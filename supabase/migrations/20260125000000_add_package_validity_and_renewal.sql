@@ -0,0 +1,69 @@
+/*
+  # Package Validity, Expiry and Renewal
+
+  1. Changes
+    - `service_packages.validity_days` (integer, nullable) - How long a subscription lasts; null = no expiry
+    - `package_subscriptions`
+      - `renewed_from_subscription_id` (uuid, nullable) - Subscription this one renews
+      - `expiry_warning_sent_at` (timestamptz, nullable) - When the customer was warned of the expiry
+
+  2. Behaviour
+    - New active subscriptions without an explicit `expires_at` get subscribed_at + validity_days.
+      Online purchases are pending_payment on insert; their expiry is set when the payment activates them.
+    - The package expiry job moves subscriptions past `expires_at` to 'expired' and warns customers beforehand.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_packages' AND column_name = 'validity_days'
+  ) THEN
+    ALTER TABLE service_packages ADD COLUMN validity_days integer CHECK (validity_days > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'package_subscriptions' AND column_name = 'renewed_from_subscription_id'
+  ) THEN
+    ALTER TABLE package_subscriptions ADD COLUMN renewed_from_subscription_id uuid
+      REFERENCES package_subscriptions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'package_subscriptions' AND column_name = 'expiry_warning_sent_at'
+  ) THEN
+    ALTER TABLE package_subscriptions ADD COLUMN expiry_warning_sent_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_package_subscriptions_expiry
+  ON package_subscriptions(expires_at) WHERE status = 'active' AND expires_at IS NOT NULL;
+
+-- Compute expires_at from the package validity when a subscription is created active without one
+CREATE OR REPLACE FUNCTION set_package_subscription_expiry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_validity_days integer;
+BEGIN
+  IF NEW.expires_at IS NULL AND NEW.status = 'active' THEN
+    SELECT validity_days INTO v_validity_days FROM service_packages WHERE id = NEW.package_id;
+    IF v_validity_days IS NOT NULL THEN
+      NEW.expires_at := COALESCE(NEW.subscribed_at, now()) + make_interval(days => v_validity_days);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_package_subscription_expiry ON package_subscriptions;
+CREATE TRIGGER set_package_subscription_expiry
+  BEFORE INSERT ON package_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_package_subscription_expiry();
+
+COMMENT ON COLUMN service_packages.validity_days IS 'Days a subscription to this package stays valid; null for no expiry';
+COMMENT ON COLUMN package_subscriptions.renewed_from_subscription_id IS 'Subscription this one renews (unused quantities may be carried over)';
+COMMENT ON COLUMN package_subscriptions.expiry_warning_sent_at IS 'When the customer was notified that the subscription expires soon';
@@ -0,0 +1,51 @@
+/*
+  # Employee Portal
+
+  1. Changes
+    - `bookings`
+      - `no_show_at` (timestamptz, nullable) - When staff marked the customer as not having shown up
+      - `no_show_marked_by` (uuid, nullable) - Who marked it
+    - New `booking_notes` table - Internal staff notes on a booking, never shown to the customer
+      - `booking_id`, `tenant_id`, `author_user_id`, `note`, `created_at`
+
+  2. Notes
+    - No-show is a marker rather than a `booking_status` value, so capacity and status triggers are
+      unaffected; the booking keeps its pending/confirmed status. Checking the customer in clears it.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'no_show_at'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN no_show_at timestamptz;
+    ALTER TABLE bookings ADD COLUMN no_show_marked_by uuid REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS booking_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE NOT NULL,
+  author_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  note text NOT NULL CHECK (note <> ''),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_notes_booking ON booking_notes(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_bookings_employee_id ON bookings(employee_id) WHERE employee_id IS NOT NULL;
+
+ALTER TABLE booking_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view booking notes"
+  ON booking_notes FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN bookings.no_show_at IS 'When staff marked the customer as a no-show; cleared on check-in';
+COMMENT ON TABLE booking_notes IS 'Internal staff notes on bookings (employee portal, reception)';
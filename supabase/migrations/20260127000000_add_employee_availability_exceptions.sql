@@ -0,0 +1,333 @@
+/*
+  # Employee Availability Exceptions
+
+  1. Changes
+    - New `employee_availability_exceptions` table - Times an employee cannot take bookings
+      - `kind`: `time_off` (whole days, start_date..end_date), `block` (start_time..end_time on each
+        day from start_date to end_date) or `break` (start_time..end_time on `days_of_week`, from
+        start_date until end_date, or indefinitely when end_date is null)
+      - `reason`, `created_by_user_id`, `created_at`
+    - `slots.blocked_by_exception_id` - The exception that closed an already generated slot, so the
+      slot can be reopened when the exception is removed
+    - New function `employee_is_unavailable(employee, date, start_time, end_time)`
+    - `generate_slots_for_shift` no longer creates slots that fall in an exception
+    - `check_employee_availability_for_booking` reports the employee as unavailable during an exception
+
+  2. Notes
+    - Dates and times are tenant local, like slots and shifts.
+*/
+
+CREATE TABLE IF NOT EXISTS employee_availability_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE NOT NULL,
+  employee_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('time_off', 'block', 'break')),
+  start_date date NOT NULL,
+  end_date date,
+  start_time time,
+  end_time time,
+  days_of_week integer[],
+  reason text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT employee_availability_exceptions_dates_check
+    CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT employee_availability_exceptions_times_check
+    CHECK (
+      (kind = 'time_off' AND start_time IS NULL AND end_time IS NULL)
+      OR (kind <> 'time_off' AND start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time)
+    ),
+  CONSTRAINT employee_availability_exceptions_recurrence_check
+    CHECK (kind = 'break' OR (end_date IS NOT NULL AND days_of_week IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_availability_exceptions_employee
+  ON employee_availability_exceptions(employee_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_employee_availability_exceptions_tenant
+  ON employee_availability_exceptions(tenant_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'slots' AND column_name = 'blocked_by_exception_id'
+  ) THEN
+    ALTER TABLE slots ADD COLUMN blocked_by_exception_id uuid
+      REFERENCES employee_availability_exceptions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_slots_blocked_by_exception
+  ON slots(blocked_by_exception_id) WHERE blocked_by_exception_id IS NOT NULL;
+
+ALTER TABLE employee_availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view employee availability exceptions"
+  ON employee_availability_exceptions FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid()
+    )
+  );
+
+-- True when the employee has an exception overlapping the given local date and time range
+CREATE OR REPLACE FUNCTION employee_is_unavailable(
+  p_employee_id uuid,
+  p_date date,
+  p_start_time time,
+  p_end_time time
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM employee_availability_exceptions e
+    WHERE e.employee_id = p_employee_id
+      AND p_date >= e.start_date
+      AND (e.end_date IS NULL OR p_date <= e.end_date)
+      AND (e.days_of_week IS NULL OR EXTRACT(DOW FROM p_date)::integer = ANY(e.days_of_week))
+      AND (e.start_time IS NULL OR (e.start_time < p_end_time AND p_start_time < e.end_time))
+  );
+$$;
+
+-- Function to check if employee is available for a booking
+CREATE OR REPLACE FUNCTION check_employee_availability_for_booking(
+  p_employee_id uuid,
+  p_slot_date date,
+  p_start_time time,
+  p_end_time time,
+  p_service_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_conflict_count integer;
+BEGIN
+  -- Time off, blocks and breaks
+  IF employee_is_unavailable(p_employee_id, p_slot_date, p_start_time, p_end_time) THEN
+    RETURN false;
+  END IF;
+
+  -- Check if employee has any confirmed bookings that overlap with this time
+  SELECT COUNT(*)
+  INTO v_conflict_count
+  FROM bookings b
+  JOIN slots s ON b.slot_id = s.id
+  WHERE b.employee_id = p_employee_id
+    AND b.status = 'confirmed'
+    AND s.slot_date = p_slot_date
+    AND (
+      -- Time overlap: start1 < end2 AND start2 < end1
+      (s.start_time < p_end_time AND p_start_time < s.end_time)
+    );
+
+  RETURN v_conflict_count = 0;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS generate_slots_for_shift(uuid, date, date);
+
+CREATE OR REPLACE FUNCTION generate_slots_for_shift(
+  p_shift_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tenant_id uuid;
+  v_service_id uuid;
+  v_start_time_utc time;
+  v_end_time_utc time;
+  v_days_of_week integer[];
+  v_service_duration_minutes integer;
+  v_service_capacity_per_slot integer;
+  v_employee_record record;
+  v_current_date date;
+  v_slot_start_minutes integer;
+  v_slot_end_minutes integer;
+  v_shift_start_minutes integer;
+  v_shift_end_minutes integer;
+  v_slots_generated integer := 0;
+  v_start_time time;
+  v_end_time time;
+  v_start_timestamp timestamptz;
+  v_end_timestamp timestamptz;
+  v_employees_count integer;
+  v_employee_duration integer;
+  v_employee_capacity integer;
+BEGIN
+  -- Get shift and service details
+  SELECT
+    sh.tenant_id,
+    sh.service_id,
+    sh.start_time_utc,
+    sh.end_time_utc,
+    sh.days_of_week,
+    srv.service_duration_minutes,
+    COALESCE(srv.service_capacity_per_slot, 1) as service_capacity_per_slot
+  INTO
+    v_tenant_id,
+    v_service_id,
+    v_start_time_utc,
+    v_end_time_utc,
+    v_days_of_week,
+    v_service_duration_minutes,
+    v_service_capacity_per_slot
+  FROM shifts sh
+  JOIN services srv ON sh.service_id = srv.id
+  WHERE sh.id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  -- Delete existing slots for this shift in the date range
+  DELETE FROM slots
+  WHERE shift_id = p_shift_id
+    AND slot_date >= p_start_date
+    AND slot_date <= p_end_date;
+
+  -- Calculate shift time in minutes
+  v_shift_start_minutes := EXTRACT(HOUR FROM v_start_time_utc) * 60 +
+                           EXTRACT(MINUTE FROM v_start_time_utc);
+  v_shift_end_minutes := EXTRACT(HOUR FROM v_end_time_utc) * 60 +
+                         EXTRACT(MINUTE FROM v_end_time_utc);
+
+  -- Check if there are employees explicitly assigned to this shift
+  SELECT COUNT(*) INTO v_employees_count
+  FROM employee_services
+  WHERE shift_id = p_shift_id;
+
+  -- Loop through each date in range
+  v_current_date := p_start_date;
+  WHILE v_current_date <= p_end_date LOOP
+    -- Check if this day of week is in shift's days_of_week
+    IF EXTRACT(DOW FROM v_current_date)::integer = ANY(v_days_of_week) THEN
+
+      -- Loop through employees with their specific duration and capacity settings
+      FOR v_employee_record IN
+        (
+          -- Priority 1: Employees explicitly assigned to this shift with their settings
+          SELECT DISTINCT
+            es.employee_id,
+            COALESCE(es.duration_minutes, v_service_duration_minutes) as duration_minutes,
+            COALESCE(es.capacity_per_slot, v_service_capacity_per_slot) as capacity_per_slot
+          FROM employee_services es
+          WHERE es.shift_id = p_shift_id
+
+          UNION
+
+          -- Priority 2: Employees assigned to service (without shift) with their settings
+          SELECT DISTINCT
+            es.employee_id,
+            COALESCE(es.duration_minutes, v_service_duration_minutes) as duration_minutes,
+            COALESCE(es.capacity_per_slot, v_service_capacity_per_slot) as capacity_per_slot
+          FROM employee_services es
+          WHERE es.service_id = v_service_id
+            AND es.shift_id IS NULL
+            AND v_employees_count = 0
+
+          UNION
+
+          -- Priority 3: All active employees for tenant (fallback to service settings)
+          SELECT DISTINCT
+            u.id as employee_id,
+            v_service_duration_minutes as duration_minutes,
+            v_service_capacity_per_slot as capacity_per_slot
+          FROM users u
+          WHERE u.tenant_id = v_tenant_id
+            AND u.role = 'employee'
+            AND u.is_active = true
+            AND v_employees_count = 0
+            AND NOT EXISTS (
+              SELECT 1 FROM employee_services WHERE service_id = v_service_id
+            )
+        )
+      LOOP
+
+        -- Use employee-specific duration and capacity
+        v_employee_duration := v_employee_record.duration_minutes;
+        v_employee_capacity := v_employee_record.capacity_per_slot;
+
+        -- Generate slots for this employee on this date
+        v_slot_start_minutes := v_shift_start_minutes;
+
+        WHILE v_slot_start_minutes + v_employee_duration <= v_shift_end_minutes LOOP
+          v_slot_end_minutes := v_slot_start_minutes + v_employee_duration;
+
+          -- Convert minutes to time
+          v_start_time := make_time(
+            v_slot_start_minutes / 60,
+            v_slot_start_minutes % 60,
+            0
+          );
+          v_end_time := make_time(
+            v_slot_end_minutes / 60,
+            v_slot_end_minutes % 60,
+            0
+          );
+
+          -- Skip slots during the employee's time off, blocks and breaks
+          IF NOT employee_is_unavailable(v_employee_record.employee_id, v_current_date, v_start_time, v_end_time) THEN
+            -- Create timestamps
+            v_start_timestamp := v_current_date + v_start_time;
+            v_end_timestamp := v_current_date + v_end_time;
+
+            -- Insert slot with employee-specific capacity
+            INSERT INTO slots (
+              tenant_id,
+              shift_id,
+              employee_id,
+              slot_date,
+              start_time,
+              end_time,
+              start_time_utc,
+              end_time_utc,
+              available_capacity,
+              original_capacity,
+              booked_count,
+              is_available
+            ) VALUES (
+              v_tenant_id,
+              p_shift_id,
+              v_employee_record.employee_id,
+              v_current_date,
+              v_start_time,
+              v_end_time,
+              v_start_timestamp,
+              v_end_timestamp,
+              v_employee_capacity,
+              v_employee_capacity,
+              0,
+              true
+            );
+
+            v_slots_generated := v_slots_generated + 1;
+          END IF;
+
+          v_slot_start_minutes := v_slot_start_minutes + v_employee_duration;
+        END LOOP;
+
+      END LOOP;
+
+    END IF;
+
+    v_current_date := v_current_date + 1;
+  END LOOP;
+
+  RETURN v_slots_generated;
+END;
+$$;
+
+COMMENT ON TABLE employee_availability_exceptions IS 'Employee time off, partial-day blocks and recurring breaks (tenant local dates and times)';
+COMMENT ON COLUMN slots.blocked_by_exception_id IS 'Availability exception that closed this slot; reopened when the exception is removed';
+COMMENT ON FUNCTION employee_is_unavailable IS 'Checks whether an employee has time off, a block or a break overlapping a local date and time range';
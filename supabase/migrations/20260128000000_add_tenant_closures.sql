@@ -0,0 +1,363 @@
+/*
+  # Tenant Closures
+
+  1. Changes
+    - New `tenant_closures` table - Dates the business is closed (public holidays, Eid, National Day)
+      - `name`, `name_ar`
+      - `start_date`, `end_date` - A single date or a range
+      - `start_time`, `end_time` - Set for a partial-day closure, null when closed all day
+      - `recurs_yearly` - Repeats on the same dates every year
+    - `slots.closed_by_closure_id` - The closure that closed an already generated slot, so the slot
+      can be reopened when the closure is removed
+    - `bookings.closure_notified_at` - When the customer was told their booking falls on a closure
+    - New functions `closure_applies_on`, `tenant_is_closed` and `refresh_closed_slots`
+    - `generate_slots_for_shift` no longer creates slots during a closure
+
+  2. Notes
+    - Dates and times are tenant local, like slots and shifts.
+    - A yearly closure spans less than a year; a range crossing New Year (Dec 30 - Jan 2) still repeats.
+*/
+
+CREATE TABLE IF NOT EXISTS tenant_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (name <> ''),
+  name_ar text,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  start_time time,
+  end_time time,
+  recurs_yearly boolean DEFAULT false NOT NULL,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT tenant_closures_dates_check
+    CHECK (end_date >= start_date AND (NOT recurs_yearly OR end_date < start_date + interval '1 year')),
+  CONSTRAINT tenant_closures_times_check
+    CHECK (
+      (start_time IS NULL AND end_time IS NULL)
+      OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_closures_tenant ON tenant_closures(tenant_id, start_date);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'slots' AND column_name = 'closed_by_closure_id'
+  ) THEN
+    ALTER TABLE slots ADD COLUMN closed_by_closure_id uuid
+      REFERENCES tenant_closures(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'closure_notified_at'
+  ) THEN
+    ALTER TABLE bookings ADD COLUMN closure_notified_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_slots_closed_by_closure
+  ON slots(closed_by_closure_id) WHERE closed_by_closure_id IS NOT NULL;
+
+ALTER TABLE tenant_closures ENABLE ROW LEVEL SECURITY;
+
+-- Customers see closures on the booking page, so they are readable by anyone
+CREATE POLICY "Anyone can view tenant closures"
+  ON tenant_closures FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Whether a closure from p_start_date to p_end_date (repeating every year when p_recurs_yearly)
+-- covers p_date
+CREATE OR REPLACE FUNCTION closure_applies_on(
+  p_start_date date,
+  p_end_date date,
+  p_recurs_yearly boolean,
+  p_date date
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_date BETWEEN p_start_date AND p_end_date
+    OR (
+      p_recurs_yearly
+      AND EXISTS (
+        SELECT 1
+        FROM unnest(ARRAY[
+          EXTRACT(YEAR FROM p_date)::integer - EXTRACT(YEAR FROM p_start_date)::integer,
+          EXTRACT(YEAR FROM p_date)::integer - EXTRACT(YEAR FROM p_start_date)::integer - 1
+        ]) AS k(years_back)
+        WHERE k.years_back > 0
+          AND (p_date - make_interval(years => k.years_back))::date BETWEEN p_start_date AND p_end_date
+      )
+    );
+$$;
+
+-- True when the tenant is closed at any point of the given local date and time range
+CREATE OR REPLACE FUNCTION tenant_is_closed(
+  p_tenant_id uuid,
+  p_date date,
+  p_start_time time,
+  p_end_time time
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM tenant_closures c
+    WHERE c.tenant_id = p_tenant_id
+      AND closure_applies_on(c.start_date, c.end_date, c.recurs_yearly, p_date)
+      AND (c.start_time IS NULL OR (c.start_time < p_end_time AND p_start_time < c.end_time))
+  );
+$$;
+
+-- Re-check slots closed by a closure or an employee exception after one was removed: point them at
+-- another closure or exception that still covers them, and reopen the ones nothing covers.
+-- Returns the number of slots reopened.
+CREATE OR REPLACE FUNCTION refresh_closed_slots(p_slot_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reopened integer;
+BEGIN
+  UPDATE slots sl
+  SET closed_by_closure_id = (
+        SELECT c.id FROM tenant_closures c
+        WHERE c.tenant_id = sl.tenant_id
+          AND closure_applies_on(c.start_date, c.end_date, c.recurs_yearly, sl.slot_date)
+          AND (c.start_time IS NULL OR (c.start_time < sl.end_time AND sl.start_time < c.end_time))
+        LIMIT 1
+      ),
+      blocked_by_exception_id = (
+        SELECT e.id FROM employee_availability_exceptions e
+        WHERE e.employee_id = sl.employee_id
+          AND sl.slot_date >= e.start_date
+          AND (e.end_date IS NULL OR sl.slot_date <= e.end_date)
+          AND (e.days_of_week IS NULL OR EXTRACT(DOW FROM sl.slot_date)::integer = ANY(e.days_of_week))
+          AND (e.start_time IS NULL OR (e.start_time < sl.end_time AND sl.start_time < e.end_time))
+        LIMIT 1
+      )
+  WHERE sl.id = ANY(p_slot_ids);
+
+  UPDATE slots
+  SET is_available = true
+  WHERE id = ANY(p_slot_ids)
+    AND closed_by_closure_id IS NULL
+    AND blocked_by_exception_id IS NULL;
+
+  GET DIAGNOSTICS v_reopened = ROW_COUNT;
+  RETURN v_reopened;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS generate_slots_for_shift(uuid, date, date);
+
+CREATE OR REPLACE FUNCTION generate_slots_for_shift(
+  p_shift_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tenant_id uuid;
+  v_service_id uuid;
+  v_start_time_utc time;
+  v_end_time_utc time;
+  v_days_of_week integer[];
+  v_service_duration_minutes integer;
+  v_service_capacity_per_slot integer;
+  v_employee_record record;
+  v_current_date date;
+  v_slot_start_minutes integer;
+  v_slot_end_minutes integer;
+  v_shift_start_minutes integer;
+  v_shift_end_minutes integer;
+  v_slots_generated integer := 0;
+  v_start_time time;
+  v_end_time time;
+  v_start_timestamp timestamptz;
+  v_end_timestamp timestamptz;
+  v_employees_count integer;
+  v_employee_duration integer;
+  v_employee_capacity integer;
+BEGIN
+  -- Get shift and service details
+  SELECT
+    sh.tenant_id,
+    sh.service_id,
+    sh.start_time_utc,
+    sh.end_time_utc,
+    sh.days_of_week,
+    srv.service_duration_minutes,
+    COALESCE(srv.service_capacity_per_slot, 1) as service_capacity_per_slot
+  INTO
+    v_tenant_id,
+    v_service_id,
+    v_start_time_utc,
+    v_end_time_utc,
+    v_days_of_week,
+    v_service_duration_minutes,
+    v_service_capacity_per_slot
+  FROM shifts sh
+  JOIN services srv ON sh.service_id = srv.id
+  WHERE sh.id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  -- Delete existing slots for this shift in the date range
+  DELETE FROM slots
+  WHERE shift_id = p_shift_id
+    AND slot_date >= p_start_date
+    AND slot_date <= p_end_date;
+
+  -- Calculate shift time in minutes
+  v_shift_start_minutes := EXTRACT(HOUR FROM v_start_time_utc) * 60 +
+                           EXTRACT(MINUTE FROM v_start_time_utc);
+  v_shift_end_minutes := EXTRACT(HOUR FROM v_end_time_utc) * 60 +
+                         EXTRACT(MINUTE FROM v_end_time_utc);
+
+  -- Check if there are employees explicitly assigned to this shift
+  SELECT COUNT(*) INTO v_employees_count
+  FROM employee_services
+  WHERE shift_id = p_shift_id;
+
+  -- Loop through each date in range
+  v_current_date := p_start_date;
+  WHILE v_current_date <= p_end_date LOOP
+    -- Check if this day of week is in shift's days_of_week
+    IF EXTRACT(DOW FROM v_current_date)::integer = ANY(v_days_of_week) THEN
+
+      -- Loop through employees with their specific duration and capacity settings
+      FOR v_employee_record IN
+        (
+          -- Priority 1: Employees explicitly assigned to this shift with their settings
+          SELECT DISTINCT
+            es.employee_id,
+            COALESCE(es.duration_minutes, v_service_duration_minutes) as duration_minutes,
+            COALESCE(es.capacity_per_slot, v_service_capacity_per_slot) as capacity_per_slot
+          FROM employee_services es
+          WHERE es.shift_id = p_shift_id
+
+          UNION
+
+          -- Priority 2: Employees assigned to service (without shift) with their settings
+          SELECT DISTINCT
+            es.employee_id,
+            COALESCE(es.duration_minutes, v_service_duration_minutes) as duration_minutes,
+            COALESCE(es.capacity_per_slot, v_service_capacity_per_slot) as capacity_per_slot
+          FROM employee_services es
+          WHERE es.service_id = v_service_id
+            AND es.shift_id IS NULL
+            AND v_employees_count = 0
+
+          UNION
+
+          -- Priority 3: All active employees for tenant (fallback to service settings)
+          SELECT DISTINCT
+            u.id as employee_id,
+            v_service_duration_minutes as duration_minutes,
+            v_service_capacity_per_slot as capacity_per_slot
+          FROM users u
+          WHERE u.tenant_id = v_tenant_id
+            AND u.role = 'employee'
+            AND u.is_active = true
+            AND v_employees_count = 0
+            AND NOT EXISTS (
+              SELECT 1 FROM employee_services WHERE service_id = v_service_id
+            )
+        )
+      LOOP
+
+        -- Use employee-specific duration and capacity
+        v_employee_duration := v_employee_record.duration_minutes;
+        v_employee_capacity := v_employee_record.capacity_per_slot;
+
+        -- Generate slots for this employee on this date
+        v_slot_start_minutes := v_shift_start_minutes;
+
+        WHILE v_slot_start_minutes + v_employee_duration <= v_shift_end_minutes LOOP
+          v_slot_end_minutes := v_slot_start_minutes + v_employee_duration;
+
+          -- Convert minutes to time
+          v_start_time := make_time(
+            v_slot_start_minutes / 60,
+            v_slot_start_minutes % 60,
+            0
+          );
+          v_end_time := make_time(
+            v_slot_end_minutes / 60,
+            v_slot_end_minutes % 60,
+            0
+          );
+
+          -- Skip slots during tenant closures and the employee's time off, blocks and breaks
+          IF NOT tenant_is_closed(v_tenant_id, v_current_date, v_start_time, v_end_time)
+             AND NOT employee_is_unavailable(v_employee_record.employee_id, v_current_date, v_start_time, v_end_time) THEN
+            -- Create timestamps
+            v_start_timestamp := v_current_date + v_start_time;
+            v_end_timestamp := v_current_date + v_end_time;
+
+            -- Insert slot with employee-specific capacity
+            INSERT INTO slots (
+              tenant_id,
+              shift_id,
+              employee_id,
+              slot_date,
+              start_time,
+              end_time,
+              start_time_utc,
+              end_time_utc,
+              available_capacity,
+              original_capacity,
+              booked_count,
+              is_available
+            ) VALUES (
+              v_tenant_id,
+              p_shift_id,
+              v_employee_record.employee_id,
+              v_current_date,
+              v_start_time,
+              v_end_time,
+              v_start_timestamp,
+              v_end_timestamp,
+              v_employee_capacity,
+              v_employee_capacity,
+              0,
+              true
+            );
+
+            v_slots_generated := v_slots_generated + 1;
+          END IF;
+
+          v_slot_start_minutes := v_slot_start_minutes + v_employee_duration;
+        END LOOP;
+
+      END LOOP;
+
+    END IF;
+
+    v_current_date := v_current_date + 1;
+  END LOOP;
+
+  RETURN v_slots_generated;
+END;
+$$;
+
+COMMENT ON TABLE tenant_closures IS 'Dates and times a tenant is closed: holidays, ranges, partial days, yearly recurring';
+COMMENT ON COLUMN slots.closed_by_closure_id IS 'Tenant closure that closed this slot; reopened when the closure is removed';
+COMMENT ON COLUMN bookings.closure_notified_at IS 'When the customer was notified that the booking falls on a tenant closure';
+COMMENT ON FUNCTION tenant_is_closed IS 'Checks whether a tenant has a closure overlapping a local date and time range';
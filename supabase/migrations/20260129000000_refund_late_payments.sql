@@ -0,0 +1,18 @@
+/*
+  # Refund Late Payments
+
+  1. Changes
+    - `payments.status` also allows `refunded` and `refund_failed`
+
+  2. Notes
+    - A provider can report success after the intent was expired or the booking cancelled. The
+      booking is no longer held, so the captured amount is refunded straight away: the payment
+      becomes `refunded`, or `refund_failed` when the provider refund did not go through and the
+      money has to be returned by hand.
+*/
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE payments ADD CONSTRAINT payments_status_check
+  CHECK (status IS NULL OR status IN ('pending', 'succeeded', 'failed', 'cancelled', 'expired', 'refunded', 'refund_failed'));
+
+COMMENT ON COLUMN payments.status IS 'Payment intent status: pending, succeeded, failed, cancelled, expired, refunded (late success returned), refund_failed (late success to return by hand)';
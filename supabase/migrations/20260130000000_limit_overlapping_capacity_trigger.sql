@@ -0,0 +1,30 @@
+/*
+  # Limit the Overlapping Capacity Trigger
+
+  1. Changes
+    - `trigger_reduce_overlapping_capacity` is replaced by two triggers on `bookings`:
+      - `trigger_reduce_overlapping_capacity_on_insert` - after insert, as before
+      - `trigger_reduce_overlapping_capacity_on_update` - only when `status` or `slot_id` changes
+
+  2. Notes
+    - `reduce_overlapping_slot_capacity` takes one unit off the employee's overlapping slots every
+      time it runs for a confirmed booking. It ran on every update, so any update of a confirmed
+      booking that is not a status or slot change (partial ticket check-in, partial refunds,
+      closure notices, no-show markers) took capacity the restore trigger never gave back.
+    - Capacity already lost this way is not recalculated here.
+*/
+
+DROP TRIGGER IF EXISTS trigger_reduce_overlapping_capacity ON bookings;
+
+DROP TRIGGER IF EXISTS trigger_reduce_overlapping_capacity_on_insert ON bookings;
+CREATE TRIGGER trigger_reduce_overlapping_capacity_on_insert
+  AFTER INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION reduce_overlapping_slot_capacity();
+
+DROP TRIGGER IF EXISTS trigger_reduce_overlapping_capacity_on_update ON bookings;
+CREATE TRIGGER trigger_reduce_overlapping_capacity_on_update
+  AFTER UPDATE OF status, slot_id ON bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.slot_id IS DISTINCT FROM NEW.slot_id)
+  EXECUTE FUNCTION reduce_overlapping_slot_capacity();
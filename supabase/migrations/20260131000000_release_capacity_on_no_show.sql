@@ -0,0 +1,98 @@
+/*
+  # Release Capacity on No-Show
+
+  1. Changes
+    - `restore_slot_capacity_on_booking` and `restore_overlapping_slot_capacity` treat marking a
+      confirmed booking as a no-show (`no_show_at` set) like cancelling it: the booked slot gets its
+      seats and booked count back, the employee's overlapping slots their unit.
+    - Checking in a booking that was marked a no-show takes them again.
+
+  2. Notes
+    - A no-show stays `confirmed` with `no_show_at` set (see the employee portal migration), so
+      completing or cancelling it afterwards releases nothing a second time.
+    - Both functions run after every update of a booking, so they see the marker being set and
+      cleared; the seats follow the same rules as a status change from and to `confirmed`.
+*/
+
+CREATE OR REPLACE FUNCTION restore_slot_capacity_on_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- When a confirmed booking is cancelled, completed or marked a no-show, restore capacity
+  IF OLD.status = 'confirmed' AND OLD.no_show_at IS NULL
+     AND (NEW.status IN ('cancelled', 'completed') OR (NEW.status = 'confirmed' AND NEW.no_show_at IS NOT NULL)) THEN
+    UPDATE slots
+    SET
+      available_capacity = LEAST(original_capacity, available_capacity + OLD.visitor_count),
+      booked_count = GREATEST(0, booked_count - OLD.visitor_count)
+    WHERE id = OLD.slot_id;
+  END IF;
+
+  -- When booking changes from pending to confirmed, or a no-show is checked in after all, reduce capacity
+  IF (OLD.status != 'confirmed' AND NEW.status = 'confirmed')
+     OR (OLD.status = 'confirmed' AND OLD.no_show_at IS NOT NULL
+         AND NEW.status IN ('confirmed', 'checked_in') AND NEW.no_show_at IS NULL) THEN
+    UPDATE slots
+    SET
+      available_capacity = GREATEST(0, available_capacity - NEW.visitor_count),
+      booked_count = booked_count + NEW.visitor_count
+    WHERE id = NEW.slot_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_overlapping_slot_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_slot_date date;
+  v_booking_start_time time;
+  v_booking_end_time time;
+  v_employee_id uuid;
+BEGIN
+  -- Only process when a confirmed booking is cancelled, completed or marked a no-show
+  IF OLD.status = 'confirmed' AND OLD.no_show_at IS NULL
+     AND (NEW.status IN ('cancelled', 'completed') OR (NEW.status = 'confirmed' AND NEW.no_show_at IS NOT NULL)) THEN
+    SELECT slot_date, start_time, end_time, employee_id
+    INTO v_booking_slot_date, v_booking_start_time, v_booking_end_time, v_employee_id
+    FROM slots
+    WHERE id = OLD.slot_id;
+
+    UPDATE slots
+    SET available_capacity = LEAST(original_capacity, available_capacity + 1)
+    WHERE employee_id = v_employee_id
+      AND id != OLD.slot_id
+      AND slot_date = v_booking_slot_date
+      AND (start_time < v_booking_end_time AND v_booking_start_time < end_time)
+      AND available_capacity < original_capacity;
+  END IF;
+
+  -- A no-show checked in after all holds the employee again (reduce_overlapping_slot_capacity
+  -- only handles confirmed bookings)
+  IF OLD.status = 'confirmed' AND OLD.no_show_at IS NOT NULL
+     AND NEW.status IN ('confirmed', 'checked_in') AND NEW.no_show_at IS NULL THEN
+    SELECT slot_date, start_time, end_time, employee_id
+    INTO v_booking_slot_date, v_booking_start_time, v_booking_end_time, v_employee_id
+    FROM slots
+    WHERE id = NEW.slot_id;
+
+    UPDATE slots
+    SET available_capacity = GREATEST(0, available_capacity - 1)
+    WHERE employee_id = v_employee_id
+      AND id != NEW.slot_id
+      AND slot_date = v_booking_slot_date
+      AND (start_time < v_booking_end_time AND v_booking_start_time < end_time)
+      AND available_capacity > 0;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON COLUMN bookings.no_show_at IS 'When staff marked the customer as a no-show (the seats are released); cleared on check-in';
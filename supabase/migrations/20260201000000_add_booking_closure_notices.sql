@@ -0,0 +1,58 @@
+/*
+  # Booking Closure Notices
+
+  1. Changes
+    - New `booking_closure_notices` table - One row per booking whose customer was told it falls on
+      a closure, keyed by booking and closure
+      - `booking_id` (uuid, foreign key to bookings)
+      - `closure_id` (uuid, foreign key to tenant_closures)
+      - `tenant_id` (uuid, foreign key to tenants)
+      - `notified_at` (timestamptz)
+    - Notices already recorded in `bookings.closure_notified_at` are copied to the closures their
+      booking falls in, then the column is dropped
+
+  2. Notes
+    - The closure notice job claims a row with INSERT ... ON CONFLICT before sending and deletes it
+      again when no channel succeeds. Claiming used to update the booking itself, and every update
+      of a confirmed booking runs the booking capacity triggers.
+    - A booking that falls in two closures gets a notice for each.
+*/
+
+CREATE TABLE IF NOT EXISTS booking_closure_notices (
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  closure_id uuid REFERENCES tenant_closures(id) ON DELETE CASCADE NOT NULL,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE NOT NULL,
+  notified_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (booking_id, closure_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_closure_notices_closure ON booking_closure_notices(closure_id);
+
+ALTER TABLE booking_closure_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant staff can view booking closure notices"
+  ON booking_closure_notices FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT tenant_id FROM users WHERE id = auth.uid()));
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'closure_notified_at'
+  ) THEN
+    INSERT INTO booking_closure_notices (booking_id, closure_id, tenant_id, notified_at)
+    SELECT b.id, c.id, c.tenant_id, b.closure_notified_at
+    FROM bookings b
+    JOIN slots sl ON b.slot_id = sl.id
+    JOIN tenant_closures c ON sl.tenant_id = c.tenant_id
+    WHERE b.closure_notified_at IS NOT NULL
+      AND closure_applies_on(c.start_date, c.end_date, c.recurs_yearly, sl.slot_date)
+      AND (c.start_time IS NULL OR (c.start_time < sl.end_time AND sl.start_time < c.end_time))
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE bookings DROP COLUMN closure_notified_at;
+  END IF;
+END $$;
+
+COMMENT ON TABLE booking_closure_notices IS 'Bookings whose customer was notified that the booking falls on a tenant closure';